@@ -4,45 +4,60 @@
  */
 
 import { Stack } from "expo-router";
+import { DatabaseGate } from "../../src/components/DatabaseGate";
 
 export default function AdminLayout() {
   return (
-    <Stack
-      screenOptions={{
-        headerStyle: {
-          backgroundColor: "#dc2626",
-        },
-        headerTintColor: "#fff",
-        headerTitleStyle: {
-          fontWeight: "600",
-        },
-      }}
-    >
-      <Stack.Screen
-        name="dashboard"
-        options={{
-          title: "Admin Dashboard",
-          headerLargeTitle: true,
+    <DatabaseGate>
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: "#dc2626",
+          },
+          headerTintColor: "#fff",
+          headerTitleStyle: {
+            fontWeight: "600",
+          },
         }}
-      />
-      <Stack.Screen
-        name="users"
-        options={{
-          title: "User Management",
-        }}
-      />
-      <Stack.Screen
-        name="reports"
-        options={{
-          title: "All Reports",
-        }}
-      />
-      <Stack.Screen
-        name="audit-log"
-        options={{
-          title: "Audit Log",
-        }}
-      />
-    </Stack>
+      >
+        <Stack.Screen
+          name="dashboard"
+          options={{
+            title: "Admin Dashboard",
+            headerLargeTitle: true,
+          }}
+        />
+        <Stack.Screen
+          name="users"
+          options={{
+            title: "User Management",
+          }}
+        />
+        <Stack.Screen
+          name="reports"
+          options={{
+            title: "All Reports",
+          }}
+        />
+        <Stack.Screen
+          name="jobs"
+          options={{
+            title: "Scheduled Jobs",
+          }}
+        />
+        <Stack.Screen
+          name="analytics"
+          options={{
+            title: "Analytics",
+          }}
+        />
+        <Stack.Screen
+          name="audit-log"
+          options={{
+            title: "Audit Log",
+          }}
+        />
+      </Stack>
+    </DatabaseGate>
   );
 }
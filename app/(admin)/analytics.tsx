@@ -0,0 +1,480 @@
+/**
+ * Analytics Screen
+ * Inspector productivity, review outcomes, defect trends and regions
+ */
+
+import React, { useEffect, useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import * as Sharing from "expo-sharing";
+import {
+  analyticsService,
+  type AnalyticsSourcePreference,
+} from "../../src/services/analytics-service";
+import { dateRangeForPreset, type AnalyticsRangePreset } from "../../src/lib/analytics";
+import type { AdminAnalytics, DistributionBucket } from "../../src/types/shared";
+
+const RANGE_OPTIONS: { value: AnalyticsRangePreset; label: string }[] = [
+  { value: "LAST_7_DAYS", label: "7 days" },
+  { value: "LAST_30_DAYS", label: "30 days" },
+  { value: "LAST_90_DAYS", label: "90 days" },
+  { value: "THIS_YEAR", label: "This year" },
+  { value: "ALL", label: "All" },
+];
+
+const formatKey = (key: string) =>
+  key
+    .split("_")
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(" ");
+
+const formatPercent = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`);
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "—";
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round((hours / 24) * 10) / 10}d`;
+};
+
+export default function AnalyticsScreen() {
+  const [preset, setPreset] = useState<AnalyticsRangePreset>("LAST_30_DAYS");
+  const [source, setSource] = useState<AnalyticsSourcePreference>("local");
+  const [analytics, setAnalytics] = useState<AdminAnalytics | null>(null);
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const loadAnalytics = useCallback(async () => {
+    const result = await analyticsService.getAnalytics(dateRangeForPreset(preset), source);
+    if (result.success && result.analytics) {
+      setAnalytics(result.analytics);
+      setFallbackReason(result.fallbackReason ?? null);
+    } else {
+      console.error("[Analytics] Failed to load:", result.error);
+    }
+    setIsLoading(false);
+  }, [preset, source]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadAnalytics();
+    setIsRefreshing(false);
+  };
+
+  const handleExport = async () => {
+    if (!analytics || isExporting) return;
+    setIsExporting(true);
+    try {
+      const result = await analyticsService.exportCsv(analytics);
+      if (!result.success || !result.uri) {
+        Alert.alert("Export Failed", result.error || "Could not export analytics");
+        return;
+      }
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(result.uri, {
+          mimeType: "text/csv",
+          UTI: "public.comma-separated-values-text",
+          dialogTitle: "Share analytics CSV",
+        });
+      } else {
+        Alert.alert("CSV Exported", `Saved to ${result.uri}`);
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderDistribution = (title: string, buckets: DistributionBucket[]) => {
+    const max = Math.max(1, ...buckets.map((bucket) => bucket.count));
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        {buckets.length === 0 ? (
+          <Text style={styles.emptyText}>No defects in this period</Text>
+        ) : (
+          buckets.map((bucket) => (
+            <View key={bucket.key} style={styles.barRow}>
+              <Text style={styles.barLabel} numberOfLines={1}>
+                {formatKey(bucket.key)}
+              </Text>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { width: `${(bucket.count / max) * 100}%` }]} />
+              </View>
+              <Text style={styles.barCount}>{bucket.count}</Text>
+            </View>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading && !analytics) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#dc2626" />
+        <Text style={styles.loadingText}>Loading analytics...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          colors={["#dc2626"]}
+          tintColor="#dc2626"
+        />
+      }
+    >
+      {/* Filters */}
+      <View style={styles.filterBar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {RANGE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, preset === option.value && styles.chipActive]}
+              onPress={() => setPreset(option.value)}
+            >
+              <Text style={[styles.chipText, preset === option.value && styles.chipTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <View style={styles.sourceRow}>
+          {(["local", "server"] as const).map((value) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, source === value && styles.chipActive]}
+              onPress={() => setSource(value)}
+            >
+              <Text style={[styles.chipText, source === value && styles.chipTextActive]}>
+                {value === "local" ? "This device" : "Server"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.exportButton} onPress={handleExport} disabled={!analytics || isExporting}>
+            {isExporting ? (
+              <ActivityIndicator size="small" color="#dc2626" />
+            ) : (
+              <Text style={styles.exportText}>Export CSV</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+        {fallbackReason && (
+          <Text style={styles.fallbackText}>Server unavailable — showing this device's data ({fallbackReason})</Text>
+        )}
+      </View>
+
+      {analytics && (
+        <>
+          {/* Summary */}
+          <View style={styles.statsGrid}>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{analytics.totalReports}</Text>
+              <Text style={styles.statLabel}>Reports</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{analytics.totalDefects}</Text>
+              <Text style={styles.statLabel}>Defects</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{formatHours(analytics.approvalTime.averageHours)}</Text>
+              <Text style={styles.statLabel}>Avg. to Approval</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{formatHours(analytics.approvalTime.medianHours)}</Text>
+              <Text style={styles.statLabel}>Median to Approval</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{formatPercent(analytics.reviewOutcomes.rejectionRate)}</Text>
+              <Text style={styles.statLabel}>Rejection Rate</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{formatPercent(analytics.reviewOutcomes.revisionRate)}</Text>
+              <Text style={styles.statLabel}>Revision Rate</Text>
+            </View>
+          </View>
+
+          {/* Review outcomes */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Review Decisions</Text>
+            <View style={styles.tableRow}>
+              <Text style={styles.tableLabel}>Reports reviewed</Text>
+              <Text style={styles.tableValue}>{analytics.reviewOutcomes.reviewed}</Text>
+            </View>
+            <View style={styles.tableRow}>
+              <Text style={styles.tableLabel}>Approved</Text>
+              <Text style={styles.tableValue}>{analytics.reviewOutcomes.approvals}</Text>
+            </View>
+            <View style={styles.tableRow}>
+              <Text style={styles.tableLabel}>Rejected</Text>
+              <Text style={styles.tableValue}>{analytics.reviewOutcomes.rejections}</Text>
+            </View>
+            <View style={styles.tableRow}>
+              <Text style={styles.tableLabel}>Revision requested</Text>
+              <Text style={styles.tableValue}>{analytics.reviewOutcomes.revisions}</Text>
+            </View>
+          </View>
+
+          {/* Inspector productivity */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Reports per Inspector per Week</Text>
+            {analytics.reportsPerInspectorWeek.length === 0 ? (
+              <Text style={styles.emptyText}>No reports in this period</Text>
+            ) : (
+              analytics.reportsPerInspectorWeek.map((row) => (
+                <View key={`${row.inspectorId}-${row.weekStart}`} style={styles.tableRow}>
+                  <View style={styles.tableLabelGroup}>
+                    <Text style={styles.tableLabel} numberOfLines={1}>
+                      {row.inspectorName}
+                    </Text>
+                    <Text style={styles.tableMeta}>Week of {row.weekStart}</Text>
+                  </View>
+                  <Text style={styles.tableValue}>{row.reports}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {renderDistribution("Defects by Class", analytics.defectsByClass)}
+          {renderDistribution("Defects by Severity", analytics.defectsBySeverity)}
+          {renderDistribution("Defects by Element", analytics.defectsByElementType)}
+
+          {/* Region heatmap */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Regions</Text>
+            {analytics.regions.length === 0 ? (
+              <Text style={styles.emptyText}>No reports in this period</Text>
+            ) : (
+              <View style={styles.heatGrid}>
+                {analytics.regions.map((cell) => (
+                  <View
+                    key={cell.region}
+                    style={[
+                      styles.heatCell,
+                      { backgroundColor: `rgba(220, 38, 38, ${0.1 + cell.intensity * 0.8})` },
+                    ]}
+                  >
+                    <Text style={[styles.heatRegion, cell.intensity > 0.5 && styles.heatTextLight]} numberOfLines={1}>
+                      {cell.region}
+                    </Text>
+                    <Text style={[styles.heatMeta, cell.intensity > 0.5 && styles.heatTextLight]}>
+                      {cell.reports} reports • {cell.defects} defects
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        </>
+      )}
+
+      {/* Bottom Padding */}
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: "#6b7280",
+  },
+  filterBar: {
+    backgroundColor: "#fff",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    gap: 8,
+  },
+  sourceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: "#dc2626",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#6b7280",
+  },
+  chipTextActive: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  exportButton: {
+    marginLeft: "auto",
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  exportText: {
+    fontSize: 13,
+    color: "#dc2626",
+    fontWeight: "600",
+  },
+  fallbackText: {
+    fontSize: 12,
+    color: "#d97706",
+  },
+  statsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    padding: 12,
+    gap: 12,
+  },
+  statCard: {
+    flex: 1,
+    minWidth: "45%",
+    backgroundColor: "#fff",
+    padding: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  statValue: {
+    fontSize: 26,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  statLabel: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 4,
+  },
+  section: {
+    backgroundColor: "#fff",
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 12,
+  },
+  tableRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  tableLabelGroup: {
+    flex: 1,
+  },
+  tableLabel: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  tableMeta: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  tableValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+    marginLeft: 12,
+  },
+  barRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  barLabel: {
+    width: 130,
+    fontSize: 13,
+    color: "#374151",
+  },
+  barTrack: {
+    flex: 1,
+    height: 10,
+    backgroundColor: "#f3f4f6",
+    borderRadius: 5,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: "100%",
+    backgroundColor: "#dc2626",
+    borderRadius: 5,
+  },
+  barCount: {
+    width: 36,
+    textAlign: "right",
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  heatGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  heatCell: {
+    minWidth: "47%",
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+  },
+  heatRegion: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  heatMeta: {
+    fontSize: 12,
+    color: "#374151",
+    marginTop: 2,
+  },
+  heatTextLight: {
+    color: "#fff",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#9ca3af",
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+});
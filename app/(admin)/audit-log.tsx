@@ -84,8 +84,24 @@ export default function AuditLogScreen() {
         return "✅";
       case "REJECTED":
         return "❌";
+      case "REVISION_REQUESTED":
+        return "↩️";
+      case "FINALISED":
+        return "🔒";
       case "PDF_GENERATED":
         return "📄";
+      case "USER_SUSPENDED":
+        return "⛔";
+      case "USER_ACTIVATED":
+        return "✅";
+      case "USER_ROLE_CHANGED":
+        return "🔄";
+      case "USER_INVITED":
+        return "✉️";
+      case "USER_ACTION_SYNCED":
+        return "📤";
+      case "USER_ACTION_FAILED":
+        return "❌";
       default:
         return "📝";
     }
@@ -102,6 +118,17 @@ export default function AuditLogScreen() {
       case "REJECTED":
         return "#dc2626";
       case "SUBMITTED":
+      case "REVISION_REQUESTED":
+        return "#d97706";
+      case "FINALISED":
+        return "#7c3aed";
+      case "USER_SUSPENDED":
+      case "USER_ACTION_FAILED":
+        return "#dc2626";
+      case "USER_ACTIVATED":
+      case "USER_INVITED":
+        return "#059669";
+      case "USER_ROLE_CHANGED":
         return "#d97706";
       default:
         return "#3c4b5d";
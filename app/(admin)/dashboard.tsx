@@ -179,6 +179,24 @@ export default function AdminDashboardScreen() {
             <Text style={styles.actionCount}>{stats?.totalReports || 0} total</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.actionCard}
+            onPress={() => router.push("/(admin)/jobs")}
+          >
+            <Text style={styles.actionIcon}>🗓️</Text>
+            <Text style={styles.actionLabel}>Jobs</Text>
+            <Text style={styles.actionCount}>Book inspections</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.actionCard}
+            onPress={() => router.push("/(admin)/analytics")}
+          >
+            <Text style={styles.actionIcon}>📈</Text>
+            <Text style={styles.actionLabel}>Analytics</Text>
+            <Text style={styles.actionCount}>Trends & export</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.actionCard}
             onPress={() => router.push("/(admin)/audit-log")}
@@ -0,0 +1,562 @@
+/**
+ * Scheduled Jobs Screen
+ * Admin screen for booking inspections and assigning them to inspectors
+ */
+
+import React, { useEffect, useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { scheduledJobService } from "../../src/services/scheduled-job-service";
+import type { LocalManagedUser, LocalTemplate } from "../../src/types/database";
+import {
+  InspectionType,
+  UserRole,
+  UserStatus,
+  type ScheduledJob,
+  type ScheduledJobInput,
+} from "../../src/types/shared";
+
+interface JobForm {
+  propertyAddress: string;
+  propertyCity: string;
+  propertyRegion: string;
+  propertyPostcode: string;
+  clientName: string;
+  clientEmail: string;
+  clientPhone: string;
+  inspectionType: InspectionType;
+  templateId: string | null;
+  dueDay: string; // YYYY-MM-DD
+  dueTime: string; // HH:MM
+  assignedInspectorId: string;
+  notes: string;
+}
+
+const EMPTY_FORM: JobForm = {
+  propertyAddress: "",
+  propertyCity: "",
+  propertyRegion: "",
+  propertyPostcode: "",
+  clientName: "",
+  clientEmail: "",
+  clientPhone: "",
+  inspectionType: InspectionType.FULL_INSPECTION,
+  templateId: null,
+  dueDay: "",
+  dueTime: "09:00",
+  assignedInspectorId: "",
+  notes: "",
+};
+
+const STATUS_COLORS: Record<ScheduledJob["status"], string> = {
+  SCHEDULED: "#3b82f6",
+  IN_PROGRESS: "#f59e0b",
+  COMPLETED: "#059669",
+  CANCELLED: "#6b7280",
+};
+
+const formatLabel = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, " ");
+
+/**
+ * The form's due date as an ISO timestamp, read in the device's time zone
+ */
+function dueDateFromForm(form: JobForm): string {
+  const day = form.dueDay.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const time = form.dueTime.match(/^(\d{1,2}):(\d{2})$/);
+  if (!day || !time) return "";
+  const date = new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]), Number(time[1]), Number(time[2]));
+  return isNaN(date.getTime()) ? "" : date.toISOString();
+}
+
+function inputFromForm(form: JobForm): ScheduledJobInput {
+  return {
+    propertyAddress: form.propertyAddress.trim(),
+    propertyCity: form.propertyCity.trim(),
+    propertyRegion: form.propertyRegion.trim() || null,
+    propertyPostcode: form.propertyPostcode.trim() || null,
+    propertyType: null,
+    clientName: form.clientName.trim(),
+    clientEmail: form.clientEmail.trim() || null,
+    clientPhone: form.clientPhone.trim() || null,
+    inspectionType: form.inspectionType,
+    templateId: form.templateId,
+    dueDate: dueDateFromForm(form),
+    assignedInspectorId: form.assignedInspectorId,
+    notes: form.notes.trim() || null,
+  };
+}
+
+export default function ScheduledJobsScreen() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [inspectors, setInspectors] = useState<LocalManagedUser[]>([]);
+  const [templates, setTemplates] = useState<LocalTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState<JobForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const result = await scheduledJobService.listAllJobs();
+      setJobs(result.jobs);
+      setLoadError(result.success ? null : result.error || "Failed to load jobs");
+    } catch (error) {
+      console.error("[ScheduledJobs] Failed to load jobs:", error);
+      setLoadError("Failed to load jobs");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadPickers = useCallback(async () => {
+    try {
+      const sqlite = await import("../../src/lib/sqlite");
+      const [users, allTemplates] = await Promise.all([sqlite.getManagedUsers(), sqlite.getAllTemplates()]);
+      setInspectors(users.filter((u) => u.role === UserRole.INSPECTOR && u.status === UserStatus.ACTIVE));
+      setTemplates(allTemplates);
+    } catch (error) {
+      console.error("[ScheduledJobs] Failed to load inspectors and templates:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+    loadPickers();
+  }, [loadJobs, loadPickers]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadJobs();
+    setIsRefreshing(false);
+  };
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setShowCreate(true);
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const result = await scheduledJobService.createJob(inputFromForm(form));
+      if (!result.success || !result.job) {
+        Alert.alert("Book Job", result.error || "Failed to create job");
+        return;
+      }
+      setJobs((prev) => [...prev, result.job!].sort((a, b) => a.dueDate.localeCompare(b.dueDate)));
+      setShowCreate(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inspectorName = (job: ScheduledJob) =>
+    job.assignedInspectorName ||
+    inspectors.find((u) => u.id === job.assignedInspectorId)?.name ||
+    "Unknown inspector";
+
+  const renderJobItem = ({ item }: { item: ScheduledJob }) => (
+    <View style={styles.jobCard}>
+      <View style={styles.jobHeader}>
+        <Text style={styles.jobAddress} numberOfLines={1}>
+          {item.propertyAddress}, {item.propertyCity}
+        </Text>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[item.status] }]}>
+          <Text style={styles.statusText}>{formatLabel(item.status)}</Text>
+        </View>
+      </View>
+      <Text style={styles.jobMeta}>
+        {new Date(item.dueDate).toLocaleString("en-NZ", {
+          weekday: "short",
+          day: "numeric",
+          month: "short",
+          hour: "numeric",
+          minute: "2-digit",
+        })}{" "}
+        • {formatLabel(item.inspectionType)}
+      </Text>
+      <Text style={styles.jobMeta}>
+        {item.clientName} • {inspectorName(item)}
+      </Text>
+      {item.notes && <Text style={styles.jobNotes}>{item.notes}</Text>}
+    </View>
+  );
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderField = (
+    label: string,
+    field: keyof JobForm,
+    placeholder: string,
+    extra?: Partial<React.ComponentProps<typeof TextInput>>
+  ) => (
+    <>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.fieldInput}
+        value={(form[field] as string) ?? ""}
+        onChangeText={(value) => setForm({ ...form, [field]: value })}
+        placeholder={placeholder}
+        placeholderTextColor="#9ca3af"
+        {...extra}
+      />
+    </>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#dc2626" />
+        <Text style={styles.loadingText}>Loading jobs...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.statsBar}>
+        <Text style={styles.statsText}>
+          {jobs.length} job{jobs.length !== 1 ? "s" : ""}
+        </Text>
+        <TouchableOpacity onPress={openCreate}>
+          <Text style={styles.createLink}>+ Book Job</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loadError && (
+        <View style={styles.errorBanner}>
+          <Text style={styles.errorText}>{loadError}. Jobs can only be managed online.</Text>
+        </View>
+      )}
+
+      <FlatList
+        data={jobs}
+        keyExtractor={(item) => item.id}
+        renderItem={renderJobItem}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={["#dc2626"]}
+            tintColor="#dc2626"
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🗓️</Text>
+            <Text style={styles.emptyTitle}>No Scheduled Jobs</Text>
+            <Text style={styles.emptyText}>Book a job to put it on an inspector's agenda</Text>
+          </View>
+        }
+      />
+
+      {/* Book Job */}
+      <Modal
+        visible={showCreate}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowCreate(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowCreate(false)}>
+              <Text style={styles.modalCancel}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Book Job</Text>
+            <TouchableOpacity onPress={handleCreate} disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#dc2626" />
+              ) : (
+                <Text style={styles.modalSave}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {renderField("Property Address", "propertyAddress", "12 Example Street")}
+            {renderField("City", "propertyCity", "Auckland")}
+            {renderField("Region (optional)", "propertyRegion", "Auckland")}
+            {renderField("Postcode (optional)", "propertyPostcode", "1010", { keyboardType: "number-pad" })}
+            {renderField("Client Name", "clientName", "Client name")}
+            {renderField("Client Email (optional)", "clientEmail", "client@example.co.nz", {
+              autoCapitalize: "none",
+              keyboardType: "email-address",
+            })}
+            {renderField("Client Phone (optional)", "clientPhone", "021 123 4567", { keyboardType: "phone-pad" })}
+
+            <Text style={styles.fieldLabel}>Inspection Type</Text>
+            <View style={styles.chipRow}>
+              {Object.values(InspectionType).map((type) =>
+                renderChip(formatLabel(type), form.inspectionType === type, () => setForm({ ...form, inspectionType: type }), type)
+              )}
+            </View>
+
+            <Text style={styles.fieldLabel}>Template</Text>
+            <View style={styles.chipRow}>
+              {renderChip("None", form.templateId === null, () => setForm({ ...form, templateId: null }), "none")}
+              {templates.map((template) =>
+                renderChip(
+                  template.name,
+                  form.templateId === template.id,
+                  () => setForm({ ...form, templateId: template.id }),
+                  template.id
+                )
+              )}
+            </View>
+
+            <View style={styles.dueRow}>
+              <View style={styles.dueDay}>
+                {renderField("Due Date", "dueDay", "YYYY-MM-DD", { keyboardType: "numbers-and-punctuation" })}
+              </View>
+              <View style={styles.dueTime}>
+                {renderField("Time", "dueTime", "HH:MM", { keyboardType: "numbers-and-punctuation" })}
+              </View>
+            </View>
+
+            <Text style={styles.fieldLabel}>Inspector</Text>
+            {inspectors.length === 0 ? (
+              <Text style={styles.modalHint}>No active inspectors. Refresh User Management while online.</Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {inspectors.map((inspector) =>
+                  renderChip(
+                    inspector.name,
+                    form.assignedInspectorId === inspector.id,
+                    () => setForm({ ...form, assignedInspectorId: inspector.id }),
+                    inspector.id
+                  )
+                )}
+              </View>
+            )}
+
+            {renderField("Notes (optional)", "notes", "Access instructions, keys, pets...", { multiline: true })}
+
+            <Text style={styles.modalHint}>
+              The job reaches the inspector's device on their next sync.
+            </Text>
+          </ScrollView>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: "#6b7280",
+  },
+  statsBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  statsText: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  createLink: {
+    fontSize: 13,
+    color: "#dc2626",
+    fontWeight: "600",
+  },
+  errorBanner: {
+    backgroundColor: "#fef2f2",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#fecaca",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#b91c1c",
+  },
+  listContent: {
+    padding: 16,
+  },
+  jobCard: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  jobHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  jobAddress: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+    marginRight: 8,
+  },
+  statusBadge: {
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  statusText: {
+    fontSize: 11,
+    color: "#fff",
+    fontWeight: "600",
+  },
+  jobMeta: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  jobNotes: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: 6,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    padding: 16,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  modalCancel: {
+    fontSize: 15,
+    color: "#6b7280",
+  },
+  modalSave: {
+    fontSize: 15,
+    color: "#dc2626",
+    fontWeight: "600",
+  },
+  modalHint: {
+    marginTop: 12,
+    marginBottom: 24,
+    fontSize: 12,
+    color: "#6b7280",
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#374151",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  fieldInput: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#111827",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  chipActive: {
+    backgroundColor: "#dc2626",
+    borderColor: "#dc2626",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#374151",
+  },
+  chipTextActive: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  dueRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  dueDay: {
+    flex: 2,
+  },
+  dueTime: {
+    flex: 1,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 60,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+  },
+});
@@ -14,23 +14,53 @@ import {
   TextInput,
   Alert,
   ActivityIndicator,
+  Modal,
 } from "react-native";
 import { RoleBadge } from "../../src/components/badges";
-import { getAllUsers } from "../../src/lib/sqlite";
-import type { LocalUser } from "../../src/types/database";
-import { UserRole, UserStatus } from "../../src/types/shared";
+import { issueDeviceDirective } from "../../src/lib/api";
+import { userAdminService, type UserAdminActor, type UserAdminResult } from "../../src/services/user-admin-service";
+import { useAuthStore, selectUser } from "../../src/stores/auth-store";
+import type { LocalManagedUser } from "../../src/types/database";
+import {
+  UserRole,
+  UserStatus,
+  type DeviceDirectiveAction,
+  type UserAdminAction,
+  type UserInvite,
+} from "../../src/types/shared";
+
+const ROLES = [UserRole.INSPECTOR, UserRole.REVIEWER, UserRole.ADMIN];
+
+const EMPTY_INVITE: UserInvite = { email: "", name: "", role: UserRole.INSPECTOR, company: null };
+
+const formatRole = (role: UserRole) => role.charAt(0) + role.slice(1).toLowerCase();
 
 export default function UserManagementScreen() {
-  const [users, setUsers] = useState<LocalUser[]>([]);
+  const authUser = useAuthStore(selectUser);
+  const [users, setUsers] = useState<LocalManagedUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [roleFilter, setRoleFilter] = useState<UserRole | "ALL">("ALL");
+  const [wipingUserId, setWipingUserId] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [showInvite, setShowInvite] = useState(false);
+  const [invite, setInvite] = useState<UserInvite>(EMPTY_INVITE);
+  const [isInviting, setIsInviting] = useState(false);
 
-  const loadUsers = useCallback(async () => {
+  const actor: UserAdminActor | null = authUser ? { id: authUser.sub, name: authUser.name } : null;
+
+  const loadUsers = useCallback(async (fromServer: boolean) => {
     try {
-      const allUsers = await getAllUsers();
-      setUsers(allUsers);
+      if (fromServer) {
+        const result = await userAdminService.refreshUsers();
+        setUsers(result.users);
+        if (!result.success) {
+          console.warn("[UserManagement] Showing cached directory:", result.error);
+        }
+      } else {
+        setUsers(await userAdminService.getUsers());
+      }
     } catch (error) {
       console.error("[UserManagement] Failed to load users:", error);
     } finally {
@@ -39,37 +69,124 @@ export default function UserManagementScreen() {
   }, []);
 
   useEffect(() => {
-    loadUsers();
+    // Cached directory first, then the server's copy
+    loadUsers(false).then(() => loadUsers(true));
   }, [loadUsers]);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await loadUsers();
+    await loadUsers(true);
     setIsRefreshing(false);
   };
 
-  const handleUserAction = (user: LocalUser, action: "suspend" | "activate" | "changeRole") => {
+  const reportResult = (result: UserAdminResult, done: string) => {
+    if (!result.success) {
+      Alert.alert("Error", result.error || "The action could not be completed");
+    } else if (result.queued) {
+      Alert.alert("Saved Offline", `${done} It will be sent to the server on the next sync.`);
+    }
+  };
+
+  const runAction = async (user: LocalManagedUser, action: Omit<UserAdminAction, "userId" | "requestedAt">, done: string) => {
+    if (!actor) return;
+    setBusyUserId(user.id);
+    try {
+      const result = await userAdminService.performAction(
+        { ...action, userId: user.id, requestedAt: new Date().toISOString() },
+        actor
+      );
+      reportResult(result, done);
+      await loadUsers(false);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleUserAction = (user: LocalManagedUser, action: "suspend" | "activate") => {
+    const isSuspend = action === "suspend";
     Alert.alert(
-      action === "suspend"
-        ? "Suspend User"
-        : action === "activate"
-        ? "Activate User"
-        : "Change Role",
-      `Are you sure you want to ${action} ${user.name}?`,
+      isSuspend ? "Suspend User" : "Activate User",
+      isSuspend
+        ? `${user.name} will be signed out and unable to sign in until reactivated.`
+        : `Allow ${user.name} to sign in again?`,
       [
         { text: "Cancel", style: "cancel" },
         {
-          text: "Confirm",
-          onPress: () => {
-            // In a real app, this would call an API
-            console.log(`[UserManagement] ${action} user:`, user.id);
-            Alert.alert("Success", `User ${action} action completed`);
-          },
+          text: isSuspend ? "Suspend" : "Activate",
+          style: isSuspend ? "destructive" : "default",
+          onPress: () =>
+            runAction(
+              user,
+              { type: isSuspend ? "SUSPEND" : "ACTIVATE" },
+              `${user.name} ${isSuspend ? "suspended" : "activated"}.`
+            ),
         },
       ]
     );
   };
 
+  const handleChangeRole = (user: LocalManagedUser) => {
+    Alert.alert(
+      "Change Role",
+      `${user.name} is currently ${formatRole(user.role).toLowerCase()}.`,
+      [
+        ...ROLES.filter((role) => role !== user.role).map((role) => ({
+          text: formatRole(role),
+          onPress: () => runAction(user, { type: "CHANGE_ROLE", role }, `${user.name} changed to ${formatRole(role).toLowerCase()}.`),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  };
+
+  const handleInvite = async () => {
+    if (!actor) return;
+    setIsInviting(true);
+    try {
+      const result = await userAdminService.invite(invite, actor);
+      if (!result.success) {
+        Alert.alert("Invite User", result.error || "The invitation could not be sent");
+        return;
+      }
+      reportResult(result, `Invitation for ${invite.email.trim()} saved.`);
+      setShowInvite(false);
+      setInvite(EMPTY_INVITE);
+      await loadUsers(false);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const sendDeviceDirective = async (user: LocalManagedUser, action: DeviceDirectiveAction) => {
+    setWipingUserId(user.id);
+    try {
+      const result = await issueDeviceDirective(user.id, action, "Issued from mobile admin");
+      if (result.success) {
+        Alert.alert(
+          action === "WIPE" ? "Wipe Scheduled" : "Deprovision Scheduled",
+          `${user.name}'s devices will push any unsynced evidence and then remove all local data the next time they connect.`
+        );
+      } else {
+        Alert.alert("Error", result.error || "Could not issue the directive. Check your connection.");
+      }
+    } finally {
+      setWipingUserId(null);
+    }
+  };
+
+  const handleWipeDevices = (user: LocalManagedUser) => {
+    Alert.alert(
+      "Wipe Devices",
+      `Remove all inspection data from ${user.name}'s devices? Unsynced evidence is pushed first where possible. ` +
+        "Deprovision also resets the device so it must be set up again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Wipe", style: "destructive", onPress: () => sendDeviceDirective(user, "WIPE") },
+        { text: "Deprovision", style: "destructive", onPress: () => sendDeviceDirective(user, "DEPROVISION") },
+      ]
+    );
+  };
+
   const filteredUsers = users.filter((user) => {
     // Role filter
     if (roleFilter !== "ALL" && user.role !== roleFilter) {
@@ -102,7 +219,7 @@ export default function UserManagementScreen() {
     }
   };
 
-  const renderUserItem = ({ item }: { item: LocalUser }) => (
+  const renderUserItem = ({ item }: { item: LocalManagedUser }) => (
     <View style={styles.userCard}>
       <View style={styles.userHeader}>
         <View style={styles.userInfo}>
@@ -119,6 +236,14 @@ export default function UserManagementScreen() {
 
       <Text style={styles.userEmail}>{item.email}</Text>
 
+      {item.pendingAction && (
+        <View style={styles.pendingBadge}>
+          <Text style={styles.pendingText}>
+            {item.pendingAction === "INVITE" ? "Invitation pending sync" : "Change pending sync"}
+          </Text>
+        </View>
+      )}
+
       <View style={styles.userMeta}>
         {item.company && (
           <Text style={styles.metaText}>Company: {item.company}</Text>
@@ -132,10 +257,13 @@ export default function UserManagementScreen() {
       </View>
 
       <View style={styles.userActions}>
-        {item.status === "ACTIVE" ? (
+        {busyUserId === item.id ? (
+          <ActivityIndicator size="small" color="#dc2626" style={styles.actionButton} />
+        ) : item.status === "ACTIVE" ? (
           <TouchableOpacity
             style={styles.actionButton}
             onPress={() => handleUserAction(item, "suspend")}
+            disabled={item.pendingAction === "INVITE"}
           >
             <Text style={styles.suspendText}>Suspend</Text>
           </TouchableOpacity>
@@ -143,16 +271,29 @@ export default function UserManagementScreen() {
           <TouchableOpacity
             style={styles.actionButton}
             onPress={() => handleUserAction(item, "activate")}
+            disabled={item.pendingAction === "INVITE"}
           >
             <Text style={styles.activateText}>Activate</Text>
           </TouchableOpacity>
         )}
         <TouchableOpacity
           style={styles.actionButton}
-          onPress={() => handleUserAction(item, "changeRole")}
+          onPress={() => handleChangeRole(item)}
+          disabled={busyUserId === item.id}
         >
           <Text style={styles.changeRoleText}>Change Role</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleWipeDevices(item)}
+          disabled={wipingUserId === item.id}
+        >
+          {wipingUserId === item.id ? (
+            <ActivityIndicator size="small" color="#dc2626" />
+          ) : (
+            <Text style={styles.suspendText}>Wipe Devices</Text>
+          )}
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -185,7 +326,7 @@ export default function UserManagementScreen() {
                 roleFilter === role && styles.filterTabTextActive,
               ]}
             >
-              {role === "ALL" ? "All" : role.charAt(0) + role.slice(1).toLowerCase()}
+              {role === "ALL" ? "All" : formatRole(role)}
             </Text>
           </TouchableOpacity>
         ))}
@@ -208,6 +349,9 @@ export default function UserManagementScreen() {
           {filteredUsers.length} user{filteredUsers.length !== 1 ? "s" : ""}
           {roleFilter !== "ALL" && ` (${roleFilter.toLowerCase()}s)`}
         </Text>
+        <TouchableOpacity onPress={() => setShowInvite(true)} disabled={!actor}>
+          <Text style={styles.inviteLink}>+ Invite User</Text>
+        </TouchableOpacity>
       </View>
 
       {/* User List */}
@@ -236,6 +380,78 @@ export default function UserManagementScreen() {
           </View>
         }
       />
+
+      {/* Invite User */}
+      <Modal
+        visible={showInvite}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowInvite(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowInvite(false)}>
+              <Text style={styles.modalCancel}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Invite User</Text>
+            <TouchableOpacity onPress={handleInvite} disabled={isInviting}>
+              {isInviting ? (
+                <ActivityIndicator size="small" color="#dc2626" />
+              ) : (
+                <Text style={styles.modalSend}>Send</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.fieldLabel}>Name</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={invite.name}
+            onChangeText={(name) => setInvite({ ...invite, name })}
+            placeholder="Full name"
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.fieldLabel}>Email</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={invite.email}
+            onChangeText={(email) => setInvite({ ...invite, email })}
+            placeholder="name@company.co.nz"
+            placeholderTextColor="#9ca3af"
+            autoCapitalize="none"
+            keyboardType="email-address"
+          />
+
+          <Text style={styles.fieldLabel}>Company (optional)</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={invite.company ?? ""}
+            onChangeText={(company) => setInvite({ ...invite, company: company || null })}
+            placeholder="Company"
+            placeholderTextColor="#9ca3af"
+          />
+
+          <Text style={styles.fieldLabel}>Role</Text>
+          <View style={styles.roleOptions}>
+            {ROLES.map((role) => (
+              <TouchableOpacity
+                key={role}
+                style={[styles.filterTab, invite.role === role && styles.filterTabActive]}
+                onPress={() => setInvite({ ...invite, role })}
+              >
+                <Text style={[styles.filterTabText, invite.role === role && styles.filterTabTextActive]}>
+                  {formatRole(role)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.modalHint}>
+            The invitation is emailed by the server. If you are offline it is sent on the next sync.
+          </Text>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -297,6 +513,9 @@ const styles = StyleSheet.create({
     color: "#111827",
   },
   statsBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
     backgroundColor: "#fff",
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -383,6 +602,74 @@ const styles = StyleSheet.create({
     color: "#3c4b5d",
     fontWeight: "500",
   },
+  inviteLink: {
+    fontSize: 13,
+    color: "#dc2626",
+    fontWeight: "600",
+  },
+  pendingBadge: {
+    alignSelf: "flex-start",
+    backgroundColor: "#fef3c7",
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginBottom: 8,
+  },
+  pendingText: {
+    fontSize: 11,
+    color: "#92400e",
+    fontWeight: "500",
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+    padding: 16,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  modalCancel: {
+    fontSize: 15,
+    color: "#6b7280",
+  },
+  modalSend: {
+    fontSize: 15,
+    color: "#dc2626",
+    fontWeight: "600",
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#374151",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  fieldInput: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#111827",
+  },
+  roleOptions: {
+    flexDirection: "row",
+  },
+  modalHint: {
+    marginTop: 20,
+    fontSize: 12,
+    color: "#6b7280",
+  },
   emptyContainer: {
     alignItems: "center",
     paddingVertical: 60,
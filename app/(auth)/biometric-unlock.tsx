@@ -7,7 +7,7 @@
  * Flow:
  * 1. Attempt biometric authentication on mount
  * 2. On success, validate stored token is still valid
- * 3. If valid, navigate to home
+ * 3. If valid, unlock the encrypted local data and navigate to home
  * 4. If token expired, redirect to login for re-authentication
  * 5. User can always choose "Use Password Instead" to go to login
  */
@@ -25,6 +25,7 @@ import {
 export default function BiometricUnlockScreen() {
   const router = useRouter();
   const validateSession = useAuthStore((state) => state.validateSession);
+  const unlockLocalData = useAuthStore((state) => state.unlockLocalData);
   const biometricsEnabled = useAuthStore((state) => state.biometricsEnabled);
 
   const [error, setError] = useState<string | null>(null);
@@ -80,7 +81,8 @@ export default function BiometricUnlockScreen() {
         const isValid = await validateSession();
 
         if (isValid) {
-          // Token valid - proceed to home
+          // Token valid - open local data (already authenticated) and proceed to home
+          await unlockLocalData({ skipBiometrics: true });
           router.replace('/(main)/home');
         } else {
           // Token expired - need full login
@@ -4,28 +4,35 @@
  */
 
 import { Stack } from "expo-router";
+import { DatabaseGate } from "../../src/components/DatabaseGate";
 
 export default function MainLayout() {
   return (
-    <Stack
-      screenOptions={{
-        headerShown: false,
-        contentStyle: { backgroundColor: "#f8fafc" },
-      }}
-    >
-      <Stack.Screen name="home" />
-      <Stack.Screen name="new-report" />
-      <Stack.Screen name="report-detail/[id]" />
-      <Stack.Screen name="photo-capture" />
-      <Stack.Screen name="video-capture" />
-      <Stack.Screen name="compliance-assessment" />
-      <Stack.Screen name="compliance/[reportId]" />
-      <Stack.Screen name="defects/index" />
-      <Stack.Screen name="defects/new" />
-      <Stack.Screen name="defects/[id]" />
-      <Stack.Screen name="elements/index" />
-      <Stack.Screen name="elements/new" />
-      <Stack.Screen name="elements/[id]" />
-    </Stack>
+    <DatabaseGate>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: { backgroundColor: "#f8fafc" },
+        }}
+      >
+        <Stack.Screen name="home" />
+        <Stack.Screen name="new-report" />
+        <Stack.Screen name="report-detail/[id]" />
+        <Stack.Screen name="inspection-details/[id]" />
+        <Stack.Screen name="photo-capture" />
+        <Stack.Screen name="video-capture" />
+        <Stack.Screen name="compliance-assessment" />
+        <Stack.Screen name="compliance/[reportId]" />
+        <Stack.Screen name="defects/index" />
+        <Stack.Screen name="defects/new" />
+        <Stack.Screen name="defects/[id]" />
+        <Stack.Screen name="elements/index" />
+        <Stack.Screen name="elements/new" />
+        <Stack.Screen name="elements/[id]" />
+        <Stack.Screen name="roof-plan/[reportId]" />
+        <Stack.Screen name="search" />
+        <Stack.Screen name="sync-inspector" />
+      </Stack>
+    </DatabaseGate>
   );
 }
@@ -16,6 +16,8 @@ import {
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useLocalDB } from "../../../src/hooks/useLocalDB";
+import { useReportLock } from "../../../src/hooks/useReportLock";
+import { ReportLockedBanner } from "../../../src/components/ReportLockedBanner";
 import type { LocalChecklist, LocalComplianceAssessment } from "../../../src/types/database";
 import { ComplianceStatus } from "../../../src/types/shared";
 
@@ -52,6 +54,7 @@ export default function ComplianceScreen() {
   const { reportId } = useLocalSearchParams<{ reportId: string }>();
   const router = useRouter();
   const { getChecklists, getComplianceAssessment, saveComplianceAssessment } = useLocalDB();
+  const { status: reportStatus, isLocked } = useReportLock(reportId);
 
   const [checklists, setChecklists] = useState<LocalChecklist[]>([]);
   const [allItems, setAllItems] = useState<ChecklistItem[]>([]);
@@ -367,6 +370,8 @@ export default function ComplianceScreen() {
             {progress.assessed}/{progress.total} items assessed
           </Text>
         </View>
+
+        <ReportLockedBanner status={reportStatus} />
       </View>
 
       {/* Standard Tabs */}
@@ -488,7 +493,7 @@ export default function ComplianceScreen() {
 
                   {/* Status Selection */}
                   <Text style={styles.fieldLabel}>Assessment Status</Text>
-                  <View style={styles.statusOptions}>
+                  <View style={styles.statusOptions} pointerEvents={isLocked ? "none" : "auto"}>
                     {STATUS_OPTIONS.map((option) => (
                       <TouchableOpacity
                         key={option.value}
@@ -520,6 +525,7 @@ export default function ComplianceScreen() {
                     value={result.notes}
                     onChangeText={(text) => updateItemNotes(item.id, text)}
                     placeholder="Add assessment notes..."
+                    editable={!isLocked}
                     multiline
                     numberOfLines={3}
                   />
@@ -547,15 +553,17 @@ export default function ComplianceScreen() {
           </View>
         )}
 
-        <TouchableOpacity
-          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
-          onPress={saveResults}
-          disabled={isSaving}
-        >
-          <Text style={styles.saveButtonText}>
-            {isSaving ? "Saving..." : "Save Assessment"}
-          </Text>
-        </TouchableOpacity>
+        {!isLocked && (
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            onPress={saveResults}
+            disabled={isSaving}
+          >
+            <Text style={styles.saveButtonText}>
+              {isSaving ? "Saving..." : "Save Assessment"}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
     </View>
   );
@@ -17,10 +17,13 @@ import {
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useLocalDB } from "../../../src/hooks/useLocalDB";
+import { useReportLock } from "../../../src/hooks/useReportLock";
+import { ReportLockedBanner } from "../../../src/components/ReportLockedBanner";
 import { ChipSelector } from "../../../src/components/ChipSelector";
 import { FormSection } from "../../../src/components/FormSection";
 import { PhotoGrid } from "../../../src/components/PhotoGrid";
 import { VoiceNoteRecorder } from "../../../src/components/VoiceNoteRecorder";
+import { insertTranscript } from "../../../src/lib/transcription";
 import type { LocalDefect, LocalRoofElement, LocalPhoto } from "../../../src/types/database";
 import { DefectClass, DefectSeverity, PriorityLevel } from "../../../src/types/shared";
 
@@ -47,6 +50,7 @@ const PRIORITY_OPTIONS = [
 
 export default function EditDefectScreen() {
   const { id, reportId } = useLocalSearchParams<{ id: string; reportId: string }>();
+  const { status: reportStatus, isLocked } = useReportLock(reportId);
   const router = useRouter();
   const {
     getDefects,
@@ -244,225 +248,250 @@ export default function EditDefectScreen() {
             <Text style={styles.backButton}>← Back</Text>
           </TouchableOpacity>
           <View style={styles.titleRow}>
-            <Text style={styles.title}>Edit Defect #{defect.defectNumber}</Text>
-            <TouchableOpacity onPress={handleDelete}>
-              <Text style={styles.deleteButton}>Delete</Text>
-            </TouchableOpacity>
+            <Text style={styles.title}>{isLocked ? "Defect" : "Edit Defect"} #{defect.defectNumber}</Text>
+            {!isLocked && (
+              <TouchableOpacity onPress={handleDelete}>
+                <Text style={styles.deleteButton}>Delete</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
-        {/* Photos Section */}
-        <FormSection title="Evidence Photos">
-          <PhotoGrid
-            photos={photos}
-            onAddPhoto={handleAddPhoto}
-            onRemovePhoto={(photoId) =>
-              setPhotos(photos.filter((p) => p.id !== photoId))
-            }
-          />
-        </FormSection>
-
-        {/* Defect Details */}
-        <FormSection title="Defect Details">
-          <View style={styles.field}>
-            <Text style={styles.label}>Title *</Text>
-            <TextInput
-              style={styles.input}
-              value={title}
-              onChangeText={setTitle}
-              placeholder="e.g., Rust penetration at ridge flashing"
+        <ReportLockedBanner status={reportStatus} />
+
+        {/* Read-only once the workflow locks the report */}
+        <View pointerEvents={isLocked ? "none" : "auto"}>
+          {/* Photos Section */}
+          <FormSection title="Evidence Photos">
+            <PhotoGrid
+              photos={photos}
+              onAddPhoto={handleAddPhoto}
+              onRemovePhoto={(photoId) =>
+                setPhotos(photos.filter((p) => p.id !== photoId))
+              }
             />
-          </View>
+          </FormSection>
+
+          {/* Defect Details */}
+          <FormSection title="Defect Details">
+            <View style={styles.field}>
+              <Text style={styles.label}>Title *</Text>
+              <TextInput
+                style={styles.input}
+                value={title}
+                onChangeText={setTitle}
+                placeholder="e.g., Rust penetration at ridge flashing"
+              />
+            </View>
 
-          <ChipSelector
-            label="Severity"
-            options={SEVERITY_OPTIONS}
-            value={severity}
-            onChange={(v) => setSeverity(v as DefectSeverity)}
-            required
-          />
-
-          <ChipSelector
-            label="Classification"
-            options={CLASSIFICATION_OPTIONS}
-            value={classification}
-            onChange={(v) => setClassification(v as DefectClass)}
-            required
-          />
-
-          <View style={styles.field}>
-            <Text style={styles.label}>Location *</Text>
-            <TextInput
-              style={styles.input}
-              value={location}
-              onChangeText={setLocation}
-              placeholder="e.g., North elevation, main ridge"
+            <ChipSelector
+              label="Severity"
+              options={SEVERITY_OPTIONS}
+              value={severity}
+              onChange={(v) => setSeverity(v as DefectSeverity)}
+              required
+            />
+
+            <ChipSelector
+              label="Classification"
+              options={CLASSIFICATION_OPTIONS}
+              value={classification}
+              onChange={(v) => setClassification(v as DefectClass)}
+              required
             />
-          </View>
 
-          {roofElements.length > 0 && (
             <View style={styles.field}>
-              <Text style={styles.label}>Link to Roof Element</Text>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                <View style={styles.elementRow}>
-                  <TouchableOpacity
-                    style={[
-                      styles.elementChip,
-                      !roofElementId && styles.elementChipActive,
-                    ]}
-                    onPress={() => setRoofElementId(null)}
-                  >
-                    <Text
-                      style={[
-                        styles.elementChipText,
-                        !roofElementId && styles.elementChipTextActive,
-                      ]}
-                    >
-                      None
-                    </Text>
-                  </TouchableOpacity>
-                  {roofElements.map((el) => (
+              <Text style={styles.label}>Location *</Text>
+              <TextInput
+                style={styles.input}
+                value={location}
+                onChangeText={setLocation}
+                placeholder="e.g., North elevation, main ridge"
+              />
+            </View>
+
+            {roofElements.length > 0 && (
+              <View style={styles.field}>
+                <Text style={styles.label}>Link to Roof Element</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View style={styles.elementRow}>
                     <TouchableOpacity
-                      key={el.id}
                       style={[
                         styles.elementChip,
-                        roofElementId === el.id && styles.elementChipActive,
+                        !roofElementId && styles.elementChipActive,
                       ]}
-                      onPress={() => setRoofElementId(el.id)}
+                      onPress={() => setRoofElementId(null)}
                     >
                       <Text
                         style={[
                           styles.elementChipText,
-                          roofElementId === el.id && styles.elementChipTextActive,
+                          !roofElementId && styles.elementChipTextActive,
                         ]}
                       >
-                        {el.elementType.replace(/_/g, " ")}
+                        None
                       </Text>
                     </TouchableOpacity>
-                  ))}
-                </View>
-              </ScrollView>
+                    {roofElements.map((el) => (
+                      <TouchableOpacity
+                        key={el.id}
+                        style={[
+                          styles.elementChip,
+                          roofElementId === el.id && styles.elementChipActive,
+                        ]}
+                        onPress={() => setRoofElementId(el.id)}
+                      >
+                        <Text
+                          style={[
+                            styles.elementChipText,
+                            roofElementId === el.id && styles.elementChipTextActive,
+                          ]}
+                        >
+                          {el.elementType.replace(/_/g, " ")}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </ScrollView>
+              </View>
+            )}
+          </FormSection>
+
+          {/* Three-Part Structure */}
+          <FormSection title="Assessment (ISO Compliant)">
+            <View style={styles.field}>
+              <Text style={styles.label}>Factual Observation *</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={observation}
+                onChangeText={setObservation}
+                placeholder="Describe exactly what you observed..."
+                multiline
+                numberOfLines={4}
+                textAlignVertical="top"
+              />
             </View>
-          )}
-        </FormSection>
-
-        {/* Three-Part Structure */}
-        <FormSection title="Assessment (ISO Compliant)">
-          <View style={styles.field}>
-            <Text style={styles.label}>Factual Observation *</Text>
-            <TextInput
-              style={[styles.input, styles.textArea]}
-              value={observation}
-              onChangeText={setObservation}
-              placeholder="Describe exactly what you observed..."
-              multiline
-              numberOfLines={4}
-              textAlignVertical="top"
-            />
-          </View>
 
-          <View style={styles.field}>
-            <Text style={styles.label}>Technical Analysis</Text>
-            <TextInput
-              style={[styles.input, styles.textArea]}
-              value={analysis}
-              onChangeText={setAnalysis}
-              placeholder="Technical interpretation of the observation..."
-              multiline
-              numberOfLines={3}
-              textAlignVertical="top"
-            />
-          </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>Technical Analysis</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={analysis}
+                onChangeText={setAnalysis}
+                placeholder="Technical interpretation of the observation..."
+                multiline
+                numberOfLines={3}
+                textAlignVertical="top"
+              />
+            </View>
 
-          <View style={styles.field}>
-            <Text style={styles.label}>Professional Opinion</Text>
-            <TextInput
-              style={[styles.input, styles.textArea]}
-              value={opinion}
-              onChangeText={setOpinion}
-              placeholder="In my professional opinion..."
-              multiline
-              numberOfLines={3}
-              textAlignVertical="top"
-            />
-          </View>
-        </FormSection>
-
-        {/* Code References */}
-        <FormSection title="Code References">
-          <View style={styles.field}>
-            <Text style={styles.label}>Building Code Reference</Text>
-            <TextInput
-              style={styles.input}
-              value={codeReference}
-              onChangeText={setCodeReference}
-              placeholder="e.g., E2/AS1 Section 9.1"
-            />
-          </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>Professional Opinion</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={opinion}
+                onChangeText={setOpinion}
+                placeholder="In my professional opinion..."
+                multiline
+                numberOfLines={3}
+                textAlignVertical="top"
+              />
+            </View>
+          </FormSection>
 
-          <View style={styles.field}>
-            <Text style={styles.label}>COP Reference</Text>
-            <TextInput
-              style={styles.input}
-              value={copReference}
-              onChangeText={setCopReference}
-              placeholder="e.g., COP v25.12 Section 7.1"
-            />
-          </View>
-        </FormSection>
-
-        {/* Recommendation */}
-        <FormSection title="Recommendation">
-          <View style={styles.field}>
-            <Text style={styles.label}>Remediation Recommendation</Text>
-            <TextInput
-              style={[styles.input, styles.textArea]}
-              value={recommendation}
-              onChangeText={setRecommendation}
-              placeholder="Recommended remediation actions..."
-              multiline
-              numberOfLines={3}
-              textAlignVertical="top"
+          {/* Code References */}
+          <FormSection title="Code References">
+            <View style={styles.field}>
+              <Text style={styles.label}>Building Code Reference</Text>
+              <TextInput
+                style={styles.input}
+                value={codeReference}
+                onChangeText={setCodeReference}
+                placeholder="e.g., E2/AS1 Section 9.1"
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>COP Reference</Text>
+              <TextInput
+                style={styles.input}
+                value={copReference}
+                onChangeText={setCopReference}
+                placeholder="e.g., COP v25.12 Section 7.1"
+              />
+            </View>
+          </FormSection>
+
+          {/* Recommendation */}
+          <FormSection title="Recommendation">
+            <View style={styles.field}>
+              <Text style={styles.label}>Remediation Recommendation</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={recommendation}
+                onChangeText={setRecommendation}
+                placeholder="Recommended remediation actions..."
+                multiline
+                numberOfLines={3}
+                textAlignVertical="top"
+              />
+            </View>
+
+            <ChipSelector
+              label="Priority Level"
+              options={PRIORITY_OPTIONS}
+              value={priorityLevel || ""}
+              onChange={(v) => setPriorityLevel(v as PriorityLevel)}
             />
-          </View>
+          </FormSection>
+        </View>
 
-          <ChipSelector
-            label="Priority Level"
-            options={PRIORITY_OPTIONS}
-            value={priorityLevel || ""}
-            onChange={(v) => setPriorityLevel(v as PriorityLevel)}
-          />
-        </FormSection>
-
-        {/* Voice Notes */}
-        <FormSection title="Voice Notes">
-          <VoiceNoteRecorder reportId={reportId!} defectId={id} showList={true} />
-        </FormSection>
-
-        {/* Video Evidence */}
-        <FormSection title="Video Evidence">
-          <TouchableOpacity
-            style={styles.videoButton}
-            onPress={() => router.push({
-              pathname: "/(main)/video-capture",
-              params: { reportId: reportId || "", defectId: id || "" }
-            } as any)}
-          >
-            <Text style={styles.videoButtonIcon}>🎥</Text>
-            <Text style={styles.videoButtonText}>Record Video</Text>
-          </TouchableOpacity>
-        </FormSection>
-
-        {/* Save Button */}
-        <TouchableOpacity
-          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
-          onPress={handleSave}
-          disabled={isSaving}
-        >
-          <Text style={styles.saveButtonText}>
-            {isSaving ? "Saving..." : "Save Changes"}
-          </Text>
-        </TouchableOpacity>
+        {!isLocked && (
+          <>
+            {/* Voice Notes */}
+            <FormSection title="Voice Notes">
+              <VoiceNoteRecorder
+                reportId={reportId!}
+                defectId={id}
+                showList={true}
+                onInsertTranscript={(transcript, voiceNote) => {
+                  // Dictated notes go back to their own field
+                  const setField =
+                    voiceNote.dictationField === "analysis"
+                      ? setAnalysis
+                      : voiceNote.dictationField === "opinion"
+                        ? setOpinion
+                        : setObservation;
+                  setField((current) => insertTranscript(current, transcript));
+                }}
+              />
+            </FormSection>
+
+            {/* Video Evidence */}
+            <FormSection title="Video Evidence">
+              <TouchableOpacity
+                style={styles.videoButton}
+                onPress={() => router.push({
+                  pathname: "/(main)/video-capture",
+                  params: { reportId: reportId || "", defectId: id || "" }
+                } as any)}
+              >
+                <Text style={styles.videoButtonIcon}>🎥</Text>
+                <Text style={styles.videoButtonText}>Record Video</Text>
+              </TouchableOpacity>
+            </FormSection>
+
+            {/* Save Button */}
+            <TouchableOpacity
+              style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? "Saving..." : "Save Changes"}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
       </ScrollView>
     </KeyboardAvoidingView>
   );
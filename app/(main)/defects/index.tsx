@@ -14,6 +14,8 @@ import {
 } from "react-native";
 import { useLocalSearchParams, useRouter, useFocusEffect } from "expo-router";
 import { useLocalDB } from "../../../src/hooks/useLocalDB";
+import { useReportLock } from "../../../src/hooks/useReportLock";
+import { ReportLockedBanner } from "../../../src/components/ReportLockedBanner";
 import type { LocalDefect } from "../../../src/types/database";
 import { DefectSeverity } from "../../../src/types/shared";
 
@@ -28,6 +30,7 @@ export default function DefectListScreen() {
   const { reportId } = useLocalSearchParams<{ reportId: string }>();
   const router = useRouter();
   const { getDefects } = useLocalDB();
+  const { status: reportStatus, isLocked } = useReportLock(reportId);
 
   const [defects, setDefects] = useState<LocalDefect[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -106,12 +109,14 @@ export default function DefectListScreen() {
       <Text style={styles.emptySubtitle}>
         Start documenting defects found during the inspection.
       </Text>
-      <TouchableOpacity
-        style={styles.emptyButton}
-        onPress={() => router.push(`/(main)/defects/new?reportId=${reportId}`)}
-      >
-        <Text style={styles.emptyButtonText}>+ Add First Defect</Text>
-      </TouchableOpacity>
+      {!isLocked && (
+        <TouchableOpacity
+          style={styles.emptyButton}
+          onPress={() => router.push(`/(main)/defects/new?reportId=${reportId}`)}
+        >
+          <Text style={styles.emptyButtonText}>+ Add First Defect</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
@@ -132,12 +137,14 @@ export default function DefectListScreen() {
         </TouchableOpacity>
         <View style={styles.titleRow}>
           <Text style={styles.title}>Defects ({defects.length})</Text>
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => router.push(`/(main)/defects/new?reportId=${reportId}`)}
-          >
-            <Text style={styles.addButtonText}>+ Add</Text>
-          </TouchableOpacity>
+          {!isLocked && (
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => router.push(`/(main)/defects/new?reportId=${reportId}`)}
+            >
+              <Text style={styles.addButtonText}>+ Add</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -148,6 +155,7 @@ export default function DefectListScreen() {
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
+        ListHeaderComponent={<ReportLockedBanner status={reportStatus} />}
         ListEmptyComponent={renderEmptyState}
         refreshControl={
           <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
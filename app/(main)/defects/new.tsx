@@ -16,7 +16,6 @@ import {
   Alert,
   Modal,
   FlatList,
-  Image,
   ActionSheetIOS,
   Dimensions,
 } from "react-native";
@@ -25,8 +24,24 @@ import { useLocalDB } from "../../../src/hooks/useLocalDB";
 import { ChipSelector } from "../../../src/components/ChipSelector";
 import { FormSection } from "../../../src/components/FormSection";
 import { PhotoGrid } from "../../../src/components/PhotoGrid";
-import type { LocalDefect, LocalRoofElement, LocalPhoto } from "../../../src/types/database";
-import { DefectClass, DefectSeverity, PriorityLevel } from "../../../src/types/shared";
+import { DecryptedImage } from "../../../src/components/DecryptedImage";
+import { DefectTemplatePicker } from "../../../src/components/DefectTemplatePicker";
+import { DefectDictation } from "../../../src/components/DefectDictation";
+import { defectFieldsFromTemplate, templateWouldOverwrite } from "../../../src/lib/defect-library";
+import {
+  fillDictatedField,
+  markDictationReviewed,
+  pendingDictations,
+  unreviewedDictations,
+  type DictationState,
+} from "../../../src/lib/dictation";
+import type {
+  LocalDefect,
+  LocalRoofElement,
+  LocalPhoto,
+  LocalDefectTemplate,
+} from "../../../src/types/database";
+import { DefectClass, DefectSeverity, PriorityLevel, type DictationField } from "../../../src/types/shared";
 
 const SEVERITY_OPTIONS = [
   { value: DefectSeverity.CRITICAL, label: "Critical", color: "#ef4444" },
@@ -65,6 +80,7 @@ export default function NewDefectScreen() {
     getPhotosForDefect,
     getPhotos,
     updatePhotoClassification,
+    getDefectTemplates,
   } = useLocalDB();
 
   // Pre-generate defect ID so camera can save photos with it
@@ -75,6 +91,8 @@ export default function NewDefectScreen() {
   const [photos, setPhotos] = useState<LocalPhoto[]>([]);
   const [showPhotoPicker, setShowPhotoPicker] = useState(false);
   const [unlinkedPhotos, setUnlinkedPhotos] = useState<LocalPhoto[]>([]);
+  const [defectTemplates, setDefectTemplates] = useState<LocalDefectTemplate[]>([]);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
 
   // Form state
   const [title, setTitle] = useState("");
@@ -90,10 +108,24 @@ export default function NewDefectScreen() {
   const [recommendation, setRecommendation] = useState("");
   const [priorityLevel, setPriorityLevel] = useState<PriorityLevel | null>(null);
 
+  // Guided dictation of the three-part assessment
+  const [showDictation, setShowDictation] = useState(false);
+  const [dictation, setDictation] = useState<DictationState>({});
+
+  const fieldSetters: Record<DictationField, (update: (current: string) => string) => void> = {
+    observation: setObservation,
+    analysis: setAnalysis,
+    opinion: setOpinion,
+  };
+
   useEffect(() => {
     loadRoofElements();
   }, [reportId]);
 
+  useEffect(() => {
+    getDefectTemplates().then(setDefectTemplates);
+  }, []);
+
   // Reload photos every time the screen gains focus (e.g. returning from camera)
   useFocusEffect(
     useCallback(() => {
@@ -112,6 +144,97 @@ export default function NewDefectScreen() {
     setPhotos(defectPhotos);
   };
 
+  const applyTemplate = (template: LocalDefectTemplate) => {
+    const fields = defectFieldsFromTemplate(template);
+    setTitle(fields.title);
+    setClassification(fields.classification);
+    setSeverity(fields.severity);
+    setObservation(fields.observation);
+    setAnalysis(fields.analysis);
+    setOpinion(fields.opinion);
+    setCodeReference(fields.codeReference);
+    setCopReference(fields.copReference);
+    setRecommendation(fields.recommendation);
+    setPriorityLevel(fields.priorityLevel);
+  };
+
+  const handleSelectTemplate = (template: LocalDefectTemplate) => {
+    setShowTemplatePicker(false);
+
+    const hasText = templateWouldOverwrite({
+      title,
+      observation,
+      analysis,
+      opinion,
+      codeReference,
+      copReference,
+      recommendation,
+    });
+
+    if (!hasText) {
+      applyTemplate(template);
+      return;
+    }
+
+    Alert.alert(
+      "Replace Defect Text?",
+      `Apply "${template.name}"? This replaces the title, assessment, references and recommendation you have entered.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", style: "destructive", onPress: () => applyTemplate(template) },
+      ]
+    );
+  };
+
+  const handleDictatedTranscript = (field: DictationField, transcript: string, previousTranscript: string | null) => {
+    fieldSetters[field]((current) => fillDictatedField(current, previousTranscript, transcript));
+  };
+
+  // Typing in a dictated field counts as reviewing it
+  const editDictatedField = (field: DictationField, text: string) => {
+    fieldSetters[field](() => text);
+    setDictation((current) => markDictationReviewed(current, field));
+  };
+
+  const renderDictationReview = (field: DictationField) => {
+    const entry = dictation[field];
+    if (!entry?.transcript || entry.reviewed) return null;
+    return (
+      <View style={styles.dictationReview}>
+        <Text style={styles.dictationReviewText}>Dictated - check the text before saving</Text>
+        <TouchableOpacity onPress={() => setDictation((current) => markDictationReviewed(current, field))}>
+          <Text style={styles.dictationReviewAction}>Looks Right</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const confirmDictation = (): Promise<boolean> => {
+    const unreviewed = unreviewedDictations(dictation);
+    if (unreviewed.length > 0) {
+      Alert.alert(
+        "Review Dictated Text",
+        `Check the transcribed ${unreviewed.map((step) => step.label.toLowerCase()).join(", ")} and edit it if needed before saving.`
+      );
+      return Promise.resolve(false);
+    }
+
+    const pending = pendingDictations(dictation);
+    if (pending.length === 0) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      Alert.alert(
+        "Transcription Still Running",
+        `The ${pending.map((step) => step.label.toLowerCase()).join(", ")} recording has not been transcribed yet. ` +
+          "The audio is kept with the defect and its transcript can be inserted from the defect screen later.",
+        [
+          { text: "Wait", style: "cancel", onPress: () => resolve(false) },
+          { text: "Save Now", onPress: () => resolve(true) },
+        ]
+      );
+    });
+  };
+
   const validateForm = (): boolean => {
     if (!title.trim() || title.length < 3) {
       Alert.alert("Error", "Title must be at least 3 characters");
@@ -130,6 +253,7 @@ export default function NewDefectScreen() {
 
   const handleSave = async () => {
     if (!validateForm() || !reportId) return;
+    if (!(await confirmDictation())) return;
 
     setIsLoading(true);
 
@@ -239,8 +363,8 @@ export default function NewDefectScreen() {
       style={pickerStyles.photoItem}
       onPress={() => handleLinkPhoto(item)}
     >
-      <Image
-        source={{ uri: item.thumbnailUri || item.localUri }}
+      <DecryptedImage
+        uri={item.thumbnailUri || item.localUri}
         style={pickerStyles.photoImage}
       />
       {item.caption ? (
@@ -269,6 +393,19 @@ export default function NewDefectScreen() {
           <Text style={styles.title}>New Defect</Text>
         </View>
 
+        {/* Defect Library */}
+        <TouchableOpacity
+          style={styles.templateButton}
+          onPress={() => setShowTemplatePicker(true)}
+        >
+          <Text style={styles.templateButtonText}>Start from Defect Library</Text>
+          <Text style={styles.templateButtonHint}>
+            {defectTemplates.length > 0
+              ? `${defectTemplates.length} template${defectTemplates.length !== 1 ? "s" : ""} - edit the wording to match what you observed`
+              : "No templates downloaded yet"}
+          </Text>
+        </TouchableOpacity>
+
         {/* Photos Section */}
         <FormSection title="Evidence Photos">
           <PhotoGrid
@@ -367,12 +504,32 @@ export default function NewDefectScreen() {
 
         {/* Three-Part Structure */}
         <FormSection title="Assessment (ISO Compliant)">
+          {Platform.OS !== "web" && (
+            showDictation ? (
+              <DefectDictation
+                reportId={reportId!}
+                defectId={defectId}
+                roofElementId={roofElementId ?? undefined}
+                dictation={dictation}
+                onDictationChange={setDictation}
+                onTranscript={handleDictatedTranscript}
+              />
+            ) : (
+              <TouchableOpacity style={styles.dictateButton} onPress={() => setShowDictation(true)}>
+                <Text style={styles.dictateButtonText}>Dictate Assessment</Text>
+                <Text style={styles.dictateButtonHint}>
+                  Speak each part; the recordings are kept as evidence
+                </Text>
+              </TouchableOpacity>
+            )
+          )}
+
           <View style={styles.field}>
             <Text style={styles.label}>Factual Observation *</Text>
             <TextInput
               style={[styles.input, styles.textArea]}
               value={observation}
-              onChangeText={setObservation}
+              onChangeText={(text) => editDictatedField("observation", text)}
               placeholder="Describe exactly what you observed..."
               multiline
               numberOfLines={4}
@@ -381,6 +538,7 @@ export default function NewDefectScreen() {
             <Text style={styles.helperText}>
               State only facts - what you saw, measured, or documented
             </Text>
+            {renderDictationReview("observation")}
           </View>
 
           <View style={styles.field}>
@@ -388,12 +546,13 @@ export default function NewDefectScreen() {
             <TextInput
               style={[styles.input, styles.textArea]}
               value={analysis}
-              onChangeText={setAnalysis}
+              onChangeText={(text) => editDictatedField("analysis", text)}
               placeholder="Technical interpretation of the observation..."
               multiline
               numberOfLines={3}
               textAlignVertical="top"
             />
+            {renderDictationReview("analysis")}
           </View>
 
           <View style={styles.field}>
@@ -401,12 +560,13 @@ export default function NewDefectScreen() {
             <TextInput
               style={[styles.input, styles.textArea]}
               value={opinion}
-              onChangeText={setOpinion}
+              onChangeText={(text) => editDictatedField("opinion", text)}
               placeholder="In my professional opinion..."
               multiline
               numberOfLines={3}
               textAlignVertical="top"
             />
+            {renderDictationReview("opinion")}
           </View>
         </FormSection>
 
@@ -468,6 +628,14 @@ export default function NewDefectScreen() {
         </TouchableOpacity>
       </ScrollView>
 
+      <DefectTemplatePicker
+        visible={showTemplatePicker}
+        templates={defectTemplates}
+        elementType={roofElements.find((el) => el.id === roofElementId)?.elementType ?? null}
+        onSelect={handleSelectTemplate}
+        onClose={() => setShowTemplatePicker(false)}
+      />
+
       {/* Photo Picker Modal */}
       <Modal
         visible={showPhotoPicker}
@@ -533,6 +701,64 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#1e293b",
   },
+  templateButton: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#3c4b5d",
+    borderStyle: "dashed",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 16,
+  },
+  templateButtonText: {
+    color: "#3c4b5d",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  templateButtonHint: {
+    color: "#64748b",
+    fontSize: 12,
+    marginTop: 4,
+  },
+  dictateButton: {
+    backgroundColor: "#f8fafc",
+    borderWidth: 1,
+    borderColor: "#cbd5e1",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  dictateButtonText: {
+    color: "#3c4b5d",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  dictateButtonHint: {
+    color: "#64748b",
+    fontSize: 12,
+    marginTop: 2,
+  },
+  dictationReview: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#fef3c7",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginTop: 6,
+  },
+  dictationReviewText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#92400e",
+  },
+  dictationReviewAction: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#92400e",
+    marginLeft: 8,
+  },
   field: {
     marginBottom: 16,
   },
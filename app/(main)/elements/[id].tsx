@@ -17,11 +17,19 @@ import {
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useLocalDB } from "../../../src/hooks/useLocalDB";
+import { useReportLock } from "../../../src/hooks/useReportLock";
+import { ReportLockedBanner } from "../../../src/components/ReportLockedBanner";
 import { ChipSelector } from "../../../src/components/ChipSelector";
 import { FormSection } from "../../../src/components/FormSection";
+import { RoofCalculator } from "../../../src/components/RoofCalculator";
+import {
+  describeRoofMeasurement,
+  measurementMatches,
+  parseRoofMeasurement,
+} from "../../../src/lib/roof-geometry";
 import { VoiceNoteRecorder } from "../../../src/components/VoiceNoteRecorder";
-import type { LocalRoofElement } from "../../../src/types/database";
-import { ElementType, ConditionRating } from "../../../src/types/shared";
+import type { LocalPhoto, LocalRoofElement } from "../../../src/types/database";
+import { ElementType, ConditionRating, type RoofMeasurementRecord } from "../../../src/types/shared";
 
 const ELEMENT_TYPE_OPTIONS = [
   { value: ElementType.ROOF_CLADDING, label: "Roof Cladding" },
@@ -49,8 +57,9 @@ const CONDITION_OPTIONS = [
 
 export default function EditElementScreen() {
   const { id, reportId } = useLocalSearchParams<{ id: string; reportId: string }>();
+  const { status: reportStatus, isLocked } = useReportLock(reportId);
   const router = useRouter();
-  const { getRoofElements, saveRoofElement, deleteRoofElement } = useLocalDB();
+  const { getRoofElements, saveRoofElement, deleteRoofElement, getPhotos } = useLocalDB();
 
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -64,6 +73,9 @@ export default function EditElementScreen() {
   const [manufacturer, setManufacturer] = useState("");
   const [pitch, setPitch] = useState("");
   const [area, setArea] = useState("");
+  const [measurement, setMeasurement] = useState<RoofMeasurementRecord | null>(null);
+  const [showCalculator, setShowCalculator] = useState(false);
+  const [photos, setPhotos] = useState<LocalPhoto[]>([]);
   const [conditionRating, setConditionRating] = useState(ConditionRating.NOT_INSPECTED);
   const [conditionNotes, setConditionNotes] = useState("");
 
@@ -75,7 +87,8 @@ export default function EditElementScreen() {
     if (!id || !reportId) return;
     setIsLoading(true);
     try {
-      const elements = await getRoofElements(reportId);
+      const [elements, reportPhotos] = await Promise.all([getRoofElements(reportId), getPhotos(reportId)]);
+      setPhotos(reportPhotos);
       const foundElement = elements.find((e) => e.id === id);
 
       if (foundElement) {
@@ -87,6 +100,7 @@ export default function EditElementScreen() {
         setManufacturer(foundElement.manufacturer || "");
         setPitch(foundElement.pitch?.toString() || "");
         setArea(foundElement.area?.toString() || "");
+        setMeasurement(parseRoofMeasurement(foundElement.measurementJson));
         setConditionRating((foundElement.conditionRating as ConditionRating) || ConditionRating.NOT_INSPECTED);
         setConditionNotes(foundElement.conditionNotes || "");
       }
@@ -98,6 +112,19 @@ export default function EditElementScreen() {
     }
   };
 
+  const pitchValue = pitch ? parseFloat(pitch) : null;
+  const areaValue = area ? parseFloat(area) : null;
+  // Dropped if the values were typed over after calculating
+  const currentMeasurement =
+    measurement && measurementMatches(measurement, pitchValue, areaValue) ? measurement : null;
+
+  const handleApplyCalculation = (record: RoofMeasurementRecord) => {
+    if (record.pitch) setPitch(String(record.pitch.degrees));
+    if (record.area) setArea(String(record.area.trueAreaM2));
+    setMeasurement(record);
+    setShowCalculator(false);
+  };
+
   const validateForm = (): boolean => {
     if (!location.trim() || location.length < 3) {
       Alert.alert("Error", "Location must be at least 3 characters");
@@ -121,8 +148,9 @@ export default function EditElementScreen() {
         material: material.trim() || null,
         claddingType: claddingType.trim() || null,
         manufacturer: manufacturer.trim() || null,
-        pitch: pitch ? parseFloat(pitch) : null,
-        area: area ? parseFloat(area) : null,
+        pitch: pitchValue,
+        area: areaValue,
+        measurementJson: currentMeasurement ? JSON.stringify(currentMeasurement) : null,
         conditionRating,
         conditionNotes: conditionNotes.trim() || null,
         syncStatus: "pending",
@@ -204,150 +232,180 @@ export default function EditElementScreen() {
             <Text style={styles.backButton}>← Back</Text>
           </TouchableOpacity>
           <View style={styles.titleRow}>
-            <Text style={styles.title}>Edit Element</Text>
-            <TouchableOpacity onPress={handleDelete}>
-              <Text style={styles.deleteButton}>Delete</Text>
-            </TouchableOpacity>
+            <Text style={styles.title}>{isLocked ? "Element" : "Edit Element"}</Text>
+            {!isLocked && (
+              <TouchableOpacity onPress={handleDelete}>
+                <Text style={styles.deleteButton}>Delete</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
-        {/* Element Type */}
-        <FormSection title="Element Type">
-          <View style={styles.typeGrid}>
-            {ELEMENT_TYPE_OPTIONS.map((option) => (
-              <TouchableOpacity
-                key={option.value}
-                style={[
-                  styles.typeOption,
-                  elementType === option.value && styles.typeOptionActive,
-                ]}
-                onPress={() => setElementType(option.value)}
-              >
-                <Text
+        <ReportLockedBanner status={reportStatus} />
+
+        {/* Read-only once the workflow locks the report */}
+        <View pointerEvents={isLocked ? "none" : "auto"}>
+          {/* Element Type */}
+          <FormSection title="Element Type">
+            <View style={styles.typeGrid}>
+              {ELEMENT_TYPE_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
                   style={[
-                    styles.typeOptionText,
-                    elementType === option.value && styles.typeOptionTextActive,
+                    styles.typeOption,
+                    elementType === option.value && styles.typeOptionActive,
                   ]}
+                  onPress={() => setElementType(option.value)}
                 >
-                  {option.label}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        </FormSection>
-
-        {/* Location */}
-        <FormSection title="Location">
-          <View style={styles.field}>
-            <Text style={styles.label}>Location *</Text>
-            <TextInput
-              style={styles.input}
-              value={location}
-              onChangeText={setLocation}
-              placeholder="e.g., Main roof - north elevation"
-            />
-          </View>
-        </FormSection>
-
-        {/* Material Details */}
-        <FormSection title="Material Details">
-          <View style={styles.field}>
-            <Text style={styles.label}>Material</Text>
-            <TextInput
-              style={styles.input}
-              value={material}
-              onChangeText={setMaterial}
-              placeholder="e.g., Colorsteel, Aluminium, Concrete tile"
-            />
-          </View>
+                  <Text
+                    style={[
+                      styles.typeOptionText,
+                      elementType === option.value && styles.typeOptionTextActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </FormSection>
 
-          <View style={styles.field}>
-            <Text style={styles.label}>Cladding Type</Text>
-            <TextInput
-              style={styles.input}
-              value={claddingType}
-              onChangeText={setCladdingType}
-              placeholder="e.g., Corrugated, Standing seam, Tray"
-            />
-          </View>
+          {/* Location */}
+          <FormSection title="Location">
+            <View style={styles.field}>
+              <Text style={styles.label}>Location *</Text>
+              <TextInput
+                style={styles.input}
+                value={location}
+                onChangeText={setLocation}
+                placeholder="e.g., Main roof - north elevation"
+              />
+            </View>
+          </FormSection>
 
-          <View style={styles.field}>
-            <Text style={styles.label}>Manufacturer</Text>
-            <TextInput
-              style={styles.input}
-              value={manufacturer}
-              onChangeText={setManufacturer}
-              placeholder="e.g., Steel & Tube, Metalcraft"
-            />
-          </View>
-        </FormSection>
+          {/* Material Details */}
+          <FormSection title="Material Details">
+            <View style={styles.field}>
+              <Text style={styles.label}>Material</Text>
+              <TextInput
+                style={styles.input}
+                value={material}
+                onChangeText={setMaterial}
+                placeholder="e.g., Colorsteel, Aluminium, Concrete tile"
+              />
+            </View>
 
-        {/* Measurements */}
-        <FormSection title="Measurements">
-          <View style={styles.row}>
-            <View style={[styles.field, { flex: 1 }]}>
-              <Text style={styles.label}>Pitch (degrees)</Text>
+            <View style={styles.field}>
+              <Text style={styles.label}>Cladding Type</Text>
               <TextInput
                 style={styles.input}
-                value={pitch}
-                onChangeText={setPitch}
-                placeholder="e.g., 15"
-                keyboardType="decimal-pad"
+                value={claddingType}
+                onChangeText={setCladdingType}
+                placeholder="e.g., Corrugated, Standing seam, Tray"
               />
             </View>
-            <View style={[styles.field, { flex: 1 }]}>
-              <Text style={styles.label}>Area (m²)</Text>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Manufacturer</Text>
               <TextInput
                 style={styles.input}
-                value={area}
-                onChangeText={setArea}
-                placeholder="e.g., 120"
-                keyboardType="decimal-pad"
+                value={manufacturer}
+                onChangeText={setManufacturer}
+                placeholder="e.g., Steel & Tube, Metalcraft"
               />
             </View>
-          </View>
-        </FormSection>
-
-        {/* Condition Assessment */}
-        <FormSection title="Condition Assessment">
-          <ChipSelector
-            label="Condition Rating"
-            options={CONDITION_OPTIONS}
-            value={conditionRating}
-            onChange={(v) => setConditionRating(v as ConditionRating)}
-            required
-          />
-
-          <View style={styles.field}>
-            <Text style={styles.label}>Condition Notes</Text>
-            <TextInput
-              style={[styles.input, styles.textArea]}
-              value={conditionNotes}
-              onChangeText={setConditionNotes}
-              placeholder="Notes about the condition..."
-              multiline
-              numberOfLines={3}
-              textAlignVertical="top"
+          </FormSection>
+
+          {/* Measurements */}
+          <FormSection title="Measurements">
+            <View style={styles.row}>
+              <View style={[styles.field, { flex: 1 }]}>
+                <Text style={styles.label}>Pitch (degrees)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={pitch}
+                  onChangeText={setPitch}
+                  placeholder="e.g., 15"
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={[styles.field, { flex: 1 }]}>
+                <Text style={styles.label}>Area (m²)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={area}
+                  onChangeText={setArea}
+                  placeholder="e.g., 120"
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+            <View style={styles.calculatorRow}>
+              <TouchableOpacity onPress={() => setShowCalculator(true)}>
+                <Text style={styles.calculatorLink}>Calculate pitch & area</Text>
+              </TouchableOpacity>
+            </View>
+            {currentMeasurement &&
+              describeRoofMeasurement(currentMeasurement).map((line) => (
+                <Text key={line} style={styles.calculationNote}>
+                  {line}
+                </Text>
+              ))}
+          </FormSection>
+
+          {/* Condition Assessment */}
+          <FormSection title="Condition Assessment">
+            <ChipSelector
+              label="Condition Rating"
+              options={CONDITION_OPTIONS}
+              value={conditionRating}
+              onChange={(v) => setConditionRating(v as ConditionRating)}
+              required
             />
-          </View>
-        </FormSection>
-
-        {/* Voice Notes */}
-        <FormSection title="Voice Notes">
-          <VoiceNoteRecorder reportId={reportId!} roofElementId={id} showList={true} />
-        </FormSection>
-
-        {/* Save Button */}
-        <TouchableOpacity
-          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
-          onPress={handleSave}
-          disabled={isSaving}
-        >
-          <Text style={styles.saveButtonText}>
-            {isSaving ? "Saving..." : "Save Changes"}
-          </Text>
-        </TouchableOpacity>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Condition Notes</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={conditionNotes}
+                onChangeText={setConditionNotes}
+                placeholder="Notes about the condition..."
+                multiline
+                numberOfLines={3}
+                textAlignVertical="top"
+              />
+            </View>
+          </FormSection>
+        </View>
+
+        {!isLocked && (
+          <>
+            {/* Voice Notes */}
+            <FormSection title="Voice Notes">
+              <VoiceNoteRecorder reportId={reportId!} roofElementId={id} showList={true} />
+            </FormSection>
+
+            {/* Save Button */}
+            <TouchableOpacity
+              style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? "Saving..." : "Save Changes"}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
       </ScrollView>
+
+      <RoofCalculator
+        visible={showCalculator}
+        photos={photos}
+        initial={measurement}
+        onApply={handleApplyCalculation}
+        onClose={() => setShowCalculator(false)}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -473,6 +531,21 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: 12,
   },
+  calculatorRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginBottom: 8,
+  },
+  calculatorLink: {
+    fontSize: 14,
+    color: "#3c4b5d",
+    fontWeight: "600",
+  },
+  calculationNote: {
+    fontSize: 12,
+    color: "#64748b",
+    marginBottom: 4,
+  },
   saveButton: {
     backgroundColor: "#3c4b5d",
     borderRadius: 12,
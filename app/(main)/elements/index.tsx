@@ -14,6 +14,8 @@ import {
 } from "react-native";
 import { useLocalSearchParams, useRouter, useFocusEffect } from "expo-router";
 import { useLocalDB } from "../../../src/hooks/useLocalDB";
+import { useReportLock } from "../../../src/hooks/useReportLock";
+import { ReportLockedBanner } from "../../../src/components/ReportLockedBanner";
 import type { LocalRoofElement } from "../../../src/types/database";
 import { ConditionRating } from "../../../src/types/shared";
 
@@ -51,6 +53,7 @@ export default function ElementListScreen() {
   const { reportId } = useLocalSearchParams<{ reportId: string }>();
   const router = useRouter();
   const { getRoofElements } = useLocalDB();
+  const { status: reportStatus, isLocked } = useReportLock(reportId);
 
   const [elements, setElements] = useState<LocalRoofElement[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -157,12 +160,14 @@ export default function ElementListScreen() {
       <Text style={styles.emptySubtitle}>
         Start documenting roof components for this inspection.
       </Text>
-      <TouchableOpacity
-        style={styles.emptyButton}
-        onPress={() => router.push(`/(main)/elements/new?reportId=${reportId}`)}
-      >
-        <Text style={styles.emptyButtonText}>+ Add First Element</Text>
-      </TouchableOpacity>
+      {!isLocked && (
+        <TouchableOpacity
+          style={styles.emptyButton}
+          onPress={() => router.push(`/(main)/elements/new?reportId=${reportId}`)}
+        >
+          <Text style={styles.emptyButtonText}>+ Add First Element</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
@@ -183,12 +188,14 @@ export default function ElementListScreen() {
         </TouchableOpacity>
         <View style={styles.titleRow}>
           <Text style={styles.title}>Roof Elements ({elements.length})</Text>
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => router.push(`/(main)/elements/new?reportId=${reportId}`)}
-          >
-            <Text style={styles.addButtonText}>+ Add</Text>
-          </TouchableOpacity>
+          {!isLocked && (
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => router.push(`/(main)/elements/new?reportId=${reportId}`)}
+            >
+              <Text style={styles.addButtonText}>+ Add</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -199,6 +206,7 @@ export default function ElementListScreen() {
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
+        ListHeaderComponent={<ReportLockedBanner status={reportStatus} />}
         ListEmptyComponent={renderEmptyState}
         refreshControl={
           <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
@@ -3,7 +3,7 @@
  * Form to create a new roof element
  */
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import {
   View,
   Text,
@@ -20,8 +20,14 @@ import { useLocalSearchParams, useRouter } from "expo-router";
 import { useLocalDB } from "../../../src/hooks/useLocalDB";
 import { ChipSelector } from "../../../src/components/ChipSelector";
 import { FormSection } from "../../../src/components/FormSection";
-import type { LocalRoofElement } from "../../../src/types/database";
-import { ElementType, ConditionRating } from "../../../src/types/shared";
+import { RoofCalculator } from "../../../src/components/RoofCalculator";
+import {
+  describeRoofMeasurement,
+  measurementMatches,
+  parseRoofMeasurement,
+} from "../../../src/lib/roof-geometry";
+import type { LocalPhoto, LocalRoofElement } from "../../../src/types/database";
+import { ElementType, ConditionRating, type RoofMeasurementRecord } from "../../../src/types/shared";
 
 const ELEMENT_TYPE_OPTIONS = [
   { value: ElementType.ROOF_CLADDING, label: "Roof Cladding" },
@@ -50,7 +56,7 @@ const CONDITION_OPTIONS = [
 export default function NewElementScreen() {
   const { reportId } = useLocalSearchParams<{ reportId: string }>();
   const router = useRouter();
-  const { saveRoofElement } = useLocalDB();
+  const { saveRoofElement, getPhotos } = useLocalDB();
 
   const [isLoading, setIsLoading] = useState(false);
 
@@ -62,9 +68,29 @@ export default function NewElementScreen() {
   const [manufacturer, setManufacturer] = useState("");
   const [pitch, setPitch] = useState("");
   const [area, setArea] = useState("");
+  const [measurement, setMeasurement] = useState<RoofMeasurementRecord | null>(null);
+  const [showCalculator, setShowCalculator] = useState(false);
+  const [photos, setPhotos] = useState<LocalPhoto[]>([]);
   const [conditionRating, setConditionRating] = useState(ConditionRating.NOT_INSPECTED);
   const [conditionNotes, setConditionNotes] = useState("");
 
+  useEffect(() => {
+    if (reportId) getPhotos(reportId).then(setPhotos);
+  }, [reportId]);
+
+  const pitchValue = pitch ? parseFloat(pitch) : null;
+  const areaValue = area ? parseFloat(area) : null;
+  // Dropped if the values were typed over after calculating
+  const currentMeasurement =
+    measurement && measurementMatches(measurement, pitchValue, areaValue) ? measurement : null;
+
+  const handleApplyCalculation = (record: RoofMeasurementRecord) => {
+    if (record.pitch) setPitch(String(record.pitch.degrees));
+    if (record.area) setArea(String(record.area.trueAreaM2));
+    setMeasurement(record);
+    setShowCalculator(false);
+  };
+
   const validateForm = (): boolean => {
     if (!location.trim() || location.length < 3) {
       Alert.alert("Error", "Location must be at least 3 characters");
@@ -90,8 +116,9 @@ export default function NewElementScreen() {
         material: material.trim() || null,
         claddingType: claddingType.trim() || null,
         manufacturer: manufacturer.trim() || null,
-        pitch: pitch ? parseFloat(pitch) : null,
-        area: area ? parseFloat(area) : null,
+        pitch: pitchValue,
+        area: areaValue,
+        measurementJson: currentMeasurement ? JSON.stringify(currentMeasurement) : null,
         conditionRating,
         conditionNotes: conditionNotes.trim() || null,
         syncStatus: "draft",
@@ -226,6 +253,17 @@ export default function NewElementScreen() {
               />
             </View>
           </View>
+          <View style={styles.calculatorRow}>
+            <TouchableOpacity onPress={() => setShowCalculator(true)}>
+              <Text style={styles.calculatorLink}>Calculate pitch & area</Text>
+            </TouchableOpacity>
+          </View>
+          {currentMeasurement &&
+            describeRoofMeasurement(currentMeasurement).map((line) => (
+              <Text key={line} style={styles.calculationNote}>
+                {line}
+              </Text>
+            ))}
         </FormSection>
 
         {/* Condition Assessment */}
@@ -263,6 +301,14 @@ export default function NewElementScreen() {
           </Text>
         </TouchableOpacity>
       </ScrollView>
+
+      <RoofCalculator
+        visible={showCalculator}
+        photos={photos}
+        initial={measurement}
+        onApply={handleApplyCalculation}
+        onClose={() => setShowCalculator(false)}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -345,6 +391,21 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: 12,
   },
+  calculatorRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginBottom: 8,
+  },
+  calculatorLink: {
+    fontSize: 14,
+    color: "#3c4b5d",
+    fontWeight: "600",
+  },
+  calculationNote: {
+    fontSize: 12,
+    color: "#64748b",
+    marginBottom: 4,
+  },
   saveButton: {
     backgroundColor: "#3c4b5d",
     borderRadius: 12,
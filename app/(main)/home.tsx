@@ -4,12 +4,14 @@
  */
 
 import { useEffect, useState } from "react";
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Platform, Image } from "react-native";
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Platform, Image, Alert } from "react-native";
 import { useAuthStore } from "../../src/stores/auth-store";
 import { Link, useRouter } from "expo-router";
 import { OfflineIndicator } from "../../src/components/OfflineIndicator";
+import { SyncErrorSheet } from "../../src/components/SyncErrorSheet";
 import { COLORS } from "../../src/lib/theme";
-import type { LocalReport } from "../../src/types/database";
+import type { LocalReport, LocalScheduledJob } from "../../src/types/database";
+import type { AgendaSection } from "../../src/lib/scheduled-jobs";
 
 // SQLite is not supported on web - only import on native
 const isNative = Platform.OS !== "web";
@@ -19,11 +21,16 @@ export default function HomeScreen() {
   const router = useRouter();
 
   const [reports, setReports] = useState<LocalReport[]>([]);
+  const [agenda, setAgenda] = useState<AgendaSection[]>([]);
+  const [startingJobId, setStartingJobId] = useState<string | null>(null);
   const [stats, setStats] = useState({ reports: 0, photos: 0, defects: 0, elements: 0, pendingSync: 0, checklists: 0 });
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [syncError, setSyncError] = useState<string | null>(null);
   const [syncDebug, setSyncDebug] = useState<string | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [fileEncryption, setFileEncryption] = useState(false);
+  const [isUpdatingEncryption, setIsUpdatingEncryption] = useState(false);
+  const [showSyncErrors, setShowSyncErrors] = useState(false);
 
   const loadData = async () => {
     if (!isNative) {
@@ -34,17 +41,28 @@ export default function HomeScreen() {
 
     try {
       const sqlite = await import("../../src/lib/sqlite");
-      const [allReports, dbStats] = await Promise.all([
+      const { scheduledJobService } = await import("../../src/services/scheduled-job-service");
+      const [allReports, dbStats, jobAgenda] = await Promise.all([
         sqlite.getAllReports(),
         sqlite.getDatabaseStats(),
+        scheduledJobService.getAgenda(),
       ]);
       setReports(allReports);
       setStats(dbStats);
+      setAgenda(jobAgenda);
     } catch (error) {
       console.error("Failed to load data:", error);
     }
   };
 
+  useEffect(() => {
+    if (!isNative) return;
+    import("../../src/services/file-encryption-service")
+      .then(({ isFileEncryptionEnabled }) => isFileEncryptionEnabled())
+      .then(setFileEncryption)
+      .catch(() => {});
+  }, []);
+
   useEffect(() => {
     // Load local data first (instant)
     loadData();
@@ -104,6 +122,57 @@ export default function HomeScreen() {
     }
   };
 
+  const applyFileEncryption = async (enabled: boolean) => {
+    setIsUpdatingEncryption(true);
+    try {
+      const { setFileEncryptionEnabled } = await import("../../src/services/file-encryption-service");
+      const result = await setFileEncryptionEnabled(enabled);
+      if (result.success) {
+        setFileEncryption(enabled);
+      } else {
+        Alert.alert("File Encryption", result.error || "Failed to update file encryption");
+      }
+    } finally {
+      setIsUpdatingEncryption(false);
+    }
+  };
+
+  const handleToggleFileEncryption = () => {
+    const enabled = !fileEncryption;
+    Alert.alert(
+      enabled ? "Encrypt Photos on Device?" : "Stop Encrypting Photos?",
+      enabled
+        ? "New photos and working copies will be encrypted on this device. Originals captured before now are left unchanged."
+        : "Working copies will be decrypted. Originals captured while encryption was on stay encrypted.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: enabled ? "Encrypt" : "Turn Off", onPress: () => applyFileEncryption(enabled) },
+      ]
+    );
+  };
+
+  const handleStartJob = async (job: LocalScheduledJob) => {
+    if (!user || startingJobId) return;
+    setStartingJobId(job.id);
+    try {
+      const { startScheduledJob } = await import("../../src/services/scheduled-job-service");
+      const result = await startScheduledJob(job.id, { id: user.sub, name: user.name });
+      if (result.success && result.reportId) {
+        // A fresh report still needs the details only known on site
+        router.push(
+          result.resumed
+            ? `/(main)/report-detail/${result.reportId}`
+            : `/(main)/inspection-details/${result.reportId}?fromJob=1`
+        );
+        await loadData();
+      } else {
+        Alert.alert("Start Job", result.error || "Could not start this job");
+      }
+    } finally {
+      setStartingJobId(null);
+    }
+  };
+
   const handleSignOut = async () => {
     await logout();
     router.replace("/(auth)/login");
@@ -135,6 +204,57 @@ export default function HomeScreen() {
     }
   };
 
+  const formatDue = (dateStr: string) =>
+    new Date(dateStr).toLocaleString("en-NZ", {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const renderAgenda = () => {
+    if (agenda.length === 0) return null;
+    return (
+      <View style={styles.agendaSection}>
+        <Text style={styles.sectionTitle}>Scheduled Jobs</Text>
+        {agenda.map((section) => (
+          <View key={section.key}>
+            <Text style={[styles.agendaHeading, section.key === "OVERDUE" && styles.agendaHeadingOverdue]}>
+              {section.title}
+            </Text>
+            {section.jobs.map((job) => (
+              <View key={job.id} style={styles.jobCard}>
+                <View style={styles.jobInfo}>
+                  <Text style={styles.jobAddress} numberOfLines={1}>
+                    {job.propertyAddress}, {job.propertyCity}
+                  </Text>
+                  <Text style={styles.jobMeta} numberOfLines={1}>
+                    {formatDue(job.dueDate)} • {job.clientName} • {job.inspectionType.replace(/_/g, " ").toLowerCase()}
+                  </Text>
+                  {job.notes && (
+                    <Text style={styles.jobNotes} numberOfLines={2}>
+                      {job.notes}
+                    </Text>
+                  )}
+                </View>
+                <TouchableOpacity
+                  style={styles.jobButton}
+                  onPress={() => handleStartJob(job)}
+                  disabled={startingJobId !== null}
+                >
+                  <Text style={styles.jobButtonText}>
+                    {startingJobId === job.id ? "..." : job.reportId ? "Continue" : "Start"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const renderReportItem = ({ item }: { item: LocalReport }) => (
     <TouchableOpacity
       style={styles.reportCard}
@@ -172,9 +292,25 @@ export default function HomeScreen() {
             style={styles.headerLogo}
             resizeMode="contain"
           />
-          <TouchableOpacity onPress={handleSignOut} style={styles.signOutButton}>
-            <Text style={styles.signOutText}>Sign Out</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={() => router.push("/(main)/search")} style={styles.signOutButton}>
+              <Text style={styles.signOutText}>Search</Text>
+            </TouchableOpacity>
+            {isNative && (
+              <TouchableOpacity
+                onPress={handleToggleFileEncryption}
+                style={styles.signOutButton}
+                disabled={isUpdatingEncryption}
+              >
+                <Text style={styles.signOutText}>
+                  {isUpdatingEncryption ? "Updating..." : fileEncryption ? "Encrypted" : "Encrypt Files"}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={handleSignOut} style={styles.signOutButton}>
+              <Text style={styles.signOutText}>Sign Out</Text>
+            </TouchableOpacity>
+          </View>
         </View>
         <Text style={styles.greeting}>Hello, {user?.name?.split(" ")[0] || "Inspector"}</Text>
       </View>
@@ -210,12 +346,17 @@ export default function HomeScreen() {
           <Text style={styles.statNumber}>{stats.photos}</Text>
           <Text style={styles.statLabel}>Photos</Text>
         </View>
-        <View style={[styles.statCard, stats.pendingSync > 0 && styles.statCardWarning]}>
+        <TouchableOpacity
+          style={[styles.statCard, stats.pendingSync > 0 && styles.statCardWarning]}
+          onPress={() => setShowSyncErrors(true)}
+          disabled={!isNative}
+          activeOpacity={0.7}
+        >
           <Text style={[styles.statNumber, stats.pendingSync > 0 && styles.statNumberWarning]}>
             {stats.pendingSync}
           </Text>
           <Text style={styles.statLabel}>Pending Sync</Text>
-        </View>
+        </TouchableOpacity>
       </View>
 
       {/* New Report Button */}
@@ -226,13 +367,18 @@ export default function HomeScreen() {
         <Text style={styles.newReportText}>+ New Inspection Report</Text>
       </TouchableOpacity>
 
-      {/* Reports List */}
+      {/* Agenda and Reports List */}
       <View style={styles.reportsSection}>
-        <Text style={styles.sectionTitle}>Recent Reports</Text>
         <FlatList
           data={reports}
           renderItem={renderReportItem}
           keyExtractor={(item) => item.id}
+          ListHeaderComponent={
+            <>
+              {renderAgenda()}
+              <Text style={styles.sectionTitle}>Recent Reports</Text>
+            </>
+          }
           refreshControl={
             <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
           }
@@ -245,6 +391,16 @@ export default function HomeScreen() {
           contentContainerStyle={reports.length === 0 ? styles.emptyContainer : undefined}
         />
       </View>
+
+      {isNative && (
+        <SyncErrorSheet
+          visible={showSyncErrors}
+          onClose={() => {
+            setShowSyncErrors(false);
+            loadData();
+          }}
+        />
+      )}
     </View>
   );
 }
@@ -266,6 +422,10 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 12,
   },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
   headerLogo: {
     width: 36,
     height: 36,
@@ -343,6 +503,66 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 12,
   },
+  agendaSection: {
+    marginBottom: 8,
+  },
+  agendaHeading: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#64748b",
+    textTransform: "uppercase",
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  agendaHeadingOverdue: {
+    color: "#dc2626",
+  },
+  jobCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    marginHorizontal: 20,
+    marginBottom: 12,
+    borderRadius: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.primary[500],
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  jobInfo: {
+    flex: 1,
+  },
+  jobAddress: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  jobMeta: {
+    fontSize: 12,
+    color: "#64748b",
+    marginTop: 4,
+  },
+  jobNotes: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: 4,
+  },
+  jobButton: {
+    marginLeft: 12,
+    backgroundColor: COLORS.primary[500],
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  jobButtonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   reportCard: {
     backgroundColor: "#ffffff",
     marginHorizontal: 20,
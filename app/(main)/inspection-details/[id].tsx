@@ -0,0 +1,381 @@
+/**
+ * Inspection Details Screen
+ * Edit the property and site details a report needs before submission
+ *
+ * Reports started from a scheduled job open here first: the job carries
+ * the address and client but not the region, postcode, weather or access
+ * method, which the inspector records on site.
+ */
+
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useLocalDB } from "../../../src/hooks/useLocalDB";
+import { ReportLockedBanner } from "../../../src/components/ReportLockedBanner";
+import { ChipSelector } from "../../../src/components/ChipSelector";
+import { FormSection } from "../../../src/components/FormSection";
+import { WeatherEditor } from "../../../src/components/WeatherEditor";
+import { prefillWeather } from "../../../src/services/weather-service";
+import { describeWeather, parseWeatherRecord } from "../../../src/lib/weather";
+import { isReportLocked } from "../../../src/lib/report-workflow";
+import { validatePostcode, validateRequired, combineValidations } from "../../../src/lib/error-handler";
+import type { LocalReport } from "../../../src/types/database";
+import type { WeatherRecord } from "../../../src/types/shared";
+
+const ACCESS_METHOD_OPTIONS = [
+  { value: "Ladder", label: "Ladder" },
+  { value: "Roof hatch", label: "Roof hatch" },
+  { value: "Elevated work platform", label: "EWP" },
+  { value: "Scaffold", label: "Scaffold" },
+  { value: "Drone", label: "Drone" },
+  { value: "Viewed from ground", label: "From ground" },
+];
+
+export default function InspectionDetailsScreen() {
+  const { id, fromJob } = useLocalSearchParams<{ id: string; fromJob?: string }>();
+  const router = useRouter();
+  const { getReport, saveReport } = useLocalDB();
+
+  const [report, setReport] = useState<LocalReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Form state
+  const [propertyRegion, setPropertyRegion] = useState("");
+  const [propertyPostcode, setPropertyPostcode] = useState("");
+  const [accessMethod, setAccessMethod] = useState("");
+  const [limitations, setLimitations] = useState("");
+  const [weather, setWeather] = useState<WeatherRecord | null>(null);
+  const [isSuggestingWeather, setIsSuggestingWeather] = useState(false);
+
+  useEffect(() => {
+    loadReport();
+  }, [id]);
+
+  const loadReport = async () => {
+    if (!id) return;
+    setIsLoading(true);
+    try {
+      const loaded = await getReport(id);
+      setReport(loaded);
+      if (loaded) {
+        setPropertyRegion(loaded.propertyRegion);
+        setPropertyPostcode(loaded.propertyPostcode);
+        setAccessMethod(loaded.accessMethod || "");
+        setLimitations(loaded.limitations || "");
+        const recorded = parseWeatherRecord(loaded.weatherJson);
+        setWeather(recorded);
+        if (!recorded && !isReportLocked(loaded.status)) {
+          suggestWeather(false);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load report:", error);
+      Alert.alert("Error", "Failed to load report");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const suggestWeather = async (replace: boolean) => {
+    setIsSuggestingWeather(true);
+    try {
+      const suggestion = await prefillWeather();
+      if (suggestion) {
+        // Don't overwrite anything the inspector has already entered
+        setWeather((current) => (replace || !current ? suggestion : current));
+      } else if (replace) {
+        Alert.alert("Weather", "No recent weather nearby to suggest. Enter it manually.");
+      }
+    } finally {
+      setIsSuggestingWeather(false);
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const requiredValidation = combineValidations(
+      validateRequired(propertyRegion, "Region"),
+      validateRequired(propertyPostcode, "Postcode")
+    );
+    if (!requiredValidation.valid) {
+      Alert.alert("Required Fields", requiredValidation.errors[0]);
+      return false;
+    }
+
+    const postcodeValidation = validatePostcode(propertyPostcode.trim());
+    if (!postcodeValidation.valid) {
+      Alert.alert("Invalid Postcode", postcodeValidation.errors[0]);
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!report || !validateForm()) return;
+
+    setIsSaving(true);
+    try {
+      await saveReport({
+        ...report,
+        propertyRegion: propertyRegion.trim(),
+        propertyPostcode: propertyPostcode.trim(),
+        accessMethod: accessMethod.trim() || null,
+        limitations: limitations.trim() || null,
+        weatherConditions: weather ? describeWeather(weather) : null,
+        weatherJson: weather ? JSON.stringify(weather) : null,
+        syncStatus: "pending",
+        updatedAt: new Date().toISOString(),
+      });
+
+      if (fromJob) {
+        router.replace(`/(main)/report-detail/${report.id}`);
+      } else {
+        router.back();
+      }
+    } catch (error) {
+      console.error("Failed to save inspection details:", error);
+      Alert.alert("Error", "Failed to save inspection details. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading report...</Text>
+      </View>
+    );
+  }
+
+  if (!report) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>Report not found</Text>
+        <TouchableOpacity style={styles.errorButton} onPress={() => router.back()}>
+          <Text style={styles.errorButtonText}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const isLocked = isReportLocked(report.status);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+    >
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.backButton}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Inspection Details</Text>
+          <Text style={styles.subtitle}>
+            {report.propertyAddress}, {report.propertyCity}
+          </Text>
+        </View>
+
+        <ReportLockedBanner status={report.status} />
+
+        {/* Read-only once the workflow locks the report */}
+        <View pointerEvents={isLocked ? "none" : "auto"}>
+          <FormSection title="Property">
+            <View style={styles.row}>
+              <View style={[styles.field, { flex: 1 }]}>
+                <Text style={styles.label}>Region *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={propertyRegion}
+                  onChangeText={setPropertyRegion}
+                  placeholder="Auckland"
+                />
+              </View>
+              <View style={[styles.field, { flex: 1 }]}>
+                <Text style={styles.label}>Postcode *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={propertyPostcode}
+                  onChangeText={setPropertyPostcode}
+                  placeholder="1010"
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+          </FormSection>
+
+          <FormSection title="Site Conditions">
+            <View style={styles.field}>
+              <Text style={styles.label}>Weather</Text>
+              <WeatherEditor
+                value={weather}
+                onChange={setWeather}
+                onRefresh={() => suggestWeather(true)}
+                isRefreshing={isSuggestingWeather}
+              />
+            </View>
+
+            <ChipSelector
+              label="Access Method"
+              options={ACCESS_METHOD_OPTIONS}
+              value={accessMethod}
+              onChange={setAccessMethod}
+              required
+            />
+            <View style={styles.field}>
+              <TextInput
+                style={styles.input}
+                value={accessMethod}
+                onChangeText={setAccessMethod}
+                placeholder="Or describe how the roof was accessed"
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Limitations</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={limitations}
+                onChangeText={setLimitations}
+                placeholder="e.g., Rear slope not accessible, wet surface"
+                multiline
+                textAlignVertical="top"
+              />
+            </View>
+          </FormSection>
+
+          {!isLocked && (
+            <TouchableOpacity
+              style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>{isSaving ? "Saving..." : "Save Details"}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+  },
+  loadingText: {
+    fontSize: 16,
+    color: "#64748b",
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 18,
+    color: "#ef4444",
+    marginBottom: 16,
+  },
+  errorButton: {
+    backgroundColor: "#3c4b5d",
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  errorButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  header: {
+    marginBottom: 24,
+    paddingTop: 40,
+  },
+  backButton: {
+    color: "#3c4b5d",
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#1e293b",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#64748b",
+    marginTop: 4,
+  },
+  field: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#374151",
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: "#f9fafb",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#1f2937",
+  },
+  textArea: {
+    minHeight: 80,
+    paddingTop: 12,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  saveButton: {
+    backgroundColor: "#3c4b5d",
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  saveButtonDisabled: {
+    backgroundColor: "#94a3b8",
+  },
+  saveButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -17,8 +17,11 @@ import {
 } from "react-native";
 import { useRouter } from "expo-router";
 import { useLocalDB } from "../../src/hooks/useLocalDB";
+import { WeatherEditor } from "../../src/components/WeatherEditor";
+import { prefillWeather } from "../../src/services/weather-service";
+import { describeWeather } from "../../src/lib/weather";
 import type { LocalReport, LocalTemplate } from "../../src/types/database";
-import { InspectionType, PropertyType, ReportStatus } from "../../src/types/shared";
+import { InspectionType, PropertyType, ReportStatus, type WeatherRecord } from "../../src/types/shared";
 import {
   validateEmail,
   validatePhone,
@@ -65,12 +68,29 @@ export default function NewReportScreen() {
   const [clientEmail, setClientEmail] = useState("");
   const [clientPhone, setClientPhone] = useState("");
   const [inspectionType, setInspectionType] = useState<InspectionType>(InspectionType.FULL_INSPECTION);
-  const [weatherConditions, setWeatherConditions] = useState("");
+  const [weather, setWeather] = useState<WeatherRecord | null>(null);
+  const [isSuggestingWeather, setIsSuggestingWeather] = useState(false);
 
   useEffect(() => {
     loadTemplates();
+    suggestWeather(false);
   }, []);
 
+  const suggestWeather = async (replace: boolean) => {
+    setIsSuggestingWeather(true);
+    try {
+      const suggestion = await prefillWeather();
+      if (suggestion) {
+        // Don't overwrite anything the inspector has already entered
+        setWeather((current) => (replace || !current ? suggestion : current));
+      } else if (replace) {
+        Alert.alert("Weather", "No recent weather nearby to suggest. Enter it manually.");
+      }
+    } finally {
+      setIsSuggestingWeather(false);
+    }
+  };
+
   const loadTemplates = async () => {
     const loadedTemplates = await getTemplates();
     setTemplates(loadedTemplates);
@@ -140,7 +160,8 @@ export default function NewReportScreen() {
         gpsLng: null,
         inspectionDate: now,
         inspectionType,
-        weatherConditions: weatherConditions.trim() || null,
+        weatherConditions: weather ? describeWeather(weather) : null,
+        weatherJson: weather ? JSON.stringify(weather) : null,
         accessMethod: null,
         limitations: null,
         clientName: clientName.trim(),
@@ -341,12 +362,12 @@ export default function NewReportScreen() {
           </View>
 
           <View style={styles.field}>
-            <Text style={styles.label}>Weather Conditions</Text>
-            <TextInput
-              style={styles.input}
-              value={weatherConditions}
-              onChangeText={setWeatherConditions}
-              placeholder="Clear, 18°C, light wind"
+            <Text style={styles.label}>Weather</Text>
+            <WeatherEditor
+              value={weather}
+              onChange={setWeather}
+              onRefresh={() => suggestWeather(true)}
+              isRefreshing={isSuggestingWeather}
             />
           </View>
         </View>
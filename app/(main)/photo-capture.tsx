@@ -14,7 +14,6 @@ import {
   TouchableOpacity,
   StyleSheet,
   FlatList,
-  Image,
   Alert,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
@@ -24,6 +23,7 @@ import { CameraCapture } from "../../src/components/CameraCapture";
 import { PhotoDetailModal } from "../../src/components/PhotoDetailModal";
 import { ReportPickerModal } from "../../src/components/ReportPickerModal";
 import { OfflineIndicator } from "../../src/components/OfflineIndicator";
+import { DecryptedImage } from "../../src/components/DecryptedImage";
 import { useLocalDB } from "../../src/hooks/useLocalDB";
 import type { LocalPhoto } from "../../src/types/database";
 
@@ -202,7 +202,7 @@ export default function PhotoCaptureScreen() {
       accessibilityLabel={`View photo ${item.photoType.replace(/_/g, " ")}`}
       accessibilityHint="Opens photo details"
     >
-      <Image source={{ uri: item.localUri }} style={styles.photoImage} />
+      <DecryptedImage uri={item.localUri} style={styles.photoImage} />
       <View style={styles.photoInfo}>
         <Text style={styles.photoType}>{item.photoType.replace(/_/g, " ")}</Text>
         <Text style={styles.photoTimestamp}>
@@ -11,16 +11,26 @@ import {
   StyleSheet,
   ScrollView,
   RefreshControl,
+  Alert,
+  ActivityIndicator,
 } from "react-native";
+import * as Sharing from "expo-sharing";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useLocalDB } from "../../../src/hooks/useLocalDB";
 import { VoiceNoteRecorder } from "../../../src/components/VoiceNoteRecorder";
+import { generateReportPdf } from "../../../src/services/report-pdf-service";
+import { exportEvidenceBundle } from "../../../src/services/evidence-bundle-service";
+import { transitionReport } from "../../../src/services/report-workflow-service";
+import { ReportLockedBanner } from "../../../src/components/ReportLockedBanner";
+import { getAvailableActions, isReportLocked, workflowActorFromAuth } from "../../../src/lib/report-workflow";
+import { useAuthStore, selectUser } from "../../../src/stores/auth-store";
 import type { LocalReport, LocalPhoto, LocalDefect, LocalRoofElement, LocalVideo, LocalVoiceNote } from "../../../src/types/database";
 
 export default function ReportDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { getReport, getPhotos, getDefects, getRoofElements } = useLocalDB();
+  const user = useAuthStore(selectUser);
 
   const [report, setReport] = useState<LocalReport | null>(null);
   const [photos, setPhotos] = useState<LocalPhoto[]>([]);
@@ -30,6 +40,9 @@ export default function ReportDetailScreen() {
   const [voiceNotes, setVoiceNotes] = useState<LocalVoiceNote[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -71,6 +84,83 @@ export default function ReportDetailScreen() {
     setIsRefreshing(false);
   };
 
+  const handleGeneratePdf = async () => {
+    if (!id || isGeneratingPdf) return;
+    setIsGeneratingPdf(true);
+    try {
+      const result = await generateReportPdf(id);
+      if (!result.success || !result.uri) {
+        Alert.alert("PDF Failed", result.error || "Could not generate the report PDF");
+        return;
+      }
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(result.uri, {
+          mimeType: "application/pdf",
+          UTI: "com.adobe.pdf",
+          dialogTitle: "Share report PDF",
+        });
+      } else {
+        Alert.alert("PDF Generated", `Saved to ${result.uri}`);
+      }
+    } catch (error) {
+      console.error("Failed to generate PDF:", error);
+      Alert.alert("PDF Failed", "Could not generate the report PDF");
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  };
+
+  const handleExportEvidence = async () => {
+    if (!id || isExportingBundle) return;
+    setIsExportingBundle(true);
+    try {
+      const result = await exportEvidenceBundle(id);
+      if (!result.success || !result.uri) {
+        Alert.alert("Export Failed", result.error || "Could not create the evidence bundle");
+        return;
+      }
+
+      if (result.filesMissing > 0 || result.hashMismatches > 0) {
+        Alert.alert(
+          "Evidence Warnings",
+          `${result.filesMissing} file(s) missing and ${result.hashMismatches} file(s) failed hash verification. See manifest.json in the bundle.`
+        );
+      }
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(result.uri, {
+          mimeType: "application/zip",
+          UTI: "public.zip-archive",
+          dialogTitle: "Share evidence bundle",
+        });
+      } else {
+        Alert.alert("Bundle Created", `Saved to ${result.uri}`);
+      }
+    } catch (error) {
+      console.error("Failed to export evidence bundle:", error);
+      Alert.alert("Export Failed", "Could not create the evidence bundle");
+    } finally {
+      setIsExportingBundle(false);
+    }
+  };
+
+  const handleSubmitForReview = async () => {
+    if (!id || !user || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      const result = await transitionReport(id, "SUBMIT", workflowActorFromAuth(user));
+      if (!result.success) {
+        Alert.alert("Cannot Submit", (result.errors ?? [result.error]).filter(Boolean).join("\n"));
+        return;
+      }
+      await loadReport();
+      Alert.alert("Submitted", "The report has been submitted for review and is now read-only.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
     return date.toLocaleDateString("en-NZ", {
@@ -129,6 +219,11 @@ export default function ReportDetailScreen() {
     );
   }
 
+  const isLocked = isReportLocked(report.status);
+  const canSubmit =
+    !!user &&
+    getAvailableActions(report.status, workflowActorFromAuth(user).role, report.inspectionType).includes("SUBMIT");
+
   return (
     <ScrollView
       style={styles.container}
@@ -171,6 +266,8 @@ export default function ReportDetailScreen() {
         </View>
       </View>
 
+      <ReportLockedBanner status={report.status} />
+
       {/* Quick Stats */}
       <View style={styles.statsRow}>
         <View style={styles.statCard}>
@@ -211,7 +308,11 @@ export default function ReportDetailScreen() {
         </View>
         <View style={styles.detailRow}>
           <Text style={styles.detailLabel}>Region</Text>
-          <Text style={styles.detailValue}>{report.propertyRegion}</Text>
+          <Text style={styles.detailValue}>{report.propertyRegion || "—"}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Postcode</Text>
+          <Text style={styles.detailValue}>{report.propertyPostcode || "—"}</Text>
         </View>
         <View style={styles.detailRow}>
           <Text style={styles.detailLabel}>Property Type</Text>
@@ -248,7 +349,14 @@ export default function ReportDetailScreen() {
 
       {/* Inspection Details */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Inspection</Text>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Inspection</Text>
+          {!isLocked && (
+            <TouchableOpacity onPress={() => router.push(`/(main)/inspection-details/${id}`)}>
+              <Text style={styles.editLink}>Edit</Text>
+            </TouchableOpacity>
+          )}
+        </View>
         <View style={styles.detailRow}>
           <Text style={styles.detailLabel}>Date</Text>
           <Text style={styles.detailValue}>{formatDate(report.inspectionDate)}</Text>
@@ -257,29 +365,33 @@ export default function ReportDetailScreen() {
           <Text style={styles.detailLabel}>Type</Text>
           <Text style={styles.detailValue}>{report.inspectionType.replace(/_/g, " ")}</Text>
         </View>
-        {report.weatherConditions && (
-          <View style={styles.detailRow}>
-            <Text style={styles.detailLabel}>Weather</Text>
-            <Text style={styles.detailValue}>{report.weatherConditions}</Text>
-          </View>
-        )}
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Weather</Text>
+          <Text style={styles.detailValue}>{report.weatherConditions || "—"}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Access</Text>
+          <Text style={styles.detailValue}>{report.accessMethod || "—"}</Text>
+        </View>
       </View>
 
       {/* Actions */}
       <View style={styles.actionsSection}>
         <Text style={styles.sectionTitle}>Actions</Text>
 
-        <TouchableOpacity
-          style={styles.actionButton}
-          onPress={() => router.push(`/(main)/photo-capture?reportId=${id}`)}
-        >
-          <Text style={styles.actionIcon}>📷</Text>
-          <View style={styles.actionContent}>
-            <Text style={styles.actionTitle}>Capture Photos</Text>
-            <Text style={styles.actionSubtitle}>{photos.length} photos captured</Text>
-          </View>
-          <Text style={styles.actionArrow}>→</Text>
-        </TouchableOpacity>
+        {!isLocked && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => router.push(`/(main)/photo-capture?reportId=${id}`)}
+          >
+            <Text style={styles.actionIcon}>📷</Text>
+            <View style={styles.actionContent}>
+              <Text style={styles.actionTitle}>Capture Photos</Text>
+              <Text style={styles.actionSubtitle}>{photos.length} photos captured</Text>
+            </View>
+            <Text style={styles.actionArrow}>→</Text>
+          </TouchableOpacity>
+        )}
 
         <TouchableOpacity
           style={styles.actionButton}
@@ -314,18 +426,35 @@ export default function ReportDetailScreen() {
         <TouchableOpacity
           style={styles.actionButton}
           onPress={() => router.push({
-            pathname: "/(main)/video-capture",
+            pathname: "/(main)/roof-plan/[reportId]",
             params: { reportId: id || "" }
           } as any)}
         >
-          <Text style={styles.actionIcon}>🎥</Text>
+          <Text style={styles.actionIcon}>📐</Text>
           <View style={styles.actionContent}>
-            <Text style={styles.actionTitle}>Record Video</Text>
-            <Text style={styles.actionSubtitle}>{videos.length} video{videos.length !== 1 ? "s" : ""} recorded</Text>
+            <Text style={styles.actionTitle}>Roof Plan</Text>
+            <Text style={styles.actionSubtitle}>Sketch the roof and pin defect locations</Text>
           </View>
           <Text style={styles.actionArrow}>→</Text>
         </TouchableOpacity>
 
+        {!isLocked && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => router.push({
+              pathname: "/(main)/video-capture",
+              params: { reportId: id || "" }
+            } as any)}
+          >
+            <Text style={styles.actionIcon}>🎥</Text>
+            <View style={styles.actionContent}>
+              <Text style={styles.actionTitle}>Record Video</Text>
+              <Text style={styles.actionSubtitle}>{videos.length} video{videos.length !== 1 ? "s" : ""} recorded</Text>
+            </View>
+            <Text style={styles.actionArrow}>→</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={styles.actionButton}
           onPress={() => router.push({
@@ -342,14 +471,57 @@ export default function ReportDetailScreen() {
         </TouchableOpacity>
       </View>
 
+      {/* Offline PDF */}
+      <TouchableOpacity
+        style={[styles.pdfButton, isGeneratingPdf && styles.pdfButtonDisabled]}
+        onPress={handleGeneratePdf}
+        disabled={isGeneratingPdf}
+      >
+        {isGeneratingPdf ? (
+          <ActivityIndicator color="#3c4b5d" />
+        ) : (
+          <Text style={styles.pdfButtonText}>Generate PDF (offline draft)</Text>
+        )}
+      </TouchableOpacity>
+
+      {/* Evidence bundle */}
+      <TouchableOpacity
+        style={[styles.pdfButton, isExportingBundle && styles.pdfButtonDisabled]}
+        onPress={handleExportEvidence}
+        disabled={isExportingBundle}
+      >
+        {isExportingBundle ? (
+          <ActivityIndicator color="#3c4b5d" />
+        ) : (
+          <Text style={styles.pdfButtonText}>Export Evidence Bundle (ZIP)</Text>
+        )}
+      </TouchableOpacity>
+
       {/* Voice Notes */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Voice Notes</Text>
-        <VoiceNoteRecorder reportId={id!} showList={true} />
-      </View>
+      {!isLocked && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Voice Notes</Text>
+          <VoiceNoteRecorder reportId={id!} showList={true} />
+        </View>
+      )}
+
+      {/* Workflow */}
+      {canSubmit && (
+        <TouchableOpacity
+          style={[styles.pdfButton, isSubmitting && styles.pdfButtonDisabled]}
+          onPress={handleSubmitForReview}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#3c4b5d" />
+          ) : (
+            <Text style={styles.pdfButtonText}>Submit for Review</Text>
+          )}
+        </TouchableOpacity>
+      )}
 
       {/* Edit Button */}
-      {report.status !== "FINALISED" && (
+      {!isLocked && (
         <TouchableOpacity style={styles.editButton}>
           <Text style={styles.editButtonText}>Edit Report Details</Text>
         </TouchableOpacity>
@@ -494,6 +666,16 @@ const styles = StyleSheet.create({
     color: "#1e293b",
     marginBottom: 12,
   },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+  },
+  editLink: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#3c4b5d",
+  },
   detailRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -547,6 +729,22 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: "#94a3b8",
   },
+  pdfButton: {
+    borderWidth: 1,
+    borderColor: "#3c4b5d",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  pdfButtonDisabled: {
+    opacity: 0.6,
+  },
+  pdfButtonText: {
+    color: "#3c4b5d",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   editButton: {
     backgroundColor: "#3c4b5d",
     borderRadius: 12,
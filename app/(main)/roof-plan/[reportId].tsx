@@ -0,0 +1,609 @@
+/**
+ * Roof Plan Screen
+ * Sketch the roof outline, mark element regions and pin defects
+ *
+ * Modes:
+ * - View: tap a pin to see its defect and photos, or a region to select it
+ * - Outline: tap corners of the roof outline
+ * - Region: pick an element type (or recorded element) and tap its corners
+ * - Pin: pick a defect and tap where it is; re-pinning moves the pin
+ *
+ * Every committed change is saved to SQLite and marks the report for sync.
+ */
+
+import { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useLocalSearchParams, useRouter, useFocusEffect } from "expo-router";
+import { useLocalDB } from "../../../src/hooks/useLocalDB";
+import { useReportLock } from "../../../src/hooks/useReportLock";
+import { ReportLockedBanner } from "../../../src/components/ReportLockedBanner";
+import { RoofPlanCanvas } from "../../../src/components/RoofPlanCanvas";
+import { DecryptedImage } from "../../../src/components/DecryptedImage";
+import {
+  parseRoofPlan,
+  createEmptyRoofPlan,
+  placePin,
+  removePin,
+  addRegion,
+  removeRegion,
+  pruneRoofPlan,
+  pinNearPoint,
+  regionAtPoint,
+  clampPoint,
+} from "../../../src/lib/roof-plan";
+import { ElementType } from "../../../src/types/shared";
+import type { RoofPlan, RoofPlanPoint } from "../../../src/types/shared";
+import type {
+  LocalDefect,
+  LocalRoofElement,
+  LocalPhoto,
+  LocalRoofPlan,
+} from "../../../src/types/database";
+
+type SketchMode = "view" | "outline" | "region" | "pin";
+
+const MODES: { value: SketchMode; label: string }[] = [
+  { value: "view", label: "View" },
+  { value: "outline", label: "Outline" },
+  { value: "region", label: "Regions" },
+  { value: "pin", label: "Pin Defects" },
+];
+
+const ELEMENT_TYPES = Object.values(ElementType);
+
+function generateLocalId() {
+  return `local_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+}
+
+function humanize(value: string): string {
+  return value.replace(/_/g, " ");
+}
+
+export default function RoofPlanScreen() {
+  const { reportId } = useLocalSearchParams<{ reportId: string }>();
+  const router = useRouter();
+  const { getDefects, getRoofElements, getPhotosForDefect, getRoofPlan, saveRoofPlan } = useLocalDB();
+  const { status: reportStatus, isLocked } = useReportLock(reportId);
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [stored, setStored] = useState<LocalRoofPlan | null>(null);
+  const [plan, setPlan] = useState<RoofPlan>(createEmptyRoofPlan);
+  const [defects, setDefects] = useState<LocalDefect[]>([]);
+  const [elements, setElements] = useState<LocalRoofElement[]>([]);
+
+  const [mode, setMode] = useState<SketchMode>("view");
+  const [draftPoints, setDraftPoints] = useState<RoofPlanPoint[]>([]);
+  const [regionType, setRegionType] = useState<ElementType>(ElementType.ROOF_CLADDING);
+  const [regionElementId, setRegionElementId] = useState<string | null>(null);
+  const [pinDefectId, setPinDefectId] = useState<string | null>(null);
+
+  const [selectedPinId, setSelectedPinId] = useState<string | null>(null);
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [selectedPhotos, setSelectedPhotos] = useState<LocalPhoto[]>([]);
+
+  // Reload on focus so defects added or deleted elsewhere are reflected
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [reportId])
+  );
+
+  const loadData = async () => {
+    if (!reportId) return;
+    try {
+      const [existing, reportDefects, reportElements] = await Promise.all([
+        getRoofPlan(reportId),
+        getDefects(reportId),
+        getRoofElements(reportId),
+      ]);
+      setStored(existing);
+      setDefects(reportDefects);
+      setElements(reportElements);
+      setPlan(
+        pruneRoofPlan(
+          parseRoofPlan(existing?.planJson),
+          reportDefects.map((d) => d.id),
+          reportElements.map((e) => e.id)
+        )
+      );
+    } catch (error) {
+      console.error("Failed to load roof plan:", error);
+      Alert.alert("Error", "Failed to load roof plan");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const persist = async (next: RoofPlan) => {
+    if (!reportId) return;
+    setPlan(next);
+
+    const now = new Date().toISOString();
+    const record: LocalRoofPlan = {
+      id: stored?.id ?? generateLocalId(),
+      reportId,
+      planJson: JSON.stringify(next),
+      syncStatus: "pending",
+      createdAt: stored?.createdAt ?? now,
+      updatedAt: now,
+      syncedAt: stored?.syncedAt ?? null,
+    };
+
+    try {
+      await saveRoofPlan(record);
+      setStored(record);
+    } catch (error) {
+      console.error("Failed to save roof plan:", error);
+      Alert.alert("Error", "Failed to save roof plan");
+    }
+  };
+
+  const changeMode = (next: SketchMode) => {
+    setMode(next);
+    setDraftPoints([]);
+    setSelectedPinId(null);
+    setSelectedRegionId(null);
+    setSelectedPhotos([]);
+  };
+
+  const selectPin = async (pinId: string | null) => {
+    setSelectedPinId(pinId);
+    setSelectedRegionId(null);
+    const pin = plan.pins.find((p) => p.id === pinId);
+    setSelectedPhotos(pin ? await getPhotosForDefect(pin.defectId) : []);
+  };
+
+  const handleTap = (raw: RoofPlanPoint) => {
+    const point = clampPoint(raw);
+
+    switch (mode) {
+      case "outline":
+      case "region":
+        setDraftPoints((prev) => [...prev, point]);
+        break;
+
+      case "pin":
+        if (!pinDefectId) {
+          Alert.alert("Select a Defect", "Choose which defect to pin before tapping the plan.");
+          return;
+        }
+        persist(placePin(plan, { id: generateLocalId(), defectId: pinDefectId, ...point }));
+        break;
+
+      case "view": {
+        const pin = pinNearPoint(plan, point);
+        if (pin) {
+          selectPin(pin.id);
+          return;
+        }
+        const region = regionAtPoint(plan, point);
+        setSelectedPinId(null);
+        setSelectedPhotos([]);
+        setSelectedRegionId(region?.id ?? null);
+        break;
+      }
+    }
+  };
+
+  const finishOutline = () => {
+    if (draftPoints.length < 3) {
+      Alert.alert("Outline", "Tap at least three corners to outline the roof.");
+      return;
+    }
+    persist({ ...plan, outline: draftPoints });
+    setDraftPoints([]);
+  };
+
+  const finishRegion = () => {
+    if (draftPoints.length < 3) {
+      Alert.alert("Region", "Tap at least three corners to mark a region.");
+      return;
+    }
+    const element = elements.find((e) => e.id === regionElementId);
+    persist(
+      addRegion(plan, {
+        id: generateLocalId(),
+        elementType: element?.elementType ?? regionType,
+        roofElementId: element?.id ?? null,
+        label: element?.location || null,
+        points: draftPoints,
+      })
+    );
+    setDraftPoints([]);
+  };
+
+  const rotateNorth = () => {
+    const current = plan.northBearing ?? 0;
+    persist({ ...plan, northBearing: (current + 45) % 360 });
+  };
+
+  const handleRemovePin = () => {
+    if (!selectedPinId) return;
+    persist(removePin(plan, selectedPinId));
+    setSelectedPinId(null);
+    setSelectedPhotos([]);
+  };
+
+  const handleRemoveRegion = () => {
+    if (!selectedRegionId) return;
+    persist(removeRegion(plan, selectedRegionId));
+    setSelectedRegionId(null);
+  };
+
+  const selectedPin = plan.pins.find((p) => p.id === selectedPinId) ?? null;
+  const selectedDefect = selectedPin ? defects.find((d) => d.id === selectedPin.defectId) ?? null : null;
+  const selectedRegion = plan.regions.find((r) => r.id === selectedRegionId) ?? null;
+  const pinnedDefectIds = new Set(plan.pins.map((p) => p.defectId));
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3c4b5d" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Roof Plan</Text>
+        <Text style={styles.subtitle}>
+          {plan.pins.length} of {defects.length} defect{defects.length !== 1 ? "s" : ""} pinned ·{" "}
+          {plan.regions.length} region{plan.regions.length !== 1 ? "s" : ""}
+        </Text>
+      </View>
+
+      <ReportLockedBanner status={reportStatus} />
+
+      {/* Mode selector (view only once the report is locked) */}
+      <View style={styles.modeRow}>
+        {MODES.filter((m) => !isLocked || m.value === "view").map((m) => (
+          <TouchableOpacity
+            key={m.value}
+            style={[styles.modeChip, mode === m.value && styles.modeChipActive]}
+            onPress={() => changeMode(m.value)}
+          >
+            <Text style={[styles.modeChipText, mode === m.value && styles.modeChipTextActive]}>
+              {m.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Mode options */}
+      {mode === "region" && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionScroll}>
+          <View style={styles.optionRow}>
+            {elements.map((el) => (
+              <TouchableOpacity
+                key={el.id}
+                style={[styles.optionChip, regionElementId === el.id && styles.optionChipActive]}
+                onPress={() => setRegionElementId(el.id)}
+              >
+                <Text style={[styles.optionChipText, regionElementId === el.id && styles.optionChipTextActive]}>
+                  {humanize(el.elementType)} · {el.location}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {ELEMENT_TYPES.map((type) => {
+              const active = !regionElementId && regionType === type;
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.optionChip, active && styles.optionChipActive]}
+                  onPress={() => {
+                    setRegionElementId(null);
+                    setRegionType(type);
+                  }}
+                >
+                  <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>
+                    {humanize(type)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </ScrollView>
+      )}
+
+      {mode === "pin" && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionScroll}>
+          <View style={styles.optionRow}>
+            {defects.length === 0 && <Text style={styles.helperText}>No defects recorded for this report yet.</Text>}
+            {defects.map((d) => (
+              <TouchableOpacity
+                key={d.id}
+                style={[styles.optionChip, pinDefectId === d.id && styles.optionChipActive]}
+                onPress={() => setPinDefectId(d.id)}
+              >
+                <Text style={[styles.optionChipText, pinDefectId === d.id && styles.optionChipTextActive]}>
+                  {d.defectNumber}. {d.title}
+                  {pinnedDefectIds.has(d.id) ? " ✓" : ""}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      )}
+
+      {/* Canvas */}
+      <RoofPlanCanvas
+        plan={plan}
+        defects={defects}
+        draftPoints={draftPoints}
+        selectedPinId={selectedPinId}
+        selectedRegionId={selectedRegionId}
+        onTap={handleTap}
+      />
+
+      <Text style={styles.helperText}>
+        {mode === "outline" && "Tap each corner of the roof, then Save Outline. Not to scale."}
+        {mode === "region" && "Tap the corners of the element area, then Add Region."}
+        {mode === "pin" && "Select a defect above, then tap its position. Tapping again moves the pin."}
+        {mode === "view" && "Tap a pin to see its defect and photos."}
+      </Text>
+
+      {/* Drawing actions */}
+      {(mode === "outline" || mode === "region") && (
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setDraftPoints((prev) => prev.slice(0, -1))}
+            disabled={draftPoints.length === 0}
+          >
+            <Text style={styles.secondaryButtonText}>Undo Point</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={mode === "outline" ? finishOutline : finishRegion}
+          >
+            <Text style={styles.primaryButtonText}>
+              {mode === "outline" ? "Save Outline" : "Add Region"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {mode === "outline" && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={rotateNorth}>
+          <Text style={styles.secondaryButtonText}>
+            North arrow: {plan.northBearing === null ? "not set" : `${plan.northBearing}°`} (tap to rotate)
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Selected pin */}
+      {mode === "view" && selectedDefect && (
+        <View style={styles.detailCard}>
+          <Text style={styles.detailTitle}>
+            {selectedDefect.defectNumber}. {selectedDefect.title}
+          </Text>
+          <Text style={styles.detailMeta}>
+            {humanize(selectedDefect.severity)} · {selectedDefect.location}
+          </Text>
+          {selectedPhotos.length > 0 ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={styles.photoRow}>
+                {selectedPhotos.map((photo) => (
+                  <DecryptedImage
+                    key={photo.id}
+                    uri={photo.thumbnailUri || photo.localUri}
+                    style={styles.photoThumb}
+                  />
+                ))}
+              </View>
+            </ScrollView>
+          ) : (
+            <Text style={styles.helperText}>No photos linked to this defect</Text>
+          )}
+          <View style={styles.actionRow}>
+            {!isLocked && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleRemovePin}>
+                <Text style={styles.secondaryButtonText}>Remove Pin</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() =>
+                router.push({
+                  pathname: "/(main)/defects/[id]",
+                  params: { id: selectedDefect.id, reportId: reportId || "" },
+                } as any)
+              }
+            >
+              <Text style={styles.primaryButtonText}>Open Defect</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Selected region */}
+      {mode === "view" && selectedRegion && (
+        <View style={styles.detailCard}>
+          <Text style={styles.detailTitle}>
+            {selectedRegion.label || humanize(selectedRegion.elementType)}
+          </Text>
+          <Text style={styles.detailMeta}>
+            {humanize(selectedRegion.elementType)}
+            {selectedRegion.roofElementId ? " · linked to recorded element" : ""}
+          </Text>
+          {!isLocked && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleRemoveRegion}>
+              <Text style={styles.secondaryButtonText}>Delete Region</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+  },
+  header: {
+    marginBottom: 16,
+    paddingTop: 40,
+  },
+  backButton: {
+    color: "#3c4b5d",
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "#1e293b",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#64748b",
+    marginTop: 4,
+  },
+  modeRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  modeChip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    alignItems: "center",
+  },
+  modeChipActive: {
+    backgroundColor: "#3c4b5d",
+    borderColor: "#3c4b5d",
+  },
+  modeChipText: {
+    fontSize: 13,
+    color: "#374151",
+  },
+  modeChipTextActive: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  optionScroll: {
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: "row",
+    gap: 8,
+    paddingVertical: 4,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  optionChipActive: {
+    backgroundColor: "#e65100",
+    borderColor: "#e65100",
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: "#374151",
+    textTransform: "capitalize",
+  },
+  optionChipTextActive: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  helperText: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: 8,
+  },
+  actionRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: "#3c4b5d",
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#3c4b5d",
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: "#3c4b5d",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  detailCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  detailTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  detailMeta: {
+    fontSize: 13,
+    color: "#64748b",
+    marginTop: 4,
+    marginBottom: 8,
+    textTransform: "capitalize",
+  },
+  photoRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  photoThumb: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: "#e2e8f0",
+  },
+});
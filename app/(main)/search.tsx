@@ -0,0 +1,337 @@
+/**
+ * Search Screen
+ * Full-text search across reports, defects, elements, captions, transcripts
+ * and compliance notes
+ */
+
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  Platform,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { getStatusBackground, getStatusColor } from "../../src/lib/theme";
+import {
+  SEARCH_DATE_PRESETS,
+  SEARCH_ENTITY_LABELS,
+  dateRangeForPreset,
+  parseHighlights,
+  searchResultTarget,
+  type SearchDatePreset,
+  type SearchResult,
+} from "../../src/lib/search-index";
+import { ReportStatus } from "../../src/types/shared";
+
+// SQLite is not supported on web - only import on native
+const isNative = Platform.OS !== "web";
+
+const SEARCH_DELAY_MS = 250;
+
+const STATUS_OPTIONS = [
+  { value: ReportStatus.DRAFT, label: "Draft" },
+  { value: ReportStatus.IN_PROGRESS, label: "In Progress" },
+  { value: ReportStatus.PENDING_REVIEW, label: "In Review" },
+  { value: ReportStatus.APPROVED, label: "Approved" },
+  { value: ReportStatus.FINALISED, label: "Finalised" },
+];
+
+function Highlighted({ text, style, numberOfLines }: { text: string; style: object; numberOfLines?: number }) {
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parseHighlights(text).map((segment, index) => (
+        <Text key={index} style={segment.match ? styles.highlight : undefined}>
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+export default function SearchScreen() {
+  const router = useRouter();
+
+  const [query, setQuery] = useState("");
+  const [statuses, setStatuses] = useState<ReportStatus[]>([]);
+  const [datePreset, setDatePreset] = useState<SearchDatePreset>("any");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Search as the inspector types, once they pause
+  useEffect(() => {
+    if (!isNative || !query.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const sqlite = await import("../../src/lib/sqlite");
+        const found = await sqlite.globalSearch(query, {
+          statuses,
+          ...dateRangeForPreset(datePreset, new Date()),
+        });
+        if (!cancelled) {
+          setResults(found);
+          setError(null);
+        }
+      } catch (err) {
+        console.error("[Search] Query failed:", err);
+        if (!cancelled) setError("Search is unavailable on this device");
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, statuses, datePreset]);
+
+  const toggleStatus = (status: ReportStatus) => {
+    setStatuses((current) =>
+      current.includes(status) ? current.filter((s) => s !== status) : [...current, status]
+    );
+  };
+
+  const renderResult = ({ item }: { item: SearchResult }) => (
+    <TouchableOpacity
+      style={styles.resultCard}
+      onPress={() => router.push(searchResultTarget(item) as any)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.resultHeader}>
+        <Text style={styles.entityBadge}>{SEARCH_ENTITY_LABELS[item.entityType]}</Text>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusBackground(item.reportStatus) }]}>
+          <Text style={[styles.statusText, { color: getStatusColor(item.reportStatus) }]}>
+            {item.reportStatus.replace(/_/g, " ")}
+          </Text>
+        </View>
+      </View>
+      <Highlighted text={item.title} style={styles.resultTitle} numberOfLines={1} />
+      {item.snippet.trim() !== "" && (
+        <Highlighted text={item.snippet} style={styles.resultSnippet} numberOfLines={3} />
+      )}
+      <Text style={styles.resultMeta} numberOfLines={1}>
+        {[item.reportNumber, item.propertyAddress, new Date(item.inspectionDate).toLocaleDateString()]
+          .filter(Boolean)
+          .join(" · ")}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Search</Text>
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Addresses, clients, defects, notes, transcripts..."
+          placeholderTextColor="#9ca3af"
+          autoFocus
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+      </View>
+
+      <View style={styles.filters}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {STATUS_OPTIONS.map((option) => {
+            const active = statuses.includes(option.value);
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => toggleStatus(option.value)}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {SEARCH_DATE_PRESETS.map((option) => {
+            const active = datePreset === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => setDatePreset(option.value)}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => `${item.entityType}:${item.entityId}`}
+        renderItem={renderResult}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>
+              {!isNative
+                ? "Search is available in the mobile app"
+                : error
+                  ? error
+                  : !query.trim()
+                    ? "Search every report on this device"
+                    : isSearching
+                      ? "Searching..."
+                      : "No matches"}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e2e8f0",
+  },
+  backButton: {
+    color: "#3c4b5d",
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "#1e293b",
+    marginBottom: 12,
+  },
+  searchInput: {
+    backgroundColor: "#f9fafb",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#1f2937",
+  },
+  filters: {
+    paddingVertical: 8,
+    gap: 8,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e2e8f0",
+  },
+  chipRow: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#f3f4f6",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  chipActive: {
+    backgroundColor: "#3c4b5d",
+    borderColor: "#3c4b5d",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#374151",
+  },
+  chipTextActive: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  list: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  resultCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  resultHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  entityBadge: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#64748b",
+    textTransform: "uppercase",
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  resultSnippet: {
+    fontSize: 14,
+    color: "#475569",
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  resultMeta: {
+    fontSize: 12,
+    color: "#94a3b8",
+    marginTop: 8,
+  },
+  highlight: {
+    backgroundColor: "#fef08a",
+    color: "#1e293b",
+    fontWeight: "600",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#64748b",
+  },
+});
@@ -0,0 +1,368 @@
+/**
+ * Sync Inspector Screen
+ * Every queued change and unsynced media file, with manual retry, defer,
+ * re-queue and export for support
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from "react-native";
+import { useRouter } from "expo-router";
+import * as Sharing from "expo-sharing";
+import { useAuthStore } from "../../src/stores/auth-store";
+import {
+  DEFER_OPTIONS,
+  SYNC_INSPECTOR_KIND_LABELS,
+  SYNC_REPAIR_ACTION_LABELS,
+  availableActions,
+  deferUntil,
+  isDeferred,
+  type SyncInspectorItem,
+  type SyncRepairAction,
+} from "../../src/lib/sync-inspector";
+import type { LocalAuditLog } from "../../src/types/database";
+
+// SQLite is not supported on web - only import on native
+const isNative = Platform.OS !== "web";
+
+export default function SyncInspectorScreen() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+
+  const [items, setItems] = useState<SyncInspectorItem[]>([]);
+  const [history, setHistory] = useState<LocalAuditLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    if (!isNative) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { getSyncInspectorItems, getSyncRepairHistory } = await import(
+        "../../src/services/sync-inspector-service"
+      );
+      const [found, actions] = await Promise.all([getSyncInspectorItems(), getSyncRepairHistory(20)]);
+      setItems(found);
+      setHistory(actions);
+    } catch (error) {
+      console.error("[SyncInspector] Failed to load items:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const runAction = async (item: SyncInspectorItem, action: SyncRepairAction, until?: string) => {
+    if (!user) return;
+    const actor = { id: user.sub, name: user.name };
+
+    setBusyKey(item.key);
+    try {
+      const service = await import("../../src/services/sync-inspector-service");
+      const result =
+        action === "retry"
+          ? await service.retrySyncItem(item, actor)
+          : action === "defer"
+            ? await service.deferSyncItem(item, until ?? deferUntil(new Date(), DEFER_OPTIONS[0].hours), actor)
+            : action === "requeue"
+              ? await service.requeueSyncItem(item, actor)
+              : await service.exportSyncItem(item, actor);
+
+      if (!result.success) {
+        Alert.alert(`${SYNC_REPAIR_ACTION_LABELS[action]} Failed`, result.error || "Could not update this item");
+        return;
+      }
+
+      if (action === "export" && result.uri) {
+        if (await Sharing.isAvailableAsync()) {
+          await Sharing.shareAsync(result.uri, {
+            mimeType: "application/json",
+            UTI: "public.json",
+            dialogTitle: "Share sync item",
+          });
+        } else {
+          Alert.alert("Export Saved", `Saved to ${result.uri}`);
+        }
+      }
+
+      await loadItems();
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleAction = (item: SyncInspectorItem, action: SyncRepairAction) => {
+    if (action === "defer") {
+      Alert.alert("Defer Item", "Hold this item back from sync for:", [
+        ...DEFER_OPTIONS.map((option) => ({
+          text: option.label,
+          onPress: () => runAction(item, "defer", deferUntil(new Date(), option.hours)),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]);
+    } else if (action === "requeue") {
+      Alert.alert(
+        "Re-queue Item",
+        "This sends the item again under a new idempotency key. Only do this if support has confirmed the server never applied it.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Re-queue", style: "destructive", onPress: () => runAction(item, "requeue") },
+        ]
+      );
+    } else {
+      runAction(item, action);
+    }
+  };
+
+  const renderItem = ({ item }: { item: SyncInspectorItem }) => {
+    const deferred = isDeferred(item, new Date());
+    const busy = busyKey === item.key;
+
+    return (
+      <View style={[styles.itemCard, item.failed && styles.itemCardFailed]}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.kindBadge}>{SYNC_INSPECTOR_KIND_LABELS[item.kind]}</Text>
+          <Text style={[styles.statusText, item.failed && styles.statusTextFailed]}>
+            {deferred ? "deferred" : item.status}
+          </Text>
+        </View>
+        <Text style={styles.itemTitle} numberOfLines={1}>
+          {item.label}
+        </Text>
+        <Text style={styles.itemMeta}>
+          {item.attemptCount} attempt{item.attemptCount === 1 ? "" : "s"} · queued{" "}
+          {new Date(item.createdAt).toLocaleString()}
+        </Text>
+        {deferred && item.deferredUntil && (
+          <Text style={styles.itemMeta}>Deferred until {new Date(item.deferredUntil).toLocaleString()}</Text>
+        )}
+        {item.lastError && (
+          <Text style={styles.itemError} numberOfLines={3}>
+            {item.lastError}
+          </Text>
+        )}
+        <Text style={styles.fieldLabel}>Idempotency key</Text>
+        <Text style={styles.mono} selectable>
+          {item.idempotencyKey ?? "—"}
+        </Text>
+        <Text style={styles.fieldLabel}>Payload</Text>
+        <Text style={styles.mono} numberOfLines={6} selectable>
+          {item.payloadPreview}
+        </Text>
+
+        <View style={styles.actionRow}>
+          {busy ? (
+            <ActivityIndicator size="small" color="#3c4b5d" />
+          ) : (
+            availableActions(item).map((action) => (
+              <TouchableOpacity
+                key={action}
+                style={styles.actionButton}
+                onPress={() => handleAction(item, action)}
+                disabled={busyKey !== null || !user}
+              >
+                <Text style={styles.actionButtonText}>{SYNC_REPAIR_ACTION_LABELS[action]}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const failedCount = items.filter((item) => item.failed).length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Sync Queue</Text>
+        <Text style={styles.subtitle}>
+          {items.length} waiting · {failedCount} failed
+        </Text>
+      </View>
+
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.key}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        refreshing={isLoading}
+        onRefresh={loadItems}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>
+              {!isNative
+                ? "The sync queue is available in the mobile app"
+                : isLoading
+                  ? "Loading..."
+                  : "Nothing is waiting to sync"}
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          history.length > 0 ? (
+            <View style={styles.history}>
+              <Text style={styles.sectionTitle}>Recent Manual Actions</Text>
+              {history.map((entry) => (
+                <Text key={entry.id} style={styles.historyRow}>
+                  {new Date(entry.createdAt).toLocaleString()} · {entry.userName} ·{" "}
+                  {entry.action.replace(/^SYNC_ITEM_/, "").toLowerCase()} {entry.entityId}
+                </Text>
+              ))}
+            </View>
+          ) : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 12,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e2e8f0",
+  },
+  backButton: {
+    color: "#3c4b5d",
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "#1e293b",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#64748b",
+    marginTop: 4,
+  },
+  list: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  itemCard: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  itemCardFailed: {
+    borderColor: "#fecaca",
+  },
+  itemHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  kindBadge: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#64748b",
+    textTransform: "uppercase",
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#64748b",
+  },
+  statusTextFailed: {
+    color: "#dc2626",
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1e293b",
+    textTransform: "capitalize",
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: "#94a3b8",
+    marginTop: 4,
+  },
+  itemError: {
+    fontSize: 13,
+    color: "#dc2626",
+    marginTop: 6,
+  },
+  fieldLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#64748b",
+    textTransform: "uppercase",
+    marginTop: 10,
+  },
+  mono: {
+    fontSize: 12,
+    fontFamily: "monospace",
+    color: "#334155",
+    marginTop: 2,
+  },
+  actionRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#3c4b5d",
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#3c4b5d",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#64748b",
+  },
+  history: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1e293b",
+    marginBottom: 8,
+  },
+  historyRow: {
+    fontSize: 12,
+    color: "#475569",
+    marginBottom: 4,
+  },
+});
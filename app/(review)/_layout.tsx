@@ -4,33 +4,36 @@
  */
 
 import { Stack } from "expo-router";
+import { DatabaseGate } from "../../src/components/DatabaseGate";
 
 export default function ReviewLayout() {
   return (
-    <Stack
-      screenOptions={{
-        headerStyle: {
-          backgroundColor: "#7c3aed",
-        },
-        headerTintColor: "#fff",
-        headerTitleStyle: {
-          fontWeight: "600",
-        },
-      }}
-    >
-      <Stack.Screen
-        name="queue"
-        options={{
-          title: "Review Queue",
-          headerLargeTitle: true,
+    <DatabaseGate>
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: "#7c3aed",
+          },
+          headerTintColor: "#fff",
+          headerTitleStyle: {
+            fontWeight: "600",
+          },
         }}
-      />
-      <Stack.Screen
-        name="report/[id]"
-        options={{
-          title: "Review Report",
-        }}
-      />
-    </Stack>
+      >
+        <Stack.Screen
+          name="queue"
+          options={{
+            title: "Review Queue",
+            headerLargeTitle: true,
+          }}
+        />
+        <Stack.Screen
+          name="report/[id]"
+          options={{
+            title: "Review Report",
+          }}
+        />
+      </Stack>
+    </DatabaseGate>
   );
 }
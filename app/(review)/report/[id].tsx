@@ -19,11 +19,27 @@ import { StatusBadge, SeverityBadge, ConditionBadge } from "../../../src/compone
 import { ReviewActionDialog, ReviewActionType } from "../../../src/components/ReviewActionDialog";
 import { reviewService } from "../../../src/services/review-service";
 import { getReportWithRelations } from "../../../src/lib/sqlite";
+import { useAuthStore, selectUser } from "../../../src/stores/auth-store";
+import { getAvailableActions, workflowActorFromAuth } from "../../../src/lib/report-workflow";
+import { describeRoofMeasurement, parseRoofMeasurement } from "../../../src/lib/roof-geometry";
+import { useCachedPhotoUri } from "../../../src/hooks/useCachedPhotoUri";
 import type { LocalReport, LocalDefect, LocalRoofElement, LocalPhoto } from "../../../src/types/database";
 
+function PhotoThumb({ photo }: { photo: LocalPhoto }) {
+  const uri = useCachedPhotoUri(photo);
+  return <Image source={{ uri: uri ?? photo.localUri }} style={styles.photoThumb} />;
+}
+
+/** How the element's pitch and area were worked out, if the calculator was used */
+function measurementLines(element: LocalRoofElement): string[] {
+  const measurement = parseRoofMeasurement(element.measurementJson);
+  return measurement ? describeRoofMeasurement(measurement) : [];
+}
+
 export default function ReviewReportDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
+  const user = useAuthStore(selectUser);
 
   const [report, setReport] = useState<LocalReport | null>(null);
   const [defects, setDefects] = useState<LocalDefect[]>([]);
@@ -69,22 +85,22 @@ export default function ReviewReportDetailScreen() {
   };
 
   const handleConfirmAction = async (note: string, revisionItems?: string[]) => {
-    if (!report) return;
+    if (!report || !user) return;
 
-    const reviewerId = "current-user-id"; // Would come from auth context
+    const actor = workflowActorFromAuth(user);
 
     let result;
     switch (dialogAction) {
       case "approve":
-        result = await reviewService.approveReport(report.id, reviewerId, note);
+        result = await reviewService.approveReport(report.id, actor, note);
         break;
       case "reject":
-        result = await reviewService.rejectReport(report.id, reviewerId, note);
+        result = await reviewService.rejectReport(report.id, actor, note);
         break;
       case "revision":
         result = await reviewService.requestRevision(
           report.id,
-          reviewerId,
+          actor,
           note,
           revisionItems
         );
@@ -104,7 +120,7 @@ export default function ReviewReportDetailScreen() {
   };
 
   const handleFinalise = async () => {
-    if (!report) return;
+    if (!report || !user) return;
 
     Alert.alert(
       "Finalise Report",
@@ -115,7 +131,7 @@ export default function ReviewReportDetailScreen() {
           text: "Finalise",
           style: "default",
           onPress: async () => {
-            const result = await reviewService.finaliseReport(report.id);
+            const result = await reviewService.finaliseReport(report.id, workflowActorFromAuth(user));
             if (result.success) {
               Alert.alert("Success", "Report has been finalised", [
                 { text: "OK", onPress: () => router.back() },
@@ -160,8 +176,10 @@ export default function ReviewReportDetailScreen() {
     );
   }
 
-  const isPendingReview = report.status === "PENDING_REVIEW";
-  const isApproved = report.status === "APPROVED";
+  // Buttons follow the workflow table so a role never sees an action it cannot apply
+  const availableActions = user
+    ? getAvailableActions(report.status, workflowActorFromAuth(user).role, report.inspectionType)
+    : [];
 
   return (
     <>
@@ -287,6 +305,11 @@ export default function ReviewReportDetailScreen() {
                   )}
                 </View>
                 <Text style={styles.elementLocation}>{element.location}</Text>
+                {measurementLines(element).map((line) => (
+                  <Text key={line} style={styles.elementMeasurement}>
+                    {line}
+                  </Text>
+                ))}
               </View>
             ))}
           </View>
@@ -299,11 +322,7 @@ export default function ReviewReportDetailScreen() {
             <ScrollView horizontal showsHorizontalScrollIndicator={false}>
               <View style={styles.photoRow}>
                 {photos.slice(0, 6).map((photo) => (
-                  <Image
-                    key={photo.id}
-                    source={{ uri: photo.localUri }}
-                    style={styles.photoThumb}
-                  />
+                  <PhotoThumb key={photo.id} photo={photo} />
                 ))}
                 {photos.length > 6 && (
                   <View style={styles.morePhotos}>
@@ -335,32 +354,34 @@ export default function ReviewReportDetailScreen() {
 
         {/* Action Buttons */}
         <View style={styles.actionSection}>
-          {isPendingReview && (
-            <>
-              <TouchableOpacity
-                style={[styles.actionButton, styles.approveButton]}
-                onPress={() => handleAction("approve")}
-              >
-                <Text style={styles.actionButtonText}>✓ Approve</Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[styles.actionButton, styles.revisionButton]}
-                onPress={() => handleAction("revision")}
-              >
-                <Text style={styles.actionButtonText}>↺ Request Revision</Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[styles.actionButton, styles.rejectButton]}
-                onPress={() => handleAction("reject")}
-              >
-                <Text style={styles.actionButtonText}>✕ Reject</Text>
-              </TouchableOpacity>
-            </>
+          {availableActions.includes("APPROVE") && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.approveButton]}
+              onPress={() => handleAction("approve")}
+            >
+              <Text style={styles.actionButtonText}>✓ Approve</Text>
+            </TouchableOpacity>
+          )}
+
+          {availableActions.includes("REQUEST_REVISION") && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.revisionButton]}
+              onPress={() => handleAction("revision")}
+            >
+              <Text style={styles.actionButtonText}>↺ Request Revision</Text>
+            </TouchableOpacity>
           )}
 
-          {isApproved && (
+          {availableActions.includes("REJECT") && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.rejectButton]}
+              onPress={() => handleAction("reject")}
+            >
+              <Text style={styles.actionButtonText}>✕ Reject</Text>
+            </TouchableOpacity>
+          )}
+
+          {availableActions.includes("FINALISE") && (
             <TouchableOpacity
               style={[styles.actionButton, styles.finaliseButton]}
               onPress={handleFinalise}
@@ -567,6 +588,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: "#6b7280",
   },
+  elementMeasurement: {
+    fontSize: 12,
+    color: "#4b5563",
+    marginTop: 4,
+  },
   photoRow: {
     flexDirection: "row",
     gap: 8,
@@ -5,8 +5,7 @@
 
 import { useEffect, useState } from "react";
 import { Slot, useRouter, useSegments } from "expo-router";
-import { View, ActivityIndicator, StyleSheet, AppState, AppStateStatus, Text } from "react-native";
-import { initializeDatabase } from "../src/lib/sqlite";
+import { View, ActivityIndicator, StyleSheet, AppState, AppStateStatus, Text, Alert } from "react-native";
 import { appLogger } from "../src/lib/logger";
 import { useAuthStore } from "../src/stores/auth-store";
 
@@ -30,6 +29,21 @@ function AuthGuard() {
       });
     }).catch(() => {});
 
+    // A remote wipe ends in the same state as signing out; finish one that
+    // was interrupted by the app being killed
+    import("../src/services/remote-wipe-service").then(({ onDeviceWipeComplete, resumePendingDeviceWipe }) => {
+      onDeviceWipeComplete(() => {
+        useAuthStore.getState().logout();
+        Alert.alert(
+          "Device Wiped",
+          "An administrator removed all inspection data from this device. Sign in again to continue."
+        );
+      });
+      return resumePendingDeviceWipe();
+    }).catch((e) => {
+      appLogger.error("Remote wipe failed: " + (e as Error).message);
+    });
+
     initialize();
 
     // Absolute safety valve: force loading to stop after 5 seconds no matter what
@@ -74,29 +88,16 @@ function AuthGuard() {
 }
 
 /**
- * Database Initialization — blocks rendering until SQLite is ready
- * (with timeout safety net to prevent infinite spinner)
+ * Sync Lifecycle — starts auto and background sync once the encrypted
+ * local database has been unlocked (see DatabaseGate), and stops auto
+ * sync again when it is locked on logout
  */
 function DatabaseProvider({ children }: { children: React.ReactNode }) {
-  const [isDbReady, setIsDbReady] = useState(false);
+  const isDataUnlocked = useAuthStore((state) => state.isDataUnlocked);
 
   useEffect(() => {
-    Promise.race([
-      initializeDatabase(),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error("DB timeout")), 10_000)
-      ),
-    ])
-      .then(() => {
-        appLogger.info("Database initialized");
-        setIsDbReady(true);
-      })
-      .catch((e) => {
-        appLogger.error("Database init failed: " + (e as Error).message);
-        // Still mark as ready so the app doesn't hang — screens will
-        // degrade gracefully with empty data rather than infinite spinner
-        setIsDbReady(true);
-      });
+    if (!isDataUnlocked) return;
+    appLogger.info("Local data unlocked");
 
     // Start auto-sync (bootstrap is triggered from home screen after auth is ready)
     import("../src/services/sync-service")
@@ -110,14 +111,6 @@ function DatabaseProvider({ children }: { children: React.ReactNode }) {
       .then(({ registerBackgroundSync }) => registerBackgroundSync().catch(() => {}))
       .catch(() => {});
 
-    return () => {
-      import("../src/services/sync-service")
-        .then(({ stopAutoSync }) => stopAutoSync())
-        .catch(() => {});
-    };
-  }, []);
-
-  useEffect(() => {
     const sub = AppState.addEventListener("change", (state: AppStateStatus) => {
       if (state === "active") {
         import("../src/services/sync-service").then(({ startAutoSync }) => startAutoSync()).catch(() => {});
@@ -125,17 +118,14 @@ function DatabaseProvider({ children }: { children: React.ReactNode }) {
         import("../src/services/sync-service").then(({ stopAutoSync }) => stopAutoSync()).catch(() => {});
       }
     });
-    return () => sub.remove();
-  }, []);
 
-  if (!isDbReady) {
-    return (
-      <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color="#3c4b5d" />
-        <Text style={styles.loadingText}>Loading...</Text>
-      </View>
-    );
-  }
+    return () => {
+      sub.remove();
+      import("../src/services/sync-service")
+        .then(({ stopAutoSync }) => stopAutoSync())
+        .catch(() => {});
+    };
+  }, [isDataUnlocked]);
 
   return <>{children}</>;
 }
@@ -144,6 +134,13 @@ function DatabaseProvider({ children }: { children: React.ReactNode }) {
  * Root Layout Component
  */
 export default function RootLayout() {
+  // Persist logs from launch so support can see what led up to a crash
+  useEffect(() => {
+    import("../src/services/log-store-service")
+      .then(({ startLogStore }) => startLogStore())
+      .catch(() => {});
+  }, []);
+
   return (
     <DatabaseProvider>
       <AuthGuard />
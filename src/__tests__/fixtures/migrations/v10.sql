@@ -0,0 +1,320 @@
+-- Fixture: ranz_mobile.db as shipped at DATABASE_VERSION 10
+-- Frozen snapshot used by the migration harness. Do not edit; add a new
+-- fixture when DATABASE_VERSION is bumped.
+
+CREATE TABLE sync_state (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  last_bootstrap_at TEXT,
+  last_upload_at TEXT,
+  device_id TEXT NOT NULL
+);
+
+CREATE TABLE users (
+  id TEXT PRIMARY KEY,
+  clerk_id TEXT UNIQUE NOT NULL,
+  email TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  phone TEXT,
+  role TEXT NOT NULL DEFAULT 'INSPECTOR',
+  company TEXT,
+  qualifications TEXT,
+  lbp_number TEXT,
+  years_experience INTEGER,
+  synced_at TEXT
+);
+
+CREATE TABLE reports (
+  id TEXT PRIMARY KEY,
+  report_number TEXT,
+  status TEXT NOT NULL DEFAULT 'DRAFT',
+  property_address TEXT NOT NULL,
+  property_city TEXT NOT NULL,
+  property_region TEXT NOT NULL,
+  property_postcode TEXT NOT NULL,
+  property_type TEXT NOT NULL,
+  building_age INTEGER,
+  gps_lat REAL,
+  gps_lng REAL,
+  inspection_date TEXT NOT NULL,
+  inspection_type TEXT NOT NULL,
+  weather_conditions TEXT,
+  access_method TEXT,
+  limitations TEXT,
+  client_name TEXT NOT NULL,
+  client_email TEXT,
+  client_phone TEXT,
+  scope_of_works_json TEXT,
+  methodology_json TEXT,
+  findings_json TEXT,
+  conclusions_json TEXT,
+  recommendations_json TEXT,
+  declaration_signed INTEGER NOT NULL DEFAULT 0,
+  signed_at TEXT,
+  inspector_id TEXT,
+  submitted_at TEXT,
+  approved_at TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'draft',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  synced_at TEXT,
+  last_sync_error TEXT
+);
+
+CREATE TABLE roof_elements (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL,
+  element_type TEXT NOT NULL,
+  location TEXT NOT NULL,
+  cladding_type TEXT,
+  material TEXT,
+  manufacturer TEXT,
+  pitch REAL,
+  area REAL,
+  condition_rating TEXT,
+  condition_notes TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'draft',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  synced_at TEXT,
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE
+);
+
+CREATE TABLE defects (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL,
+  roof_element_id TEXT,
+  defect_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  location TEXT NOT NULL,
+  classification TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  observation TEXT NOT NULL,
+  analysis TEXT,
+  opinion TEXT,
+  code_reference TEXT,
+  cop_reference TEXT,
+  recommendation TEXT,
+  priority_level TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'draft',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  synced_at TEXT,
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+  FOREIGN KEY (roof_element_id) REFERENCES roof_elements(id) ON DELETE SET NULL
+);
+
+CREATE TABLE photos (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL,
+  defect_id TEXT,
+  roof_element_id TEXT,
+  local_uri TEXT NOT NULL,
+  thumbnail_uri TEXT,
+  filename TEXT NOT NULL,
+  original_filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  photo_type TEXT NOT NULL,
+  quick_tag TEXT,
+  captured_at TEXT,
+  gps_lat REAL,
+  gps_lng REAL,
+  gps_altitude REAL,
+  gps_accuracy REAL,
+  camera_make TEXT,
+  camera_model TEXT,
+  exposure_time REAL,
+  f_number REAL,
+  iso INTEGER,
+  focal_length REAL,
+  original_hash TEXT NOT NULL,
+  annotations_json TEXT,
+  annotated_uri TEXT,
+  measurements_json TEXT,
+  calibration_json TEXT,
+  measured_uri TEXT,
+  caption TEXT,
+  sort_order INTEGER DEFAULT 0,
+  sync_status TEXT NOT NULL DEFAULT 'captured',
+  uploaded_url TEXT,
+  synced_at TEXT,
+  last_sync_error TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+  FOREIGN KEY (defect_id) REFERENCES defects(id) ON DELETE SET NULL,
+  FOREIGN KEY (roof_element_id) REFERENCES roof_elements(id) ON DELETE SET NULL
+);
+
+CREATE TABLE voice_notes (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL,
+  defect_id TEXT,
+  roof_element_id TEXT,
+  local_uri TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  recorded_at TEXT NOT NULL,
+  transcription TEXT,
+  original_hash TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'draft',
+  uploaded_url TEXT,
+  synced_at TEXT,
+  last_sync_error TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+  FOREIGN KEY (defect_id) REFERENCES defects(id) ON DELETE SET NULL,
+  FOREIGN KEY (roof_element_id) REFERENCES roof_elements(id) ON DELETE SET NULL
+);
+
+CREATE TABLE videos (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL,
+  defect_id TEXT,
+  roof_element_id TEXT,
+  local_uri TEXT NOT NULL,
+  thumbnail_uri TEXT,
+  filename TEXT NOT NULL,
+  original_filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  title TEXT,
+  description TEXT,
+  recorded_at TEXT NOT NULL,
+  gps_lat REAL,
+  gps_lng REAL,
+  original_hash TEXT,
+  gps_track_json TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'draft',
+  uploaded_url TEXT,
+  synced_at TEXT,
+  last_sync_error TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+  FOREIGN KEY (defect_id) REFERENCES defects(id) ON DELETE SET NULL,
+  FOREIGN KEY (roof_element_id) REFERENCES roof_elements(id) ON DELETE SET NULL
+);
+
+CREATE TABLE compliance_assessments (
+  id TEXT PRIMARY KEY,
+  report_id TEXT UNIQUE NOT NULL,
+  checklist_results_json TEXT NOT NULL,
+  non_compliance_summary TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'draft',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  synced_at TEXT,
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE
+);
+
+CREATE TABLE checklists (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  standard TEXT,
+  items_json TEXT NOT NULL,
+  downloaded_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  inspection_type TEXT NOT NULL,
+  sections_json TEXT NOT NULL,
+  checklists_json TEXT,
+  is_default INTEGER NOT NULL DEFAULT 0,
+  downloaded_at TEXT NOT NULL
+);
+
+CREATE TABLE sync_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  attempt_count INTEGER DEFAULT 0,
+  last_error TEXT
+);
+
+CREATE TABLE audit_log (
+  id TEXT PRIMARY KEY,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  details TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_reports_sync_status ON reports(sync_status);
+
+CREATE INDEX idx_reports_status ON reports(status);
+
+CREATE INDEX idx_reports_updated_at ON reports(updated_at);
+
+CREATE INDEX idx_roof_elements_report_id ON roof_elements(report_id);
+
+CREATE INDEX idx_roof_elements_sync_status ON roof_elements(sync_status);
+
+CREATE INDEX idx_defects_report_id ON defects(report_id);
+
+CREATE INDEX idx_defects_roof_element_id ON defects(roof_element_id);
+
+CREATE INDEX idx_defects_sync_status ON defects(sync_status);
+
+CREATE INDEX idx_photos_report_id ON photos(report_id);
+
+CREATE INDEX idx_photos_defect_id ON photos(defect_id);
+
+CREATE INDEX idx_photos_roof_element_id ON photos(roof_element_id);
+
+CREATE INDEX idx_photos_sync_status ON photos(sync_status);
+
+CREATE INDEX idx_voice_notes_report_id ON voice_notes(report_id);
+
+CREATE INDEX idx_voice_notes_defect_id ON voice_notes(defect_id);
+
+CREATE INDEX idx_voice_notes_sync_status ON voice_notes(sync_status);
+
+CREATE INDEX idx_videos_report_id ON videos(report_id);
+
+CREATE INDEX idx_videos_defect_id ON videos(defect_id);
+
+CREATE INDEX idx_videos_sync_status ON videos(sync_status);
+
+CREATE INDEX idx_compliance_report_id ON compliance_assessments(report_id);
+
+CREATE INDEX idx_sync_queue_entity ON sync_queue(entity_type, entity_id);
+
+CREATE INDEX idx_sync_queue_created ON sync_queue(created_at);
+
+CREATE INDEX idx_checklists_standard ON checklists(standard);
+
+CREATE INDEX idx_checklists_category ON checklists(category);
+
+CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+
+CREATE INDEX idx_audit_log_created ON audit_log(created_at);
+
+CREATE INDEX idx_audit_log_user ON audit_log(user_id);
+
+-- Sample data
+INSERT INTO sync_state (id, device_id) VALUES (1, 'fixture-device');
+INSERT INTO users (id, clerk_id, email, name, role) VALUES ('user-1', 'clerk-1', 'inspector@example.nz', 'Fixture Inspector', 'INSPECTOR');
+INSERT INTO reports (id, report_number, status, property_address, property_city, property_region, property_postcode, property_type, inspection_date, inspection_type, client_name, declaration_signed, inspector_id, sync_status, created_at, updated_at) VALUES ('report-1', 'RANZ-2025-00001', 'IN_PROGRESS', '1 Fixture Street', 'Wellington', 'Wellington', '6011', 'RESIDENTIAL_1', '2025-06-01T09:00:00.000Z', 'VISUAL_ONLY', 'Fixture Client', 0, 'user-1', 'pending', '2025-06-01T09:00:00.000Z', '2025-06-01T09:00:00.000Z');
+INSERT INTO roof_elements (id, report_id, element_type, location, condition_rating, sync_status, created_at, updated_at) VALUES ('element-1', 'report-1', 'ROOF_CLADDING', 'North face', 'FAIR', 'pending', '2025-06-01T09:00:00.000Z', '2025-06-01T09:00:00.000Z');
+INSERT INTO defects (id, report_id, roof_element_id, defect_number, title, description, location, classification, severity, observation, sync_status, created_at, updated_at) VALUES ('defect-1', 'report-1', 'element-1', 1, 'Corroded fixing', 'Corrosion at fixings', 'North face', 'MAJOR_DEFECT', 'MEDIUM', 'Red rust at fixings', 'pending', '2025-06-01T09:00:00.000Z', '2025-06-01T09:00:00.000Z');
+INSERT INTO photos (id, report_id, defect_id, roof_element_id, local_uri, filename, original_filename, mime_type, file_size, photo_type, original_hash, sort_order, sync_status, created_at) VALUES ('photo-1', 'report-1', 'defect-1', 'element-1', 'file:///doc/photos/photo-1.jpg', 'photo-1.jpg', 'orig_photo-1.jpg', 'image/jpeg', 204800, 'DEFECT', 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', 0, 'captured', '2025-06-01T09:00:00.000Z');
+INSERT INTO compliance_assessments (id, report_id, checklist_results_json, sync_status, created_at, updated_at) VALUES ('compliance-1', 'report-1', '{"e2as1":{"item-1":"PASS"}}', 'pending', '2025-06-01T09:00:00.000Z', '2025-06-01T09:00:00.000Z');
+INSERT INTO sync_queue (entity_type, entity_id, operation, payload_json, created_at, attempt_count) VALUES ('report', 'report-1', 'update', '{}', '2025-06-01T09:00:00.000Z', 0);
+INSERT INTO audit_log (id, action, entity_type, entity_id, user_id, user_name, details, created_at) VALUES ('audit-1', 'CAPTURED', 'photo', 'photo-1', 'user-1', 'Fixture Inspector', NULL, '2025-06-01T09:00:00.000Z');
+INSERT INTO voice_notes (id, report_id, defect_id, local_uri, filename, mime_type, file_size, duration_ms, recorded_at, sync_status, created_at) VALUES ('voice-1', 'report-1', 'defect-1', 'file:///doc/voice/voice-1.m4a', 'voice-1.m4a', 'audio/m4a', 1024, 5000, '2025-06-01T09:00:00.000Z', 'draft', '2025-06-01T09:00:00.000Z');
+
+PRAGMA user_version = 10;
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for admin analytics aggregation.
+ * Tests weekly productivity, approval times, review rates, distributions and CSV export.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  dateRangeForPreset,
+  isInRange,
+  weekStart,
+  reportsPerInspectorWeek,
+  approvalTimeStats,
+  reviewOutcomeStats,
+  distribution,
+  regionHeatmap,
+  computeAdminAnalytics,
+  analyticsToCsv,
+  type AnalyticsSource,
+} from '../../lib/analytics';
+import { escapeCsvValue } from '../../lib/csv';
+
+const source: AnalyticsSource = {
+  reports: [
+    { id: 'r1', inspectorId: 'u1', propertyRegion: 'Auckland', createdAt: '2026-03-02T09:00:00.000Z', approvedAt: '2026-03-03T09:00:00.000Z' },
+    { id: 'r2', inspectorId: 'u1', propertyRegion: 'Auckland', createdAt: '2026-03-04T09:00:00.000Z', approvedAt: '2026-03-07T09:00:00.000Z' },
+    { id: 'r3', inspectorId: 'u2', propertyRegion: 'Canterbury', createdAt: '2026-03-10T09:00:00.000Z', approvedAt: null },
+    { id: 'r4', inspectorId: null, propertyRegion: '', createdAt: '2026-01-15T09:00:00.000Z', approvedAt: null },
+  ],
+  defects: [
+    { reportId: 'r1', classification: 'MAJOR_DEFECT', severity: 'HIGH', elementType: 'GUTTER' },
+    { reportId: 'r1', classification: 'MINOR_DEFECT', severity: 'LOW', elementType: null },
+    { reportId: 'r3', classification: 'MAJOR_DEFECT', severity: 'CRITICAL', elementType: 'GUTTER' },
+    { reportId: 'r4', classification: 'SAFETY_HAZARD', severity: 'HIGH', elementType: 'RIDGE' },
+  ],
+  reviewEvents: [
+    { reportId: 'r1', action: 'APPROVED', createdAt: '2026-03-03T09:00:00.000Z' },
+    { reportId: 'r2', action: 'REVISION_REQUESTED', createdAt: '2026-03-05T09:00:00.000Z' },
+    { reportId: 'r2', action: 'APPROVED', createdAt: '2026-03-07T09:00:00.000Z' },
+    { reportId: 'r3', action: 'REJECTED', createdAt: '2026-03-11T09:00:00.000Z' },
+    { reportId: 'r3', action: 'SUBMITTED', createdAt: '2026-03-10T10:00:00.000Z' },
+  ],
+  inspectorNames: { u1: 'Aroha', u2: 'Ben' },
+};
+
+const MARCH = { from: '2026-03-01T00:00:00.000Z', to: '2026-03-31T23:59:59.999Z' };
+
+describe('date ranges', () => {
+  const now = new Date('2026-03-15T12:00:00.000Z');
+
+  it('builds presets ending now', () => {
+    expect(dateRangeForPreset('LAST_7_DAYS', now)).toEqual({
+      from: '2026-03-08T12:00:00.000Z',
+      to: '2026-03-15T12:00:00.000Z',
+    });
+    expect(dateRangeForPreset('THIS_YEAR', now).from).toBe('2026-01-01T00:00:00.000Z');
+    expect(dateRangeForPreset('ALL', now)).toEqual({ from: null, to: null });
+  });
+
+  it('treats bounds as inclusive and null as open', () => {
+    expect(isInRange(MARCH.from, MARCH)).toBe(true);
+    expect(isInRange('2026-04-01T00:00:00.000Z', MARCH)).toBe(false);
+    expect(isInRange('1999-01-01T00:00:00.000Z', { from: null, to: null })).toBe(true);
+    expect(isInRange('not a date', { from: null, to: null })).toBe(false);
+  });
+
+  it('finds the Monday of the week', () => {
+    expect(weekStart('2026-03-02T09:00:00.000Z')).toBe('2026-03-02'); // Monday
+    expect(weekStart('2026-03-08T23:00:00.000Z')).toBe('2026-03-02'); // Sunday
+    expect(weekStart('2026-03-09T00:00:00.000Z')).toBe('2026-03-09');
+  });
+});
+
+describe('reportsPerInspectorWeek', () => {
+  it('groups by inspector and week, newest week first', () => {
+    expect(reportsPerInspectorWeek(source.reports.slice(0, 3), source.inspectorNames)).toEqual([
+      { inspectorId: 'u2', inspectorName: 'Ben', weekStart: '2026-03-09', reports: 1 },
+      { inspectorId: 'u1', inspectorName: 'Aroha', weekStart: '2026-03-02', reports: 2 },
+    ]);
+  });
+
+  it('buckets reports without an inspector', () => {
+    const [row] = reportsPerInspectorWeek([source.reports[3]], {});
+    expect(row.inspectorId).toBe('UNASSIGNED');
+    expect(row.inspectorName).toBe('Unknown inspector');
+  });
+});
+
+describe('approvalTimeStats', () => {
+  it('averages creation to approval for approved reports', () => {
+    expect(approvalTimeStats(source.reports)).toEqual({
+      approvedReports: 2,
+      averageHours: 48,
+      medianHours: 48,
+    });
+  });
+
+  it('returns nulls with nothing approved', () => {
+    expect(approvalTimeStats([source.reports[2]])).toEqual({
+      approvedReports: 0,
+      averageHours: null,
+      medianHours: null,
+    });
+  });
+});
+
+describe('reviewOutcomeStats', () => {
+  it('computes rates from review decisions only', () => {
+    expect(reviewOutcomeStats(source.reviewEvents)).toEqual({
+      reviewed: 3,
+      approvals: 2,
+      rejections: 1,
+      revisions: 1,
+      rejectionRate: 0.25,
+      revisionRate: 0.25,
+    });
+  });
+
+  it('returns null rates with no decisions', () => {
+    expect(reviewOutcomeStats([]).rejectionRate).toBeNull();
+  });
+});
+
+describe('distribution and regions', () => {
+  it('counts values most common first', () => {
+    expect(distribution(['GUTTER', null, 'GUTTER', 'RIDGE'])).toEqual([
+      { key: 'GUTTER', count: 2 },
+      { key: 'RIDGE', count: 1 },
+      { key: 'UNASSIGNED', count: 1 },
+    ]);
+  });
+
+  it('scales region intensity to the busiest region', () => {
+    expect(regionHeatmap(source.reports, source.defects)).toEqual([
+      { region: 'Auckland', reports: 2, defects: 2, intensity: 1 },
+      { region: 'Canterbury', reports: 1, defects: 1, intensity: 0.5 },
+      { region: 'Unknown', reports: 1, defects: 1, intensity: 0.5 },
+    ]);
+  });
+});
+
+describe('computeAdminAnalytics', () => {
+  it('filters reports, their defects and review decisions by range', () => {
+    const analytics = computeAdminAnalytics(source, MARCH, new Date('2026-04-01T00:00:00.000Z'));
+    expect(analytics.totalReports).toBe(3);
+    expect(analytics.totalDefects).toBe(3);
+    expect(analytics.defectsByClass[0]).toEqual({ key: 'MAJOR_DEFECT', count: 2 });
+    expect(analytics.regions.map((cell) => cell.region)).toEqual(['Auckland', 'Canterbury']);
+    expect(analytics.source).toBe('local');
+  });
+});
+
+describe('CSV export', () => {
+  it('escapes commas, quotes and newlines', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue('Hawke\'s Bay, East')).toBe('"Hawke\'s Bay, East"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue(null)).toBe('');
+  });
+
+  it('writes a titled block per figure', () => {
+    const csv = analyticsToCsv(computeAdminAnalytics(source, MARCH, new Date('2026-04-01T00:00:00.000Z')));
+    const lines = csv.split('\n');
+    expect(lines[0]).toBe('Summary');
+    expect(lines).toContain('rejection_rate,0.25');
+    expect(lines).toContain('2026-03-02,u1,Aroha,2');
+    expect(lines).toContain('Regions');
+    expect(lines).toContain('Auckland,2,2,1');
+  });
+});
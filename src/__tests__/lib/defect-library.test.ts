@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the defect library helpers.
+ * Tests template search, element-type ordering and form pre-fill.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  filterDefectTemplates,
+  defectFieldsFromTemplate,
+  templateWouldOverwrite,
+} from '../../lib/defect-library';
+import {
+  DefectClass,
+  DefectSeverity,
+  ElementType,
+  PriorityLevel,
+} from '../../types/shared';
+import type { LocalDefectTemplate } from '../../types/database';
+
+function makeTemplate(overrides: Partial<LocalDefectTemplate> = {}): LocalDefectTemplate {
+  return {
+    id: 't1',
+    name: 'Corroded fixings',
+    elementType: null,
+    classification: DefectClass.MINOR_DEFECT,
+    severity: DefectSeverity.MEDIUM,
+    title: 'Corroded roof fixings',
+    observation: 'Fixings show red rust at washer and head',
+    analysis: null,
+    opinion: null,
+    codeReference: 'E2/AS1 8.4',
+    copReference: null,
+    recommendation: null,
+    priorityLevel: null,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    downloadedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const templates = [
+  makeTemplate(),
+  makeTemplate({
+    id: 't2',
+    name: 'Ridge cap lifting',
+    elementType: ElementType.RIDGE,
+    observation: 'Ridge capping has lifted from the roof sheet',
+    codeReference: null,
+    copReference: 'COP 8.5.3',
+  }),
+  makeTemplate({
+    id: 't3',
+    name: 'Apron flashing cover',
+    elementType: ElementType.FLASHING_WALL,
+    observation: 'Apron flashing cover is less than required',
+  }),
+];
+
+describe('Defect Library', () => {
+  describe('filterDefectTemplates', () => {
+    it('should return all templates sorted by name without a filter', () => {
+      expect(filterDefectTemplates(templates).map((t) => t.id)).toEqual(['t3', 't1', 't2']);
+    });
+
+    it('should match every search term across name, wording and references', () => {
+      expect(filterDefectTemplates(templates, { query: 'cop 8.5' }).map((t) => t.id)).toEqual(['t2']);
+      expect(filterDefectTemplates(templates, { query: 'RUST washer' }).map((t) => t.id)).toEqual(['t1']);
+      expect(filterDefectTemplates(templates, { query: 'rust ridge' })).toEqual([]);
+    });
+
+    it('should list templates for the linked element type first, then generic ones', () => {
+      const result = filterDefectTemplates(templates, { elementType: ElementType.RIDGE });
+
+      expect(result.map((t) => t.id)).toEqual(['t2', 't1', 't3']);
+    });
+
+    it('should not reorder the input array', () => {
+      const input = [...templates];
+      filterDefectTemplates(input, { elementType: ElementType.FLASHING_WALL });
+
+      expect(input.map((t) => t.id)).toEqual(['t1', 't2', 't3']);
+    });
+  });
+
+  describe('defectFieldsFromTemplate', () => {
+    it('should map template text to form values', () => {
+      const fields = defectFieldsFromTemplate(
+        makeTemplate({ opinion: 'Fixings are at end of life', priorityLevel: PriorityLevel.SHORT_TERM })
+      );
+
+      expect(fields).toEqual({
+        title: 'Corroded roof fixings',
+        classification: DefectClass.MINOR_DEFECT,
+        severity: DefectSeverity.MEDIUM,
+        observation: 'Fixings show red rust at washer and head',
+        analysis: '',
+        opinion: 'Fixings are at end of life',
+        codeReference: 'E2/AS1 8.4',
+        copReference: '',
+        recommendation: '',
+        priorityLevel: PriorityLevel.SHORT_TERM,
+      });
+    });
+  });
+
+  describe('templateWouldOverwrite', () => {
+    const empty = {
+      title: '',
+      observation: '',
+      analysis: '',
+      opinion: '',
+      codeReference: '',
+      copReference: '',
+      recommendation: '',
+    };
+
+    it('should be false for an untouched form', () => {
+      expect(templateWouldOverwrite({ ...empty, title: '   ' })).toBe(false);
+    });
+
+    it('should be true once any text has been entered', () => {
+      expect(templateWouldOverwrite({ ...empty, observation: 'Rust' })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for delta sync decisions.
+ * Tests when server rows and tombstones may overwrite local state,
+ * tombstone ordering, queued local deletions and photo cache eviction.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  decideRemoteUpdate,
+  decideTombstone,
+  deletionFromQueueItem,
+  deletionIdempotencyKey,
+  isLocallyModified,
+  isRemoteUri,
+  orderTombstones,
+  partitionAcknowledged,
+  selectCacheEvictions,
+} from '../../lib/delta-sync';
+import type { LocalPhotoCacheEntry, LocalSyncQueue } from '../../types/database';
+import type { SyncTombstone } from '../../types/shared';
+
+function makeTombstone(overrides: Partial<SyncTombstone> = {}): SyncTombstone {
+  return {
+    entityType: 'defect',
+    entityId: 'defect-1',
+    reportId: 'report-1',
+    deletedAt: '2026-03-10T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeEntry(photoId: string, fileSize: number, lastAccessedAt: string): LocalPhotoCacheEntry {
+  return {
+    photoId,
+    fileUri: `file:///doc/photo-cache/${photoId}.jpg`,
+    fileSize,
+    hashVerified: true,
+    downloadedAt: '2026-03-01T00:00:00.000Z',
+    lastAccessedAt,
+  };
+}
+
+describe('Delta Sync', () => {
+  describe('isLocallyModified', () => {
+    it('should treat synced and uploaded rows as clean', () => {
+      expect(isLocallyModified({ syncStatus: 'synced' })).toBe(false);
+      expect(isLocallyModified({ syncStatus: 'uploaded' })).toBe(false);
+      expect(isLocallyModified({ syncStatus: 'draft' })).toBe(true);
+      expect(isLocallyModified({ syncStatus: 'pending' })).toBe(true);
+      expect(isLocallyModified(null)).toBe(false);
+    });
+  });
+
+  describe('decideRemoteUpdate', () => {
+    it('should apply server rows that are new or over clean local rows', () => {
+      expect(decideRemoteUpdate(null)).toBe('apply');
+      expect(decideRemoteUpdate({ syncStatus: 'synced' })).toBe('apply');
+    });
+
+    it('should merge rows with unsynced local edits, even when the server row is newer', () => {
+      expect(decideRemoteUpdate({ syncStatus: 'draft' })).toBe('merge');
+      expect(decideRemoteUpdate({ syncStatus: 'pending' })).toBe('merge');
+    });
+  });
+
+  describe('decideTombstone', () => {
+    it('should skip tombstones for rows that do not exist locally', () => {
+      expect(decideTombstone(null, makeTombstone())).toBe('skip');
+    });
+
+    it('should delete clean rows and keep rows edited after the deletion', () => {
+      const tombstone = makeTombstone();
+
+      expect(decideTombstone({ syncStatus: 'synced', updatedAt: '2026-03-12T00:00:00.000Z' }, tombstone)).toBe('apply');
+      expect(decideTombstone({ syncStatus: 'draft', updatedAt: '2026-03-12T00:00:00.000Z' }, tombstone)).toBe('skip');
+      expect(decideTombstone({ syncStatus: 'draft', updatedAt: '2026-03-01T00:00:00.000Z' }, tombstone)).toBe('apply');
+    });
+  });
+
+  describe('orderTombstones', () => {
+    it('should remove children before their report', () => {
+      const ordered = orderTombstones([
+        makeTombstone({ entityType: 'report', entityId: 'report-1' }),
+        makeTombstone({ entityType: 'photo', entityId: 'photo-1' }),
+        makeTombstone({ entityType: 'element', entityId: 'element-1' }),
+      ]);
+
+      expect(ordered.map((t) => t.entityType)).toEqual(['photo', 'element', 'report']);
+    });
+  });
+
+  describe('local deletions', () => {
+    it('should use one idempotency key per deleted entity', () => {
+      expect(deletionIdempotencyKey('photo', 'photo-1')).toBe('photo:photo-1:delete');
+      expect(deletionIdempotencyKey('photo', 'photo-1')).toBe(deletionIdempotencyKey('photo', 'photo-1'));
+    });
+
+    it('should build the upload form from a queued tombstone', () => {
+      const item: LocalSyncQueue = {
+        id: 7,
+        entityType: 'photo',
+        entityId: 'photo-1',
+        operation: 'delete',
+        payloadJson: JSON.stringify({
+          reportId: 'report-1',
+          deletedAt: '2026-03-10T00:00:00.000Z',
+          originalHash: 'abc123',
+        }),
+        createdAt: '2026-03-10T00:00:00.000Z',
+        attemptCount: 0,
+        lastError: null,
+        idempotencyKey: 'photo:photo-1:delete',
+        nextAttemptAt: null,
+      };
+
+      expect(deletionFromQueueItem(item)).toEqual({
+        entityType: 'photo',
+        entityId: 'photo-1',
+        reportId: 'report-1',
+        idempotencyKey: 'photo:photo-1:delete',
+        deletedAt: '2026-03-10T00:00:00.000Z',
+        originalHash: 'abc123',
+      });
+    });
+
+    it('should keep deletions the server did not acknowledge for retry', () => {
+      const sent = [
+        { idempotencyKey: 'defect:defect-1:delete' },
+        { idempotencyKey: 'photo:photo-1:delete' },
+      ];
+
+      const result = partitionAcknowledged(sent, ['defect:defect-1:delete']);
+
+      expect(result.acknowledged).toEqual([{ idempotencyKey: 'defect:defect-1:delete' }]);
+      expect(result.unacknowledged).toEqual([{ idempotencyKey: 'photo:photo-1:delete' }]);
+      expect(partitionAcknowledged(sent, undefined).unacknowledged).toHaveLength(2);
+    });
+  });
+
+  describe('selectCacheEvictions', () => {
+    const entries = [
+      makeEntry('photo-a', 40, '2026-03-05T00:00:00.000Z'),
+      makeEntry('photo-b', 40, '2026-03-01T00:00:00.000Z'),
+      makeEntry('photo-c', 40, '2026-03-09T00:00:00.000Z'),
+    ];
+
+    it('should evict nothing when the cache fits', () => {
+      expect(selectCacheEvictions(entries, 120)).toEqual([]);
+    });
+
+    it('should evict least recently used entries first', () => {
+      const evicted = selectCacheEvictions(entries, 50);
+
+      expect(evicted.map((e) => e.photoId)).toEqual(['photo-b', 'photo-a']);
+    });
+
+    it('should never evict protected entries', () => {
+      const evicted = selectCacheEvictions(entries, 50, { protectedIds: new Set(['photo-b']) });
+
+      expect(evicted.map((e) => e.photoId)).toEqual(['photo-a', 'photo-c']);
+    });
+  });
+
+  describe('isRemoteUri', () => {
+    it('should recognise server URLs', () => {
+      expect(isRemoteUri('https://cdn.example.com/photo.jpg')).toBe(true);
+      expect(isRemoteUri('file:///doc/photos/photo.jpg')).toBe(false);
+      expect(isRemoteUri(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for device directive helpers.
+ * Tests that only well-formed wipe/deprovision directives are acted on.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  parseDeviceDirective,
+  isDeprovision,
+  describeDeviceDirective,
+} from '../../lib/device-directive';
+
+const valid = {
+  id: 'dir_1',
+  action: 'WIPE',
+  issuedAt: '2026-03-01T10:00:00.000Z',
+  issuedBy: 'Admin User',
+  reason: 'Phone lost',
+};
+
+describe('parseDeviceDirective', () => {
+  it('accepts a complete directive', () => {
+    expect(parseDeviceDirective(valid)).toEqual(valid);
+  });
+
+  it('defaults optional fields to null', () => {
+    const { issuedBy, reason, ...required } = valid;
+    expect(parseDeviceDirective(required)).toEqual({ ...required, issuedBy: null, reason: null });
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['null', null],
+    ['a string', 'WIPE'],
+    ['without an id', { ...valid, id: '' }],
+    ['with an unknown action', { ...valid, action: 'FORMAT' }],
+    ['with a lowercase action', { ...valid, action: 'wipe' }],
+    ['with an invalid issue date', { ...valid, issuedAt: 'yesterday' }],
+  ])('ignores a value %s', (_label, value) => {
+    expect(parseDeviceDirective(value)).toBeNull();
+  });
+});
+
+describe('isDeprovision', () => {
+  it('distinguishes deprovision from wipe', () => {
+    expect(isDeprovision(parseDeviceDirective(valid)!)).toBe(false);
+    expect(isDeprovision(parseDeviceDirective({ ...valid, action: 'DEPROVISION' })!)).toBe(true);
+  });
+});
+
+describe('describeDeviceDirective', () => {
+  it('names the directive and issuer', () => {
+    const note = describeDeviceDirective(parseDeviceDirective(valid)!, true);
+    expect(note).toContain('remote wipe issued by Admin User');
+    expect(note).toContain('directive dir_1');
+    expect(note).toContain('Server copy confirmed');
+  });
+
+  it('flags evidence that never reached the server', () => {
+    const note = describeDeviceDirective(parseDeviceDirective({ ...valid, issuedBy: null })!, false);
+    expect(note).not.toContain('issued by');
+    expect(note).toContain('NOT synced');
+  });
+});
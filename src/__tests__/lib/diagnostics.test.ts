@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the diagnostics bundle.
+ * Tests sync queue summaries, payload redaction and background task history.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  backgroundTaskHistory,
+  diagnosticsFilename,
+  logEntriesToJsonl,
+  payloadPreview,
+  summarizeSyncQueue,
+} from '../../lib/diagnostics';
+import { REDACTED, type StoredLogEntry } from '../../lib/log-store';
+import type { LocalSyncQueue } from '../../types/database';
+
+const POLICY = { maxAttempts: 5, failedStatus: 'permanently_failed' };
+
+const queueItem = (overrides: Partial<LocalSyncQueue>): LocalSyncQueue => ({
+  id: 1,
+  entityType: 'report',
+  entityId: 'r1',
+  operation: 'update',
+  payloadJson: '{}',
+  createdAt: '2026-03-10T09:00:00.000Z',
+  attemptCount: 0,
+  lastError: null,
+  idempotencyKey: 'report:r1:update:1',
+  nextAttemptAt: null,
+  ...overrides,
+});
+
+describe('payloadPreview', () => {
+  it('redacts client contact details and truncates', () => {
+    const payload = JSON.stringify({ id: 'r1', clientEmail: 'jo@example.com', notes: 'call 021 123 4567' });
+    expect(payloadPreview(payload)).toBe(`{"id":"r1","clientEmail":"${REDACTED}","notes":"call ${REDACTED}"}`);
+    expect(payloadPreview(JSON.stringify({ text: 'x'.repeat(50) }), 20)).toBe('{"text":"xxxxxxxxxxx…');
+  });
+
+  it('scrubs payloads that are not JSON', () => {
+    expect(payloadPreview('to jo@example.com')).toBe(`to ${REDACTED}`);
+  });
+});
+
+describe('summarizeSyncQueue', () => {
+  it('counts the whole queue and lists the oldest items', () => {
+    const summary = summarizeSyncQueue(
+      [
+        queueItem({ id: 2, createdAt: '2026-03-10T10:00:00.000Z', entityType: 'photo', operation: 'upload' }),
+        queueItem({ id: 1, attemptCount: 5, lastError: 'Rejected for jo@example.com' }),
+        queueItem({ id: 3, createdAt: '2026-03-10T11:00:00.000Z', operation: 'delete:permanently_failed' }),
+      ],
+      POLICY,
+      2
+    );
+
+    expect(summary).toMatchObject({
+      total: 3,
+      failed: 2,
+      byEntityType: { report: 2, photo: 1 },
+      byOperation: { update: 1, upload: 1, 'delete:permanently_failed': 1 },
+      oldestCreatedAt: '2026-03-10T09:00:00.000Z',
+    });
+    expect(summary.items.map((item) => [item.id, item.failed])).toEqual([
+      [1, true],
+      [2, false],
+    ]);
+    expect(summary.items[0].lastError).toBe(`Rejected for ${REDACTED}`);
+  });
+
+  it('handles an empty queue', () => {
+    expect(summarizeSyncQueue([], POLICY)).toMatchObject({ total: 0, failed: 0, oldestCreatedAt: null, items: [] });
+  });
+});
+
+describe('backgroundTaskHistory', () => {
+  it('recovers runs from the log store, newest first', () => {
+    const entries: StoredLogEntry[] = [
+      {
+        timestamp: '2026-03-10T09:00:00.000Z',
+        level: 'info',
+        source: 'BackgroundSync',
+        message: 'No network connection',
+        context: { action: 'skipped' },
+      },
+      { timestamp: '2026-03-10T09:05:00.000Z', level: 'info', source: 'SyncService', message: 'Other' },
+      {
+        timestamp: '2026-03-10T09:30:00.000Z',
+        level: 'info',
+        source: 'BackgroundSync',
+        message: 'Synced 2 reports, 4 photos',
+        context: { action: 'success', duration: 1200 },
+      },
+    ];
+
+    expect(backgroundTaskHistory(entries, 'BackgroundSync')).toEqual([
+      {
+        timestamp: '2026-03-10T09:30:00.000Z',
+        action: 'success',
+        result: 'Synced 2 reports, 4 photos',
+        details: { duration: 1200 },
+      },
+      { timestamp: '2026-03-10T09:00:00.000Z', action: 'skipped', result: 'No network connection' },
+    ]);
+  });
+});
+
+describe('bundle files', () => {
+  it('names bundles by UTC time', () => {
+    expect(diagnosticsFilename(new Date('2026-03-10T09:15:07.123Z'))).toBe('diagnostics_20260310-091507.zip');
+  });
+
+  it('writes logs as JSON lines', () => {
+    const log: StoredLogEntry = { timestamp: 't', level: 'warn', source: 'App', message: 'm' };
+    expect(logEntriesToJsonl([log, log]).split('\n')).toHaveLength(3);
+    expect(logEntriesToJsonl([])).toBe('');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for defect dictation.
+ * Tests guided step order, one note per field, transcript filling and review gating.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  DICTATION_STEPS,
+  completeDictation,
+  dictationFieldFor,
+  fillDictatedField,
+  markDictationReviewed,
+  nextDictationField,
+  pendingDictations,
+  startDictation,
+  unreviewedDictations,
+  updateDictationStatus,
+  type DictationState,
+} from '../../lib/dictation';
+
+describe('guided steps', () => {
+  it('walks observation, analysis then opinion', () => {
+    expect(DICTATION_STEPS.map((step) => step.field)).toEqual(['observation', 'analysis', 'opinion']);
+
+    let state: DictationState = {};
+    expect(nextDictationField(state)).toBe('observation');
+    state = startDictation(state, 'observation', 'v1').state;
+    expect(nextDictationField(state)).toBe('analysis');
+    state = startDictation(state, 'analysis', 'v2').state;
+    state = startDictation(state, 'opinion', 'v3').state;
+    expect(nextDictationField(state)).toBeNull();
+    expect(dictationFieldFor(state, 'v2')).toBe('analysis');
+    expect(dictationFieldFor(state, 'other')).toBeNull();
+  });
+
+  it('keeps one note per field and reports the replaced take', () => {
+    const first = startDictation({}, 'observation', 'v1');
+    expect(first.replacedVoiceNoteId).toBeNull();
+
+    const completed = completeDictation(first.state, 'v1', 'Loose sheet.');
+    const retake = startDictation(completed, 'observation', 'v2');
+    expect(retake.replacedVoiceNoteId).toBe('v1');
+    expect(retake.state.observation).toEqual({
+      voiceNoteId: 'v2',
+      status: 'pending',
+      transcript: 'Loose sheet.',
+      reviewed: false,
+    });
+  });
+});
+
+describe('transcripts', () => {
+  it('tracks status by voice note', () => {
+    const state = startDictation({}, 'analysis', 'v1').state;
+    expect(updateDictationStatus(state, 'v1', 'processing').analysis!.status).toBe('processing');
+    expect(updateDictationStatus(state, 'unknown', 'failed')).toBe(state);
+  });
+
+  it('fills empty fields and replaces an untouched earlier transcript', () => {
+    expect(fillDictatedField('', null, 'Loose sheet.')).toBe('Loose sheet.');
+    expect(fillDictatedField('Loose sheet.', 'Loose sheet.', 'Two loose sheets.')).toBe('Two loose sheets.');
+  });
+
+  it('keeps text the inspector typed', () => {
+    expect(fillDictatedField('North face.', null, 'Loose sheet.')).toBe('North face.\n\nLoose sheet.');
+    expect(fillDictatedField('Loose sheet, edited.', 'Loose sheet.', 'Retake.')).toBe(
+      'Loose sheet, edited.\n\nRetake.'
+    );
+  });
+});
+
+describe('review', () => {
+  it('requires each transcribed field to be reviewed', () => {
+    let state = startDictation({}, 'observation', 'v1').state;
+    state = startDictation(state, 'analysis', 'v2').state;
+    expect(unreviewedDictations(state)).toEqual([]);
+    expect(pendingDictations(state).map((step) => step.field)).toEqual(['observation', 'analysis']);
+
+    state = completeDictation(state, 'v1', 'Loose sheet.');
+    expect(unreviewedDictations(state).map((step) => step.field)).toEqual(['observation']);
+    expect(pendingDictations(state).map((step) => step.field)).toEqual(['analysis']);
+
+    state = markDictationReviewed(state, 'observation');
+    expect(unreviewedDictations(state)).toEqual([]);
+    expect(markDictationReviewed(state, 'opinion')).toBe(state);
+  });
+
+  it('asks for review again when a new transcript arrives', () => {
+    let state = completeDictation(startDictation({}, 'opinion', 'v1').state, 'v1', 'Replace.');
+    state = markDictationReviewed(state, 'opinion');
+    state = completeDictation(startDictation(state, 'opinion', 'v2').state, 'v2', 'Replace soon.');
+    expect(unreviewedDictations(state).map((step) => step.field)).toEqual(['opinion']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for encryption at rest helpers.
+ * Tests key validation, the SQLCipher key pragma and the encrypted file envelope.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import {
+  keyToHex,
+  isValidKeyHex,
+  databaseKeyPragma,
+  isPlaintextSqliteHeader,
+  isEncryptedBase64,
+  encryptBase64,
+  decryptBase64,
+  encryptBytes,
+  decryptBytes,
+  base64ToBytes,
+  bytesToBase64,
+} from '../../lib/encryption';
+
+const KEY = keyToHex(new Uint8Array(32).map((_, i) => i));
+const OTHER_KEY = keyToHex(new Uint8Array(32).fill(7));
+const NONCE = new Uint8Array(12).fill(1);
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+describe('keys', () => {
+  it('accepts 64 lowercase hex characters only', () => {
+    expect(isValidKeyHex(KEY)).toBe(true);
+    expect(isValidKeyHex(KEY.toUpperCase())).toBe(false);
+    expect(isValidKeyHex(KEY.slice(2))).toBe(false);
+    expect(isValidKeyHex(null)).toBe(false);
+  });
+
+  it('builds a raw-key pragma', () => {
+    expect(databaseKeyPragma(KEY)).toBe(`PRAGMA key = "x'${KEY}'";`);
+  });
+
+  it('refuses to interpolate anything that is not a key', () => {
+    expect(() => databaseKeyPragma(`${KEY.slice(1)}'`)).toThrow('Invalid database key');
+    expect(() => databaseKeyPragma('"; DROP TABLE reports; --')).toThrow();
+  });
+});
+
+describe('isPlaintextSqliteHeader', () => {
+  it('recognises an unencrypted database header', () => {
+    const header = Buffer.from('SQLite format 3\u0000\u0010\u0000').toString('base64');
+    expect(isPlaintextSqliteHeader(header)).toBe(true);
+  });
+
+  it('rejects a SQLCipher file (random first page)', () => {
+    expect(isPlaintextSqliteHeader(randomBytes(16).toString('base64'))).toBe(false);
+  });
+});
+
+describe('file envelope', () => {
+  const photo = randomBytes(5000).toString('base64');
+
+  it('round-trips base64 content', () => {
+    const sealed = encryptBase64(KEY, photo, NONCE);
+    expect(sealed).not.toBe(photo);
+    expect(isEncryptedBase64(sealed)).toBe(true);
+    expect(isEncryptedBase64(photo)).toBe(false);
+    expect(decryptBase64(KEY, sealed)).toBe(photo);
+  });
+
+  it('preserves the SHA-256 of the base64 string used for originalHash', () => {
+    const sealed = encryptBase64(KEY, photo, NONCE);
+    expect(sha256(decryptBase64(KEY, sealed))).toBe(sha256(photo));
+  });
+
+  it('round-trips base64 with padding', () => {
+    for (const length of [1, 2, 3, 4]) {
+      const content = Buffer.from('x'.repeat(length)).toString('base64');
+      expect(decryptBase64(KEY, encryptBase64(KEY, content, NONCE))).toBe(content);
+    }
+  });
+
+  it('fails with the wrong key', () => {
+    const sealed = encryptBase64(KEY, photo, NONCE);
+    expect(() => decryptBase64(OTHER_KEY, sealed)).toThrow();
+  });
+
+  it('fails when the ciphertext has been altered', () => {
+    const sealed = encryptBytes(KEY, base64ToBytes(photo), NONCE);
+    sealed[sealed.length - 20] ^= 0xff;
+    expect(() => decryptBytes(KEY, sealed)).toThrow();
+  });
+
+  it('rejects content without the envelope magic', () => {
+    expect(() => decryptBytes(KEY, base64ToBytes(photo))).toThrow('Not an encrypted file');
+  });
+
+  it('rejects a nonce of the wrong length', () => {
+    expect(() => encryptBytes(KEY, new Uint8Array(4), new Uint8Array(8))).toThrow('Invalid nonce length');
+  });
+});
+
+describe('base64', () => {
+  it('converts large buffers without overflowing the call stack', () => {
+    const bytes = new Uint8Array(200_000).map((_, i) => i % 256);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for planar homography.
+ * Tests solving from four points, mapping, rectangle rectification and plane geometry.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  applyHomography,
+  computeHomography,
+  isConvexQuad,
+  polygonArea,
+  polygonPerimeter,
+  rectangleHomography,
+} from '../../lib/homography';
+
+// A 1000 x 2000 mm rectangle seen at an angle: the far edge is shorter
+const CORNERS = [
+  { x: 100, y: 400 },
+  { x: 300, y: 400 },
+  { x: 260, y: 100 },
+  { x: 140, y: 100 },
+];
+
+describe('computeHomography', () => {
+  it('maps each source point onto its destination', () => {
+    const destination = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 5 },
+      { x: 0, y: 5 },
+    ];
+    const h = computeHomography(CORNERS, destination)!;
+    expect(h).toHaveLength(9);
+    CORNERS.forEach((corner, i) => {
+      const mapped = applyHomography(h, corner);
+      expect(mapped.x).toBeCloseTo(destination[i].x);
+      expect(mapped.y).toBeCloseTo(destination[i].y);
+    });
+  });
+
+  it('reduces to scaling for a square-on view', () => {
+    const square = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+      { x: 0, y: 100 },
+    ];
+    const h = computeHomography(square, square.map((p) => ({ x: p.x * 2, y: p.y * 2 })))!;
+    const mapped = applyHomography(h, { x: 30, y: 70 });
+    expect(mapped.x).toBeCloseTo(60);
+    expect(mapped.y).toBeCloseTo(140);
+  });
+
+  it('fails for collinear points', () => {
+    const line = [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+      { x: 2, y: 2 },
+      { x: 3, y: 3 },
+    ];
+    expect(computeHomography(line, CORNERS)).toBeNull();
+  });
+});
+
+describe('rectangleHomography', () => {
+  it('rectifies the marked rectangle to millimetres', () => {
+    const h = rectangleHomography(CORNERS, 1000, 2000)!;
+    const far = applyHomography(h, CORNERS[2]);
+    expect(far.x).toBeCloseTo(1000);
+    expect(far.y).toBeCloseTo(2000);
+  });
+
+  it('rejects corners that cross over', () => {
+    const crossed = [CORNERS[0], CORNERS[2], CORNERS[1], CORNERS[3]];
+    expect(isConvexQuad(crossed)).toBe(false);
+    expect(rectangleHomography(crossed, 1000, 2000)).toBeNull();
+    expect(rectangleHomography(CORNERS, 0, 2000)).toBeNull();
+  });
+});
+
+describe('plane geometry', () => {
+  const rectangle = [
+    { x: 0, y: 0 },
+    { x: 4, y: 0 },
+    { x: 4, y: 3 },
+    { x: 0, y: 3 },
+  ];
+
+  it('measures polygons', () => {
+    expect(polygonArea(rectangle)).toBe(12);
+    expect(polygonPerimeter(rectangle)).toBe(14);
+    expect(polygonArea(rectangle.slice(0, 2))).toBe(0);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Unit tests for measurement calibration.
+ * Tests reference presets, perspective calibration, uncertainty, group sharing and formatting.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  PLACEMENT_ERROR_PX,
+  REFERENCE_OBJECTS,
+  applyCalibration,
+  createCalibration,
+  createPerspectiveCalibration,
+  describeMeasurement,
+  formatTolerance,
+  parseCalibration,
+  reuseCalibration,
+  sharedCalibrations,
+  type CalibrationPhoto,
+} from '../../lib/measurement-calibration';
+import type { LineMeasurement, PolygonMeasurement, RectMeasurement } from '../../components/MeasurementTool';
+import { PhotoType } from '../../types/shared';
+
+const line = (pixelLength: number): LineMeasurement => ({
+  id: 'l1',
+  type: 'line',
+  start: { x: 0, y: 0 },
+  end: { x: pixelLength, y: 0 },
+  pixelLength,
+  realLength: null,
+});
+
+describe('createCalibration', () => {
+  it('uses the preset length and tolerance', () => {
+    const calibration = createCalibration({ referenceId: 'corrugate', pixelLength: 152 })!;
+    expect(calibration.pixelsPerMm).toBe(2);
+    expect(calibration.referenceDescription).toBe('Corrugate pitch 76 mm');
+    expect(calibration.referenceLengthMm).toBe(76);
+    expect(calibration.relativeUncertainty).toBeCloseTo(
+      Math.sqrt((1 / 76) ** 2 + ((Math.SQRT2 * PLACEMENT_ERROR_PX) / 152) ** 2)
+    );
+    expect(calibration.sourcePhotoId).toBeNull();
+  });
+
+  it('ignores an entered length when the preset has a fixed one', () => {
+    const calibration = createCalibration({ referenceId: 'brick', lengthMm: 500, pixelLength: 460 })!;
+    expect(calibration.referenceLengthMm).toBe(230);
+  });
+
+  it('needs a length for tape and custom references', () => {
+    expect(createCalibration({ referenceId: 'tape', pixelLength: 400 })).toBeNull();
+    const calibration = createCalibration({
+      referenceId: 'tape',
+      lengthMm: 1000,
+      pixelLength: 400,
+      description: 'Tape 0-1000',
+    })!;
+    expect(calibration.pixelsPerMm).toBe(0.4);
+    expect(calibration.referenceDescription).toBe('Tape 0-1000');
+  });
+
+  it('has a preset for every reference the inspectors use', () => {
+    expect(REFERENCE_OBJECTS.map((reference) => reference.id)).toEqual([
+      'brick',
+      'corrugate',
+      'tape',
+      'ranz_card',
+      'custom',
+    ]);
+  });
+});
+
+describe('applyCalibration', () => {
+  const calibration = createCalibration({ referenceId: 'ranz_card', pixelLength: 1000 })!;
+
+  it('stores length and its uncertainty', () => {
+    const measured = applyCalibration(line(500), calibration);
+    expect(measured.realLength).toBe(50);
+    const expected = Math.sqrt(
+      calibration.relativeUncertainty! ** 2 + ((Math.SQRT2 * PLACEMENT_ERROR_PX) / 500) ** 2
+    );
+    expect(measured.realLengthUncertainty).toBeCloseTo(50 * expected);
+  });
+
+  it('counts the scale error twice for areas', () => {
+    const rect: RectMeasurement = {
+      id: 'r1',
+      type: 'rectangle',
+      start: { x: 0, y: 0 },
+      end: { x: 1000, y: 1000 },
+      pixelWidth: 1000,
+      pixelHeight: 1000,
+      realWidth: null,
+      realHeight: null,
+      realArea: null,
+    };
+    const measured = applyCalibration(rect, calibration);
+    expect(measured.realArea).toBe(10000);
+    expect(measured.realAreaUncertainty! / measured.realArea!).toBeGreaterThan(2 * calibration.relativeUncertainty!);
+  });
+
+  it('includes outline error for polygons', () => {
+    const polygon: PolygonMeasurement = {
+      id: 'p1',
+      type: 'polygon',
+      points: [],
+      pixelPerimeter: 400,
+      pixelArea: 10000,
+      realPerimeter: null,
+      realArea: null,
+    };
+    const measured = applyCalibration(polygon, calibration);
+    expect(measured.realPerimeter).toBe(40);
+    expect(measured.realArea).toBe(100);
+    expect(measured.realAreaUncertainty).toBeCloseTo(
+      100 * Math.sqrt((2 * calibration.relativeUncertainty!) ** 2 + ((PLACEMENT_ERROR_PX * 400) / 10000) ** 2)
+    );
+  });
+
+  it('leaves uncertainty unknown for older calibrations and clears values without one', () => {
+    const legacy = applyCalibration(line(500), { pixelsPerMm: 10, referenceDescription: 'Ruler' });
+    expect(legacy.realLength).toBe(50);
+    expect(legacy.realLengthUncertainty).toBeNull();
+
+    const uncalibrated = applyCalibration(line(500), null);
+    expect(uncalibrated.realLength).toBeNull();
+  });
+});
+
+describe('perspective calibration', () => {
+  // A 1000 x 2000 mm sheet photographed at an angle: the far edge is shorter
+  const corners = [
+    { x: 100, y: 400 },
+    { x: 300, y: 400 },
+    { x: 260, y: 100 },
+    { x: 140, y: 100 },
+  ];
+  const calibration = createPerspectiveCalibration({ corners, widthMm: 1000, lengthMm: 2000 })!;
+
+  it('stores the homography and the marked rectangle', () => {
+    expect(calibration.mode).toBe('perspective');
+    expect(calibration.homography).toHaveLength(9);
+    expect(calibration.referenceCorners).toEqual(corners);
+    expect(calibration.referenceDescription).toBe('Rectangle 1000 × 2000 mm');
+    expect(parseCalibration(JSON.stringify(calibration))).toEqual(calibration);
+  });
+
+  it('measures lengths on the roof plane rather than the screen', () => {
+    const near = applyCalibration(
+      { ...line(200), start: { x: 100, y: 400 }, end: { x: 300, y: 400 } },
+      calibration
+    );
+    const far = applyCalibration(
+      { ...line(120), start: { x: 140, y: 100 }, end: { x: 260, y: 100 } },
+      calibration
+    );
+    // Both edges are the sheet width despite different pixel lengths
+    expect(near.realLength).toBeCloseTo(1000);
+    expect(far.realLength).toBeCloseTo(1000);
+  });
+
+  it('rectifies polygon areas', () => {
+    const polygon: PolygonMeasurement = {
+      id: 'p1',
+      type: 'polygon',
+      points: corners,
+      pixelPerimeter: 0,
+      pixelArea: 48000,
+      realPerimeter: null,
+      realArea: null,
+    };
+    const measured = applyCalibration(polygon, calibration);
+    expect(measured.realArea).toBeCloseTo(2_000_000);
+    expect(measured.realPerimeter).toBeCloseTo(6000);
+  });
+
+  it('rejects corners that do not form a rectangle view', () => {
+    const crossed = [corners[0], corners[2], corners[1], corners[3]];
+    expect(createPerspectiveCalibration({ corners: crossed, widthMm: 1000, lengthMm: 2000 })).toBeNull();
+    expect(parseCalibration(JSON.stringify({ ...calibration, homography: [1, 0] }))).toBeNull();
+  });
+});
+
+describe('scale reference groups', () => {
+  const calibration = createCalibration({ referenceId: 'brick', pixelLength: 460 })!;
+  const photo = (overrides: Partial<CalibrationPhoto>): CalibrationPhoto => ({
+    id: 'target',
+    reportId: 'r1',
+    roofElementId: 'e1',
+    defectId: null,
+    photoType: PhotoType.DETAIL,
+    calibrationJson: null,
+    capturedAt: '2026-03-10T01:00:00.000Z',
+    ...overrides,
+  });
+
+  it('offers calibrations from scale reference photos of the same element, newest first', () => {
+    const target = photo({});
+    const photos = [
+      target,
+      photo({ id: 'older', photoType: PhotoType.SCALE_REFERENCE, calibrationJson: JSON.stringify(calibration), capturedAt: '2026-03-10T00:00:00.000Z' }),
+      photo({ id: 'newer', photoType: PhotoType.SCALE_REFERENCE, calibrationJson: JSON.stringify(calibration), capturedAt: '2026-03-10T00:30:00.000Z' }),
+      // Other element
+      photo({ id: 'other', roofElementId: 'e2', photoType: PhotoType.SCALE_REFERENCE, calibrationJson: JSON.stringify(calibration) }),
+      // Not a scale reference
+      photo({ id: 'detail', calibrationJson: JSON.stringify(calibration) }),
+      // Already a copy
+      photo({ id: 'copy', photoType: PhotoType.SCALE_REFERENCE, calibrationJson: JSON.stringify({ ...calibration, sourcePhotoId: 'older' }) }),
+      // Not calibrated
+      photo({ id: 'blank', photoType: PhotoType.SCALE_REFERENCE }),
+    ];
+    expect(sharedCalibrations(target, photos).map((shared) => shared.photoId)).toEqual(['newer', 'older']);
+  });
+
+  it('records where a reused calibration came from', () => {
+    const reused = reuseCalibration({ photoId: 'older', capturedAt: null, calibration });
+    expect(reused.sourcePhotoId).toBe('older');
+    expect(reused.pixelsPerMm).toBe(calibration.pixelsPerMm);
+  });
+
+  it('parses only usable calibrations', () => {
+    expect(parseCalibration(JSON.stringify(calibration))).toEqual(calibration);
+    expect(parseCalibration(JSON.stringify({ pixelsPerMm: 0 }))).toBeNull();
+    expect(parseCalibration('{bad')).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('states tolerance alongside values', () => {
+    expect(formatTolerance(0.0214)).toBe('±2.1%');
+    expect(formatTolerance(undefined)).toBeNull();
+    expect(describeMeasurement({ ...line(500), realLength: 1250, realLengthUncertainty: 30 })).toBe(
+      'Line 1.25 m ± 30.0 mm'
+    );
+    expect(describeMeasurement(line(500))).toBe('Line 500 px (uncalibrated)');
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Migration harness.
+ * Loads a fixture database for every past DATABASE_VERSION into sql.js,
+ * runs the real MIGRATIONS through the runner and checks the result
+ * matches a fresh install with the fixture data intact. Also covers
+ * rollback of a failing migration, TypeScript data transforms, checksums
+ * and the pre-migration backup hook.
+ *
+ * Fixtures live in src/__tests__/fixtures/migrations/v{N}.sql. Add one
+ * whenever DATABASE_VERSION is bumped.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import initSqlJs from 'sql.js';
+import type { Database, SqlJsStatic } from 'sql.js';
+import {
+  getMigrationHistory,
+  getUserVersion,
+  migrateDatabase,
+  verifyMigrationHistory,
+} from '../../lib/migrations';
+import {
+  CREATE_TABLES_SQL,
+  DATABASE_VERSION,
+  MIGRATIONS,
+  type MigrationDatabase,
+  type SchemaMigration,
+} from '../../types/database';
+
+// jest-expo defines window, which breaks the wasm build's file system; the asm.js build is identical SQLite
+jest.mock('sql.js', () => jest.requireActual('sql.js/dist/sql-asm.js'));
+
+const FIXTURE_DIR = join(__dirname, '..', 'fixtures', 'migrations');
+const PAST_VERSIONS = Array.from({ length: DATABASE_VERSION - 1 }, (_, i) => i + 1);
+
+let SQL: SqlJsStatic;
+
+const digest = async (text: string) => createHash('sha256').update(text).digest('hex');
+
+function adapt(db: Database): MigrationDatabase {
+  const all = <T>(source: string, params: (string | number | null)[] = []): T[] => {
+    const stmt = db.prepare(source);
+    stmt.bind(params);
+    const rows: T[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject() as T);
+    stmt.free();
+    return rows;
+  };
+
+  return {
+    execAsync: async (source) => {
+      db.exec(source);
+    },
+    runAsync: async (source, params) => {
+      db.run(source, params);
+      return { changes: db.getRowsModified() };
+    },
+    getFirstAsync: async <T>(source: string, params: (string | number | null)[]) => all<T>(source, params)[0] ?? null,
+    getAllAsync: async <T>(source: string, params: (string | number | null)[]) => all<T>(source, params),
+  };
+}
+
+function loadFixture(version: number): Database {
+  const db = new SQL.Database();
+  db.exec(readFileSync(join(FIXTURE_DIR, `v${version}.sql`), 'utf8'));
+  return db;
+}
+
+/** Table name -> sorted column names, plus index names */
+async function describeSchema(db: MigrationDatabase) {
+  const tables = await db.getAllAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name",
+    []
+  );
+  const columns: Record<string, string[]> = {};
+  for (const { name } of tables) {
+    const info = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${name})`, []);
+    columns[name] = info.map((c) => c.name).sort();
+  }
+  const indexes = await db.getAllAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'index' AND name NOT LIKE 'sqlite_%' ORDER BY name",
+    []
+  );
+  return { columns, indexes: indexes.map((i) => i.name) };
+}
+
+async function freshSchema() {
+  const db = adapt(new SQL.Database());
+  await migrateDatabase(db, { migrations: MIGRATIONS, targetVersion: DATABASE_VERSION, createTablesSql: CREATE_TABLES_SQL, digest });
+  return describeSchema(db);
+}
+
+const brokenMigration: SchemaMigration = {
+  version: DATABASE_VERSION + 1,
+  description: 'Broken migration',
+  sql: `
+    ALTER TABLE photos ADD COLUMN never_committed TEXT;
+    INSERT INTO missing_table (id) VALUES (1);
+  `,
+};
+
+describe('Migrations', () => {
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should have a fixture for every past DATABASE_VERSION', () => {
+    const missing = PAST_VERSIONS.filter((v) => !existsSync(join(FIXTURE_DIR, `v${v}.sql`)));
+    expect(missing).toEqual([]);
+  });
+
+  it('should number migrations contiguously up to DATABASE_VERSION', () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(
+      Array.from({ length: DATABASE_VERSION - 1 }, (_, i) => i + 2)
+    );
+  });
+
+  describe.each(PAST_VERSIONS)('from v%i', (fromVersion) => {
+    it('should reach the fresh-install schema and keep existing data', async () => {
+      const raw = loadFixture(fromVersion);
+      const db = adapt(raw);
+      const expected = await freshSchema();
+
+      const result = await migrateDatabase(db, {
+        migrations: MIGRATIONS,
+        targetVersion: DATABASE_VERSION,
+        createTablesSql: CREATE_TABLES_SQL,
+        digest,
+      });
+
+      expect(result.fromVersion).toBe(fromVersion);
+      expect(result.applied).toEqual(MIGRATIONS.filter((m) => m.version > fromVersion).map((m) => m.version));
+      expect(await getUserVersion(db)).toBe(DATABASE_VERSION);
+      expect(await describeSchema(db)).toEqual(expected);
+
+      const report = await db.getFirstAsync<{ client_name: string }>("SELECT * FROM reports WHERE id = 'report-1'", []);
+      const photo = await db.getFirstAsync<{ original_hash: string }>("SELECT * FROM photos WHERE id = 'photo-1'", []);
+      const queue = await db.getFirstAsync<{ idempotency_key: string | null }>('SELECT * FROM sync_queue', []);
+      expect(report?.client_name).toBe('Fixture Client');
+      expect(photo?.original_hash).toBe('a'.repeat(64));
+      expect(queue?.idempotency_key).toBeTruthy();
+
+      const history = await getMigrationHistory(db);
+      expect(history.map((h) => h.version)).toEqual(result.applied);
+      expect(result.checksumMismatches).toEqual([]);
+
+      raw.close();
+    });
+  });
+
+  it('should create the schema and a baseline history row on a fresh install', async () => {
+    const db = adapt(new SQL.Database());
+
+    const result = await migrateDatabase(db, {
+      migrations: MIGRATIONS,
+      targetVersion: DATABASE_VERSION,
+      createTablesSql: CREATE_TABLES_SQL,
+      digest,
+    });
+
+    expect(result.applied).toEqual([]);
+    expect(await getUserVersion(db)).toBe(DATABASE_VERSION);
+    expect(await getMigrationHistory(db)).toEqual([
+      expect.objectContaining({ version: DATABASE_VERSION, description: 'Initial schema' }),
+    ]);
+  });
+
+  it('should roll back a failing migration and keep earlier ones', async () => {
+    const db = adapt(loadFixture(DATABASE_VERSION - 1));
+
+    await expect(
+      migrateDatabase(db, {
+        migrations: [...MIGRATIONS, brokenMigration],
+        targetVersion: brokenMigration.version,
+        createTablesSql: CREATE_TABLES_SQL,
+        digest,
+      })
+    ).rejects.toThrow(`Migration v${brokenMigration.version} (Broken migration) failed and was rolled back`);
+
+    const columns = await db.getAllAsync<{ name: string }>('PRAGMA table_info(photos)', []);
+    expect(columns.map((c) => c.name)).not.toContain('never_committed');
+    expect(await getUserVersion(db)).toBe(DATABASE_VERSION);
+    expect((await getMigrationHistory(db)).map((h) => h.version)).toEqual([DATABASE_VERSION]);
+  });
+
+  it('should run TypeScript data transforms inside the migration', async () => {
+    const db = adapt(loadFixture(DATABASE_VERSION - 1));
+    const transform: SchemaMigration = {
+      version: DATABASE_VERSION + 1,
+      description: 'Upper-case cities',
+      transform: async (tx) => {
+        const rows = await tx.getAllAsync<{ id: string; property_city: string }>('SELECT id, property_city FROM reports', []);
+        for (const row of rows) {
+          await tx.runAsync('UPDATE reports SET property_city = ? WHERE id = ?', [row.property_city.toUpperCase(), row.id]);
+        }
+      },
+    };
+
+    const result = await migrateDatabase(db, {
+      migrations: [...MIGRATIONS, transform],
+      targetVersion: transform.version,
+      createTablesSql: CREATE_TABLES_SQL,
+      digest,
+    });
+
+    const report = await db.getFirstAsync<{ property_city: string }>("SELECT property_city FROM reports WHERE id = 'report-1'", []);
+    expect(report?.property_city).toBe('WELLINGTON');
+    expect(result.applied).toEqual([DATABASE_VERSION, transform.version]);
+  });
+
+  it('should flag applied migrations whose definition changed', async () => {
+    const db = adapt(loadFixture(DATABASE_VERSION - 1));
+    await migrateDatabase(db, { migrations: MIGRATIONS, targetVersion: DATABASE_VERSION, createTablesSql: CREATE_TABLES_SQL, digest });
+
+    const edited = MIGRATIONS.map((m) => (m.version === DATABASE_VERSION ? { ...m, sql: `${m.sql}\n-- edited` } : m));
+
+    jest.spyOn(console, 'warn').mockImplementationOnce(() => {});
+    expect(await verifyMigrationHistory(db, edited, digest)).toEqual([DATABASE_VERSION]);
+  });
+
+  it('should back up before upgrading and continue if the backup fails', async () => {
+    const backup = jest.fn().mockResolvedValue('/backups/ranz_mobile.v12.db');
+    const db = adapt(loadFixture(12));
+
+    const result = await migrateDatabase(db, {
+      migrations: MIGRATIONS,
+      targetVersion: DATABASE_VERSION,
+      createTablesSql: CREATE_TABLES_SQL,
+      digest,
+      backup,
+    });
+
+    expect(backup).toHaveBeenCalledWith(12);
+    expect(result.backupPath).toBe('/backups/ranz_mobile.v12.db');
+
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+    const failing = adapt(loadFixture(12));
+    const failed = await migrateDatabase(failing, {
+      migrations: MIGRATIONS,
+      targetVersion: DATABASE_VERSION,
+      createTablesSql: CREATE_TABLES_SQL,
+      digest,
+      backup: jest.fn().mockRejectedValue(new Error('disk full')),
+    });
+    expect(failed.backupPath).toBeNull();
+    expect(await getUserVersion(failing)).toBe(DATABASE_VERSION);
+  });
+
+  it('should not touch a database newer than the app', async () => {
+    const db = adapt(new SQL.Database());
+    await db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION + 5}`);
+    jest.spyOn(console, 'warn').mockImplementationOnce(() => {});
+
+    const result = await migrateDatabase(db, {
+      migrations: MIGRATIONS,
+      targetVersion: DATABASE_VERSION,
+      createTablesSql: CREATE_TABLES_SQL,
+      digest,
+    });
+
+    expect(result.applied).toEqual([]);
+    expect(await getUserVersion(db)).toBe(DATABASE_VERSION + 5);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the on-device report PDF document.
+ * Tests that elements, defects, photos and compliance results are rendered,
+ * that photos are numbered and placed under their defect, and that user
+ * text is escaped.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import { buildReportPdfHtml, type ReportPdfSource } from '../../lib/report-pdf';
+import type {
+  LocalChecklist,
+  LocalComplianceAssessment,
+  LocalDefect,
+  LocalPhoto,
+  LocalReport,
+  LocalRoofElement,
+} from '../../types/database';
+
+const NOW = '2026-03-10T00:00:00.000Z';
+
+const report = {
+  id: 'report-1',
+  reportNumber: 'RANZ-2026-00001',
+  status: 'IN_PROGRESS',
+  propertyAddress: '1 Queen Street',
+  propertyCity: 'Auckland',
+  propertyRegion: 'Auckland',
+  propertyPostcode: '1010',
+  propertyType: 'RESIDENTIAL_1',
+  buildingAge: null,
+  inspectionDate: NOW,
+  inspectionType: 'FULL_INSPECTION',
+  weatherConditions: 'Fine',
+  accessMethod: 'Ladder',
+  limitations: null,
+  clientName: 'Jo Client',
+  clientEmail: null,
+  clientPhone: null,
+  declarationSigned: false,
+  signedAt: null,
+} as unknown as LocalReport;
+
+const element = {
+  id: 'element-1',
+  elementType: 'ROOF_CLADDING',
+  location: 'Main roof',
+  claddingType: 'Corrugated',
+  material: 'Steel',
+  manufacturer: null,
+  pitch: 15,
+  area: 120,
+  conditionRating: 'FAIR',
+  conditionNotes: 'Paint chalking',
+} as unknown as LocalRoofElement;
+
+const defect = {
+  id: 'defect-1',
+  defectNumber: 1,
+  title: 'Lifted flashing',
+  classification: 'MAJOR_DEFECT',
+  severity: 'HIGH',
+  priorityLevel: null,
+  location: 'North elevation',
+  observation: 'Apron flashing lifted 40mm',
+  analysis: 'Fixings withdrawn by thermal movement',
+  opinion: 'Water entry likely in wind-driven rain',
+  recommendation: null,
+  codeReference: null,
+  copReference: null,
+} as unknown as LocalDefect;
+
+const photo = (id: string, defectId: string | null) =>
+  ({
+    id,
+    defectId,
+    caption: `Caption ${id}`,
+    photoType: 'DEFECT',
+    capturedAt: NOW,
+    gpsLat: null,
+    gpsLng: null,
+    originalHash: 'a'.repeat(64),
+  }) as unknown as LocalPhoto;
+
+const compliance = {
+  id: 'compliance-1',
+  reportId: 'report-1',
+  checklistResultsJson: JSON.stringify({ e2: { 'item-1': 'PASS', 'item-2': 'FAIL' } }),
+  nonComplianceSummary: 'Flashing cover below minimum',
+} as unknown as LocalComplianceAssessment;
+
+const checklist = {
+  id: 'e2',
+  name: 'E2 External Moisture',
+  standard: 'E2/AS1',
+  itemsJson: JSON.stringify([
+    { id: 'item-1', item: 'Underlay installed' },
+    { id: 'item-2', item: 'Flashing cover 150mm' },
+  ]),
+} as unknown as LocalChecklist;
+
+function source(overrides: Partial<ReportPdfSource> = {}): ReportPdfSource {
+  return {
+    report,
+    elements: [element],
+    defects: [defect],
+    compliance,
+    checklists: [checklist],
+    roofPlan: null,
+    photos: [
+      { photo: photo('p1', 'defect-1'), src: 'data:image/jpeg;base64,AAA' },
+      { photo: photo('p2', null), src: 'data:image/jpeg;base64,BBB' },
+    ],
+    ...overrides,
+  };
+}
+
+const render = (overrides: Partial<ReportPdfSource> = {}, watermark?: string | null) =>
+  buildReportPdfHtml(source(overrides), { watermark, generatedAt: new Date(NOW) });
+
+describe('buildReportPdfHtml', () => {
+  it('renders the roof elements', () => {
+    const html = render();
+    expect(html).toContain('<h2>Roof Elements</h2>');
+    expect(html).toContain('ROOF CLADDING');
+    expect(html).toContain('Corrugated / Steel');
+    expect(html).toContain('Paint chalking');
+  });
+
+  it('renders each defect with its observation, analysis and opinion', () => {
+    const html = render();
+    expect(html).toContain('1. Lifted flashing');
+    expect(html).toContain('<div class="label">Observation</div><div>Apron flashing lifted 40mm</div>');
+    expect(html).toContain('<div class="label">Analysis</div><div>Fixings withdrawn by thermal movement</div>');
+    expect(html).toContain('<div class="label">Opinion</div><div>Water entry likely in wind-driven rain</div>');
+  });
+
+  it('places defect photos under their defect and the rest at the end', () => {
+    const html = render();
+    const defectBlock = html.slice(html.indexOf('<div class="defect">'), html.indexOf('<h2>Compliance Assessment</h2>'));
+    expect(defectBlock).toContain('data:image/jpeg;base64,AAA');
+    expect(defectBlock).toContain('<strong>Photo 1</strong> Caption p1');
+
+    const general = html.slice(html.indexOf('<h2>Photographs</h2>'));
+    expect(general).toContain('data:image/jpeg;base64,BBB');
+    expect(general).toContain('<strong>Photo 2</strong> Caption p2');
+  });
+
+  it('numbers photos in the order they are printed', () => {
+    const second = { ...defect, id: 'defect-2', defectNumber: 2, title: 'Cracked ridge' } as LocalDefect;
+    const html = render({
+      defects: [defect, second],
+      // Captured general photo first, then defect 2, then defect 1
+      photos: [
+        { photo: photo('p1', null), src: 'data:image/jpeg;base64,AAA' },
+        { photo: photo('p2', 'defect-2'), src: 'data:image/jpeg;base64,BBB' },
+        { photo: photo('p3', 'defect-1'), src: 'data:image/jpeg;base64,CCC' },
+      ],
+    });
+
+    const printed = [...html.matchAll(/<strong>Photo (\d+)<\/strong> Caption (p\d)/g)].map((m) => `${m[1]}:${m[2]}`);
+    expect(printed).toEqual(['1:p3', '2:p2', '3:p1']);
+  });
+
+  it('renders compliance results with checklist item names', () => {
+    const html = render();
+    expect(html).toContain('<h3>E2/AS1</h3>');
+    expect(html).toContain('<td>Underlay installed</td><td class="status-PASS">PASS</td>');
+    expect(html).toContain('<td>Flashing cover 150mm</td><td class="status-FAIL">FAIL</td>');
+    expect(html).toContain('Flashing cover below minimum');
+  });
+
+  it('leaves out empty sections', () => {
+    const html = render({ elements: [], defects: [], compliance: null, photos: [] });
+    expect(html).not.toContain('Roof Elements');
+    expect(html).toContain('No defects recorded.');
+    expect(html).not.toContain('Compliance Assessment');
+    expect(html).not.toContain('<h2>Photographs</h2>');
+  });
+
+  it('watermarks unapproved reports unless told otherwise', () => {
+    expect(render()).toContain('<div class="watermark">DRAFT</div>');
+    expect(render({}, null)).not.toContain('class="watermark"');
+    expect(render({ report: { ...report, status: 'APPROVED' } as LocalReport })).not.toContain('class="watermark"');
+  });
+
+  it('escapes user text', () => {
+    const html = render({ defects: [{ ...defect, title: '<script>x</script>' }] });
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;x&lt;/script&gt;');
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the report workflow transition table.
+ * Tests transition lookup, role requirements, guards, per-inspection-type
+ * overrides and the lock states used to make screens read-only.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  checkTransition,
+  getAvailableActions,
+  getTransition,
+  isReportLocked,
+  needsValidation,
+  workflowActorFromAuth,
+} from '../../lib/report-workflow';
+import type { WorkflowGuardContext } from '../../lib/report-workflow';
+import { InspectionType, ReportStatus, UserRole } from '../../types/shared';
+
+function makeContext(overrides: Partial<WorkflowGuardContext> = {}): WorkflowGuardContext {
+  return {
+    declarationSigned: true,
+    complianceComplete: true,
+    validationErrors: [],
+    note: null,
+    ...overrides,
+  };
+}
+
+const visualReport = (status: ReportStatus) => ({ status, inspectionType: InspectionType.VISUAL_ONLY });
+const disputeReport = (status: ReportStatus) => ({ status, inspectionType: InspectionType.DISPUTE_RESOLUTION });
+
+describe('Report Workflow', () => {
+  describe('getTransition', () => {
+    it('should follow the DRAFT to FINALISED lifecycle', () => {
+      const type = InspectionType.VISUAL_ONLY;
+
+      expect(getTransition(ReportStatus.DRAFT, 'START', type)?.to).toBe(ReportStatus.IN_PROGRESS);
+      expect(getTransition(ReportStatus.IN_PROGRESS, 'SUBMIT', type)?.to).toBe(ReportStatus.PENDING_REVIEW);
+      expect(getTransition(ReportStatus.PENDING_REVIEW, 'APPROVE', type)?.to).toBe(ReportStatus.APPROVED);
+      expect(getTransition(ReportStatus.APPROVED, 'FINALISE', type)?.to).toBe(ReportStatus.FINALISED);
+    });
+
+    it('should have no transitions out of FINALISED', () => {
+      for (const action of ['START', 'SUBMIT', 'APPROVE', 'REJECT', 'REQUEST_REVISION', 'FINALISE'] as const) {
+        expect(getTransition(ReportStatus.FINALISED, action, InspectionType.VISUAL_ONLY)).toBeNull();
+      }
+    });
+
+    it('should add compliance guards for inspection types that require an assessment', () => {
+      const visual = getTransition(ReportStatus.PENDING_REVIEW, 'APPROVE', InspectionType.VISUAL_ONLY);
+      const full = getTransition(ReportStatus.PENDING_REVIEW, 'APPROVE', InspectionType.FULL_INSPECTION);
+
+      expect(visual?.guards).toEqual(['DECLARATION_SIGNED']);
+      expect(full?.guards).toEqual(['DECLARATION_SIGNED', 'COMPLIANCE_COMPLETE']);
+      expect(needsValidation(visual!)).toBe(false);
+      expect(needsValidation(full!)).toBe(true);
+    });
+
+    it('should restrict dispute resolution finalisation to admins', () => {
+      expect(getTransition(ReportStatus.APPROVED, 'FINALISE', InspectionType.DISPUTE_RESOLUTION)?.roles).toEqual([
+        UserRole.ADMIN,
+      ]);
+    });
+  });
+
+  describe('checkTransition', () => {
+    it('should refuse an action that is not valid from the current status', () => {
+      const result = checkTransition(visualReport(ReportStatus.FINALISED), 'SUBMIT', UserRole.INSPECTOR, makeContext());
+
+      expect(result.allowed).toBe(false);
+      expect(result.transition).toBeNull();
+      expect(result.errors[0]).toBe('Cannot submit a report that is finalised');
+    });
+
+    it('should refuse a role that the transition does not allow', () => {
+      const result = checkTransition(
+        visualReport(ReportStatus.PENDING_REVIEW),
+        'APPROVE',
+        UserRole.INSPECTOR,
+        makeContext()
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.errors).toEqual(['Only reviewer or admin users can do this']);
+    });
+
+    it('should pass validation errors through on submit', () => {
+      const result = checkTransition(
+        visualReport(ReportStatus.IN_PROGRESS),
+        'SUBMIT',
+        UserRole.INSPECTOR,
+        makeContext({ validationErrors: ['At least 5 photos required', 'Declaration must be signed before submission'] })
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.errors).toEqual(['At least 5 photos required', 'Declaration must be signed before submission']);
+    });
+
+    it('should refuse submission when validation was not run', () => {
+      const result = checkTransition(
+        visualReport(ReportStatus.DRAFT),
+        'SUBMIT',
+        UserRole.INSPECTOR,
+        makeContext({ validationErrors: null })
+      );
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should require a note to reject or request revisions', () => {
+      const report = visualReport(ReportStatus.PENDING_REVIEW);
+
+      expect(checkTransition(report, 'REJECT', UserRole.REVIEWER, makeContext({ note: '  ' })).allowed).toBe(false);
+      expect(
+        checkTransition(report, 'REQUEST_REVISION', UserRole.REVIEWER, makeContext({ note: 'Add ridge photos' }))
+          .transition?.to
+      ).toBe(ReportStatus.IN_PROGRESS);
+    });
+
+    it('should require a complete compliance assessment to approve a dispute resolution report', () => {
+      const result = checkTransition(
+        disputeReport(ReportStatus.PENDING_REVIEW),
+        'APPROVE',
+        UserRole.REVIEWER,
+        makeContext({ declarationSigned: false, complianceComplete: false })
+      );
+
+      expect(result.errors).toEqual([
+        'Declaration must be signed',
+        'Compliance assessment is not complete for this inspection type',
+      ]);
+    });
+
+    it('should allow a transition when role and guards pass', () => {
+      const result = checkTransition(visualReport(ReportStatus.APPROVED), 'FINALISE', UserRole.REVIEWER, makeContext());
+
+      expect(result.allowed).toBe(true);
+      expect(result.transition?.auditAction).toBe('FINALISED');
+    });
+  });
+
+  describe('getAvailableActions', () => {
+    it('should list reviewer actions for a pending report', () => {
+      expect(getAvailableActions(ReportStatus.PENDING_REVIEW, UserRole.REVIEWER, InspectionType.VISUAL_ONLY)).toEqual([
+        'APPROVE',
+        'REJECT',
+        'REQUEST_REVISION',
+      ]);
+      expect(getAvailableActions(ReportStatus.PENDING_REVIEW, UserRole.INSPECTOR, InspectionType.VISUAL_ONLY)).toEqual([]);
+    });
+
+    it('should apply per-type role overrides', () => {
+      expect(getAvailableActions(ReportStatus.APPROVED, UserRole.REVIEWER, InspectionType.DISPUTE_RESOLUTION)).toEqual([]);
+      expect(getAvailableActions(ReportStatus.APPROVED, UserRole.ADMIN, InspectionType.DISPUTE_RESOLUTION)).toEqual([
+        'FINALISE',
+      ]);
+    });
+  });
+
+  describe('isReportLocked', () => {
+    it('should lock submitted, approved and finalised reports', () => {
+      expect(isReportLocked(ReportStatus.DRAFT)).toBe(false);
+      expect(isReportLocked(ReportStatus.IN_PROGRESS)).toBe(false);
+      expect(isReportLocked(ReportStatus.PENDING_REVIEW)).toBe(true);
+      expect(isReportLocked(ReportStatus.APPROVED)).toBe(true);
+      expect(isReportLocked(ReportStatus.FINALISED)).toBe(true);
+    });
+  });
+
+  describe('workflowActorFromAuth', () => {
+    it('should map portal account types to workflow roles', () => {
+      expect(workflowActorFromAuth({ sub: 'u1', name: 'Admin', role: 'RANZ_ADMIN' }).role).toBe(UserRole.ADMIN);
+      expect(workflowActorFromAuth({ sub: 'u2', name: 'Staff', role: 'RANZ_STAFF' }).role).toBe(UserRole.REVIEWER);
+      expect(workflowActorFromAuth({ sub: 'u3', name: 'Inspector', role: 'EXTERNAL_INSPECTOR' })).toEqual({
+        id: 'u3',
+        name: 'Inspector',
+        role: UserRole.INSPECTOR,
+      });
+    });
+  });
+});
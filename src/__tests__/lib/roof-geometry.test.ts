@@ -0,0 +1,147 @@
+/**
+ * Unit tests for roof pitch and area calculations.
+ * Tests pitch methods, roof shapes, photo polygon areas and measurement records.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  pitchFromRiseRun,
+  pitchFromInclinometer,
+  calculatePitch,
+  trueAreaFromPlan,
+  roofDimensions,
+  calculateArea,
+  calibratedPolygonAreas,
+  buildRoofMeasurement,
+  parseRoofMeasurement,
+  measurementMatches,
+  measurementJsonFor,
+  describeRoofMeasurement,
+} from '../../lib/roof-geometry';
+
+const NOW = '2026-03-10T01:00:00.000Z';
+
+describe('pitch', () => {
+  it('derives pitch from rise over run', () => {
+    expect(pitchFromRiseRun(1000, 1000)).toBeCloseTo(45);
+    expect(pitchFromRiseRun(0, 1000)).toBe(0);
+    expect(pitchFromRiseRun(300, 0)).toBeNull();
+    expect(pitchFromRiseRun(-1, 1000)).toBeNull();
+  });
+
+  it('normalises inclinometer readings taken either way round', () => {
+    expect(pitchFromInclinometer(20)).toBe(20);
+    expect(pitchFromInclinometer(-20)).toBe(20);
+    expect(pitchFromInclinometer(160)).toBe(20);
+    expect(pitchFromInclinometer(200)).toBe(20);
+  });
+
+  it('keeps the inputs for the chosen method only', () => {
+    const result = calculatePitch({ method: 'RISE_RUN', riseMm: 364, runMm: 1000, inclinometerDegrees: 12 });
+    expect(result).toEqual({
+      success: true,
+      calculation: { method: 'RISE_RUN', riseMm: 364, runMm: 1000, inclinometerDegrees: null, degrees: 20 },
+    });
+  });
+
+  it('rejects missing inputs and wall-like pitches', () => {
+    expect(calculatePitch({ method: 'RISE_RUN', riseMm: 300 }).error).toBe('Enter the rise and run');
+    expect(calculatePitch({ method: 'INCLINOMETER' }).error).toBe('Enter the inclinometer reading');
+    expect(calculatePitch({ method: 'MANUAL', degrees: 80 }).success).toBe(false);
+  });
+});
+
+describe('area', () => {
+  it('converts plan area to roof area', () => {
+    expect(trueAreaFromPlan(100, 0)).toBe(100);
+    expect(trueAreaFromPlan(100, 60)).toBeCloseTo(200);
+  });
+
+  it('works out rafter, ridge and hip lengths by shape', () => {
+    const gable = roofDimensions('GABLE', 12, 8, 30);
+    expect(gable.trueAreaM2).toBeCloseTo(96 / Math.cos(Math.PI / 6));
+    expect(gable.rafterM).toBeCloseTo(4 / Math.cos(Math.PI / 6));
+    expect(gable.ridgeM).toBe(12);
+    expect(gable.hipM).toBeNull();
+
+    const hip = roofDimensions('HIP', 12, 8, 30);
+    expect(hip.trueAreaM2).toBeCloseTo(gable.trueAreaM2);
+    expect(hip.ridgeM).toBe(4);
+    expect(hip.hipM).toBeCloseTo(Math.sqrt(hip.rafterM ** 2 + 16));
+
+    const skillion = roofDimensions('SKILLION', 12, 8, 30);
+    expect(skillion.rafterM).toBeCloseTo(8 / Math.cos(Math.PI / 6));
+  });
+
+  it('needs pitch to convert plan measurements', () => {
+    const result = calculateArea({ method: 'DIMENSIONS', shape: 'GABLE', lengthM: 12, widthM: 8 }, null);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/pitch/);
+  });
+
+  it('records dimensions and the resulting roof area', () => {
+    const result = calculateArea({ method: 'DIMENSIONS', shape: 'HIP', lengthM: 10, widthM: 10 }, 60);
+    expect(result.calculation).toMatchObject({
+      method: 'DIMENSIONS',
+      shape: 'HIP',
+      lengthM: 10,
+      widthM: 10,
+      planAreaM2: 100,
+      trueAreaM2: 200,
+    });
+  });
+
+  it('uses photo polygons as plan or slope area', () => {
+    const polygon = { photoId: 'p1', measurementId: 'm1', areaM2: 50, calibrationReference: 'Brick 230mm' };
+    const plan = calculateArea({ method: 'PHOTO_POLYGON', shape: 'GABLE', polygon, photoPlane: 'PLAN' }, 60);
+    expect(plan.calculation).toMatchObject({ planAreaM2: 50, trueAreaM2: 100, photoId: 'p1', measurementId: 'm1' });
+
+    const slope = calculateArea({ method: 'PHOTO_POLYGON', shape: 'GABLE', polygon, photoPlane: 'SLOPE' }, null);
+    expect(slope.calculation).toMatchObject({ planAreaM2: null, trueAreaM2: 50, photoPlane: 'SLOPE' });
+  });
+});
+
+describe('calibratedPolygonAreas', () => {
+  it('lists calibrated polygons in m²', () => {
+    const photo = {
+      id: 'p1',
+      measurementsJson: JSON.stringify([
+        { id: 'm1', type: 'polygon', points: [], pixelPerimeter: 0, pixelArea: 0, realPerimeter: 1, realArea: 2_500_000 },
+        { id: 'm2', type: 'polygon', points: [], pixelPerimeter: 0, pixelArea: 0, realPerimeter: null, realArea: null },
+        { id: 'm3', type: 'line', start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, pixelLength: 1, realLength: 10 },
+      ]),
+      calibrationJson: JSON.stringify({ pixelsPerMm: 2, referenceDescription: 'Tape 1m' }),
+    };
+    expect(calibratedPolygonAreas(photo)).toEqual([
+      { photoId: 'p1', measurementId: 'm1', areaM2: 2.5, calibrationReference: 'Tape 1m' },
+    ]);
+    expect(calibratedPolygonAreas({ id: 'p2', measurementsJson: '{bad', calibrationJson: null })).toEqual([]);
+  });
+});
+
+describe('measurement records', () => {
+  const pitch = calculatePitch({ method: 'INCLINOMETER', inclinometerDegrees: -60 }).calculation!;
+  const area = calculateArea({ method: 'PLAN_AREA', shape: 'SKILLION', planAreaM2: 40 }, pitch.degrees).calculation!;
+  const record = buildRoofMeasurement(pitch, area, NOW);
+
+  it('round-trips and matches the values it produced', () => {
+    expect(parseRoofMeasurement(JSON.stringify(record))).toEqual(record);
+    expect(parseRoofMeasurement('nope')).toBeNull();
+    expect(measurementMatches(record, 60, 80)).toBe(true);
+    expect(measurementMatches(record, 60, 85)).toBe(false);
+  });
+
+  it('keeps only a record that still explains the values', () => {
+    const json = JSON.stringify(record);
+    expect(measurementJsonFor(60, 80, [null, json])).toBe(json);
+    expect(measurementJsonFor(25, 80, [json])).toBeNull();
+  });
+
+  it('describes how the values were reached', () => {
+    expect(describeRoofMeasurement(record)).toEqual([
+      'Pitch 60° from inclinometer reading -60°',
+      'Area 80 m² for a skillion roof from 40 m² plan area',
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for roof plan geometry and rendering.
+ * Tests plan parsing, pin placement, region lookup, pruning of deleted
+ * defects/elements and the SVG used in report output.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  createEmptyRoofPlan,
+  parseRoofPlan,
+  pointInPolygon,
+  regionAtPoint,
+  pinNearPoint,
+  placePin,
+  addRegion,
+  pruneRoofPlan,
+  renderRoofPlanSvg,
+} from '../../lib/roof-plan';
+import { DefectSeverity, ElementType } from '../../types/shared';
+import type { RoofPlan } from '../../types/shared';
+
+const square = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.9, y: 0.9 },
+  { x: 0.1, y: 0.9 },
+];
+
+function makePlan(): RoofPlan {
+  return {
+    ...createEmptyRoofPlan(),
+    outline: square,
+    regions: [
+      { id: 'r1', elementType: ElementType.ROOF_CLADDING, roofElementId: 'e1', label: null, points: square },
+      {
+        id: 'r2',
+        elementType: ElementType.RIDGE,
+        roofElementId: null,
+        label: 'Main ridge',
+        points: [
+          { x: 0.1, y: 0.45 },
+          { x: 0.9, y: 0.45 },
+          { x: 0.9, y: 0.55 },
+          { x: 0.1, y: 0.55 },
+        ],
+      },
+    ],
+    pins: [{ id: 'p1', defectId: 'd1', x: 0.5, y: 0.5 }],
+  };
+}
+
+describe('Roof Plan', () => {
+  describe('parseRoofPlan', () => {
+    it('should return an empty plan for missing or invalid JSON', () => {
+      expect(parseRoofPlan(null)).toEqual(createEmptyRoofPlan());
+      expect(parseRoofPlan('{not json')).toEqual(createEmptyRoofPlan());
+    });
+
+    it('should drop malformed points and pins', () => {
+      const plan = parseRoofPlan(
+        JSON.stringify({
+          outline: [{ x: 0.1, y: 0.1 }, { x: 'a' }],
+          pins: [{ id: 'p1', defectId: 'd1', x: 0.2, y: 0.2 }, { id: 'p2', x: 0.3, y: 0.3 }],
+        })
+      );
+
+      expect(plan.outline).toEqual([{ x: 0.1, y: 0.1 }]);
+      expect(plan.pins.map((p) => p.id)).toEqual(['p1']);
+      expect(plan.northBearing).toBeNull();
+    });
+  });
+
+  describe('geometry', () => {
+    it('should test points against a polygon', () => {
+      expect(pointInPolygon({ x: 0.5, y: 0.5 }, square)).toBe(true);
+      expect(pointInPolygon({ x: 0.05, y: 0.5 }, square)).toBe(false);
+      expect(pointInPolygon({ x: 0.5, y: 0.5 }, square.slice(0, 2))).toBe(false);
+    });
+
+    it('should return the topmost region at a point', () => {
+      const plan = makePlan();
+
+      expect(regionAtPoint(plan, { x: 0.5, y: 0.5 })?.id).toBe('r2');
+      expect(regionAtPoint(plan, { x: 0.5, y: 0.2 })?.id).toBe('r1');
+      expect(regionAtPoint(plan, { x: 0.95, y: 0.95 })).toBeNull();
+    });
+
+    it('should find the nearest pin within the tap radius', () => {
+      const plan = makePlan();
+
+      expect(pinNearPoint(plan, { x: 0.52, y: 0.51 })?.id).toBe('p1');
+      expect(pinNearPoint(plan, { x: 0.7, y: 0.7 })).toBeNull();
+    });
+  });
+
+  describe('editing', () => {
+    it('should keep one pin per defect and clamp it to the sketch', () => {
+      const plan = placePin(makePlan(), { id: 'p2', defectId: 'd1', x: 1.4, y: -0.2 });
+
+      expect(plan.pins).toEqual([{ id: 'p2', defectId: 'd1', x: 1, y: 0 }]);
+    });
+
+    it('should ignore regions with fewer than three points', () => {
+      const plan = makePlan();
+      const next = addRegion(plan, {
+        id: 'r3',
+        elementType: ElementType.VALLEY,
+        roofElementId: null,
+        label: null,
+        points: square.slice(0, 2),
+      });
+
+      expect(next).toBe(plan);
+    });
+
+    it('should drop pins for deleted defects and unlink deleted elements', () => {
+      const pruned = pruneRoofPlan(makePlan(), ['d2'], []);
+
+      expect(pruned.pins).toEqual([]);
+      expect(pruned.regions[0].roofElementId).toBeNull();
+      expect(pruned.regions).toHaveLength(2);
+    });
+  });
+
+  describe('renderRoofPlanSvg', () => {
+    it('should number pins by defect number and label regions', () => {
+      const svg = renderRoofPlanSvg(makePlan(), [
+        { id: 'd1', defectNumber: 7, severity: DefectSeverity.HIGH },
+      ], 100);
+
+      expect(svg.startsWith('<svg')).toBe(true);
+      expect(svg).toContain('>7</text>');
+      expect(svg).toContain('fill="#f97316"');
+      expect(svg).toContain('Main ridge');
+      expect(svg).toContain('ROOF CLADDING');
+    });
+
+    it('should skip pins whose defect is not supplied', () => {
+      const svg = renderRoofPlanSvg(makePlan(), [], 100);
+
+      expect(svg).not.toContain('<circle');
+    });
+
+    it('should escape region labels', () => {
+      const plan = makePlan();
+      plan.regions[1].label = 'Ridge <north> & "east"';
+
+      expect(renderRoofPlanSvg(plan, [], 100)).toContain('Ridge &lt;north&gt; &amp; &quot;east&quot;');
+    });
+  });
+});
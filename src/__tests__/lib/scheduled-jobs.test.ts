@@ -0,0 +1,213 @@
+/**
+ * Unit tests for scheduled job helpers.
+ * Tests agenda grouping, download merging, report pre-fill and input validation.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  groupJobsForAgenda,
+  canStartJob,
+  localJobFromServer,
+  resolveUnlistedJob,
+  reportFromJob,
+  validateJobInput,
+} from '../../lib/scheduled-jobs';
+import type { LocalScheduledJob, LocalTemplate } from '../../types/database';
+import { InspectionType, PropertyType, type ScheduledJob, type ScheduledJobInput } from '../../types/shared';
+
+const serverJob: ScheduledJob = {
+  id: 'job-1',
+  status: 'SCHEDULED',
+  propertyAddress: '12 Kowhai Road',
+  propertyCity: 'Hamilton',
+  propertyRegion: 'Waikato',
+  propertyPostcode: '3204',
+  propertyType: PropertyType.RESIDENTIAL_1,
+  clientName: 'Mere Tane',
+  clientEmail: 'mere@example.co.nz',
+  clientPhone: null,
+  inspectionType: InspectionType.PRE_PURCHASE,
+  templateId: 'tpl-1',
+  dueDate: '2026-03-10T21:00:00.000Z',
+  assignedInspectorId: 'u1',
+  assignedInspectorName: 'Aroha',
+  notes: 'Key in lockbox',
+  reportId: null,
+  createdAt: '2026-03-01T00:00:00.000Z',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+};
+
+const localJob = (overrides: Partial<LocalScheduledJob> = {}): LocalScheduledJob => ({
+  ...serverJob,
+  downloadedAt: '2026-03-02T00:00:00.000Z',
+  ...overrides,
+});
+
+// Local-time dates so grouping matches the device's day wherever the tests run
+const at = (day: number, hour: number) => new Date(2026, 2, day, hour, 0).toISOString();
+
+describe('groupJobsForAgenda', () => {
+  const now = new Date(2026, 2, 10, 12, 0);
+
+  it('groups open jobs by local day, soonest first', () => {
+    const sections = groupJobsForAgenda(
+      [
+        localJob({ id: 'later', dueDate: at(25, 9) }),
+        localJob({ id: 'today-pm', dueDate: at(10, 15) }),
+        localJob({ id: 'overdue', dueDate: at(9, 23) }),
+        localJob({ id: 'today-am', dueDate: at(10, 8) }),
+        localJob({ id: 'tomorrow', dueDate: at(11, 9) }),
+        localJob({ id: 'week', dueDate: at(17, 9) }),
+      ],
+      now
+    );
+
+    expect(sections.map((s) => [s.key, s.jobs.map((j) => j.id)])).toEqual([
+      ['OVERDUE', ['overdue']],
+      ['TODAY', ['today-am', 'today-pm']],
+      ['TOMORROW', ['tomorrow']],
+      ['THIS_WEEK', ['week']],
+      ['LATER', ['later']],
+    ]);
+  });
+
+  it('leaves out closed jobs and empty sections', () => {
+    const sections = groupJobsForAgenda(
+      [
+        localJob({ id: 'done', status: 'COMPLETED', dueDate: at(10, 9) }),
+        localJob({ id: 'started', status: 'IN_PROGRESS', reportId: 'r1', dueDate: at(10, 9) }),
+      ],
+      now
+    );
+    expect(sections).toHaveLength(1);
+    expect(sections[0].title).toBe('Today');
+    expect(sections[0].jobs[0].id).toBe('started');
+  });
+});
+
+describe('canStartJob', () => {
+  it('allows scheduled jobs and started jobs with a report', () => {
+    expect(canStartJob({ status: 'SCHEDULED', reportId: null })).toBe(true);
+    expect(canStartJob({ status: 'IN_PROGRESS', reportId: 'r1' })).toBe(true);
+    expect(canStartJob({ status: 'IN_PROGRESS', reportId: null })).toBe(false);
+    expect(canStartJob({ status: 'CANCELLED', reportId: null })).toBe(false);
+  });
+});
+
+describe('localJobFromServer', () => {
+  const now = '2026-03-05T00:00:00.000Z';
+
+  it('maps a new job', () => {
+    const job = localJobFromServer(serverJob, null, now);
+    expect(job.status).toBe('SCHEDULED');
+    expect(job.reportId).toBeNull();
+    expect(job.downloadedAt).toBe(now);
+  });
+
+  it('keeps a locally started job in progress until the server catches up', () => {
+    const existing = localJob({ status: 'IN_PROGRESS', reportId: 'local_1' });
+    const job = localJobFromServer({ ...serverJob, notes: 'Updated notes' }, existing, now);
+    expect(job.status).toBe('IN_PROGRESS');
+    expect(job.reportId).toBe('local_1');
+    expect(job.notes).toBe('Updated notes');
+  });
+
+  it('prefers the server report link when it has one', () => {
+    const existing = localJob({ status: 'IN_PROGRESS', reportId: 'local_1' });
+    const job = localJobFromServer({ ...serverJob, status: 'COMPLETED', reportId: 'srv-9' }, existing, now);
+    expect(job.status).toBe('COMPLETED');
+    expect(job.reportId).toBe('srv-9');
+  });
+});
+
+describe('resolveUnlistedJob', () => {
+  it('deletes unstarted jobs and completes started ones', () => {
+    expect(resolveUnlistedJob(localJob())).toBe('delete');
+    expect(resolveUnlistedJob(localJob({ reportId: 'local_1' }))).toBe('complete');
+  });
+});
+
+describe('reportFromJob', () => {
+  const template: LocalTemplate = {
+    id: 'tpl-1',
+    name: 'Pre-purchase',
+    description: null,
+    inspectionType: InspectionType.PRE_PURCHASE,
+    sectionsJson: JSON.stringify(['Roof cladding', 'Flashings']),
+    checklistsJson: null,
+    isDefault: false,
+    downloadedAt: '2026-03-01T00:00:00.000Z',
+  };
+
+  it('pre-fills property and client details as a draft', () => {
+    const report = reportFromJob(localJob(), { id: 'local_1', inspectorId: 'u1', now: '2026-03-10T22:00:00.000Z' });
+    expect(report).toMatchObject({
+      id: 'local_1',
+      propertyAddress: '12 Kowhai Road',
+      propertyRegion: 'Waikato',
+      clientName: 'Mere Tane',
+      inspectionType: InspectionType.PRE_PURCHASE,
+      inspectorId: 'u1',
+      syncStatus: 'draft',
+      scopeOfWorksJson: null,
+    });
+  });
+
+  it('leaves details the job does not know blank instead of inventing them', () => {
+    const report = reportFromJob(localJob({ propertyRegion: null, propertyPostcode: null }), {
+      id: 'local_1',
+      inspectorId: 'u1',
+      now: '2026-03-10T22:00:00.000Z',
+    });
+    expect(report).toMatchObject({
+      propertyRegion: '',
+      propertyPostcode: '',
+      weatherConditions: null,
+      accessMethod: null,
+    });
+  });
+
+  it('seeds the scope of works from the template', () => {
+    const report = reportFromJob(localJob({ propertyRegion: null }), {
+      id: 'local_1',
+      inspectorId: 'u1',
+      now: '2026-03-10T22:00:00.000Z',
+      template,
+    });
+    expect(report.propertyRegion).toBe('');
+    expect(JSON.parse(report.scopeOfWorksJson!)).toEqual({
+      templateId: 'tpl-1',
+      templateName: 'Pre-purchase',
+      sections: ['Roof cladding', 'Flashings'],
+    });
+  });
+});
+
+describe('validateJobInput', () => {
+  const input: ScheduledJobInput = {
+    propertyAddress: '12 Kowhai Road',
+    propertyCity: 'Hamilton',
+    propertyRegion: null,
+    propertyPostcode: null,
+    propertyType: null,
+    clientName: 'Mere Tane',
+    clientEmail: null,
+    clientPhone: null,
+    inspectionType: InspectionType.FULL_INSPECTION,
+    templateId: null,
+    dueDate: '2026-03-10T21:00:00.000Z',
+    assignedInspectorId: 'u1',
+    notes: null,
+  };
+
+  it('accepts a complete job', () => {
+    expect(validateJobInput(input)).toBeNull();
+  });
+
+  it('reports the first missing field', () => {
+    expect(validateJobInput({ ...input, propertyAddress: '  ' })).toBe('Property address is required');
+    expect(validateJobInput({ ...input, assignedInspectorId: '' })).toBe('Assign an inspector');
+    expect(validateJobInput({ ...input, dueDate: '' })).toBe('Enter a valid due date');
+  });
+});
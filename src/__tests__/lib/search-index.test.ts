@@ -0,0 +1,210 @@
+/**
+ * Unit tests for the full-text search index.
+ * Tests query building, highlight parsing and result routing, and runs the
+ * generated triggers and rebuild against the real schema in sql.js.
+ *
+ * sql.js is built without FTS5, so an ordinary table with the same columns
+ * stands in for the index; ranking and MATCH are left to the device.
+ */
+
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  SEARCH_INDEX_TABLE,
+  buildMatchQuery,
+  dateRangeForPreset,
+  parseHighlights,
+  rebuildSearchIndex,
+  searchResultTarget,
+  searchTriggerSql,
+  type SearchResult,
+} from '../../lib/search-index';
+import { CREATE_TABLES_SQL, type MigrationDatabase } from '../../types/database';
+import { ReportStatus } from '../../types/shared';
+
+// jest-expo defines window, which breaks the wasm build's file system; the asm.js build is identical SQLite
+jest.mock('sql.js', () => jest.requireActual('sql.js/dist/sql-asm.js'));
+
+const NOW = '2026-03-10T00:00:00.000Z';
+
+function adapt(db: Database): MigrationDatabase {
+  const all = <T>(source: string, params: (string | number | null)[] = []): T[] => {
+    const stmt = db.prepare(source);
+    stmt.bind(params);
+    const rows: T[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject() as T);
+    stmt.free();
+    return rows;
+  };
+
+  return {
+    execAsync: async (source) => {
+      db.exec(source);
+    },
+    runAsync: async (source, params) => {
+      db.run(source, params);
+      return { changes: db.getRowsModified() };
+    },
+    getFirstAsync: async <T>(source: string, params: (string | number | null)[]) => all<T>(source, params)[0] ?? null,
+    getAllAsync: async <T>(source: string, params: (string | number | null)[]) => all<T>(source, params),
+  };
+}
+
+describe('buildMatchQuery', () => {
+  it('requires every word as a quoted prefix', () => {
+    expect(buildMatchQuery('Rusty  flashing')).toBe('"rusty"* "flashing"*');
+  });
+
+  it('drops FTS syntax and duplicate words', () => {
+    expect(buildMatchQuery('ridge OR "cap" -ridge NEAR(x)')).toBe('"ridge"* "or"* "cap"* "near"* "x"*');
+    expect(buildMatchQuery('  *: ')).toBeNull();
+  });
+});
+
+describe('dateRangeForPreset', () => {
+  it('bounds inspection dates up to today', () => {
+    const now = new Date(NOW);
+    expect(dateRangeForPreset('any', now)).toEqual({ dateFrom: null, dateTo: null });
+    expect(dateRangeForPreset('30d', now)).toEqual({ dateFrom: '2026-02-08', dateTo: '2026-03-10' });
+    expect(dateRangeForPreset('12m', now)).toEqual({ dateFrom: '2025-03-10', dateTo: '2026-03-10' });
+  });
+});
+
+describe('parseHighlights', () => {
+  it('splits matched and plain text', () => {
+    expect(parseHighlights(`Rust at ${HIGHLIGHT_START}ridge${HIGHLIGHT_END} cap`)).toEqual([
+      { text: 'Rust at ', match: false },
+      { text: 'ridge', match: true },
+      { text: ' cap', match: false },
+    ]);
+    expect(parseHighlights('')).toEqual([]);
+  });
+});
+
+describe('searchResultTarget', () => {
+  const result = (overrides: Partial<SearchResult>): SearchResult => ({
+    entityType: 'report',
+    entityId: 'r1',
+    reportId: 'r1',
+    defectId: null,
+    roofElementId: null,
+    title: '',
+    snippet: '',
+    rank: 0,
+    reportNumber: null,
+    propertyAddress: '1 Queen St',
+    reportStatus: ReportStatus.DRAFT,
+    inspectionDate: NOW,
+    ...overrides,
+  });
+
+  it('opens the matching entity', () => {
+    expect(searchResultTarget(result({}))).toEqual({ pathname: '/(main)/report-detail/[id]', params: { id: 'r1' } });
+    expect(searchResultTarget(result({ entityType: 'defect', entityId: 'd1', defectId: 'd1' }))).toEqual({
+      pathname: '/(main)/defects/[id]',
+      params: { id: 'd1', reportId: 'r1' },
+    });
+    expect(searchResultTarget(result({ entityType: 'compliance', entityId: 'c1' })).params).toEqual({ reportId: 'r1' });
+  });
+
+  it('opens captions and transcripts on their defect or element', () => {
+    expect(searchResultTarget(result({ entityType: 'photo', entityId: 'p1', defectId: 'd1' })).params.id).toBe('d1');
+    expect(searchResultTarget(result({ entityType: 'voice_note', entityId: 'v1', roofElementId: 'e1' })).pathname).toBe(
+      '/(main)/elements/[id]'
+    );
+    expect(searchResultTarget(result({ entityType: 'voice_note', entityId: 'v1' })).pathname).toBe(
+      '/(main)/report-detail/[id]'
+    );
+  });
+});
+
+describe('index maintenance', () => {
+  let raw: Database;
+  let db: MigrationDatabase;
+
+  const entries = () =>
+    raw.exec(`SELECT entity_type, entity_id, title, body FROM ${SEARCH_INDEX_TABLE} ORDER BY entity_type, entity_id`)[0]
+      ?.values ?? [];
+
+  const insertReport = (id: string, address: string) =>
+    raw.run(
+      `INSERT OR REPLACE INTO reports (id, report_number, property_address, property_city, property_region,
+         property_postcode, property_type, inspection_date, inspection_type, client_name, created_at, updated_at)
+       VALUES (?, 'RANZ-1', ?, 'Auckland', 'Auckland', '1010', 'RESIDENTIAL_1', ?, 'FULL_INSPECTION', 'Jo Client', ?, ?)`,
+      [id, address, NOW, NOW, NOW]
+    );
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    raw = new SQL.Database();
+    db = adapt(raw);
+    raw.exec(CREATE_TABLES_SQL);
+    raw.exec(
+      `CREATE TABLE ${SEARCH_INDEX_TABLE} (title, body, entity_type, entity_id, report_id, defect_id, roof_element_id)`
+    );
+    await db.execAsync(searchTriggerSql());
+  });
+
+  it('indexes rows as they are saved and replaced', () => {
+    insertReport('r1', '1 Queen St');
+    insertReport('r1', '2 King St');
+    expect(entries()).toEqual([['report', 'r1', 'RANZ-1 2 King St', '2 King St Auckland Auckland 1010 Jo Client ']]);
+  });
+
+  it('skips empty captions and follows edits', () => {
+    insertReport('r1', '1 Queen St');
+    raw.run(
+      `INSERT INTO photos (id, report_id, defect_id, local_uri, filename, original_filename, mime_type, file_size,
+         photo_type, captured_at, original_hash, created_at)
+       VALUES ('p1', 'r1', 'd1', 'file://p1.jpg', 'p1.jpg', 'p1.jpg', 'image/jpeg', 1, 'OVERVIEW', ?, 'h', ?)`,
+      [NOW, NOW]
+    );
+    expect(entries().filter(([type]) => type === 'photo')).toEqual([]);
+
+    raw.run(`UPDATE photos SET caption = 'Cracked ridge tile' WHERE id = 'p1'`);
+    expect(entries().filter(([type]) => type === 'photo')).toEqual([['photo', 'p1', 'Photo', 'Cracked ridge tile']]);
+
+    // Sync bookkeeping does not touch the index
+    raw.run(`UPDATE photos SET sync_status = 'synced' WHERE id = 'p1'`);
+    expect(entries().filter(([type]) => type === 'photo')).toHaveLength(1);
+  });
+
+  it('removes a report and everything under it', () => {
+    insertReport('r1', '1 Queen St');
+    raw.run(
+      `INSERT INTO defects (id, report_id, defect_number, title, description, location, classification, severity,
+         observation, created_at, updated_at)
+       VALUES ('d1', 'r1', 1, 'Loose sheet', 'x', 'North face', 'MINOR_DEFECT', 'LOW', 'Sheet lifting', ?, ?)`,
+      [NOW, NOW]
+    );
+    expect(entries().map(([type]) => type)).toEqual(['defect', 'report']);
+
+    raw.run(`DELETE FROM reports WHERE id = 'r1'`);
+    expect(entries()).toEqual([]);
+  });
+
+  it('drops rows deleted on the device before they are purged', async () => {
+    insertReport('r1', '1 Queen St');
+    raw.run(
+      `INSERT INTO defects (id, report_id, defect_number, title, description, location, classification, severity,
+         observation, created_at, updated_at)
+       VALUES ('d1', 'r1', 1, 'Loose sheet', 'x', 'North face', 'MINOR_DEFECT', 'LOW', 'Sheet lifting', ?, ?)`,
+      [NOW, NOW]
+    );
+
+    raw.run(`UPDATE defects SET deleted_at = ? WHERE id = 'd1'`, [NOW]);
+    expect(entries().map(([type]) => type)).toEqual(['report']);
+
+    await rebuildSearchIndex(db);
+    expect(entries().map(([type]) => type)).toEqual(['report']);
+  });
+
+  it('rebuilds from the source tables', async () => {
+    insertReport('r1', '1 Queen St');
+    raw.run(`DELETE FROM ${SEARCH_INDEX_TABLE}`);
+    await rebuildSearchIndex(db);
+    expect(entries().map(([type, id]) => `${type}:${id}`)).toEqual(['report:r1']);
+  });
+});
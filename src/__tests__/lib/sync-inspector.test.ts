@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the sync queue inspector.
+ * Tests item building for queue rows and media, ordering, available
+ * actions and the audit details recorded for manual repairs.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import { REDACTED } from '../../lib/log-store';
+import {
+  availableActions,
+  deferUntil,
+  inspectorExportFilename,
+  inspectorItemExport,
+  inspectorItemFromMedia,
+  inspectorItemFromQueue,
+  isDeferred,
+  repairAuditDetails,
+  sortInspectorItems,
+  type InspectableMedia,
+} from '../../lib/sync-inspector';
+import type { LocalSyncQueue } from '../../types/database';
+
+const POLICY = { maxAttempts: 5, failedStatus: 'permanently_failed' };
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const queueItem = (overrides: Partial<LocalSyncQueue> = {}): LocalSyncQueue => ({
+  id: 7,
+  entityType: 'defect',
+  entityId: 'd1',
+  operation: 'delete',
+  payloadJson: JSON.stringify({ reportId: 'r1', clientEmail: 'jo@example.com' }),
+  createdAt: '2026-03-10T09:00:00.000Z',
+  attemptCount: 2,
+  lastError: 'Timeout',
+  idempotencyKey: 'defect:d1:delete:1',
+  nextAttemptAt: null,
+  ...overrides,
+});
+
+const photo = (overrides: Partial<InspectableMedia> = {}): InspectableMedia => ({
+  id: 'p1',
+  reportId: 'r1',
+  filename: 'IMG_0001.jpg',
+  mimeType: 'image/jpeg',
+  fileSize: 2048,
+  originalHash: 'abc123',
+  syncStatus: 'error',
+  lastSyncError: 'Upload failed',
+  createdAt: '2026-03-10T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('inspectorItemFromQueue', () => {
+  it('shows attempts, key, report and a redacted payload', () => {
+    const item = inspectorItemFromQueue(queueItem(), POLICY);
+    expect(item).toMatchObject({
+      key: 'queue:7',
+      kind: 'queue',
+      id: '7',
+      reportId: 'r1',
+      label: 'delete defect',
+      attemptCount: 2,
+      lastError: 'Timeout',
+      idempotencyKey: 'defect:d1:delete:1',
+      failed: false,
+    });
+    expect(item.payloadPreview).toBe(`{"reportId":"r1","clientEmail":"${REDACTED}"}`);
+  });
+
+  it('flags permanently failed rows', () => {
+    const item = inspectorItemFromQueue(queueItem({ operation: 'suspend_user:permanently_failed' }), POLICY);
+    expect(item.failed).toBe(true);
+    expect(item.label).toBe('suspend user defect');
+  });
+});
+
+describe('inspectorItemFromMedia', () => {
+  it('takes attempts and deferral from the media sync state', () => {
+    const item = inspectorItemFromMedia('photo', photo(), {
+      entityType: 'photo',
+      entityId: 'p1',
+      attemptCount: 3,
+      deferredUntil: '2026-03-10T13:00:00.000Z',
+      updatedAt: '2026-03-10T11:00:00.000Z',
+    });
+    expect(item).toMatchObject({
+      key: 'photo:p1',
+      label: 'Photo IMG_0001.jpg',
+      attemptCount: 3,
+      idempotencyKey: null,
+      deferredUntil: '2026-03-10T13:00:00.000Z',
+      failed: true,
+    });
+    expect(JSON.parse(item.payloadPreview)).toEqual({
+      reportId: 'r1',
+      filename: 'IMG_0001.jpg',
+      mimeType: 'image/jpeg',
+      fileSize: 2048,
+      originalHash: 'abc123',
+    });
+  });
+
+  it('defaults to no attempts when nothing has failed yet', () => {
+    const item = inspectorItemFromMedia('voice_note', photo({ syncStatus: 'draft', lastSyncError: null }));
+    expect(item).toMatchObject({ attemptCount: 0, deferredUntil: null, failed: false });
+  });
+});
+
+describe('ordering and actions', () => {
+  it('puts failed items first and deferred items last', () => {
+    const failed = inspectorItemFromMedia('photo', photo());
+    const waiting = inspectorItemFromQueue(queueItem(), POLICY);
+    const deferred = inspectorItemFromQueue(
+      queueItem({ id: 8, createdAt: '2026-03-10T07:00:00.000Z', nextAttemptAt: deferUntil(NOW, 1) }),
+      POLICY
+    );
+    const lapsed = inspectorItemFromQueue(
+      queueItem({ id: 9, createdAt: '2026-03-10T10:00:00.000Z', nextAttemptAt: '2026-03-10T11:00:00.000Z' }),
+      POLICY
+    );
+
+    expect(isDeferred(deferred, NOW)).toBe(true);
+    expect(isDeferred(lapsed, NOW)).toBe(false);
+    expect(sortInspectorItems([deferred, lapsed, waiting, failed], NOW).map((item) => item.key)).toEqual([
+      'photo:p1',
+      'queue:7',
+      'queue:9',
+      'queue:8',
+    ]);
+  });
+
+  it('only offers re-queue for queue rows', () => {
+    expect(availableActions(inspectorItemFromQueue(queueItem(), POLICY))).toContain('requeue');
+    expect(availableActions(inspectorItemFromMedia('video', photo()))).toEqual(['retry', 'defer', 'export']);
+  });
+
+  it('defers by whole hours', () => {
+    expect(deferUntil(NOW, 24)).toBe('2026-03-11T12:00:00.000Z');
+  });
+});
+
+describe('audit and export', () => {
+  it('records the item before the change plus what changed', () => {
+    const item = inspectorItemFromQueue(queueItem({ lastError: 'Rejected for jo@example.com' }), POLICY);
+    expect(JSON.parse(repairAuditDetails('requeue', item, { newIdempotencyKey: 'defect:d1:delete:2' }))).toEqual({
+      action: 'requeue',
+      kind: 'queue',
+      entityType: 'defect',
+      entityId: 'd1',
+      status: 'delete',
+      attemptCount: 2,
+      lastError: `Rejected for ${REDACTED}`,
+      idempotencyKey: 'defect:d1:delete:1',
+      newIdempotencyKey: 'defect:d1:delete:2',
+    });
+  });
+
+  it('writes the item and its stored row', () => {
+    const item = inspectorItemFromMedia('voice_note', photo());
+    const exported = JSON.parse(inspectorItemExport(item, { id: 'p1' }, NOW.toISOString()));
+    expect(exported).toMatchObject({ format: 'ranz-sync-item', formatVersion: 1, raw: { id: 'p1' } });
+    expect(exported.item.key).toBe('voice_note:p1');
+    expect(inspectorExportFilename(item, NOW)).toBe(`sync_voice_note_p1_${NOW.getTime()}.json`);
+  });
+
+  it('redacts the stored row and its payload', () => {
+    const row = queueItem({ lastError: 'Rejected for jo@example.com' });
+    const exported = JSON.parse(
+      inspectorItemExport(inspectorItemFromQueue(row, POLICY), row, NOW.toISOString())
+    );
+    expect(exported.raw.lastError).toBe(`Rejected for ${REDACTED}`);
+    expect(JSON.parse(exported.raw.payloadJson)).toEqual({ reportId: 'r1', clientEmail: REDACTED });
+    expect(exported.item.lastError).toBe(`Rejected for ${REDACTED}`);
+    expect(JSON.stringify(exported)).not.toContain('jo@example.com');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the three-way field merge.
+ * Tests that one-sided changes auto-resolve and only fields changed
+ * differently on both sides are reported as conflicts.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  threeWayMerge,
+  applyFieldResolutions,
+  valuesEqual,
+  pickMergeFields,
+  MERGE_FIELDS,
+} from '../../lib/three-way-merge';
+
+const FIELDS = ['title', 'observation', 'analysis', 'opinion'];
+
+const base = {
+  title: 'Corroded flashing',
+  observation: 'Rust at apron flashing',
+  analysis: null,
+  opinion: null,
+};
+
+describe('Three-Way Merge', () => {
+  describe('threeWayMerge', () => {
+    it('should take fields changed only on the device', () => {
+      const local = { ...base, observation: 'Rust and pinholes at apron flashing' };
+      const server = { ...base };
+
+      const result = threeWayMerge(base, local, server, FIELDS);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged.observation).toBe('Rust and pinholes at apron flashing');
+      expect(result.autoResolved).toEqual([{ field: 'observation', source: 'local' }]);
+    });
+
+    it('should take fields changed only on the server', () => {
+      const local = { ...base };
+      const server = { ...base, opinion: 'Replace flashing' };
+
+      const result = threeWayMerge(base, local, server, FIELDS);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged.opinion).toBe('Replace flashing');
+      expect(result.autoResolved).toEqual([{ field: 'opinion', source: 'server' }]);
+    });
+
+    it('should combine changes to different fields from both sides', () => {
+      const local = { ...base, analysis: 'Lack of separation from dissimilar metal' };
+      const server = { ...base, title: 'Corroded apron flashing' };
+
+      const result = threeWayMerge(base, local, server, FIELDS);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged).toMatchObject({
+        title: 'Corroded apron flashing',
+        analysis: 'Lack of separation from dissimilar metal',
+      });
+    });
+
+    it('should report a conflict when both sides change a field differently', () => {
+      const local = { ...base, opinion: 'Repair' };
+      const server = { ...base, opinion: 'Replace' };
+
+      const result = threeWayMerge(base, local, server, FIELDS);
+
+      expect(result.conflicts).toEqual([
+        { field: 'opinion', baseValue: null, localValue: 'Repair', serverValue: 'Replace' },
+      ]);
+      // Local value kept until resolved
+      expect(result.merged.opinion).toBe('Repair');
+    });
+
+    it('should not conflict when both sides make the same change', () => {
+      const local = { ...base, opinion: 'Replace' };
+      const server = { ...base, opinion: 'Replace' };
+
+      const result = threeWayMerge(base, local, server, FIELDS);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.autoResolved).toEqual([]);
+    });
+
+    it('should treat every differing field as a conflict without a base', () => {
+      const local = { ...base, title: 'A', opinion: 'Repair' };
+      const server = { ...base, title: 'B' };
+
+      const result = threeWayMerge(null, local, server, FIELDS);
+
+      expect(result.conflicts.map((c) => c.field)).toEqual(['title', 'opinion']);
+    });
+
+    it('should compare JSON fields regardless of key order', () => {
+      const jsonBase = { findings: { a: 1, b: 2 } };
+      const local = { findings: { b: 2, a: 1 } };
+      const server = { findings: { a: 1, b: 3 } };
+
+      const result = threeWayMerge(jsonBase, local, server, ['findings']);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged.findings).toEqual({ a: 1, b: 3 });
+    });
+  });
+
+  describe('applyFieldResolutions', () => {
+    it('should apply per-field choices', () => {
+      const local = { ...base, title: 'Local title', opinion: 'Repair' };
+      const server = { ...base, title: 'Server title', opinion: 'Replace' };
+      const { merged, conflicts } = threeWayMerge(base, local, server, FIELDS);
+
+      const resolved = applyFieldResolutions(merged, conflicts, {
+        title: 'keep_local',
+        opinion: 'keep_server',
+      });
+
+      expect(resolved.title).toBe('Local title');
+      expect(resolved.opinion).toBe('Replace');
+    });
+
+    it('should default unanswered fields to the server value', () => {
+      const local = { ...base, opinion: 'Repair' };
+      const server = { ...base, opinion: 'Replace' };
+      const { merged, conflicts } = threeWayMerge(base, local, server, FIELDS);
+
+      expect(applyFieldResolutions(merged, conflicts, {}).opinion).toBe('Replace');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should treat null and undefined as equal', () => {
+      expect(valuesEqual(null, undefined)).toBe(true);
+      expect(valuesEqual('', null)).toBe(false);
+    });
+
+    it('should pick only mergeable fields', () => {
+      const snapshot = pickMergeFields('element', {
+        elementType: 'RIDGE',
+        location: 'North',
+        syncStatus: 'pending',
+      });
+
+      expect(Object.keys(snapshot)).toEqual([...MERGE_FIELDS.element]);
+      expect(snapshot).not.toHaveProperty('syncStatus');
+      expect(snapshot.material).toBeNull();
+    });
+  });
+});
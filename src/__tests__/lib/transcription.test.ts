@@ -0,0 +1,110 @@
+/**
+ * Unit tests for voice note transcription.
+ * Tests retry backoff, transcript tidying and hashing input, field insertion, search and the stub engine.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  MAX_TRANSCRIPTION_ATTEMPTS,
+  createStubTranscriptionEngine,
+  insertTranscript,
+  nextRetry,
+  normaliseTranscript,
+  retryDelayMs,
+  searchTranscripts,
+  transcriptHashInput,
+  type TranscriptSource,
+} from '../../lib/transcription';
+
+const note = (id: string, transcription: string | null, recordedAt = '2026-03-10T00:00:00.000Z'): TranscriptSource => ({
+  id,
+  reportId: 'r1',
+  defectId: null,
+  roofElementId: null,
+  recordedAt,
+  transcription,
+});
+
+describe('retries', () => {
+  it('backs off and caps the delay', () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(120_000);
+    expect(retryDelayMs(10)).toBe(30 * 60 * 1000);
+  });
+
+  it('schedules the next attempt until attempts run out', () => {
+    const now = new Date('2026-03-10T00:00:00.000Z');
+    expect(nextRetry(1, now)).toEqual({
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: '2026-03-10T00:00:30.000Z',
+    });
+    expect(nextRetry(MAX_TRANSCRIPTION_ATTEMPTS, now)).toEqual({
+      status: 'failed',
+      attempts: MAX_TRANSCRIPTION_ATTEMPTS,
+      nextAttemptAt: null,
+    });
+  });
+});
+
+describe('transcripts', () => {
+  it('tidies engine output', () => {
+    expect(normaliseTranscript('  cracked   ridge cap\n near flashing ')).toBe('Cracked ridge cap near flashing.');
+    expect(normaliseTranscript('Rust on fixings?')).toBe('Rust on fixings?');
+    expect(normaliseTranscript('   ')).toBe('');
+  });
+
+  it('ties the hash input to the recording', () => {
+    expect(transcriptHashInput('abc123', 'Loose sheet.')).toBe('abc123\nLoose sheet.');
+    expect(transcriptHashInput('other', 'Loose sheet.')).not.toBe(transcriptHashInput('abc123', 'Loose sheet.'));
+  });
+
+  it('inserts after existing field text', () => {
+    expect(insertTranscript('', 'Loose sheet.')).toBe('Loose sheet.');
+    expect(insertTranscript('Ponding at gutter.  \n', 'Loose sheet.')).toBe('Ponding at gutter.\n\nLoose sheet.');
+  });
+});
+
+describe('searchTranscripts', () => {
+  const notes = [
+    note('a', 'Rust on the valley gutter. Rust spreading to fixings.', '2026-03-10T01:00:00.000Z'),
+    note('b', 'Valley flashing lifted.', '2026-03-10T02:00:00.000Z'),
+    note('c', 'Valley rust near the downpipe.', '2026-03-10T03:00:00.000Z'),
+    note('d', null),
+  ];
+
+  it('requires every term and ranks by occurrences, then newest', () => {
+    expect(searchTranscripts(notes, 'valley rust').map((match) => match.note.id)).toEqual(['a', 'c']);
+    expect(searchTranscripts(notes, 'valley').map((match) => match.note.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('matches word prefixes only', () => {
+    expect(searchTranscripts(notes, 'flash').map((match) => match.note.id)).toEqual(['b']);
+    expect(searchTranscripts(notes, 'ashing')).toEqual([]);
+    expect(searchTranscripts(notes, '  ')).toEqual([]);
+  });
+
+  it('returns a snippet around the first term', () => {
+    const long = note('e', `${'Start of the inspection walk. '.repeat(3)}Cracked tile by the chimney. ${'More notes follow here. '.repeat(3)}`);
+    const [match] = searchTranscripts([long], 'chimney');
+    expect(match.snippet).toContain('chimney');
+    expect(match.snippet.startsWith('…')).toBe(true);
+    expect(match.snippet.endsWith('…')).toBe(true);
+  });
+});
+
+describe('createStubTranscriptionEngine', () => {
+  it('returns fixed or derived text and reports progress', async () => {
+    const progress: number[] = [];
+    const input = { voiceNoteId: 'v1', localUri: 'file://v1.m4a', mimeType: 'audio/m4a', durationMs: 1000, originalHash: 'h' };
+
+    const fixed = createStubTranscriptionEngine('Loose sheet');
+    expect(fixed.id).toBe('stub');
+    expect(await fixed.transcribe(input, (fraction) => progress.push(fraction))).toEqual({ text: 'Loose sheet' });
+    expect(progress).toEqual([1]);
+
+    const derived = createStubTranscriptionEngine((i) => `Note ${i.voiceNoteId}`, 'echo');
+    expect((await derived.transcribe(input, () => undefined)).text).toBe('Note v1');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for admin user action helpers.
+ * Tests local effects, invite validation, retry decisions and directory merging.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  USER_ADMIN_QUEUE_OPERATIONS,
+  isUserAdminOperation,
+  auditActionFor,
+  describeUserAdminAction,
+  shouldQueueAfterFailure,
+  applyUserAdminAction,
+  createInvitedUser,
+  validateInvite,
+  mergeManagedUsers,
+} from '../../lib/user-admin';
+import type { LocalManagedUser } from '../../types/database';
+import { UserRole, UserStatus, type UserAdminAction } from '../../types/shared';
+
+const NOW = '2026-05-01T09:00:00.000Z';
+
+function makeUser(overrides: Partial<LocalManagedUser> = {}): LocalManagedUser {
+  return {
+    id: 'user_1',
+    email: 'kate@example.co.nz',
+    name: 'Kate Inspector',
+    role: UserRole.INSPECTOR,
+    status: UserStatus.ACTIVE,
+    company: null,
+    lbpNumber: null,
+    yearsExperience: null,
+    pendingAction: null,
+    invitedAt: null,
+    syncedAt: '2026-04-01T00:00:00.000Z',
+    updatedAt: '2026-04-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function action(overrides: Partial<UserAdminAction>): UserAdminAction {
+  return { type: 'SUSPEND', userId: 'user_1', requestedAt: NOW, ...overrides };
+}
+
+describe('queue operations', () => {
+  it('recognises every admin operation and nothing else', () => {
+    for (const operation of Object.values(USER_ADMIN_QUEUE_OPERATIONS)) {
+      expect(isUserAdminOperation(operation)).toBe(true);
+    }
+    expect(isUserAdminOperation('delete')).toBe(false);
+    expect(isUserAdminOperation('user_suspend:permanently_failed')).toBe(false);
+  });
+
+  it('maps actions to audit entries', () => {
+    expect(auditActionFor('SUSPEND')).toBe('USER_SUSPENDED');
+    expect(auditActionFor('INVITE')).toBe('USER_INVITED');
+  });
+});
+
+describe('shouldQueueAfterFailure', () => {
+  it.each([undefined, 0, 408, 429, 500, 503])('retries status %s', (status) => {
+    expect(shouldQueueAfterFailure(status)).toBe(true);
+  });
+
+  it.each([400, 403, 404, 409])('treats %s as a refusal', (status) => {
+    expect(shouldQueueAfterFailure(status)).toBe(false);
+  });
+});
+
+describe('applyUserAdminAction', () => {
+  it('suspends and activates', () => {
+    const suspended = applyUserAdminAction(makeUser(), action({ type: 'SUSPEND' }), NOW);
+    expect(suspended.status).toBe(UserStatus.SUSPENDED);
+    expect(suspended.pendingAction).toBe('SUSPEND');
+    expect(suspended.updatedAt).toBe(NOW);
+
+    const activated = applyUserAdminAction(suspended, action({ type: 'ACTIVATE' }), NOW);
+    expect(activated.status).toBe(UserStatus.ACTIVE);
+  });
+
+  it('changes role without touching status', () => {
+    const user = makeUser({ status: UserStatus.SUSPENDED });
+    const changed = applyUserAdminAction(user, action({ type: 'CHANGE_ROLE', role: UserRole.REVIEWER }), NOW);
+    expect(changed.role).toBe(UserRole.REVIEWER);
+    expect(changed.status).toBe(UserStatus.SUSPENDED);
+  });
+
+  it('does not modify the original row', () => {
+    const user = makeUser();
+    applyUserAdminAction(user, action({ type: 'SUSPEND' }), NOW);
+    expect(user.status).toBe(UserStatus.ACTIVE);
+    expect(user.pendingAction).toBeNull();
+  });
+});
+
+describe('invitations', () => {
+  const invite = { email: ' New.User@Example.co.nz ', name: ' New User ', role: UserRole.REVIEWER, company: '' };
+
+  it('creates a pending placeholder with a normalised email', () => {
+    const user = createInvitedUser('invite_1', invite, NOW);
+    expect(user.email).toBe('new.user@example.co.nz');
+    expect(user.name).toBe('New User');
+    expect(user.company).toBeNull();
+    expect(user.status).toBe(UserStatus.PENDING_APPROVAL);
+    expect(user.pendingAction).toBe('INVITE');
+    expect(user.invitedAt).toBe(NOW);
+  });
+
+  it('accepts a valid invite', () => {
+    expect(validateInvite(invite, [makeUser()])).toBeNull();
+  });
+
+  it('rejects missing names, bad emails and duplicates', () => {
+    expect(validateInvite({ ...invite, name: '  ' }, [])).toBe('Name is required');
+    expect(validateInvite({ ...invite, email: 'not-an-email' }, [])).toBe('Enter a valid email address');
+    expect(validateInvite({ ...invite, email: 'KATE@example.co.nz' }, [makeUser()])).toBe(
+      'A user with this email already exists'
+    );
+  });
+
+  it('describes the invite for the audit log', () => {
+    const note = describeUserAdminAction(
+      action({ type: 'INVITE', userId: 'invite_1', invite, reason: 'New hire' }),
+      { name: 'New User', email: 'new.user@example.co.nz' }
+    );
+    expect(note).toBe('Invited New User <new.user@example.co.nz> as REVIEWER. Reason: New hire');
+  });
+});
+
+describe('mergeManagedUsers', () => {
+  it('takes server rows when nothing is pending', () => {
+    const server = [makeUser({ name: 'Kate Server' })];
+    expect(mergeManagedUsers(server, [makeUser()])).toEqual(server);
+  });
+
+  it('keeps local state for rows with an unconfirmed action', () => {
+    const local = makeUser({ status: UserStatus.SUSPENDED, pendingAction: 'SUSPEND' });
+    expect(mergeManagedUsers([makeUser()], [local])).toEqual([local]);
+  });
+
+  it('keeps unconfirmed invites until the server returns the email', () => {
+    const pendingInvite = createInvitedUser(
+      'invite_1',
+      { email: 'new@example.co.nz', name: 'Aaron New', role: UserRole.INSPECTOR, company: null },
+      NOW
+    );
+    const merged = mergeManagedUsers([makeUser()], [pendingInvite]);
+    expect(merged.map((u) => u.id)).toEqual(['invite_1', 'user_1']);
+
+    const confirmed = makeUser({ id: 'user_2', email: 'new@example.co.nz', name: 'Aaron New' });
+    expect(mergeManagedUsers([makeUser(), confirmed], [pendingInvite]).map((u) => u.id)).toEqual([
+      'user_2',
+      'user_1',
+    ]);
+  });
+
+  it('drops users removed on the server', () => {
+    expect(mergeManagedUsers([], [makeUser()])).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for structured weather records.
+ * Tests derived values, record parsing and editing, summaries and providers.
+ *
+ * These are pure functions that don't require native module mocks.
+ */
+
+import {
+  WEATHER_RECORD_VERSION,
+  windLevelForSpeed,
+  inferRoofSurface,
+  weatherRecordFromReading,
+  manualWeatherRecord,
+  editWeatherRecord,
+  parseWeatherRecord,
+  describeWeather,
+  createStubWeatherProvider,
+  combineWeatherProviders,
+  weatherFromHistory,
+  type WeatherProvider,
+} from '../../lib/weather';
+import { WeatherCondition, WindLevel, RoofSurfaceState } from '../../types/shared';
+
+const AT = '2026-03-10T01:00:00.000Z';
+const context = { lat: -36.85, lng: 174.76, at: AT };
+
+describe('derived values', () => {
+  it('maps wind speed to Beaufort-style levels', () => {
+    expect(windLevelForSpeed(0)).toBe(WindLevel.CALM);
+    expect(windLevelForSpeed(12)).toBe(WindLevel.LIGHT);
+    expect(windLevelForSpeed(30)).toBe(WindLevel.MODERATE);
+    expect(windLevelForSpeed(50)).toBe(WindLevel.STRONG);
+    expect(windLevelForSpeed(80)).toBe(WindLevel.GALE);
+  });
+
+  it('infers the roof surface from conditions and recent rain', () => {
+    expect(inferRoofSurface(WeatherCondition.RAIN, false)).toBe(RoofSurfaceState.WET);
+    expect(inferRoofSurface(WeatherCondition.CLEAR, true)).toBe(RoofSurfaceState.DAMP);
+    expect(inferRoofSurface(WeatherCondition.FOG, false)).toBe(RoofSurfaceState.DAMP);
+    expect(inferRoofSurface(WeatherCondition.OVERCAST, false)).toBe(RoofSurfaceState.DRY);
+  });
+});
+
+describe('weatherRecordFromReading', () => {
+  it('fills missing values from what the provider knew', () => {
+    const record = weatherRecordFromReading(
+      { conditions: WeatherCondition.OVERCAST, temperatureC: 14, windSpeedKmh: 25, recentRain: true },
+      { providerId: 'stub', capturedAt: AT }
+    );
+    expect(record).toEqual({
+      version: WEATHER_RECORD_VERSION,
+      conditions: WeatherCondition.OVERCAST,
+      temperatureC: 14,
+      wind: WindLevel.MODERATE,
+      windSpeedKmh: 25,
+      recentRain: true,
+      roofSurface: RoofSurfaceState.DAMP,
+      capturedAt: AT,
+      source: 'PROVIDER',
+      providerId: 'stub',
+    });
+  });
+
+  it('needs at least the conditions', () => {
+    expect(weatherRecordFromReading({ temperatureC: 14 }, { providerId: 'stub', capturedAt: AT })).toBeNull();
+  });
+});
+
+describe('editing', () => {
+  it('starts a manual record from conditions', () => {
+    const record = manualWeatherRecord(WeatherCondition.DRIZZLE, AT);
+    expect(record.source).toBe('MANUAL');
+    expect(record.recentRain).toBe(true);
+    expect(record.roofSurface).toBe(RoofSurfaceState.WET);
+  });
+
+  it('marks edited records manual but keeps capture time and provider', () => {
+    const suggested = weatherRecordFromReading(
+      { conditions: WeatherCondition.CLEAR },
+      { providerId: 'history', capturedAt: AT }
+    )!;
+    const edited = editWeatherRecord(suggested, { windSpeedKmh: 45 });
+    expect(edited.source).toBe('MANUAL');
+    expect(edited.providerId).toBe('history');
+    expect(edited.capturedAt).toBe(AT);
+    expect(edited.wind).toBe(WindLevel.STRONG);
+  });
+});
+
+describe('parseWeatherRecord', () => {
+  it('round-trips a stored record', () => {
+    const record = manualWeatherRecord(WeatherCondition.CLEAR, AT);
+    expect(parseWeatherRecord(JSON.stringify(record))).toEqual(record);
+  });
+
+  it('rejects missing, malformed and unversioned records', () => {
+    expect(parseWeatherRecord(null)).toBeNull();
+    expect(parseWeatherRecord('{not json')).toBeNull();
+    expect(parseWeatherRecord(JSON.stringify({ conditions: 'CLEAR' }))).toBeNull();
+    expect(parseWeatherRecord(JSON.stringify({ version: 1, conditions: 'SUNNY' }))).toBeNull();
+  });
+
+  it('reads what it can from newer versions', () => {
+    const parsed = parseWeatherRecord(
+      JSON.stringify({ version: 2, conditions: 'RAIN', recentRain: true, uvIndex: 3, wind: 'BREEZY' })
+    );
+    expect(parsed).toMatchObject({
+      version: 2,
+      conditions: WeatherCondition.RAIN,
+      wind: WindLevel.CALM,
+      roofSurface: RoofSurfaceState.WET,
+    });
+  });
+});
+
+describe('describeWeather', () => {
+  it('summarises the record in one line', () => {
+    const record = editWeatherRecord(manualWeatherRecord(WeatherCondition.OVERCAST, AT), {
+      temperatureC: 14.4,
+      windSpeedKmh: 12,
+      recentRain: true,
+      roofSurface: RoofSurfaceState.DAMP,
+    });
+    expect(describeWeather(record)).toBe(
+      'Overcast, 14°C, light wind (12 km/h), rain in the last 24 hours, roof damp'
+    );
+    expect(describeWeather(manualWeatherRecord(WeatherCondition.CLEAR, AT))).toBe('Clear, calm, roof dry');
+  });
+});
+
+describe('providers', () => {
+  it('stub returns its reading', async () => {
+    const provider = createStubWeatherProvider({ conditions: WeatherCondition.FOG });
+    expect(provider.id).toBe('stub');
+    expect(await provider.getReading(context)).toEqual({ conditions: WeatherCondition.FOG });
+    expect(await createStubWeatherProvider(null).getReading(context)).toBeNull();
+  });
+
+  it('combines providers with earlier ones winning per field', async () => {
+    const failing: WeatherProvider = {
+      id: 'broken',
+      getReading: async () => {
+        throw new Error('offline');
+      },
+    };
+    jest.spyOn(console, 'warn').mockImplementationOnce(() => {});
+    const combined = combineWeatherProviders([
+      failing,
+      createStubWeatherProvider({ temperatureC: 9 }, 'sensor'),
+      createStubWeatherProvider({ conditions: WeatherCondition.RAIN, temperatureC: 12 }, 'history'),
+    ]);
+    expect(combined.id).toBe('broken+sensor+history');
+    expect(await combined.getReading(context)).toEqual({ conditions: WeatherCondition.RAIN, temperatureC: 9 });
+  });
+
+  it('picks the newest nearby record from history', () => {
+    const at = (iso: string, conditions: WeatherCondition) =>
+      JSON.stringify(manualWeatherRecord(conditions, iso));
+    const reading = weatherFromHistory(
+      [
+        { weatherJson: at('2026-03-09T23:00:00.000Z', WeatherCondition.FOG), gpsLat: -36.86, gpsLng: 174.77 },
+        { weatherJson: at('2026-03-10T00:30:00.000Z', WeatherCondition.CLEAR), gpsLat: -36.86, gpsLng: 174.77 },
+        // Too far away (Wellington)
+        { weatherJson: at('2026-03-10T00:50:00.000Z', WeatherCondition.RAIN), gpsLat: -41.29, gpsLng: 174.78 },
+        // Too old
+        { weatherJson: at('2026-03-09T18:00:00.000Z', WeatherCondition.HAIL), gpsLat: -36.86, gpsLng: 174.77 },
+      ],
+      context
+    );
+    expect(reading?.conditions).toBe(WeatherCondition.CLEAR);
+    expect(weatherFromHistory([], context)).toBeNull();
+  });
+});
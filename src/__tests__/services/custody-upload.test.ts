@@ -0,0 +1,252 @@
+/**
+ * Unit tests for uploading custody events.
+ * Tests that every chained event is picked up for upload, whatever its
+ * action, so the server's copy of a chain verifies without the device, and
+ * that a remote wipe pushes the final DELETED events before clearing data.
+ *
+ * The real SQLite layer runs against sql.js; the native open, key storage,
+ * file system, network and API calls are replaced.
+ */
+
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+
+// jest-expo defines window, which breaks the wasm build's file system; the asm.js build is identical SQLite
+jest.mock('sql.js', () => jest.requireActual('sql.js/dist/sql-asm.js'));
+
+jest.mock('expo-crypto', () => ({
+  digestStringAsync: jest.fn(async (_algorithm: string, data: string) => {
+    const { createHash } = require('crypto');
+    return createHash('sha256').update(data).digest('hex');
+  }),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///doc/',
+  getInfoAsync: jest.fn(async () => ({ exists: false })),
+  deleteAsync: jest.fn(async () => undefined),
+  EncodingType: { Base64: 'base64', UTF8: 'utf8' },
+  FileSystemUploadType: { BINARY_CONTENT: 0, MULTIPART: 1 },
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: {
+    addEventListener: jest.fn(() => () => undefined),
+    fetch: jest.fn(async () => ({ isConnected: true })),
+  },
+}));
+
+jest.mock('../../lib/auth/storage', () => ({
+  getOrCreateDatabaseKey: jest.fn(async () => ({ key: 'ab'.repeat(32), created: false })),
+  clearAllAuthData: jest.fn(async () => undefined),
+  deleteEncryptionKeys: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../lib/storage', () => ({
+  getOrCreateDeviceId: jest.fn(async () => 'device-test'),
+  savePendingDeviceDirective: jest.fn(async () => undefined),
+  getPendingDeviceDirective: jest.fn(async () => null),
+  deletePendingDeviceDirective: jest.fn(async () => undefined),
+  clearAllAuthData: jest.fn(async () => undefined),
+  clearDevicePreferences: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../lib/api', () => ({
+  apiClient: { post: jest.fn() },
+  acknowledgeDeviceDirective: jest.fn(async () => ({ success: true })),
+}));
+
+jest.mock('../../lib/file-storage', () => ({
+  wipeAllStoredFiles: jest.fn(async () => []),
+}));
+
+jest.mock('../../services/file-encryption-service', () => ({
+  fileEncryptionService: { clearDecryptedFiles: jest.fn(async () => undefined) },
+}));
+
+jest.mock('../../services/photo-cache-service', () => ({ photoCacheService: {} }));
+jest.mock('../../services/user-admin-service', () => ({ processUserAdminQueue: jest.fn() }));
+jest.mock('../../services/transcription-service', () => ({ retryFailedTranscriptions: jest.fn() }));
+
+let mockRaw: Database;
+
+jest.mock('expo-sqlite', () => {
+  const params = (values?: unknown[]) => (values ?? []).map((value) => (value === undefined ? null : value)) as any[];
+  const all = (source: string, values?: unknown[]) => {
+    const stmt = mockRaw.prepare(source);
+    stmt.bind(params(values));
+    const rows: unknown[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject());
+    stmt.free();
+    return rows;
+  };
+  const database = {
+    execAsync: async (source: string) => {
+      mockRaw.exec(source);
+    },
+    runAsync: async (source: string, values?: unknown[]) => {
+      mockRaw.run(source, params(values));
+      return { changes: mockRaw.getRowsModified() };
+    },
+    getFirstAsync: async (source: string, values?: unknown[]) => all(source, values)[0] ?? null,
+    getAllAsync: async (source: string, values?: unknown[]) => all(source, values),
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      mockRaw.exec('BEGIN');
+      try {
+        await task();
+        mockRaw.exec('COMMIT');
+      } catch (error) {
+        mockRaw.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    closeAsync: async () => undefined,
+  };
+  return { openDatabaseAsync: jest.fn(async () => database), deleteDatabaseAsync: jest.fn() };
+});
+
+import {
+  addAuditLog,
+  closeDatabase,
+  getUnsyncedCustodyEvents,
+  initializeDatabase,
+  markCustodyEventsSynced,
+  savePhoto,
+} from '../../lib/sqlite';
+import { acknowledgeDeviceDirective, apiClient } from '../../lib/api';
+import {
+  logCapture,
+  logDeletion,
+  logExport,
+  logIncludeInReport,
+  logStorage,
+  logView,
+  verifyCustodyEvents,
+} from '../../services/chain-of-custody';
+import { remoteWipeService } from '../../services/remote-wipe-service';
+import { syncEngine } from '../../services/sync-service';
+import type { LocalPhoto } from '../../types/database';
+
+const HASH = 'a'.repeat(64);
+
+beforeEach(async () => {
+  const SQL = await initSqlJs();
+  mockRaw = new SQL.Database();
+  await initializeDatabase();
+});
+
+afterEach(async () => {
+  await closeDatabase();
+  mockRaw.close();
+});
+
+describe('getUnsyncedCustodyEvents', () => {
+  it('uploads a chain that verifies on its own', async () => {
+    await logCapture('photo', 'photo-1', 'user-1', 'Inspector One', HASH);
+    await logStorage('photo', 'photo-1', 'user-1', 'Inspector One', HASH, '/originals/photo-1.jpg');
+    await logView('photo', 'photo-1', 'user-1', 'Inspector One', HASH);
+    await logIncludeInReport('photo', 'photo-1', 'user-1', 'Inspector One', HASH, 'report-1');
+    await logExport('photo', 'photo-1', 'user-1', 'Inspector One', HASH, 'evidence bundle');
+
+    const first = await getUnsyncedCustodyEvents();
+    await markCustodyEventsSynced(first.map((event) => event.id));
+
+    // A later sync carries the rest of the chain
+    await logDeletion('photo', 'photo-1', 'user-1', 'Inspector One', HASH, 'Removed by inspector');
+    const second = await getUnsyncedCustodyEvents();
+
+    const uploaded = [...first, ...second];
+    expect(uploaded.map((event) => event.action)).toEqual([
+      'CAPTURED',
+      'STORED',
+      'VIEWED',
+      'INCLUDED_IN_REPORT',
+      'EXPORTED',
+      'DELETED',
+    ]);
+
+    const verification = await verifyCustodyEvents('photo', 'photo-1', uploaded);
+    expect(verification.issues).toEqual([]);
+    expect(verification.isValid).toBe(true);
+    expect(verification.eventCount).toBe(6);
+  });
+
+  it('leaves out audit rows that are not custody events', async () => {
+    await logCapture('photo', 'photo-1', 'user-1', 'Inspector One', HASH);
+    await addAuditLog('sync_repair', 'report', 'report-1', 'user-1', 'Inspector One');
+
+    const events = await getUnsyncedCustodyEvents();
+    expect(events.map((event) => event.action)).toEqual(['CAPTURED']);
+  });
+});
+
+describe('remote wipe', () => {
+  const directive = {
+    id: 'directive-1',
+    action: 'WIPE' as const,
+    issuedAt: '2026-03-10T00:00:00.000Z',
+    issuedBy: 'admin-1',
+    reason: 'Device lost',
+  };
+
+  // More than one upload batch of final events
+  const PHOTO_COUNT = 120;
+
+  const uploadedEvents = () =>
+    (apiClient.post as jest.Mock).mock.calls
+      .filter(([path]) => path === '/api/sync/custody-events')
+      .flatMap(([, body]) => body.events);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest
+      .spyOn(syncEngine, 'pushBeforeWipe')
+      .mockResolvedValue({ success: true, reportsSynced: 0, photosSynced: 0, errors: [] } as any);
+
+    for (let i = 0; i < PHOTO_COUNT; i++) {
+      await savePhoto({
+        id: `photo-${i}`,
+        reportId: 'report-1',
+        localUri: `file:///doc/photos/photo-${i}.jpg`,
+        filename: `photo-${i}.jpg`,
+        originalFilename: `IMG_${i}.jpg`,
+        mimeType: 'image/jpeg',
+        fileSize: 1024,
+        photoType: 'OVERVIEW',
+        capturedAt: '2026-03-10T00:00:00.000Z',
+        originalHash: HASH,
+        sortOrder: i,
+        syncStatus: 'synced',
+        createdAt: '2026-03-10T00:00:00.000Z',
+      } as LocalPhoto);
+    }
+  });
+
+  it('pushes every final DELETED event before clearing the device', async () => {
+    (apiClient.post as jest.Mock).mockImplementation(async (_path: string, body: { events: unknown[] }) => ({
+      data: { success: true, processed: body.events.length, skipped: 0 },
+    }));
+
+    const result = await remoteWipeService.handleDirective(directive);
+
+    const deleted = uploadedEvents().filter((event: { action: string }) => event.action === 'DELETED');
+    expect(deleted).toHaveLength(PHOTO_COUNT);
+    expect(new Set(deleted.map((event: { entityId: string }) => event.entityId)).size).toBe(PHOTO_COUNT);
+    expect(result.receipt.evidenceItemsRemoved).toBe(PHOTO_COUNT);
+    expect(result.receipt.unsynced.custodyEvents).toBe(0);
+  });
+
+  it('reports the events it could not push in the receipt', async () => {
+    (apiClient.post as jest.Mock).mockRejectedValue(new Error('Network Error'));
+
+    const result = await remoteWipeService.handleDirective(directive);
+
+    expect(result.receipt.unsynced.custodyEvents).toBe(PHOTO_COUNT);
+    expect(acknowledgeDeviceDirective).toHaveBeenCalledWith(
+      'directive-1',
+      expect.objectContaining({ unsynced: expect.objectContaining({ custodyEvents: PHOTO_COUNT }) })
+    );
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for deletions waiting on server acknowledgement.
+ * Tests that a downloaded report graph which still lists a row deleted on
+ * the device does not bring it back, and that the row is purged once the
+ * deletion is acknowledged.
+ *
+ * The real SQLite layer runs against sql.js; only the native open, key
+ * storage and file system calls are replaced.
+ */
+
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+
+// jest-expo defines window, which breaks the wasm build's file system; the asm.js build is identical SQLite
+jest.mock('sql.js', () => jest.requireActual('sql.js/dist/sql-asm.js'));
+
+jest.mock('expo-crypto', () => ({
+  digestStringAsync: jest.fn(async (_algorithm: string, data: string) => {
+    const { createHash } = require('crypto');
+    return createHash('sha256').update(data).digest('hex');
+  }),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  getInfoAsync: jest.fn(async () => ({ exists: false })),
+  deleteAsync: jest.fn(async () => undefined),
+  EncodingType: { Base64: 'base64', UTF8: 'utf8' },
+}));
+
+jest.mock('../../lib/auth/storage', () => ({
+  getOrCreateDatabaseKey: jest.fn(async () => ({ key: 'ab'.repeat(32), created: false })),
+}));
+
+let mockRaw: Database;
+
+jest.mock('expo-sqlite', () => {
+  const params = (values?: unknown[]) => (values ?? []).map((value) => (value === undefined ? null : value)) as any[];
+  const all = (source: string, values?: unknown[]) => {
+    const stmt = mockRaw.prepare(source);
+    stmt.bind(params(values));
+    const rows: unknown[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject());
+    stmt.free();
+    return rows;
+  };
+  const database = {
+    execAsync: async (source: string) => {
+      mockRaw.exec(source);
+    },
+    runAsync: async (source: string, values?: unknown[]) => {
+      mockRaw.run(source, params(values));
+      return { changes: mockRaw.getRowsModified() };
+    },
+    getFirstAsync: async (source: string, values?: unknown[]) => all(source, values)[0] ?? null,
+    getAllAsync: async (source: string, values?: unknown[]) => all(source, values),
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      mockRaw.exec('BEGIN');
+      try {
+        await task();
+        mockRaw.exec('COMMIT');
+      } catch (error) {
+        mockRaw.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    closeAsync: async () => undefined,
+  };
+  return { openDatabaseAsync: jest.fn(async () => database), deleteDatabaseAsync: jest.fn() };
+});
+
+import {
+  closeDatabase,
+  getDefectsForReport,
+  initializeDatabase,
+  markDeleted,
+  purgeDeletedEntity,
+  queueDeletion,
+  saveDefect,
+  saveReport,
+} from '../../lib/sqlite';
+import { conflictMergeService, toReportSnapshot } from '../../services/conflict-merge-service';
+import type { LocalDefect, LocalReport } from '../../types/database';
+
+const NOW = '2026-03-10T00:00:00.000Z';
+
+const REPORT = {
+  id: 'report-1',
+  reportNumber: 'RANZ-2026-00001',
+  status: 'IN_PROGRESS',
+  propertyAddress: '1 Queen Street',
+  propertyCity: 'Auckland',
+  propertyRegion: 'Auckland',
+  propertyPostcode: '1010',
+  propertyType: 'RESIDENTIAL_1',
+  inspectionDate: NOW,
+  inspectionType: 'FULL_INSPECTION',
+  clientName: 'Jo Client',
+  declarationSigned: false,
+  syncStatus: 'synced',
+  createdAt: NOW,
+  updatedAt: NOW,
+} as LocalReport;
+
+const DEFECT = {
+  id: 'defect-1',
+  reportId: 'report-1',
+  roofElementId: null,
+  defectNumber: 1,
+  title: 'Lifted flashing',
+  description: 'Apron flashing lifted',
+  location: 'North elevation',
+  classification: 'MAJOR_DEFECT',
+  severity: 'HIGH',
+  observation: 'Flashing lifted',
+  syncStatus: 'synced',
+  createdAt: NOW,
+  updatedAt: NOW,
+} as LocalDefect;
+
+const deletedAt = (id: string) =>
+  mockRaw.exec(`SELECT deleted_at FROM defects WHERE id = '${id}'`)[0]?.values[0]?.[0] ?? 'no row';
+
+beforeEach(async () => {
+  const SQL = await initSqlJs();
+  mockRaw = new SQL.Database();
+  await initializeDatabase();
+
+  await saveReport(REPORT);
+  await saveDefect(DEFECT);
+
+  // Deleted on the device; the server has not acknowledged it yet
+  await markDeleted('defects', 'defect-1');
+  await queueDeletion('defect', 'defect-1', 'report-1');
+});
+
+afterEach(async () => {
+  await closeDatabase();
+  mockRaw.close();
+});
+
+describe('pending deletion', () => {
+  it('survives a re-save of the row', async () => {
+    await saveDefect({ ...DEFECT, title: 'Edited' });
+    expect(deletedAt('defect-1')).not.toBeNull();
+    expect(await getDefectsForReport('report-1')).toEqual([]);
+  });
+
+  it('is not brought back by a downloaded graph and is purged on acknowledgement', async () => {
+    const result = await conflictMergeService.reconcileReport('report-1', {
+      ...(toReportSnapshot(REPORT) as any),
+      id: 'report-1',
+      reportNumber: 'RANZ-2026-00001',
+      status: 'IN_PROGRESS',
+      createdAt: NOW,
+      updatedAt: '2026-03-10T12:00:00.000Z',
+      defects: [{ ...DEFECT, title: 'Lifted apron flashing', updatedAt: '2026-03-10T12:00:00.000Z' }],
+      roofElements: [],
+    });
+
+    // The deletion still has to reach the server
+    expect(result.needsUpload).toBe(true);
+    expect(await getDefectsForReport('report-1')).toEqual([]);
+    expect(deletedAt('defect-1')).not.toBeNull();
+
+    await purgeDeletedEntity('defect', 'defect-1');
+    expect(deletedAt('defect-1')).toBe('no row');
+  });
+});
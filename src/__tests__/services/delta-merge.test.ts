@@ -0,0 +1,146 @@
+/**
+ * Unit tests for merging a downloaded report graph into unsynced local edits.
+ * Tests that a newer server row never overwrites a pending local edit and
+ * that server-only changes are still taken.
+ *
+ * The report tables are replaced with in-memory maps so the merge runs in
+ * Node.js without the SQLite native module.
+ */
+
+const mockReports = new Map<string, any>();
+const mockDefects = new Map<string, any>();
+const mockBases = new Map<string, Record<string, unknown>>();
+const mockConflicts = new Map<string, any>();
+
+jest.mock('../../lib/sqlite', () => ({
+  getReportWithRelations: jest.fn(async (reportId: string) => {
+    const report = mockReports.get(reportId);
+    if (!report) return null;
+    return {
+      report,
+      elements: [],
+      defects: [...mockDefects.values()].filter((d) => d.reportId === reportId),
+      photos: [],
+      compliance: null,
+    };
+  }),
+  getReport: jest.fn(async (id: string) => mockReports.get(id) ?? null),
+  getDeletedEntityKeys: jest.fn(async () => new Set<string>()),
+  saveReport: jest.fn(async (report: any) => {
+    mockReports.set(report.id, report);
+  }),
+  getDefectsForReport: jest.fn(async (reportId: string) =>
+    [...mockDefects.values()].filter((d) => d.reportId === reportId)
+  ),
+  saveDefect: jest.fn(async (defect: any) => {
+    mockDefects.set(defect.id, defect);
+  }),
+  getRoofElementsForReport: jest.fn(async () => []),
+  saveRoofElement: jest.fn(),
+  getSyncBaseVersion: jest.fn(async (entityType: string, entityId: string) =>
+    mockBases.get(`${entityType}:${entityId}`) ?? null
+  ),
+  saveSyncBaseVersion: jest.fn(async (entityType: string, entityId: string, _reportId: string, snapshot: any) => {
+    mockBases.set(`${entityType}:${entityId}`, snapshot);
+  }),
+  saveSyncConflict: jest.fn(async (conflict: any) => {
+    mockConflicts.set(conflict.id, conflict);
+  }),
+  getSyncConflict: jest.fn(async (id: string) => mockConflicts.get(id) ?? null),
+  getSyncConflicts: jest.fn(async () => [...mockConflicts.values()]),
+  deleteSyncConflict: jest.fn(async (id: string) => {
+    mockConflicts.delete(id);
+  }),
+}));
+
+import { conflictMergeService, toReportSnapshot } from '../../services/conflict-merge-service';
+import { decideRemoteUpdate } from '../../lib/delta-sync';
+
+const BASE_DEFECT = {
+  id: 'defect-1',
+  reportId: 'report-1',
+  roofElementId: null,
+  defectNumber: 1,
+  title: 'Lifted flashing',
+  description: 'Apron flashing lifted',
+  location: 'North elevation',
+  classification: 'MAJOR_DEFECT',
+  severity: 'HIGH',
+  observation: 'Flashing lifted',
+  analysis: null,
+  opinion: null,
+  codeReference: null,
+  copReference: null,
+  recommendation: null,
+  priorityLevel: null,
+  createdAt: '2026-03-01T00:00:00.000Z',
+};
+
+const BASE_REPORT = {
+  id: 'report-1',
+  reportNumber: 'RANZ-2026-00001',
+  status: 'IN_PROGRESS',
+  propertyAddress: '1 Queen Street',
+  propertyCity: 'Auckland',
+  limitations: null,
+  clientName: 'Client',
+  createdAt: '2026-03-01T00:00:00.000Z',
+};
+
+beforeEach(async () => {
+  mockReports.clear();
+  mockDefects.clear();
+  mockBases.clear();
+  mockConflicts.clear();
+
+  // Both sides last agreed on BASE_*
+  const agreedReport = { ...BASE_REPORT, syncStatus: 'synced', updatedAt: '2026-03-01T00:00:00.000Z' };
+  mockReports.set('report-1', agreedReport);
+  mockDefects.set('defect-1', { ...BASE_DEFECT, syncStatus: 'synced', updatedAt: '2026-03-01T00:00:00.000Z' });
+  await conflictMergeService.captureBaseVersions('report-1');
+
+  // Offline edit on the device
+  mockReports.set('report-1', { ...agreedReport, syncStatus: 'pending', updatedAt: '2026-03-10T09:00:00.000Z' });
+  mockDefects.set('defect-1', {
+    ...BASE_DEFECT,
+    observation: 'Flashing lifted 40mm, nails withdrawn',
+    syncStatus: 'pending',
+    updatedAt: '2026-03-10T09:00:00.000Z',
+  });
+});
+
+describe('downloaded graph over a pending local edit', () => {
+  const serverGraph = () => ({
+    ...(toReportSnapshot(mockReports.get('report-1')) as any),
+    id: 'report-1',
+    reportNumber: 'RANZ-2026-00001',
+    status: 'IN_PROGRESS',
+    limitations: 'Roof viewed from ladder only',
+    createdAt: '2026-03-01T00:00:00.000Z',
+    // Server copy is newer than the local edit
+    updatedAt: '2026-03-10T12:00:00.000Z',
+    defects: [{ ...BASE_DEFECT, title: 'Lifted apron flashing', updatedAt: '2026-03-10T12:00:00.000Z' }],
+    roofElements: [],
+  });
+
+  it('is sent to the merge rather than applied', () => {
+    expect(decideRemoteUpdate(mockDefects.get('defect-1'))).toBe('merge');
+    expect(decideRemoteUpdate(mockReports.get('report-1'))).toBe('merge');
+  });
+
+  it('keeps the local edit and takes the server-only changes', async () => {
+    const result = await conflictMergeService.reconcileReport('report-1', serverGraph());
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.needsUpload).toBe(true);
+
+    const defect = mockDefects.get('defect-1');
+    expect(defect.observation).toBe('Flashing lifted 40mm, nails withdrawn');
+    expect(defect.title).toBe('Lifted apron flashing');
+    expect(defect.syncStatus).toBe('pending');
+
+    const report = mockReports.get('report-1');
+    expect(report.limitations).toBe('Roof viewed from ladder only');
+    expect(report.syncStatus).toBe('pending');
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Unit tests for the evidence bundle export.
+ * Tests that originals are packed with a manifest and custody logs, that
+ * each packed file is recorded as EXPORTED, and that the bundle verifies
+ * (and detects tampering) with verifyFileHash.
+ *
+ * The file system is an in-memory map of base64 content so JSZip runs
+ * for real in Node.js.
+ */
+
+// Mock expo-crypto since it requires native modules
+jest.mock('expo-crypto', () => ({
+  digestStringAsync: jest.fn(async (algorithm: string, data: string) => {
+    const { createHash } = require('crypto');
+    return createHash('sha256').update(data).digest('hex');
+  }),
+  CryptoDigestAlgorithm: {
+    SHA256: 'SHA-256',
+  },
+}));
+
+// In-memory file system (path -> base64 content)
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system/legacy', () => ({
+  getInfoAsync: jest.fn(async (path: string) =>
+    mockFiles.has(path)
+      ? { exists: true, size: Buffer.from(mockFiles.get(path)!, 'base64').length }
+      : { exists: path.endsWith('/') }
+  ),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  writeAsStringAsync: jest.fn(async (path: string, content: string) => {
+    mockFiles.set(path, content);
+  }),
+  readAsStringAsync: jest.fn(async (path: string) => {
+    if (!mockFiles.has(path)) throw new Error(`No such file: ${path}`);
+    return mockFiles.get(path);
+  }),
+  deleteAsync: jest.fn(async (path: string) => {
+    for (const key of [...mockFiles.keys()]) {
+      if (key.startsWith(path)) mockFiles.delete(key);
+    }
+  }),
+  EncodingType: { Base64: 'base64', UTF8: 'utf8' },
+}));
+
+jest.mock('../../lib/file-storage', () => ({
+  STORAGE_PATHS: {
+    originals: '/doc/evidence/originals/',
+    photos: '/doc/photos/',
+    thumbnails: '/doc/thumbnails/',
+    temp: '/doc/temp/',
+    exports: '/doc/exports/',
+  },
+  getOriginalPath: (filename: string) => `/doc/evidence/originals/${filename}`,
+  readFileAsBase64: jest.fn(async (path: string) => {
+    if (!mockFiles.has(path)) throw new Error(`No such file: ${path}`);
+    return mockFiles.get(path);
+  }),
+  getFileInfo: jest.fn(async (path: string) => ({
+    exists: mockFiles.has(path),
+    size: mockFiles.has(path) ? Buffer.from(mockFiles.get(path)!, 'base64').length : null,
+    modificationTime: null,
+  })),
+}));
+
+const mockPhotos: any[] = [];
+const mockVoiceNotes: any[] = [];
+
+jest.mock('../../lib/sqlite', () => ({
+  getReportWithRelations: jest.fn(async () => ({
+    report: {
+      id: 'report-1',
+      reportNumber: 'RANZ-2024-001',
+      propertyAddress: '1 Test Street',
+      inspectionDate: '2024-06-01',
+    },
+    elements: [],
+    defects: [],
+    photos: mockPhotos,
+    compliance: null,
+  })),
+  getVideosForReport: jest.fn(async () => []),
+  getVoiceNotesForReport: jest.fn(async () => mockVoiceNotes),
+  getUser: jest.fn(async () => ({ id: 'user-1', name: 'Inspector One' })),
+}));
+
+jest.mock('../../services/chain-of-custody', () => ({
+  getCustodyChain: jest.fn(async () => [{ action: 'CAPTURED', eventHash: 'e1' }]),
+  verifyCustodyChain: jest.fn(async (entityType: string, entityId: string) => ({
+    isValid: true,
+    entityType,
+    entityId,
+    eventCount: 1,
+    legacyEventCount: 0,
+    chainRoot: 'e1',
+    headHash: 'e1',
+    issues: [],
+  })),
+  logExport: jest.fn(async () => undefined),
+  logVerification: jest.fn(async () => undefined),
+}));
+
+import JSZip from 'jszip';
+import { createHash } from 'crypto';
+import {
+  exportEvidenceBundle,
+  verifyEvidenceBundle,
+  manifestToCsv,
+  bundlePathFor,
+  EvidenceManifestItem,
+} from '../../services/evidence-bundle-service';
+import { logExport } from '../../services/chain-of-custody';
+
+function addFile(path: string, text: string): string {
+  const base64 = Buffer.from(text).toString('base64');
+  mockFiles.set(path, base64);
+  return createHash('sha256').update(base64).digest('hex');
+}
+
+async function readBundle(uri: string): Promise<JSZip> {
+  return JSZip.loadAsync(mockFiles.get(uri)!, { base64: true });
+}
+
+beforeEach(() => {
+  mockFiles.clear();
+  mockPhotos.length = 0;
+  mockVoiceNotes.length = 0;
+  jest.clearAllMocks();
+
+  const photoHash = addFile('/doc/evidence/originals/orig_p1.jpg', 'photo-original-bytes');
+  addFile('/doc/photos/p1.jpg', 'photo-working-copy-with-gps');
+  mockPhotos.push({
+    id: 'p1',
+    defectId: 'd1',
+    roofElementId: null,
+    localUri: '/doc/photos/p1.jpg',
+    filename: 'p1.jpg',
+    originalFilename: 'orig_p1.jpg',
+    mimeType: 'image/jpeg',
+    originalHash: photoHash,
+    capturedAt: '2024-06-01T10:00:00.000Z',
+    gpsLat: -36.85,
+    gpsLng: 174.76,
+    gpsAltitude: 12,
+    gpsAccuracy: 4,
+    cameraMake: 'Apple',
+    cameraModel: 'iPhone 15',
+    exposureTime: 0.01,
+    fNumber: 1.8,
+    iso: 100,
+    focalLength: 6,
+    caption: 'Ridge, "north" end',
+  });
+
+  const noteHash = addFile('/doc/recordings/v1.m4a', 'voice-note-bytes');
+  mockVoiceNotes.push({
+    id: 'v1',
+    defectId: null,
+    roofElementId: 'e1',
+    localUri: '/doc/recordings/v1.m4a',
+    filename: 'v1.m4a',
+    mimeType: 'audio/m4a',
+    originalHash: noteHash,
+    recordedAt: '2024-06-01T10:05:00.000Z',
+  });
+});
+
+describe('Evidence Bundle', () => {
+  describe('exportEvidenceBundle', () => {
+    it('should pack originals, manifests and custody logs', async () => {
+      const result = await exportEvidenceBundle('report-1');
+
+      expect(result.success).toBe(true);
+      expect(result.filesIncluded).toBe(2);
+      expect(result.filesMissing).toBe(0);
+      expect(result.hashMismatches).toBe(0);
+      expect(result.uri).toMatch(/^\/doc\/exports\/evidence_RANZ-2024-001_\d+\.zip$/);
+
+      const zip = await readBundle(result.uri!);
+      const photoPath = bundlePathFor('photo', 'p1', 'p1.jpg');
+      expect(await zip.file(photoPath)!.async('string')).toBe('photo-original-bytes');
+      expect(zip.file('manifest.csv')).not.toBeNull();
+      expect(zip.file('README.txt')).not.toBeNull();
+      expect(zip.file('custody/photo_p1.json')).not.toBeNull();
+      expect(zip.file('custody/voice_note_v1.json')).not.toBeNull();
+
+      const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+      expect(manifest.reportNumber).toBe('RANZ-2024-001');
+      expect(manifest.items[0]).toMatchObject({
+        id: 'p1',
+        source: 'original',
+        hashVerified: true,
+        gpsLat: -36.85,
+        cameraModel: 'iPhone 15',
+        custodyChainValid: true,
+      });
+    });
+
+    it('should log an EXPORTED custody event for each packed file', async () => {
+      const result = await exportEvidenceBundle('report-1');
+
+      expect(logExport).toHaveBeenCalledTimes(2);
+      expect(logExport).toHaveBeenCalledWith(
+        'photo',
+        'p1',
+        'user-1',
+        'Inspector One',
+        mockPhotos[0].originalHash,
+        expect.stringContaining(result.uri!.split('/').pop()!)
+      );
+    });
+
+    it('should flag a working copy that no longer matches the original hash', async () => {
+      mockFiles.delete('/doc/evidence/originals/orig_p1.jpg');
+
+      const result = await exportEvidenceBundle('report-1');
+      const zip = await readBundle(result.uri!);
+      const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+
+      expect(result.hashMismatches).toBe(1);
+      expect(manifest.items[0]).toMatchObject({ source: 'working_copy', hashVerified: false });
+    });
+
+    it('should list missing files without packing or logging them', async () => {
+      mockFiles.delete('/doc/recordings/v1.m4a');
+
+      const result = await exportEvidenceBundle('report-1');
+      const zip = await readBundle(result.uri!);
+      const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+
+      expect(result.filesMissing).toBe(1);
+      expect(manifest.items[1]).toMatchObject({ id: 'v1', source: 'missing', path: null });
+      expect(logExport).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('verifyEvidenceBundle', () => {
+    it('should verify every packed file against the manifest', async () => {
+      const { uri } = await exportEvidenceBundle('report-1');
+
+      const verification = await verifyEvidenceBundle(uri!);
+
+      expect(verification.success).toBe(true);
+      expect(verification.allValid).toBe(true);
+      expect(verification.files).toHaveLength(2);
+    });
+
+    it('should detect a file altered after export', async () => {
+      const { uri } = await exportEvidenceBundle('report-1');
+      const zip = await readBundle(uri!);
+      zip.file(bundlePathFor('photo', 'p1', 'p1.jpg'), 'tampered');
+      mockFiles.set(uri!, await zip.generateAsync({ type: 'base64' }));
+
+      const verification = await verifyEvidenceBundle(uri!);
+
+      expect(verification.allValid).toBe(false);
+      expect(verification.files.find((f) => f.id === 'p1')?.isValid).toBe(false);
+      expect(verification.files.find((f) => f.id === 'v1')?.isValid).toBe(true);
+    });
+  });
+
+  describe('manifestToCsv', () => {
+    it('should quote values containing commas and quotes', () => {
+      const csv = manifestToCsv([
+        { id: 'p1', caption: 'Ridge, "north" end', gpsLat: null } as EvidenceManifestItem,
+      ]);
+      const [header, row] = csv.trim().split('\r\n');
+
+      expect(header.startsWith('entityType,id,path,filename')).toBe(true);
+      expect(row).toContain('"Ridge, ""north"" end"');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for on-device report PDF generation.
+ * Tests that every photo embedded in the PDF gets one INCLUDED_IN_REPORT
+ * custody event and that photos with no readable file are left out.
+ *
+ * Printing, the file system and the database are mocked; the HTML is built
+ * by the real renderer.
+ */
+
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-print', () => ({
+  printToFileAsync: jest.fn(async () => ({ uri: 'file:///cache/report.pdf', numberOfPages: 3 })),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  getInfoAsync: jest.fn(async (path: string) => ({ exists: mockFiles.has(path) })),
+}));
+
+jest.mock('../../lib/file-storage', () => ({
+  readFileAsBase64: jest.fn(async (path: string) => mockFiles.get(path)),
+}));
+
+const mockPhotos: any[] = [];
+
+jest.mock('../../lib/sqlite', () => ({
+  getReportWithRelations: jest.fn(async (reportId: string) =>
+    reportId === 'report-1'
+      ? {
+          report: {
+            id: 'report-1',
+            reportNumber: 'RANZ-2026-00001',
+            status: 'IN_PROGRESS',
+            propertyAddress: '1 Queen Street',
+            propertyCity: 'Auckland',
+            inspectionDate: '2026-03-10T00:00:00.000Z',
+            buildingAge: null,
+            declarationSigned: false,
+          },
+          elements: [],
+          defects: [],
+          photos: mockPhotos,
+          compliance: null,
+        }
+      : null
+  ),
+  getAllChecklists: jest.fn(async () => []),
+  getRoofPlan: jest.fn(async () => null),
+  getUser: jest.fn(async () => ({ id: 'user-1', name: 'Inspector One' })),
+}));
+
+jest.mock('../../services/chain-of-custody', () => ({
+  logIncludeInReport: jest.fn(async () => undefined),
+}));
+
+import { generateReportPdf } from '../../services/report-pdf-service';
+import { logIncludeInReport } from '../../services/chain-of-custody';
+
+const photo = (id: string) => ({
+  id,
+  defectId: null,
+  localUri: `/doc/photos/${id}.jpg`,
+  annotatedUri: null,
+  mimeType: 'image/jpeg',
+  caption: null,
+  photoType: 'OVERVIEW',
+  capturedAt: null,
+  gpsLat: null,
+  gpsLng: null,
+  originalHash: id.repeat(32).slice(0, 64),
+});
+
+beforeEach(() => {
+  mockFiles.clear();
+  mockPhotos.length = 0;
+  jest.clearAllMocks();
+});
+
+describe('generateReportPdf', () => {
+  it('logs one custody event per embedded photo', async () => {
+    for (const id of ['p1', 'p2']) {
+      mockPhotos.push(photo(id));
+      mockFiles.set(`/doc/photos/${id}.jpg`, 'AAAA');
+    }
+
+    const result = await generateReportPdf('report-1');
+
+    expect(result).toEqual({ success: true, uri: 'file:///cache/report.pdf', pageCount: 3, photosIncluded: 2 });
+    expect(logIncludeInReport).toHaveBeenCalledTimes(2);
+    expect(logIncludeInReport).toHaveBeenCalledWith(
+      'photo',
+      'p1',
+      'user-1',
+      'Inspector One',
+      photo('p1').originalHash,
+      'report-1'
+    );
+    expect(logIncludeInReport).toHaveBeenCalledWith(
+      'photo',
+      'p2',
+      'user-1',
+      'Inspector One',
+      photo('p2').originalHash,
+      'report-1'
+    );
+  });
+
+  it('does not log photos whose file is missing', async () => {
+    mockPhotos.push(photo('p1'), photo('p2'));
+    mockFiles.set('/doc/photos/p1.jpg', 'AAAA');
+
+    const result = await generateReportPdf('report-1');
+
+    expect(result.photosIncluded).toBe(1);
+    expect(logIncludeInReport).toHaveBeenCalledTimes(1);
+    expect((logIncludeInReport as jest.Mock).mock.calls[0][1]).toBe('p1');
+  });
+
+  it('fails without logging when the report is missing', async () => {
+    const result = await generateReportPdf('missing');
+
+    expect(result).toEqual({ success: false, photosIncluded: 0, error: 'Report not found' });
+    expect(logIncludeInReport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Unit tests for the local pre-submit validation engine.
+ * Tests per-InspectionType rules, template overrides and the
+ * ValidationDetails computed from local report data.
+ */
+
+// Mock sqlite module (rules are evaluated over in-memory data)
+jest.mock('../../lib/sqlite', () => ({
+  getReportWithRelations: jest.fn(),
+  getAllTemplates: jest.fn().mockResolvedValue([]),
+  getAllChecklists: jest.fn().mockResolvedValue([]),
+}));
+
+import {
+  evaluateReportValidation,
+  resolveValidationRules,
+  selectTemplate,
+  ValidationInput,
+} from '../../services/validation-service';
+import { InspectionType, PropertyType, ComplianceStatus } from '../../types/shared';
+import type { LocalReport, LocalPhoto, LocalTemplate, LocalChecklist } from '../../types/database';
+
+function makeReport(overrides: Partial<LocalReport> = {}): LocalReport {
+  return {
+    id: 'report-1',
+    reportNumber: null,
+    status: 'DRAFT' as LocalReport['status'],
+    propertyAddress: '1 Test Street',
+    propertyCity: 'Auckland',
+    propertyRegion: 'Auckland',
+    propertyPostcode: '1010',
+    propertyType: PropertyType.RESIDENTIAL_1,
+    buildingAge: null,
+    gpsLat: null,
+    gpsLng: null,
+    inspectionDate: '2024-06-01',
+    inspectionType: InspectionType.PRE_PURCHASE,
+    weatherConditions: 'Fine',
+    weatherJson: null,
+    accessMethod: 'Ladder',
+    limitations: null,
+    clientName: 'Client',
+    clientEmail: null,
+    clientPhone: null,
+    scopeOfWorksJson: null,
+    methodologyJson: null,
+    findingsJson: null,
+    conclusionsJson: null,
+    recommendationsJson: null,
+    declarationSigned: true,
+    signedAt: null,
+    inspectorId: null,
+    submittedAt: null,
+    approvedAt: null,
+    syncStatus: 'draft' as LocalReport['syncStatus'],
+    createdAt: '2024-06-01T00:00:00.000Z',
+    updatedAt: '2024-06-01T00:00:00.000Z',
+    syncedAt: null,
+    lastSyncError: null,
+    ...overrides,
+  };
+}
+
+function makePhoto(id: string, overrides: Partial<LocalPhoto> = {}): LocalPhoto {
+  return {
+    id,
+    capturedAt: '2024-06-01T00:00:00.000Z',
+    cameraMake: 'Apple',
+    cameraModel: 'iPhone',
+    gpsLat: -36.8,
+    gpsLng: 174.7,
+    ...overrides,
+  } as LocalPhoto;
+}
+
+function makeInput(overrides: Partial<ValidationInput> = {}): ValidationInput {
+  return {
+    report: makeReport(),
+    elements: [{ id: 'e1' }, { id: 'e2' }] as ValidationInput['elements'],
+    defects: [{ id: 'd1' }] as ValidationInput['defects'],
+    photos: Array.from({ length: 8 }, (_, i) => makePhoto(`p${i}`)),
+    compliance: null,
+    checklists: [],
+    ...overrides,
+  };
+}
+
+const e2Checklist: LocalChecklist = {
+  id: 'checklist-e2',
+  name: 'E2/AS1',
+  category: 'compliance',
+  standard: 'E2/AS1',
+  itemsJson: JSON.stringify([
+    { id: 'i1', section: 'General', item: 'Flashings', description: '' },
+    { id: 'i2', section: 'General', item: 'Fixings', description: '' },
+    { id: 'i3', section: 'General', item: 'Optional', description: '', required: false },
+  ]),
+  downloadedAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('Report Validation', () => {
+  describe('resolveValidationRules', () => {
+    it('should require EXIF and GPS for dispute resolution reports', () => {
+      const rules = resolveValidationRules(InspectionType.DISPUTE_RESOLUTION, null);
+
+      expect(rules.requireExif).toBe(true);
+      expect(rules.requireGps).toBe(true);
+      expect(rules.requireCompliance).toBe(true);
+    });
+
+    it('should make compliance mandatory when the template lists checklists', () => {
+      const template = {
+        id: 't1',
+        inspectionType: InspectionType.PRE_PURCHASE,
+        checklistsJson: JSON.stringify({ compliance: ['E2/AS1'] }),
+      } as LocalTemplate;
+
+      const rules = resolveValidationRules(InspectionType.PRE_PURCHASE, template);
+
+      expect(rules.requireCompliance).toBe(true);
+      expect(rules.requiredChecklists).toEqual(['E2/AS1']);
+      expect(rules.minimumComplianceCoverage).toBe(100);
+      expect(rules.templateId).toBe('t1');
+    });
+
+    it('should prefer the default template for an inspection type', () => {
+      const templates = [
+        { id: 'a', inspectionType: InspectionType.PRE_PURCHASE, isDefault: false },
+        { id: 'b', inspectionType: InspectionType.PRE_PURCHASE, isDefault: true },
+        { id: 'c', inspectionType: InspectionType.INVASIVE, isDefault: true },
+      ] as LocalTemplate[];
+
+      expect(selectTemplate(templates, InspectionType.PRE_PURCHASE)?.id).toBe('b');
+      expect(selectTemplate(templates, InspectionType.VISUAL_ONLY)).toBeNull();
+    });
+  });
+
+  describe('evaluateReportValidation', () => {
+    const prePurchase = resolveValidationRules(InspectionType.PRE_PURCHASE, null);
+
+    it('should pass a complete report', () => {
+      const result = evaluateReportValidation(makeInput(), prePurchase);
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.completionPercentage).toBe(100);
+      expect(result.validationDetails.photos).toEqual({
+        sufficient: true,
+        count: 8,
+        minimum: 8,
+        withExif: 8,
+        withGps: 8,
+      });
+    });
+
+    it('should list missing property and inspection fields', () => {
+      const input = makeInput({
+        report: makeReport({ propertyPostcode: '', accessMethod: null }),
+      });
+
+      const result = evaluateReportValidation(input, prePurchase);
+
+      expect(result.isValid).toBe(false);
+      expect(result.validationDetails.propertyDetails.missing).toEqual(['Postcode']);
+      expect(result.validationDetails.inspectionDetails.missing).toEqual(['Access method']);
+      expect(result.missingRequiredItems).toEqual(expect.arrayContaining(['Postcode', 'Access method']));
+    });
+
+    it('should block on too few roof elements and photos', () => {
+      const input = makeInput({ elements: [], photos: [makePhoto('p1')] });
+
+      const result = evaluateReportValidation(input, prePurchase);
+
+      expect(result.isValid).toBe(false);
+      expect(result.validationDetails.roofElements.complete).toBe(false);
+      expect(result.validationDetails.photos.sufficient).toBe(false);
+      expect(result.completionPercentage).toBeLessThan(100);
+    });
+
+    it('should warn, not block, on missing GPS outside court reports', () => {
+      const photos = Array.from({ length: 8 }, (_, i) => makePhoto(`p${i}`, { gpsLat: null, gpsLng: null }));
+
+      const result = evaluateReportValidation(makeInput({ photos }), prePurchase);
+
+      expect(result.isValid).toBe(true);
+      expect(result.validationDetails.photos.withGps).toBe(0);
+      expect(result.warnings.some((w) => w.includes('GPS'))).toBe(true);
+    });
+
+    it('should block on missing EXIF for dispute resolution reports', () => {
+      const rules = resolveValidationRules(InspectionType.DISPUTE_RESOLUTION, null);
+      const photos = Array.from({ length: 15 }, (_, i) =>
+        makePhoto(`p${i}`, i === 0 ? { cameraMake: null, cameraModel: null } : {})
+      );
+
+      const result = evaluateReportValidation(
+        makeInput({
+          report: makeReport({ inspectionType: InspectionType.DISPUTE_RESOLUTION }),
+          elements: [{ id: 'e1' }, { id: 'e2' }, { id: 'e3' }] as ValidationInput['elements'],
+          photos,
+        }),
+        rules
+      );
+
+      expect(result.validationDetails.photos.withExif).toBe(14);
+      expect(result.validationDetails.photos.sufficient).toBe(false);
+      expect(result.missingRequiredItems).toContain('Photo EXIF');
+    });
+
+    it('should require limitations for visual-only inspections', () => {
+      const rules = resolveValidationRules(InspectionType.VISUAL_ONLY, null);
+
+      const result = evaluateReportValidation(makeInput(), rules);
+
+      expect(result.validationDetails.inspectionDetails.missing).toContain('Limitations');
+    });
+
+    it('should compute compliance coverage over required items of template checklists', () => {
+      const template = {
+        id: 't1',
+        inspectionType: InspectionType.PRE_PURCHASE,
+        checklistsJson: JSON.stringify({ compliance: ['E2/AS1'] }),
+      } as LocalTemplate;
+      const rules = resolveValidationRules(InspectionType.PRE_PURCHASE, template);
+      const compliance = {
+        id: 'c1',
+        reportId: 'report-1',
+        checklistResultsJson: JSON.stringify({
+          'checklist-e2': { i1: ComplianceStatus.PASS, i2: ComplianceStatus.NOT_INSPECTED },
+        }),
+      } as ValidationInput['compliance'];
+
+      const partial = evaluateReportValidation(
+        makeInput({ compliance, checklists: [e2Checklist] }),
+        rules
+      );
+
+      expect(partial.validationDetails.compliance).toEqual({ complete: false, coverage: 50, required: 100 });
+      expect(partial.isValid).toBe(false);
+    });
+
+    it('should block when a required checklist has not been downloaded', () => {
+      const template = {
+        id: 't1',
+        inspectionType: InspectionType.PRE_PURCHASE,
+        checklistsJson: JSON.stringify({ compliance: ['E3/AS1'] }),
+      } as LocalTemplate;
+      const rules = resolveValidationRules(InspectionType.PRE_PURCHASE, template);
+
+      const result = evaluateReportValidation(makeInput({ checklists: [e2Checklist] }), rules);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.some((e) => e.includes('E3/AS1'))).toBe(true);
+    });
+
+    it('should block on an unsigned declaration', () => {
+      const input = makeInput({ report: makeReport({ declarationSigned: false }) });
+
+      const result = evaluateReportValidation(input, prePurchase);
+
+      expect(result.isValid).toBe(false);
+      expect(result.missingRequiredItems).toContain('Declaration');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for sending queued admin user actions.
+ * Tests that a refused action only undoes its own change and that actions
+ * queued after it for the same user are kept.
+ *
+ * The directory and sync_queue tables are replaced with in-memory maps so
+ * the service runs in Node.js without the SQLite native module.
+ */
+
+const mockUsers = new Map<string, any>();
+const mockQueue = new Map<number, any>();
+let mockNextQueueId = 1;
+
+jest.mock('../../lib/sqlite', () => ({
+  MAX_SYNC_RETRY_ATTEMPTS: 5,
+  addToSyncQueue: jest.fn(async (entityType: string, entityId: string, operation: string, payload: unknown) => {
+    const id = mockNextQueueId++;
+    mockQueue.set(id, {
+      id,
+      entityType,
+      entityId,
+      operation,
+      payloadJson: JSON.stringify(payload),
+      createdAt: new Date().toISOString(),
+      attemptCount: 0,
+      lastError: null,
+      idempotencyKey: `key-${id}`,
+      nextAttemptAt: null,
+    });
+    return true;
+  }),
+  addAuditLog: jest.fn(async () => undefined),
+  getSyncQueue: jest.fn(async () => [...mockQueue.values()]),
+  getRetryableItems: jest.fn(async () => [...mockQueue.values()]),
+  getSyncQueueItem: jest.fn(async (id: number) => mockQueue.get(id) ?? null),
+  removeSyncQueueItem: jest.fn(async (id: number) => {
+    mockQueue.delete(id);
+  }),
+  updateSyncQueueAttempt: jest.fn(async (id: number, error: string | null) => {
+    const item = mockQueue.get(id);
+    if (item) mockQueue.set(id, { ...item, attemptCount: item.attemptCount + 1, lastError: error });
+  }),
+  updateSyncQueuePayload: jest.fn(async (id: number, payload: unknown) => {
+    const item = mockQueue.get(id);
+    if (item) mockQueue.set(id, { ...item, payloadJson: JSON.stringify(payload) });
+  }),
+  markPermanentlyFailed: jest.fn(async () => undefined),
+  getManagedUsers: jest.fn(async () => [...mockUsers.values()]),
+  getManagedUser: jest.fn(async (id: string) => mockUsers.get(id) ?? null),
+  saveManagedUser: jest.fn(async (user: any) => {
+    mockUsers.set(user.id, user);
+  }),
+  deleteManagedUser: jest.fn(async (id: string) => {
+    mockUsers.delete(id);
+  }),
+  replaceManagedUsers: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../lib/api', () => ({
+  fetchManagedUsers: jest.fn(),
+  performUserAdminAction: jest.fn(),
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { fetch: jest.fn(async () => ({ isConnected: false })) },
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-1'),
+}));
+
+import { performUserAdminAction } from '../../lib/api';
+import { performUserAction, processUserAdminQueue } from '../../services/user-admin-service';
+import { UserRole, UserStatus, type UserAdminAction } from '../../types/shared';
+
+const ACTOR = { id: 'admin-1', name: 'Admin One' };
+
+const USER = {
+  id: 'user_1',
+  email: 'kate@example.co.nz',
+  name: 'Kate Inspector',
+  role: UserRole.INSPECTOR,
+  status: UserStatus.ACTIVE,
+  company: null,
+  lbpNumber: null,
+  yearsExperience: null,
+  pendingAction: null,
+  invitedAt: null,
+  syncedAt: '2026-04-01T00:00:00.000Z',
+  updatedAt: '2026-04-01T00:00:00.000Z',
+};
+
+const SUSPEND: UserAdminAction = { type: 'SUSPEND', userId: 'user_1', requestedAt: '2026-05-01T09:00:00.000Z' };
+const CHANGE_ROLE: UserAdminAction = {
+  type: 'CHANGE_ROLE',
+  userId: 'user_1',
+  role: UserRole.REVIEWER,
+  requestedAt: '2026-05-01T09:05:00.000Z',
+};
+
+const refused = { success: false, status: 403, error: 'Not allowed' };
+const unreachable = { success: false, error: 'Network Error' };
+
+beforeEach(async () => {
+  mockUsers.clear();
+  mockQueue.clear();
+  mockNextQueueId = 1;
+  jest.clearAllMocks();
+  mockUsers.set(USER.id, USER);
+
+  // Both queued while offline
+  await performUserAction(SUSPEND, ACTOR);
+  await performUserAction(CHANGE_ROLE, ACTOR);
+});
+
+describe('processUserAdminQueue', () => {
+  it('keeps a later queued change when an earlier action is refused', async () => {
+    (performUserAdminAction as jest.Mock).mockImplementation(async (action: UserAdminAction) =>
+      action.type === 'SUSPEND' ? refused : unreachable
+    );
+
+    const result = await processUserAdminQueue();
+
+    expect(result).toEqual({ sent: 0, rejected: 1, failed: 1 });
+    expect(mockUsers.get('user_1')).toMatchObject({
+      status: UserStatus.ACTIVE,
+      role: UserRole.REVIEWER,
+      pendingAction: 'CHANGE_ROLE',
+    });
+  });
+
+  it('does not bring a refused change back when the later action is refused too', async () => {
+    (performUserAdminAction as jest.Mock).mockResolvedValue(refused);
+
+    const result = await processUserAdminQueue();
+
+    expect(result).toEqual({ sent: 0, rejected: 2, failed: 0 });
+    expect(mockUsers.get('user_1')).toMatchObject({
+      status: UserStatus.ACTIVE,
+      role: UserRole.INSPECTOR,
+      pendingAction: null,
+    });
+    expect(mockQueue.size).toBe(0);
+  });
+});
@@ -2,12 +2,14 @@
  * ConflictResolutionModal
  * Presents sync conflicts to inspector for manual resolution
  *
- * When a report is modified both locally and on the server, this modal
- * displays the conflicts and allows the inspector to choose which version
- * to keep for each conflicting item.
+ * The sync engine three-way merges each conflicted report against the last
+ * synced base version, so fields changed on only one side are already
+ * resolved. This modal walks the inspector through the remaining fields -
+ * those changed differently on both this device and the server - one at a
+ * time, showing the base, device and server values side by side.
  */
 
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
   Modal,
   View,
@@ -18,7 +20,7 @@ import {
   Platform,
   StatusBar,
 } from "react-native";
-import type { SyncConflict, ConflictResolution } from "../types/sync";
+import type { SyncConflict, FieldConflict, ConflictResolutionInput } from "../types/sync";
 import { COLORS, SPACING, BORDER_RADIUS, TOUCH_TARGET, FONT_SIZES } from "../lib/theme";
 
 // ============================================
@@ -28,10 +30,17 @@ import { COLORS, SPACING, BORDER_RADIUS, TOUCH_TARGET, FONT_SIZES } from "../lib
 interface ConflictResolutionModalProps {
   visible: boolean;
   conflicts: SyncConflict[];
-  onResolve: (resolutions: Array<{ entityId: string; resolution: ConflictResolution }>) => void;
+  onResolve: (resolutions: ConflictResolutionInput[]) => void;
   onDismiss: () => void;
 }
 
+type FieldChoice = "keep_local" | "keep_server";
+
+interface ConflictStep {
+  conflict: SyncConflict;
+  field: FieldConflict;
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -59,95 +68,80 @@ function formatEntityType(type: string): string {
   return labels[type] || type;
 }
 
+function formatFieldName(field: string): string {
+  const spaced = field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
 // ============================================
-// CONFLICT CARD COMPONENT
+// FIELD CONFLICT CARD
 // ============================================
 
-interface ConflictCardProps {
-  conflict: SyncConflict;
-  index: number;
-  selected: ConflictResolution | undefined;
-  onSelect: (resolution: ConflictResolution) => void;
+interface FieldConflictCardProps {
+  step: ConflictStep;
+  selected: FieldChoice | undefined;
+  onSelect: (choice: FieldChoice) => void;
 }
 
-function ConflictCard({ conflict, index, selected, onSelect }: ConflictCardProps) {
+function FieldConflictCard({ step, selected, onSelect }: FieldConflictCardProps) {
+  const { conflict, field } = step;
+
   return (
     <View style={styles.card}>
       <View style={styles.cardHeader}>
         <View style={styles.cardTitleRow}>
           <View style={styles.conflictBadge}>
-            <Text style={styles.conflictBadgeText}>#{index}</Text>
+            <Text style={styles.conflictBadgeText}>{formatEntityType(conflict.entityType)}</Text>
           </View>
-          <Text style={styles.cardTitle}>{formatEntityType(conflict.entityType)}</Text>
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {conflict.label}
+          </Text>
         </View>
-        <Text style={styles.cardId}>{conflict.entityId.slice(0, 8)}...</Text>
       </View>
 
-      <View style={styles.versionsContainer}>
-        <View style={styles.versionColumn}>
-          <View style={styles.versionIconContainer}>
-            <Text style={styles.versionIcon}>&#128241;</Text>
-          </View>
+      <Text style={styles.fieldName}>{formatFieldName(field.field)}</Text>
+
+      <View style={styles.baseValueBox}>
+        <Text style={styles.valueLabel}>Last synced</Text>
+        <Text style={styles.baseValueText}>{formatValue(field.baseValue)}</Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.valueOption, selected === "keep_local" && styles.valueOptionSelected]}
+        onPress={() => onSelect("keep_local")}
+        accessibilityRole="button"
+        accessibilityState={{ selected: selected === "keep_local" }}
+        accessibilityLabel="Keep my change"
+      >
+        <View style={styles.valueOptionHeader}>
+          <Text style={styles.versionIcon}>&#128241;</Text>
           <Text style={styles.versionLabel}>Your Device</Text>
           <Text style={styles.versionTime}>{formatDateTime(conflict.localUpdatedAt)}</Text>
         </View>
+        <Text style={styles.valueText}>{formatValue(field.localValue)}</Text>
+      </TouchableOpacity>
 
-        <View style={styles.separatorContainer}>
-          <View style={styles.separatorLine} />
-          <Text style={styles.versionSeparator}>vs</Text>
-          <View style={styles.separatorLine} />
-        </View>
-
-        <View style={styles.versionColumn}>
-          <View style={styles.versionIconContainer}>
-            <Text style={styles.versionIcon}>&#9729;</Text>
-          </View>
+      <TouchableOpacity
+        style={[styles.valueOption, selected === "keep_server" && styles.valueOptionSelected]}
+        onPress={() => onSelect("keep_server")}
+        accessibilityRole="button"
+        accessibilityState={{ selected: selected === "keep_server" }}
+        accessibilityLabel="Use server version"
+      >
+        <View style={styles.valueOptionHeader}>
+          <Text style={styles.versionIcon}>&#9729;</Text>
           <Text style={styles.versionLabel}>Server</Text>
           <Text style={styles.versionTime}>{formatDateTime(conflict.serverUpdatedAt)}</Text>
         </View>
-      </View>
-
-      <View style={styles.resolutionButtons}>
-        <TouchableOpacity
-          style={[
-            styles.resolutionButton,
-            selected === "keep_local" && styles.resolutionButtonSelected,
-          ]}
-          onPress={() => onSelect("keep_local")}
-          accessibilityRole="button"
-          accessibilityState={{ selected: selected === "keep_local" }}
-          accessibilityLabel="Keep my changes"
-        >
-          <Text
-            style={[
-              styles.resolutionButtonText,
-              selected === "keep_local" && styles.resolutionButtonTextSelected,
-            ]}
-          >
-            Keep My Changes
-          </Text>
-        </TouchableOpacity>
-
-        <TouchableOpacity
-          style={[
-            styles.resolutionButton,
-            selected === "keep_server" && styles.resolutionButtonSelected,
-          ]}
-          onPress={() => onSelect("keep_server")}
-          accessibilityRole="button"
-          accessibilityState={{ selected: selected === "keep_server" }}
-          accessibilityLabel="Use server version"
-        >
-          <Text
-            style={[
-              styles.resolutionButtonText,
-              selected === "keep_server" && styles.resolutionButtonTextSelected,
-            ]}
-          >
-            Use Server Version
-          </Text>
-        </TouchableOpacity>
-      </View>
+        <Text style={styles.valueText}>{formatValue(field.serverValue)}</Text>
+      </TouchableOpacity>
     </View>
   );
 }
@@ -162,32 +156,58 @@ export function ConflictResolutionModal({
   onResolve,
   onDismiss,
 }: ConflictResolutionModalProps) {
-  // Track selected resolution for each conflict
-  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  // One step per truly conflicting field
+  const steps = useMemo<ConflictStep[]>(
+    () => conflicts.flatMap((conflict) => conflict.fieldConflicts.map((field) => ({ conflict, field }))),
+    [conflicts]
+  );
+  const autoMergedCount = useMemo(
+    () => conflicts.reduce((sum, c) => sum + c.autoResolvedFields.length, 0),
+    [conflicts]
+  );
+
+  // choices[conflictId][field]
+  const [choices, setChoices] = useState<Record<string, Record<string, FieldChoice>>>({});
+  const [stepIndex, setStepIndex] = useState(0);
 
-  // Reset resolutions when modal opens with new conflicts
+  // Reset when modal opens with new conflicts
   useEffect(() => {
     if (visible) {
-      setResolutions({});
+      setChoices({});
+      setStepIndex(0);
     }
   }, [visible, conflicts]);
 
-  const handleSelect = useCallback((entityId: string, resolution: ConflictResolution) => {
-    setResolutions((prev) => ({ ...prev, [entityId]: resolution }));
-  }, []);
+  const current = steps[stepIndex];
+  const isLastStep = stepIndex === steps.length - 1;
+  const resolvedCount = Object.values(choices).reduce((sum, c) => sum + Object.keys(c).length, 0);
+  const allResolved = resolvedCount === steps.length;
+
+  const handleSelect = useCallback(
+    (choice: FieldChoice) => {
+      if (!current) return;
+      setChoices((prev) => ({
+        ...prev,
+        [current.conflict.id]: { ...prev[current.conflict.id], [current.field.field]: choice },
+      }));
+      // Move straight on to the next field
+      if (stepIndex < steps.length - 1) {
+        setStepIndex(stepIndex + 1);
+      }
+    },
+    [current, stepIndex, steps.length]
+  );
 
   const handleResolveAll = useCallback(() => {
-    const resolved = conflicts.map((c) => ({
-      entityId: c.entityId,
-      resolution: resolutions[c.entityId] || "keep_server", // Default to server if not selected
+    const resolved: ConflictResolutionInput[] = conflicts.map((c) => ({
+      conflictId: c.id,
+      resolution: "merge",
+      fieldResolutions: choices[c.id] ?? {},
     }));
     onResolve(resolved);
-  }, [conflicts, resolutions, onResolve]);
+  }, [conflicts, choices, onResolve]);
 
-  const allResolved = conflicts.every((c) => resolutions[c.entityId]);
-  const resolvedCount = Object.keys(resolutions).length;
-
-  if (conflicts.length === 0) {
+  if (steps.length === 0 || !current) {
     return null;
   }
 
@@ -207,51 +227,79 @@ export function ConflictResolutionModal({
           </View>
           <Text style={styles.title}>Sync Conflicts Detected</Text>
           <Text style={styles.subtitle}>
-            {conflicts.length} item{conflicts.length !== 1 ? "s" : ""} modified on both this device
-            and the server
+            {steps.length} field{steps.length !== 1 ? "s" : ""} changed on both this device and the
+            server
           </Text>
+          {autoMergedCount > 0 && (
+            <Text style={styles.autoMergedText}>
+              {autoMergedCount} other change{autoMergedCount !== 1 ? "s were" : " was"} merged
+              automatically
+            </Text>
+          )}
         </View>
 
-        {/* Conflict List */}
+        {/* Current field */}
         <ScrollView
           style={styles.content}
           contentContainerStyle={styles.contentContainer}
           showsVerticalScrollIndicator={true}
         >
-          {conflicts.map((conflict, index) => (
-            <ConflictCard
-              key={conflict.entityId}
-              conflict={conflict}
-              index={index + 1}
-              selected={resolutions[conflict.entityId]}
-              onSelect={(resolution) => handleSelect(conflict.entityId, resolution)}
-            />
-          ))}
+          <Text style={styles.stepText}>
+            Conflict {stepIndex + 1} of {steps.length}
+          </Text>
+          <FieldConflictCard
+            key={`${current.conflict.id}:${current.field.field}`}
+            step={current}
+            selected={choices[current.conflict.id]?.[current.field.field]}
+            onSelect={handleSelect}
+          />
         </ScrollView>
 
         {/* Footer */}
         <View style={styles.footer}>
-          <TouchableOpacity
-            style={styles.dismissButton}
-            onPress={onDismiss}
-            accessibilityRole="button"
-            accessibilityLabel="Decide later"
-          >
-            <Text style={styles.dismissButtonText}>Decide Later</Text>
-          </TouchableOpacity>
-
-          <TouchableOpacity
-            style={[styles.resolveButton, !allResolved && styles.resolveButtonDisabled]}
-            onPress={handleResolveAll}
-            disabled={!allResolved}
-            accessibilityRole="button"
-            accessibilityLabel={`Resolve ${allResolved ? "all" : `${resolvedCount} of ${conflicts.length}`} conflicts`}
-            accessibilityState={{ disabled: !allResolved }}
-          >
-            <Text style={styles.resolveButtonText}>
-              Resolve {allResolved ? "All" : `(${resolvedCount}/${conflicts.length})`}
-            </Text>
-          </TouchableOpacity>
+          {stepIndex > 0 ? (
+            <TouchableOpacity
+              style={styles.dismissButton}
+              onPress={() => setStepIndex(stepIndex - 1)}
+              accessibilityRole="button"
+              accessibilityLabel="Previous conflict"
+            >
+              <Text style={styles.dismissButtonText}>Back</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={styles.dismissButton}
+              onPress={onDismiss}
+              accessibilityRole="button"
+              accessibilityLabel="Decide later"
+            >
+              <Text style={styles.dismissButtonText}>Decide Later</Text>
+            </TouchableOpacity>
+          )}
+
+          {isLastStep ? (
+            <TouchableOpacity
+              style={[styles.resolveButton, !allResolved && styles.resolveButtonDisabled]}
+              onPress={handleResolveAll}
+              disabled={!allResolved}
+              accessibilityRole="button"
+              accessibilityLabel={`Apply ${allResolved ? "all" : `${resolvedCount} of ${steps.length}`} decisions`}
+              accessibilityState={{ disabled: !allResolved }}
+            >
+              <Text style={styles.resolveButtonText}>
+                Apply {allResolved ? "All" : `(${resolvedCount}/${steps.length})`}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={styles.resolveButton}
+              onPress={() => setStepIndex(stepIndex + 1)}
+              accessibilityRole="button"
+              accessibilityLabel="Next conflict"
+            >
+              <Text style={styles.resolveButtonText}>Next</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     </Modal>
@@ -321,6 +369,7 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.lg,
   },
   cardTitleRow: {
+    flex: 1,
     flexDirection: "row",
     alignItems: "center",
     gap: SPACING.sm,
@@ -337,97 +386,79 @@ const styles = StyleSheet.create({
     color: COLORS.white,
   },
   cardTitle: {
+    flex: 1,
     fontSize: FONT_SIZES.base,
     fontWeight: "600",
     color: COLORS.gray[900],
   },
-  cardId: {
-    fontSize: 11,
-    color: COLORS.gray[400],
-    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+  fieldName: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: "700",
+    color: COLORS.gray[900],
+    marginBottom: SPACING.md,
   },
-  versionsContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    marginBottom: SPACING.lg,
-    paddingVertical: SPACING.md,
-    backgroundColor: COLORS.white,
+  baseValueBox: {
+    padding: SPACING.md,
     borderRadius: BORDER_RADIUS.md,
-    paddingHorizontal: SPACING.sm,
+    backgroundColor: COLORS.gray[100],
+    marginBottom: SPACING.md,
   },
-  versionColumn: {
-    alignItems: "center",
-    flex: 1,
+  baseValueText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.gray[500],
   },
-  versionIconContainer: {
-    width: 36,
-    height: 36,
-    borderRadius: 18,
-    backgroundColor: COLORS.gray[100],
-    justifyContent: "center",
+  valueLabel: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: "600",
+    color: COLORS.gray[500],
+    marginBottom: 2,
+  },
+  valueOption: {
+    padding: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.gray[300],
+    backgroundColor: COLORS.white,
+    marginBottom: SPACING.sm,
+    minHeight: TOUCH_TARGET.recommended,
+  },
+  valueOptionSelected: {
+    borderColor: COLORS.primary[500],
+    backgroundColor: `${COLORS.primary[500]}15`,
+  },
+  valueOptionHeader: {
+    flexDirection: "row",
     alignItems: "center",
+    gap: SPACING.xs,
     marginBottom: SPACING.xs,
   },
+  valueText: {
+    fontSize: FONT_SIZES.base,
+    color: COLORS.gray[900],
+  },
   versionIcon: {
-    fontSize: 18,
+    fontSize: 16,
   },
   versionLabel: {
     fontSize: FONT_SIZES.xs,
     fontWeight: "600",
     color: COLORS.gray[600],
-    marginBottom: 2,
   },
   versionTime: {
     fontSize: 11,
     color: COLORS.gray[500],
-    textAlign: "center",
-  },
-  separatorContainer: {
-    flexDirection: "column",
-    alignItems: "center",
-    paddingHorizontal: SPACING.sm,
+    marginLeft: "auto",
   },
-  separatorLine: {
-    width: 1,
-    height: 12,
-    backgroundColor: COLORS.gray[200],
+  stepText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: "600",
+    color: COLORS.gray[500],
   },
-  versionSeparator: {
+  autoMergedText: {
     fontSize: FONT_SIZES.xs,
-    color: COLORS.gray[400],
-    fontWeight: "500",
-    paddingVertical: 4,
-  },
-  resolutionButtons: {
-    flexDirection: "row",
-    gap: SPACING.sm,
-  },
-  resolutionButton: {
-    flex: 1,
-    paddingVertical: SPACING.md,
-    paddingHorizontal: SPACING.md,
-    borderRadius: BORDER_RADIUS.md,
-    borderWidth: 1,
-    borderColor: COLORS.gray[300],
-    backgroundColor: COLORS.white,
-    alignItems: "center",
-    minHeight: TOUCH_TARGET.minimum,
-    justifyContent: "center",
-  },
-  resolutionButtonSelected: {
-    borderColor: COLORS.primary[500],
-    backgroundColor: `${COLORS.primary[500]}15`,
-  },
-  resolutionButtonText: {
-    fontSize: FONT_SIZES.sm,
-    fontWeight: "500",
-    color: COLORS.gray[600],
+    color: COLORS.gray[500],
     textAlign: "center",
-  },
-  resolutionButtonTextSelected: {
-    color: COLORS.primary[500],
-    fontWeight: "600",
+    marginTop: SPACING.xs,
   },
   footer: {
     flexDirection: "row",
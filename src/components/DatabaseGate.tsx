@@ -0,0 +1,130 @@
+/**
+ * DatabaseGate Component
+ * Holds back authenticated screens until the encrypted local data is unlocked
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Platform } from "react-native";
+import { useRouter } from "expo-router";
+import { useAuthStore } from "../stores/auth-store";
+
+interface DatabaseGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Renders children once the local database is open.
+ * Unlocking prompts for biometrics when the user has them enabled; if the
+ * prompt is cancelled or the database can't be opened the user can retry
+ * or sign out. Web has no local database, so children render immediately.
+ */
+export function DatabaseGate({ children }: DatabaseGateProps) {
+  const router = useRouter();
+  const isDataUnlocked = useAuthStore((state) => state.isDataUnlocked);
+  const unlockLocalData = useAuthStore((state) => state.unlockLocalData);
+  const logout = useAuthStore((state) => state.logout);
+
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const attemptUnlock = useCallback(async () => {
+    setError(null);
+    setIsUnlocking(true);
+    const result = await unlockLocalData();
+    if (!result.success) {
+      setError(result.error || "Unable to open local data");
+    }
+    setIsUnlocking(false);
+  }, [unlockLocalData]);
+
+  useEffect(() => {
+    if (Platform.OS !== "web" && !isDataUnlocked) {
+      attemptUnlock();
+    }
+  }, [isDataUnlocked, attemptUnlock]);
+
+  const handleSignOut = async () => {
+    await logout();
+    router.replace("/(auth)/login");
+  };
+
+  if (Platform.OS === "web" || isDataUnlocked) {
+    return <>{children}</>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {isUnlocking || !error ? (
+        <>
+          <ActivityIndicator size="large" color="#3c4b5d" />
+          <Text style={styles.loadingText}>Unlocking inspection data...</Text>
+        </>
+      ) : (
+        <View style={styles.content}>
+          <Text style={styles.title}>Inspection Data Locked</Text>
+          <Text style={styles.errorText}>{error}</Text>
+
+          <TouchableOpacity style={styles.primaryButton} onPress={attemptUnlock}>
+            <Text style={styles.primaryButtonText}>Try Again</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleSignOut}>
+            <Text style={styles.secondaryButtonText}>Sign Out</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+    paddingHorizontal: 24,
+  },
+  content: {
+    alignItems: "center",
+    width: "100%",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: "#6b7280",
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "bold",
+    color: "#1e293b",
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: "#dc2626",
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  primaryButton: {
+    backgroundColor: "#3c4b5d",
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+    width: "100%",
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    color: "#64748b",
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,26 @@
+/**
+ * DecryptedImage Component
+ * Image for local evidence files that may be encrypted at rest
+ *
+ * Drop-in for <Image source={{ uri }}>: encrypted files are shown from a
+ * decrypted temp copy, everything else renders unchanged.
+ */
+
+import React from "react";
+import { Image, View, type ImageProps } from "react-native";
+import { useDecryptedUri } from "../hooks/useDecryptedUri";
+
+interface DecryptedImageProps extends Omit<ImageProps, "source"> {
+  uri: string | null | undefined;
+}
+
+export function DecryptedImage({ uri, style, ...props }: DecryptedImageProps) {
+  const displayUri = useDecryptedUri(uri);
+
+  // Keep the layout while the decrypted copy is being written
+  if (!displayUri) {
+    return <View style={style} />;
+  }
+
+  return <Image {...props} source={{ uri: displayUri }} style={style} />;
+}
@@ -0,0 +1,228 @@
+/**
+ * DefectDictation Component
+ * Guided dictation of observation, analysis and opinion, one voice note per field
+ */
+
+import React, { useState, useEffect, useRef } from "react";
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import { VoiceNoteRecorder } from "./VoiceNoteRecorder";
+import { voiceNoteService, type VoiceNoteMetadata } from "../services/voice-note-service";
+import { transcriptionService } from "../services/transcription-service";
+import {
+  DICTATION_STEPS,
+  completeDictation,
+  dictationFieldFor,
+  nextDictationField,
+  startDictation,
+  updateDictationStatus,
+  type DictationState,
+} from "../lib/dictation";
+import { TRANSCRIPTION_STATUS_LABELS } from "../lib/transcription";
+import type { DictationField } from "../types/shared";
+
+interface DefectDictationProps {
+  reportId: string;
+  defectId: string;
+  roofElementId?: string;
+  dictation: DictationState;
+  onDictationChange: (dictation: DictationState) => void;
+  /** A field's transcript arrived; previousTranscript is the one it replaces */
+  onTranscript: (field: DictationField, transcript: string, previousTranscript: string | null) => void;
+}
+
+export function DefectDictation({
+  reportId,
+  defectId,
+  roofElementId,
+  dictation,
+  onDictationChange,
+  onTranscript,
+}: DefectDictationProps) {
+  const [activeField, setActiveField] = useState<DictationField>(nextDictationField(dictation) ?? "observation");
+  const [progress, setProgress] = useState<Partial<Record<DictationField, number>>>({});
+
+  // The subscription outlives renders; read the latest props through refs
+  const dictationRef = useRef(dictation);
+  const callbacksRef = useRef({ onDictationChange, onTranscript });
+  dictationRef.current = dictation;
+  callbacksRef.current = { onDictationChange, onTranscript };
+
+  useEffect(() => {
+    return transcriptionService.subscribe((update) => {
+      const current = dictationRef.current;
+      const field = dictationFieldFor(current, update.voiceNoteId);
+      if (!field) return;
+
+      setProgress((existing) => ({ ...existing, [field]: update.progress }));
+
+      if (update.status === "completed" && update.transcript) {
+        const previous = current[field]?.transcript ?? null;
+        const next = completeDictation(current, update.voiceNoteId, update.transcript);
+        dictationRef.current = next;
+        callbacksRef.current.onTranscript(field, update.transcript, previous);
+        callbacksRef.current.onDictationChange(next);
+      } else {
+        const next = updateDictationStatus(current, update.voiceNoteId, update.status);
+        dictationRef.current = next;
+        callbacksRef.current.onDictationChange(next);
+      }
+    });
+  }, []);
+
+  const handleRecordingComplete = async (voiceNote: VoiceNoteMetadata) => {
+    const result = startDictation(dictationRef.current, activeField, voiceNote.id);
+    dictationRef.current = result.state;
+    onDictationChange(result.state);
+    setActiveField(nextDictationField(result.state) ?? activeField);
+
+    // One current note per field: the earlier take is kept as evidence
+    if (result.replacedVoiceNoteId) {
+      try {
+        await voiceNoteService.supersedeVoiceNote(result.replacedVoiceNoteId, voiceNote.id);
+      } catch (error) {
+        console.warn("[DefectDictation] Failed to mark replaced recording superseded:", error);
+      }
+    }
+  };
+
+  const handleSelectField = (field: DictationField) => {
+    if (!dictation[field] || field === activeField) {
+      setActiveField(field);
+      return;
+    }
+    Alert.alert(
+      "Dictate Again?",
+      "A new recording replaces the previous one for this field; the earlier recording is kept as evidence. Text you have typed is kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Dictate Again", onPress: () => setActiveField(field) },
+      ]
+    );
+  };
+
+  const statusLabel = (field: DictationField): string => {
+    const entry = dictation[field];
+    if (!entry) return "Not recorded";
+    if (entry.status === "processing" && progress[field] !== undefined) {
+      return `${TRANSCRIPTION_STATUS_LABELS.processing} ${Math.round(progress[field]! * 100)}%`;
+    }
+    if (entry.status === "completed") return entry.reviewed ? "Reviewed" : "Check text";
+    return TRANSCRIPTION_STATUS_LABELS[entry.status];
+  };
+
+  const activeStep = DICTATION_STEPS.find((step) => step.field === activeField)!;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.steps}>
+        {DICTATION_STEPS.map((step, index) => {
+          const entry = dictation[step.field];
+          const isActive = step.field === activeField;
+          return (
+            <TouchableOpacity
+              key={step.field}
+              style={[styles.step, isActive && styles.stepActive]}
+              onPress={() => handleSelectField(step.field)}
+            >
+              <Text style={[styles.stepLabel, isActive && styles.stepLabelActive]}>
+                {index + 1}. {step.label}
+              </Text>
+              <Text
+                style={[
+                  styles.stepStatus,
+                  isActive && styles.stepStatusActive,
+                  entry?.status === "failed" && styles.stepStatusFailed,
+                ]}
+                numberOfLines={1}
+              >
+                {statusLabel(step.field)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.prompt}>{activeStep.prompt}</Text>
+
+      <VoiceNoteRecorder
+        reportId={reportId}
+        defectId={defectId}
+        roofElementId={roofElementId}
+        dictationField={activeField}
+        recordLabel={`Dictate ${activeStep.label}`}
+        onRecordingComplete={handleRecordingComplete}
+        showList={false}
+      />
+
+      {dictation[activeField]?.status === "failed" && (
+        <TouchableOpacity
+          style={styles.retryButton}
+          onPress={() => transcriptionService.enqueue(dictation[activeField]!.voiceNoteId)}
+        >
+          <Text style={styles.retryButtonText}>Retry Transcription</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  steps: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  step: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  stepActive: {
+    backgroundColor: "#3c4b5d",
+    borderColor: "#3c4b5d",
+  },
+  stepLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  stepLabelActive: {
+    color: "#ffffff",
+  },
+  stepStatus: {
+    fontSize: 11,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  stepStatusActive: {
+    color: "#cbd5e1",
+  },
+  stepStatusFailed: {
+    color: "#ef4444",
+  },
+  prompt: {
+    fontSize: 13,
+    color: "#64748b",
+    marginTop: 10,
+  },
+  retryButton: {
+    alignSelf: "flex-start",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    backgroundColor: "#fee2e2",
+  },
+  retryButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#b91c1c",
+  },
+});
+
+export default DefectDictation;
@@ -0,0 +1,232 @@
+/**
+ * DefectTemplatePicker Component
+ * Searchable list of defect library templates for pre-filling a new defect
+ *
+ * Templates for the linked roof element's type are listed first.
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+} from "react-native";
+import { SeverityBadge } from "./badges/SeverityBadge";
+import { filterDefectTemplates } from "../lib/defect-library";
+import type { LocalDefectTemplate } from "../types/database";
+import type { ElementType } from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface DefectTemplatePickerProps {
+  visible: boolean;
+  templates: LocalDefectTemplate[];
+  /** Element type of the roof element the defect is linked to */
+  elementType?: ElementType | null;
+  onSelect: (template: LocalDefectTemplate) => void;
+  onClose: () => void;
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function DefectTemplatePicker({
+  visible,
+  templates,
+  elementType,
+  onSelect,
+  onClose,
+}: DefectTemplatePickerProps) {
+  const [query, setQuery] = useState("");
+
+  const filtered = useMemo(
+    () => filterDefectTemplates(templates, { query, elementType }),
+    [templates, query, elementType]
+  );
+
+  const handleSelect = (template: LocalDefectTemplate) => {
+    setQuery("");
+    onSelect(template);
+  };
+
+  const renderItem = ({ item }: { item: LocalDefectTemplate }) => (
+    <TouchableOpacity
+      style={styles.item}
+      onPress={() => handleSelect(item)}
+      accessibilityRole="button"
+      accessibilityLabel={`Use defect template ${item.name}`}
+    >
+      <View style={styles.itemHeader}>
+        <Text style={styles.itemName} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <SeverityBadge severity={item.severity} size="sm" />
+      </View>
+      {item.elementType && (
+        <Text style={styles.itemElement}>{item.elementType.replace(/_/g, " ")}</Text>
+      )}
+      <Text style={styles.itemObservation} numberOfLines={2}>
+        {item.observation}
+      </Text>
+      {(item.codeReference || item.copReference) && (
+        <Text style={styles.itemReference} numberOfLines={1}>
+          {[item.codeReference, item.copReference].filter(Boolean).join(" · ")}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Defect Library</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeButton}>Close</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.searchContainer}>
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search by name, wording or code reference"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+          />
+        </View>
+        <FlatList
+          data={filtered}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyTitle}>
+                {templates.length === 0 ? "Defect library is empty" : "No matching templates"}
+              </Text>
+              <Text style={styles.emptySubtitle}>
+                {templates.length === 0
+                  ? "The library is downloaded when the app syncs with the server."
+                  : "Try a different search term."}
+              </Text>
+            </View>
+          }
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingTop: 16,
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+    backgroundColor: "#ffffff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e2e8f0",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1e293b",
+  },
+  closeButton: {
+    fontSize: 16,
+    color: "#3c4b5d",
+    fontWeight: "600",
+  },
+  searchContainer: {
+    padding: 16,
+    backgroundColor: "#ffffff",
+  },
+  searchInput: {
+    backgroundColor: "#f9fafb",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#1f2937",
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  item: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  itemHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1e293b",
+  },
+  itemElement: {
+    fontSize: 12,
+    color: "#64748b",
+    marginTop: 2,
+    textTransform: "capitalize",
+  },
+  itemObservation: {
+    fontSize: 13,
+    color: "#374151",
+    marginTop: 6,
+    lineHeight: 18,
+  },
+  itemReference: {
+    fontSize: 12,
+    color: "#3c4b5d",
+    marginTop: 6,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 60,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1e293b",
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: "#64748b",
+    textAlign: "center",
+    lineHeight: 20,
+  },
+});
@@ -1,6 +1,10 @@
 /**
  * MeasurementTool Component
  * Measure distances and areas on photos with calibration support
+ *
+ * Calibrate with a line along a reference object when the roof faces the
+ * camera, or mark the corners of a known rectangle (e.g. one roofing sheet)
+ * to correct for perspective on oblique photos.
  */
 
 import React, { useState, useRef, useEffect } from "react";
@@ -18,6 +22,18 @@ import {
 } from "react-native";
 import Svg, { Line, Circle, Rect, Polygon, G, Text as SvgText } from "react-native-svg";
 import { captureRef } from "react-native-view-shot";
+import { useDecryptedUri } from "../hooks/useDecryptedUri";
+import {
+  REFERENCE_OBJECTS,
+  applyCalibration,
+  createCalibration,
+  createPerspectiveCalibration,
+  formatTolerance,
+  getReferenceObject,
+  reuseCalibration,
+  type ReferenceObjectId,
+  type SharedCalibration,
+} from "../lib/measurement-calibration";
 
 // ============================================
 // TYPES
@@ -25,6 +41,8 @@ import { captureRef } from "react-native-view-shot";
 
 export type MeasurementType = "line" | "rectangle" | "polygon";
 
+export type CalibrationMode = "line" | "rectangle";
+
 export interface Point {
   x: number;
   y: number;
@@ -37,6 +55,7 @@ export interface LineMeasurement {
   end: Point;
   pixelLength: number;
   realLength: number | null; // in mm
+  realLengthUncertainty?: number | null; // ± mm
 }
 
 export interface RectMeasurement {
@@ -49,6 +68,7 @@ export interface RectMeasurement {
   realWidth: number | null; // in mm
   realHeight: number | null; // in mm
   realArea: number | null; // in mm²
+  realAreaUncertainty?: number | null; // ± mm²
 }
 
 export interface PolygonMeasurement {
@@ -59,6 +79,7 @@ export interface PolygonMeasurement {
   pixelArea: number;
   realPerimeter: number | null; // in mm
   realArea: number | null; // in mm²
+  realAreaUncertainty?: number | null; // ± mm²
 }
 
 export type Measurement = LineMeasurement | RectMeasurement | PolygonMeasurement;
@@ -66,12 +87,24 @@ export type Measurement = LineMeasurement | RectMeasurement | PolygonMeasurement
 export interface Calibration {
   pixelsPerMm: number;
   referenceDescription: string;
+  referenceId?: string; // Reference object preset used
+  referenceLengthMm?: number;
+  referencePixelLength?: number;
+  relativeUncertainty?: number | null; // e.g. 0.02 for ±2%
+  sourcePhotoId?: string | null; // Set when reused from another photo in the group
+  // Perspective mode: four marked corners of a known rectangle
+  mode?: "scale" | "perspective";
+  homography?: number[] | null; // 3x3 row-major, screen px to plane mm
+  referenceCorners?: Point[];
+  referenceWidthMm?: number;
 }
 
 interface MeasurementToolProps {
   imageUri: string;
   existingMeasurements?: Measurement[];
   existingCalibration?: Calibration | null;
+  /** Calibrations from SCALE_REFERENCE photos in the same group */
+  sharedCalibrations?: SharedCalibration[];
   onSave: (
     measurements: Measurement[],
     calibration: Calibration | null,
@@ -113,8 +146,11 @@ function calculatePolygonPerimeter(points: Point[]): number {
   return perimeter;
 }
 
-function formatMeasurement(value: number | null, unit: string): string {
+function formatMeasurement(value: number | null, unit: string, uncertainty?: number | null): string {
   if (value === null) return "---";
+  if (uncertainty !== null && uncertainty !== undefined && value > 0) {
+    return `${formatMeasurement(value, unit)} ±${((uncertainty / value) * 100).toFixed(0)}%`;
+  }
   if (value >= 1000 && unit === "mm") {
     return `${(value / 1000).toFixed(2)} m`;
   }
@@ -134,6 +170,7 @@ export function MeasurementTool({
   imageUri,
   existingMeasurements = [],
   existingCalibration = null,
+  sharedCalibrations = [],
   onSave,
   onCancel,
 }: MeasurementToolProps) {
@@ -144,9 +181,13 @@ export function MeasurementTool({
   const [selectedTool, setSelectedTool] = useState<MeasurementType>("line");
   const [isCalibrating, setIsCalibrating] = useState(false);
   const [showCalibrationModal, setShowCalibrationModal] = useState(false);
+  const [calibrationMode, setCalibrationMode] = useState<CalibrationMode>("line");
   const [calibrationLine, setCalibrationLine] = useState<{ start: Point; end: Point } | null>(null);
+  const [calibrationCorners, setCalibrationCorners] = useState<Point[]>([]);
   const [calibrationValue, setCalibrationValue] = useState("");
+  const [calibrationLengthValue, setCalibrationLengthValue] = useState("");
   const [calibrationDescription, setCalibrationDescription] = useState("");
+  const [referenceId, setReferenceId] = useState<ReferenceObjectId>("tape");
 
   // Drawing state
   const [currentPoints, setCurrentPoints] = useState<Point[]>([]);
@@ -167,15 +208,19 @@ export function MeasurementTool({
   useEffect(() => { currentPointsRef.current = currentPoints; }, [currentPoints]);
   useEffect(() => { isCalibratingRef.current = isCalibrating; }, [isCalibrating]);
 
+  // Encrypted photos are measured on their decrypted copy
+  const displayUri = useDecryptedUri(imageUri);
+
   // Load image dimensions
   useEffect(() => {
-    Image.getSize(imageUri, (width, height) => {
+    if (!displayUri) return;
+    Image.getSize(displayUri, (width, height) => {
       const aspectRatio = width / height;
       const displayWidth = SCREEN_WIDTH;
       const displayHeight = displayWidth / aspectRatio;
       setImageSize({ width: displayWidth, height: displayHeight });
     });
-  }, [imageUri]);
+  }, [displayUri]);
 
   const handleImageLayout = (event: any) => {
     const { x, y, width, height } = event.nativeEvent.layout;
@@ -193,6 +238,16 @@ export function MeasurementTool({
     const { pageX, pageY } = event.nativeEvent;
     const point = getRelativePoint(pageX, pageY);
 
+    if (isCalibratingRef.current && calibrationMode === "rectangle") {
+      // Corners are tapped one at a time, in order around the rectangle
+      const corners = [...calibrationCorners, point];
+      setCalibrationCorners(corners);
+      if (corners.length === 4) {
+        setShowCalibrationModal(true);
+      }
+      return;
+    }
+
     if (isCalibratingRef.current) {
       setCalibrationLine({ start: point, end: point });
       return;
@@ -254,9 +309,9 @@ export function MeasurementTool({
           start: points[0],
           end: points[1],
           pixelLength,
-          realLength: calibration ? pixelLength / calibration.pixelsPerMm : null,
+          realLength: null,
         };
-        setMeasurements([...measurements, newMeasurement]);
+        setMeasurements([...measurements, applyCalibration(newMeasurement, calibration)]);
       }
       setCurrentPoints([]);
       setIsDrawing(false);
@@ -271,13 +326,11 @@ export function MeasurementTool({
           end: points[1],
           pixelWidth,
           pixelHeight,
-          realWidth: calibration ? pixelWidth / calibration.pixelsPerMm : null,
-          realHeight: calibration ? pixelHeight / calibration.pixelsPerMm : null,
-          realArea: calibration
-            ? (pixelWidth / calibration.pixelsPerMm) * (pixelHeight / calibration.pixelsPerMm)
-            : null,
+          realWidth: null,
+          realHeight: null,
+          realArea: null,
         };
-        setMeasurements([...measurements, newMeasurement]);
+        setMeasurements([...measurements, applyCalibration(newMeasurement, calibration)]);
       }
       setCurrentPoints([]);
       setIsDrawing(false);
@@ -311,12 +364,10 @@ export function MeasurementTool({
           points: [...currentPoints],
           pixelPerimeter,
           pixelArea,
-          realPerimeter: calibration ? pixelPerimeter / calibration.pixelsPerMm : null,
-          realArea: calibration
-            ? pixelArea / (calibration.pixelsPerMm * calibration.pixelsPerMm)
-            : null,
+          realPerimeter: null,
+          realArea: null,
         };
-        setMeasurements([...measurements, newMeasurement]);
+        setMeasurements([...measurements, applyCalibration(newMeasurement, calibration)]);
         setCurrentPoints([]);
         setIsDrawing(false);
       } else {
@@ -326,55 +377,87 @@ export function MeasurementTool({
     }
   };
 
-  const handleCalibrationSave = () => {
-    const value = parseFloat(calibrationValue);
-    if (isNaN(value) || value <= 0) {
-      Alert.alert("Invalid Value", "Please enter a valid measurement in millimeters.");
+  const closeCalibrationModal = () => {
+    setShowCalibrationModal(false);
+    setCalibrationLine(null);
+    setCalibrationCorners([]);
+    setCalibrationValue("");
+    setCalibrationLengthValue("");
+    setCalibrationDescription("");
+  };
+
+  const applyNewCalibration = (newCalibration: Calibration) => {
+    setCalibration(newCalibration);
+    // Update all existing measurements with new calibration
+    setMeasurements(measurements.map((m) => applyCalibration(m, newCalibration)));
+  };
+
+  const handlePerspectiveCalibrationSave = () => {
+    const widthMm = parseFloat(calibrationValue);
+    const lengthMm = parseFloat(calibrationLengthValue);
+    if (isNaN(widthMm) || widthMm <= 0 || isNaN(lengthMm) || lengthMm <= 0) {
+      Alert.alert("Invalid Value", "Please enter the rectangle's width and length in millimeters.");
       return;
     }
 
-    if (!calibrationLine) return;
+    const newCalibration = createPerspectiveCalibration({
+      corners: calibrationCorners,
+      widthMm,
+      lengthMm,
+      description: calibrationDescription,
+    });
+    if (!newCalibration) {
+      Alert.alert(
+        "Invalid Rectangle",
+        "Mark the four corners in order around the rectangle, without crossing sides."
+      );
+      closeCalibrationModal();
+      return;
+    }
 
-    const pixelLength = calculateDistance(calibrationLine.start, calibrationLine.end);
-    const pixelsPerMm = pixelLength / value;
+    applyNewCalibration(newCalibration);
+    closeCalibrationModal();
+    setIsCalibrating(false);
+  };
 
-    const newCalibration: Calibration = {
-      pixelsPerMm,
-      referenceDescription: calibrationDescription || "Reference line",
-    };
+  const handleCalibrationSave = () => {
+    if (calibrationMode === "rectangle") {
+      handlePerspectiveCalibrationSave();
+      return;
+    }
+    if (!calibrationLine) return;
 
-    setCalibration(newCalibration);
+    const reference = getReferenceObject(referenceId);
+    const value = parseFloat(calibrationValue);
+    if (!reference?.lengthMm && (isNaN(value) || value <= 0)) {
+      Alert.alert("Invalid Value", "Please enter a valid measurement in millimeters.");
+      return;
+    }
 
-    // Update all existing measurements with new calibration
-    setMeasurements(measurements.map(m => {
-      if (m.type === "line") {
-        return { ...m, realLength: m.pixelLength / pixelsPerMm };
-      } else if (m.type === "rectangle") {
-        const realWidth = m.pixelWidth / pixelsPerMm;
-        const realHeight = m.pixelHeight / pixelsPerMm;
-        return {
-          ...m,
-          realWidth,
-          realHeight,
-          realArea: realWidth * realHeight
-        };
-      } else if (m.type === "polygon") {
-        return {
-          ...m,
-          realPerimeter: m.pixelPerimeter / pixelsPerMm,
-          realArea: m.pixelArea / (pixelsPerMm * pixelsPerMm),
-        };
-      }
-      return m;
-    }));
+    const newCalibration = createCalibration({
+      referenceId,
+      lengthMm: value,
+      pixelLength: calculateDistance(calibrationLine.start, calibrationLine.end),
+      description: calibrationDescription,
+    });
+    if (!newCalibration) return;
 
-    setShowCalibrationModal(false);
-    setCalibrationLine(null);
-    setCalibrationValue("");
-    setCalibrationDescription("");
+    applyNewCalibration(newCalibration);
+    closeCalibrationModal();
     setIsCalibrating(false);
   };
 
+  const handleUseSharedCalibration = (shared: SharedCalibration) => {
+    Alert.alert(
+      "Use Group Calibration",
+      `Apply "${shared.calibration.referenceDescription}" to this photo? Only use it for photos taken from the same position and zoom.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Apply", onPress: () => applyNewCalibration(reuseCalibration(shared)) },
+      ]
+    );
+  };
+
   const handleUndo = () => {
     if (measurements.length > 0) {
       setMeasurements(measurements.slice(0, -1));
@@ -425,7 +508,7 @@ export function MeasurementTool({
     if (m.type === "line") {
       const midX = (m.start.x + m.end.x) / 2;
       const midY = (m.start.y + m.end.y) / 2;
-      const label = formatMeasurement(m.realLength, "mm");
+      const label = formatMeasurement(m.realLength, "mm", m.realLengthUncertainty);
 
       return (
         <G key={m.id}>
@@ -440,9 +523,9 @@ export function MeasurementTool({
           <Circle cx={m.start.x} cy={m.start.y} r={6} fill={color} />
           <Circle cx={m.end.x} cy={m.end.y} r={6} fill={color} />
           <Rect
-            x={midX - 35}
+            x={midX - 50}
             y={midY - 12}
-            width={70}
+            width={100}
             height={24}
             fill="rgba(0,0,0,0.7)"
             rx={4}
@@ -466,7 +549,7 @@ export function MeasurementTool({
       const height = Math.abs(m.end.y - m.start.y);
       const centerX = x + width / 2;
       const centerY = y + height / 2;
-      const areaLabel = formatMeasurement(m.realArea, "mm²");
+      const areaLabel = formatMeasurement(m.realArea, "mm²", m.realAreaUncertainty);
       const widthLabel = formatMeasurement(m.realWidth, "mm");
       const heightLabel = formatMeasurement(m.realHeight, "mm");
 
@@ -492,7 +575,7 @@ export function MeasurementTool({
             {heightLabel}
           </SvgText>
           {/* Area label */}
-          <Rect x={centerX - 40} y={centerY - 12} width={80} height={24} fill="rgba(0,0,0,0.8)" rx={4} />
+          <Rect x={centerX - 55} y={centerY - 12} width={110} height={24} fill="rgba(0,0,0,0.8)" rx={4} />
           <SvgText x={centerX} y={centerY + 5} fill="#fff" fontSize={12} fontWeight="bold" textAnchor="middle">
             {areaLabel}
           </SvgText>
@@ -504,7 +587,7 @@ export function MeasurementTool({
         (acc, p) => ({ x: acc.x + p.x / m.points.length, y: acc.y + p.y / m.points.length }),
         { x: 0, y: 0 }
       );
-      const areaLabel = formatMeasurement(m.realArea, "mm²");
+      const areaLabel = formatMeasurement(m.realArea, "mm²", m.realAreaUncertainty);
 
       return (
         <G key={m.id}>
@@ -517,7 +600,7 @@ export function MeasurementTool({
           {m.points.map((p, i) => (
             <Circle key={i} cx={p.x} cy={p.y} r={5} fill={color} />
           ))}
-          <Rect x={centroid.x - 40} y={centroid.y - 12} width={80} height={24} fill="rgba(0,0,0,0.8)" rx={4} />
+          <Rect x={centroid.x - 55} y={centroid.y - 12} width={110} height={24} fill="rgba(0,0,0,0.8)" rx={4} />
           <SvgText x={centroid.x} y={centroid.y + 5} fill="#fff" fontSize={12} fontWeight="bold" textAnchor="middle">
             {areaLabel}
           </SvgText>
@@ -593,6 +676,42 @@ export function MeasurementTool({
     return null;
   };
 
+  const renderCalibrationCorners = () => {
+    if (calibrationCorners.length === 0) return null;
+    return (
+      <G>
+        {calibrationCorners.length === 4 ? (
+          <Polygon
+            points={calibrationCorners.map((p) => `${p.x},${p.y}`).join(" ")}
+            stroke="#ff00ff"
+            strokeWidth={3}
+            fill="rgba(255,0,255,0.1)"
+          />
+        ) : (
+          calibrationCorners.slice(1).map((p, i) => (
+            <Line
+              key={i}
+              x1={calibrationCorners[i].x}
+              y1={calibrationCorners[i].y}
+              x2={p.x}
+              y2={p.y}
+              stroke="#ff00ff"
+              strokeWidth={3}
+            />
+          ))
+        )}
+        {calibrationCorners.map((p, i) => (
+          <G key={`corner-${i}`}>
+            <Circle cx={p.x} cy={p.y} r={10} fill="#ff00ff" />
+            <SvgText x={p.x} y={p.y + 4} fill="#fff" fontSize={11} fontWeight="bold" textAnchor="middle">
+              {i + 1}
+            </SvgText>
+          </G>
+        ))}
+      </G>
+    );
+  };
+
   const renderCalibrationLine = () => {
     if (!calibrationLine) return null;
     return (
@@ -633,6 +752,9 @@ export function MeasurementTool({
             <View style={styles.calibratedDot} />
             <Text style={styles.calibrationText}>
               Calibrated: {calibration.referenceDescription}
+              {formatTolerance(calibration.relativeUncertainty) ? ` (${formatTolerance(calibration.relativeUncertainty)})` : ""}
+              {calibration.mode === "perspective" ? " · perspective" : ""}
+              {calibration.sourcePhotoId ? " · from group" : ""}
             </Text>
           </View>
         ) : (
@@ -645,6 +767,7 @@ export function MeasurementTool({
           onPress={() => {
             setIsCalibrating(!isCalibrating);
             setCalibrationLine(null);
+            setCalibrationCorners([]);
             if (isDrawing) {
               setCurrentPoints([]);
               setIsDrawing(false);
@@ -657,6 +780,51 @@ export function MeasurementTool({
         </TouchableOpacity>
       </View>
 
+      {/* Group Calibrations */}
+      {!isCalibrating && sharedCalibrations.length > 0 && (
+        <View style={styles.sharedBar}>
+          <Text style={styles.sharedLabel}>Group:</Text>
+          {sharedCalibrations.map((shared) => (
+            <TouchableOpacity
+              key={shared.photoId}
+              style={[
+                styles.sharedChip,
+                calibration?.sourcePhotoId === shared.photoId && styles.sharedChipActive,
+              ]}
+              onPress={() => handleUseSharedCalibration(shared)}
+            >
+              <Text style={styles.sharedChipText} numberOfLines={1}>
+                {shared.calibration.referenceDescription}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Calibration Mode */}
+      {isCalibrating && (
+        <View style={styles.toolBar}>
+          <TouchableOpacity
+            style={[styles.toolButton, calibrationMode === "line" && styles.toolButtonActive]}
+            onPress={() => {
+              setCalibrationMode("line");
+              setCalibrationCorners([]);
+            }}
+          >
+            <Text style={styles.toolButtonText}>📏 Reference</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toolButton, calibrationMode === "rectangle" && styles.toolButtonActive]}
+            onPress={() => {
+              setCalibrationMode("rectangle");
+              setCalibrationLine(null);
+            }}
+          >
+            <Text style={styles.toolButtonText}>⬜ Perspective</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Tool Selector */}
       {!isCalibrating && (
         <View style={styles.toolBar}>
@@ -700,7 +868,7 @@ export function MeasurementTool({
         collapsable={false}
       >
         <Image
-          source={{ uri: imageUri }}
+          source={{ uri: displayUri ?? undefined }}
           style={[styles.image, { width: imageSize.width, height: imageSize.height }]}
           resizeMode="contain"
           onLayout={handleImageLayout}
@@ -709,7 +877,7 @@ export function MeasurementTool({
           style={[styles.svgContainer, { width: imageSize.width, height: imageSize.height }]}
           onStartShouldSetResponder={() => true}
           onMoveShouldSetResponder={() => true}
-          onResponderGrant={selectedTool === "polygon" ? handlePolygonTap : handleTouchStart}
+          onResponderGrant={selectedTool === "polygon" && !isCalibrating ? handlePolygonTap : handleTouchStart}
           onResponderMove={handleTouchMove}
           onResponderRelease={handleTouchEnd}
         >
@@ -717,6 +885,7 @@ export function MeasurementTool({
             {measurements.map(renderMeasurement)}
             {renderCurrentDrawing()}
             {renderCalibrationLine()}
+            {renderCalibrationCorners()}
           </Svg>
         </View>
 
@@ -724,8 +893,10 @@ export function MeasurementTool({
         {isCalibrating && (
           <View style={styles.instructionOverlay}>
             <Text style={styles.instructionText}>
-              Draw a line along a known measurement{"\n"}
-              (e.g., ruler, standard object)
+              {calibrationMode === "rectangle"
+                ? `Tap the corners of a known rectangle in order (${calibrationCorners.length}/4)\n` +
+                  "Corners 1 to 2 along its width, 2 to 3 along its length"
+                : "Draw a line along a known measurement\n(brick, corrugate, tape or scale card)"}
             </Text>
           </View>
         )}
@@ -759,46 +930,91 @@ export function MeasurementTool({
         visible={showCalibrationModal}
         transparent
         animationType="fade"
-        onRequestClose={() => {
-          setShowCalibrationModal(false);
-          setCalibrationLine(null);
-        }}
+        onRequestClose={closeCalibrationModal}
       >
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Set Reference Measurement</Text>
-            <Text style={styles.modalSubtitle}>
-              Enter the real-world length of the line you drew
-            </Text>
-
-            <View style={styles.inputContainer}>
-              <TextInput
-                style={styles.input}
-                value={calibrationValue}
-                onChangeText={setCalibrationValue}
-                placeholder="Length"
-                keyboardType="numeric"
-                autoFocus
-              />
-              <Text style={styles.inputUnit}>mm</Text>
-            </View>
+            {calibrationMode === "rectangle" ? (
+              <>
+                <Text style={styles.modalTitle}>Set Reference Rectangle</Text>
+                <Text style={styles.modalSubtitle}>
+                  Enter the size of the rectangle you marked, e.g. a sheet's cover width and length
+                </Text>
+
+                <View style={styles.inputContainer}>
+                  <TextInput
+                    style={styles.input}
+                    value={calibrationValue}
+                    onChangeText={setCalibrationValue}
+                    placeholder="Width 1→2"
+                    keyboardType="numeric"
+                    autoFocus
+                  />
+                  <Text style={styles.inputUnit}>mm</Text>
+                </View>
+                <View style={styles.inputContainer}>
+                  <TextInput
+                    style={styles.input}
+                    value={calibrationLengthValue}
+                    onChangeText={setCalibrationLengthValue}
+                    placeholder="Length 2→3"
+                    keyboardType="numeric"
+                  />
+                  <Text style={styles.inputUnit}>mm</Text>
+                </View>
+              </>
+            ) : (
+              <>
+                <Text style={styles.modalTitle}>Set Reference Measurement</Text>
+                <Text style={styles.modalSubtitle}>
+                  What did you draw along?
+                </Text>
+
+                <View style={styles.presetRow}>
+                  {REFERENCE_OBJECTS.map((reference) => (
+                    <TouchableOpacity
+                      key={reference.id}
+                      style={[styles.presetChip, referenceId === reference.id && styles.presetChipActive]}
+                      onPress={() => setReferenceId(reference.id)}
+                    >
+                      <Text style={styles.presetChipText}>
+                        {reference.label}
+                        {reference.lengthMm ? ` ${reference.lengthMm} mm` : ""}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.presetHint}>
+                  {getReferenceObject(referenceId)?.hint}
+                </Text>
+
+                {!getReferenceObject(referenceId)?.lengthMm && (
+                  <View style={styles.inputContainer}>
+                    <TextInput
+                      style={styles.input}
+                      value={calibrationValue}
+                      onChangeText={setCalibrationValue}
+                      placeholder="Length"
+                      keyboardType="numeric"
+                      autoFocus
+                    />
+                    <Text style={styles.inputUnit}>mm</Text>
+                  </View>
+                )}
+              </>
+            )}
 
             <TextInput
               style={styles.descriptionInput}
               value={calibrationDescription}
               onChangeText={setCalibrationDescription}
-              placeholder="Description (e.g., 'Ruler 100mm mark')"
+              placeholder="Description (optional)"
             />
 
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 style={styles.modalCancelButton}
-                onPress={() => {
-                  setShowCalibrationModal(false);
-                  setCalibrationLine(null);
-                  setCalibrationValue("");
-                  setCalibrationDescription("");
-                }}
+                onPress={closeCalibrationModal}
               >
                 <Text style={styles.modalCancelText}>Cancel</Text>
               </TouchableOpacity>
@@ -896,6 +1112,33 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "500",
   },
+  sharedBar: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: "#222",
+  },
+  sharedLabel: {
+    color: "#888",
+    fontSize: 12,
+  },
+  sharedChip: {
+    maxWidth: 160,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    backgroundColor: "#333",
+    borderRadius: 12,
+  },
+  sharedChipActive: {
+    backgroundColor: "#059669",
+  },
+  sharedChipText: {
+    color: "#fff",
+    fontSize: 12,
+  },
   toolBar: {
     flexDirection: "row",
     justifyContent: "center",
@@ -1005,6 +1248,30 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: "center",
   },
+  presetRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+  presetChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: "#333",
+    borderRadius: 16,
+  },
+  presetChipActive: {
+    backgroundColor: "#ff00ff",
+  },
+  presetChipText: {
+    color: "#fff",
+    fontSize: 13,
+  },
+  presetHint: {
+    color: "#888",
+    fontSize: 12,
+    marginBottom: 16,
+  },
   inputContainer: {
     flexDirection: "row",
     alignItems: "center",
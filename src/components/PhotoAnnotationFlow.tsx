@@ -16,12 +16,12 @@ import {
   TouchableOpacity,
   StyleSheet,
   Modal,
-  Image,
   ActivityIndicator,
   Alert,
   SafeAreaView,
 } from "react-native";
 import { PhotoAnnotator, type Annotation } from "./PhotoAnnotator";
+import { DecryptedImage } from "./DecryptedImage";
 import {
   saveAnnotations,
   loadAnnotations,
@@ -190,8 +190,8 @@ export function PhotoAnnotationFlow({
             <Text style={styles.loadingText}>Loading...</Text>
           </View>
         ) : (
-          <Image
-            source={{ uri: photo.localUri }}
+          <DecryptedImage
+            uri={photo.localUri}
             style={styles.image}
             resizeMode="contain"
           />
@@ -18,11 +18,11 @@ import {
   ActivityIndicator,
   Alert,
   TouchableOpacity,
-  Image,
   SafeAreaView,
   Modal,
 } from "react-native";
 import { PhotoAnnotator, type Annotation } from "./PhotoAnnotator";
+import { DecryptedImage } from "./DecryptedImage";
 import { usePhotoAnnotations } from "../hooks/usePhotoAnnotations";
 
 interface PhotoAnnotationScreenProps {
@@ -230,8 +230,8 @@ export function PhotoAnnotationScreen({
               </TouchableOpacity>
             </View>
             <View style={styles.originalImageContainer}>
-              <Image
-                source={{ uri: photo.localUri }}
+              <DecryptedImage
+                uri={photo.localUri}
                 style={styles.originalImage}
                 resizeMode="contain"
               />
@@ -20,7 +20,6 @@ import {
   TouchableOpacity,
   StyleSheet,
   SafeAreaView,
-  Image,
   Dimensions,
   Alert,
   PanResponder,
@@ -33,6 +32,7 @@ import {
 } from "react-native";
 import Svg, { Path, Circle, Rect, Line, G, Text as SvgText, Polygon } from "react-native-svg";
 import ViewShot from "react-native-view-shot";
+import { DecryptedImage } from "./DecryptedImage";
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
 
@@ -672,8 +672,8 @@ export function PhotoAnnotator({
             }}
             {...panResponder.panHandlers}
           >
-            <Image
-              source={{ uri: imageUri }}
+            <DecryptedImage
+              uri={imageUri}
               style={styles.image}
               resizeMode="contain"
             />
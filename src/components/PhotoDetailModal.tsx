@@ -8,6 +8,7 @@
  * - Camera make/model and EXIF data
  * - Evidence hash (SHA-256)
  * - Sync status
+ * - Calibrated measurements and their tolerance
  */
 
 import React, { useCallback, useState } from "react";
@@ -28,8 +29,17 @@ import * as Clipboard from "expo-clipboard";
 import type { LocalPhoto } from "../types/database";
 import { COLORS, BORDER_RADIUS, TOUCH_TARGET, SPACING } from "../lib/theme";
 import { PhotoEditSheet } from "./PhotoEditSheet";
+import { MeasurementTool, type Measurement, type Calibration } from "./MeasurementTool";
 import { useLocalDB } from "../hooks/useLocalDB";
+import { useCachedPhotoUri } from "../hooks/useCachedPhotoUri";
 import { photoService } from "../services/photo-service";
+import {
+  describeMeasurement,
+  formatTolerance,
+  parseCalibration,
+  sharedCalibrations,
+  type SharedCalibration,
+} from "../lib/measurement-calibration";
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
 
@@ -103,6 +113,16 @@ function formatQuickTag(tag: string | null): string | null {
   return tag.replace(/_/g, " ").toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
 }
 
+function parseMeasurements(json: string | null): Measurement[] {
+  if (!json) return [];
+  try {
+    const measurements = JSON.parse(json);
+    return Array.isArray(measurements) ? measurements : [];
+  } catch {
+    return [];
+  }
+}
+
 function truncateHash(hash: string, length: number = 16): string {
   if (hash.length <= length) return hash;
   return `${hash.substring(0, length)}...`;
@@ -177,7 +197,10 @@ export function PhotoDetailModal({
   const [hashCopied, setHashCopied] = useState(false);
   const [showEditSheet, setShowEditSheet] = useState(false);
   const [currentPhoto, setCurrentPhoto] = useState<LocalPhoto | null>(initialPhoto);
-  const { updatePhotoClassification, getPhotoById } = useLocalDB();
+  const [showMeasurementTool, setShowMeasurementTool] = useState(false);
+  const [groupCalibrations, setGroupCalibrations] = useState<SharedCalibration[]>([]);
+  const { updatePhotoClassification, updatePhotoMeasurements, getPhotoById, getPhotos } = useLocalDB();
+  const displayUri = useCachedPhotoUri(currentPhoto);
 
   // Sync currentPhoto with initialPhoto when modal opens/closes
   React.useEffect(() => {
@@ -268,6 +291,40 @@ export function PhotoDetailModal({
     }
   }, [currentPhoto, updatePhotoClassification, getPhotoById]);
 
+  const handleOpenMeasurementTool = useCallback(async () => {
+    if (!currentPhoto) return;
+    const reportPhotos = await getPhotos(currentPhoto.reportId);
+    setGroupCalibrations(sharedCalibrations(currentPhoto, reportPhotos));
+    setShowMeasurementTool(true);
+  }, [currentPhoto, getPhotos]);
+
+  const handleSaveMeasurements = useCallback(async (
+    measurements: Measurement[],
+    calibration: Calibration | null,
+    measuredUri: string
+  ) => {
+    if (!currentPhoto) return;
+
+    try {
+      await updatePhotoMeasurements(
+        currentPhoto.id,
+        JSON.stringify(measurements),
+        calibration ? JSON.stringify(calibration) : null,
+        measuredUri
+      );
+      const refreshedPhoto = await getPhotoById(currentPhoto.id);
+      if (refreshedPhoto) {
+        setCurrentPhoto(refreshedPhoto);
+      }
+      setShowMeasurementTool(false);
+    } catch (error) {
+      Alert.alert(
+        "Save Failed",
+        error instanceof Error ? error.message : "Failed to save measurements. Please try again."
+      );
+    }
+  }, [currentPhoto, updatePhotoMeasurements, getPhotoById]);
+
   if (!currentPhoto) return null;
 
   // Use currentPhoto instead of photo for display
@@ -276,6 +333,8 @@ export function PhotoDetailModal({
   const syncStatus = SYNC_STATUS_COLORS[photo.syncStatus] || SYNC_STATUS_COLORS.captured;
   const hasGps = photo.gpsLat !== null && photo.gpsLng !== null;
   const hasCamera = photo.cameraMake || photo.cameraModel;
+  const measurements = parseMeasurements(photo.measurementsJson);
+  const calibration = parseCalibration(photo.calibrationJson);
 
   // Synced or uploaded photos cannot be deleted from mobile
   const canDelete = photo.syncStatus !== "synced" && photo.syncStatus !== "uploaded";
@@ -313,7 +372,7 @@ export function PhotoDetailModal({
         {/* Photo */}
         <View style={styles.imageContainer}>
           <Image
-            source={{ uri: photo.localUri }}
+            source={{ uri: displayUri ?? photo.localUri }}
             style={styles.image}
             resizeMode="contain"
             accessibilityIgnoresInvertColors
@@ -411,6 +470,42 @@ export function PhotoDetailModal({
             )}
           </Section>
 
+          {/* Measurements */}
+          <Section title="Measurements">
+            {calibration && (
+              <MetadataRow
+                label="Calibration"
+                value={[
+                  calibration.referenceDescription,
+                  formatTolerance(calibration.relativeUncertainty),
+                  calibration.mode === "perspective" ? "perspective" : null,
+                  calibration.sourcePhotoId ? "from group" : null,
+                ].filter(Boolean).join(" · ")}
+              />
+            )}
+            {measurements.length > 0 ? (
+              measurements.map((measurement, index) => (
+                <MetadataRow
+                  key={measurement.id}
+                  label={`#${index + 1}`}
+                  value={describeMeasurement(measurement)}
+                />
+              ))
+            ) : (
+              <Text style={styles.noDataText}>No measurements</Text>
+            )}
+            <TouchableOpacity
+              style={styles.measureButton}
+              onPress={handleOpenMeasurementTool}
+              accessibilityRole="button"
+              accessibilityLabel="Measure on this photo"
+            >
+              <Text style={styles.measureButtonText}>
+                {measurements.length > 0 ? "Edit Measurements" : "Measure"}
+              </Text>
+            </TouchableOpacity>
+          </Section>
+
           {/* File Info */}
           <Section title="File Information">
             <MetadataRow label="Filename" value={photo.filename} />
@@ -461,6 +556,23 @@ export function PhotoDetailModal({
           onClose={handleCloseEditSheet}
           onSave={handleSaveClassification}
         />
+
+        {/* Measurement Tool */}
+        <Modal
+          visible={showMeasurementTool}
+          animationType="slide"
+          presentationStyle="fullScreen"
+          onRequestClose={() => setShowMeasurementTool(false)}
+        >
+          <MeasurementTool
+            imageUri={photo.localUri}
+            existingMeasurements={measurements}
+            existingCalibration={calibration}
+            sharedCalibrations={groupCalibrations}
+            onSave={handleSaveMeasurements}
+            onCancel={() => setShowMeasurementTool(false)}
+          />
+        </Modal>
       </View>
     </Modal>
   );
@@ -622,6 +734,18 @@ const styles = StyleSheet.create({
     fontStyle: "italic",
     paddingVertical: SPACING.sm,
   },
+  measureButton: {
+    marginTop: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    alignItems: "center",
+    backgroundColor: COLORS.primary[100],
+    borderRadius: BORDER_RADIUS.md,
+  },
+  measureButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.primary[700],
+  },
   actionsContainer: {
     marginTop: SPACING.md,
     paddingTop: SPACING.lg,
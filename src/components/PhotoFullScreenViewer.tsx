@@ -24,6 +24,7 @@ import {
 } from "react-native";
 import { ImageZoom } from "@likashefqet/react-native-image-zoom";
 import type { LocalPhoto } from "../types/database";
+import { useCachedPhotoUri } from "../hooks/useCachedPhotoUri";
 import {
   COLORS,
   BORDER_RADIUS,
@@ -110,10 +111,12 @@ interface PhotoItemProps {
 }
 
 function PhotoItem({ photo, onSingleTap }: PhotoItemProps) {
+  const displayUri = useCachedPhotoUri(photo);
+
   return (
     <View style={styles.photoItemContainer}>
       <ImageZoom
-        uri={photo.localUri}
+        uri={displayUri ?? undefined}
         minScale={1}
         maxScale={5}
         doubleTapScale={2}
@@ -18,7 +18,6 @@ import React, { memo, useState, useCallback, useMemo } from "react";
 import {
   View,
   Text,
-  Image,
   TouchableOpacity,
   FlatList,
   SectionList,
@@ -34,6 +33,7 @@ import {
 } from "../hooks";
 import { PhotoGalleryHeader } from "./PhotoGalleryHeader";
 import { PhotoGalleryFilters } from "./PhotoGalleryFilters";
+import { DecryptedImage } from "./DecryptedImage";
 import {
   COLORS,
   SPACING,
@@ -93,8 +93,8 @@ const GridPhotoItem = memo(function GridPhotoItem({
       accessibilityRole="button"
       accessibilityLabel={photo.caption || `Photo ${photo.id.substring(0, 8)}`}
     >
-      <Image
-        source={{ uri: photo.thumbnailUri || photo.localUri }}
+      <DecryptedImage
+        uri={photo.thumbnailUri || photo.localUri}
         style={styles.gridImage}
         resizeMode="cover"
         accessibilityIgnoresInvertColors
@@ -144,8 +144,8 @@ const ListPhotoItem = memo(function ListPhotoItem({
       accessibilityRole="button"
       accessibilityLabel={photo.caption || `Photo ${photo.id.substring(0, 8)}`}
     >
-      <Image
-        source={{ uri: photo.thumbnailUri || photo.localUri }}
+      <DecryptedImage
+        uri={photo.thumbnailUri || photo.localUri}
         style={styles.listImage}
         resizeMode="cover"
         accessibilityIgnoresInvertColors
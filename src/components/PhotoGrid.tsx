@@ -8,7 +8,6 @@ import React, { useCallback, memo } from "react";
 import {
   View,
   Text,
-  Image,
   TouchableOpacity,
   StyleSheet,
   Dimensions,
@@ -17,6 +16,7 @@ import {
 } from "react-native";
 import type { LocalPhoto } from "../types/database";
 import { TOUCH_TARGET, BORDER_RADIUS, COLORS } from "../lib/theme";
+import { DecryptedImage } from "./DecryptedImage";
 
 const SCREEN_WIDTH = Dimensions.get("window").width;
 const GRID_GAP = 8;
@@ -72,8 +72,8 @@ const PhotoItem = memo(function PhotoItem({ photo, onView, onRemove }: PhotoItem
       accessibilityLabel={photo.caption || `Photo ${photo.id.substring(0, 8)}`}
       accessibilityHint="Double tap to view full size"
     >
-      <Image
-        source={{ uri: photo.thumbnailUri || photo.localUri }}
+      <DecryptedImage
+        uri={photo.thumbnailUri || photo.localUri}
         style={styles.photo}
         resizeMode="cover"
         accessibilityIgnoresInvertColors
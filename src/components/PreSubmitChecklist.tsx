@@ -1,6 +1,9 @@
 /**
  * PreSubmitChecklist Component (Mobile)
  * Shows validation status in real-time as inspector works on a report.
+ *
+ * Validation is computed locally from SQLite so it works without signal,
+ * using the same rules that block reviewService.submitForReview.
  */
 
 import React, { useState, useEffect, useCallback } from "react";
@@ -12,33 +15,10 @@ import {
   ActivityIndicator,
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
-import { api } from "../lib/api";
+import { validateReport } from "../services/validation-service";
+import type { ValidationResult } from "../types/validation";
 
 // Types
-interface ValidationDetails {
-  propertyDetails: { complete: boolean; missing: string[] };
-  inspectionDetails: { complete: boolean; missing: string[] };
-  roofElements: { complete: boolean; count: number; minimum: number };
-  defects: { documented: boolean; count: number };
-  photos: {
-    sufficient: boolean;
-    count: number;
-    minimum: number;
-    withExif: number;
-    withGps: number;
-  };
-  compliance: { complete: boolean; coverage: number; required: number };
-}
-
-interface ValidationResult {
-  isValid: boolean;
-  errors: string[];
-  warnings: string[];
-  completionPercentage: number;
-  missingRequiredItems: string[];
-  validationDetails: ValidationDetails;
-}
-
 interface PreSubmitChecklistProps {
   reportId: string;
   inspectionType?: string;
@@ -117,10 +97,14 @@ export function PreSubmitChecklist({
       setIsLoading(true);
       setError(null);
 
-      const response = await api.get(`/reports/${reportId}/submit`);
-      setValidation(response.data.validation);
+      const result = await validateReport(reportId);
+      if (!result) {
+        setError("Report not found");
+        return;
+      }
+      setValidation(result);
       if (onValidationChange) {
-        onValidationChange(response.data.validation);
+        onValidationChange(result);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load checklist");
@@ -0,0 +1,51 @@
+/**
+ * ReportLockedBanner Component
+ * Read-only notice shown on report screens once the workflow locks a report
+ */
+
+import { View, Text, StyleSheet } from "react-native";
+import type { ReportStatus } from "../types/shared";
+
+interface ReportLockedBannerProps {
+  status: ReportStatus | null;
+}
+
+const LOCK_MESSAGES: Partial<Record<ReportStatus, string>> = {
+  PENDING_REVIEW: "Submitted for review. Editing reopens if the reviewer requests revisions.",
+  APPROVED: "Approved by the reviewer. This report can no longer be edited.",
+  FINALISED: "Finalised. This report is locked.",
+};
+
+export function ReportLockedBanner({ status }: ReportLockedBannerProps) {
+  const message = status ? LOCK_MESSAGES[status] : undefined;
+  if (!message) return null;
+
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.icon}>🔒</Text>
+      <Text style={styles.text}>{message}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ede9fe",
+    borderColor: "#c4b5fd",
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  icon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    color: "#5b21b6",
+  },
+});
@@ -0,0 +1,373 @@
+/**
+ * RoofCalculator Component
+ * Works out a roof element's pitch and true area, keeping the inputs
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet, Modal } from "react-native";
+import { ChipSelector } from "./ChipSelector";
+import {
+  ROOF_SHAPE_LABELS,
+  buildRoofMeasurement,
+  calculateArea,
+  calculatePitch,
+  calibratedPolygonAreas,
+  roofDimensions,
+  type PhotoPolygonArea,
+} from "../lib/roof-geometry";
+import type { LocalPhoto } from "../types/database";
+import type { AreaMethod, PitchMethod, RoofMeasurementRecord, RoofShape } from "../types/shared";
+
+interface RoofCalculatorProps {
+  visible: boolean;
+  /** Report photos; calibrated polygons on them can be used for area */
+  photos: LocalPhoto[];
+  initial: RoofMeasurementRecord | null;
+  onApply: (record: RoofMeasurementRecord) => void;
+  onClose: () => void;
+}
+
+const PITCH_METHOD_OPTIONS = [
+  { value: "RISE_RUN", label: "Rise / Run" },
+  { value: "INCLINOMETER", label: "Inclinometer" },
+  { value: "MANUAL", label: "Known" },
+];
+
+const AREA_METHOD_OPTIONS = [
+  { value: "DIMENSIONS", label: "Plan Dimensions" },
+  { value: "PLAN_AREA", label: "Plan Area" },
+  { value: "PHOTO_POLYGON", label: "Photo" },
+  { value: "MANUAL", label: "Known" },
+];
+
+const SHAPE_OPTIONS = (Object.keys(ROOF_SHAPE_LABELS) as RoofShape[]).map((value) => ({
+  value,
+  label: ROOF_SHAPE_LABELS[value],
+}));
+
+const PLANE_OPTIONS = [
+  { value: "PLAN", label: "Looking down (plan)" },
+  { value: "SLOPE", label: "Square to roof" },
+];
+
+const toText = (value: number | null | undefined) => (value != null ? String(value) : "");
+const toNumber = (text: string): number | null => {
+  const value = parseFloat(text);
+  return isNaN(value) ? null : value;
+};
+const polygonKey = (polygon: Pick<PhotoPolygonArea, "photoId" | "measurementId">) =>
+  `${polygon.photoId}:${polygon.measurementId}`;
+
+export function RoofCalculator({ visible, photos, initial, onApply, onClose }: RoofCalculatorProps) {
+  const [pitchMethod, setPitchMethod] = useState<PitchMethod>("RISE_RUN");
+  const [rise, setRise] = useState("");
+  const [run, setRun] = useState("");
+  const [reading, setReading] = useState("");
+  const [knownPitch, setKnownPitch] = useState("");
+
+  const [areaMethod, setAreaMethod] = useState<AreaMethod>("DIMENSIONS");
+  const [shape, setShape] = useState<RoofShape>("GABLE");
+  const [length, setLength] = useState("");
+  const [width, setWidth] = useState("");
+  const [planArea, setPlanArea] = useState("");
+  const [selectedPolygon, setSelectedPolygon] = useState<string | null>(null);
+  const [plane, setPlane] = useState<"PLAN" | "SLOPE">("PLAN");
+  const [knownArea, setKnownArea] = useState("");
+
+  // Start from the element's last calculation
+  useEffect(() => {
+    if (!visible) return;
+    const pitch = initial?.pitch;
+    setPitchMethod(pitch?.method ?? "RISE_RUN");
+    setRise(toText(pitch?.riseMm));
+    setRun(toText(pitch?.runMm));
+    setReading(toText(pitch?.inclinometerDegrees));
+    setKnownPitch(pitch?.method === "MANUAL" ? toText(pitch.degrees) : "");
+
+    const area = initial?.area;
+    setAreaMethod(area?.method ?? "DIMENSIONS");
+    setShape(area?.shape ?? "GABLE");
+    setLength(toText(area?.lengthM));
+    setWidth(toText(area?.widthM));
+    setPlanArea(area?.method === "PLAN_AREA" ? toText(area.planAreaM2) : "");
+    setSelectedPolygon(
+      area?.photoId && area.measurementId
+        ? polygonKey({ photoId: area.photoId, measurementId: area.measurementId })
+        : null
+    );
+    setPlane(area?.photoPlane ?? "PLAN");
+    setKnownArea(area?.method === "MANUAL" ? toText(area.trueAreaM2) : "");
+  }, [visible, initial]);
+
+  const polygons = useMemo(() => photos.flatMap(calibratedPolygonAreas), [photos]);
+
+  const pitchResult = calculatePitch({
+    method: pitchMethod,
+    riseMm: toNumber(rise),
+    runMm: toNumber(run),
+    inclinometerDegrees: toNumber(reading),
+    degrees: toNumber(knownPitch),
+  });
+  const pitchDegrees = pitchResult.calculation?.degrees ?? null;
+
+  const areaResult = calculateArea(
+    {
+      method: areaMethod,
+      shape,
+      lengthM: toNumber(length),
+      widthM: toNumber(width),
+      planAreaM2: toNumber(planArea),
+      polygon: polygons.find((p) => polygonKey(p) === selectedPolygon) ?? null,
+      photoPlane: plane,
+      areaM2: toNumber(knownArea),
+    },
+    pitchDegrees
+  );
+
+  const lengthM = toNumber(length);
+  const widthM = toNumber(width);
+  const dimensions =
+    areaMethod === "DIMENSIONS" && pitchDegrees !== null && lengthM && widthM
+      ? roofDimensions(shape, lengthM, widthM, pitchDegrees)
+      : null;
+
+  const canApply = pitchResult.success || areaResult.success;
+
+  const handleApply = () => {
+    onApply(
+      buildRoofMeasurement(
+        pitchResult.calculation ?? null,
+        areaResult.calculation ?? null,
+        new Date().toISOString()
+      )
+    );
+  };
+
+  const renderInput = (label: string, value: string, onChange: (text: string) => void, placeholder: string) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChange}
+        placeholder={placeholder}
+        keyboardType="numbers-and-punctuation"
+      />
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancel}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Pitch & Area</Text>
+          <TouchableOpacity onPress={handleApply} disabled={!canApply}>
+            <Text style={[styles.apply, !canApply && styles.applyDisabled]}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {/* Pitch */}
+          <Text style={styles.sectionTitle}>Pitch</Text>
+          <ChipSelector
+            label="Measured by"
+            options={PITCH_METHOD_OPTIONS}
+            value={pitchMethod}
+            onChange={(v) => setPitchMethod(v as PitchMethod)}
+          />
+          {pitchMethod === "RISE_RUN" && (
+            <View style={styles.row}>
+              {renderInput("Rise (mm)", rise, setRise, "300")}
+              {renderInput("Run (mm)", run, setRun, "1000")}
+            </View>
+          )}
+          {pitchMethod === "INCLINOMETER" &&
+            renderInput("Reading (degrees)", reading, setReading, "Lay the device on the roof sheet")}
+          {pitchMethod === "MANUAL" && renderInput("Pitch (degrees)", knownPitch, setKnownPitch, "15")}
+          <Text style={pitchResult.success ? styles.result : styles.error}>
+            {pitchResult.success ? `Pitch ${pitchDegrees}°` : pitchResult.error}
+          </Text>
+
+          {/* Area */}
+          <Text style={styles.sectionTitle}>Area</Text>
+          <ChipSelector
+            label="Roof Shape"
+            options={SHAPE_OPTIONS}
+            value={shape}
+            onChange={(v) => setShape(v as RoofShape)}
+          />
+          <ChipSelector
+            label="From"
+            options={AREA_METHOD_OPTIONS}
+            value={areaMethod}
+            onChange={(v) => setAreaMethod(v as AreaMethod)}
+          />
+
+          {areaMethod === "DIMENSIONS" && (
+            <View style={styles.row}>
+              {renderInput("Length along ridge (m)", length, setLength, "12")}
+              {renderInput("Span (m)", width, setWidth, "8")}
+            </View>
+          )}
+          {areaMethod === "PLAN_AREA" && renderInput("Plan area (m²)", planArea, setPlanArea, "96")}
+          {areaMethod === "MANUAL" && renderInput("Roof area (m²)", knownArea, setKnownArea, "120")}
+          {areaMethod === "PHOTO_POLYGON" && (
+            <>
+              {polygons.length === 0 ? (
+                <Text style={styles.hint}>
+                  No calibrated areas yet. Measure a polygon on a photo with a scale reference first.
+                </Text>
+              ) : (
+                <View style={styles.polygonList}>
+                  {polygons.map((polygon, index) => {
+                    const key = polygonKey(polygon);
+                    const selected = key === selectedPolygon;
+                    return (
+                      <TouchableOpacity
+                        key={key}
+                        style={[styles.polygonOption, selected && styles.polygonOptionActive]}
+                        onPress={() => setSelectedPolygon(key)}
+                      >
+                        <Text style={[styles.polygonText, selected && styles.polygonTextActive]}>
+                          Area {index + 1}: {polygon.areaM2} m²
+                          {polygon.calibrationReference ? ` (${polygon.calibrationReference})` : ""}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+              <ChipSelector
+                label="Photo taken"
+                options={PLANE_OPTIONS}
+                value={plane}
+                onChange={(v) => setPlane(v as "PLAN" | "SLOPE")}
+              />
+            </>
+          )}
+
+          <Text style={areaResult.success ? styles.result : styles.error}>
+            {areaResult.success ? `Roof area ${areaResult.calculation!.trueAreaM2} m²` : areaResult.error}
+          </Text>
+          {dimensions && (
+            <Text style={styles.hint}>
+              Rafter {dimensions.rafterM.toFixed(2)} m • {shape === "SKILLION" ? "High edge" : "Ridge"}{" "}
+              {dimensions.ridgeM.toFixed(2)} m
+              {dimensions.hipM !== null ? ` • Hip ${dimensions.hipM.toFixed(2)} m` : ""}
+            </Text>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    backgroundColor: "#ffffff",
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  cancel: {
+    fontSize: 15,
+    color: "#6b7280",
+  },
+  apply: {
+    fontSize: 15,
+    color: "#3c4b5d",
+    fontWeight: "600",
+  },
+  applyDisabled: {
+    color: "#cbd5e1",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#1e293b",
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  field: {
+    flex: 1,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#374151",
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: "#ffffff",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#1f2937",
+  },
+  result: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#15803d",
+    marginBottom: 16,
+  },
+  error: {
+    fontSize: 13,
+    color: "#b45309",
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: "#64748b",
+    marginBottom: 12,
+  },
+  polygonList: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  polygonOption: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: "#f3f4f6",
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  polygonOptionActive: {
+    backgroundColor: "#3c4b5d",
+    borderColor: "#3c4b5d",
+  },
+  polygonText: {
+    fontSize: 14,
+    color: "#374151",
+  },
+  polygonTextActive: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+});
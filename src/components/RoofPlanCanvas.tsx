@@ -0,0 +1,162 @@
+/**
+ * RoofPlanCanvas Component
+ * Square sketch surface for the roof plan: outline, element regions and defect pins
+ *
+ * Reports taps as normalised 0..1 points; all editing logic lives in the
+ * screen so the canvas stays a pure renderer.
+ */
+
+import React, { useState } from "react";
+import { View, StyleSheet, Pressable, type LayoutChangeEvent, type GestureResponderEvent } from "react-native";
+import Svg, { Polygon, Polyline, Circle, G, Text as SvgText, Rect } from "react-native-svg";
+import { PIN_COLORS, centroid } from "../lib/roof-plan";
+import type { RoofPlan, RoofPlanPoint } from "../types/shared";
+import type { LocalDefect } from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface RoofPlanCanvasProps {
+  plan: RoofPlan;
+  defects: Pick<LocalDefect, "id" | "defectNumber" | "severity">[];
+  /** Points of the shape currently being drawn (outline or region) */
+  draftPoints?: RoofPlanPoint[];
+  selectedPinId?: string | null;
+  selectedRegionId?: string | null;
+  onTap: (point: RoofPlanPoint) => void;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toPoints(points: RoofPlanPoint[], size: number): string {
+  return points.map((p) => `${p.x * size},${p.y * size}`).join(" ");
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function RoofPlanCanvas({
+  plan,
+  defects,
+  draftPoints = [],
+  selectedPinId,
+  selectedRegionId,
+  onTap,
+}: RoofPlanCanvasProps) {
+  const [size, setSize] = useState(0);
+  const pinRadius = size * 0.035;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setSize(event.nativeEvent.layout.width);
+  };
+
+  const handlePress = (event: GestureResponderEvent) => {
+    if (size === 0) return;
+    const { locationX, locationY } = event.nativeEvent;
+    onTap({ x: locationX / size, y: locationY / size });
+  };
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      <Pressable style={{ width: size, height: size }} onPress={handlePress}>
+        {size > 0 && (
+          <Svg width={size} height={size} pointerEvents="none">
+            <Rect x={0} y={0} width={size} height={size} fill="#ffffff" />
+
+            {plan.outline.length >= 3 && (
+              <Polygon
+                points={toPoints(plan.outline, size)}
+                fill="none"
+                stroke="#1e293b"
+                strokeWidth={3}
+              />
+            )}
+
+            {plan.regions.map((region) => {
+              const c = centroid(region.points);
+              const selected = region.id === selectedRegionId;
+              return (
+                <G key={region.id}>
+                  <Polygon
+                    points={toPoints(region.points, size)}
+                    fill={selected ? "rgba(230, 81, 0, 0.18)" : "rgba(60, 75, 93, 0.12)"}
+                    stroke={selected ? "#e65100" : "#3c4b5d"}
+                    strokeWidth={selected ? 2.5 : 1.5}
+                    strokeDasharray="6,4"
+                  />
+                  <SvgText
+                    x={c.x * size}
+                    y={c.y * size}
+                    fontSize={11}
+                    fill="#3c4b5d"
+                    textAnchor="middle"
+                  >
+                    {region.label || region.elementType.replace(/_/g, " ")}
+                  </SvgText>
+                </G>
+              );
+            })}
+
+            {draftPoints.length > 0 && (
+              <G>
+                <Polyline
+                  points={toPoints(draftPoints, size)}
+                  fill="none"
+                  stroke="#e65100"
+                  strokeWidth={2}
+                />
+                {draftPoints.map((p, i) => (
+                  <Circle key={i} cx={p.x * size} cy={p.y * size} r={4} fill="#e65100" />
+                ))}
+              </G>
+            )}
+
+            {plan.pins.map((pin) => {
+              const defect = defects.find((d) => d.id === pin.defectId);
+              if (!defect) return null;
+              const selected = pin.id === selectedPinId;
+              return (
+                <G key={pin.id}>
+                  <Circle
+                    cx={pin.x * size}
+                    cy={pin.y * size}
+                    r={selected ? pinRadius * 1.3 : pinRadius}
+                    fill={PIN_COLORS[defect.severity] ?? "#6b7280"}
+                    stroke={selected ? "#1e293b" : "#ffffff"}
+                    strokeWidth={2}
+                  />
+                  <SvgText
+                    x={pin.x * size}
+                    y={pin.y * size + pinRadius * 0.4}
+                    fontSize={pinRadius * 1.1}
+                    fontWeight="bold"
+                    fill="#ffffff"
+                    textAnchor="middle"
+                  >
+                    {String(defect.defectNumber)}
+                  </SvgText>
+                </G>
+              );
+            })}
+          </Svg>
+        )}
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    aspectRatio: 1,
+    borderRadius: 12,
+    overflow: "hidden",
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    backgroundColor: "#ffffff",
+  },
+});
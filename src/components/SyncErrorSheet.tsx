@@ -13,9 +13,13 @@ import {
   Modal,
   Dimensions,
   ActivityIndicator,
+  Alert,
 } from "react-native";
+import * as Sharing from "expo-sharing";
+import { useRouter } from "expo-router";
 import { useSyncStatus } from "../hooks/useSyncStatus";
-import { getAllReports, getPendingUploadPhotos } from "../lib/sqlite";
+import { getAllReports, getUnsyncedPhotos } from "../lib/sqlite";
+import { exportDiagnosticsBundle } from "../services/diagnostics-service";
 import type { LocalReport, LocalPhoto } from "../types/database";
 
 interface SyncErrorSheetProps {
@@ -32,10 +36,12 @@ interface FailedItem {
 }
 
 export function SyncErrorSheet({ visible, onClose }: SyncErrorSheetProps) {
+  const router = useRouter();
   const { retryFailed, isSyncing, syncState } = useSyncStatus();
   const [failedItems, setFailedItems] = useState<FailedItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [isSendingDiagnostics, setIsSendingDiagnostics] = useState(false);
 
   useEffect(() => {
     if (visible) {
@@ -48,7 +54,7 @@ export function SyncErrorSheet({ visible, onClose }: SyncErrorSheetProps) {
     try {
       const [reports, photos] = await Promise.all([
         getAllReports(),
-        getPendingUploadPhotos(),
+        getUnsyncedPhotos(),
       ]);
 
       const items: FailedItem[] = [];
@@ -108,6 +114,37 @@ export function SyncErrorSheet({ visible, onClose }: SyncErrorSheetProps) {
     }
   };
 
+  const handleSendDiagnostics = async () => {
+    setIsSendingDiagnostics(true);
+    try {
+      const result = await exportDiagnosticsBundle();
+      if (!result.success || !result.uri) {
+        Alert.alert("Diagnostics Failed", result.error || "Could not create the diagnostics bundle");
+        return;
+      }
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(result.uri, {
+          mimeType: "application/zip",
+          UTI: "public.zip-archive",
+          dialogTitle: "Send diagnostics",
+        });
+      } else {
+        Alert.alert("Diagnostics Saved", `Saved to ${result.uri}`);
+      }
+    } catch (error) {
+      console.error("Failed to send diagnostics:", error);
+      Alert.alert("Diagnostics Failed", "Could not create the diagnostics bundle");
+    } finally {
+      setIsSendingDiagnostics(false);
+    }
+  };
+
+  const handleInspectQueue = () => {
+    onClose();
+    router.push("/(main)/sync-inspector");
+  };
+
   const getTypeIcon = (type: "report" | "photo") => {
     return type === "report" ? "📄" : "📷";
   };
@@ -221,6 +258,22 @@ export function SyncErrorSheet({ visible, onClose }: SyncErrorSheetProps) {
                 </TouchableOpacity>
               )}
             </View>
+
+            <TouchableOpacity style={styles.diagnosticsButton} onPress={handleInspectQueue}>
+              <Text style={styles.diagnosticsButtonText}>Inspect Sync Queue</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.diagnosticsButton}
+              onPress={handleSendDiagnostics}
+              disabled={isSendingDiagnostics}
+            >
+              {isSendingDiagnostics ? (
+                <ActivityIndicator size="small" color="#3c4b5d" />
+              ) : (
+                <Text style={styles.diagnosticsButtonText}>Send Diagnostics to Support</Text>
+              )}
+            </TouchableOpacity>
           </View>
         </View>
       </View>
@@ -387,6 +440,16 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.5,
   },
+  diagnosticsButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  diagnosticsButtonText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#3c4b5d",
+  },
 });
 
 export default SyncErrorSheet;
@@ -3,10 +3,11 @@
  * Compact audio recording interface for capturing voice observations
  */
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   StyleSheet,
   Alert,
@@ -17,22 +18,38 @@ import {
   formatVoiceNoteDuration,
   type VoiceNoteMetadata,
 } from "../services/voice-note-service";
+import { transcriptionService } from "../services/transcription-service";
+import { TRANSCRIPTION_STATUS_LABELS, searchTranscripts } from "../lib/transcription";
+import { DICTATION_STEPS } from "../lib/dictation";
+import type { DictationField } from "../types/shared";
 
 interface VoiceNoteRecorderProps {
   reportId: string;
   defectId?: string;
   roofElementId?: string;
+  /** Tags new recordings as dictation for this defect field */
+  dictationField?: DictationField;
+  /** Label for the record button */
+  recordLabel?: string;
   onRecordingComplete?: (voiceNote: VoiceNoteMetadata) => void;
   onDelete?: (id: string) => void;
+  /** Shows an Insert action on transcribed notes */
+  onInsertTranscript?: (transcript: string, voiceNote: VoiceNoteMetadata) => void;
   showList?: boolean;
 }
 
+const dictationLabel = (field: DictationField) =>
+  DICTATION_STEPS.find((step) => step.field === field)?.label ?? field;
+
 export function VoiceNoteRecorder({
   reportId,
   defectId,
   roofElementId,
+  dictationField,
+  recordLabel = "Record Voice Note",
   onRecordingComplete,
   onDelete,
+  onInsertTranscript,
   showList = true,
 }: VoiceNoteRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
@@ -40,6 +57,8 @@ export function VoiceNoteRecorder({
   const [voiceNotes, setVoiceNotes] = useState<VoiceNoteMetadata[]>([]);
   const [playingId, setPlayingId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [transcriptionProgress, setTranscriptionProgress] = useState<Record<string, number>>({});
+  const [searchQuery, setSearchQuery] = useState("");
 
   // Load existing voice notes
   const loadVoiceNotes = useCallback(async () => {
@@ -62,6 +81,31 @@ export function VoiceNoteRecorder({
     loadVoiceNotes();
   }, [loadVoiceNotes]);
 
+  // Follow transcription jobs for the listed notes
+  useEffect(() => {
+    if (!showList) return;
+    return transcriptionService.subscribe((update) => {
+      if (update.status === "processing") {
+        setTranscriptionProgress((current) => ({ ...current, [update.voiceNoteId]: update.progress }));
+        return;
+      }
+      setTranscriptionProgress((current) => {
+        const { [update.voiceNoteId]: _done, ...rest } = current;
+        return rest;
+      });
+      loadVoiceNotes();
+    });
+  }, [showList, loadVoiceNotes]);
+
+  const hasTranscripts = voiceNotes.some((note) => note.transcription);
+  const visibleNotes = useMemo(
+    () =>
+      searchQuery.trim()
+        ? searchTranscripts(voiceNotes, searchQuery).map((match) => match.note)
+        : voiceNotes,
+    [voiceNotes, searchQuery]
+  );
+
   // Set up recording progress callback
   useEffect(() => {
     voiceNoteService.onRecordingProgress((durationMs) => {
@@ -99,7 +143,8 @@ export function VoiceNoteRecorder({
       const result = await voiceNoteService.stopRecording(
         reportId,
         defectId,
-        roofElementId
+        roofElementId,
+        dictationField
       );
       setIsRecording(false);
       setRecordingDuration(0);
@@ -148,7 +193,7 @@ export function VoiceNoteRecorder({
           style: "destructive",
           onPress: async () => {
             try {
-              await voiceNoteService.deleteVoiceNote(voiceNote.id, voiceNote.localUri);
+              await voiceNoteService.deleteVoiceNote(voiceNote.id);
               onDelete?.(voiceNote.id);
               await loadVoiceNotes();
             } catch (error) {
@@ -160,37 +205,97 @@ export function VoiceNoteRecorder({
     );
   };
 
+  const handleRetryTranscription = async (voiceNote: VoiceNoteMetadata) => {
+    try {
+      await transcriptionService.enqueue(voiceNote.id);
+      await loadVoiceNotes();
+    } catch (error) {
+      Alert.alert("Error", "Failed to queue transcription");
+    }
+  };
+
+  const renderTranscription = (item: VoiceNoteMetadata) => {
+    const progress = transcriptionProgress[item.id];
+
+    if (item.transcription) {
+      return (
+        <View style={styles.transcription}>
+          <Text style={styles.transcriptionText}>{item.transcription}</Text>
+          {onInsertTranscript && (
+            <TouchableOpacity
+              style={styles.transcriptionAction}
+              onPress={() => onInsertTranscript(item.transcription!, item)}
+            >
+              <Text style={styles.transcriptionActionText}>Insert</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    const label =
+      progress !== undefined
+        ? `${TRANSCRIPTION_STATUS_LABELS.processing} ${Math.round(progress * 100)}%`
+        : TRANSCRIPTION_STATUS_LABELS[item.transcriptionStatus];
+
+    return (
+      <View style={styles.transcription}>
+        <Text
+          style={[styles.transcriptionStatus, item.transcriptionStatus === "failed" && styles.transcriptionFailed]}
+        >
+          {label}
+          {item.transcriptionStatus === "failed" && item.transcriptionError ? `: ${item.transcriptionError}` : ""}
+        </Text>
+        {(item.transcriptionStatus === "failed" || item.transcriptionStatus === "none") && (
+          <TouchableOpacity
+            style={styles.transcriptionAction}
+            onPress={() => handleRetryTranscription(item)}
+          >
+            <Text style={styles.transcriptionActionText}>
+              {item.transcriptionStatus === "failed" ? "Retry" : "Transcribe"}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   const renderVoiceNote = ({ item }: { item: VoiceNoteMetadata }) => {
     const isPlaying = playingId === item.id;
     const recordedDate = new Date(item.recordedAt);
 
     return (
       <View style={styles.voiceNoteItem}>
-        <TouchableOpacity
-          style={[styles.playButton, isPlaying && styles.playButtonActive]}
-          onPress={() => handlePlayPause(item)}
-        >
-          <Text style={styles.playButtonText}>{isPlaying ? "||" : "\u25B6"}</Text>
-        </TouchableOpacity>
+        <View style={styles.voiceNoteRow}>
+          <TouchableOpacity
+            style={[styles.playButton, isPlaying && styles.playButtonActive]}
+            onPress={() => handlePlayPause(item)}
+          >
+            <Text style={styles.playButtonText}>{isPlaying ? "||" : "\u25B6"}</Text>
+          </TouchableOpacity>
 
-        <View style={styles.voiceNoteInfo}>
-          <Text style={styles.voiceNoteDuration}>
-            {formatVoiceNoteDuration(item.durationMs)}
-          </Text>
-          <Text style={styles.voiceNoteDate}>
-            {recordedDate.toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            })}
-          </Text>
-        </View>
+          <View style={styles.voiceNoteInfo}>
+            <Text style={styles.voiceNoteDuration}>
+              {formatVoiceNoteDuration(item.durationMs)}
+              {item.dictationField ? ` · ${dictationLabel(item.dictationField)}` : ""}
+              {item.supersededBy ? " · Superseded" : ""}
+            </Text>
+            <Text style={styles.voiceNoteDate}>
+              {recordedDate.toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </Text>
+          </View>
 
-        <TouchableOpacity
-          style={styles.deleteButton}
-          onPress={() => handleDelete(item)}
-        >
-          <Text style={styles.deleteButtonText}>X</Text>
-        </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={() => handleDelete(item)}
+          >
+            <Text style={styles.deleteButtonText}>X</Text>
+          </TouchableOpacity>
+        </View>
+        {renderTranscription(item)}
       </View>
     );
   };
@@ -235,7 +340,7 @@ export function VoiceNoteRecorder({
               <Text style={styles.micIconText}>mic</Text>
             </View>
             <Text style={styles.recordButtonText}>
-              {isLoading ? "..." : "Record Voice Note"}
+              {isLoading ? "..." : recordLabel}
             </Text>
           </TouchableOpacity>
         )}
@@ -247,8 +352,18 @@ export function VoiceNoteRecorder({
           <Text style={styles.listTitle}>
             Voice Notes ({voiceNotes.length})
           </Text>
+          {hasTranscripts && (
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Search transcripts"
+              placeholderTextColor="#9ca3af"
+              autoCorrect={false}
+            />
+          )}
           <FlatList
-            data={voiceNotes}
+            data={visibleNotes}
             keyExtractor={(item) => item.id}
             renderItem={renderVoiceNote}
             scrollEnabled={false}
@@ -357,9 +472,18 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     textTransform: "uppercase",
   },
+  searchInput: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: "#111827",
+    marginBottom: 8,
+  },
   voiceNoteItem: {
-    flexDirection: "row",
-    alignItems: "center",
     backgroundColor: "#fff",
     borderRadius: 8,
     padding: 12,
@@ -367,6 +491,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#e5e7eb",
   },
+  voiceNoteRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   playButton: {
     width: 36,
     height: 36,
@@ -410,6 +538,41 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "700",
   },
+  transcription: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+    gap: 8,
+  },
+  transcriptionText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#374151",
+    lineHeight: 18,
+  },
+  transcriptionStatus: {
+    flex: 1,
+    fontSize: 12,
+    color: "#6b7280",
+    fontStyle: "italic",
+  },
+  transcriptionFailed: {
+    color: "#ef4444",
+  },
+  transcriptionAction: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: "#f3f4f6",
+  },
+  transcriptionActionText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#3c4b5d",
+  },
 });
 
 export default VoiceNoteRecorder;
@@ -0,0 +1,187 @@
+/**
+ * WeatherEditor Component
+ * Structured weather entry for an inspection, with provider suggestions
+ */
+
+import React from "react";
+import { View, Text, TextInput, Switch, TouchableOpacity, StyleSheet } from "react-native";
+import { ChipSelector, type ChipOption } from "./ChipSelector";
+import {
+  WEATHER_CONDITION_LABELS,
+  WIND_LEVEL_LABELS,
+  ROOF_SURFACE_LABELS,
+  describeWeather,
+  editWeatherRecord,
+  manualWeatherRecord,
+} from "../lib/weather";
+import { WeatherCondition, WindLevel, RoofSurfaceState, type WeatherRecord } from "../types/shared";
+
+interface WeatherEditorProps {
+  value: WeatherRecord | null;
+  onChange: (record: WeatherRecord | null) => void;
+  /** Re-run the provider; omit to hide the refresh link */
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+}
+
+const toOptions = <T extends string>(labels: Record<T, string>): ChipOption[] =>
+  (Object.keys(labels) as T[]).map((value) => ({ value, label: labels[value] }));
+
+const CONDITION_OPTIONS = toOptions(WEATHER_CONDITION_LABELS);
+const WIND_OPTIONS = toOptions(WIND_LEVEL_LABELS);
+const SURFACE_OPTIONS = toOptions(ROOF_SURFACE_LABELS);
+
+const parseNumber = (text: string): number | null => {
+  const value = parseFloat(text);
+  return isNaN(value) ? null : value;
+};
+
+export function WeatherEditor({ value, onChange, onRefresh, isRefreshing }: WeatherEditorProps) {
+  const handleConditions = (conditions: string) => {
+    const next = conditions as WeatherCondition;
+    onChange(value ? editWeatherRecord(value, { conditions: next }) : manualWeatherRecord(next, new Date().toISOString()));
+  };
+
+  return (
+    <View>
+      {value?.source === "PROVIDER" && (
+        <Text style={styles.suggestion}>
+          Suggested from {value.providerId === "history" ? "an earlier inspection nearby" : value.providerId}. Check
+          before saving.
+        </Text>
+      )}
+
+      <ChipSelector
+        label="Conditions"
+        options={CONDITION_OPTIONS}
+        value={value?.conditions ?? ""}
+        onChange={handleConditions}
+      />
+
+      {value && (
+        <>
+          <View style={styles.row}>
+            <View style={styles.half}>
+              <Text style={styles.label}>Temperature (°C)</Text>
+              <TextInput
+                style={styles.input}
+                value={value.temperatureC !== null ? String(value.temperatureC) : ""}
+                onChangeText={(text) => onChange(editWeatherRecord(value, { temperatureC: parseNumber(text) }))}
+                placeholder="18"
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+            <View style={styles.half}>
+              <Text style={styles.label}>Wind (km/h)</Text>
+              <TextInput
+                style={styles.input}
+                value={value.windSpeedKmh !== null ? String(value.windSpeedKmh) : ""}
+                onChangeText={(text) => onChange(editWeatherRecord(value, { windSpeedKmh: parseNumber(text) }))}
+                placeholder="Optional"
+                keyboardType="numeric"
+              />
+            </View>
+          </View>
+
+          <ChipSelector
+            label="Wind"
+            options={WIND_OPTIONS}
+            value={value.wind}
+            onChange={(wind) => onChange(editWeatherRecord(value, { wind: wind as WindLevel }))}
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.label}>Rain in the last 24 hours</Text>
+            <Switch
+              value={value.recentRain}
+              onValueChange={(recentRain) => onChange(editWeatherRecord(value, { recentRain }))}
+            />
+          </View>
+
+          <ChipSelector
+            label="Roof Surface"
+            options={SURFACE_OPTIONS}
+            value={value.roofSurface}
+            onChange={(roofSurface) =>
+              onChange(editWeatherRecord(value, { roofSurface: roofSurface as RoofSurfaceState }))
+            }
+          />
+
+          <Text style={styles.summary}>{describeWeather(value)}</Text>
+        </>
+      )}
+
+      <View style={styles.actions}>
+        {onRefresh && (
+          <TouchableOpacity onPress={onRefresh} disabled={isRefreshing}>
+            <Text style={styles.link}>{isRefreshing ? "Checking..." : "Suggest from history"}</Text>
+          </TouchableOpacity>
+        )}
+        {value && (
+          <TouchableOpacity onPress={() => onChange(null)}>
+            <Text style={styles.clearLink}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  suggestion: {
+    fontSize: 12,
+    color: "#92400e",
+    backgroundColor: "#fef3c7",
+    borderRadius: 6,
+    padding: 8,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 16,
+  },
+  half: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    backgroundColor: "#ffffff",
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  summary: {
+    fontSize: 13,
+    color: "#64748b",
+    fontStyle: "italic",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 8,
+  },
+  link: {
+    fontSize: 13,
+    color: "#3c4b5d",
+    fontWeight: "600",
+  },
+  clearLink: {
+    fontSize: 13,
+    color: "#dc2626",
+  },
+});
@@ -14,7 +14,12 @@ export { RoleBadge } from "./badges/RoleBadge";
 export { ChipSelector } from "./ChipSelector";
 export type { ChipOption } from "./ChipSelector";
 export { FormSection } from "./FormSection";
+export { WeatherEditor } from "./WeatherEditor";
 export { PhotoGrid } from "./PhotoGrid";
+export { DecryptedImage } from "./DecryptedImage";
+export { DatabaseGate } from "./DatabaseGate";
+export { DefectTemplatePicker } from "./DefectTemplatePicker";
+export { ReportLockedBanner } from "./ReportLockedBanner";
 
 // Photo Gallery
 export { PhotoGalleryScreen } from "./PhotoGalleryScreen";
@@ -33,6 +38,7 @@ export { PermissionGate } from "./PermissionGate";
 
 // Voice Notes
 export { VoiceNoteRecorder } from "./VoiceNoteRecorder";
+export { DefectDictation } from "./DefectDictation";
 
 // Photo Annotation
 export { PhotoAnnotator } from "./PhotoAnnotator";
@@ -62,6 +68,10 @@ export type {
   Point as MeasurementPoint,
 } from "./MeasurementTool";
 
+// Roof Plan
+export { RoofPlanCanvas } from "./RoofPlanCanvas";
+export { RoofCalculator } from "./RoofCalculator";
+
 // Review Components
 export { ReviewActionDialog } from "./ReviewActionDialog";
 export type { ReviewActionType } from "./ReviewActionDialog";
@@ -77,3 +87,4 @@ export { ErrorBoundary, ScreenErrorBoundary } from "./ErrorBoundary";
 export { ConflictModal } from "./ConflictModal";
 export type { SyncConflict, ConflictResolution } from "./ConflictModal";
 export { SyncStatusBar } from "./SyncStatusBar";
+export { SyncErrorSheet } from "./SyncErrorSheet";
@@ -58,6 +58,10 @@ export const STORAGE_KEYS = {
   BIOMETRICS_ENABLED: 'ranz_biometrics_enabled',
   /** Last successful online token validation timestamp */
   LAST_ONLINE_VALIDATION: 'ranz_last_online_validation',
+  /** SQLCipher key for ranz_mobile.db */
+  DATABASE_KEY: 'ranz_database_key',
+  /** AES-GCM key for encrypted evidence files */
+  FILE_ENCRYPTION_KEY: 'ranz_file_encryption_key',
 } as const;
 
 export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
@@ -11,8 +11,10 @@ import {
   onSyncError,
   onSyncConflict,
   onSyncComplete,
+  resolveSyncConflicts,
 } from "../services/sync-service";
-import type { SyncResult, SyncError, SyncConflict, ConflictResolution, EntityType } from "../types/sync";
+import { getPendingConflicts } from "../services/conflict-merge-service";
+import type { SyncResult, SyncError, SyncConflict, ConflictResolutionInput } from "../types/sync";
 
 interface SyncContextValue {
   // Toast methods
@@ -30,7 +32,7 @@ interface SyncContextValue {
   // Conflict resolution
   pendingConflicts: SyncConflict[];
   showConflictModal: boolean;
-  resolveConflicts: (resolutions: Array<{ entityId: string; resolution: ConflictResolution }>) => void;
+  resolveConflicts: (resolutions: ConflictResolutionInput[]) => void;
   openConflictModal: () => void;
 }
 
@@ -110,14 +112,22 @@ export function SyncProvider({ children }: SyncProviderProps) {
 
   // Handle conflict resolution
   const handleResolveConflicts = useCallback(
-    (resolutions: Array<{ entityId: string; resolution: ConflictResolution }>) => {
-      // TODO: Send resolutions to sync engine and re-sync
-      console.log("[SyncContext] Resolving conflicts:", resolutions);
-      setPendingConflicts([]);
+    async (resolutions: ConflictResolutionInput[]) => {
       setShowConflictModalState(false);
-      success("Conflicts Resolved", `${resolutions.length} conflict(s) resolved`);
+      try {
+        const { resolved, failed } = await resolveSyncConflicts(resolutions);
+        setPendingConflicts(await getPendingConflicts());
+        if (failed > 0) {
+          error("Some conflicts not resolved", `${failed} conflict(s) could not be applied`);
+        } else {
+          success("Conflicts Resolved", `${resolved} conflict(s) resolved`);
+        }
+      } catch (err) {
+        console.error("[SyncContext] Failed to resolve conflicts:", err);
+        error("Conflict resolution failed", err instanceof Error ? err.message : undefined);
+      }
     },
-    [success]
+    [success, error]
   );
 
   // Dismiss conflict modal
@@ -143,18 +153,13 @@ export function SyncProvider({ children }: SyncProviderProps) {
       }
     };
 
-    const handleConflict = (conflicts: Array<{ reportId: string; resolution: string }>) => {
+    const handleConflict = (conflicts: SyncConflict[]) => {
       if (conflicts.length > 0) {
-        // Transform server conflict format to SyncConflict
-        const syncConflicts: SyncConflict[] = conflicts.map((c) => ({
-          entityType: "report" as EntityType,
-          entityId: c.reportId,
-          localVersion: {},
-          serverVersion: {},
-          localUpdatedAt: new Date().toISOString(), // Will be enriched by sync engine in future
-          serverUpdatedAt: new Date().toISOString(),
-        }));
-        setPendingConflicts(syncConflicts);
+        // Engine has already auto-merged one-sided changes; these need the inspector
+        setPendingConflicts((prev) => {
+          const incoming = new Set(conflicts.map((c) => c.id));
+          return [...prev.filter((c) => !incoming.has(c.id)), ...conflicts];
+        });
         setShowConflictModalState(true);
       }
     };
@@ -163,6 +168,13 @@ export function SyncProvider({ children }: SyncProviderProps) {
       notifySyncComplete(result);
     };
 
+    // Restore conflicts left unresolved in a previous session
+    getPendingConflicts()
+      .then((stored) => {
+        if (stored.length > 0) setPendingConflicts(stored);
+      })
+      .catch((err) => console.warn("[SyncContext] Failed to load pending conflicts:", err));
+
     // Register callbacks
     onSyncError(handleSyncError);
     onSyncConflict(handleConflict);
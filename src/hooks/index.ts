@@ -16,6 +16,12 @@ export type { SyncSettingsHook } from "./useSyncSettings";
 
 // Database
 export { useLocalDB } from "./useLocalDB";
+export { useReportLock } from "./useReportLock";
+export type { ReportLockState } from "./useReportLock";
+
+// Downloaded Photos
+export { useCachedPhotoUri } from "./useCachedPhotoUri";
+export { useDecryptedUri } from "./useDecryptedUri";
 
 // Photo Annotations
 export { usePhotoAnnotations } from "./usePhotoAnnotations";
@@ -0,0 +1,49 @@
+/**
+ * useCachedPhotoUri Hook
+ * Display URI for a photo, fetching downloaded binaries through the photo cache
+ *
+ * Photos captured on this device resolve to their local file immediately.
+ * Photos pulled down by sync start on the server URL and switch to the
+ * cached file once it has been downloaded. Files encrypted at rest resolve
+ * to a decrypted copy.
+ */
+
+import { useState, useEffect } from "react";
+import { Platform } from "react-native";
+import { isRemoteUri } from "../lib/delta-sync";
+import type { LocalPhoto } from "../types/database";
+
+type CacheablePhoto = Pick<LocalPhoto, "id" | "localUri" | "mimeType" | "originalHash">;
+
+const isNative = Platform.OS !== "web";
+
+export function useCachedPhotoUri(photo: CacheablePhoto | null | undefined): string | null {
+  const [uri, setUri] = useState<string | null>(isRemoteUri(photo?.localUri) ? photo!.localUri : null);
+
+  useEffect(() => {
+    setUri(isRemoteUri(photo?.localUri) ? photo!.localUri : null);
+    if (!photo) return;
+    if (!isNative) {
+      setUri(photo.localUri);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([import("../services/photo-cache-service"), import("../services/file-encryption-service")])
+      .then(async ([{ photoCacheService }, { fileEncryptionService }]) =>
+        fileEncryptionService.resolvePlaintextUri(await photoCacheService.resolveUri(photo))
+      )
+      .then((resolved) => {
+        if (!cancelled) setUri(resolved);
+      })
+      .catch((error) => {
+        console.warn("[useCachedPhotoUri] Failed to resolve cached photo:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo?.id, photo?.localUri]);
+
+  return uri;
+}
@@ -0,0 +1,44 @@
+/**
+ * useDecryptedUri Hook
+ * Displayable URI for a local file that may be encrypted at rest
+ *
+ * Plaintext and remote URIs are returned as-is. Encrypted files resolve to
+ * a decrypted copy in temp/ once it has been written; until then the hook
+ * returns null so nothing tries to render ciphertext.
+ */
+
+import { useState, useEffect } from "react";
+import { Platform } from "react-native";
+
+const isNative = Platform.OS !== "web";
+
+export function useDecryptedUri(uri: string | null | undefined): string | null {
+  const [resolved, setResolved] = useState<string | null>(uri && !uri.startsWith("file://") ? uri : null);
+
+  useEffect(() => {
+    if (!uri) {
+      setResolved(null);
+      return;
+    }
+    if (!isNative || !uri.startsWith("file://")) {
+      setResolved(uri);
+      return;
+    }
+
+    let cancelled = false;
+    import("../services/file-encryption-service")
+      .then(({ fileEncryptionService }) => fileEncryptionService.resolvePlaintextUri(uri))
+      .then((plaintextUri) => {
+        if (!cancelled) setResolved(plaintextUri);
+      })
+      .catch((error) => {
+        console.warn("[useDecryptedUri] Failed to decrypt file:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  return resolved;
+}
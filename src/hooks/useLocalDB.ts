@@ -11,10 +11,13 @@ import type {
   LocalPhoto,
   LocalChecklist,
   LocalTemplate,
+  LocalDefectTemplate,
   LocalComplianceAssessment,
+  LocalRoofPlan,
   LocalRoofElement,
   LocalDefect,
 } from "../types/database";
+import { isReportLocked } from "../lib/report-workflow";
 
 const isNative = Platform.OS !== "web";
 
@@ -24,6 +27,43 @@ async function getSqlite() {
   return import("../lib/sqlite");
 }
 
+/**
+ * Refuse writes to a report the workflow has locked (submitted, approved or finalised)
+ */
+async function assertReportEditable(
+  sqlite: typeof import("../lib/sqlite"),
+  reportId: string | null
+): Promise<void> {
+  if (!reportId) return;
+  const report = await sqlite.getReport(reportId);
+  if (report && isReportLocked(report.status)) {
+    throw new Error(`Report is ${report.status.replace(/_/g, " ").toLowerCase()} and can no longer be edited`);
+  }
+}
+
+/**
+ * Record evidence deleted on the device in its custody chain
+ */
+async function logEvidenceDeleted(
+  sqlite: typeof import("../lib/sqlite"),
+  items: Array<{ entityType: "photo" | "video" | "voice_note"; entityId: string; originalHash: string | null }>,
+  reason: string
+): Promise<void> {
+  if (items.length === 0) return;
+  const { logDeletion } = await import("../services/chain-of-custody");
+  const user = await sqlite.getUser();
+  for (const item of items) {
+    await logDeletion(
+      item.entityType,
+      item.entityId,
+      user?.id || "unknown",
+      user?.name || "Unknown User",
+      item.originalHash,
+      reason
+    );
+  }
+}
+
 export function useLocalDB() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -83,7 +123,10 @@ export function useLocalDB() {
     setError(null);
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.saveReport(report);
+      if (sqlite) {
+        await assertReportEditable(sqlite, report.id);
+        await sqlite.saveReport(report);
+      }
     } catch (err) {
       setError(err instanceof Error ? err : new Error("Failed to save report"));
       throw err;
@@ -96,7 +139,14 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.deleteReport(id);
+      if (sqlite) {
+        await assertReportEditable(sqlite, id);
+        const evidence = await sqlite.getReportEvidenceItems(id);
+        // Rows stay hidden on the device until the server acknowledges the deletion
+        await sqlite.markReportGraphDeleted(id);
+        await logEvidenceDeleted(sqlite, evidence, `Deleted from mobile device with report ${id}`);
+        await sqlite.queueDeletion("report", id, id);
+      }
     } catch (err) {
       console.error("Failed to delete report:", err);
       throw err;
@@ -119,7 +169,10 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.saveRoofElement(element);
+      if (sqlite) {
+        await assertReportEditable(sqlite, element.reportId);
+        await sqlite.saveRoofElement(element);
+      }
     } catch (err) {
       console.error("Failed to save roof element:", err);
       throw err;
@@ -130,7 +183,12 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.deleteRoofElement(id);
+      if (sqlite) {
+        const reportId = await sqlite.getOwningReportId("roof_elements", id);
+        await assertReportEditable(sqlite, reportId);
+        await sqlite.markDeleted("roof_elements", id);
+        await sqlite.queueDeletion("element", id, reportId);
+      }
     } catch (err) {
       console.error("Failed to delete roof element:", err);
       throw err;
@@ -153,7 +211,10 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.saveDefect(defect);
+      if (sqlite) {
+        await assertReportEditable(sqlite, defect.reportId);
+        await sqlite.saveDefect(defect);
+      }
     } catch (err) {
       console.error("Failed to save defect:", err);
       throw err;
@@ -164,7 +225,12 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.deleteDefect(id);
+      if (sqlite) {
+        const reportId = await sqlite.getOwningReportId("defects", id);
+        await assertReportEditable(sqlite, reportId);
+        await sqlite.markDeleted("defects", id);
+        await sqlite.queueDeletion("defect", id, reportId);
+      }
     } catch (err) {
       console.error("Failed to delete defect:", err);
       throw err;
@@ -206,6 +272,18 @@ export function useLocalDB() {
     }
   }, []);
 
+  // Defect library operations
+  const getDefectTemplates = useCallback(async (): Promise<LocalDefectTemplate[]> => {
+    if (!isNative) return [];
+    try {
+      const sqlite = await getSqlite();
+      return sqlite ? await sqlite.getAllDefectTemplates() : [];
+    } catch (err) {
+      console.error("Failed to get defect templates:", err);
+      return [];
+    }
+  }, []);
+
   // Photo operations
   const getPhotos = useCallback(async (reportId: string): Promise<LocalPhoto[]> => {
     if (!isNative) return [];
@@ -244,7 +322,10 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.savePhoto(photo);
+      if (sqlite) {
+        await assertReportEditable(sqlite, photo.reportId);
+        await sqlite.savePhoto(photo);
+      }
     } catch (err) {
       console.error("Failed to save photo:", err);
       throw err;
@@ -255,7 +336,18 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.deletePhoto(id);
+      if (sqlite) {
+        const photo = await sqlite.getPhotoById(id);
+        if (!photo) return;
+        await assertReportEditable(sqlite, photo.reportId);
+        await sqlite.markDeleted("photos", id);
+        await logEvidenceDeleted(
+          sqlite,
+          [{ entityType: "photo", entityId: id, originalHash: photo.originalHash }],
+          "Photo deleted from mobile device"
+        );
+        await sqlite.queueDeletion("photo", id, photo.reportId, photo.originalHash);
+      }
     } catch (err) {
       console.error("Failed to delete photo:", err);
       throw err;
@@ -275,13 +367,35 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.updatePhotoClassification(id, updates);
+      if (sqlite) {
+        await assertReportEditable(sqlite, await sqlite.getOwningReportId("photos", id));
+        await sqlite.updatePhotoClassification(id, updates);
+      }
     } catch (err) {
       console.error("Failed to update photo classification:", err);
       throw err;
     }
   }, []);
 
+  const updatePhotoMeasurements = useCallback(async (
+    id: string,
+    measurementsJson: string,
+    calibrationJson: string | null,
+    measuredUri: string
+  ): Promise<void> => {
+    if (!isNative) return;
+    try {
+      const sqlite = await getSqlite();
+      if (sqlite) {
+        await assertReportEditable(sqlite, await sqlite.getOwningReportId("photos", id));
+        await sqlite.updatePhotoMeasurements(id, measurementsJson, calibrationJson, measuredUri);
+      }
+    } catch (err) {
+      console.error("Failed to update photo measurements:", err);
+      throw err;
+    }
+  }, []);
+
   // Compliance operations
   const getComplianceAssessment = useCallback(async (reportId: string): Promise<LocalComplianceAssessment | null> => {
     if (!isNative) return null;
@@ -298,13 +412,43 @@ export function useLocalDB() {
     if (!isNative) return;
     try {
       const sqlite = await getSqlite();
-      if (sqlite) await sqlite.saveComplianceAssessment(assessment);
+      if (sqlite) {
+        await assertReportEditable(sqlite, assessment.reportId);
+        await sqlite.saveComplianceAssessment(assessment);
+      }
     } catch (err) {
       console.error("Failed to save compliance assessment:", err);
       throw err;
     }
   }, []);
 
+  // Roof plan operations
+  const getRoofPlan = useCallback(async (reportId: string): Promise<LocalRoofPlan | null> => {
+    if (!isNative) return null;
+    try {
+      const sqlite = await getSqlite();
+      return sqlite ? await sqlite.getRoofPlan(reportId) : null;
+    } catch (err) {
+      console.error("Failed to get roof plan:", err);
+      return null;
+    }
+  }, []);
+
+  const saveRoofPlan = useCallback(async (plan: LocalRoofPlan): Promise<void> => {
+    if (!isNative) return;
+    try {
+      const sqlite = await getSqlite();
+      if (sqlite) {
+        await assertReportEditable(sqlite, plan.reportId);
+        await sqlite.saveRoofPlan(plan);
+        await sqlite.markReportDirty(plan.reportId);
+      }
+    } catch (err) {
+      console.error("Failed to save roof plan:", err);
+      throw err;
+    }
+  }, []);
+
   // Stats
   const getStats = useCallback(async () => {
     if (!isNative) return { reports: 0, photos: 0, defects: 0, elements: 0, pendingSync: 0, checklists: 0 };
@@ -339,6 +483,7 @@ export function useLocalDB() {
     // Checklists & Templates
     getChecklists,
     getTemplates,
+    getDefectTemplates,
     // Photos
     getPhotos,
     getPhotoById,
@@ -346,9 +491,13 @@ export function useLocalDB() {
     savePhoto,
     deletePhoto,
     updatePhotoClassification,
+    updatePhotoMeasurements,
     // Compliance
     getComplianceAssessment,
     saveComplianceAssessment,
+    // Roof Plan
+    getRoofPlan,
+    saveRoofPlan,
     // Stats
     getStats,
   };
@@ -0,0 +1,42 @@
+/**
+ * useReportLock Hook
+ * Whether a report's content is locked by the workflow
+ *
+ * Screens use this to go read-only once a report is submitted, approved
+ * or finalised; useLocalDB refuses the writes regardless.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useLocalDB } from "./useLocalDB";
+import { isReportLocked } from "../lib/report-workflow";
+import type { ReportStatus } from "../types/shared";
+
+export interface ReportLockState {
+  status: ReportStatus | null;
+  isLocked: boolean;
+  refresh: () => Promise<void>;
+}
+
+export function useReportLock(reportId: string | null | undefined): ReportLockState {
+  const { getReport } = useLocalDB();
+  const [status, setStatus] = useState<ReportStatus | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!reportId) {
+      setStatus(null);
+      return;
+    }
+    const report = await getReport(reportId);
+    setStatus(report?.status ?? null);
+  }, [reportId, getReport]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    status,
+    isLocked: status !== null && isReportLocked(status),
+    refresh,
+  };
+}
@@ -92,19 +92,20 @@ export function useSyncEngine() {
     });
 
     // Register conflict callback
-    syncEngine.onConflict((serverConflicts) => {
-      // Transform server conflicts to our format
-      const formatted: SyncConflict[] = serverConflicts.map((c) => ({
-        reportId: c.reportId,
-        reportNumber: "", // Will be populated from report data if available
-        resolution: c.resolution as "client_wins" | "server_wins" | "pending",
-        serverUpdatedAt:
-          (c as Record<string, unknown>).serverUpdatedAt as string ||
-          new Date().toISOString(),
-        clientUpdatedAt:
-          (c as Record<string, unknown>).clientUpdatedAt as string ||
-          new Date().toISOString(),
-      }));
+    syncEngine.onConflict((mergeConflicts) => {
+      // Summarise field conflicts per report for the report-level ConflictModal
+      const byReport = new Map<string, SyncConflict>();
+      for (const c of mergeConflicts) {
+        if (byReport.has(c.reportId)) continue;
+        byReport.set(c.reportId, {
+          reportId: c.reportId,
+          reportNumber: c.label,
+          resolution: "pending",
+          serverUpdatedAt: c.serverUpdatedAt,
+          clientUpdatedAt: c.localUpdatedAt,
+        });
+      }
+      const formatted = Array.from(byReport.values());
       setConflicts(formatted);
       if (formatted.length > 0) {
         setShowConflictModal(true);
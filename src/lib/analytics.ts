@@ -0,0 +1,330 @@
+/**
+ * Admin Analytics
+ * Aggregation and CSV export for the admin analytics dashboard
+ *
+ * Works on plain rows read from SQLite so the same figures can be checked
+ * against the server's /api/admin/analytics response, which uses the
+ * AdminAnalytics shape.
+ */
+
+import { escapeCsvValue } from "./csv";
+import type {
+  AdminAnalytics,
+  AnalyticsDateRange,
+  ApprovalTimeStats,
+  DistributionBucket,
+  InspectorWeekCount,
+  RegionHeatCell,
+  ReviewOutcomeStats,
+} from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AnalyticsReportRow {
+  id: string;
+  inspectorId: string | null;
+  propertyRegion: string | null;
+  createdAt: string;
+  approvedAt: string | null;
+}
+
+export interface AnalyticsDefectRow {
+  reportId: string;
+  classification: string;
+  severity: string;
+  elementType: string | null;
+}
+
+/** A review decision from the audit log */
+export interface AnalyticsReviewEvent {
+  reportId: string;
+  action: string;
+  createdAt: string;
+}
+
+export interface AnalyticsSource {
+  reports: AnalyticsReportRow[];
+  defects: AnalyticsDefectRow[];
+  reviewEvents: AnalyticsReviewEvent[];
+  /** inspectorId -> display name */
+  inspectorNames: Record<string, string>;
+}
+
+export type AnalyticsRangePreset = "LAST_7_DAYS" | "LAST_30_DAYS" | "LAST_90_DAYS" | "THIS_YEAR" | "ALL";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Audit actions written by the report workflow for review decisions */
+export const REVIEW_DECISION_ACTIONS = ["APPROVED", "REJECTED", "REVISION_REQUESTED"] as const;
+
+export const UNASSIGNED_KEY = "UNASSIGNED";
+const UNKNOWN_INSPECTOR = "Unknown inspector";
+const UNKNOWN_REGION = "Unknown";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================
+// DATE RANGES
+// ============================================
+
+/**
+ * Date range for a preset, ending now
+ */
+export function dateRangeForPreset(preset: AnalyticsRangePreset, now: Date = new Date()): AnalyticsDateRange {
+  const to = now.toISOString();
+  switch (preset) {
+    case "LAST_7_DAYS":
+      return { from: new Date(now.getTime() - 7 * DAY_MS).toISOString(), to };
+    case "LAST_30_DAYS":
+      return { from: new Date(now.getTime() - 30 * DAY_MS).toISOString(), to };
+    case "LAST_90_DAYS":
+      return { from: new Date(now.getTime() - 90 * DAY_MS).toISOString(), to };
+    case "THIS_YEAR":
+      return { from: new Date(Date.UTC(now.getUTCFullYear(), 0, 1)).toISOString(), to };
+    case "ALL":
+      return { from: null, to: null };
+  }
+}
+
+export function isInRange(timestamp: string, range: AnalyticsDateRange): boolean {
+  const time = Date.parse(timestamp);
+  if (isNaN(time)) return false;
+  if (range.from && time < Date.parse(range.from)) return false;
+  if (range.to && time > Date.parse(range.to)) return false;
+  return true;
+}
+
+/**
+ * Monday of the (UTC) week containing a timestamp, as YYYY-MM-DD
+ */
+export function weekStart(timestamp: string): string {
+  const date = new Date(timestamp);
+  const day = date.getUTCDay(); // 0 = Sunday
+  const offset = (day + 6) % 7;
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - offset));
+  return monday.toISOString().slice(0, 10);
+}
+
+// ============================================
+// AGGREGATIONS
+// ============================================
+
+export function reportsPerInspectorWeek(
+  reports: AnalyticsReportRow[],
+  inspectorNames: Record<string, string>
+): InspectorWeekCount[] {
+  const counts = new Map<string, InspectorWeekCount>();
+  for (const report of reports) {
+    const inspectorId = report.inspectorId ?? UNASSIGNED_KEY;
+    const week = weekStart(report.createdAt);
+    const key = `${inspectorId}|${week}`;
+    const existing = counts.get(key);
+    if (existing) {
+      existing.reports++;
+    } else {
+      counts.set(key, {
+        inspectorId,
+        inspectorName: inspectorNames[inspectorId] ?? UNKNOWN_INSPECTOR,
+        weekStart: week,
+        reports: 1,
+      });
+    }
+  }
+  return [...counts.values()].sort(
+    (a, b) => b.weekStart.localeCompare(a.weekStart) || a.inspectorName.localeCompare(b.inspectorName)
+  );
+}
+
+/**
+ * Time from creation to approval for approved reports
+ */
+export function approvalTimeStats(reports: AnalyticsReportRow[]): ApprovalTimeStats {
+  const hours = reports
+    .filter((report) => report.approvedAt)
+    .map((report) => (Date.parse(report.approvedAt as string) - Date.parse(report.createdAt)) / HOUR_MS)
+    .filter((value) => !isNaN(value) && value >= 0)
+    .sort((a, b) => a - b);
+
+  if (hours.length === 0) {
+    return { approvedReports: 0, averageHours: null, medianHours: null };
+  }
+
+  const mid = Math.floor(hours.length / 2);
+  const median = hours.length % 2 === 0 ? (hours[mid - 1] + hours[mid]) / 2 : hours[mid];
+  const average = hours.reduce((sum, value) => sum + value, 0) / hours.length;
+  return { approvedReports: hours.length, averageHours: round1(average), medianHours: round1(median) };
+}
+
+/**
+ * Rejection and revision rates as a share of review decisions
+ */
+export function reviewOutcomeStats(events: AnalyticsReviewEvent[]): ReviewOutcomeStats {
+  const decisions = events.filter((event) =>
+    (REVIEW_DECISION_ACTIONS as readonly string[]).includes(event.action)
+  );
+  const approvals = decisions.filter((event) => event.action === "APPROVED").length;
+  const rejections = decisions.filter((event) => event.action === "REJECTED").length;
+  const revisions = decisions.filter((event) => event.action === "REVISION_REQUESTED").length;
+  const total = decisions.length;
+
+  return {
+    reviewed: new Set(decisions.map((event) => event.reportId)).size,
+    approvals,
+    rejections,
+    revisions,
+    rejectionRate: total > 0 ? round3(rejections / total) : null,
+    revisionRate: total > 0 ? round3(revisions / total) : null,
+  };
+}
+
+/**
+ * Count values, most common first
+ */
+export function distribution(values: Array<string | null>): DistributionBucket[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = value || UNASSIGNED_KEY;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+/**
+ * Reports and defects per region, with intensity relative to the busiest region
+ */
+export function regionHeatmap(reports: AnalyticsReportRow[], defects: AnalyticsDefectRow[]): RegionHeatCell[] {
+  const regionByReport = new Map<string, string>();
+  const cells = new Map<string, RegionHeatCell>();
+
+  for (const report of reports) {
+    const region = report.propertyRegion?.trim() || UNKNOWN_REGION;
+    regionByReport.set(report.id, region);
+    const cell = cells.get(region) ?? { region, reports: 0, defects: 0, intensity: 0 };
+    cell.reports++;
+    cells.set(region, cell);
+  }
+  for (const defect of defects) {
+    const region = regionByReport.get(defect.reportId);
+    if (region) cells.get(region)!.defects++;
+  }
+
+  const max = Math.max(0, ...[...cells.values()].map((cell) => cell.reports));
+  return [...cells.values()]
+    .map((cell) => ({ ...cell, intensity: max > 0 ? round3(cell.reports / max) : 0 }))
+    .sort((a, b) => b.reports - a.reports || a.region.localeCompare(b.region));
+}
+
+/**
+ * All dashboard figures for a date range
+ *
+ * Reports are filtered by creation date and review decisions by when they
+ * were made; defects follow their report.
+ */
+export function computeAdminAnalytics(
+  source: AnalyticsSource,
+  range: AnalyticsDateRange,
+  now: Date = new Date()
+): AdminAnalytics {
+  const reports = source.reports.filter((report) => isInRange(report.createdAt, range));
+  const reportIds = new Set(reports.map((report) => report.id));
+  const defects = source.defects.filter((defect) => reportIds.has(defect.reportId));
+  const reviewEvents = source.reviewEvents.filter((event) => isInRange(event.createdAt, range));
+
+  return {
+    range,
+    generatedAt: now.toISOString(),
+    source: "local",
+    totalReports: reports.length,
+    totalDefects: defects.length,
+    reportsPerInspectorWeek: reportsPerInspectorWeek(reports, source.inspectorNames),
+    approvalTime: approvalTimeStats(reports),
+    reviewOutcomes: reviewOutcomeStats(reviewEvents),
+    defectsByClass: distribution(defects.map((defect) => defect.classification)),
+    defectsBySeverity: distribution(defects.map((defect) => defect.severity)),
+    defectsByElementType: distribution(defects.map((defect) => defect.elementType)),
+    regions: regionHeatmap(reports, defects),
+  };
+}
+
+// ============================================
+// CSV EXPORT
+// ============================================
+
+function csvSection(title: string, header: string[], rows: Array<Array<string | number | null>>): string[] {
+  return [title, header.join(","), ...rows.map((row) => row.map(escapeCsvValue).join(",")), ""];
+}
+
+/**
+ * One CSV document with a titled block per figure
+ */
+export function analyticsToCsv(analytics: AdminAnalytics): string {
+  const { approvalTime, reviewOutcomes } = analytics;
+  const lines = [
+    ...csvSection(
+      "Summary",
+      ["metric", "value"],
+      [
+        ["from", analytics.range.from],
+        ["to", analytics.range.to],
+        ["generated_at", analytics.generatedAt],
+        ["source", analytics.source],
+        ["total_reports", analytics.totalReports],
+        ["total_defects", analytics.totalDefects],
+        ["approved_reports", approvalTime.approvedReports],
+        ["average_hours_to_approval", approvalTime.averageHours],
+        ["median_hours_to_approval", approvalTime.medianHours],
+        ["reports_reviewed", reviewOutcomes.reviewed],
+        ["approvals", reviewOutcomes.approvals],
+        ["rejections", reviewOutcomes.rejections],
+        ["revisions", reviewOutcomes.revisions],
+        ["rejection_rate", reviewOutcomes.rejectionRate],
+        ["revision_rate", reviewOutcomes.revisionRate],
+      ]
+    ),
+    ...csvSection(
+      "Reports per inspector per week",
+      ["week_start", "inspector_id", "inspector_name", "reports"],
+      analytics.reportsPerInspectorWeek.map((row) => [row.weekStart, row.inspectorId, row.inspectorName, row.reports])
+    ),
+    ...csvSection(
+      "Defects by class",
+      ["class", "count"],
+      analytics.defectsByClass.map((bucket) => [bucket.key, bucket.count])
+    ),
+    ...csvSection(
+      "Defects by severity",
+      ["severity", "count"],
+      analytics.defectsBySeverity.map((bucket) => [bucket.key, bucket.count])
+    ),
+    ...csvSection(
+      "Defects by element type",
+      ["element_type", "count"],
+      analytics.defectsByElementType.map((bucket) => [bucket.key, bucket.count])
+    ),
+    ...csvSection(
+      "Regions",
+      ["region", "reports", "defects", "intensity"],
+      analytics.regions.map((cell) => [cell.region, cell.reports, cell.defects, cell.intensity])
+    ),
+  ];
+  return lines.join("\n");
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -4,12 +4,28 @@
  */
 
 import axios, { AxiosInstance, AxiosError } from "axios";
+import * as FileSystem from "expo-file-system/legacy";
 import { getToken as getAuthToken } from "./auth/storage";
 import { isTokenExpired, getTokenRemainingSeconds } from "./auth/offline-verify";
 import { refreshToken } from "./auth/api";
 import { saveToken } from "./auth/storage";
 import { config, envLog, envWarn } from "../config/environment";
-import type { ApiResponse, BootstrapResponse, Report, ReportSummary } from "../types/shared";
+import type {
+  AdminAnalytics,
+  AnalyticsDateRange,
+  ApiResponse,
+  BootstrapResponse,
+  DeviceDirective,
+  DeviceDirectiveAction,
+  DeviceDirectiveReceipt,
+  Report,
+  ReportDeltaResponse,
+  ReportSummary,
+  ScheduledJob,
+  ScheduledJobInput,
+  User,
+  UserAdminAction,
+} from "../types/shared";
 
 // API Configuration - uses centralized environment config
 const API_TIMEOUT = 30000; // 30 seconds
@@ -194,6 +210,31 @@ export async function fetchBootstrapData(lastSyncAt?: string): Promise<ApiRespon
   }
 }
 
+/**
+ * Delta endpoint - complete report graphs and tombstones changed since a cursor
+ */
+export async function fetchReportDelta(
+  since?: string,
+  limit: number = 20
+): Promise<ApiResponse<ReportDeltaResponse>> {
+  try {
+    const params = since ? { since, limit } : { limit };
+    const response = await apiClient.get<ApiResponse<ReportDeltaResponse>>("/api/sync/delta", { params });
+    const data = response.data;
+    envLog(
+      `Delta response: success=${data.success}, reports=${data.data?.reports?.length ?? 'N/A'}, tombstones=${data.data?.tombstones?.length ?? 'N/A'}, hasMore=${data.data?.hasMore ?? 'N/A'}`
+    );
+    return data;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    envWarn(`Delta download failed: ${apiError.status} ${apiError.code} - ${apiError.message}`);
+    return {
+      success: false,
+      error: `${apiError.status} ${apiError.code}: ${apiError.message}`,
+    };
+  }
+}
+
 // ============================================
 // REPORT ENDPOINTS
 // ============================================
@@ -387,6 +428,243 @@ export async function saveComplianceAssessment(
   }
 }
 
+// ============================================
+// ADMIN USER ENDPOINTS
+// ============================================
+
+/**
+ * Fetch the user directory (admin only)
+ */
+export async function fetchManagedUsers(): Promise<ApiResponse<User[]>> {
+  try {
+    const response = await apiClient.get<ApiResponse<User[]>>("/api/admin/users");
+    return response.data;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return {
+      success: false,
+      error: apiError.message,
+      status: apiError.status,
+    };
+  }
+}
+
+/**
+ * Send a suspend, activate, role change or invitation to the server (admin only)
+ *
+ * Failed responses carry the HTTP status so callers can tell an
+ * unreachable server (queue and retry) from a refusal (revert).
+ */
+export async function performUserAdminAction(action: UserAdminAction): Promise<ApiResponse<User>> {
+  const body = { reason: action.reason || null, requestedAt: action.requestedAt };
+  try {
+    let response;
+    switch (action.type) {
+      case "SUSPEND":
+        response = await apiClient.post<ApiResponse<User>>(`/api/admin/users/${action.userId}/suspend`, body);
+        break;
+      case "ACTIVATE":
+        response = await apiClient.post<ApiResponse<User>>(`/api/admin/users/${action.userId}/activate`, body);
+        break;
+      case "CHANGE_ROLE":
+        response = await apiClient.patch<ApiResponse<User>>(`/api/admin/users/${action.userId}`, {
+          ...body,
+          role: action.role,
+        });
+        break;
+      case "INVITE":
+        response = await apiClient.post<ApiResponse<User>>("/api/admin/users/invite", {
+          ...body,
+          ...action.invite,
+        });
+        break;
+    }
+    return response.data;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return {
+      success: false,
+      error: apiError.message,
+      status: apiError.status,
+    };
+  }
+}
+
+// ============================================
+// ADMIN ANALYTICS ENDPOINTS
+// ============================================
+
+/**
+ * Organisation-wide analytics computed by the server (admin only)
+ */
+export async function fetchAdminAnalytics(range: AnalyticsDateRange): Promise<ApiResponse<AdminAnalytics>> {
+  try {
+    const params: Record<string, string> = {};
+    if (range.from) params.from = range.from;
+    if (range.to) params.to = range.to;
+    const response = await apiClient.get<ApiResponse<AdminAnalytics>>("/api/admin/analytics", { params });
+    return response.data;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return {
+      success: false,
+      error: apiError.message,
+      status: apiError.status,
+    };
+  }
+}
+
+// ============================================
+// SCHEDULED JOB ENDPOINTS
+// ============================================
+
+/**
+ * Upcoming jobs across all inspectors (admin only)
+ */
+export async function fetchScheduledJobs(): Promise<ApiResponse<ScheduledJob[]>> {
+  try {
+    const response = await apiClient.get<ApiResponse<ScheduledJob[]>>("/api/admin/jobs");
+    return response.data;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return {
+      success: false,
+      error: apiError.message,
+      status: apiError.status,
+    };
+  }
+}
+
+/**
+ * Book a job and assign it to an inspector (admin only)
+ *
+ * The inspector's device picks it up on its next bootstrap.
+ */
+export async function createScheduledJob(input: ScheduledJobInput): Promise<ApiResponse<ScheduledJob>> {
+  try {
+    const response = await apiClient.post<ApiResponse<ScheduledJob>>("/api/admin/jobs", input);
+    return response.data;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return {
+      success: false,
+      error: apiError.message,
+      status: apiError.status,
+    };
+  }
+}
+
+// ============================================
+// DEVICE DIRECTIVE ENDPOINTS
+// ============================================
+
+/**
+ * Issue a remote wipe or deprovision for a user's devices (admin only)
+ *
+ * Devices pick the directive up on their next bootstrap or session check.
+ */
+export async function issueDeviceDirective(
+  userId: string,
+  action: DeviceDirectiveAction,
+  reason?: string
+): Promise<ApiResponse<DeviceDirective>> {
+  try {
+    const response = await apiClient.post<ApiResponse<DeviceDirective>>(
+      `/api/admin/users/${userId}/device-directives`,
+      { action, reason: reason || null }
+    );
+    return response.data;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return {
+      success: false,
+      error: apiError.message,
+    };
+  }
+}
+
+/**
+ * Report that a directive has been carried out on this device
+ */
+export async function acknowledgeDeviceDirective(
+  directiveId: string,
+  receipt: DeviceDirectiveReceipt
+): Promise<ApiResponse<void>> {
+  try {
+    const response = await apiClient.post<ApiResponse<void>>(
+      `/api/sync/device-directives/${directiveId}/ack`,
+      receipt
+    );
+    return response.data;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return {
+      success: false,
+      error: apiError.message,
+    };
+  }
+}
+
+// ============================================
+// TRANSCRIPTION ENDPOINTS
+// ============================================
+
+/**
+ * Transcribe a voice note on the server
+ *
+ * The audio travels with its evidence hash so the server can check it
+ * against the copy uploaded at sync. The file is streamed from disk as a
+ * multipart upload rather than read into memory.
+ */
+export async function transcribeVoiceNote(input: {
+  voiceNoteId: string;
+  localUri: string;
+  mimeType: string;
+  originalHash: string;
+}): Promise<ApiResponse<{ text: string; language?: string; confidence?: number }>> {
+  try {
+    // Uploads bypass axios, so apply the request interceptor's token handling here
+    let token = await getAuthToken();
+    if (token && isTokenExpired(token)) {
+      return { success: false, error: "Token expired", status: 401 };
+    }
+    if (token) {
+      token = await maybeRefreshToken(token);
+    }
+
+    const result = await FileSystem.uploadAsync(`${config.apiUrl}/api/voice-notes/transcribe`, input.localUri, {
+      httpMethod: "POST",
+      uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+      fieldName: "audio",
+      mimeType: input.mimeType,
+      parameters: { voiceNoteId: input.voiceNoteId, originalHash: input.originalHash },
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    let body: ApiResponse<{ text: string; language?: string; confidence?: number }> | null = null;
+    try {
+      body = JSON.parse(result.body);
+    } catch {
+      // Non-JSON error page; fall through to the status check
+    }
+    if (result.status < 200 || result.status >= 300 || !body) {
+      return {
+        success: false,
+        error: body?.error || `Transcription request failed (${result.status})`,
+        status: result.status,
+      };
+    }
+    return body;
+  } catch (error) {
+    const apiError = handleApiError(error);
+    return {
+      success: false,
+      error: apiError.message,
+      status: apiError.status,
+    };
+  }
+}
+
 // ============================================
 // HEALTH CHECK
 // ============================================
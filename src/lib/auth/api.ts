@@ -7,6 +7,8 @@
 
 import { AUTH_CONFIG, AUTH_ENDPOINTS } from '../../constants/auth';
 import { getToken } from './storage';
+import { parseDeviceDirective } from '../device-directive';
+import type { DeviceDirective } from '../../types/shared';
 
 // ============================================
 // TYPES
@@ -27,6 +29,8 @@ export interface LoginResponse {
  */
 export interface SessionValidationResponse {
   valid: boolean;
+  /** Wipe/deprovision instruction for this device, if an admin issued one */
+  directive?: DeviceDirective | null;
   error?: string;
 }
 
@@ -125,12 +129,13 @@ export async function logoutFromServer(): Promise<void> {
 /**
  * Validate current session with the server.
  * Used to check if the stored token is still valid on the server
- * (e.g., hasn't been revoked).
+ * (e.g., hasn't been revoked), and to pick up any wipe or deprovision
+ * directive issued for this device.
  *
  * @param token - The JWT token to validate
- * @returns true if session is valid, false otherwise
+ * @returns Validation result; valid is false on network errors
  */
-export async function validateSessionOnline(token: string): Promise<boolean> {
+export async function validateSessionOnline(token: string): Promise<SessionValidationResponse> {
   try {
     const response = await fetch(
       `${AUTH_CONFIG.apiBaseUrl}${AUTH_ENDPOINTS.VALIDATE_SESSION}`,
@@ -143,11 +148,20 @@ export async function validateSessionOnline(token: string): Promise<boolean> {
       }
     );
 
-    return response.ok;
+    // A directive may accompany a revoked session, so read the body either way
+    const data = await response.json().catch(() => null);
+    return {
+      valid: response.ok,
+      directive: parseDeviceDirective(data?.directive),
+      error: response.ok ? undefined : data?.error || `HTTP ${response.status}`,
+    };
   } catch (error) {
     // Network error - can't validate
     console.warn('[AuthAPI] Session validation failed:', error);
-    return false;
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Session validation failed',
+    };
   }
 }
 
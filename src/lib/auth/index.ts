@@ -25,6 +25,10 @@ export {
   saveLastOnlineValidation,
   getLastOnlineValidation,
   deleteLastOnlineValidation,
+  getOrCreateDatabaseKey,
+  getOrCreateFileEncryptionKey,
+  deleteEncryptionKeys,
+  type EncryptionKeyResult,
   clearAllAuthData,
   getAuthStorageInfo,
   isSecureStorageAvailable,
@@ -14,7 +14,9 @@
  */
 
 import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
 import { STORAGE_KEYS, type StorageKey } from '../../constants/auth';
+import { ENCRYPTION_KEY_BYTES, isValidKeyHex, keyToHex } from '../encryption';
 
 /**
  * Storage options with WHEN_UNLOCKED_THIS_DEVICE_ONLY accessibility
@@ -39,16 +41,21 @@ const SECURE_STORE_TIMEOUT_MS = 5_000;
 /**
  * Race a promise against a timeout to prevent hanging
  */
-function withTimeout<T>(promise: Promise<T>, fallback: T, label: string): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((resolve) =>
-      setTimeout(() => {
-        console.warn(`[AuthStorage] ${label} timed out after ${SECURE_STORE_TIMEOUT_MS}ms`);
-        resolve(fallback);
-      }, SECURE_STORE_TIMEOUT_MS)
-    ),
-  ]);
+async function withTimeout<T>(promise: Promise<T>, fallback: T, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<T>((resolve) => {
+        timer = setTimeout(() => {
+          console.warn(`[AuthStorage] ${label} timed out after ${SECURE_STORE_TIMEOUT_MS}ms`);
+          resolve(fallback);
+        }, SECURE_STORE_TIMEOUT_MS);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
 /**
@@ -225,6 +232,80 @@ export async function deleteLastOnlineValidation(): Promise<void> {
   await deleteSecureItem(STORAGE_KEYS.LAST_ONLINE_VALIDATION);
 }
 
+// ============================================
+// ENCRYPTION KEYS
+// ============================================
+
+export interface EncryptionKeyResult {
+  key: string;
+  /** True if no key existed and a new one was generated */
+  created: boolean;
+}
+
+/**
+ * Get an encryption key, generating it on first use
+ *
+ * Unlike the helpers above, a timeout or read error is NOT treated as
+ * "missing": generating a replacement would make existing encrypted data
+ * unreadable. Returns null if the key can't be read or saved.
+ */
+async function getOrCreateEncryptionKey(key: StorageKey): Promise<EncryptionKeyResult | null> {
+  let existing: string | null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    existing = await Promise.race([
+      SecureStore.getItemAsync(key, STORAGE_OPTIONS),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timed out')), SECURE_STORE_TIMEOUT_MS);
+      }),
+    ]);
+  } catch (error) {
+    console.error(`[AuthStorage] Failed to read ${key}:`, error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (isValidKeyHex(existing)) {
+    return { key: existing, created: false };
+  }
+  if (existing) {
+    console.error(`[AuthStorage] Stored ${key} is malformed`);
+    return null;
+  }
+
+  const generated = keyToHex(Crypto.getRandomBytes(ENCRYPTION_KEY_BYTES));
+  const saved = await setSecureItem(key, generated);
+  return saved ? { key: generated, created: true } : null;
+}
+
+/**
+ * Get the SQLCipher key for the local database
+ */
+export async function getOrCreateDatabaseKey(): Promise<EncryptionKeyResult | null> {
+  return getOrCreateEncryptionKey(STORAGE_KEYS.DATABASE_KEY);
+}
+
+/**
+ * Get the AES key for encrypted evidence files
+ */
+export async function getOrCreateFileEncryptionKey(): Promise<EncryptionKeyResult | null> {
+  return getOrCreateEncryptionKey(STORAGE_KEYS.FILE_ENCRYPTION_KEY);
+}
+
+/**
+ * Delete both encryption keys
+ *
+ * Anything still encrypted with them becomes unreadable. Only call this
+ * when the local data is being destroyed.
+ */
+export async function deleteEncryptionKeys(): Promise<void> {
+  await Promise.all([
+    deleteSecureItem(STORAGE_KEYS.DATABASE_KEY),
+    deleteSecureItem(STORAGE_KEYS.FILE_ENCRYPTION_KEY),
+  ]);
+}
+
 // ============================================
 // BULK OPERATIONS
 // ============================================
@@ -232,6 +313,9 @@ export async function deleteLastOnlineValidation(): Promise<void> {
 /**
  * Clear all auth-related data from secure storage
  * Used during logout or account switch
+ *
+ * Encryption keys are kept so unsynced local work is still readable
+ * after the next login.
  */
 export async function clearAllAuthData(): Promise<void> {
   await Promise.all([
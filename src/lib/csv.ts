@@ -0,0 +1,13 @@
+/**
+ * CSV
+ * Field escaping shared by the CSV exports
+ */
+
+/**
+ * Quote a field when it contains a comma, quote or line break (RFC 4180)
+ */
+export function escapeCsvValue(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,116 @@
+/**
+ * Defect Library
+ * Search and form pre-fill for reusable defect templates
+ *
+ * Templates only seed the new-defect form. The inspector is expected to
+ * edit the wording to match what was actually observed on site, and the
+ * saved defect keeps no link back to the template.
+ */
+
+import type { LocalDefectTemplate } from "../types/database";
+import type { DefectClass, DefectSeverity, ElementType, PriorityLevel } from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Form fields a template can fill on the new-defect screen
+ */
+export interface DefectTemplateFields {
+  title: string;
+  classification: DefectClass;
+  severity: DefectSeverity;
+  observation: string;
+  analysis: string;
+  opinion: string;
+  codeReference: string;
+  copReference: string;
+  recommendation: string;
+  priorityLevel: PriorityLevel | null;
+}
+
+export interface DefectTemplateFilter {
+  query?: string;
+  /** Element type of the linked roof element; matching templates sort first */
+  elementType?: ElementType | null;
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+function matchesQuery(template: LocalDefectTemplate, terms: string[]): boolean {
+  const haystack = [
+    template.name,
+    template.title,
+    template.observation,
+    template.codeReference,
+    template.copReference,
+    template.elementType?.replace(/_/g, " "),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  return terms.every((term) => haystack.includes(term));
+}
+
+/**
+ * Filter templates by free-text query, with templates for the given
+ * element type listed first and generic templates after them
+ */
+export function filterDefectTemplates(
+  templates: LocalDefectTemplate[],
+  filter: DefectTemplateFilter = {}
+): LocalDefectTemplate[] {
+  const terms = (filter.query ?? "")
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const matched = terms.length > 0 ? templates.filter((t) => matchesQuery(t, terms)) : [...templates];
+
+  if (!filter.elementType) {
+    return matched.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  const rank = (t: LocalDefectTemplate) =>
+    t.elementType === filter.elementType ? 0 : t.elementType === null ? 1 : 2;
+
+  return matched.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+}
+
+// ============================================
+// FORM PRE-FILL
+// ============================================
+
+/**
+ * Map a template to new-defect form values (empty strings for blank text)
+ */
+export function defectFieldsFromTemplate(template: LocalDefectTemplate): DefectTemplateFields {
+  return {
+    title: template.title,
+    classification: template.classification,
+    severity: template.severity,
+    observation: template.observation,
+    analysis: template.analysis ?? "",
+    opinion: template.opinion ?? "",
+    codeReference: template.codeReference ?? "",
+    copReference: template.copReference ?? "",
+    recommendation: template.recommendation ?? "",
+    priorityLevel: template.priorityLevel,
+  };
+}
+
+/**
+ * Whether applying a template would replace text the inspector already typed
+ */
+export function templateWouldOverwrite(
+  current: Pick<
+    DefectTemplateFields,
+    "title" | "observation" | "analysis" | "opinion" | "codeReference" | "copReference" | "recommendation"
+  >
+): boolean {
+  return Object.values(current).some((value) => value.trim().length > 0);
+}
@@ -0,0 +1,171 @@
+/**
+ * Delta Sync
+ * Decisions for applying server deltas, propagating local deletions and
+ * evicting cached photo binaries
+ *
+ * The delta protocol (GET /api/sync/delta) returns complete report graphs
+ * and tombstones changed since an opaque cursor. Local deletions travel
+ * the other way as "delete" rows in the sync queue until the server
+ * acknowledges them. These helpers make the decisions; the sync engine
+ * does the I/O.
+ */
+
+import type { LocalPhotoCacheEntry, LocalSyncQueue } from "../types/database";
+import type { DeletionSync, SyncTombstone, TombstoneEntityType } from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LocalRowState {
+  syncStatus: string;
+  updatedAt: string;
+}
+
+export type DeltaDecision = "apply" | "skip";
+
+export type RemoteUpdateDecision = "apply" | "merge";
+
+/** Payload stored with a "delete" sync queue row */
+export interface DeletionQueuePayload {
+  reportId: string | null;
+  deletedAt: string;
+  originalHash?: string | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Sync statuses meaning the local row matches what the server last saw */
+const CLEAN_STATUSES = new Set(["synced", "uploaded"]);
+
+/** Default ceiling for downloaded photo binaries */
+export const PHOTO_CACHE_MAX_BYTES = 200 * 1024 * 1024;
+
+// ============================================
+// APPLYING SERVER CHANGES
+// ============================================
+
+/**
+ * Whether a local row has changes the server has not seen
+ */
+export function isLocallyModified(local: Pick<LocalRowState, "syncStatus"> | null): boolean {
+  return !!local && !CLEAN_STATUSES.has(local.syncStatus);
+}
+
+/**
+ * Decide how a downloaded row meets the local copy
+ *
+ * Clean rows take the server version. Rows with unsynced local edits are
+ * never overwritten, whichever side is newer: the report graph goes
+ * through the three-way merge instead.
+ */
+export function decideRemoteUpdate(local: Pick<LocalRowState, "syncStatus"> | null): RemoteUpdateDecision {
+  return isLocallyModified(local) ? "merge" : "apply";
+}
+
+/**
+ * Decide whether a server deletion removes the local row
+ *
+ * A row edited locally after the server deleted it is kept so the edit
+ * is not silently lost; otherwise the deletion wins.
+ */
+export function decideTombstone(local: LocalRowState | null, tombstone: SyncTombstone): DeltaDecision {
+  if (!local) return "skip";
+  if (!isLocallyModified(local)) return "apply";
+  return new Date(local.updatedAt) > new Date(tombstone.deletedAt) ? "skip" : "apply";
+}
+
+/**
+ * Order tombstones so children are removed before their report
+ */
+export function orderTombstones(tombstones: SyncTombstone[]): SyncTombstone[] {
+  return [...tombstones].sort((a, b) => {
+    const aReport = a.entityType === "report" ? 1 : 0;
+    const bReport = b.entityType === "report" ? 1 : 0;
+    return aReport - bReport;
+  });
+}
+
+// ============================================
+// LOCAL DELETIONS
+// ============================================
+
+/**
+ * Idempotency key for deleting an entity
+ *
+ * Stable per entity (no timestamp) so deleting twice queues one tombstone
+ * and the server applies a retried deletion once.
+ */
+export function deletionIdempotencyKey(entityType: TombstoneEntityType, entityId: string): string {
+  return `${entityType}:${entityId}:delete`;
+}
+
+/**
+ * Build the upload form of a queued deletion
+ */
+export function deletionFromQueueItem(item: LocalSyncQueue): DeletionSync {
+  const payload = JSON.parse(item.payloadJson) as DeletionQueuePayload;
+  return {
+    entityType: item.entityType as TombstoneEntityType,
+    entityId: item.entityId,
+    reportId: payload.reportId,
+    idempotencyKey: item.idempotencyKey,
+    deletedAt: payload.deletedAt,
+    originalHash: payload.originalHash ?? null,
+  };
+}
+
+/**
+ * Split sent deletions into those the server acknowledged and those to retry
+ */
+export function partitionAcknowledged<T extends { idempotencyKey: string }>(
+  sent: T[],
+  acknowledgedKeys: string[] | undefined
+): { acknowledged: T[]; unacknowledged: T[] } {
+  const acked = new Set(acknowledgedKeys ?? []);
+  return {
+    acknowledged: sent.filter((item) => acked.has(item.idempotencyKey)),
+    unacknowledged: sent.filter((item) => !acked.has(item.idempotencyKey)),
+  };
+}
+
+// ============================================
+// PHOTO CACHE EVICTION
+// ============================================
+
+/**
+ * Pick cache entries to evict so the cache fits within maxBytes
+ *
+ * Least recently used entries go first. Protected photo IDs (e.g. the
+ * one just downloaded for display) are never evicted.
+ */
+export function selectCacheEvictions(
+  entries: LocalPhotoCacheEntry[],
+  maxBytes: number,
+  options: { protectedIds?: Set<string> } = {}
+): LocalPhotoCacheEntry[] {
+  const { protectedIds } = options;
+  const evictions: LocalPhotoCacheEntry[] = [];
+  let total = entries.reduce((sum, e) => sum + e.fileSize, 0);
+
+  const candidates = entries
+    .filter((e) => !protectedIds?.has(e.photoId))
+    .sort((a, b) => a.lastAccessedAt.localeCompare(b.lastAccessedAt));
+
+  for (const entry of candidates) {
+    if (total <= maxBytes) break;
+    evictions.push(entry);
+    total -= entry.fileSize;
+  }
+
+  return evictions;
+}
+
+/**
+ * Whether a photo URI points at a remote binary that needs caching
+ */
+export function isRemoteUri(uri: string | null | undefined): boolean {
+  return !!uri && /^https?:\/\//i.test(uri);
+}
@@ -0,0 +1,59 @@
+/**
+ * Device Directives
+ * Validation of remote wipe / deprovision instructions from the server
+ *
+ * A directive destroys local evidence, so anything that doesn't look
+ * exactly like one is ignored rather than acted on. These helpers make
+ * the decisions; the remote wipe service does the I/O.
+ */
+
+import type { DeviceDirective, DeviceDirectiveAction } from "../types/shared";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DIRECTIVE_ACTIONS: readonly DeviceDirectiveAction[] = ["WIPE", "DEPROVISION"];
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Read a directive from an untrusted response body or stored JSON
+ *
+ * @returns The directive, or null if the value is missing or malformed
+ */
+export function parseDeviceDirective(value: unknown): DeviceDirective | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  if (typeof raw.id !== "string" || raw.id.length === 0) return null;
+  if (!DIRECTIVE_ACTIONS.includes(raw.action as DeviceDirectiveAction)) return null;
+  if (typeof raw.issuedAt !== "string" || isNaN(Date.parse(raw.issuedAt))) return null;
+
+  return {
+    id: raw.id,
+    action: raw.action as DeviceDirectiveAction,
+    issuedAt: raw.issuedAt,
+    issuedBy: typeof raw.issuedBy === "string" ? raw.issuedBy : null,
+    reason: typeof raw.reason === "string" ? raw.reason : null,
+  };
+}
+
+/**
+ * Whether a directive deletes the device ID and preferences as well as data
+ */
+export function isDeprovision(directive: DeviceDirective): boolean {
+  return directive.action === "DEPROVISION";
+}
+
+/**
+ * Custody note recorded against each evidence item removed by a directive
+ */
+export function describeDeviceDirective(directive: DeviceDirective, synced: boolean): string {
+  const action = directive.action === "DEPROVISION" ? "deprovision" : "wipe";
+  const issuer = directive.issuedBy ? ` issued by ${directive.issuedBy}` : "";
+  const state = synced ? "Server copy confirmed" : "NOT synced to server before removal";
+  return `Removed from device by remote ${action}${issuer} (directive ${directive.id}). ${state}.`;
+}
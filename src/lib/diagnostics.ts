@@ -0,0 +1,171 @@
+/**
+ * Diagnostics
+ * Shapes device state into the support bundle built by diagnostics-service
+ *
+ * Nothing here reads the device; the service gathers the inputs. Sync queue
+ * payloads are reduced to a redacted preview so the bundle can be sent to
+ * support without client contact details or tokens.
+ */
+
+import { redactText, redactValue, type StoredLogEntry } from "./log-store";
+import type { LocalSyncQueue } from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SyncQueueItemSummary {
+  id: number;
+  entityType: string;
+  entityId: string;
+  operation: string;
+  attemptCount: number;
+  lastError: string | null;
+  createdAt: string;
+  idempotencyKey: string;
+  failed: boolean;
+  payloadBytes: number;
+  payloadPreview: string;
+}
+
+export interface SyncQueueSummary {
+  total: number;
+  failed: number;
+  byEntityType: Record<string, number>;
+  byOperation: Record<string, number>;
+  oldestCreatedAt: string | null;
+  items: SyncQueueItemSummary[];
+}
+
+export interface SyncQueueFailurePolicy {
+  /** Items at or above this many attempts are no longer retried */
+  maxAttempts: number;
+  /** Suffix appended to the operation when an item is given up on */
+  failedStatus: string;
+}
+
+export interface BackgroundTaskRun {
+  timestamp: string;
+  action: string;
+  result: string;
+  details?: Record<string, unknown>;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const PAYLOAD_PREVIEW_LENGTH = 300;
+
+/** Queue rows listed individually; the counts always cover the whole queue */
+export const MAX_QUEUE_ITEMS_IN_BUNDLE = 200;
+
+// ============================================
+// SYNC QUEUE
+// ============================================
+
+/**
+ * Redacted, truncated view of a queue payload
+ */
+export function payloadPreview(payloadJson: string, maxLength: number = PAYLOAD_PREVIEW_LENGTH): string {
+  let preview: string;
+  try {
+    preview = JSON.stringify(redactValue(JSON.parse(payloadJson)));
+  } catch {
+    preview = redactText(payloadJson);
+  }
+  return preview.length > maxLength ? `${preview.substring(0, maxLength)}…` : preview;
+}
+
+/**
+ * Whether a queue item has been given up on and needs manual attention
+ */
+export function isFailedQueueItem(item: LocalSyncQueue, policy: SyncQueueFailurePolicy): boolean {
+  return item.attemptCount >= policy.maxAttempts || item.operation.endsWith(`:${policy.failedStatus}`);
+}
+
+/**
+ * Counts for the whole queue plus the oldest items in detail
+ */
+export function summarizeSyncQueue(
+  items: LocalSyncQueue[],
+  policy: SyncQueueFailurePolicy,
+  maxItems: number = MAX_QUEUE_ITEMS_IN_BUNDLE
+): SyncQueueSummary {
+  const byEntityType: Record<string, number> = {};
+  const byOperation: Record<string, number> = {};
+  let failed = 0;
+
+  const sorted = [...items].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const item of sorted) {
+    byEntityType[item.entityType] = (byEntityType[item.entityType] ?? 0) + 1;
+    byOperation[item.operation] = (byOperation[item.operation] ?? 0) + 1;
+    if (isFailedQueueItem(item, policy)) failed++;
+  }
+
+  return {
+    total: items.length,
+    failed,
+    byEntityType,
+    byOperation,
+    oldestCreatedAt: sorted[0]?.createdAt ?? null,
+    items: sorted.slice(0, maxItems).map((item) => ({
+      id: item.id,
+      entityType: item.entityType,
+      entityId: item.entityId,
+      operation: item.operation,
+      attemptCount: item.attemptCount,
+      lastError: item.lastError ? redactText(item.lastError) : null,
+      createdAt: item.createdAt,
+      idempotencyKey: item.idempotencyKey,
+      failed: isFailedQueueItem(item, policy),
+      payloadBytes: item.payloadJson.length,
+      payloadPreview: payloadPreview(item.payloadJson),
+    })),
+  };
+}
+
+// ============================================
+// BACKGROUND TASKS
+// ============================================
+
+/**
+ * Background task runs recovered from the log store, newest first
+ */
+export function backgroundTaskHistory(entries: StoredLogEntry[], source: string): BackgroundTaskRun[] {
+  return entries
+    .filter((entry) => entry.source === source)
+    .map((entry) => {
+      const { action, ...details } = entry.context ?? {};
+      return {
+        timestamp: entry.timestamp,
+        action: typeof action === "string" ? action : "unknown",
+        result: entry.message,
+        ...(Object.keys(details).length > 0 ? { details } : {}),
+      };
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+// ============================================
+// BUNDLE
+// ============================================
+
+/**
+ * ZIP name for a bundle, e.g. diagnostics_20260310-091500.zip (UTC)
+ */
+export function diagnosticsFilename(now: Date): string {
+  const stamp = now
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "")
+    .replace(/[-:]/g, "")
+    .replace("T", "-");
+  return `diagnostics_${stamp}.zip`;
+}
+
+/**
+ * JSON lines for the bundle's log file
+ */
+export function logEntriesToJsonl(entries: StoredLogEntry[]): string {
+  return entries.map((entry) => JSON.stringify(entry)).join("\n") + (entries.length > 0 ? "\n" : "");
+}
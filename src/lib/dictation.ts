@@ -0,0 +1,154 @@
+/**
+ * Dictation
+ * Guided dictation of a defect's observation, analysis and opinion
+ *
+ * Each field gets its own voice note, tagged with the field and linked to the
+ * defect, so the recording stays as evidence behind the text. Transcripts fill
+ * the fields as they arrive and must be reviewed by the inspector before the
+ * defect is saved.
+ */
+
+import { insertTranscript } from "./transcription";
+import type { DictationField, TranscriptionStatus } from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DictationStep {
+  field: DictationField;
+  label: string;
+  prompt: string;
+}
+
+/**
+ * Latest recording for a field and how far its transcript has got
+ */
+export interface DictationEntry {
+  voiceNoteId: string;
+  status: TranscriptionStatus;
+  /** Transcript last written into the field */
+  transcript: string | null;
+  reviewed: boolean;
+}
+
+export type DictationState = Partial<Record<DictationField, DictationEntry>>;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const DICTATION_STEPS: DictationStep[] = [
+  {
+    field: "observation",
+    label: "Observation",
+    prompt: "Describe exactly what you see: the element, where it is, and its extent.",
+  },
+  {
+    field: "analysis",
+    label: "Analysis",
+    prompt: "Explain the likely cause and how it affects the roof's performance.",
+  },
+  {
+    field: "opinion",
+    label: "Opinion",
+    prompt: "Give your professional opinion and the consequence if left untreated.",
+  },
+];
+
+// ============================================
+// STATE
+// ============================================
+
+/**
+ * First field not yet dictated, in guided order
+ */
+export function nextDictationField(state: DictationState): DictationField | null {
+  return DICTATION_STEPS.find((step) => !state[step.field])?.field ?? null;
+}
+
+/**
+ * Record a new voice note for a field. Any earlier take for the field is
+ * returned so the caller can mark it superseded: one current note per field.
+ */
+export function startDictation(
+  state: DictationState,
+  field: DictationField,
+  voiceNoteId: string
+): { state: DictationState; replacedVoiceNoteId: string | null } {
+  const previous = state[field];
+  return {
+    state: {
+      ...state,
+      [field]: { voiceNoteId, status: "pending", transcript: previous?.transcript ?? null, reviewed: false },
+    },
+    replacedVoiceNoteId: previous && previous.voiceNoteId !== voiceNoteId ? previous.voiceNoteId : null,
+  };
+}
+
+/**
+ * Field a voice note was dictated for, if it is one of ours
+ */
+export function dictationFieldFor(state: DictationState, voiceNoteId: string): DictationField | null {
+  return DICTATION_STEPS.find((step) => state[step.field]?.voiceNoteId === voiceNoteId)?.field ?? null;
+}
+
+export function updateDictationStatus(
+  state: DictationState,
+  voiceNoteId: string,
+  status: TranscriptionStatus
+): DictationState {
+  const field = dictationFieldFor(state, voiceNoteId);
+  if (!field) return state;
+  return { ...state, [field]: { ...state[field]!, status } };
+}
+
+/**
+ * Note the transcript written into the field; it needs reviewing again
+ */
+export function completeDictation(state: DictationState, voiceNoteId: string, transcript: string): DictationState {
+  const field = dictationFieldFor(state, voiceNoteId);
+  if (!field) return state;
+  return { ...state, [field]: { ...state[field]!, status: "completed", transcript, reviewed: false } };
+}
+
+export function markDictationReviewed(state: DictationState, field: DictationField): DictationState {
+  const entry = state[field];
+  if (!entry || entry.reviewed) return state;
+  return { ...state, [field]: { ...entry, reviewed: true } };
+}
+
+// ============================================
+// FIELDS
+// ============================================
+
+/**
+ * New text for a field once its transcript arrives. An untouched earlier
+ * transcript is replaced (a re-take); text the inspector typed is kept and
+ * the transcript added after it.
+ */
+export function fillDictatedField(current: string, previousTranscript: string | null, transcript: string): string {
+  const trimmed = current.trim();
+  if (!trimmed || trimmed === previousTranscript) return transcript;
+  return insertTranscript(current, transcript);
+}
+
+/**
+ * Dictated fields whose transcript the inspector has not reviewed
+ */
+export function unreviewedDictations(state: DictationState): DictationStep[] {
+  return DICTATION_STEPS.filter((step) => {
+    const entry = state[step.field];
+    return entry?.transcript != null && !entry.reviewed;
+  });
+}
+
+/**
+ * Dictated fields still waiting on a transcript
+ */
+export function pendingDictations(state: DictationState): DictationStep[] {
+  return DICTATION_STEPS.filter((step) => {
+    const status = state[step.field]?.status;
+    return status === "pending" || status === "processing";
+  });
+}
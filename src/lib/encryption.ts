@@ -0,0 +1,178 @@
+/**
+ * Encryption at Rest
+ * Key formats and the encrypted file envelope used for local data
+ *
+ * The SQLite store is encrypted by SQLCipher (enabled through the
+ * expo-sqlite config plugin) with a random 256-bit key kept in SecureStore.
+ * Evidence files can optionally be encrypted with AES-256-GCM using a
+ * separate key. Encrypted files start with a fixed magic so readers can
+ * tell them apart from plaintext files written before encryption was on.
+ *
+ * Envelope: "RANZENC1" (8 bytes) | nonce (12 bytes) | ciphertext + GCM tag
+ *
+ * originalHash is always computed over the plaintext, so a file decrypted
+ * from its envelope verifies against the hash recorded at capture.
+ */
+
+import { gcm } from "@noble/ciphers/aes";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Key length for both SQLCipher and file encryption */
+export const ENCRYPTION_KEY_BYTES = 32;
+
+/** AES-GCM nonce length */
+export const FILE_NONCE_BYTES = 12;
+
+const FILE_MAGIC = "RANZENC1";
+
+/** "SQLite format 3\0" — the header of every unencrypted SQLite file */
+const SQLITE_PLAINTEXT_HEADER = "SQLite format 3\u0000";
+
+// ============================================
+// KEYS
+// ============================================
+
+/**
+ * Encode random bytes as a hex key
+ */
+export function keyToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Check a stored key is a 256-bit hex string
+ *
+ * Keys are interpolated into PRAGMA statements, so anything else is rejected.
+ */
+export function isValidKeyHex(key: string | null | undefined): key is string {
+  return typeof key === "string" && new RegExp(`^[0-9a-f]{${ENCRYPTION_KEY_BYTES * 2}}$`).test(key);
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * PRAGMA that unlocks a SQLCipher database with a raw (non-derived) key
+ */
+export function databaseKeyPragma(key: string): string {
+  if (!isValidKeyHex(key)) {
+    throw new Error("Invalid database key");
+  }
+  return `PRAGMA key = "x'${key}'";`;
+}
+
+/**
+ * Whether a file header (base64 of at least the first 16 bytes) is an unencrypted SQLite database
+ */
+export function isPlaintextSqliteHeader(headerBase64: string): boolean {
+  try {
+    return atob(headerBase64).startsWith(SQLITE_PLAINTEXT_HEADER);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// BASE64
+// ============================================
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+// ============================================
+// FILE ENVELOPE
+// ============================================
+
+/**
+ * Whether bytes start with the encrypted file magic
+ */
+export function isEncryptedPayload(bytes: Uint8Array): boolean {
+  if (bytes.length < FILE_MAGIC.length + FILE_NONCE_BYTES) return false;
+  for (let i = 0; i < FILE_MAGIC.length; i++) {
+    if (bytes[i] !== FILE_MAGIC.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a base64 file prefix (at least 12 characters) is an encrypted envelope
+ */
+export function isEncryptedBase64(base64: string): boolean {
+  try {
+    return atob(base64.slice(0, 12)).startsWith(FILE_MAGIC);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Seal plaintext bytes in the encrypted envelope
+ *
+ * @param keyHex - 256-bit file key
+ * @param plaintext - File contents
+ * @param nonce - 12 random bytes; never reuse with the same key
+ */
+export function encryptBytes(keyHex: string, plaintext: Uint8Array, nonce: Uint8Array): Uint8Array {
+  if (!isValidKeyHex(keyHex)) throw new Error("Invalid file encryption key");
+  if (nonce.length !== FILE_NONCE_BYTES) throw new Error("Invalid nonce length");
+
+  const sealed = gcm(hexToBytes(keyHex), nonce).encrypt(plaintext);
+  const output = new Uint8Array(FILE_MAGIC.length + FILE_NONCE_BYTES + sealed.length);
+  for (let i = 0; i < FILE_MAGIC.length; i++) {
+    output[i] = FILE_MAGIC.charCodeAt(i);
+  }
+  output.set(nonce, FILE_MAGIC.length);
+  output.set(sealed, FILE_MAGIC.length + FILE_NONCE_BYTES);
+  return output;
+}
+
+/**
+ * Open an encrypted envelope
+ *
+ * Throws if the key is wrong or the file was altered (GCM tag mismatch).
+ */
+export function decryptBytes(keyHex: string, payload: Uint8Array): Uint8Array {
+  if (!isValidKeyHex(keyHex)) throw new Error("Invalid file encryption key");
+  if (!isEncryptedPayload(payload)) throw new Error("Not an encrypted file");
+
+  const nonce = payload.subarray(FILE_MAGIC.length, FILE_MAGIC.length + FILE_NONCE_BYTES);
+  const sealed = payload.subarray(FILE_MAGIC.length + FILE_NONCE_BYTES);
+  return gcm(hexToBytes(keyHex), nonce).decrypt(sealed);
+}
+
+/**
+ * Encrypt base64 file contents, returning the envelope as base64
+ */
+export function encryptBase64(keyHex: string, base64: string, nonce: Uint8Array): string {
+  return bytesToBase64(encryptBytes(keyHex, base64ToBytes(base64), nonce));
+}
+
+/**
+ * Decrypt a base64 envelope back to the original base64 file contents
+ */
+export function decryptBase64(keyHex: string, base64: string): string {
+  return bytesToBase64(decryptBytes(keyHex, base64ToBytes(base64)));
+}
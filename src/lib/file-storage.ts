@@ -10,6 +10,14 @@
  * - photos/              <- Working copies for display/annotation
  * - thumbnails/          <- Generated thumbnails
  * - temp/                <- Temporary capture files (cleaned periodically)
+ * - exports/             <- Generated evidence bundles awaiting share
+ * - photo-cache/         <- Downloaded server photos (evictable, never evidence)
+ * - logs/                <- Rotating redacted app logs (see lib/log-store.ts)
+ *
+ * When file encryption is enabled, files are written in the envelope from
+ * lib/encryption.ts. Originals are encrypted as part of their single write
+ * and never rewritten. readFileAsBase64 always returns the plaintext, so
+ * hashes are still checked against the bytes that were captured.
  */
 
 import {
@@ -23,12 +31,16 @@ import {
   EncodingType,
 } from "expo-file-system/legacy";
 import { Platform } from "react-native";
+import { getRandomBytes } from "expo-crypto";
 import type { StoragePaths } from "../types/evidence";
+import { decryptBase64, encryptBase64, isEncryptedBase64, FILE_NONCE_BYTES } from "./encryption";
+import { getOrCreateFileEncryptionKey } from "./auth/storage";
 
 /**
  * Storage paths - originals directory is IMMUTABLE after initial write
  *
- * CRITICAL: Do not add delete or modify functions for the originals directory.
+ * CRITICAL: Do not add delete or modify functions for the originals directory
+ * (wipeAllStoredFiles, for remote wipe, is the sole exception).
  * Evidence integrity depends on these files never being altered.
  */
 export const STORAGE_PATHS: StoragePaths = {
@@ -36,6 +48,9 @@ export const STORAGE_PATHS: StoragePaths = {
   photos: `${documentDirectory}photos/`,
   thumbnails: `${documentDirectory}thumbnails/`,
   temp: `${documentDirectory}temp/`,
+  exports: `${documentDirectory}exports/`,
+  photoCache: `${documentDirectory}photo-cache/`,
+  logs: `${documentDirectory}logs/`,
 };
 
 /**
@@ -55,6 +70,39 @@ export async function ensureStorageDirectories(): Promise<void> {
   }
 }
 
+// ============================================
+// ENCRYPTION
+// ============================================
+
+async function getFileKey(): Promise<string> {
+  const result = await getOrCreateFileEncryptionKey();
+  if (!result) {
+    throw new Error("File encryption key unavailable");
+  }
+  return result.key;
+}
+
+/**
+ * Seal base64 file contents with the device file key
+ */
+export async function encryptFileContent(base64: string): Promise<string> {
+  return encryptBase64(await getFileKey(), base64, getRandomBytes(FILE_NONCE_BYTES));
+}
+
+/**
+ * Check whether a file on disk is an encrypted envelope
+ */
+export async function isEncryptedFile(path: string): Promise<boolean> {
+  const info = await getInfoAsync(path);
+  if (!info.exists) return false;
+  const prefix = await readAsStringAsync(path, {
+    encoding: EncodingType.Base64,
+    position: 0,
+    length: 9,
+  });
+  return isEncryptedBase64(prefix);
+}
+
 /**
  * Copy a file to the immutable originals directory
  *
@@ -62,13 +110,18 @@ export async function ensureStorageDirectories(): Promise<void> {
  * never be modified, moved, or deleted by app code. This ensures
  * evidence integrity for court proceedings.
  *
+ * With encrypt set, the copy is written encrypted in this single write;
+ * the plaintext still matches the hash taken at capture.
+ *
  * @param sourcePath - Path to the source file (typically in temp/)
  * @param filename - Filename to use in originals directory
+ * @param options.encrypt - Write the original as an encrypted envelope
  * @returns Path to the file in originals directory
  */
 export async function copyToOriginals(
   sourcePath: string,
-  filename: string
+  filename: string,
+  options: { encrypt?: boolean } = {}
 ): Promise<string> {
   const originalPath = `${STORAGE_PATHS.originals}${filename}`;
 
@@ -78,6 +131,14 @@ export async function copyToOriginals(
     await makeDirectoryAsync(STORAGE_PATHS.originals, { intermediates: true });
   }
 
+  if (options.encrypt) {
+    const content = await readAsStringAsync(sourcePath, { encoding: EncodingType.Base64 });
+    await writeAsStringAsync(originalPath, await encryptFileContent(content), {
+      encoding: EncodingType.Base64,
+    });
+    return originalPath;
+  }
+
   await copyAsync({
     from: sourcePath,
     to: originalPath,
@@ -86,6 +147,23 @@ export async function copyToOriginals(
   return originalPath;
 }
 
+/**
+ * Write base64 content to a working file, encrypting it if requested
+ *
+ * Not for originals — use copyToOriginals.
+ */
+export async function writeWorkingFile(
+  path: string,
+  base64: string,
+  options: { encrypt?: boolean } = {}
+): Promise<void> {
+  if (path.startsWith(STORAGE_PATHS.originals)) {
+    throw new Error("Originals are immutable; use copyToOriginals");
+  }
+  const content = options.encrypt ? await encryptFileContent(base64) : base64;
+  await writeAsStringAsync(path, content, { encoding: EncodingType.Base64 });
+}
+
 /**
  * Get the path for a file in the originals directory
  *
@@ -137,14 +215,20 @@ export function getTempPath(filename: string): string {
  *
  * Used for hashing file contents. The base64 encoding allows
  * the content to be passed to the crypto digest function.
+ * Encrypted files are decrypted first, so the result is always the
+ * original content.
  *
  * @param path - Absolute path to the file
  * @returns Base64-encoded file content
  */
 export async function readFileAsBase64(path: string): Promise<string> {
-  return readAsStringAsync(path, {
+  const content = await readAsStringAsync(path, {
     encoding: EncodingType.Base64,
   });
+  if (!isEncryptedBase64(content)) {
+    return content;
+  }
+  return decryptBase64(await getFileKey(), content);
 }
 
 /**
@@ -285,3 +369,32 @@ export async function verifyStorageHealth(): Promise<{
     platform: Platform.OS,
   };
 }
+
+// ============================================
+// REMOTE WIPE
+// ============================================
+
+/**
+ * Delete every storage directory, originals included
+ *
+ * This is the ONLY code path allowed to remove originals. It exists for
+ * remote wipe of a lost or deprovisioned device, after the evidence has
+ * been pushed to the server where possible and a custody event recorded.
+ * Do not call it for anything else.
+ *
+ * @returns Paths that could not be deleted
+ */
+export async function wipeAllStoredFiles(): Promise<string[]> {
+  const failed: string[] = [];
+
+  for (const dir of Object.values(STORAGE_PATHS)) {
+    try {
+      await deleteAsync(dir, { idempotent: true });
+    } catch (error) {
+      console.error(`[FileStorage] Failed to wipe ${dir}:`, error);
+      failed.push(dir);
+    }
+  }
+
+  return failed;
+}
@@ -0,0 +1,153 @@
+/**
+ * Homography
+ * Planar perspective transforms from four point correspondences
+ *
+ * Roof photos are rarely square-on to the roof plane. Marking the corners of
+ * a rectangle of known size on that plane fixes the perspective, and every
+ * screen point can then be mapped to millimetres on the roof.
+ */
+
+import type { Point } from "../components/MeasurementTool";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * 3x3 matrix in row-major order, mapping screen pixels to plane coordinates
+ */
+export type Homography = number[];
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const EPSILON = 1e-10;
+
+// ============================================
+// TRANSFORMS
+// ============================================
+
+/**
+ * Solve Ax = b by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < EPSILON) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Homography taking each source point to its destination point.
+ * Returns null when three or more of the points are collinear.
+ */
+export function computeHomography(source: Point[], destination: Point[]): Homography | null {
+  if (source.length !== 4 || destination.length !== 4) return null;
+
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = source[i];
+    const { x: u, y: v } = destination[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+
+  const h = solveLinearSystem(a, b);
+  if (!h || h.some((value) => !Number.isFinite(value))) return null;
+  return [...h, 1];
+}
+
+export function applyHomography(h: Homography, point: Point): Point {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+}
+
+/**
+ * Homography from four marked corners of a known rectangle to millimetres on
+ * its plane. Corners go in order around the rectangle, starting at the end of
+ * the width edge: corner 1 to 2 is the width, corner 2 to 3 the length.
+ */
+export function rectangleHomography(corners: Point[], widthMm: number, lengthMm: number): Homography | null {
+  if (corners.length !== 4 || widthMm <= 0 || lengthMm <= 0 || !isConvexQuad(corners)) return null;
+  return computeHomography(corners, [
+    { x: 0, y: 0 },
+    { x: widthMm, y: 0 },
+    { x: widthMm, y: lengthMm },
+    { x: 0, y: lengthMm },
+  ]);
+}
+
+/**
+ * A perspective view of a rectangle is always a convex quadrilateral
+ */
+export function isConvexQuad(points: Point[]): boolean {
+  if (points.length !== 4) return false;
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % 4];
+    const c = points[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < EPSILON) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+// ============================================
+// PLANE GEOMETRY
+// ============================================
+
+export function distance(p1: Point, p2: Point): number {
+  return Math.sqrt((p2.x - p1.x) ** 2 + (p2.y - p1.y) ** 2);
+}
+
+export function polygonPerimeter(points: Point[]): number {
+  if (points.length < 2) return 0;
+  let perimeter = 0;
+  for (let i = 0; i < points.length; i++) {
+    perimeter += distance(points[i], points[(i + 1) % points.length]);
+  }
+  return perimeter;
+}
+
+/**
+ * Shoelace area of a simple polygon
+ */
+export function polygonArea(points: Point[]): number {
+  if (points.length < 3) return 0;
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return Math.abs(area / 2);
+}
@@ -0,0 +1,288 @@
+/**
+ * Log Store
+ * Redaction, line format and rotation policy for the on-disk log
+ *
+ * Logs are written as JSON lines to a small set of rotating files so they
+ * survive the app being killed. Everything is redacted before it is written,
+ * in development too: client emails, phone numbers and tokens never reach the
+ * disk, and so never reach a diagnostics bundle. A line torn by the app being
+ * killed mid-write is skipped when the files are read back.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StoredLogLevel = "debug" | "info" | "warn" | "error";
+
+export interface StoredLogEntry {
+  timestamp: string;
+  level: StoredLogLevel;
+  source: string;
+  message: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * A file move made while rotating. `to: null` deletes the oldest file.
+ */
+export interface LogRotationStep {
+  from: string;
+  to: string | null;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Active file; rotated files are app.1.log (newest) to app.{n}.log (oldest) */
+export const LOG_FILE_NAME = "app.log";
+
+/** The next version of the active file, written in full before it replaces it */
+export const LOG_TEMP_FILE_NAME = "app.log.tmp";
+
+/** Source recorded for console calls without a "[Tag]" prefix */
+export const CONSOLE_LOG_SOURCE = "Console";
+
+/** Each file is rotated once a write would take it past this size */
+export const LOG_FILE_MAX_BYTES = 256 * 1024;
+
+/** Files kept including the active one, so at most ~1 MB on disk */
+export const LOG_FILE_COUNT = 4;
+
+/** Longest message kept; stack traces and payload dumps are cut here */
+export const MAX_LOG_MESSAGE_LENGTH = 2000;
+
+const MAX_CONTEXT_DEPTH = 4;
+
+export const REDACTED = "[redacted]";
+
+// Context keys whose values are dropped whatever they contain
+const SENSITIVE_KEY_PATTERN =
+  /email|phone|mobile|password|passphrase|secret|token|authorization|cookie|api_?key|signature|client_?name/i;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi;
+
+// NZ and international numbers: +64 21 123 4567, 021 123 4567, (09) 123 4567.
+// A leading + or 0 is required so timestamps, counts and ISO dates are left alone.
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s-]?\(?\d{1,4}\)?|\(0\d{1,3}\)|\b0\d{1,4})(?:[\s-]?\d{3,4}){2}(?![\w-])/g;
+
+const BEARER_PATTERN = /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi;
+
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+
+// token=..., "access_token":"...", X-Amz-Signature=... in URLs and dumped payloads
+const TOKEN_PARAM_PATTERN =
+  /\b(access_token|refresh_token|id_token|token|api_?key|signature)("?\s*[=:]\s*"?)[^&\s",}]+/gi;
+
+// ============================================
+// REDACTION
+// ============================================
+
+/**
+ * Remove emails, phone numbers and tokens from free text
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(TOKEN_PARAM_PATTERN, `$1$2${REDACTED}`)
+    .replace(EMAIL_PATTERN, REDACTED)
+    .replace(PHONE_PATTERN, REDACTED);
+}
+
+/**
+ * Redact a context value: sensitive keys are dropped, strings are scrubbed
+ * and nested objects are followed to a fixed depth
+ */
+export function redactValue(value: unknown, key?: string, depth: number = 0): unknown {
+  if (key && SENSITIVE_KEY_PATTERN.test(key) && value !== null && value !== undefined) {
+    return REDACTED;
+  }
+
+  if (typeof value === "string") return redactText(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_CONTEXT_DEPTH) return "[truncated]";
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, undefined, depth + 1));
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [childKey, childValue] of Object.entries(value)) {
+    redacted[childKey] = redactValue(childValue, childKey, depth + 1);
+  }
+  return redacted;
+}
+
+/**
+ * Redact an entry and cut its message to MAX_LOG_MESSAGE_LENGTH
+ */
+export function redactLogEntry(entry: StoredLogEntry): StoredLogEntry {
+  let message = redactText(entry.message);
+  if (message.length > MAX_LOG_MESSAGE_LENGTH) {
+    message = `${message.substring(0, MAX_LOG_MESSAGE_LENGTH)}…`;
+  }
+
+  const redacted: StoredLogEntry = {
+    timestamp: entry.timestamp,
+    level: entry.level,
+    source: entry.source,
+    message,
+  };
+  if (entry.context && Object.keys(entry.context).length > 0) {
+    redacted.context = redactValue(entry.context) as Record<string, unknown>;
+  }
+  return redacted;
+}
+
+// ============================================
+// FILE FORMAT
+// ============================================
+
+/**
+ * One redacted JSON line, newline terminated
+ */
+export function serializeLogEntry(entry: StoredLogEntry): string {
+  const redacted = redactLogEntry(entry);
+  try {
+    return `${JSON.stringify(redacted)}\n`;
+  } catch {
+    // Circular or otherwise unserialisable context
+    return `${JSON.stringify({ ...redacted, context: { unserializable: true } })}\n`;
+  }
+}
+
+/**
+ * Entry for a console.warn / console.error call
+ *
+ * A leading "[Tag]" becomes the source. Strings and Error messages make up
+ * the message; other values go in the context so they are redacted by key.
+ */
+export function entryFromConsoleArgs(
+  level: "warn" | "error",
+  args: unknown[],
+  timestamp: string
+): StoredLogEntry {
+  const text: string[] = [];
+  const values: unknown[] = [];
+  for (const arg of args) {
+    if (typeof arg === "string") text.push(arg);
+    else if (arg instanceof Error) text.push(`${arg.name}: ${arg.message}`);
+    else values.push(arg);
+  }
+
+  let source = CONSOLE_LOG_SOURCE;
+  const tag = text[0]?.match(/^\[([^\]]+)\]\s*/);
+  if (tag) {
+    source = tag[1];
+    text[0] = text[0].substring(tag[0].length);
+  }
+
+  const entry: StoredLogEntry = { timestamp, level, source, message: text.filter(Boolean).join(" ") };
+  if (values.length > 0) {
+    entry.context = { values };
+  }
+  return entry;
+}
+
+/**
+ * Parse a log file, skipping blank and torn lines
+ */
+export function parseLogLines(text: string): StoredLogEntry[] {
+  const entries: StoredLogEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as StoredLogEntry;
+      if (typeof parsed.timestamp === "string" && typeof parsed.message === "string") {
+        entries.push(parsed);
+      }
+    } catch {
+      // Partial write from a killed app
+    }
+  }
+  return entries;
+}
+
+/**
+ * Byte length of text as written in UTF-8
+ */
+export function utf8Length(text: string): number {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
+}
+
+// ============================================
+// ROTATION
+// ============================================
+
+/**
+ * File name for a rotation slot; 0 is the active file
+ */
+export function logFileName(index: number): string {
+  return index === 0 ? LOG_FILE_NAME : LOG_FILE_NAME.replace(/\.log$/, `.${index}.log`);
+}
+
+/**
+ * All log file names, oldest first, so reading them in order gives a timeline
+ */
+export function logFileNamesOldestFirst(fileCount: number = LOG_FILE_COUNT): string[] {
+  return Array.from({ length: fileCount }, (_, i) => logFileName(fileCount - 1 - i));
+}
+
+/**
+ * Whether appending `incomingBytes` to the active file needs a rotation first.
+ * An empty file is never rotated, so one oversized write still lands.
+ */
+export function shouldRotate(
+  currentBytes: number,
+  incomingBytes: number,
+  maxBytes: number = LOG_FILE_MAX_BYTES
+): boolean {
+  return currentBytes > 0 && currentBytes + incomingBytes > maxBytes;
+}
+
+/**
+ * Moves that shift every file up one slot, dropping the oldest.
+ * Apply in order: the oldest is deleted before anything is moved onto it.
+ */
+export function planLogRotation(fileCount: number = LOG_FILE_COUNT): LogRotationStep[] {
+  const steps: LogRotationStep[] = [{ from: logFileName(fileCount - 1), to: null }];
+  for (let index = fileCount - 2; index >= 0; index--) {
+    steps.push({ from: logFileName(index), to: logFileName(index + 1) });
+  }
+  return steps;
+}
+
+/**
+ * What to do with a temp file left by a write the app was killed during.
+ * With the active file still there the copy may be incomplete, so it is
+ * dropped; without it the old file was already removed and the copy is
+ * complete (short of a torn last line, which reading skips).
+ */
+export function interruptedWriteRecovery(tempExists: boolean, activeExists: boolean): "none" | "discard" | "restore" {
+  if (!tempExists) return "none";
+  return activeExists ? "discard" : "restore";
+}
+
+/**
+ * Keep the newest `limit` entries, returned oldest first
+ */
+export function latestLogEntries(entries: StoredLogEntry[], limit: number): StoredLogEntry[] {
+  const sorted = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return limit > 0 && sorted.length > limit ? sorted.slice(sorted.length - limit) : sorted;
+}
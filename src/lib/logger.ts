@@ -10,13 +10,13 @@
 // TYPES
 // ============================================
 
-type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogLevel = "debug" | "info" | "warn" | "error";
 
 interface LogContext {
   [key: string]: unknown;
 }
 
-interface LogEntry {
+export interface LogEntry {
   level: LogLevel;
   message: string;
   context?: LogContext;
@@ -68,6 +68,24 @@ const REDACTED_KEYS = new Set([
   "propertyAddress",
 ]);
 
+/**
+ * Receives every entry that is logged, e.g. the on-disk log store
+ */
+type LogSink = (entry: LogEntry) => void;
+
+let logSink: LogSink | null = null;
+
+/**
+ * Receives console.warn / console.error calls made outside this logger
+ */
+type ConsoleSink = (level: "warn" | "error", args: unknown[]) => void;
+
+let consoleSink: ConsoleSink | null = null;
+let consolePatched = false;
+
+// Set while a logger prints its own line, which the log sink already has
+let loggerWriting = false;
+
 // ============================================
 // SANITIZATION
 // ============================================
@@ -165,25 +183,35 @@ class Logger {
 
     this.addToBuffer(entry);
 
+    if (logSink) {
+      try {
+        logSink(entry);
+      } catch {
+        // A failing sink must never break the caller
+      }
+    }
+
     const formattedMessage = this.formatMessage(level, message, context);
 
-    switch (level) {
-      case "debug":
-        if (IS_DEV) console.debug(formattedMessage);
-        break;
-      case "info":
-        console.info(formattedMessage);
-        break;
-      case "warn":
-        console.warn(formattedMessage);
-        break;
-      case "error":
-        console.error(formattedMessage);
-        break;
+    loggerWriting = true;
+    try {
+      switch (level) {
+        case "debug":
+          if (IS_DEV) console.debug(formattedMessage);
+          break;
+        case "info":
+          console.info(formattedMessage);
+          break;
+        case "warn":
+          console.warn(formattedMessage);
+          break;
+        case "error":
+          console.error(formattedMessage);
+          break;
+      }
+    } finally {
+      loggerWriting = false;
     }
-
-    // In production, could send to external logging service
-    // this.sendToLoggingService(entry);
   }
 
   debug(message: string, context?: LogContext): void {
@@ -288,6 +316,37 @@ export function getAllRecentLogs(): LogEntry[] {
   return allLogs.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 }
 
+/**
+ * Set where entries are persisted (null to stop)
+ */
+export function setLogSink(sink: LogSink | null): void {
+  logSink = sink;
+}
+
+/**
+ * Forward console.warn and console.error calls from code that does not use
+ * a logger (null to stop). The console methods are wrapped once and still
+ * print as before.
+ */
+export function setConsoleSink(sink: ConsoleSink | null): void {
+  consoleSink = sink;
+  if (consolePatched || !sink) return;
+  consolePatched = true;
+
+  for (const level of ["warn", "error"] as const) {
+    const original = console[level];
+    console[level] = (...args: unknown[]) => {
+      original.apply(console, args);
+      if (!consoleSink || loggerWriting) return;
+      try {
+        consoleSink(level, args);
+      } catch {
+        // A failing sink must never break the caller
+      }
+    };
+  }
+}
+
 /**
  * Clear all log buffers
  */
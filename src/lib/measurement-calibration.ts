@@ -0,0 +1,360 @@
+/**
+ * Measurement Calibration
+ * Reference objects, calibration sharing and measurement tolerances
+ *
+ * A calibration turns pixels into millimetres using an object of known size
+ * in the photo. Its tolerance comes from how well the object's size is known
+ * and how precisely the inspector can place the line ends on it; measurements
+ * carry that through so reports can quote them as "1.25 m ± 0.03 m".
+ *
+ * A perspective calibration instead marks the four corners of a rectangle of
+ * known size, and measurements are taken on the rectified roof plane so
+ * oblique photos measure correctly.
+ */
+
+import { PhotoType } from "../types/shared";
+import type { Calibration, Measurement, Point } from "../components/MeasurementTool";
+import {
+  applyHomography,
+  distance,
+  polygonArea,
+  polygonPerimeter,
+  rectangleHomography,
+} from "./homography";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReferenceObjectId = "brick" | "corrugate" | "tape" | "ranz_card" | "custom";
+
+/**
+ * An object of known size that can be drawn along to calibrate a photo
+ */
+export interface ReferenceObject {
+  id: ReferenceObjectId;
+  label: string;
+  /** Known length in mm; null when the inspector reads it off (tape, custom) */
+  lengthMm: number | null;
+  /** How far the real object may differ from lengthMm */
+  toleranceMm: number;
+  hint: string;
+}
+
+export interface CalibrationInput {
+  referenceId: ReferenceObjectId;
+  /** Required when the reference has no fixed length */
+  lengthMm?: number | null;
+  pixelLength: number;
+  description?: string;
+}
+
+export interface PerspectiveCalibrationInput {
+  /** Screen corners in order around the rectangle, width edge first */
+  corners: Point[];
+  widthMm: number;
+  lengthMm: number;
+  /** How far the real rectangle may differ from the entered sizes */
+  toleranceMm?: number;
+  description?: string;
+}
+
+/**
+ * A calibration another photo in the same scale reference group can reuse
+ */
+export interface SharedCalibration {
+  photoId: string;
+  capturedAt: string | null;
+  calibration: Calibration;
+}
+
+/**
+ * Photo fields needed to work out scale reference groups
+ */
+export interface CalibrationPhoto {
+  id: string;
+  reportId: string;
+  roofElementId: string | null;
+  defectId: string | null;
+  photoType: string;
+  calibrationJson: string | null;
+  capturedAt: string | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const REFERENCE_OBJECTS: ReferenceObject[] = [
+  {
+    id: "brick",
+    label: "Standard brick",
+    lengthMm: 230,
+    toleranceMm: 3,
+    hint: "Long face of a standard clay brick",
+  },
+  {
+    id: "corrugate",
+    label: "Corrugate pitch",
+    lengthMm: 76,
+    toleranceMm: 1,
+    hint: "Crest to crest of one 76 mm corrugation",
+  },
+  {
+    id: "tape",
+    label: "Tape measure",
+    lengthMm: null,
+    toleranceMm: 1,
+    hint: "Draw between two marks and enter the distance",
+  },
+  {
+    id: "ranz_card",
+    label: "RANZ scale card",
+    lengthMm: 100,
+    toleranceMm: 0.5,
+    hint: "The 100 mm scale bar on the card",
+  },
+  {
+    id: "custom",
+    label: "Other",
+    lengthMm: null,
+    toleranceMm: 2,
+    hint: "Any object of known length",
+  },
+];
+
+/**
+ * How far off a finger-placed line end typically is, in screen pixels
+ */
+export const PLACEMENT_ERROR_PX = 3;
+
+/**
+ * Default tolerance for the sides of a marked rectangle, e.g. a roofing sheet
+ */
+export const RECTANGLE_TOLERANCE_MM = 2;
+
+// ============================================
+// CALIBRATION
+// ============================================
+
+export function getReferenceObject(id: string | undefined): ReferenceObject | null {
+  return REFERENCE_OBJECTS.find((reference) => reference.id === id) ?? null;
+}
+
+/**
+ * Relative error of a length drawn over the given number of pixels
+ */
+function placementError(pixelLength: number): number {
+  return (Math.SQRT2 * PLACEMENT_ERROR_PX) / pixelLength;
+}
+
+/**
+ * Calibrate from a line drawn along a reference object
+ */
+export function createCalibration(input: CalibrationInput): Calibration | null {
+  const reference = getReferenceObject(input.referenceId);
+  if (!reference) return null;
+
+  const lengthMm = reference.lengthMm ?? input.lengthMm ?? null;
+  if (!lengthMm || lengthMm <= 0 || input.pixelLength <= 0) return null;
+
+  const relativeUncertainty = Math.sqrt(
+    (reference.toleranceMm / lengthMm) ** 2 + placementError(input.pixelLength) ** 2
+  );
+
+  return {
+    pixelsPerMm: input.pixelLength / lengthMm,
+    referenceDescription: input.description?.trim() || `${reference.label} ${lengthMm} mm`,
+    referenceId: reference.id,
+    referenceLengthMm: lengthMm,
+    referencePixelLength: input.pixelLength,
+    relativeUncertainty,
+    sourcePhotoId: null,
+  };
+}
+
+/**
+ * Calibrate from the four corners of a rectangle lying on the roof plane.
+ * pixelsPerMm is kept as the average scale so older readers still get a
+ * usable value; measurements use the homography.
+ */
+export function createPerspectiveCalibration(input: PerspectiveCalibrationInput): Calibration | null {
+  const { corners, widthMm, lengthMm } = input;
+  const homography = rectangleHomography(corners, widthMm, lengthMm);
+  if (!homography) return null;
+
+  const toleranceMm = input.toleranceMm ?? RECTANGLE_TOLERANCE_MM;
+  const shortestSide = Math.min(...corners.map((corner, i) => distance(corner, corners[(i + 1) % 4])));
+  const relativeUncertainty = Math.sqrt(
+    (toleranceMm / widthMm) ** 2 + (toleranceMm / lengthMm) ** 2 + placementError(shortestSide) ** 2
+  );
+
+  return {
+    pixelsPerMm: Math.sqrt(polygonArea(corners) / (widthMm * lengthMm)),
+    referenceDescription: input.description?.trim() || `Rectangle ${widthMm} × ${lengthMm} mm`,
+    referenceId: "rectangle",
+    referenceLengthMm: lengthMm,
+    referenceWidthMm: widthMm,
+    referenceCorners: corners,
+    mode: "perspective",
+    homography,
+    relativeUncertainty,
+    sourcePhotoId: null,
+  };
+}
+
+/**
+ * Real-world outline of a measurement on the rectified plane, in mm
+ */
+function planeOutline(measurement: Measurement, homography: number[]): Point[] {
+  const toPlane = (point: Point) => applyHomography(homography, point);
+  if (measurement.type === "line") return [toPlane(measurement.start), toPlane(measurement.end)];
+  if (measurement.type === "rectangle") {
+    const { start, end } = measurement;
+    return [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }].map(toPlane);
+  }
+  return measurement.points.map(toPlane);
+}
+
+/**
+ * Work out real-world sizes and their uncertainty for a measurement.
+ * Calibrations saved before tolerances were recorded give null uncertainty.
+ */
+export function applyCalibration<T extends Measurement>(measurement: T, calibration: Calibration | null): T {
+  const m: Measurement = measurement;
+  const scale = calibration?.pixelsPerMm ?? null;
+  const calibrationError = calibration?.relativeUncertainty ?? null;
+  const plane = calibration?.homography ? planeOutline(m, calibration.homography) : null;
+
+  if (m.type === "line") {
+    const realLength = plane ? distance(plane[0], plane[1]) : scale ? m.pixelLength / scale : null;
+    const realLengthUncertainty =
+      realLength !== null && calibrationError !== null
+        ? realLength * Math.sqrt(calibrationError ** 2 + placementError(m.pixelLength) ** 2)
+        : null;
+    return { ...m, realLength, realLengthUncertainty } as T;
+  }
+
+  if (m.type === "rectangle") {
+    // In perspective the rectangle drawn on screen is a quadrilateral on the
+    // roof, so opposite sides are averaged and the area taken from the outline
+    const realWidth = plane
+      ? (distance(plane[0], plane[1]) + distance(plane[3], plane[2])) / 2
+      : scale ? m.pixelWidth / scale : null;
+    const realHeight = plane
+      ? (distance(plane[1], plane[2]) + distance(plane[0], plane[3])) / 2
+      : scale ? m.pixelHeight / scale : null;
+    const realArea = plane
+      ? polygonArea(plane)
+      : realWidth !== null && realHeight !== null ? realWidth * realHeight : null;
+    // The same scale error applies to both sides, so it counts twice for area
+    const realAreaUncertainty =
+      realArea !== null && calibrationError !== null
+        ? realArea *
+          Math.sqrt(
+            (2 * calibrationError) ** 2 + placementError(m.pixelWidth) ** 2 + placementError(m.pixelHeight) ** 2
+          )
+        : null;
+    return { ...m, realWidth, realHeight, realArea, realAreaUncertainty } as T;
+  }
+
+  const realPerimeter = plane ? polygonPerimeter(plane) : scale ? m.pixelPerimeter / scale : null;
+  const realArea = plane ? polygonArea(plane) : scale ? m.pixelArea / (scale * scale) : null;
+  // Each edge may be off by the placement error, a band around the perimeter
+  const outlineError = m.pixelArea > 0 ? (PLACEMENT_ERROR_PX * m.pixelPerimeter) / m.pixelArea : 0;
+  const realAreaUncertainty =
+    realArea !== null && calibrationError !== null
+      ? realArea * Math.sqrt((2 * calibrationError) ** 2 + outlineError ** 2)
+      : null;
+  return { ...m, realPerimeter, realArea, realAreaUncertainty } as T;
+}
+
+export function parseCalibration(json: string | null): Calibration | null {
+  if (!json) return null;
+  try {
+    const calibration = JSON.parse(json) as Calibration;
+    if (typeof calibration?.pixelsPerMm !== "number" || calibration.pixelsPerMm <= 0) return null;
+    if (calibration.homography && calibration.homography.length !== 9) return null;
+    return calibration;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// SCALE REFERENCE GROUPS
+// ============================================
+
+/**
+ * Photos of the same report and the same element or defect form a group.
+ * Calibrations made on the group's SCALE_REFERENCE photos can be reused by
+ * the other photos in it, newest first. Reused calibrations are not offered
+ * again so every copy points back to the photo the reference was drawn on.
+ */
+export function sharedCalibrations(photo: CalibrationPhoto, photos: CalibrationPhoto[]): SharedCalibration[] {
+  const shared: SharedCalibration[] = [];
+  for (const candidate of photos) {
+    if (
+      candidate.id === photo.id ||
+      candidate.photoType !== PhotoType.SCALE_REFERENCE ||
+      candidate.reportId !== photo.reportId ||
+      candidate.roofElementId !== photo.roofElementId ||
+      candidate.defectId !== photo.defectId
+    ) {
+      continue;
+    }
+    const calibration = parseCalibration(candidate.calibrationJson);
+    if (!calibration || calibration.sourcePhotoId) continue;
+    shared.push({ photoId: candidate.id, capturedAt: candidate.capturedAt, calibration });
+  }
+  return shared.sort((a, b) => (b.capturedAt ?? "").localeCompare(a.capturedAt ?? ""));
+}
+
+/**
+ * Copy a group calibration onto another photo
+ */
+export function reuseCalibration(shared: SharedCalibration): Calibration {
+  return { ...shared.calibration, sourcePhotoId: shared.photoId };
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export function formatLength(mm: number): string {
+  return mm >= 1000 ? `${(mm / 1000).toFixed(2)} m` : `${mm.toFixed(1)} mm`;
+}
+
+export function formatArea(mm2: number): string {
+  return mm2 >= 1_000_000 ? `${(mm2 / 1_000_000).toFixed(2)} m²` : `${mm2.toFixed(1)} mm²`;
+}
+
+/**
+ * Tolerance as a percentage, e.g. "±2.1%"
+ */
+export function formatTolerance(relativeUncertainty: number | null | undefined): string | null {
+  if (relativeUncertainty === null || relativeUncertainty === undefined) return null;
+  return `±${(relativeUncertainty * 100).toFixed(1)}%`;
+}
+
+/**
+ * One-line summary of a measurement for reports and the photo details
+ */
+export function describeMeasurement(measurement: Measurement): string {
+  const withTolerance = (value: string, uncertainty: string | null) =>
+    uncertainty ? `${value} ± ${uncertainty}` : value;
+
+  if (measurement.type === "line") {
+    if (measurement.realLength === null) return `Line ${measurement.pixelLength.toFixed(0)} px (uncalibrated)`;
+    const uncertainty = measurement.realLengthUncertainty ?? null;
+    return `Line ${withTolerance(
+      formatLength(measurement.realLength),
+      uncertainty !== null ? formatLength(uncertainty) : null
+    )}`;
+  }
+
+  const label = measurement.type === "rectangle" ? "Rectangle" : "Polygon";
+  if (measurement.realArea === null) return `${label} (uncalibrated)`;
+  const uncertainty = measurement.realAreaUncertainty ?? null;
+  return `${label} ${withTolerance(formatArea(measurement.realArea), uncertainty !== null ? formatArea(uncertainty) : null)}`;
+}
@@ -0,0 +1,238 @@
+/**
+ * Migration Runner
+ * Transactional, versioned upgrades of the local SQLite schema
+ *
+ * Every migration runs inside its own transaction with its history row and
+ * the PRAGMA user_version bump, so a failure rolls back to the last good
+ * version instead of leaving a half-applied schema. The caller takes a file
+ * backup first (see initializeDatabase in sqlite.ts).
+ *
+ * The runner only depends on the MigrationDatabase interface, so the Jest
+ * harness drives it with sql.js against fixture databases.
+ */
+
+import {
+  MIGRATION_HISTORY_SQL,
+  type LocalMigrationRecord,
+  type MigrationDatabase,
+  type SchemaMigration,
+} from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MigrationRunOptions {
+  migrations: SchemaMigration[];
+  targetVersion: number;
+  /** Full current schema; used for fresh installs and re-run after upgrades */
+  createTablesSql: string;
+  /** Hex digest used for checksums (SHA-256 on device) */
+  digest: (text: string) => Promise<string>;
+  /** Copy the database aside before upgrading; returns the backup location */
+  backup?: (fromVersion: number) => Promise<string | null>;
+}
+
+export interface MigrationRunResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  backupPath: string | null;
+  /** Applied migrations whose definition changed since they ran */
+  checksumMismatches: number[];
+}
+
+// ============================================
+// CHECKSUMS & HISTORY
+// ============================================
+
+/**
+ * Checksum of a migration definition
+ *
+ * Covers the version, description and SQL. Transform bodies are not
+ * hashed because Hermes does not expose function source; changing a
+ * shipped transform means adding a new migration instead.
+ */
+export async function migrationChecksum(
+  migration: SchemaMigration,
+  digest: (text: string) => Promise<string>
+): Promise<string> {
+  const transformMarker = migration.transform ? "transform" : "";
+  return digest(`${migration.version}\n${migration.description}\n${migration.sql ?? ""}\n${transformMarker}`);
+}
+
+export async function getMigrationHistory(db: MigrationDatabase): Promise<LocalMigrationRecord[]> {
+  const rows = await db.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM schema_migrations ORDER BY version ASC",
+    []
+  );
+  return rows.map((row) => ({
+    version: row.version as number,
+    description: row.description as string,
+    checksum: row.checksum as string,
+    appliedAt: row.applied_at as string,
+    durationMs: row.duration_ms as number,
+  }));
+}
+
+async function recordMigration(
+  db: MigrationDatabase,
+  version: number,
+  description: string,
+  checksum: string,
+  durationMs: number
+): Promise<void> {
+  await db.runAsync(
+    `INSERT OR REPLACE INTO schema_migrations (version, description, checksum, applied_at, duration_ms)
+     VALUES (?, ?, ?, ?, ?)`,
+    [version, description, checksum, new Date().toISOString(), durationMs]
+  );
+}
+
+// ============================================
+// VERSION & TRANSACTIONS
+// ============================================
+
+export async function getUserVersion(db: MigrationDatabase): Promise<number> {
+  const result = await db.getFirstAsync<{ user_version: number }>("PRAGMA user_version", []);
+  return result?.user_version ?? 0;
+}
+
+async function setUserVersion(db: MigrationDatabase, version: number): Promise<void> {
+  await db.execAsync(`PRAGMA user_version = ${Math.floor(version)}`);
+}
+
+async function inTransaction(db: MigrationDatabase, work: () => Promise<void>): Promise<void> {
+  await db.execAsync("BEGIN IMMEDIATE");
+  try {
+    await work();
+    await db.execAsync("COMMIT");
+  } catch (error) {
+    await db.execAsync("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * Migrations to apply when upgrading from a version, in order
+ */
+export function getPendingMigrations(
+  migrations: SchemaMigration[],
+  fromVersion: number,
+  targetVersion: number
+): SchemaMigration[] {
+  return migrations
+    .filter((m) => m.version > fromVersion && m.version <= targetVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+/**
+ * Bring the database to targetVersion
+ *
+ * Fresh databases get the full schema plus a baseline history row.
+ * Existing databases are backed up, then migrated one transaction per
+ * version. A failing migration is rolled back and rethrown with its
+ * version; earlier migrations stay committed. Databases newer than the
+ * app are left untouched.
+ */
+export async function migrateDatabase(
+  db: MigrationDatabase,
+  options: MigrationRunOptions
+): Promise<MigrationRunResult> {
+  const { migrations, targetVersion, createTablesSql, digest, backup } = options;
+  const fromVersion = await getUserVersion(db);
+  const applied: number[] = [];
+  let backupPath: string | null = null;
+
+  await db.execAsync(MIGRATION_HISTORY_SQL);
+
+  if (fromVersion === 0) {
+    console.log("[Migrations] Fresh install — creating schema");
+    const checksum = await digest(createTablesSql);
+    const startedAt = Date.now();
+    await inTransaction(db, async () => {
+      await db.execAsync(createTablesSql);
+      await recordMigration(db, targetVersion, "Initial schema", checksum, Date.now() - startedAt);
+      await setUserVersion(db, targetVersion);
+    });
+  } else if (fromVersion < targetVersion) {
+    console.log(`[Migrations] Upgrading from v${fromVersion} to v${targetVersion}`);
+
+    if (backup) {
+      try {
+        backupPath = await backup(fromVersion);
+      } catch (error) {
+        // A missing backup should not strand the device on a schema the app can't read;
+        // each migration is still transactional
+        console.error("[Migrations] Pre-migration backup failed:", error);
+      }
+    }
+
+    for (const migration of getPendingMigrations(migrations, fromVersion, targetVersion)) {
+      const checksum = await migrationChecksum(migration, digest);
+      const startedAt = Date.now();
+      try {
+        await inTransaction(db, async () => {
+          if (migration.sql) await db.execAsync(migration.sql);
+          if (migration.transform) await migration.transform(db);
+          await recordMigration(db, migration.version, migration.description, checksum, Date.now() - startedAt);
+          await setUserVersion(db, migration.version);
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Migration v${migration.version} (${migration.description}) failed and was rolled back: ${message}`);
+      }
+      applied.push(migration.version);
+      console.log(`[Migrations] Applied v${migration.version}: ${migration.description}`);
+    }
+
+    // Create tables and indexes added alongside migrations, then pin the target
+    await inTransaction(db, async () => {
+      await db.execAsync(createTablesSql);
+      await setUserVersion(db, targetVersion);
+    });
+  } else if (fromVersion > targetVersion) {
+    console.warn(`[Migrations] Database v${fromVersion} is newer than app schema v${targetVersion}; leaving it as is`);
+  }
+
+  const checksumMismatches = await verifyMigrationHistory(db, migrations, digest);
+
+  return {
+    fromVersion,
+    toVersion: Math.max(fromVersion, targetVersion),
+    applied,
+    backupPath,
+    checksumMismatches,
+  };
+}
+
+/**
+ * Compare recorded checksums with the current migration definitions
+ */
+export async function verifyMigrationHistory(
+  db: MigrationDatabase,
+  migrations: SchemaMigration[],
+  digest: (text: string) => Promise<string>
+): Promise<number[]> {
+  const history = await getMigrationHistory(db);
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const mismatches: number[] = [];
+
+  for (const record of history) {
+    const migration = byVersion.get(record.version);
+    // Baseline rows from fresh installs have no migration definition
+    if (!migration || record.description === "Initial schema") continue;
+    if ((await migrationChecksum(migration, digest)) !== record.checksum) {
+      mismatches.push(record.version);
+    }
+  }
+
+  if (mismatches.length > 0) {
+    console.warn(`[Migrations] Applied migrations changed since they ran: v${mismatches.join(", v")}`);
+  }
+  return mismatches;
+}
@@ -0,0 +1,374 @@
+/**
+ * Report PDF
+ * HTML document for the on-device report PDF
+ *
+ * Pure rendering from a report's local data: the service loads the rows,
+ * inlines the photo files and hands them here. Photos are numbered in the
+ * order given; defect photos sit under their defect and the rest are
+ * listed at the end.
+ */
+
+import { parseRoofPlan, renderRoofPlanSvg, regionAtPoint, isRoofPlanEmpty } from "./roof-plan";
+import type {
+  LocalReport,
+  LocalRoofElement,
+  LocalDefect,
+  LocalPhoto,
+  LocalComplianceAssessment,
+  LocalChecklist,
+  LocalRoofPlan,
+} from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A photo with the image source the PDF will show
+ */
+export interface EmbeddedPhoto {
+  photo: LocalPhoto;
+  src: string;
+}
+
+/**
+ * Everything the document is built from
+ */
+export interface ReportPdfSource {
+  report: LocalReport;
+  elements: LocalRoofElement[];
+  defects: LocalDefect[];
+  compliance: LocalComplianceAssessment | null;
+  checklists: LocalChecklist[];
+  roofPlan: LocalRoofPlan | null;
+  /** Photos with a usable image, in the order they are numbered */
+  photos: EmbeddedPhoto[];
+}
+
+export interface ReportPdfHtmlOptions {
+  /** Watermark shown on every page; defaults to DRAFT for unapproved reports */
+  watermark?: string | null;
+  generatedAt: Date;
+}
+
+// ============================================
+// HTML HELPERS
+// ============================================
+
+function escapeHtml(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function humanize(value: string | null | undefined): string {
+  if (!value) return "—";
+  return value.replace(/_/g, " ");
+}
+
+function formatDate(dateStr: string | null | undefined): string {
+  if (!dateStr) return "—";
+  return new Date(dateStr).toLocaleDateString("en-NZ", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+function detailRow(label: string, value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === "") return "";
+  return `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+}
+
+function photoFigure(embedded: EmbeddedPhoto, index: number): string {
+  const { photo, src } = embedded;
+  const meta = [
+    photo.capturedAt ? formatDate(photo.capturedAt) : null,
+    photo.gpsLat !== null && photo.gpsLng !== null
+      ? `${photo.gpsLat.toFixed(6)}, ${photo.gpsLng.toFixed(6)}`
+      : null,
+    `SHA-256 ${photo.originalHash.substring(0, 16)}…`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return `
+    <figure>
+      <img src="${src}" />
+      <figcaption>
+        <strong>Photo ${index}</strong> ${escapeHtml(photo.caption || humanize(photo.photoType))}
+        <div class="meta">${escapeHtml(meta)}</div>
+      </figcaption>
+    </figure>`;
+}
+
+const PDF_STYLES = `
+  @page { margin: 18mm 15mm; }
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1e293b; font-size: 11px; }
+  h1 { font-size: 22px; margin: 0 0 4px; color: #3c4b5d; }
+  h2 { font-size: 15px; margin: 24px 0 8px; padding-bottom: 4px; border-bottom: 2px solid #3c4b5d; color: #3c4b5d; }
+  h3 { font-size: 13px; margin: 16px 0 6px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { width: 32%; color: #64748b; font-weight: 500; }
+  .subtitle { color: #64748b; margin-bottom: 16px; }
+  .defect { page-break-inside: avoid; margin-bottom: 16px; }
+  .label { font-weight: 600; color: #3c4b5d; margin-top: 6px; }
+  .badge { display: inline-block; padding: 1px 6px; border-radius: 3px; background: #e2e8f0; font-size: 10px; margin-right: 4px; }
+  .photos { display: flex; flex-wrap: wrap; gap: 8px; }
+  figure { width: 48%; margin: 0; page-break-inside: avoid; }
+  figure img { width: 100%; border-radius: 4px; }
+  figcaption { font-size: 10px; margin-top: 2px; }
+  .meta { color: #64748b; font-size: 9px; }
+  .status-PASS { color: #16a34a; } .status-FAIL { color: #dc2626; } .status-PARTIAL { color: #d97706; }
+  .watermark { position: fixed; top: 40%; left: 10%; font-size: 96px; color: rgba(220, 38, 38, 0.08); transform: rotate(-30deg); }
+  .footer { margin-top: 32px; color: #94a3b8; font-size: 9px; }
+  .roof-plan { page-break-inside: avoid; text-align: center; }
+  .roof-plan svg { width: 70%; height: auto; }
+`;
+
+// ============================================
+// SECTION BUILDERS
+// ============================================
+
+function buildPropertySection(report: LocalReport): string {
+  return `
+    <h2>Property &amp; Inspection</h2>
+    <table>
+      ${detailRow("Address", report.propertyAddress)}
+      ${detailRow("City", report.propertyCity)}
+      ${detailRow("Region", report.propertyRegion)}
+      ${detailRow("Postcode", report.propertyPostcode)}
+      ${detailRow("Property Type", humanize(report.propertyType))}
+      ${detailRow("Building Age", report.buildingAge !== null ? `${report.buildingAge} years` : null)}
+      ${detailRow("Inspection Date", formatDate(report.inspectionDate))}
+      ${detailRow("Inspection Type", humanize(report.inspectionType))}
+      ${detailRow("Weather", report.weatherConditions)}
+      ${detailRow("Access Method", report.accessMethod)}
+      ${detailRow("Limitations", report.limitations)}
+    </table>
+    <h2>Client</h2>
+    <table>
+      ${detailRow("Name", report.clientName)}
+      ${detailRow("Email", report.clientEmail)}
+      ${detailRow("Phone", report.clientPhone)}
+    </table>`;
+}
+
+function buildElementsSection(elements: LocalRoofElement[]): string {
+  if (elements.length === 0) return "";
+
+  const rows = elements
+    .map(
+      (e) => `
+      <tr>
+        <td>${escapeHtml(humanize(e.elementType))}</td>
+        <td>${escapeHtml(e.location)}</td>
+        <td>${escapeHtml([e.claddingType, e.material, e.manufacturer].filter(Boolean).join(" / "))}</td>
+        <td>${e.pitch !== null ? `${escapeHtml(e.pitch)}°` : ""}${e.area !== null ? ` ${escapeHtml(e.area)} m²` : ""}</td>
+        <td>${escapeHtml(humanize(e.conditionRating))}${e.conditionNotes ? `<div class="meta">${escapeHtml(e.conditionNotes)}</div>` : ""}</td>
+      </tr>`
+    )
+    .join("");
+
+  return `
+    <h2>Roof Elements</h2>
+    <table>
+      <tr><th>Element</th><th>Location</th><th>Material</th><th>Pitch / Area</th><th>Condition</th></tr>
+      ${rows}
+    </table>`;
+}
+
+function buildDefectsSection(
+  defects: LocalDefect[],
+  photosByDefect: Map<string, EmbeddedPhoto[]>,
+  photoNumbers: Map<string, number>
+): string {
+  if (defects.length === 0) {
+    return `<h2>Defects</h2><p>No defects recorded.</p>`;
+  }
+
+  const blocks = defects
+    .map((d) => {
+      const photos = photosByDefect.get(d.id) ?? [];
+      return `
+      <div class="defect">
+        <h3>${escapeHtml(d.defectNumber)}. ${escapeHtml(d.title)}</h3>
+        <div>
+          <span class="badge">${escapeHtml(humanize(d.classification))}</span>
+          <span class="badge">${escapeHtml(humanize(d.severity))}</span>
+          ${d.priorityLevel ? `<span class="badge">${escapeHtml(humanize(d.priorityLevel))}</span>` : ""}
+        </div>
+        <div class="meta">Location: ${escapeHtml(d.location)}</div>
+        <div class="label">Observation</div><div>${escapeHtml(d.observation)}</div>
+        ${d.analysis ? `<div class="label">Analysis</div><div>${escapeHtml(d.analysis)}</div>` : ""}
+        ${d.opinion ? `<div class="label">Opinion</div><div>${escapeHtml(d.opinion)}</div>` : ""}
+        ${d.recommendation ? `<div class="label">Recommendation</div><div>${escapeHtml(d.recommendation)}</div>` : ""}
+        ${d.codeReference || d.copReference
+          ? `<div class="meta">${escapeHtml([d.codeReference, d.copReference].filter(Boolean).join(" · "))}</div>`
+          : ""}
+        ${photos.length > 0
+          ? `<div class="photos">${photos.map((p) => photoFigure(p, photoNumbers.get(p.photo.id) ?? 0)).join("")}</div>`
+          : ""}
+      </div>`;
+    })
+    .join("");
+
+  return `<h2>Defects</h2>${blocks}`;
+}
+
+function buildRoofPlanSection(
+  roofPlan: LocalRoofPlan | null,
+  defects: LocalDefect[],
+  photosByDefect: Map<string, EmbeddedPhoto[]>,
+  photoNumbers: Map<string, number>
+): string {
+  if (!roofPlan) return "";
+  const plan = parseRoofPlan(roofPlan.planJson);
+  if (isRoofPlanEmpty(plan)) return "";
+
+  const pinned = plan.pins
+    .map((pin) => ({ pin, defect: defects.find((d) => d.id === pin.defectId) }))
+    .filter((p): p is { pin: typeof p.pin; defect: LocalDefect } => !!p.defect)
+    .sort((a, b) => a.defect.defectNumber - b.defect.defectNumber);
+
+  const rows = pinned
+    .map(({ pin, defect }) => {
+      const region = regionAtPoint(plan, pin);
+      const photoRefs = (photosByDefect.get(defect.id) ?? [])
+        .map((p) => photoNumbers.get(p.photo.id))
+        .filter((n): n is number => n !== undefined);
+      return `<tr>
+        <td>${escapeHtml(defect.defectNumber)}</td>
+        <td>${escapeHtml(defect.title)}</td>
+        <td>${escapeHtml(region ? region.label || humanize(region.elementType) : "")}</td>
+        <td>${escapeHtml(photoRefs.length > 0 ? photoRefs.map((n) => `Photo ${n}`).join(", ") : "")}</td>
+      </tr>`;
+    })
+    .join("");
+
+  return `
+    <h2>Roof Plan</h2>
+    <div class="roof-plan">${renderRoofPlanSvg(plan, defects)}</div>
+    <div class="meta">Sketch not to scale. Pin numbers match defect numbers.</div>
+    ${rows
+      ? `<table><tr><th>Pin</th><th>Defect</th><th>Area</th><th>Photos</th></tr>${rows}</table>`
+      : ""}`;
+}
+
+function buildComplianceSection(
+  compliance: LocalComplianceAssessment | null,
+  checklists: LocalChecklist[]
+): string {
+  if (!compliance) return "";
+
+  let results: Record<string, Record<string, string>> = {};
+  try {
+    results = JSON.parse(compliance.checklistResultsJson);
+  } catch {
+    results = {};
+  }
+
+  const tables = Object.entries(results)
+    .map(([checklistId, items]) => {
+      const checklist = checklists.find((c) => c.id === checklistId);
+      let itemNames: Record<string, string> = {};
+      if (checklist) {
+        try {
+          const parsed = JSON.parse(checklist.itemsJson) as Array<{ id: string; item: string }>;
+          itemNames = Object.fromEntries(parsed.map((i) => [i.id, i.item]));
+        } catch {
+          itemNames = {};
+        }
+      }
+
+      const rows = Object.entries(items)
+        .map(
+          ([itemId, status]) =>
+            `<tr><td>${escapeHtml(itemNames[itemId] || itemId)}</td><td class="status-${escapeHtml(status)}">${escapeHtml(humanize(status))}</td></tr>`
+        )
+        .join("");
+
+      return `
+        <h3>${escapeHtml(checklist?.standard || checklist?.name || checklistId)}</h3>
+        <table>${rows}</table>`;
+    })
+    .join("");
+
+  return `
+    <h2>Compliance Assessment</h2>
+    ${tables}
+    ${compliance.nonComplianceSummary
+      ? `<div class="label">Non-compliance Summary</div><div>${escapeHtml(compliance.nonComplianceSummary).replace(/\n/g, "<br/>")}</div>`
+      : ""}`;
+}
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+/**
+ * Build the complete HTML document for a report
+ */
+export function buildReportPdfHtml(source: ReportPdfSource, options: ReportPdfHtmlOptions): string {
+  const { report, elements, defects, compliance, checklists, roofPlan, photos: embedded } = source;
+  const watermark = options.watermark;
+
+  const photosByDefect = new Map<string, EmbeddedPhoto[]>();
+  const generalPhotos: EmbeddedPhoto[] = [];
+  for (const e of embedded) {
+    if (e.photo.defectId && defects.some((d) => d.id === e.photo.defectId)) {
+      const list = photosByDefect.get(e.photo.defectId) ?? [];
+      list.push(e);
+      photosByDefect.set(e.photo.defectId, list);
+    } else {
+      generalPhotos.push(e);
+    }
+  }
+
+  // Numbered in print order: each defect's photos, then the general photographs
+  const photoNumbers = new Map<string, number>();
+  const printOrder = [...defects.flatMap((d) => photosByDefect.get(d.id) ?? []), ...generalPhotos];
+  printOrder.forEach((e, i) => photoNumbers.set(e.photo.id, i + 1));
+
+  const effectiveWatermark =
+    watermark !== undefined
+      ? watermark
+      : report.status === "APPROVED" || report.status === "FINALISED"
+        ? null
+        : "DRAFT";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>${PDF_STYLES}</style>
+</head>
+<body>
+  ${effectiveWatermark ? `<div class="watermark">${escapeHtml(effectiveWatermark)}</div>` : ""}
+  <h1>Roof Inspection Report</h1>
+  <div class="subtitle">
+    ${escapeHtml(report.reportNumber || "Unnumbered draft")} · ${escapeHtml(report.propertyAddress)}, ${escapeHtml(report.propertyCity)}
+    · Status: ${escapeHtml(humanize(report.status))}
+  </div>
+  ${buildPropertySection(report)}
+  ${buildElementsSection(elements)}
+  ${buildRoofPlanSection(roofPlan, defects, photosByDefect, photoNumbers)}
+  ${buildDefectsSection(defects, photosByDefect, photoNumbers)}
+  ${buildComplianceSection(compliance, checklists)}
+  ${generalPhotos.length > 0
+    ? `<h2>Photographs</h2><div class="photos">${generalPhotos.map((p) => photoFigure(p, photoNumbers.get(p.photo.id) ?? 0)).join("")}</div>`
+    : ""}
+  <div class="footer">
+    Generated on device ${escapeHtml(options.generatedAt.toLocaleString("en-NZ"))}.
+    ${report.declarationSigned && report.signedAt ? `Declaration signed ${escapeHtml(formatDate(report.signedAt))}.` : "Declaration not yet signed."}
+    Photo hashes are SHA-256 of the original captured files.
+  </div>
+</body>
+</html>`;
+}
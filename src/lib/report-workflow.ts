@@ -0,0 +1,307 @@
+/**
+ * Report Workflow
+ * Central transition table for the report lifecycle
+ *
+ * DRAFT → IN_PROGRESS → PENDING_REVIEW → APPROVED → FINALISED, with
+ * reviewer rejection (back to DRAFT) and revision requests (back to
+ * IN_PROGRESS). Every status change goes through checkTransition so the
+ * review screens, the inspector screens and the sync layer agree on who
+ * may move a report and when.
+ *
+ * Pure functions only; reportWorkflowService loads the guard context,
+ * applies the transition and writes the audit entry.
+ */
+
+import { InspectionType, ReportStatus, UserRole } from "../types/shared";
+import type { AuthUserRole, JWTPayload } from "./auth/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type WorkflowAction =
+  | "START"
+  | "SUBMIT"
+  | "APPROVE"
+  | "REJECT"
+  | "REQUEST_REVISION"
+  | "FINALISE";
+
+export type WorkflowGuard =
+  /** Pre-submit validation passes (same rules as PreSubmitChecklist) */
+  | "VALIDATION_PASSED"
+  /** Inspector declaration has been signed */
+  | "DECLARATION_SIGNED"
+  /** Compliance assessment meets the coverage required for the inspection type */
+  | "COMPLIANCE_COMPLETE"
+  /** Reviewer supplied a note explaining the decision */
+  | "NOTE_PROVIDED";
+
+export interface ReportTransition {
+  action: WorkflowAction;
+  from: ReportStatus[];
+  to: ReportStatus;
+  roles: UserRole[];
+  guards: WorkflowGuard[];
+  /** Audit log action recorded when the transition is applied */
+  auditAction: string;
+}
+
+/**
+ * Facts the guards are evaluated against
+ *
+ * validationErrors / complianceComplete are null when validation was not
+ * run (the transition has no guard that needs it).
+ */
+export interface WorkflowGuardContext {
+  declarationSigned: boolean;
+  complianceComplete: boolean | null;
+  validationErrors: string[] | null;
+  note?: string | null;
+}
+
+/** User applying a transition, as recorded in the audit log */
+export interface WorkflowActor {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface TransitionCheck {
+  allowed: boolean;
+  transition: ReportTransition | null;
+  errors: string[];
+}
+
+// ============================================
+// TRANSITION TABLE
+// ============================================
+
+const INSPECTOR_ROLES = [UserRole.INSPECTOR, UserRole.ADMIN];
+const REVIEWER_ROLES = [UserRole.REVIEWER, UserRole.ADMIN];
+
+export const REPORT_TRANSITIONS: ReportTransition[] = [
+  {
+    action: "START",
+    from: [ReportStatus.DRAFT],
+    to: ReportStatus.IN_PROGRESS,
+    roles: INSPECTOR_ROLES,
+    guards: [],
+    auditAction: "STATUS_CHANGED",
+  },
+  {
+    action: "SUBMIT",
+    from: [ReportStatus.DRAFT, ReportStatus.IN_PROGRESS],
+    to: ReportStatus.PENDING_REVIEW,
+    roles: INSPECTOR_ROLES,
+    // Validation already covers the declaration and the type's compliance rules
+    guards: ["VALIDATION_PASSED"],
+    auditAction: "SUBMITTED",
+  },
+  {
+    action: "APPROVE",
+    from: [ReportStatus.PENDING_REVIEW],
+    to: ReportStatus.APPROVED,
+    roles: REVIEWER_ROLES,
+    guards: ["DECLARATION_SIGNED"],
+    auditAction: "APPROVED",
+  },
+  {
+    action: "REJECT",
+    from: [ReportStatus.PENDING_REVIEW],
+    to: ReportStatus.DRAFT,
+    roles: REVIEWER_ROLES,
+    guards: ["NOTE_PROVIDED"],
+    auditAction: "REJECTED",
+  },
+  {
+    action: "REQUEST_REVISION",
+    from: [ReportStatus.PENDING_REVIEW],
+    to: ReportStatus.IN_PROGRESS,
+    roles: REVIEWER_ROLES,
+    guards: ["NOTE_PROVIDED"],
+    auditAction: "REVISION_REQUESTED",
+  },
+  {
+    action: "FINALISE",
+    from: [ReportStatus.APPROVED],
+    to: ReportStatus.FINALISED,
+    roles: REVIEWER_ROLES,
+    guards: ["DECLARATION_SIGNED"],
+    auditAction: "FINALISED",
+  },
+];
+
+/**
+ * Per-inspection-type overrides
+ *
+ * Types that require a compliance assessment re-check it at approval and
+ * finalisation, since a synced edit may have changed it after submission.
+ * Dispute resolution reports may be used in court, so only an admin can
+ * finalise them.
+ */
+const INSPECTION_TYPE_OVERRIDES: Partial<
+  Record<InspectionType, Partial<Record<WorkflowAction, { roles?: UserRole[]; guards?: WorkflowGuard[] }>>>
+> = {
+  [InspectionType.FULL_INSPECTION]: {
+    APPROVE: { guards: ["COMPLIANCE_COMPLETE"] },
+    FINALISE: { guards: ["COMPLIANCE_COMPLETE"] },
+  },
+  [InspectionType.INVASIVE]: {
+    APPROVE: { guards: ["COMPLIANCE_COMPLETE"] },
+    FINALISE: { guards: ["COMPLIANCE_COMPLETE"] },
+  },
+  [InspectionType.DISPUTE_RESOLUTION]: {
+    APPROVE: { guards: ["COMPLIANCE_COMPLETE"] },
+    FINALISE: { roles: [UserRole.ADMIN], guards: ["COMPLIANCE_COMPLETE"] },
+  },
+};
+
+/**
+ * Statuses in which report content can no longer be edited locally
+ *
+ * A rejection or revision request moves the report back to an editable
+ * status; APPROVED and FINALISED are terminal for content.
+ */
+export const LOCKED_STATUSES: ReportStatus[] = [
+  ReportStatus.PENDING_REVIEW,
+  ReportStatus.APPROVED,
+  ReportStatus.FINALISED,
+];
+
+const GUARD_MESSAGES: Record<WorkflowGuard, string> = {
+  VALIDATION_PASSED: "Report has not passed pre-submit validation",
+  DECLARATION_SIGNED: "Declaration must be signed",
+  COMPLIANCE_COMPLETE: "Compliance assessment is not complete for this inspection type",
+  NOTE_PROVIDED: "A note explaining the decision is required",
+};
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Resolve the transition for an action from a status, with the
+ * inspection type's role and guard overrides applied
+ */
+export function getTransition(
+  from: ReportStatus,
+  action: WorkflowAction,
+  inspectionType: InspectionType
+): ReportTransition | null {
+  const base = REPORT_TRANSITIONS.find((t) => t.action === action && t.from.includes(from));
+  if (!base) return null;
+
+  const override = INSPECTION_TYPE_OVERRIDES[inspectionType]?.[action];
+  if (!override) return base;
+
+  return {
+    ...base,
+    roles: override.roles ?? base.roles,
+    guards: [...base.guards, ...(override.guards ?? []).filter((g) => !base.guards.includes(g))],
+  };
+}
+
+/**
+ * Actions a role may attempt on a report in its current status
+ * (guards are not evaluated)
+ */
+export function getAvailableActions(
+  status: ReportStatus,
+  role: UserRole,
+  inspectionType: InspectionType
+): WorkflowAction[] {
+  return REPORT_TRANSITIONS.map((t) => t.action)
+    .filter((action, index, all) => all.indexOf(action) === index)
+    .filter((action) => getTransition(status, action, inspectionType)?.roles.includes(role));
+}
+
+export function isReportLocked(status: ReportStatus | string): boolean {
+  return LOCKED_STATUSES.includes(status as ReportStatus);
+}
+
+// ============================================
+// GUARDS
+// ============================================
+
+function guardErrors(guard: WorkflowGuard, context: WorkflowGuardContext): string[] {
+  switch (guard) {
+    case "VALIDATION_PASSED":
+      if (context.validationErrors === null) return [GUARD_MESSAGES.VALIDATION_PASSED];
+      return context.validationErrors;
+    case "DECLARATION_SIGNED":
+      return context.declarationSigned ? [] : [GUARD_MESSAGES.DECLARATION_SIGNED];
+    case "COMPLIANCE_COMPLETE":
+      return context.complianceComplete ? [] : [GUARD_MESSAGES.COMPLIANCE_COMPLETE];
+    case "NOTE_PROVIDED":
+      return context.note && context.note.trim().length > 0 ? [] : [GUARD_MESSAGES.NOTE_PROVIDED];
+  }
+}
+
+/**
+ * Whether the guards for a transition need the validation result
+ */
+export function needsValidation(transition: ReportTransition): boolean {
+  return transition.guards.includes("VALIDATION_PASSED") || transition.guards.includes("COMPLIANCE_COMPLETE");
+}
+
+/**
+ * Check whether a role may apply an action to a report
+ *
+ * Errors are ordered: unknown transition, then role, then each failing
+ * guard (validation errors are passed through individually).
+ */
+export function checkTransition(
+  report: { status: ReportStatus; inspectionType: InspectionType },
+  action: WorkflowAction,
+  role: UserRole,
+  context: WorkflowGuardContext
+): TransitionCheck {
+  const transition = getTransition(report.status, action, report.inspectionType);
+  if (!transition) {
+    return {
+      allowed: false,
+      transition: null,
+      errors: [`Cannot ${action.toLowerCase().replace(/_/g, " ")} a report that is ${report.status.replace(/_/g, " ").toLowerCase()}`],
+    };
+  }
+
+  if (!transition.roles.includes(role)) {
+    return {
+      allowed: false,
+      transition,
+      errors: [`Only ${transition.roles.map((r) => r.toLowerCase()).join(" or ")} users can do this`],
+    };
+  }
+
+  const errors: string[] = [];
+  for (const guard of transition.guards) {
+    for (const error of guardErrors(guard, context)) {
+      if (!errors.includes(error)) errors.push(error);
+    }
+  }
+
+  return { allowed: errors.length === 0, transition, errors };
+}
+
+// ============================================
+// ROLES
+// ============================================
+
+/**
+ * Map the portal account type from the JWT to the report workflow role
+ */
+export function workflowRoleFromAuthRole(role: AuthUserRole): UserRole {
+  switch (role) {
+    case "RANZ_ADMIN":
+      return UserRole.ADMIN;
+    case "RANZ_STAFF":
+      return UserRole.REVIEWER;
+    default:
+      return UserRole.INSPECTOR;
+  }
+}
+
+export function workflowActorFromAuth(user: Pick<JWTPayload, "sub" | "name" | "role">): WorkflowActor {
+  return { id: user.sub, name: user.name, role: workflowRoleFromAuthRole(user.role) };
+}
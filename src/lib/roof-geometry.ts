@@ -0,0 +1,433 @@
+/**
+ * Roof Geometry
+ * Pitch and true roof area calculations for roof elements
+ *
+ * Every calculated value is stored with the inputs behind it (see
+ * RoofMeasurementRecord) so a reviewer can check how the inspector got
+ * the element's pitch and area.
+ *
+ * Conventions: length runs along the ridge, width is the span across it.
+ * Hip roofs assume equal pitch on all planes.
+ */
+
+import type { Calibration, Measurement, PolygonMeasurement } from "../components/MeasurementTool";
+import type {
+  AreaCalculation,
+  AreaMethod,
+  PitchCalculation,
+  PitchMethod,
+  RoofMeasurementRecord,
+  RoofShape,
+} from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PitchInput {
+  method: PitchMethod;
+  riseMm?: number | null;
+  runMm?: number | null;
+  inclinometerDegrees?: number | null;
+  /** Entered directly (MANUAL) */
+  degrees?: number | null;
+}
+
+/**
+ * A calibrated polygon picked from a report photo
+ */
+export interface PhotoPolygonArea {
+  photoId: string;
+  measurementId: string;
+  areaM2: number;
+  calibrationReference: string | null;
+}
+
+export interface AreaInput {
+  method: AreaMethod;
+  shape: RoofShape;
+  lengthM?: number | null;
+  widthM?: number | null;
+  planAreaM2?: number | null;
+  polygon?: PhotoPolygonArea | null;
+  photoPlane?: "PLAN" | "SLOPE" | null;
+  /** Entered directly (MANUAL) */
+  areaM2?: number | null;
+}
+
+export interface CalculationResult<T> {
+  success: boolean;
+  calculation?: T;
+  error?: string;
+}
+
+export interface RoofDimensions {
+  planAreaM2: number;
+  trueAreaM2: number;
+  /** Common rafter, eave to ridge (skillion: low edge to high edge) */
+  rafterM: number;
+  /** Ridge length (skillion: high edge) */
+  ridgeM: number;
+  /** Hip rafter length, hip roofs only */
+  hipM: number | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const ROOF_MEASUREMENT_VERSION = 1;
+
+export const ROOF_SHAPE_LABELS: Record<RoofShape, string> = {
+  GABLE: "Gable",
+  HIP: "Hip",
+  SKILLION: "Skillion",
+};
+
+/** Steeper than this is a wall, not a roof */
+const MAX_PITCH_DEGREES = 75;
+
+/** Tolerance when checking an element's values against its record */
+const PITCH_TOLERANCE = 0.05;
+const AREA_TOLERANCE = 0.005;
+
+// ============================================
+// PITCH
+// ============================================
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const roundTo = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+const isPositive = (value: number | null | undefined): value is number =>
+  typeof value === "number" && isFinite(value) && value > 0;
+
+/**
+ * Pitch in degrees from rise over run (any consistent unit)
+ *
+ * @returns null if run isn't positive or rise is negative
+ */
+export function pitchFromRiseRun(rise: number, run: number): number | null {
+  if (!isFinite(rise) || !isFinite(run) || run <= 0 || rise < 0) return null;
+  return toDegrees(Math.atan(rise / run));
+}
+
+/**
+ * Pitch from an inclinometer reading
+ *
+ * Phones and digital levels report the angle either way up and either
+ * direction (e.g. -20°, 160° and 200° are all a 20° roof).
+ */
+export function pitchFromInclinometer(reading: number): number | null {
+  if (!isFinite(reading)) return null;
+  const angle = Math.abs(reading) % 180;
+  return angle > 90 ? 180 - angle : angle;
+}
+
+/**
+ * Pitch with its inputs
+ */
+export function calculatePitch(input: PitchInput): CalculationResult<PitchCalculation> {
+  let degrees: number | null = null;
+
+  switch (input.method) {
+    case "RISE_RUN":
+      if (!isPositive(input.runMm) || input.riseMm == null) {
+        return { success: false, error: "Enter the rise and run" };
+      }
+      degrees = pitchFromRiseRun(input.riseMm, input.runMm);
+      break;
+    case "INCLINOMETER":
+      if (input.inclinometerDegrees == null) {
+        return { success: false, error: "Enter the inclinometer reading" };
+      }
+      degrees = pitchFromInclinometer(input.inclinometerDegrees);
+      break;
+    case "MANUAL":
+      degrees = input.degrees ?? null;
+      break;
+  }
+
+  if (degrees === null || !isFinite(degrees) || degrees < 0) {
+    return { success: false, error: "Pitch could not be calculated from these values" };
+  }
+  if (degrees > MAX_PITCH_DEGREES) {
+    return { success: false, error: `Pitch of ${roundTo(degrees, 1)}° is steeper than ${MAX_PITCH_DEGREES}°` };
+  }
+
+  return {
+    success: true,
+    calculation: {
+      method: input.method,
+      riseMm: input.method === "RISE_RUN" ? input.riseMm ?? null : null,
+      runMm: input.method === "RISE_RUN" ? input.runMm ?? null : null,
+      inclinometerDegrees: input.method === "INCLINOMETER" ? input.inclinometerDegrees ?? null : null,
+      degrees: roundTo(degrees, 1),
+    },
+  };
+}
+
+// ============================================
+// AREA
+// ============================================
+
+/**
+ * Roof (slope) area from plan area
+ */
+export function trueAreaFromPlan(planAreaM2: number, pitchDegrees: number): number {
+  return planAreaM2 / Math.cos(toRadians(pitchDegrees));
+}
+
+/**
+ * Rafter, ridge and hip lengths and areas for a simple roof
+ */
+export function roofDimensions(shape: RoofShape, lengthM: number, widthM: number, pitchDegrees: number): RoofDimensions {
+  const slope = 1 / Math.cos(toRadians(pitchDegrees));
+  const planAreaM2 = lengthM * widthM;
+  const trueAreaM2 = planAreaM2 * slope;
+
+  switch (shape) {
+    case "SKILLION":
+      return { planAreaM2, trueAreaM2, rafterM: widthM * slope, ridgeM: lengthM, hipM: null };
+    case "HIP": {
+      // The shorter side is the span; the ridge shortens by the span
+      const span = Math.min(lengthM, widthM);
+      const halfSpan = span / 2;
+      const rafterM = halfSpan * slope;
+      return {
+        planAreaM2,
+        trueAreaM2,
+        rafterM,
+        ridgeM: Math.max(lengthM, widthM) - span,
+        hipM: Math.sqrt(rafterM * rafterM + halfSpan * halfSpan),
+      };
+    }
+    case "GABLE":
+    default:
+      return { planAreaM2, trueAreaM2, rafterM: (widthM / 2) * slope, ridgeM: lengthM, hipM: null };
+  }
+}
+
+/**
+ * True roof area with its inputs
+ *
+ * @param pitchDegrees Needed for everything except manual entry and
+ *   polygons measured square to the roof plane
+ */
+export function calculateArea(input: AreaInput, pitchDegrees: number | null): CalculationResult<AreaCalculation> {
+  const base: AreaCalculation = {
+    method: input.method,
+    shape: input.shape,
+    lengthM: null,
+    widthM: null,
+    planAreaM2: null,
+    photoId: null,
+    measurementId: null,
+    photoPlane: null,
+    calibrationReference: null,
+    trueAreaM2: 0,
+  };
+  const needPitch = () =>
+    pitchDegrees === null ? "Calculate the pitch first to convert plan area to roof area" : null;
+
+  let result: AreaCalculation;
+  switch (input.method) {
+    case "DIMENSIONS": {
+      if (!isPositive(input.lengthM) || !isPositive(input.widthM)) {
+        return { success: false, error: "Enter the plan length and width" };
+      }
+      const missing = needPitch();
+      if (missing) return { success: false, error: missing };
+      const dims = roofDimensions(input.shape, input.lengthM, input.widthM, pitchDegrees!);
+      result = {
+        ...base,
+        lengthM: input.lengthM,
+        widthM: input.widthM,
+        planAreaM2: roundTo(dims.planAreaM2, 2),
+        trueAreaM2: dims.trueAreaM2,
+      };
+      break;
+    }
+    case "PLAN_AREA": {
+      if (!isPositive(input.planAreaM2)) {
+        return { success: false, error: "Enter the plan area" };
+      }
+      const missing = needPitch();
+      if (missing) return { success: false, error: missing };
+      result = { ...base, planAreaM2: input.planAreaM2, trueAreaM2: trueAreaFromPlan(input.planAreaM2, pitchDegrees!) };
+      break;
+    }
+    case "PHOTO_POLYGON": {
+      const polygon = input.polygon;
+      if (!polygon || !isPositive(polygon.areaM2)) {
+        return { success: false, error: "Choose a calibrated area from a photo" };
+      }
+      const plane = input.photoPlane ?? "PLAN";
+      const photo = {
+        ...base,
+        photoId: polygon.photoId,
+        measurementId: polygon.measurementId,
+        photoPlane: plane,
+        calibrationReference: polygon.calibrationReference,
+      };
+      if (plane === "SLOPE") {
+        result = { ...photo, trueAreaM2: polygon.areaM2 };
+      } else {
+        const missing = needPitch();
+        if (missing) return { success: false, error: missing };
+        result = { ...photo, planAreaM2: polygon.areaM2, trueAreaM2: trueAreaFromPlan(polygon.areaM2, pitchDegrees!) };
+      }
+      break;
+    }
+    case "MANUAL":
+    default:
+      if (!isPositive(input.areaM2)) {
+        return { success: false, error: "Enter the area" };
+      }
+      result = { ...base, method: "MANUAL", trueAreaM2: input.areaM2 };
+      break;
+  }
+
+  return { success: true, calculation: { ...result, trueAreaM2: roundTo(result.trueAreaM2, 2) } };
+}
+
+// ============================================
+// PHOTO POLYGONS
+// ============================================
+
+/**
+ * Calibrated polygon areas on a photo, in m²
+ *
+ * Polygons measured before the photo was calibrated have no real area
+ * and are left out.
+ */
+export function calibratedPolygonAreas(photo: {
+  id: string;
+  measurementsJson: string | null;
+  calibrationJson: string | null;
+}): PhotoPolygonArea[] {
+  if (!photo.measurementsJson) return [];
+
+  let measurements: Measurement[];
+  let calibration: Calibration | null = null;
+  try {
+    measurements = JSON.parse(photo.measurementsJson) as Measurement[];
+    calibration = photo.calibrationJson ? (JSON.parse(photo.calibrationJson) as Calibration) : null;
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(measurements)) return [];
+
+  return measurements
+    .filter((m): m is PolygonMeasurement => m.type === "polygon" && isPositive(m.realArea))
+    .map((m) => ({
+      photoId: photo.id,
+      measurementId: m.id,
+      areaM2: roundTo(m.realArea! / 1_000_000, 2),
+      calibrationReference: calibration?.referenceDescription ?? null,
+    }));
+}
+
+// ============================================
+// RECORDS
+// ============================================
+
+export function buildRoofMeasurement(
+  pitch: PitchCalculation | null,
+  area: AreaCalculation | null,
+  calculatedAt: string
+): RoofMeasurementRecord {
+  return { version: ROOF_MEASUREMENT_VERSION, pitch, area, calculatedAt };
+}
+
+/**
+ * Read a stored record
+ *
+ * @returns null for missing or unreadable records
+ */
+export function parseRoofMeasurement(json: string | null): RoofMeasurementRecord | null {
+  if (!json) return null;
+  try {
+    const record = JSON.parse(json) as RoofMeasurementRecord;
+    if (!record || typeof record.version !== "number") return null;
+    return { ...record, pitch: record.pitch ?? null, area: record.area ?? null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a record still explains an element's pitch and area
+ *
+ * A value entered by hand after the calculation makes the record stale.
+ */
+export function measurementMatches(
+  record: RoofMeasurementRecord,
+  pitch: number | null,
+  area: number | null
+): boolean {
+  if (!record.pitch && !record.area) return false;
+  if (record.pitch && (pitch === null || Math.abs(record.pitch.degrees - pitch) > PITCH_TOLERANCE)) return false;
+  if (record.area && (area === null || Math.abs(record.area.trueAreaM2 - area) > AREA_TOLERANCE)) return false;
+  return true;
+}
+
+/**
+ * The first stored record that explains the given values
+ */
+export function measurementJsonFor(
+  pitch: number | null,
+  area: number | null,
+  candidates: Array<string | null | undefined>
+): string | null {
+  for (const json of candidates) {
+    const record = parseRoofMeasurement(json ?? null);
+    if (record && measurementMatches(record, pitch, area)) return json!;
+  }
+  return null;
+}
+
+/**
+ * Plain-language account of how the values were reached
+ */
+export function describeRoofMeasurement(record: RoofMeasurementRecord): string[] {
+  const lines: string[] = [];
+  const { pitch, area } = record;
+
+  if (pitch) {
+    switch (pitch.method) {
+      case "RISE_RUN":
+        lines.push(`Pitch ${pitch.degrees}° from rise ${pitch.riseMm} mm over run ${pitch.runMm} mm`);
+        break;
+      case "INCLINOMETER":
+        lines.push(`Pitch ${pitch.degrees}° from inclinometer reading ${pitch.inclinometerDegrees}°`);
+        break;
+      default:
+        lines.push(`Pitch ${pitch.degrees}° entered`);
+    }
+  }
+
+  if (area) {
+    const shape = ROOF_SHAPE_LABELS[area.shape].toLowerCase();
+    switch (area.method) {
+      case "DIMENSIONS":
+        lines.push(`Area ${area.trueAreaM2} m² for a ${shape} roof on a ${area.lengthM} × ${area.widthM} m plan`);
+        break;
+      case "PLAN_AREA":
+        lines.push(`Area ${area.trueAreaM2} m² for a ${shape} roof from ${area.planAreaM2} m² plan area`);
+        break;
+      case "PHOTO_POLYGON": {
+        const reference = area.calibrationReference ? `, calibrated to ${area.calibrationReference}` : "";
+        lines.push(
+          area.photoPlane === "SLOPE"
+            ? `Area ${area.trueAreaM2} m² measured on the roof plane in a photo${reference}`
+            : `Area ${area.trueAreaM2} m² for a ${shape} roof from ${area.planAreaM2} m² measured in a plan photo${reference}`
+        );
+        break;
+      }
+      default:
+        lines.push(`Area ${area.trueAreaM2} m² entered`);
+    }
+  }
+
+  return lines;
+}
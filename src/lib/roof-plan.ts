@@ -0,0 +1,270 @@
+/**
+ * Roof Plan
+ * Geometry, editing and SVG rendering for the per-report roof plan sketch
+ *
+ * Coordinates are normalised to 0..1 of a square sketch area so a plan
+ * drawn on a phone renders identically on a tablet or in the PDF.
+ *
+ * Pins are numbered by their defect's defectNumber, never by pin order,
+ * so the number on the plan always matches the number in the report.
+ */
+
+import { DefectSeverity } from "../types/shared";
+import type { RoofPlan, RoofPlanPin, RoofPlanPoint, RoofPlanRegion } from "../types/shared";
+import type { LocalDefect } from "../types/database";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const PIN_COLORS: Record<DefectSeverity, string> = {
+  [DefectSeverity.CRITICAL]: "#ef4444",
+  [DefectSeverity.HIGH]: "#f97316",
+  [DefectSeverity.MEDIUM]: "#eab308",
+  [DefectSeverity.LOW]: "#22c55e",
+};
+
+const OUTLINE_COLOR = "#1e293b";
+const REGION_FILL = "rgba(60, 75, 93, 0.12)";
+const REGION_STROKE = "#3c4b5d";
+
+// ============================================
+// CREATE / PARSE
+// ============================================
+
+export function createEmptyRoofPlan(): RoofPlan {
+  return { version: 1, outline: [], regions: [], pins: [], northBearing: null };
+}
+
+function isPoint(value: unknown): value is RoofPlanPoint {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as RoofPlanPoint).x === "number" &&
+    typeof (value as RoofPlanPoint).y === "number"
+  );
+}
+
+/**
+ * Parse stored plan JSON, dropping malformed shapes rather than failing
+ */
+export function parseRoofPlan(json: string | null | undefined): RoofPlan {
+  if (!json) return createEmptyRoofPlan();
+
+  try {
+    const raw = JSON.parse(json) as Partial<RoofPlan>;
+    return {
+      version: 1,
+      outline: Array.isArray(raw.outline) ? raw.outline.filter(isPoint) : [],
+      regions: Array.isArray(raw.regions)
+        ? raw.regions
+            .filter((r) => r && typeof r.id === "string" && Array.isArray(r.points))
+            .map((r) => ({
+              id: r.id,
+              elementType: r.elementType,
+              roofElementId: r.roofElementId ?? null,
+              label: r.label ?? null,
+              points: r.points.filter(isPoint),
+            }))
+        : [],
+      pins: Array.isArray(raw.pins)
+        ? raw.pins.filter((p) => p && typeof p.id === "string" && typeof p.defectId === "string" && isPoint(p))
+        : [],
+      northBearing: typeof raw.northBearing === "number" ? raw.northBearing : null,
+    };
+  } catch (error) {
+    console.warn("[RoofPlan] Failed to parse plan JSON:", error);
+    return createEmptyRoofPlan();
+  }
+}
+
+// ============================================
+// GEOMETRY
+// ============================================
+
+export function clampPoint(point: RoofPlanPoint): RoofPlanPoint {
+  return {
+    x: Math.min(1, Math.max(0, point.x)),
+    y: Math.min(1, Math.max(0, point.y)),
+  };
+}
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export function pointInPolygon(point: RoofPlanPoint, polygon: RoofPlanPoint[]): boolean {
+  if (polygon.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Vertex average, used to place region labels
+ */
+export function centroid(points: RoofPlanPoint[]): RoofPlanPoint {
+  if (points.length === 0) return { x: 0.5, y: 0.5 };
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+/**
+ * Region containing a point; later regions are drawn on top so win ties
+ */
+export function regionAtPoint(plan: RoofPlan, point: RoofPlanPoint): RoofPlanRegion | null {
+  for (let i = plan.regions.length - 1; i >= 0; i--) {
+    if (pointInPolygon(point, plan.regions[i].points)) {
+      return plan.regions[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Nearest pin within a tap radius (normalised units)
+ */
+export function pinNearPoint(plan: RoofPlan, point: RoofPlanPoint, radius = 0.05): RoofPlanPin | null {
+  let nearest: RoofPlanPin | null = null;
+  let nearestDistance = radius;
+
+  for (const pin of plan.pins) {
+    const distance = Math.hypot(pin.x - point.x, pin.y - point.y);
+    if (distance <= nearestDistance) {
+      nearest = pin;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+// ============================================
+// EDITING
+// ============================================
+
+/**
+ * Place or move the pin for a defect (one pin per defect)
+ */
+export function placePin(plan: RoofPlan, pin: RoofPlanPin): RoofPlan {
+  const point = clampPoint(pin);
+  return {
+    ...plan,
+    pins: [...plan.pins.filter((p) => p.defectId !== pin.defectId), { ...pin, ...point }],
+  };
+}
+
+export function removePin(plan: RoofPlan, pinId: string): RoofPlan {
+  return { ...plan, pins: plan.pins.filter((p) => p.id !== pinId) };
+}
+
+export function addRegion(plan: RoofPlan, region: RoofPlanRegion): RoofPlan {
+  if (region.points.length < 3) return plan;
+  return { ...plan, regions: [...plan.regions, { ...region, points: region.points.map(clampPoint) }] };
+}
+
+export function removeRegion(plan: RoofPlan, regionId: string): RoofPlan {
+  return { ...plan, regions: plan.regions.filter((r) => r.id !== regionId) };
+}
+
+/**
+ * Drop pins for deleted defects and unlink regions from deleted elements
+ */
+export function pruneRoofPlan(
+  plan: RoofPlan,
+  defectIds: Iterable<string>,
+  elementIds: Iterable<string>
+): RoofPlan {
+  const defects = new Set(defectIds);
+  const elements = new Set(elementIds);
+
+  return {
+    ...plan,
+    pins: plan.pins.filter((p) => defects.has(p.defectId)),
+    regions: plan.regions.map((r) =>
+      r.roofElementId && !elements.has(r.roofElementId) ? { ...r, roofElementId: null } : r
+    ),
+  };
+}
+
+export function isRoofPlanEmpty(plan: RoofPlan): boolean {
+  return plan.outline.length === 0 && plan.regions.length === 0 && plan.pins.length === 0;
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toPointsAttr(points: RoofPlanPoint[], size: number): string {
+  return points.map((p) => `${(p.x * size).toFixed(1)},${(p.y * size).toFixed(1)}`).join(" ");
+}
+
+/**
+ * Render the plan as a standalone SVG string for report output
+ *
+ * @param plan - Roof plan
+ * @param defects - Report defects (for pin numbers and colours)
+ * @param size - Width and height in px
+ */
+export function renderRoofPlanSvg(
+  plan: RoofPlan,
+  defects: Pick<LocalDefect, "id" | "defectNumber" | "severity">[],
+  size = 600
+): string {
+  const defectById = new Map(defects.map((d) => [d.id, d]));
+  const pinRadius = size * 0.025;
+  const parts: string[] = [];
+
+  parts.push(`<rect x="0" y="0" width="${size}" height="${size}" fill="#ffffff" stroke="#e2e8f0"/>`);
+
+  if (plan.outline.length >= 3) {
+    parts.push(
+      `<polygon points="${toPointsAttr(plan.outline, size)}" fill="none" stroke="${OUTLINE_COLOR}" stroke-width="3"/>`
+    );
+  }
+
+  for (const region of plan.regions) {
+    const label = region.label || region.elementType.replace(/_/g, " ");
+    const c = centroid(region.points);
+    parts.push(
+      `<polygon points="${toPointsAttr(region.points, size)}" fill="${REGION_FILL}" stroke="${REGION_STROKE}" stroke-width="1.5" stroke-dasharray="6,4"/>`,
+      `<text x="${(c.x * size).toFixed(1)}" y="${(c.y * size).toFixed(1)}" font-size="${(size * 0.024).toFixed(1)}" fill="${REGION_STROKE}" text-anchor="middle" font-family="Helvetica, Arial, sans-serif">${escapeXml(label)}</text>`
+    );
+  }
+
+  for (const pin of plan.pins) {
+    const defect = defectById.get(pin.defectId);
+    if (!defect) continue;
+    const cx = (pin.x * size).toFixed(1);
+    const cy = (pin.y * size).toFixed(1);
+    parts.push(
+      `<circle cx="${cx}" cy="${cy}" r="${pinRadius.toFixed(1)}" fill="${PIN_COLORS[defect.severity] ?? "#6b7280"}" stroke="#ffffff" stroke-width="2"/>`,
+      `<text x="${cx}" y="${cy}" dy="0.35em" font-size="${(pinRadius * 1.1).toFixed(1)}" font-weight="bold" fill="#ffffff" text-anchor="middle" font-family="Helvetica, Arial, sans-serif">${defect.defectNumber}</text>`
+    );
+  }
+
+  if (plan.northBearing !== null) {
+    const x = size - size * 0.06;
+    const y = size * 0.08;
+    parts.push(
+      `<g transform="rotate(${-plan.northBearing} ${x} ${y})"><path d="M ${x} ${y - size * 0.04} L ${x - size * 0.015} ${y + size * 0.02} L ${x + size * 0.015} ${y + size * 0.02} Z" fill="${OUTLINE_COLOR}"/></g>`,
+      `<text x="${x}" y="${y + size * 0.05}" font-size="${(size * 0.025).toFixed(1)}" text-anchor="middle" fill="${OUTLINE_COLOR}" font-family="Helvetica, Arial, sans-serif">N</text>`
+    );
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">${parts.join("")}</svg>`;
+}
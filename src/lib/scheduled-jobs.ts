@@ -0,0 +1,236 @@
+/**
+ * Scheduled Jobs
+ * Agenda grouping, download merging and report pre-fill for assigned jobs
+ *
+ * Admins book jobs on the server; they reach the inspector's device with
+ * the bootstrap download. These helpers make the decisions; the scheduled
+ * job service and sync engine do the I/O.
+ */
+
+import type { LocalReport, LocalScheduledJob, LocalTemplate } from "../types/database";
+import {
+  InspectionType,
+  PropertyType,
+  ReportStatus,
+  type ScheduledJob,
+  type ScheduledJobInput,
+} from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AgendaSectionKey = "OVERDUE" | "TODAY" | "TOMORROW" | "THIS_WEEK" | "LATER";
+
+export interface AgendaSection {
+  key: AgendaSectionKey;
+  title: string;
+  jobs: LocalScheduledJob[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const AGENDA_TITLES: Record<AgendaSectionKey, string> = {
+  OVERDUE: "Overdue",
+  TODAY: "Today",
+  TOMORROW: "Tomorrow",
+  THIS_WEEK: "Next 7 Days",
+  LATER: "Later",
+};
+
+const AGENDA_ORDER: AgendaSectionKey[] = ["OVERDUE", "TODAY", "TOMORROW", "THIS_WEEK", "LATER"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// STATUS
+// ============================================
+
+/**
+ * Whether a job still belongs on the agenda
+ */
+export function isOpenJob(job: Pick<LocalScheduledJob, "status">): boolean {
+  return job.status === "SCHEDULED" || job.status === "IN_PROGRESS";
+}
+
+/**
+ * Whether a job can be started (or continued) on this device
+ */
+export function canStartJob(job: Pick<LocalScheduledJob, "status" | "reportId">): boolean {
+  return job.status === "SCHEDULED" || (job.status === "IN_PROGRESS" && job.reportId !== null);
+}
+
+// ============================================
+// AGENDA
+// ============================================
+
+/**
+ * Group open jobs by due date relative to the device's local day
+ *
+ * Empty sections are omitted; jobs within a section are soonest first.
+ */
+export function groupJobsForAgenda(jobs: LocalScheduledJob[], now: Date = new Date()): AgendaSection[] {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const sections = new Map<AgendaSectionKey, LocalScheduledJob[]>();
+
+  const sorted = jobs.filter(isOpenJob).sort((a, b) => Date.parse(a.dueDate) - Date.parse(b.dueDate));
+  for (const job of sorted) {
+    const key = agendaSectionFor(Date.parse(job.dueDate), startOfToday);
+    sections.set(key, [...(sections.get(key) ?? []), job]);
+  }
+
+  return AGENDA_ORDER.filter((key) => sections.has(key)).map((key) => ({
+    key,
+    title: AGENDA_TITLES[key],
+    jobs: sections.get(key)!,
+  }));
+}
+
+function agendaSectionFor(due: number, startOfToday: number): AgendaSectionKey {
+  if (due < startOfToday) return "OVERDUE";
+  if (due < startOfToday + DAY_MS) return "TODAY";
+  if (due < startOfToday + 2 * DAY_MS) return "TOMORROW";
+  if (due < startOfToday + 8 * DAY_MS) return "THIS_WEEK";
+  return "LATER";
+}
+
+// ============================================
+// DOWNLOAD
+// ============================================
+
+/**
+ * Local row for a downloaded job
+ *
+ * A job started on this device keeps its report link and IN_PROGRESS
+ * status until the server has seen the report.
+ */
+export function localJobFromServer(
+  job: ScheduledJob,
+  existing: LocalScheduledJob | null,
+  now: string
+): LocalScheduledJob {
+  const reportId = job.reportId ?? existing?.reportId ?? null;
+  const startedLocally = existing?.reportId != null && job.status === "SCHEDULED";
+
+  return {
+    id: job.id,
+    status: startedLocally ? "IN_PROGRESS" : job.status,
+    propertyAddress: job.propertyAddress,
+    propertyCity: job.propertyCity,
+    propertyRegion: job.propertyRegion ?? null,
+    propertyPostcode: job.propertyPostcode ?? null,
+    propertyType: job.propertyType ?? null,
+    clientName: job.clientName,
+    clientEmail: job.clientEmail ?? null,
+    clientPhone: job.clientPhone ?? null,
+    inspectionType: job.inspectionType,
+    templateId: job.templateId ?? null,
+    dueDate: job.dueDate,
+    assignedInspectorId: job.assignedInspectorId,
+    assignedInspectorName: job.assignedInspectorName ?? null,
+    notes: job.notes ?? null,
+    reportId,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    downloadedAt: now,
+  };
+}
+
+/**
+ * What to do with a local job the server no longer lists as open
+ *
+ * Unstarted jobs were cancelled or reassigned and are removed; started
+ * jobs are kept (marked completed) so the report keeps its job link.
+ */
+export function resolveUnlistedJob(job: LocalScheduledJob): "delete" | "complete" {
+  return job.reportId ? "complete" : "delete";
+}
+
+// ============================================
+// REPORT PRE-FILL
+// ============================================
+
+/**
+ * A draft report pre-filled from a job
+ *
+ * The template's sections seed the scope of works. Weather and access
+ * method are recorded on site, so they start empty.
+ */
+export function reportFromJob(
+  job: LocalScheduledJob,
+  options: { id: string; inspectorId: string | null; now: string; template?: LocalTemplate | null }
+): LocalReport {
+  const { id, inspectorId, now, template } = options;
+
+  let scopeOfWorksJson: string | null = null;
+  if (template) {
+    let sections: string[] = [];
+    try {
+      sections = JSON.parse(template.sectionsJson) as string[];
+    } catch {
+      sections = [];
+    }
+    scopeOfWorksJson = JSON.stringify({ templateId: template.id, templateName: template.name, sections });
+  }
+
+  return {
+    id,
+    reportNumber: null,
+    status: ReportStatus.DRAFT,
+    propertyAddress: job.propertyAddress,
+    propertyCity: job.propertyCity,
+    // Left blank when the job doesn't know them; validation then asks the
+    // inspector to fill them in on the inspection details screen
+    propertyRegion: job.propertyRegion ?? "",
+    propertyPostcode: job.propertyPostcode ?? "",
+    propertyType: job.propertyType ?? PropertyType.RESIDENTIAL_1,
+    buildingAge: null,
+    gpsLat: null,
+    gpsLng: null,
+    inspectionDate: now,
+    inspectionType: job.inspectionType,
+    weatherConditions: null,
+    weatherJson: null,
+    accessMethod: null,
+    limitations: null,
+    clientName: job.clientName,
+    clientEmail: job.clientEmail,
+    clientPhone: job.clientPhone,
+    scopeOfWorksJson,
+    methodologyJson: null,
+    findingsJson: null,
+    conclusionsJson: null,
+    recommendationsJson: null,
+    declarationSigned: false,
+    signedAt: null,
+    inspectorId,
+    submittedAt: null,
+    approvedAt: null,
+    syncStatus: "draft",
+    createdAt: now,
+    updatedAt: now,
+    syncedAt: null,
+    lastSyncError: null,
+  };
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Check a job before an admin books it
+ *
+ * @returns An error message, or null if the job is valid
+ */
+export function validateJobInput(input: ScheduledJobInput): string | null {
+  if (!input.propertyAddress.trim()) return "Property address is required";
+  if (!input.propertyCity.trim()) return "City is required";
+  if (!input.clientName.trim()) return "Client name is required";
+  if (!Object.values(InspectionType).includes(input.inspectionType)) return "Choose an inspection type";
+  if (!input.assignedInspectorId) return "Assign an inspector";
+  if (isNaN(Date.parse(input.dueDate))) return "Enter a valid due date";
+  return null;
+}
@@ -0,0 +1,478 @@
+/**
+ * Search Index
+ * FTS5 full-text index over reports, defects, elements, captions,
+ * transcripts and compliance notes
+ *
+ * The index is derived data: it is not part of the versioned schema and
+ * can be rebuilt from the source tables at any time. Triggers on each
+ * source table keep it current as rows are saved or deleted, so callers
+ * never update it themselves. Queries are ranked with bm25 (titles weigh
+ * more than body text) and filtered by the owning report's status and
+ * inspection date.
+ *
+ * Like the migration runner, this only depends on the MigrationDatabase
+ * interface.
+ */
+
+import type { MigrationDatabase } from "../types/database";
+import type { ReportStatus } from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SearchEntityType = "report" | "defect" | "roof_element" | "photo" | "voice_note" | "compliance";
+
+export interface SearchFilters {
+  statuses?: ReportStatus[];
+  /** Inclusive ISO date bounds on the report's inspection date */
+  dateFrom?: string | null;
+  dateTo?: string | null;
+  entityTypes?: SearchEntityType[];
+  limit?: number;
+}
+
+export interface SearchResult {
+  entityType: SearchEntityType;
+  entityId: string;
+  reportId: string;
+  defectId: string | null;
+  roofElementId: string | null;
+  /** Title and snippet carry HIGHLIGHT_START / HIGHLIGHT_END around matches */
+  title: string;
+  snippet: string;
+  /** bm25 score; lower is a better match */
+  rank: number;
+  reportNumber: string | null;
+  propertyAddress: string;
+  reportStatus: ReportStatus;
+  inspectionDate: string;
+}
+
+export type SearchDatePreset = "any" | "30d" | "90d" | "12m";
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Where a result opens in the app
+ */
+export interface SearchTarget {
+  pathname: string;
+  params: Record<string, string>;
+}
+
+/**
+ * How one source table feeds the index. Expressions refer to the row as
+ * `r` and are substituted with NEW / OLD in triggers.
+ */
+interface IndexedSource {
+  entityType: SearchEntityType;
+  table: string;
+  /** Columns read by the expressions; other updates (e.g. sync status) skip the index */
+  columns: string[];
+  reportId: string;
+  defectId: string;
+  roofElementId: string;
+  title: string;
+  body: string;
+  /** Only rows matching this are indexed; deleted rows awaiting purge never are */
+  where?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SEARCH_INDEX_TABLE = "search_index";
+
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export const SEARCH_ENTITY_LABELS: Record<SearchEntityType, string> = {
+  report: "Report",
+  defect: "Defect",
+  roof_element: "Roof element",
+  photo: "Photo caption",
+  voice_note: "Voice note",
+  compliance: "Compliance",
+};
+
+export const SEARCH_DATE_PRESETS: { value: SearchDatePreset; label: string }[] = [
+  { value: "any", label: "Any time" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "12m", label: "Last 12 months" },
+];
+
+const DEFAULT_LIMIT = 50;
+const MAX_QUERY_TERMS = 8;
+const SNIPPET_TOKENS = 12;
+const TITLE_WEIGHT = 4;
+const BODY_WEIGHT = 1;
+
+const INDEX_COLUMNS = ["title", "body", "entity_type", "entity_id", "report_id", "defect_id", "roof_element_id"];
+
+const CREATE_INDEX_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS ${SEARCH_INDEX_TABLE} USING fts5(
+  title,
+  body,
+  entity_type UNINDEXED,
+  entity_id UNINDEXED,
+  report_id UNINDEXED,
+  defect_id UNINDEXED,
+  roof_element_id UNINDEXED,
+  tokenize = 'unicode61 remove_diacritics 2'
+);`;
+
+/** Joins text columns with spaces, skipping nulls */
+const joinText = (...columns: string[]) => columns.map((column) => `coalesce(${column}, '')`).join(" || ' ' || ");
+
+const SOURCES: IndexedSource[] = [
+  {
+    entityType: "report",
+    table: "reports",
+    columns: [
+      "report_number",
+      "property_address",
+      "property_city",
+      "property_region",
+      "property_postcode",
+      "client_name",
+      "client_email",
+      "deleted_at",
+    ],
+    reportId: "r.id",
+    defectId: "NULL",
+    roofElementId: "NULL",
+    title: joinText("r.report_number", "r.property_address"),
+    body: joinText(
+      "r.property_address",
+      "r.property_city",
+      "r.property_region",
+      "r.property_postcode",
+      "r.client_name",
+      "r.client_email"
+    ),
+    where: "r.deleted_at IS NULL",
+  },
+  {
+    entityType: "defect",
+    table: "defects",
+    columns: [
+      "report_id",
+      "roof_element_id",
+      "defect_number",
+      "title",
+      "location",
+      "observation",
+      "analysis",
+      "opinion",
+      "recommendation",
+      "deleted_at",
+    ],
+    reportId: "r.report_id",
+    defectId: "r.id",
+    roofElementId: "r.roof_element_id",
+    title: `'#' || r.defect_number || ' ' || r.title`,
+    body: joinText("r.location", "r.observation", "r.analysis", "r.opinion", "r.recommendation"),
+    where: "r.deleted_at IS NULL",
+  },
+  {
+    entityType: "roof_element",
+    table: "roof_elements",
+    columns: ["report_id", "location", "condition_notes", "cladding_type", "material", "manufacturer", "deleted_at"],
+    reportId: "r.report_id",
+    defectId: "NULL",
+    roofElementId: "r.id",
+    title: joinText("r.location"),
+    body: joinText("r.condition_notes", "r.cladding_type", "r.material", "r.manufacturer"),
+    where: "r.deleted_at IS NULL",
+  },
+  {
+    entityType: "photo",
+    table: "photos",
+    columns: ["report_id", "defect_id", "roof_element_id", "caption", "deleted_at"],
+    reportId: "r.report_id",
+    defectId: "r.defect_id",
+    roofElementId: "r.roof_element_id",
+    title: "'Photo'",
+    body: "r.caption",
+    where: "r.caption IS NOT NULL AND trim(r.caption) <> '' AND r.deleted_at IS NULL",
+  },
+  {
+    entityType: "voice_note",
+    table: "voice_notes",
+    columns: ["report_id", "defect_id", "roof_element_id", "transcription", "deleted_at"],
+    reportId: "r.report_id",
+    defectId: "r.defect_id",
+    roofElementId: "r.roof_element_id",
+    title: "'Voice note'",
+    body: "r.transcription",
+    where: "r.transcription IS NOT NULL AND trim(r.transcription) <> '' AND r.deleted_at IS NULL",
+  },
+  {
+    entityType: "compliance",
+    table: "compliance_assessments",
+    columns: ["report_id", "non_compliance_summary"],
+    reportId: "r.report_id",
+    defectId: "NULL",
+    roofElementId: "NULL",
+    title: "'Compliance assessment'",
+    body: "r.non_compliance_summary",
+    where: "r.non_compliance_summary IS NOT NULL AND trim(r.non_compliance_summary) <> ''",
+  },
+];
+
+// ============================================
+// INDEX MAINTENANCE
+// ============================================
+
+const withRow = (expression: string, row: string) => expression.replace(/\br\./g, `${row}.`);
+
+function insertSql(source: IndexedSource, row: string): string {
+  const select = `SELECT ${[
+    source.title,
+    source.body,
+    `'${source.entityType}'`,
+    "r.id",
+    source.reportId,
+    source.defectId,
+    source.roofElementId,
+  ]
+    .map((expression) => withRow(expression, row))
+    .join(", ")}`;
+  const where = source.where ? ` WHERE ${withRow(source.where, row)}` : "";
+  const from = row === "r" ? ` FROM ${source.table} r` : "";
+  return `INSERT INTO ${SEARCH_INDEX_TABLE} (${INDEX_COLUMNS.join(", ")}) ${select}${from}${where};`;
+}
+
+function deleteSql(source: IndexedSource, row: string): string {
+  return `DELETE FROM ${SEARCH_INDEX_TABLE} WHERE entity_type = '${source.entityType}' AND entity_id = ${row}.id;`;
+}
+
+/**
+ * Triggers that keep the index in step with each source table. Saves use
+ * INSERT OR REPLACE, which does not fire delete triggers, so the insert
+ * trigger clears any previous entry first.
+ */
+export function searchTriggerSql(): string {
+  return SOURCES.map((source) => {
+    const name = `${SEARCH_INDEX_TABLE}_${source.table}`;
+    // Children of a deleted report go too, whether or not cascades ran
+    const reportCleanup =
+      source.entityType === "report" ? `\n  DELETE FROM ${SEARCH_INDEX_TABLE} WHERE report_id = OLD.id;` : "";
+    return `
+DROP TRIGGER IF EXISTS ${name}_ai;
+CREATE TRIGGER ${name}_ai AFTER INSERT ON ${source.table} BEGIN
+  ${deleteSql(source, "NEW")}
+  ${insertSql(source, "NEW")}
+END;
+DROP TRIGGER IF EXISTS ${name}_au;
+CREATE TRIGGER ${name}_au AFTER UPDATE OF ${source.columns.join(", ")} ON ${source.table} BEGIN
+  ${deleteSql(source, "OLD")}
+  ${insertSql(source, "NEW")}
+END;
+DROP TRIGGER IF EXISTS ${name}_ad;
+CREATE TRIGGER ${name}_ad AFTER DELETE ON ${source.table} BEGIN
+  ${deleteSql(source, "OLD")}${reportCleanup}
+END;`;
+  }).join("\n");
+}
+
+/**
+ * Repopulate the index from the source tables
+ */
+export async function rebuildSearchIndex(db: MigrationDatabase): Promise<void> {
+  await db.execAsync("BEGIN;");
+  try {
+    const inserts = SOURCES.map((source) => insertSql(source, "r"));
+    await db.execAsync([`DELETE FROM ${SEARCH_INDEX_TABLE};`, ...inserts].join("\n"));
+    await db.execAsync("COMMIT;");
+  } catch (error) {
+    await db.execAsync("ROLLBACK;").catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Create the index and its triggers, rebuilding it when it is new or its
+ * columns no longer match this version of the app
+ *
+ * @returns whether the index was rebuilt
+ */
+export async function ensureSearchIndex(db: MigrationDatabase): Promise<boolean> {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${SEARCH_INDEX_TABLE})`, []);
+  const current = columns.map((column) => column.name).join(",") === INDEX_COLUMNS.join(",");
+
+  if (!current) {
+    await db.execAsync(`DROP TABLE IF EXISTS ${SEARCH_INDEX_TABLE};${CREATE_INDEX_SQL}`);
+  }
+  await db.execAsync(searchTriggerSql());
+  if (!current) {
+    await rebuildSearchIndex(db);
+  }
+  return !current;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * FTS5 MATCH expression for what the user typed: every word must appear,
+ * each as a prefix. Words are quoted so FTS syntax is never interpreted.
+ */
+export function buildMatchQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return [...new Set(terms)]
+    .slice(0, MAX_QUERY_TERMS)
+    .map((term) => `"${term}"*`)
+    .join(" ");
+}
+
+/**
+ * Ranked matches, best first
+ */
+export async function searchIndex(
+  db: MigrationDatabase,
+  query: string,
+  filters: SearchFilters = {}
+): Promise<SearchResult[]> {
+  const match = buildMatchQuery(query);
+  if (!match) return [];
+
+  // Children of a deleted report stay indexed until the purge
+  const conditions = ["s MATCH ?", "rep.deleted_at IS NULL"];
+  const params: (string | number)[] = [HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, match];
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    conditions.push(`rep.status IN (${filters.statuses.map(() => "?").join(", ")})`);
+    params.push(...filters.statuses);
+  }
+  if (filters.entityTypes && filters.entityTypes.length > 0) {
+    conditions.push(`s.entity_type IN (${filters.entityTypes.map(() => "?").join(", ")})`);
+    params.push(...filters.entityTypes);
+  }
+  if (filters.dateFrom) {
+    conditions.push("substr(rep.inspection_date, 1, 10) >= ?");
+    params.push(filters.dateFrom.slice(0, 10));
+  }
+  if (filters.dateTo) {
+    conditions.push("substr(rep.inspection_date, 1, 10) <= ?");
+    params.push(filters.dateTo.slice(0, 10));
+  }
+  params.push(filters.limit ?? DEFAULT_LIMIT);
+
+  const rows = await db.getAllAsync<Record<string, unknown>>(
+    `SELECT
+       s.entity_type, s.entity_id, s.report_id, s.defect_id, s.roof_element_id,
+       highlight(s, 0, ?, ?) AS title,
+       snippet(s, 1, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet,
+       bm25(s, ${TITLE_WEIGHT}, ${BODY_WEIGHT}) AS score,
+       rep.report_number, rep.property_address, rep.status, rep.inspection_date
+     FROM ${SEARCH_INDEX_TABLE} s
+     JOIN reports rep ON rep.id = s.report_id
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY score
+     LIMIT ?`,
+    params
+  );
+
+  return rows.map((row) => ({
+    entityType: row.entity_type as SearchEntityType,
+    entityId: row.entity_id as string,
+    reportId: row.report_id as string,
+    defectId: (row.defect_id as string | null) ?? null,
+    roofElementId: (row.roof_element_id as string | null) ?? null,
+    title: (row.title as string) ?? "",
+    snippet: (row.snippet as string) ?? "",
+    rank: row.score as number,
+    reportNumber: (row.report_number as string | null) ?? null,
+    propertyAddress: row.property_address as string,
+    reportStatus: row.status as ReportStatus,
+    inspectionDate: row.inspection_date as string,
+  }));
+}
+
+// ============================================
+// PRESENTATION
+// ============================================
+
+/**
+ * Inspection date bounds for a preset, ending today
+ */
+export function dateRangeForPreset(
+  preset: SearchDatePreset,
+  now: Date
+): Pick<SearchFilters, "dateFrom" | "dateTo"> {
+  if (preset === "any") return { dateFrom: null, dateTo: null };
+
+  const from = new Date(now);
+  if (preset === "12m") {
+    from.setUTCFullYear(from.getUTCFullYear() - 1);
+  } else {
+    from.setUTCDate(from.getUTCDate() - (preset === "30d" ? 30 : 90));
+  }
+  return { dateFrom: from.toISOString().slice(0, 10), dateTo: now.toISOString().slice(0, 10) };
+}
+
+/**
+ * Split highlighted text into plain and matched runs for rendering
+ */
+export function parseHighlights(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let match = false;
+  let buffer = "";
+
+  const flush = () => {
+    if (buffer) segments.push({ text: buffer, match });
+    buffer = "";
+  };
+
+  for (const char of text) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      flush();
+      match = char === HIGHLIGHT_START;
+    } else {
+      buffer += char;
+    }
+  }
+  flush();
+  return segments;
+}
+
+/**
+ * Screen that shows a result. Captions and transcripts open the defect or
+ * element they belong to, falling back to the report.
+ */
+export function searchResultTarget(result: SearchResult): SearchTarget {
+  const report: SearchTarget = { pathname: "/(main)/report-detail/[id]", params: { id: result.reportId } };
+  const defect = (id: string): SearchTarget => ({
+    pathname: "/(main)/defects/[id]",
+    params: { id, reportId: result.reportId },
+  });
+  const element = (id: string): SearchTarget => ({
+    pathname: "/(main)/elements/[id]",
+    params: { id, reportId: result.reportId },
+  });
+
+  switch (result.entityType) {
+    case "report":
+      return report;
+    case "defect":
+      return defect(result.entityId);
+    case "roof_element":
+      return element(result.entityId);
+    case "compliance":
+      return { pathname: "/(main)/compliance/[reportId]", params: { reportId: result.reportId } };
+    case "photo":
+    case "voice_note":
+      if (result.defectId) return defect(result.defectId);
+      if (result.roofElementId) return element(result.roofElementId);
+      return report;
+  }
+}
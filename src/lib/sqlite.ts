@@ -17,12 +17,18 @@ import * as FileSystem from "expo-file-system/legacy";
 export const MAX_SYNC_RETRY_ATTEMPTS = 5;
 export const PERMANENTLY_FAILED_STATUS = 'permanently_failed';
 
+/** expo-sqlite keeps databases in the SQLite/ folder of the document directory */
+const DATABASE_DIRECTORY = `${FileSystem.documentDirectory}SQLite/`;
+const MAX_DATABASE_BACKUPS = 3;
+
 import {
   DATABASE_NAME,
   DATABASE_VERSION,
   CREATE_TABLES_SQL,
   MIGRATIONS,
   type LocalUser,
+  type LocalManagedUser,
+  type LocalScheduledJob,
   type LocalReport,
   type LocalPhoto,
   type LocalDefect,
@@ -30,12 +36,26 @@ import {
   type LocalVoiceNote,
   type LocalVideo,
   type LocalComplianceAssessment,
+  type LocalRoofPlan,
+  type LocalPhotoCacheEntry,
   type LocalChecklist,
   type LocalTemplate,
+  type LocalDefectTemplate,
   type LocalSyncQueue,
+  type LocalMediaSyncState,
   type LocalSyncState,
   type LocalAuditLog,
+  type LocalMigrationRecord,
 } from "../types/database";
+import { migrateDatabase, getMigrationHistory } from "./migrations";
+import { ensureSearchIndex, rebuildSearchIndex, searchIndex, type SearchFilters, type SearchResult } from "./search-index";
+import type { MergeEntityType, SyncConflict } from "../types/sync";
+import type { AnalyticsDateRange, TombstoneEntityType } from "../types/shared";
+import { deletionIdempotencyKey, type DeletionQueuePayload } from "./delta-sync";
+import { databaseKeyPragma, isPlaintextSqliteHeader } from "./encryption";
+import { REVIEW_DECISION_ACTIONS, type AnalyticsSource } from "./analytics";
+import type { WeatherHistoryEntry } from "./weather";
+import { getOrCreateDatabaseKey } from "./auth/storage";
 
 let db: SQLite.SQLiteDatabase | null = null;
 
@@ -45,69 +65,181 @@ let db: SQLite.SQLiteDatabase | null = null;
 
 /**
  * Initialize the database and create tables
+ *
+ * The database is encrypted with SQLCipher. The key comes from SecureStore,
+ * so this should only run once the user has unlocked the app (see
+ * unlockLocalData in the auth store). A database written before encryption
+ * was enabled is converted in place on first open.
  */
 export async function initializeDatabase(): Promise<void> {
+  if (db) return;
+
   try {
+    const keyResult = await getOrCreateDatabaseKey();
+    if (!keyResult) {
+      throw new Error("Database key unavailable — secure storage could not be read");
+    }
+
+    await encryptPlaintextDatabase(keyResult.key);
+
     console.log("[SQLite] Opening database...");
-    db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    db = await openEncryptedDatabase(keyResult.key, keyResult.created);
     console.log("[SQLite] Database opened");
 
     // Enable WAL mode for better concurrent read/write performance
     await db.execAsync("PRAGMA journal_mode = WAL;");
 
-    // Check current version and run migrations if needed
-    const currentVersion = await getDatabaseVersion();
-    console.log("[SQLite] Current version:", currentVersion);
-
-    if (currentVersion === 0) {
-      // Fresh install: create all tables with current schema, skip migrations
-      console.log("[SQLite] Fresh install — creating tables");
-      await db.execAsync(CREATE_TABLES_SQL);
-      console.log("[SQLite] Tables created");
-    } else if (currentVersion < DATABASE_VERSION) {
-      // Existing install: run migrations first, then ensure any new tables exist
-      console.log(`[SQLite] Migrating from v${currentVersion} to v${DATABASE_VERSION}`);
-      await runMigrations(currentVersion);
-      await db.execAsync(CREATE_TABLES_SQL);
-      console.log("[SQLite] Migration complete");
-    }
-
-    // Update version
-    await setDatabaseVersion(DATABASE_VERSION);
-    console.log("[SQLite] Version set to", DATABASE_VERSION);
+    // Create or upgrade the schema; each migration is its own transaction
+    const result = await migrateDatabase(db, {
+      migrations: MIGRATIONS,
+      targetVersion: DATABASE_VERSION,
+      createTablesSql: CREATE_TABLES_SQL,
+      digest: (text) => Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, text),
+      backup: backupDatabaseFile,
+    });
+    console.log(
+      `[SQLite] Schema v${result.fromVersion} -> v${result.toVersion}` +
+        (result.applied.length > 0 ? ` (applied ${result.applied.join(", ")})` : "")
+    );
 
     // Ensure sync state exists
     await ensureSyncState();
 
+    // Full-text search is derived data; search is unavailable rather than fatal if it fails
+    try {
+      if (await ensureSearchIndex(db)) {
+        console.log("[SQLite] Search index rebuilt");
+      }
+    } catch (error) {
+      console.warn("[SQLite] Search index unavailable:", error);
+    }
+
     console.log("[SQLite] Database initialized successfully (v" + DATABASE_VERSION + ")");
   } catch (error) {
     console.error("[SQLite] Failed to initialize database:", error);
+    if (db) {
+      await db.closeAsync().catch(() => {});
+      db = null;
+    }
     throw error;
   }
 }
 
-async function getDatabaseVersion(): Promise<number> {
+/**
+ * Open the database and apply the SQLCipher key
+ *
+ * A wrong key only surfaces on the first read, so the schema is queried
+ * straight away. If the key was just generated, whatever is on disk was
+ * encrypted with a key this device no longer has (e.g. a restored backup)
+ * and can never be read, so it is discarded and a fresh database created.
+ */
+async function openEncryptedDatabase(key: string, keyCreated: boolean): Promise<SQLite.SQLiteDatabase> {
+  const database = await SQLite.openDatabaseAsync(DATABASE_NAME);
   try {
-    const result = await db!.getFirstAsync<{ user_version: number }>(
-      "PRAGMA user_version"
-    );
-    return result?.user_version ?? 0;
-  } catch {
-    return 0;
+    await database.execAsync(databaseKeyPragma(key));
+    await database.getFirstAsync("SELECT count(*) FROM sqlite_master");
+    return database;
+  } catch (error) {
+    await database.closeAsync().catch(() => {});
+    if (!keyCreated) {
+      throw new Error("Local database could not be unlocked with the stored key");
+    }
+
+    console.warn("[SQLite] Existing database is unreadable with the new key; starting fresh");
+    await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+    await FileSystem.deleteAsync(`${DATABASE_DIRECTORY}backups/`, { idempotent: true });
+
+    const fresh = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    await fresh.execAsync(databaseKeyPragma(key));
+    return fresh;
   }
 }
 
-async function setDatabaseVersion(version: number): Promise<void> {
-  await db!.execAsync(`PRAGMA user_version = ${version}`);
+/**
+ * Convert an unencrypted database from an earlier app version
+ *
+ * Exports everything into a new keyed file with sqlcipher_export, carries
+ * the schema version across, then replaces the plaintext file. Old
+ * pre-migration backups are plaintext too, so they are removed.
+ *
+ * @returns true if a plaintext database was converted
+ */
+async function encryptPlaintextDatabase(key: string): Promise<boolean> {
+  const source = `${DATABASE_DIRECTORY}${DATABASE_NAME}`;
+  const info = await FileSystem.getInfoAsync(source);
+  if (!info.exists) return false;
+
+  const header = await FileSystem.readAsStringAsync(source, {
+    encoding: FileSystem.EncodingType.Base64,
+    position: 0,
+    length: 16,
+  });
+  if (!isPlaintextSqliteHeader(header)) return false;
+
+  console.log("[SQLite] Encrypting existing plaintext database...");
+  const encryptedName = `${DATABASE_NAME}.encrypting`;
+  const encryptedUri = `${DATABASE_DIRECTORY}${encryptedName}`;
+  await FileSystem.deleteAsync(encryptedUri, { idempotent: true });
+
+  const plain = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  try {
+    const version = await plain.getFirstAsync<{ user_version: number }>("PRAGMA user_version");
+    const encryptedPath = decodeURI(encryptedUri.replace(/^file:\/\//, ""));
+    await plain.execAsync(`ATTACH DATABASE '${encryptedPath}' AS encrypted KEY "x'${key}'";`);
+    await plain.execAsync("SELECT sqlcipher_export('encrypted');");
+    await plain.execAsync(`PRAGMA encrypted.user_version = ${version?.user_version ?? 0};`);
+    await plain.execAsync("DETACH DATABASE encrypted;");
+  } finally {
+    await plain.closeAsync();
+  }
+
+  await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+  await FileSystem.moveAsync({ from: encryptedUri, to: source });
+  await FileSystem.deleteAsync(`${DATABASE_DIRECTORY}backups/`, { idempotent: true });
+
+  console.log("[SQLite] Database encrypted");
+  return true;
 }
 
-async function runMigrations(fromVersion: number): Promise<void> {
-  for (const migration of MIGRATIONS) {
-    if (migration.version > fromVersion) {
-      console.log(`[SQLite] Running migration v${migration.version}`);
-      await db!.execAsync(migration.sql);
-    }
+/**
+ * Copy the database file aside before a schema upgrade
+ *
+ * Checkpoints the WAL first so the copy is complete. Keeps the most
+ * recent MAX_DATABASE_BACKUPS copies.
+ */
+async function backupDatabaseFile(fromVersion: number): Promise<string | null> {
+  const source = `${DATABASE_DIRECTORY}${DATABASE_NAME}`;
+  const info = await FileSystem.getInfoAsync(source);
+  if (!info.exists) return null;
+
+  await db!.execAsync("PRAGMA wal_checkpoint(TRUNCATE)");
+
+  const backupDir = `${DATABASE_DIRECTORY}backups/`;
+  const dirInfo = await FileSystem.getInfoAsync(backupDir);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(backupDir, { intermediates: true });
   }
+
+  const target = `${backupDir}${DATABASE_NAME.replace(/\.db$/, "")}.v${fromVersion}.${Date.now()}.db`;
+  await FileSystem.copyAsync({ from: source, to: target });
+  console.log("[SQLite] Pre-migration backup written to", target);
+
+  const backups = (await FileSystem.readDirectoryAsync(backupDir)).sort((a, b) => {
+    const stamp = (name: string) => Number(name.split(".").slice(-2, -1)[0]) || 0;
+    return stamp(b) - stamp(a);
+  });
+  for (const stale of backups.slice(MAX_DATABASE_BACKUPS)) {
+    await FileSystem.deleteAsync(`${backupDir}${stale}`, { idempotent: true });
+  }
+
+  return target;
+}
+
+/**
+ * Applied schema migrations, oldest first
+ */
+export async function getSchemaMigrationHistory(): Promise<LocalMigrationRecord[]> {
+  return getMigrationHistory(getDatabase());
 }
 
 async function ensureSyncState(): Promise<void> {
@@ -148,6 +280,13 @@ export async function closeDatabase(): Promise<void> {
   }
 }
 
+/**
+ * Whether the database has been unlocked and opened
+ */
+export function isDatabaseOpen(): boolean {
+  return db !== null;
+}
+
 // ============================================
 // SYNC STATE OPERATIONS
 // ============================================
@@ -263,6 +402,86 @@ export async function getAllUsers(): Promise<LocalUser[]> {
   return results.map(mapUserRow);
 }
 
+// ============================================
+// MANAGED USER OPERATIONS (admin directory)
+// ============================================
+
+function mapManagedUserRow(row: Record<string, unknown>): LocalManagedUser {
+  return {
+    id: row.id as string,
+    email: row.email as string,
+    name: row.name as string,
+    role: row.role as LocalManagedUser["role"],
+    status: row.status as LocalManagedUser["status"],
+    company: row.company as string | null,
+    lbpNumber: row.lbp_number as string | null,
+    yearsExperience: row.years_experience as number | null,
+    pendingAction: row.pending_action as LocalManagedUser["pendingAction"],
+    invitedAt: row.invited_at as string | null,
+    syncedAt: row.synced_at as string | null,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+export async function saveManagedUser(user: LocalManagedUser): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT OR REPLACE INTO managed_users (
+      id, email, name, role, status, company, lbp_number, years_experience,
+      pending_action, invited_at, synced_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      user.id,
+      user.email,
+      user.name,
+      user.role,
+      user.status,
+      user.company,
+      user.lbpNumber,
+      user.yearsExperience,
+      user.pendingAction,
+      user.invitedAt,
+      user.syncedAt,
+      user.updatedAt,
+    ]
+  );
+}
+
+export async function getManagedUsers(): Promise<LocalManagedUser[]> {
+  const database = getDatabase();
+  const rows = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM managed_users ORDER BY name ASC"
+  );
+  return rows.map(mapManagedUserRow);
+}
+
+export async function getManagedUser(id: string): Promise<LocalManagedUser | null> {
+  const database = getDatabase();
+  const row = await database.getFirstAsync<Record<string, unknown>>(
+    "SELECT * FROM managed_users WHERE id = ?",
+    [id]
+  );
+  return row ? mapManagedUserRow(row) : null;
+}
+
+export async function deleteManagedUser(id: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("DELETE FROM managed_users WHERE id = ?", [id]);
+}
+
+/**
+ * Replace the directory with a merged server + local list
+ */
+export async function replaceManagedUsers(users: LocalManagedUser[]): Promise<void> {
+  const database = getDatabase();
+  await database.withTransactionAsync(async () => {
+    await database.runAsync("DELETE FROM managed_users");
+    for (const user of users) {
+      await saveManagedUser(user);
+    }
+  });
+}
+
 // ============================================
 // REPORT OPERATIONS
 // ============================================
@@ -274,13 +493,13 @@ export async function saveReport(report: LocalReport): Promise<void> {
       id, report_number, status,
       property_address, property_city, property_region, property_postcode,
       property_type, building_age, gps_lat, gps_lng,
-      inspection_date, inspection_type, weather_conditions, access_method, limitations,
+      inspection_date, inspection_type, weather_conditions, weather_json, access_method, limitations,
       client_name, client_email, client_phone,
       scope_of_works_json, methodology_json, findings_json, conclusions_json, recommendations_json,
       declaration_signed, signed_at,
       inspector_id, submitted_at, approved_at,
-      sync_status, created_at, updated_at, synced_at, last_sync_error
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      sync_status, created_at, updated_at, synced_at, last_sync_error, deleted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT deleted_at FROM reports WHERE id = ?))`,
     [
       report.id,
       report.reportNumber,
@@ -296,6 +515,7 @@ export async function saveReport(report: LocalReport): Promise<void> {
       report.inspectionDate,
       report.inspectionType,
       report.weatherConditions,
+      report.weatherJson,
       report.accessMethod,
       report.limitations,
       report.clientName,
@@ -316,6 +536,7 @@ export async function saveReport(report: LocalReport): Promise<void> {
       report.updatedAt,
       report.syncedAt,
       report.lastSyncError,
+      report.id,
     ]
   );
 }
@@ -323,7 +544,7 @@ export async function saveReport(report: LocalReport): Promise<void> {
 export async function getReport(id: string): Promise<LocalReport | null> {
   const database = getDatabase();
   const result = await database.getFirstAsync<Record<string, unknown>>(
-    "SELECT * FROM reports WHERE id = ?",
+    "SELECT * FROM reports WHERE id = ? AND deleted_at IS NULL",
     [id]
   );
 
@@ -334,16 +555,40 @@ export async function getReport(id: string): Promise<LocalReport | null> {
 export async function getAllReports(): Promise<LocalReport[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM reports ORDER BY updated_at DESC"
+    "SELECT * FROM reports WHERE deleted_at IS NULL ORDER BY updated_at DESC"
   );
 
   return results.map(mapReportRow);
 }
 
+/**
+ * Structured weather from reports inspected since the given time, newest first
+ */
+export async function getRecentReportWeather(since: string): Promise<WeatherHistoryEntry[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<{ weather_json: string; gps_lat: number | null; gps_lng: number | null }>(
+    `SELECT weather_json, gps_lat, gps_lng FROM reports
+     WHERE weather_json IS NOT NULL AND inspection_date >= ? AND deleted_at IS NULL
+     ORDER BY inspection_date DESC LIMIT 20`,
+    [since]
+  );
+  return results.map((row) => ({ weatherJson: row.weather_json, gpsLat: row.gps_lat, gpsLng: row.gps_lng }));
+}
+
 export async function getPendingSyncReports(): Promise<LocalReport[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM reports WHERE sync_status IN ('draft', 'pending', 'error') ORDER BY updated_at ASC"
+    `SELECT * FROM reports
+     WHERE (
+         sync_status IN ('draft', 'pending', 'error')
+         OR id IN (
+           SELECT json_extract(payload_json, '$.reportId') FROM sync_queue
+           WHERE operation = 'delete' AND entity_type != 'report'
+         )
+       )
+       AND id NOT IN (SELECT report_id FROM sync_conflicts)
+       AND deleted_at IS NULL
+     ORDER BY updated_at ASC`
   );
 
   return results.map(mapReportRow);
@@ -354,6 +599,40 @@ export async function deleteReport(id: string): Promise<void> {
   await database.runAsync("DELETE FROM reports WHERE id = ?", [id]);
 }
 
+/**
+ * Delete a report and every row that belongs to it
+ *
+ * Foreign keys are not enforced on this connection, so children are
+ * removed explicitly. Files on disk are left to the caller; evidence
+ * originals are never deleted by app code. Deletions made on the device
+ * go through markReportGraphDeleted and only reach here once the server
+ * has acknowledged them.
+ */
+export async function deleteReportGraph(reportId: string): Promise<void> {
+  const database = getDatabase();
+  await database.withTransactionAsync(async () => {
+    for (const table of [
+      "photos",
+      "defects",
+      "roof_elements",
+      "voice_notes",
+      "videos",
+      "compliance_assessments",
+      "roof_plans",
+      "sync_base_versions",
+      "sync_conflicts",
+    ]) {
+      await database.runAsync(`DELETE FROM ${table} WHERE report_id = ?`, [reportId]);
+    }
+    // A job started from this report goes back on the agenda
+    await database.runAsync(
+      "UPDATE scheduled_jobs SET report_id = NULL, status = 'SCHEDULED' WHERE report_id = ? AND status = 'IN_PROGRESS'",
+      [reportId]
+    );
+    await database.runAsync("DELETE FROM reports WHERE id = ?", [reportId]);
+  });
+}
+
 function mapReportRow(row: Record<string, unknown>): LocalReport {
   return {
     id: row.id as string,
@@ -370,6 +649,7 @@ function mapReportRow(row: Record<string, unknown>): LocalReport {
     inspectionDate: row.inspection_date as string,
     inspectionType: row.inspection_type as LocalReport["inspectionType"],
     weatherConditions: row.weather_conditions as string | null,
+    weatherJson: row.weather_json as string | null,
     accessMethod: row.access_method as string | null,
     limitations: row.limitations as string | null,
     clientName: row.client_name as string,
@@ -402,9 +682,9 @@ export async function saveRoofElement(element: LocalRoofElement): Promise<void>
   await database.runAsync(
     `INSERT OR REPLACE INTO roof_elements (
       id, report_id, element_type, location, cladding_type, material,
-      manufacturer, pitch, area, condition_rating, condition_notes,
-      sync_status, created_at, updated_at, synced_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      manufacturer, pitch, area, measurement_json, condition_rating, condition_notes,
+      sync_status, created_at, updated_at, synced_at, deleted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT deleted_at FROM roof_elements WHERE id = ?))`,
     [
       element.id,
       element.reportId,
@@ -415,12 +695,14 @@ export async function saveRoofElement(element: LocalRoofElement): Promise<void>
       element.manufacturer,
       element.pitch,
       element.area,
+      element.measurementJson,
       element.conditionRating,
       element.conditionNotes,
       element.syncStatus,
       element.createdAt,
       element.updatedAt,
       element.syncedAt,
+      element.id,
     ]
   );
 }
@@ -428,7 +710,7 @@ export async function saveRoofElement(element: LocalRoofElement): Promise<void>
 export async function getRoofElementsForReport(reportId: string): Promise<LocalRoofElement[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM roof_elements WHERE report_id = ? ORDER BY created_at ASC",
+    "SELECT * FROM roof_elements WHERE report_id = ? AND deleted_at IS NULL ORDER BY created_at ASC",
     [reportId]
   );
 
@@ -451,6 +733,7 @@ function mapRoofElementRow(row: Record<string, unknown>): LocalRoofElement {
     manufacturer: row.manufacturer as string | null,
     pitch: row.pitch as number | null,
     area: row.area as number | null,
+    measurementJson: row.measurement_json as string | null,
     conditionRating: row.condition_rating as LocalRoofElement["conditionRating"],
     conditionNotes: row.condition_notes as string | null,
     syncStatus: row.sync_status as LocalRoofElement["syncStatus"],
@@ -471,8 +754,8 @@ export async function saveDefect(defect: LocalDefect): Promise<void> {
       id, report_id, roof_element_id, defect_number, title, description, location,
       classification, severity, observation, analysis, opinion,
       code_reference, cop_reference, recommendation, priority_level,
-      sync_status, created_at, updated_at, synced_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      sync_status, created_at, updated_at, synced_at, deleted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT deleted_at FROM defects WHERE id = ?))`,
     [
       defect.id,
       defect.reportId,
@@ -494,6 +777,7 @@ export async function saveDefect(defect: LocalDefect): Promise<void> {
       defect.createdAt,
       defect.updatedAt,
       defect.syncedAt,
+      defect.id,
     ]
   );
 }
@@ -501,7 +785,7 @@ export async function saveDefect(defect: LocalDefect): Promise<void> {
 export async function getDefectsForReport(reportId: string): Promise<LocalDefect[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM defects WHERE report_id = ? ORDER BY defect_number ASC",
+    "SELECT * FROM defects WHERE report_id = ? AND deleted_at IS NULL ORDER BY defect_number ASC",
     [reportId]
   );
 
@@ -560,8 +844,8 @@ export async function savePhoto(photo: LocalPhoto): Promise<void> {
       photo_type, quick_tag, captured_at, gps_lat, gps_lng, gps_altitude, gps_accuracy,
       camera_make, camera_model, exposure_time, f_number, iso, focal_length,
       original_hash, annotations_json, annotated_uri, caption, sort_order,
-      sync_status, uploaded_url, synced_at, last_sync_error, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      sync_status, uploaded_url, synced_at, last_sync_error, created_at, deleted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT deleted_at FROM photos WHERE id = ?))`,
     [
       photo.id,
       photo.reportId,
@@ -596,6 +880,7 @@ export async function savePhoto(photo: LocalPhoto): Promise<void> {
       photo.syncedAt,
       photo.lastSyncError,
       photo.createdAt,
+      photo.id,
     ]
   );
 }
@@ -603,7 +888,7 @@ export async function savePhoto(photo: LocalPhoto): Promise<void> {
 export async function getPhotosForReport(reportId: string): Promise<LocalPhoto[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM photos WHERE report_id = ? ORDER BY sort_order ASC",
+    "SELECT * FROM photos WHERE report_id = ? AND deleted_at IS NULL ORDER BY sort_order ASC",
     [reportId]
   );
 
@@ -613,7 +898,7 @@ export async function getPhotosForReport(reportId: string): Promise<LocalPhoto[]
 export async function getPhotosForDefect(defectId: string): Promise<LocalPhoto[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM photos WHERE defect_id = ? ORDER BY sort_order ASC",
+    "SELECT * FROM photos WHERE defect_id = ? AND deleted_at IS NULL ORDER BY sort_order ASC",
     [defectId]
   );
 
@@ -623,7 +908,7 @@ export async function getPhotosForDefect(defectId: string): Promise<LocalPhoto[]
 export async function getPendingUploadPhotos(): Promise<LocalPhoto[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM photos WHERE sync_status IN ('captured', 'processing', 'pending') AND uploaded_url IS NULL ORDER BY created_at ASC"
+    "SELECT * FROM photos WHERE sync_status IN ('captured', 'processing', 'pending') AND uploaded_url IS NULL AND deleted_at IS NULL ORDER BY created_at ASC"
   );
 
   return results.map(mapPhotoRow);
@@ -642,6 +927,7 @@ export async function updatePhotoSyncStatus(
      WHERE id = ?`,
     [status, uploadedUrl ?? null, error ?? null, status, new Date().toISOString(), id]
   );
+  await recordMediaSyncOutcome("photo", id, status);
 }
 
 export async function deletePhoto(id: string): Promise<void> {
@@ -713,7 +999,7 @@ export async function updatePhotoMeasurements(
 export async function getPhotoById(id: string): Promise<LocalPhoto | null> {
   const database = getDatabase();
   const result = await database.getFirstAsync<Record<string, unknown>>(
-    "SELECT * FROM photos WHERE id = ?",
+    "SELECT * FROM photos WHERE id = ? AND deleted_at IS NULL",
     [id]
   );
 
@@ -847,9 +1133,11 @@ export async function saveVoiceNote(voiceNote: LocalVoiceNote): Promise<void> {
     `INSERT OR REPLACE INTO voice_notes (
       id, report_id, defect_id, roof_element_id,
       local_uri, filename, mime_type, file_size, duration_ms,
-      recorded_at, transcription, original_hash,
-      sync_status, uploaded_url, synced_at, last_sync_error, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      recorded_at, transcription,
+      transcription_status, transcription_hash, transcription_engine, transcription_attempts,
+      transcription_error, transcription_next_attempt_at, transcribed_at, dictation_field, superseded_by,
+      original_hash, sync_status, uploaded_url, synced_at, last_sync_error, created_at, deleted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT deleted_at FROM voice_notes WHERE id = ?))`,
     [
       voiceNote.id,
       voiceNote.reportId,
@@ -862,12 +1150,22 @@ export async function saveVoiceNote(voiceNote: LocalVoiceNote): Promise<void> {
       voiceNote.durationMs,
       voiceNote.recordedAt,
       voiceNote.transcription,
+      voiceNote.transcriptionStatus,
+      voiceNote.transcriptionHash,
+      voiceNote.transcriptionEngine,
+      voiceNote.transcriptionAttempts,
+      voiceNote.transcriptionError,
+      voiceNote.transcriptionNextAttemptAt,
+      voiceNote.transcribedAt,
+      voiceNote.dictationField,
+      voiceNote.supersededBy,
       voiceNote.originalHash,
       voiceNote.syncStatus,
       voiceNote.uploadedUrl,
       voiceNote.syncedAt,
       voiceNote.lastSyncError,
       voiceNote.createdAt,
+      voiceNote.id,
     ]
   );
 }
@@ -875,7 +1173,7 @@ export async function saveVoiceNote(voiceNote: LocalVoiceNote): Promise<void> {
 export async function getVoiceNotesForReport(reportId: string): Promise<LocalVoiceNote[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM voice_notes WHERE report_id = ? ORDER BY recorded_at ASC",
+    "SELECT * FROM voice_notes WHERE report_id = ? AND deleted_at IS NULL ORDER BY recorded_at ASC",
     [reportId]
   );
 
@@ -885,13 +1183,21 @@ export async function getVoiceNotesForReport(reportId: string): Promise<LocalVoi
 export async function getVoiceNotesForDefect(defectId: string): Promise<LocalVoiceNote[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM voice_notes WHERE defect_id = ? ORDER BY recorded_at ASC",
+    "SELECT * FROM voice_notes WHERE defect_id = ? AND deleted_at IS NULL ORDER BY recorded_at ASC",
     [defectId]
   );
 
   return results.map(mapVoiceNoteRow);
 }
 
+/**
+ * Mark a dictation take as replaced by a later recording for the same field
+ */
+export async function markVoiceNoteSuperseded(id: string, supersededBy: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("UPDATE voice_notes SET superseded_by = ? WHERE id = ?", [supersededBy, id]);
+}
+
 export async function deleteVoiceNote(id: string): Promise<void> {
   const database = getDatabase();
 
@@ -914,15 +1220,132 @@ export async function deleteVoiceNote(id: string): Promise<void> {
   }
 }
 
+export async function getVoiceNoteById(id: string): Promise<LocalVoiceNote | null> {
+  const database = getDatabase();
+  const row = await database.getFirstAsync<Record<string, unknown>>(
+    "SELECT * FROM voice_notes WHERE id = ? AND deleted_at IS NULL",
+    [id]
+  );
+  return row ? mapVoiceNoteRow(row) : null;
+}
+
+/**
+ * Store a finished transcript with its hash and the engine that produced it
+ */
 export async function updateVoiceNoteTranscription(
   id: string,
-  transcription: string
+  transcription: string,
+  transcriptionHash: string,
+  engineId: string
+): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `UPDATE voice_notes SET
+      transcription = ?,
+      transcription_hash = ?,
+      transcription_engine = ?,
+      transcription_status = 'completed',
+      transcription_error = NULL,
+      transcription_next_attempt_at = NULL,
+      transcribed_at = ?
+    WHERE id = ?`,
+    [transcription, transcriptionHash, engineId, new Date().toISOString(), id]
+  );
+}
+
+/**
+ * Move a voice note's transcription job to a new state
+ */
+export async function updateVoiceNoteTranscriptionStatus(
+  id: string,
+  status: LocalVoiceNote["transcriptionStatus"],
+  updates: {
+    attempts?: number;
+    error?: string | null;
+    nextAttemptAt?: string | null;
+    engineId?: string | null;
+  } = {}
 ): Promise<void> {
   const database = getDatabase();
   await database.runAsync(
-    "UPDATE voice_notes SET transcription = ? WHERE id = ?",
-    [transcription, id]
+    `UPDATE voice_notes SET
+      transcription_status = ?,
+      transcription_attempts = COALESCE(?, transcription_attempts),
+      transcription_error = ?,
+      transcription_next_attempt_at = ?,
+      transcription_engine = COALESCE(?, transcription_engine)
+    WHERE id = ?`,
+    [
+      status,
+      updates.attempts ?? null,
+      updates.error ?? null,
+      updates.nextAttemptAt ?? null,
+      updates.engineId ?? null,
+      id,
+    ]
+  );
+}
+
+/**
+ * Voice notes waiting for transcription whose retry time has passed
+ */
+export async function getDueTranscriptionJobs(now: string): Promise<LocalVoiceNote[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    `SELECT * FROM voice_notes
+     WHERE transcription_status = 'pending'
+       AND (transcription_next_attempt_at IS NULL OR transcription_next_attempt_at <= ?)
+       AND deleted_at IS NULL
+     ORDER BY recorded_at ASC`,
+    [now]
+  );
+  return results.map(mapVoiceNoteRow);
+}
+
+/**
+ * Put jobs left "processing" by an app restart back in the queue
+ */
+export async function resetInterruptedTranscriptions(): Promise<number> {
+  const database = getDatabase();
+  const result = await database.runAsync(
+    "UPDATE voice_notes SET transcription_status = 'pending' WHERE transcription_status = 'processing'"
+  );
+  return result.changes;
+}
+
+/**
+ * Give failed jobs a fresh set of attempts, except recordings the engine
+ * heard no speech in
+ */
+export async function requeueFailedTranscriptions(noSpeechError: string): Promise<number> {
+  const database = getDatabase();
+  const result = await database.runAsync(
+    `UPDATE voice_notes SET
+      transcription_status = 'pending',
+      transcription_attempts = 0,
+      transcription_next_attempt_at = NULL
+    WHERE transcription_status = 'failed'
+      AND (transcription_error IS NULL OR transcription_error <> ?)
+      AND deleted_at IS NULL`,
+    [noSpeechError]
   );
+  return result.changes;
+}
+
+/**
+ * Voice notes with a transcript, optionally limited to one report
+ */
+export async function getTranscribedVoiceNotes(reportId?: string): Promise<LocalVoiceNote[]> {
+  const database = getDatabase();
+  const results = reportId
+    ? await database.getAllAsync<Record<string, unknown>>(
+        "SELECT * FROM voice_notes WHERE transcription IS NOT NULL AND report_id = ? AND deleted_at IS NULL ORDER BY recorded_at DESC",
+        [reportId]
+      )
+    : await database.getAllAsync<Record<string, unknown>>(
+        "SELECT * FROM voice_notes WHERE transcription IS NOT NULL AND deleted_at IS NULL ORDER BY recorded_at DESC"
+      );
+  return results.map(mapVoiceNoteRow);
 }
 
 function mapVoiceNoteRow(row: Record<string, unknown>): LocalVoiceNote {
@@ -938,6 +1361,15 @@ function mapVoiceNoteRow(row: Record<string, unknown>): LocalVoiceNote {
     durationMs: row.duration_ms as number,
     recordedAt: row.recorded_at as string,
     transcription: row.transcription as string | null,
+    transcriptionStatus: (row.transcription_status as LocalVoiceNote["transcriptionStatus"]) ?? "none",
+    transcriptionHash: row.transcription_hash as string | null,
+    transcriptionEngine: row.transcription_engine as string | null,
+    transcriptionAttempts: (row.transcription_attempts as number) ?? 0,
+    transcriptionError: row.transcription_error as string | null,
+    transcriptionNextAttemptAt: row.transcription_next_attempt_at as string | null,
+    transcribedAt: row.transcribed_at as string | null,
+    dictationField: (row.dictation_field as LocalVoiceNote["dictationField"]) ?? null,
+    supersededBy: (row.superseded_by as string | null) ?? null,
     originalHash: row.original_hash as string,
     syncStatus: row.sync_status as LocalVoiceNote["syncStatus"],
     uploadedUrl: row.uploaded_url as string | null,
@@ -953,7 +1385,7 @@ function mapVoiceNoteRow(row: Record<string, unknown>): LocalVoiceNote {
 export async function getPendingUploadVoiceNotes(): Promise<LocalVoiceNote[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    `SELECT * FROM voice_notes WHERE sync_status IN ('draft', 'processing', 'error') ORDER BY created_at ASC`
+    `SELECT * FROM voice_notes WHERE sync_status IN ('draft', 'processing', 'error') AND deleted_at IS NULL ORDER BY created_at ASC`
   );
   return results.map(mapVoiceNoteRow);
 }
@@ -977,6 +1409,7 @@ export async function updateVoiceNoteSyncStatus(
     WHERE id = ?`,
     [status, uploadedUrl || null, status, new Date().toISOString(), error || null, id]
   );
+  await recordMediaSyncOutcome("voice_note", id, status);
 }
 
 // ============================================
@@ -991,8 +1424,8 @@ export async function saveVideo(video: LocalVideo): Promise<void> {
       local_uri, thumbnail_uri, filename, original_filename, mime_type, file_size, duration_ms,
       title, description, recorded_at, gps_lat, gps_lng,
       original_hash, gps_track_json,
-      sync_status, uploaded_url, synced_at, last_sync_error, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      sync_status, uploaded_url, synced_at, last_sync_error, created_at, deleted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT deleted_at FROM videos WHERE id = ?))`,
     [
       video.id,
       video.reportId,
@@ -1017,6 +1450,7 @@ export async function saveVideo(video: LocalVideo): Promise<void> {
       video.syncedAt,
       video.lastSyncError,
       video.createdAt,
+      video.id,
     ]
   );
 }
@@ -1024,7 +1458,7 @@ export async function saveVideo(video: LocalVideo): Promise<void> {
 export async function getVideosForReport(reportId: string): Promise<LocalVideo[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM videos WHERE report_id = ? ORDER BY recorded_at ASC",
+    "SELECT * FROM videos WHERE report_id = ? AND deleted_at IS NULL ORDER BY recorded_at ASC",
     [reportId]
   );
 
@@ -1034,7 +1468,7 @@ export async function getVideosForReport(reportId: string): Promise<LocalVideo[]
 export async function getVideoById(id: string): Promise<LocalVideo | null> {
   const database = getDatabase();
   const result = await database.getFirstAsync<Record<string, unknown>>(
-    "SELECT * FROM videos WHERE id = ?",
+    "SELECT * FROM videos WHERE id = ? AND deleted_at IS NULL",
     [id]
   );
 
@@ -1117,7 +1551,7 @@ function mapVideoRow(row: Record<string, unknown>): LocalVideo {
 export async function getPendingUploadVideos(): Promise<LocalVideo[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    `SELECT * FROM videos WHERE sync_status IN ('draft', 'processing', 'pending', 'error') AND uploaded_url IS NULL ORDER BY created_at ASC`
+    `SELECT * FROM videos WHERE sync_status IN ('draft', 'processing', 'pending', 'error') AND uploaded_url IS NULL AND deleted_at IS NULL ORDER BY created_at ASC`
   );
   return results.map(mapVideoRow);
 }
@@ -1141,6 +1575,7 @@ export async function updateVideoSyncStatus(
     WHERE id = ?`,
     [status, uploadedUrl || null, status, new Date().toISOString(), error || null, id]
   );
+  await recordMediaSyncOutcome("video", id, status);
 }
 
 // ============================================
@@ -1194,90 +1629,299 @@ export async function deleteComplianceAssessment(reportId: string): Promise<void
 }
 
 // ============================================
-// CHECKLIST OPERATIONS
+// ROOF PLAN OPERATIONS
 // ============================================
 
-export async function saveChecklist(checklist: LocalChecklist): Promise<void> {
+export async function saveRoofPlan(plan: LocalRoofPlan): Promise<void> {
   const database = getDatabase();
   await database.runAsync(
-    `INSERT OR REPLACE INTO checklists (id, name, category, standard, items_json, downloaded_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT OR REPLACE INTO roof_plans (
+      id, report_id, plan_json, sync_status, created_at, updated_at, synced_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
     [
-      checklist.id,
-      checklist.name,
-      checklist.category,
-      checklist.standard,
-      checklist.itemsJson,
-      checklist.downloadedAt,
-      checklist.updatedAt,
+      plan.id,
+      plan.reportId,
+      plan.planJson,
+      plan.syncStatus,
+      plan.createdAt,
+      plan.updatedAt,
+      plan.syncedAt,
     ]
   );
 }
 
-export async function getAllChecklists(): Promise<LocalChecklist[]> {
-  const database = getDatabase();
-  const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM checklists ORDER BY name"
-  );
-
-  return results.map((row) => ({
-    id: row.id as string,
-    name: row.name as string,
-    category: row.category as string,
-    standard: row.standard as string | null,
-    itemsJson: row.items_json as string,
-    downloadedAt: row.downloaded_at as string,
-    updatedAt: row.updated_at as string,
-  }));
-}
-
-export async function getChecklistByStandard(standard: string): Promise<LocalChecklist | null> {
+export async function getRoofPlan(reportId: string): Promise<LocalRoofPlan | null> {
   const database = getDatabase();
   const result = await database.getFirstAsync<Record<string, unknown>>(
-    "SELECT * FROM checklists WHERE standard = ?",
-    [standard]
+    "SELECT * FROM roof_plans WHERE report_id = ?",
+    [reportId]
   );
 
   if (!result) return null;
 
   return {
     id: result.id as string,
-    name: result.name as string,
-    category: result.category as string,
-    standard: result.standard as string | null,
-    itemsJson: result.items_json as string,
-    downloadedAt: result.downloaded_at as string,
+    reportId: result.report_id as string,
+    planJson: result.plan_json as string,
+    syncStatus: result.sync_status as LocalRoofPlan["syncStatus"],
+    createdAt: result.created_at as string,
     updatedAt: result.updated_at as string,
+    syncedAt: result.synced_at as string | null,
   };
 }
 
+export async function deleteRoofPlan(reportId: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("DELETE FROM roof_plans WHERE report_id = ?", [reportId]);
+}
+
 // ============================================
-// TEMPLATE OPERATIONS
+// SCHEDULED JOB OPERATIONS
 // ============================================
 
-export async function saveTemplate(template: LocalTemplate): Promise<void> {
+function mapScheduledJobRow(row: Record<string, unknown>): LocalScheduledJob {
+  return {
+    id: row.id as string,
+    status: row.status as LocalScheduledJob["status"],
+    propertyAddress: row.property_address as string,
+    propertyCity: row.property_city as string,
+    propertyRegion: row.property_region as string | null,
+    propertyPostcode: row.property_postcode as string | null,
+    propertyType: row.property_type as LocalScheduledJob["propertyType"],
+    clientName: row.client_name as string,
+    clientEmail: row.client_email as string | null,
+    clientPhone: row.client_phone as string | null,
+    inspectionType: row.inspection_type as LocalScheduledJob["inspectionType"],
+    templateId: row.template_id as string | null,
+    dueDate: row.due_date as string,
+    assignedInspectorId: row.assigned_inspector_id as string,
+    assignedInspectorName: row.assigned_inspector_name as string | null,
+    notes: row.notes as string | null,
+    reportId: row.report_id as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    downloadedAt: row.downloaded_at as string,
+  };
+}
+
+export async function saveScheduledJob(job: LocalScheduledJob): Promise<void> {
   const database = getDatabase();
   await database.runAsync(
-    `INSERT OR REPLACE INTO templates (
-      id, name, description, inspection_type, sections_json, checklists_json, is_default, downloaded_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT OR REPLACE INTO scheduled_jobs (
+      id, status, property_address, property_city, property_region, property_postcode,
+      property_type, client_name, client_email, client_phone, inspection_type, template_id,
+      due_date, assigned_inspector_id, assigned_inspector_name, notes, report_id,
+      created_at, updated_at, downloaded_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
-      template.id,
-      template.name,
-      template.description,
-      template.inspectionType,
-      template.sectionsJson,
-      template.checklistsJson,
-      template.isDefault ? 1 : 0,
-      template.downloadedAt,
+      job.id,
+      job.status,
+      job.propertyAddress,
+      job.propertyCity,
+      job.propertyRegion,
+      job.propertyPostcode,
+      job.propertyType,
+      job.clientName,
+      job.clientEmail,
+      job.clientPhone,
+      job.inspectionType,
+      job.templateId,
+      job.dueDate,
+      job.assignedInspectorId,
+      job.assignedInspectorName,
+      job.notes,
+      job.reportId,
+      job.createdAt,
+      job.updatedAt,
+      job.downloadedAt,
     ]
   );
 }
 
-export async function getAllTemplates(): Promise<LocalTemplate[]> {
+/**
+ * All local jobs, soonest due first
+ */
+export async function getScheduledJobs(): Promise<LocalScheduledJob[]> {
   const database = getDatabase();
-  const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM templates ORDER BY name"
+  const rows = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM scheduled_jobs ORDER BY due_date ASC"
+  );
+  return rows.map(mapScheduledJobRow);
+}
+
+export async function getScheduledJob(id: string): Promise<LocalScheduledJob | null> {
+  const database = getDatabase();
+  const row = await database.getFirstAsync<Record<string, unknown>>(
+    "SELECT * FROM scheduled_jobs WHERE id = ?",
+    [id]
+  );
+  return row ? mapScheduledJobRow(row) : null;
+}
+
+export async function getScheduledJobForReport(reportId: string): Promise<LocalScheduledJob | null> {
+  const database = getDatabase();
+  const row = await database.getFirstAsync<Record<string, unknown>>(
+    "SELECT * FROM scheduled_jobs WHERE report_id = ?",
+    [reportId]
+  );
+  return row ? mapScheduledJobRow(row) : null;
+}
+
+export async function deleteScheduledJob(id: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("DELETE FROM scheduled_jobs WHERE id = ?", [id]);
+}
+
+// ============================================
+// PHOTO CACHE OPERATIONS
+// ============================================
+
+function mapPhotoCacheRow(row: Record<string, unknown>): LocalPhotoCacheEntry {
+  return {
+    photoId: row.photo_id as string,
+    fileUri: row.file_uri as string,
+    fileSize: row.file_size as number,
+    hashVerified: (row.hash_verified as number) === 1,
+    downloadedAt: row.downloaded_at as string,
+    lastAccessedAt: row.last_accessed_at as string,
+  };
+}
+
+export async function savePhotoCacheEntry(entry: LocalPhotoCacheEntry): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT OR REPLACE INTO photo_cache (
+      photo_id, file_uri, file_size, hash_verified, downloaded_at, last_accessed_at
+    ) VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      entry.photoId,
+      entry.fileUri,
+      entry.fileSize,
+      entry.hashVerified ? 1 : 0,
+      entry.downloadedAt,
+      entry.lastAccessedAt,
+    ]
+  );
+}
+
+export async function getPhotoCacheEntry(photoId: string): Promise<LocalPhotoCacheEntry | null> {
+  const database = getDatabase();
+  const row = await database.getFirstAsync<Record<string, unknown>>(
+    "SELECT * FROM photo_cache WHERE photo_id = ?",
+    [photoId]
+  );
+  return row ? mapPhotoCacheRow(row) : null;
+}
+
+/**
+ * All cache entries, least recently used first
+ */
+export async function getAllPhotoCacheEntries(): Promise<LocalPhotoCacheEntry[]> {
+  const database = getDatabase();
+  const rows = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM photo_cache ORDER BY last_accessed_at ASC"
+  );
+  return rows.map(mapPhotoCacheRow);
+}
+
+export async function touchPhotoCacheEntry(photoId: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    "UPDATE photo_cache SET last_accessed_at = ? WHERE photo_id = ?",
+    [new Date().toISOString(), photoId]
+  );
+}
+
+export async function deletePhotoCacheEntry(photoId: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("DELETE FROM photo_cache WHERE photo_id = ?", [photoId]);
+}
+
+// ============================================
+// CHECKLIST OPERATIONS
+// ============================================
+
+export async function saveChecklist(checklist: LocalChecklist): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT OR REPLACE INTO checklists (id, name, category, standard, items_json, downloaded_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      checklist.id,
+      checklist.name,
+      checklist.category,
+      checklist.standard,
+      checklist.itemsJson,
+      checklist.downloadedAt,
+      checklist.updatedAt,
+    ]
+  );
+}
+
+export async function getAllChecklists(): Promise<LocalChecklist[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM checklists ORDER BY name"
+  );
+
+  return results.map((row) => ({
+    id: row.id as string,
+    name: row.name as string,
+    category: row.category as string,
+    standard: row.standard as string | null,
+    itemsJson: row.items_json as string,
+    downloadedAt: row.downloaded_at as string,
+    updatedAt: row.updated_at as string,
+  }));
+}
+
+export async function getChecklistByStandard(standard: string): Promise<LocalChecklist | null> {
+  const database = getDatabase();
+  const result = await database.getFirstAsync<Record<string, unknown>>(
+    "SELECT * FROM checklists WHERE standard = ?",
+    [standard]
+  );
+
+  if (!result) return null;
+
+  return {
+    id: result.id as string,
+    name: result.name as string,
+    category: result.category as string,
+    standard: result.standard as string | null,
+    itemsJson: result.items_json as string,
+    downloadedAt: result.downloaded_at as string,
+    updatedAt: result.updated_at as string,
+  };
+}
+
+// ============================================
+// TEMPLATE OPERATIONS
+// ============================================
+
+export async function saveTemplate(template: LocalTemplate): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT OR REPLACE INTO templates (
+      id, name, description, inspection_type, sections_json, checklists_json, is_default, downloaded_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      template.id,
+      template.name,
+      template.description,
+      template.inspectionType,
+      template.sectionsJson,
+      template.checklistsJson,
+      template.isDefault ? 1 : 0,
+      template.downloadedAt,
+    ]
+  );
+}
+
+export async function getAllTemplates(): Promise<LocalTemplate[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM templates ORDER BY name"
   );
 
   return results.map((row) => ({
@@ -1312,6 +1956,79 @@ export async function getDefaultTemplate(): Promise<LocalTemplate | null> {
   };
 }
 
+// ============================================
+// DEFECT LIBRARY OPERATIONS
+// ============================================
+
+function mapDefectTemplateRow(row: Record<string, unknown>): LocalDefectTemplate {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    elementType: row.element_type as LocalDefectTemplate["elementType"],
+    classification: row.classification as LocalDefectTemplate["classification"],
+    severity: row.severity as LocalDefectTemplate["severity"],
+    title: row.title as string,
+    observation: row.observation as string,
+    analysis: row.analysis as string | null,
+    opinion: row.opinion as string | null,
+    codeReference: row.code_reference as string | null,
+    copReference: row.cop_reference as string | null,
+    recommendation: row.recommendation as string | null,
+    priorityLevel: row.priority_level as LocalDefectTemplate["priorityLevel"],
+    updatedAt: row.updated_at as string,
+    downloadedAt: row.downloaded_at as string,
+  };
+}
+
+export async function saveDefectTemplate(template: LocalDefectTemplate): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT OR REPLACE INTO defect_templates (
+      id, name, element_type, classification, severity, title, observation, analysis, opinion,
+      code_reference, cop_reference, recommendation, priority_level, updated_at, downloaded_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      template.id,
+      template.name,
+      template.elementType,
+      template.classification,
+      template.severity,
+      template.title,
+      template.observation,
+      template.analysis,
+      template.opinion,
+      template.codeReference,
+      template.copReference,
+      template.recommendation,
+      template.priorityLevel,
+      template.updatedAt,
+      template.downloadedAt,
+    ]
+  );
+}
+
+export async function getAllDefectTemplates(): Promise<LocalDefectTemplate[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM defect_templates ORDER BY name"
+  );
+  return results.map(mapDefectTemplateRow);
+}
+
+export async function getDefectTemplate(id: string): Promise<LocalDefectTemplate | null> {
+  const database = getDatabase();
+  const result = await database.getFirstAsync<Record<string, unknown>>(
+    "SELECT * FROM defect_templates WHERE id = ?",
+    [id]
+  );
+  return result ? mapDefectTemplateRow(result) : null;
+}
+
+export async function deleteDefectTemplate(id: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("DELETE FROM defect_templates WHERE id = ?", [id]);
+}
+
 // ============================================
 // SYNC QUEUE OPERATIONS
 // ============================================
@@ -1373,13 +2090,8 @@ export async function addToSyncQueue(
   }
 }
 
-export async function getSyncQueue(): Promise<LocalSyncQueue[]> {
-  const database = getDatabase();
-  const results = await database.getAllAsync<Record<string, unknown>>(
-    "SELECT * FROM sync_queue ORDER BY created_at ASC"
-  );
-
-  return results.map((row) => ({
+function mapSyncQueueRow(row: Record<string, unknown>): LocalSyncQueue {
+  return {
     id: row.id as number,
     entityType: row.entity_type as string,
     entityId: row.entity_id as string,
@@ -1389,7 +2101,17 @@ export async function getSyncQueue(): Promise<LocalSyncQueue[]> {
     attemptCount: row.attempt_count as number,
     lastError: row.last_error as string | null,
     idempotencyKey: row.idempotency_key as string,
-  }));
+    nextAttemptAt: (row.next_attempt_at as string | null) ?? null,
+  };
+}
+
+export async function getSyncQueue(): Promise<LocalSyncQueue[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM sync_queue ORDER BY created_at ASC"
+  );
+
+  return results.map(mapSyncQueueRow);
 }
 
 export async function removeSyncQueueItem(id: number): Promise<void> {
@@ -1397,119 +2119,611 @@ export async function removeSyncQueueItem(id: number): Promise<void> {
   await database.runAsync("DELETE FROM sync_queue WHERE id = ?", [id]);
 }
 
-export async function updateSyncQueueAttempt(id: number, error: string | null): Promise<void> {
+export async function updateSyncQueueAttempt(id: number, error: string | null): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    "UPDATE sync_queue SET attempt_count = attempt_count + 1, last_error = ? WHERE id = ?",
+    [error, id]
+  );
+}
+
+/**
+ * Replace a queue item's payload, e.g. to move a queued action onto a
+ * corrected local state after an earlier action was refused
+ */
+export async function updateSyncQueuePayload(id: number, payload: Record<string, unknown>): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("UPDATE sync_queue SET payload_json = ? WHERE id = ?", [JSON.stringify(payload), id]);
+}
+
+export async function getSyncQueueCount(): Promise<number> {
+  const database = getDatabase();
+  const result = await database.getFirstAsync<{ count: number }>(
+    "SELECT COUNT(*) as count FROM sync_queue"
+  );
+  return result?.count ?? 0;
+}
+
+export async function clearSyncQueue(): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("DELETE FROM sync_queue");
+}
+
+/**
+ * Clear the sync queue except for operations that are still processed
+ *
+ * Bootstrap replaces local data with the server's, so queued report
+ * changes are obsolete — but deletions and admin user actions are not
+ * covered by the download and must survive until acknowledged.
+ *
+ * @param keepOperations - Operations to keep (a ":permanently_failed" suffix is ignored)
+ */
+export async function clearUnhandledSyncQueueItems(keepOperations: string[]): Promise<void> {
+  const database = getDatabase();
+  if (keepOperations.length === 0) {
+    await clearSyncQueue();
+    return;
+  }
+  const placeholders = keepOperations.map(() => "?").join(", ");
+  await database.runAsync(
+    `DELETE FROM sync_queue
+     WHERE REPLACE(operation, ':' || ?, '') NOT IN (${placeholders})`,
+    [PERMANENTLY_FAILED_STATUS, ...keepOperations]
+  );
+}
+
+/**
+ * Get sync queue items that are still eligible for retry
+ * Excludes items that have exceeded MAX_SYNC_RETRY_ATTEMPTS, are permanently
+ * failed, or have been deferred past now
+ */
+export async function getRetryableItems(): Promise<LocalSyncQueue[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    `SELECT * FROM sync_queue
+     WHERE attempt_count < ?
+       AND operation NOT LIKE ?
+       AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+     ORDER BY created_at ASC`,
+    [MAX_SYNC_RETRY_ATTEMPTS, '%:' + PERMANENTLY_FAILED_STATUS, new Date().toISOString()]
+  );
+
+  return results.map(mapSyncQueueRow);
+}
+
+/**
+ * Mark a sync queue item as permanently failed (exceeded max retries)
+ * These items will need manual intervention to retry
+ */
+export async function markPermanentlyFailed(id: number, finalError: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `UPDATE sync_queue
+     SET last_error = ?,
+         operation = operation || ':' || ?
+     WHERE id = ?`,
+    [finalError, PERMANENTLY_FAILED_STATUS, id]
+  );
+}
+
+/**
+ * Get count of permanently failed sync items
+ */
+export async function getFailedSyncCount(): Promise<number> {
+  const database = getDatabase();
+  const result = await database.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM sync_queue
+     WHERE attempt_count >= ? OR operation LIKE ?`,
+    [MAX_SYNC_RETRY_ATTEMPTS, '%:' + PERMANENTLY_FAILED_STATUS]
+  );
+  return result?.count ?? 0;
+}
+
+/**
+ * Reset permanently failed items for manual retry
+ * Called when user explicitly requests retry
+ */
+export async function resetFailedItems(): Promise<number> {
+  const database = getDatabase();
+  const result = await database.runAsync(
+    `UPDATE sync_queue
+     SET attempt_count = 0,
+         last_error = NULL,
+         operation = REPLACE(operation, ':' || ?, '')
+     WHERE attempt_count >= ? OR operation LIKE ?`,
+    [PERMANENTLY_FAILED_STATUS, MAX_SYNC_RETRY_ATTEMPTS, '%:' + PERMANENTLY_FAILED_STATUS]
+  );
+  return result.changes;
+}
+
+// ============================================
+// SYNC QUEUE INSPECTOR
+// ============================================
+
+export async function getSyncQueueItem(id: number): Promise<LocalSyncQueue | null> {
+  const database = getDatabase();
+  const row = await database.getFirstAsync<Record<string, unknown>>(
+    "SELECT * FROM sync_queue WHERE id = ?",
+    [id]
+  );
+  return row ? mapSyncQueueRow(row) : null;
+}
+
+/**
+ * Make one queue item eligible again: clears attempts, error, deferral and
+ * any permanently failed marker
+ */
+export async function resetSyncQueueItem(id: number): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `UPDATE sync_queue
+     SET attempt_count = 0,
+         last_error = NULL,
+         next_attempt_at = NULL,
+         operation = REPLACE(operation, ':' || ?, '')
+     WHERE id = ?`,
+    [PERMANENTLY_FAILED_STATUS, id]
+  );
+}
+
+/**
+ * Hold a queue item back until the given time
+ */
+export async function deferSyncQueueItem(id: number, until: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync("UPDATE sync_queue SET next_attempt_at = ? WHERE id = ?", [until, id]);
+}
+
+/**
+ * Send a queue item again from the back of the queue under a new
+ * idempotency key, for when the server has recorded the old key against
+ * a request that never completed
+ */
+export async function requeueSyncQueueItem(id: number, idempotencyKey: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `UPDATE sync_queue
+     SET idempotency_key = ?,
+         created_at = ?,
+         attempt_count = 0,
+         last_error = NULL,
+         next_attempt_at = NULL,
+         operation = REPLACE(operation, ':' || ?, '')
+     WHERE id = ?`,
+    [idempotencyKey, new Date().toISOString(), PERMANENTLY_FAILED_STATUS, id]
+  );
+}
+
+/**
+ * Photos not yet uploaded, including failed uploads that sync skips until
+ * they are retried
+ */
+export async function getUnsyncedPhotos(): Promise<LocalPhoto[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM photos WHERE sync_status IN ('captured', 'processing', 'pending', 'error') AND uploaded_url IS NULL AND deleted_at IS NULL ORDER BY created_at ASC"
+  );
+  return results.map(mapPhotoRow);
+}
+
+function mapMediaSyncStateRow(row: Record<string, unknown>): LocalMediaSyncState {
+  return {
+    entityType: row.entity_type as LocalMediaSyncState["entityType"],
+    entityId: row.entity_id as string,
+    attemptCount: row.attempt_count as number,
+    deferredUntil: (row.deferred_until as string | null) ?? null,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * Count failed uploads and forget them once the file is synced
+ */
+async function recordMediaSyncOutcome(
+  entityType: LocalMediaSyncState["entityType"],
+  entityId: string,
+  status: string
+): Promise<void> {
+  if (status === "synced") {
+    await clearMediaSyncState(entityType, entityId);
+  } else if (status === "error") {
+    const database = getDatabase();
+    await database.runAsync(
+      `INSERT INTO media_sync_state (entity_type, entity_id, attempt_count, updated_at)
+       VALUES (?, ?, 1, ?)
+       ON CONFLICT(entity_type, entity_id) DO UPDATE SET
+         attempt_count = attempt_count + 1,
+         updated_at = excluded.updated_at`,
+      [entityType, entityId, new Date().toISOString()]
+    );
+  }
+}
+
+export async function getMediaSyncStates(): Promise<LocalMediaSyncState[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>("SELECT * FROM media_sync_state");
+  return results.map(mapMediaSyncStateRow);
+}
+
+/**
+ * Hold a media upload back until the given time
+ */
+export async function deferMediaSync(
+  entityType: LocalMediaSyncState["entityType"],
+  entityId: string,
+  until: string
+): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT INTO media_sync_state (entity_type, entity_id, attempt_count, deferred_until, updated_at)
+     VALUES (?, ?, 0, ?, ?)
+     ON CONFLICT(entity_type, entity_id) DO UPDATE SET
+       deferred_until = excluded.deferred_until,
+       updated_at = excluded.updated_at`,
+    [entityType, entityId, until, new Date().toISOString()]
+  );
+}
+
+export async function clearMediaSyncState(
+  entityType: LocalMediaSyncState["entityType"],
+  entityId: string
+): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    "DELETE FROM media_sync_state WHERE entity_type = ? AND entity_id = ?",
+    [entityType, entityId]
+  );
+}
+
+/**
+ * IDs of media whose upload is deferred past now
+ */
+export async function getDeferredMediaIds(entityType: LocalMediaSyncState["entityType"]): Promise<Set<string>> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<{ entity_id: string }>(
+    "SELECT entity_id FROM media_sync_state WHERE entity_type = ? AND deferred_until > ?",
+    [entityType, new Date().toISOString()]
+  );
+  return new Set(results.map((row) => row.entity_id));
+}
+
+// ============================================
+// DELETION TOMBSTONES
+// ============================================
+
+/**
+ * Queue a local deletion for the server
+ *
+ * The row itself is already gone; this "delete" queue row is the tombstone
+ * until the server acknowledges it. It also stops a later download from
+ * bringing the entity back. Marks the owning report for sync.
+ */
+export async function queueDeletion(
+  entityType: TombstoneEntityType,
+  entityId: string,
+  reportId: string | null,
+  originalHash?: string | null
+): Promise<boolean> {
+  const payload: DeletionQueuePayload = {
+    reportId,
+    deletedAt: new Date().toISOString(),
+    originalHash: originalHash ?? null,
+  };
+  const added = await addToSyncQueue(
+    entityType,
+    entityId,
+    "delete",
+    payload as unknown as Record<string, unknown>,
+    deletionIdempotencyKey(entityType, entityId)
+  );
+  if (reportId && entityType !== "report") {
+    await markReportDirty(reportId);
+  }
+  return added;
+}
+
+/**
+ * Deletions still to be sent, optionally for one report
+ */
+export async function getPendingDeletions(reportId?: string): Promise<LocalSyncQueue[]> {
+  const items = await getRetryableItems();
+  return items.filter((item) => {
+    if (item.operation !== "delete") return false;
+    if (reportId === undefined) return true;
+    return (JSON.parse(item.payloadJson) as DeletionQueuePayload).reportId === reportId;
+  });
+}
+
+/**
+ * Entities with an unacknowledged local deletion, as "entityType:entityId"
+ *
+ * Includes permanently failed deletions so a download cannot resurrect
+ * them while they wait for a manual retry.
+ */
+export async function getDeletedEntityKeys(): Promise<Set<string>> {
+  const database = getDatabase();
+  const rows = await database.getAllAsync<{ entity_type: string; entity_id: string }>(
+    "SELECT entity_type, entity_id FROM sync_queue WHERE operation LIKE 'delete%'"
+  );
+  return new Set(rows.map((row) => `${row.entity_type}:${row.entity_id}`));
+}
+
+type TombstonedTable = "reports" | "roof_elements" | "defects" | "photos" | "videos" | "voice_notes";
+
+const EVIDENCE_TABLES = [
+  { entityType: "photo", table: "photos", purge: deletePhoto },
+  { entityType: "video", table: "videos", purge: deleteVideo },
+  { entityType: "voice_note", table: "voice_notes", purge: deleteVoiceNote },
+] as const;
+
+const PURGEABLE_TABLES: Partial<Record<TombstoneEntityType, TombstonedTable>> = {
+  report: "reports",
+  element: "roof_elements",
+  defect: "defects",
+  photo: "photos",
+  video: "videos",
+  voiceNote: "voice_notes",
+};
+
+/**
+ * Hide a deleted row from every read
+ *
+ * The row and its files stay on the device until the server acknowledges
+ * the deletion; purgeDeletedEntity then removes them. The save helpers
+ * carry deleted_at over, so re-saving the row cannot undo the deletion.
+ */
+export async function markDeleted(table: TombstonedTable, id: string): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `UPDATE ${table} SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL`,
+    [new Date().toISOString(), id]
+  );
+}
+
+/**
+ * Hide a deleted report and every row that belongs to it
+ */
+export async function markReportGraphDeleted(reportId: string): Promise<void> {
+  const database = getDatabase();
+  const deletedAt = new Date().toISOString();
+  await database.withTransactionAsync(async () => {
+    for (const table of ["photos", "defects", "roof_elements", "voice_notes", "videos"]) {
+      await database.runAsync(
+        `UPDATE ${table} SET deleted_at = ? WHERE report_id = ? AND deleted_at IS NULL`,
+        [deletedAt, reportId]
+      );
+    }
+    // A job started from this report goes back on the agenda
+    await database.runAsync(
+      "UPDATE scheduled_jobs SET report_id = NULL, status = 'SCHEDULED' WHERE report_id = ? AND status = 'IN_PROGRESS'",
+      [reportId]
+    );
+    await database.runAsync("UPDATE reports SET deleted_at = ? WHERE id = ?", [deletedAt, reportId]);
+  });
+}
+
+/**
+ * Photos, videos and voice notes of a report that are not already deleted
+ */
+export async function getReportEvidenceItems(reportId: string): Promise<Array<{
+  entityType: "photo" | "video" | "voice_note";
+  entityId: string;
+  originalHash: string | null;
+}>> {
+  const database = getDatabase();
+  const items = [];
+  for (const { entityType, table } of EVIDENCE_TABLES) {
+    const rows = await database.getAllAsync<{ id: string; original_hash: string | null }>(
+      `SELECT id, original_hash FROM ${table} WHERE report_id = ? AND deleted_at IS NULL`,
+      [reportId]
+    );
+    items.push(...rows.map((row) => ({ entityType, entityId: row.id, originalHash: row.original_hash })));
+  }
+  return items;
+}
+
+/**
+ * Remove a deleted row and its files once the server has acknowledged the
+ * deletion. Rows that were not deleted on this device are left alone.
+ */
+export async function purgeDeletedEntity(entityType: TombstoneEntityType, entityId: string): Promise<void> {
+  const table = PURGEABLE_TABLES[entityType];
+  if (!table) return;
+
+  const database = getDatabase();
+  const row = await database.getFirstAsync<{ deleted_at: string | null }>(
+    `SELECT deleted_at FROM ${table} WHERE id = ?`,
+    [entityId]
+  );
+  if (!row?.deleted_at) return;
+
+  switch (entityType) {
+    case "report": {
+      // Per-item deletes also remove the files
+      for (const { table: evidenceTable, purge } of EVIDENCE_TABLES) {
+        const items = await database.getAllAsync<{ id: string }>(
+          `SELECT id FROM ${evidenceTable} WHERE report_id = ?`,
+          [entityId]
+        );
+        for (const item of items) {
+          await purge(item.id);
+        }
+      }
+      await deleteReportGraph(entityId);
+      break;
+    }
+    case "element":
+      await deleteRoofElement(entityId);
+      break;
+    case "defect":
+      await deleteDefect(entityId);
+      break;
+    case "photo":
+      await deletePhoto(entityId);
+      break;
+    case "video":
+      await deleteVideo(entityId);
+      break;
+    case "voiceNote":
+      await deleteVoiceNote(entityId);
+      break;
+  }
+}
+
+// ============================================
+// SYNC MERGE OPERATIONS
+// ============================================
+
+/**
+ * Store the last version of an entity that both device and server agreed on
+ */
+export async function saveSyncBaseVersion(
+  entityType: MergeEntityType,
+  entityId: string,
+  reportId: string,
+  snapshot: Record<string, unknown>
+): Promise<void> {
   const database = getDatabase();
   await database.runAsync(
-    "UPDATE sync_queue SET attempt_count = attempt_count + 1, last_error = ? WHERE id = ?",
-    [error, id]
+    `INSERT OR REPLACE INTO sync_base_versions (
+      entity_type, entity_id, report_id, snapshot_json, captured_at
+    ) VALUES (?, ?, ?, ?, ?)`,
+    [entityType, entityId, reportId, JSON.stringify(snapshot), new Date().toISOString()]
   );
 }
 
-export async function getSyncQueueCount(): Promise<number> {
+export async function getSyncBaseVersion(
+  entityType: MergeEntityType,
+  entityId: string
+): Promise<Record<string, unknown> | null> {
   const database = getDatabase();
-  const result = await database.getFirstAsync<{ count: number }>(
-    "SELECT COUNT(*) as count FROM sync_queue"
+  const result = await database.getFirstAsync<{ snapshot_json: string }>(
+    "SELECT snapshot_json FROM sync_base_versions WHERE entity_type = ? AND entity_id = ?",
+    [entityType, entityId]
   );
-  return result?.count ?? 0;
-}
 
-export async function clearSyncQueue(): Promise<void> {
-  const database = getDatabase();
-  await database.runAsync("DELETE FROM sync_queue");
+  return result ? (JSON.parse(result.snapshot_json) as Record<string, unknown>) : null;
 }
 
-/**
- * Get sync queue items that are still eligible for retry
- * Excludes items that have exceeded MAX_SYNC_RETRY_ATTEMPTS or are permanently failed
- */
-export async function getRetryableItems(): Promise<LocalSyncQueue[]> {
+export async function saveSyncConflict(conflict: SyncConflict): Promise<void> {
   const database = getDatabase();
-  const results = await database.getAllAsync<Record<string, unknown>>(
-    `SELECT * FROM sync_queue
-     WHERE attempt_count < ?
-       AND operation NOT LIKE ?
-     ORDER BY created_at ASC`,
-    [MAX_SYNC_RETRY_ATTEMPTS, '%:' + PERMANENTLY_FAILED_STATUS]
+  await database.runAsync(
+    `INSERT OR REPLACE INTO sync_conflicts (
+      id, report_id, entity_type, entity_id, conflict_json, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      conflict.id,
+      conflict.reportId,
+      conflict.entityType,
+      conflict.entityId,
+      JSON.stringify(conflict),
+      new Date().toISOString(),
+    ]
   );
-
-  return results.map((row) => ({
-    id: row.id as number,
-    entityType: row.entity_type as string,
-    entityId: row.entity_id as string,
-    operation: row.operation as string,
-    payloadJson: row.payload_json as string,
-    createdAt: row.created_at as string,
-    attemptCount: row.attempt_count as number,
-    lastError: row.last_error as string | null,
-    idempotencyKey: row.idempotency_key as string,
-  }));
 }
 
-/**
- * Mark a sync queue item as permanently failed (exceeded max retries)
- * These items will need manual intervention to retry
- */
-export async function markPermanentlyFailed(id: number, finalError: string): Promise<void> {
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
   const database = getDatabase();
-  await database.runAsync(
-    `UPDATE sync_queue
-     SET last_error = ?,
-         operation = operation || ':' || ?
-     WHERE id = ?`,
-    [finalError, PERMANENTLY_FAILED_STATUS, id]
+  const results = await database.getAllAsync<{ conflict_json: string }>(
+    "SELECT conflict_json FROM sync_conflicts ORDER BY created_at ASC"
   );
+
+  return results.map((row) => JSON.parse(row.conflict_json) as SyncConflict);
 }
 
-/**
- * Get count of permanently failed sync items
- */
-export async function getFailedSyncCount(): Promise<number> {
+export async function getSyncConflict(id: string): Promise<SyncConflict | null> {
   const database = getDatabase();
-  const result = await database.getFirstAsync<{ count: number }>(
-    `SELECT COUNT(*) as count FROM sync_queue
-     WHERE attempt_count >= ? OR operation LIKE ?`,
-    [MAX_SYNC_RETRY_ATTEMPTS, '%:' + PERMANENTLY_FAILED_STATUS]
+  const result = await database.getFirstAsync<{ conflict_json: string }>(
+    "SELECT conflict_json FROM sync_conflicts WHERE id = ?",
+    [id]
   );
-  return result?.count ?? 0;
+
+  return result ? (JSON.parse(result.conflict_json) as SyncConflict) : null;
 }
 
-/**
- * Reset permanently failed items for manual retry
- * Called when user explicitly requests retry
- */
-export async function resetFailedItems(): Promise<number> {
+export async function deleteSyncConflict(id: string): Promise<void> {
   const database = getDatabase();
-  const result = await database.runAsync(
-    `UPDATE sync_queue
-     SET attempt_count = 0,
-         last_error = NULL,
-         operation = REPLACE(operation, ':' || ?, '')
-     WHERE attempt_count >= ? OR operation LIKE ?`,
-    [PERMANENTLY_FAILED_STATUS, MAX_SYNC_RETRY_ATTEMPTS, '%:' + PERMANENTLY_FAILED_STATUS]
-  );
-  return result.changes;
+  await database.runAsync("DELETE FROM sync_conflicts WHERE id = ?", [id]);
 }
 
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
 
+/**
+ * Delete every row of local data
+ *
+ * Includes evidence media rows and the audit log, so unsynced custody
+ * events are lost — push them first (used by remote wipe).
+ */
 export async function clearAllData(): Promise<void> {
   const database = getDatabase();
   await database.execAsync(`
     DELETE FROM sync_queue;
+    DELETE FROM media_sync_state;
+    DELETE FROM sync_base_versions;
+    DELETE FROM sync_conflicts;
     DELETE FROM photos;
+    DELETE FROM videos;
+    DELETE FROM voice_notes;
+    DELETE FROM audit_log;
     DELETE FROM defects;
     DELETE FROM roof_elements;
     DELETE FROM compliance_assessments;
+    DELETE FROM roof_plans;
+    DELETE FROM photo_cache;
     DELETE FROM reports;
     DELETE FROM checklists;
     DELETE FROM templates;
+    DELETE FROM defect_templates;
+    DELETE FROM managed_users;
+    DELETE FROM scheduled_jobs;
     DELETE FROM users;
     UPDATE sync_state SET last_bootstrap_at = NULL, last_upload_at = NULL WHERE id = 1;
   `);
 }
 
+/**
+ * Every evidence item on the device, with whether the server has it
+ */
+export async function getLocalEvidenceItems(): Promise<Array<{
+  entityType: "photo" | "video" | "voice_note";
+  entityId: string;
+  originalHash: string | null;
+  synced: boolean;
+}>> {
+  const database = getDatabase();
+  const rows = await database.getAllAsync<{
+    entity_type: "photo" | "video" | "voice_note";
+    id: string;
+    original_hash: string | null;
+    sync_status: string;
+  }>(`
+    SELECT 'photo' AS entity_type, id, original_hash, sync_status FROM photos
+    UNION ALL
+    SELECT 'video' AS entity_type, id, original_hash, sync_status FROM videos
+    UNION ALL
+    SELECT 'voice_note' AS entity_type, id, original_hash, sync_status FROM voice_notes
+  `);
+  return rows.map((row) => ({
+    entityType: row.entity_type,
+    entityId: row.id,
+    originalHash: row.original_hash,
+    synced: row.sync_status === "synced" || row.sync_status === "uploaded",
+  }));
+}
+
+/**
+ * Close and delete the database file and its pre-migration backups
+ *
+ * The next initializeDatabase() creates an empty database.
+ */
+export async function deleteDatabase(): Promise<void> {
+  await closeDatabase();
+  await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+  await FileSystem.deleteAsync(`${DATABASE_DIRECTORY}backups/`, { idempotent: true });
+}
+
 export async function getDatabaseStats(): Promise<{
   reports: number;
   photos: number;
@@ -1521,10 +2735,10 @@ export async function getDatabaseStats(): Promise<{
   const database = getDatabase();
 
   const [reports, photos, defects, elements, pendingSync, checklists] = await Promise.all([
-    database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM reports"),
-    database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM photos"),
-    database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM defects"),
-    database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM roof_elements"),
+    database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM reports WHERE deleted_at IS NULL"),
+    database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM photos WHERE deleted_at IS NULL"),
+    database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM defects WHERE deleted_at IS NULL"),
+    database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM roof_elements WHERE deleted_at IS NULL"),
     database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM sync_queue"),
     database.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM checklists"),
   ]);
@@ -1610,13 +2824,55 @@ export async function updateReportStatus(
   }
 }
 
+/**
+ * Local sync state of a row, used to decide whether server changes may overwrite it
+ *
+ * Photos have no updated_at; their capture time stands in.
+ */
+export async function getEntitySyncState(
+  table:
+    | "reports"
+    | "roof_elements"
+    | "defects"
+    | "photos"
+    | "videos"
+    | "voice_notes"
+    | "compliance_assessments"
+    | "roof_plans",
+  id: string
+): Promise<{ syncStatus: string; updatedAt: string } | null> {
+  const database = getDatabase();
+  // Media rows are never edited after capture
+  const updatedColumn = ["photos", "videos", "voice_notes"].includes(table) ? "created_at" : "updated_at";
+  const row = await database.getFirstAsync<{ sync_status: string; updated_at: string }>(
+    `SELECT sync_status, ${updatedColumn} AS updated_at FROM ${table} WHERE id = ?`,
+    [id]
+  );
+  return row ? { syncStatus: row.sync_status, updatedAt: row.updated_at } : null;
+}
+
+/**
+ * Find the report a roof element, defect or photo belongs to
+ */
+export async function getOwningReportId(
+  table: "roof_elements" | "defects" | "photos",
+  id: string
+): Promise<string | null> {
+  const database = getDatabase();
+  const row = await database.getFirstAsync<{ report_id: string }>(
+    `SELECT report_id FROM ${table} WHERE id = ?`,
+    [id]
+  );
+  return row?.report_id ?? null;
+}
+
 /**
  * Get reports pending review
  */
 export async function getReportsPendingReview(): Promise<LocalReport[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    `SELECT * FROM reports WHERE status = 'PENDING_REVIEW' ORDER BY submitted_at ASC`
+    `SELECT * FROM reports WHERE status = 'PENDING_REVIEW' AND deleted_at IS NULL ORDER BY submitted_at ASC`
   );
   return results.map(mapReportRow);
 }
@@ -1627,7 +2883,7 @@ export async function getReportsPendingReview(): Promise<LocalReport[]> {
 export async function getReportsByStatus(status: string): Promise<LocalReport[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    `SELECT * FROM reports WHERE status = ? ORDER BY updated_at DESC`,
+    `SELECT * FROM reports WHERE status = ? AND deleted_at IS NULL ORDER BY updated_at DESC`,
     [status]
   );
   return results.map(mapReportRow);
@@ -1639,7 +2895,7 @@ export async function getReportsByStatus(status: string): Promise<LocalReport[]>
 export async function getApprovedReports(): Promise<LocalReport[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    `SELECT * FROM reports WHERE status = 'APPROVED' ORDER BY approved_at DESC`
+    `SELECT * FROM reports WHERE status = 'APPROVED' AND deleted_at IS NULL ORDER BY approved_at DESC`
   );
   return results.map(mapReportRow);
 }
@@ -1650,7 +2906,7 @@ export async function getApprovedReports(): Promise<LocalReport[]> {
 export async function getFinalisedReports(): Promise<LocalReport[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
-    `SELECT * FROM reports WHERE status = 'FINALISED' ORDER BY updated_at DESC`
+    `SELECT * FROM reports WHERE status = 'FINALISED' AND deleted_at IS NULL ORDER BY updated_at DESC`
   );
   return results.map(mapReportRow);
 }
@@ -1663,9 +2919,8 @@ export async function searchReports(query: string): Promise<LocalReport[]> {
   const searchPattern = `%${query}%`;
   const results = await database.getAllAsync<Record<string, unknown>>(
     `SELECT * FROM reports
-     WHERE property_address LIKE ?
-        OR client_name LIKE ?
-        OR report_number LIKE ?
+     WHERE (property_address LIKE ? OR client_name LIKE ? OR report_number LIKE ?)
+       AND deleted_at IS NULL
      ORDER BY updated_at DESC
      LIMIT 50`,
     [searchPattern, searchPattern, searchPattern]
@@ -1673,13 +2928,28 @@ export async function searchReports(query: string): Promise<LocalReport[]> {
   return results.map(mapReportRow);
 }
 
+/**
+ * Ranked full-text search across reports, defects, elements, captions,
+ * transcripts and compliance notes
+ */
+export async function globalSearch(query: string, filters?: SearchFilters): Promise<SearchResult[]> {
+  return searchIndex(getDatabase(), query, filters);
+}
+
+/**
+ * Rebuild the full-text index from scratch
+ */
+export async function rebuildGlobalSearchIndex(): Promise<void> {
+  await rebuildSearchIndex(getDatabase());
+}
+
 /**
  * Get report counts by status
  */
 export async function getReportCountsByStatus(): Promise<Record<string, number>> {
   const database = getDatabase();
   const results = await database.getAllAsync<{ status: string; count: number }>(
-    `SELECT status, COUNT(*) as count FROM reports GROUP BY status`
+    `SELECT status, COUNT(*) as count FROM reports WHERE deleted_at IS NULL GROUP BY status`
   );
 
   const counts: Record<string, number> = {
@@ -1697,6 +2967,67 @@ export async function getReportCountsByStatus(): Promise<Record<string, number>>
   return counts;
 }
 
+// ============================================
+// ANALYTICS OPERATIONS
+// ============================================
+
+/**
+ * Rows for the admin analytics dashboard
+ *
+ * Reports are selected by creation date and review decisions by when
+ * they were made; defects come with their report and element type.
+ */
+export async function getAnalyticsRows(range: AnalyticsDateRange): Promise<Omit<AnalyticsSource, "inspectorNames">> {
+  const database = getDatabase();
+  const from = range.from ?? "0000";
+  const to = range.to ?? "9999";
+
+  const reports = await database.getAllAsync<Record<string, unknown>>(
+    `SELECT id, inspector_id, property_region, created_at, approved_at
+     FROM reports
+     WHERE created_at >= ? AND created_at <= ? AND deleted_at IS NULL`,
+    [from, to]
+  );
+  const defects = await database.getAllAsync<Record<string, unknown>>(
+    `SELECT d.report_id, d.classification, d.severity, e.element_type
+     FROM defects d
+     JOIN reports r ON r.id = d.report_id
+     LEFT JOIN roof_elements e ON e.id = d.roof_element_id
+     WHERE r.created_at >= ? AND r.created_at <= ?
+       AND r.deleted_at IS NULL AND d.deleted_at IS NULL`,
+    [from, to]
+  );
+  const events = await database.getAllAsync<Record<string, unknown>>(
+    `SELECT entity_id, action, created_at
+     FROM audit_log
+     WHERE entity_type = 'report'
+       AND action IN (${REVIEW_DECISION_ACTIONS.map(() => "?").join(", ")})
+       AND created_at >= ? AND created_at <= ?`,
+    [...REVIEW_DECISION_ACTIONS, from, to]
+  );
+
+  return {
+    reports: reports.map((row) => ({
+      id: row.id as string,
+      inspectorId: row.inspector_id as string | null,
+      propertyRegion: row.property_region as string | null,
+      createdAt: row.created_at as string,
+      approvedAt: row.approved_at as string | null,
+    })),
+    defects: defects.map((row) => ({
+      reportId: row.report_id as string,
+      classification: row.classification as string,
+      severity: row.severity as string,
+      elementType: row.element_type as string | null,
+    })),
+    reviewEvents: events.map((row) => ({
+      reportId: row.entity_id as string,
+      action: row.action as string,
+      createdAt: row.created_at as string,
+    })),
+  };
+}
+
 // ============================================
 // AUDIT LOG OPERATIONS
 // ============================================
@@ -1723,6 +3054,92 @@ export async function addAuditLog(
   );
 }
 
+function mapAuditLogRow(row: Record<string, unknown>): LocalAuditLog {
+  return {
+    id: row.id as string,
+    action: row.action as string,
+    entityType: row.entity_type as string,
+    entityId: row.entity_id as string,
+    userId: row.user_id as string,
+    userName: row.user_name as string,
+    details: row.details as string | null,
+    createdAt: row.created_at as string,
+    syncedToServer: (row.synced_to_server as number) === 1,
+    chainSequence: (row.chain_sequence as number | null) ?? null,
+    prevHash: (row.prev_hash as string | null) ?? null,
+    eventHash: (row.event_hash as string | null) ?? null,
+    chainRoot: (row.chain_root as string | null) ?? null,
+  };
+}
+
+/**
+ * Append a hash-chained custody entry to the audit log
+ * The caller computes chainSequence/prevHash/eventHash/chainRoot; this only persists.
+ * The UNIQUE (entity_type, entity_id, chain_sequence) index rejects forked chains.
+ */
+export async function insertChainedAuditLog(entry: Omit<LocalAuditLog, "syncedToServer">): Promise<void> {
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT INTO audit_log (
+      id, action, entity_type, entity_id, user_id, user_name, details, created_at,
+      chain_sequence, prev_hash, event_hash, chain_root
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entry.id,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.userId,
+      entry.userName,
+      entry.details,
+      entry.createdAt,
+      entry.chainSequence,
+      entry.prevHash,
+      entry.eventHash,
+      entry.chainRoot,
+    ]
+  );
+}
+
+/**
+ * Get the most recent hash-chained entry for an entity (the chain head)
+ */
+export async function getCustodyChainHead(
+  entityType: string,
+  entityId: string
+): Promise<LocalAuditLog | null> {
+  const database = getDatabase();
+  const result = await database.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM audit_log
+     WHERE entity_type = ? AND entity_id = ? AND chain_sequence IS NOT NULL
+     ORDER BY chain_sequence DESC
+     LIMIT 1`,
+    [entityType, entityId]
+  );
+
+  if (!result) return null;
+  return mapAuditLogRow(result);
+}
+
+/**
+ * Get every audit entry for an entity in chain order
+ * Chained entries come first by sequence; legacy (unchained) entries follow by time.
+ */
+export async function getAuditLogChainForEntity(
+  entityType: string,
+  entityId: string
+): Promise<LocalAuditLog[]> {
+  const database = getDatabase();
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    `SELECT * FROM audit_log
+     WHERE entity_type = ? AND entity_id = ?
+     ORDER BY chain_sequence IS NULL, chain_sequence ASC, created_at ASC`,
+    [entityType, entityId]
+  );
+
+  return results.map(mapAuditLogRow);
+}
+
 /**
  * Get audit log entries
  */
@@ -1741,17 +3158,7 @@ export async function getAuditLog(entityTypeFilter?: string | null): Promise<Loc
 
   const results = await database.getAllAsync<Record<string, unknown>>(query, params);
 
-  return results.map((row) => ({
-    id: row.id as string,
-    action: row.action as string,
-    entityType: row.entity_type as string,
-    entityId: row.entity_id as string,
-    userId: row.user_id as string,
-    userName: row.user_name as string,
-    details: row.details as string | null,
-    createdAt: row.created_at as string,
-    syncedToServer: (row.synced_to_server as number) === 1,
-  }));
+  return results.map(mapAuditLogRow);
 }
 
 /**
@@ -1768,17 +3175,7 @@ export async function getAuditLogForEntity(
     [entityType, entityId]
   );
 
-  return results.map((row) => ({
-    id: row.id as string,
-    action: row.action as string,
-    entityType: row.entity_type as string,
-    entityId: row.entity_id as string,
-    userId: row.user_id as string,
-    userName: row.user_name as string,
-    details: row.details as string | null,
-    createdAt: row.created_at as string,
-    syncedToServer: (row.synced_to_server as number) === 1,
-  }));
+  return results.map(mapAuditLogRow);
 }
 
 /**
@@ -1793,17 +3190,7 @@ export async function getRecentAuditLogs(limit: number = 50): Promise<LocalAudit
     [limit]
   );
 
-  return results.map((row) => ({
-    id: row.id as string,
-    action: row.action as string,
-    entityType: row.entity_type as string,
-    entityId: row.entity_id as string,
-    userId: row.user_id as string,
-    userName: row.user_name as string,
-    details: row.details as string | null,
-    createdAt: row.created_at as string,
-    syncedToServer: (row.synced_to_server as number) === 1,
-  }));
+  return results.map(mapAuditLogRow);
 }
 
 /**
@@ -1820,17 +3207,24 @@ export async function getAuditLogsByAction(
     [action, limit]
   );
 
-  return results.map((row) => ({
-    id: row.id as string,
-    action: row.action as string,
-    entityType: row.entity_type as string,
-    entityId: row.entity_id as string,
-    userId: row.user_id as string,
-    userName: row.user_name as string,
-    details: row.details as string | null,
-    createdAt: row.created_at as string,
-    syncedToServer: (row.synced_to_server as number) === 1,
-  }));
+  return results.map(mapAuditLogRow);
+}
+
+/**
+ * Get audit log entries whose action starts with a prefix, newest first
+ */
+export async function getAuditLogsByActionPrefix(
+  prefix: string,
+  limit: number = 100
+): Promise<LocalAuditLog[]> {
+  const database = getDatabase();
+
+  const results = await database.getAllAsync<Record<string, unknown>>(
+    "SELECT * FROM audit_log WHERE action LIKE ? ORDER BY created_at DESC LIMIT ?",
+    [`${prefix}%`, limit]
+  );
+
+  return results.map(mapAuditLogRow);
 }
 
 /**
@@ -1863,32 +3257,40 @@ export async function getAuditLogCountForEntity(
 // CUSTODY EVENT SYNC OPERATIONS
 // ============================================
 
+/** Custody events not yet uploaded; plain audit rows from addAuditLog stay local */
+const UNSYNCED_CUSTODY_EVENTS = `synced_to_server = 0
+       AND (chain_sequence IS NOT NULL
+         OR action IN ('CAPTURED', 'HASHED', 'STORED', 'SYNCED', 'VERIFIED', 'ANNOTATED', 'INTEGRITY_CHECK'))`;
+
 /**
  * Get unsynced custody events for batch upload to web server
- * Returns custody events (CAPTURED, HASHED, STORED, SYNCED, etc.) that haven't been synced
+ * Returns every chained event, whatever its action, so the server receives
+ * each chain without sequence gaps. Rows written before chaining are still
+ * picked out by action; plain audit rows (addAuditLog) are never uploaded.
  * Limited to 100 events per batch for performance
  */
 export async function getUnsyncedCustodyEvents(): Promise<LocalAuditLog[]> {
   const database = getDatabase();
   const results = await database.getAllAsync<Record<string, unknown>>(
     `SELECT * FROM audit_log
-     WHERE synced_to_server = 0
-       AND action IN ('CAPTURED', 'HASHED', 'STORED', 'SYNCED', 'VERIFIED', 'ANNOTATED', 'INTEGRITY_CHECK')
-     ORDER BY created_at ASC
+     WHERE ${UNSYNCED_CUSTODY_EVENTS}
+     ORDER BY created_at ASC, chain_sequence ASC
      LIMIT 100`
   );
 
-  return results.map((row) => ({
-    id: row.id as string,
-    action: row.action as string,
-    entityType: row.entity_type as string,
-    entityId: row.entity_id as string,
-    userId: row.user_id as string,
-    userName: row.user_name as string,
-    details: row.details as string | null,
-    createdAt: row.created_at as string,
-    syncedToServer: (row.synced_to_server as number) === 1,
-  }));
+  return results.map(mapAuditLogRow);
+}
+
+/**
+ * Count custody events still waiting for upload
+ * Used by the remote wipe receipt to report events lost with the device
+ */
+export async function countUnsyncedCustodyEvents(): Promise<number> {
+  const database = getDatabase();
+  const result = await database.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM audit_log WHERE ${UNSYNCED_CUSTODY_EVENTS}`
+  );
+  return result?.count ?? 0;
 }
 
 /**
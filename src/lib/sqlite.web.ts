@@ -6,6 +6,8 @@
 
 import type {
   LocalUser,
+  LocalManagedUser,
+  LocalScheduledJob,
   LocalReport,
   LocalPhoto,
   LocalChecklist,
@@ -15,7 +17,12 @@ import type {
   LocalDefect,
   LocalSyncQueue,
   LocalSyncState,
+  LocalVoiceNote,
 } from "../types/database";
+import type { AnalyticsDateRange } from "../types/shared";
+import type { AnalyticsSource } from "./analytics";
+import type { WeatherHistoryEntry } from "./weather";
+import type { SearchFilters, SearchResult } from "./search-index";
 
 // All functions return empty/null on web platform
 console.log("[SQLite Web] Running in web mode - SQLite not available");
@@ -30,6 +37,10 @@ export function getDatabase(): never {
 
 export async function closeDatabase(): Promise<void> {}
 
+export function isDatabaseOpen(): boolean {
+  return false;
+}
+
 // Sync State
 export async function getSyncState(): Promise<LocalSyncState | null> {
   return null;
@@ -51,6 +62,9 @@ export async function getReport(_id: string): Promise<LocalReport | null> {
 export async function getAllReports(): Promise<LocalReport[]> {
   return [];
 }
+export async function getRecentReportWeather(_since: string): Promise<WeatherHistoryEntry[]> {
+  return [];
+}
 export async function getPendingSyncReports(): Promise<LocalReport[]> {
   return [];
 }
@@ -84,6 +98,9 @@ export async function getPhotosForDefect(_defectId: string): Promise<LocalPhoto[
 export async function getPendingUploadPhotos(): Promise<LocalPhoto[]> {
   return [];
 }
+export async function getUnsyncedPhotos(): Promise<LocalPhoto[]> {
+  return [];
+}
 export async function updatePhotoSyncStatus(
   _id: string,
   _status: LocalPhoto["syncStatus"],
@@ -129,13 +146,70 @@ export async function getSyncQueue(): Promise<LocalSyncQueue[]> {
 }
 export async function removeSyncQueueItem(_id: number): Promise<void> {}
 export async function updateSyncQueueAttempt(_id: number, _error: string | null): Promise<void> {}
+export async function updateSyncQueuePayload(_id: number, _payload: Record<string, unknown>): Promise<void> {}
 export async function getSyncQueueCount(): Promise<number> {
   return 0;
 }
 export async function clearSyncQueue(): Promise<void> {}
+export async function clearUnhandledSyncQueueItems(_keepOperations: string[]): Promise<void> {}
+
+// Managed users (admin directory)
+export async function saveManagedUser(_user: LocalManagedUser): Promise<void> {}
+export async function getManagedUsers(): Promise<LocalManagedUser[]> {
+  return [];
+}
+export async function getManagedUser(_id: string): Promise<LocalManagedUser | null> {
+  return null;
+}
+export async function deleteManagedUser(_id: string): Promise<void> {}
+export async function replaceManagedUsers(_users: LocalManagedUser[]): Promise<void> {}
+
+// Scheduled jobs
+export async function saveScheduledJob(_job: LocalScheduledJob): Promise<void> {}
+export async function getScheduledJobs(): Promise<LocalScheduledJob[]> {
+  return [];
+}
+export async function getScheduledJob(_id: string): Promise<LocalScheduledJob | null> {
+  return null;
+}
+export async function getScheduledJobForReport(_reportId: string): Promise<LocalScheduledJob | null> {
+  return null;
+}
+export async function deleteScheduledJob(_id: string): Promise<void> {}
+
+// Voice note transcription
+export async function getDueTranscriptionJobs(_now: string): Promise<LocalVoiceNote[]> {
+  return [];
+}
+export async function resetInterruptedTranscriptions(): Promise<number> {
+  return 0;
+}
+export async function requeueFailedTranscriptions(_noSpeechError: string): Promise<number> {
+  return 0;
+}
+
+// Search
+export async function globalSearch(_query: string, _filters?: SearchFilters): Promise<SearchResult[]> {
+  return [];
+}
+export async function rebuildGlobalSearchIndex(): Promise<void> {}
+
+// Analytics
+export async function getAnalyticsRows(_range: AnalyticsDateRange): Promise<Omit<AnalyticsSource, "inspectorNames">> {
+  return { reports: [], defects: [], reviewEvents: [] };
+}
 
 // Utility
 export async function clearAllData(): Promise<void> {}
+export async function getLocalEvidenceItems(): Promise<Array<{
+  entityType: "photo" | "video" | "voice_note";
+  entityId: string;
+  originalHash: string | null;
+  synced: boolean;
+}>> {
+  return [];
+}
+export async function deleteDatabase(): Promise<void> {}
 export async function getDatabaseStats(): Promise<{
   reports: number;
   photos: number;
@@ -11,8 +11,11 @@ const STORAGE_KEYS = {
   REFRESH_TOKEN: "ranz_refresh_token",
   USER_ID: "ranz_user_id",
   LAST_SYNC_AT: "ranz_last_sync_at",
+  DELTA_CURSOR: "ranz_delta_cursor",
   DEVICE_ID: "ranz_device_id",
   SYNC_SETTINGS: "ranz_sync_settings",
+  FILE_ENCRYPTION_ENABLED: "ranz_file_encryption_enabled",
+  PENDING_DEVICE_DIRECTIVE: "ranz_pending_device_directive",
 } as const;
 
 type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
@@ -108,6 +111,21 @@ export async function getLastSyncAt(): Promise<string | null> {
   return getSecureItem(STORAGE_KEYS.LAST_SYNC_AT);
 }
 
+/**
+ * Opaque cursor from the last applied delta page (GET /api/sync/delta)
+ */
+export async function saveDeltaCursor(cursor: string): Promise<void> {
+  await setSecureItem(STORAGE_KEYS.DELTA_CURSOR, cursor);
+}
+
+export async function getDeltaCursor(): Promise<string | null> {
+  return getSecureItem(STORAGE_KEYS.DELTA_CURSOR);
+}
+
+export async function deleteDeltaCursor(): Promise<void> {
+  await deleteSecureItem(STORAGE_KEYS.DELTA_CURSOR);
+}
+
 // ============================================
 // SYNC SETTINGS
 // ============================================
@@ -152,6 +170,22 @@ export async function resetSyncSettings(): Promise<void> {
   await setSecureItem(STORAGE_KEYS.SYNC_SETTINGS, JSON.stringify(DEFAULT_SYNC_SETTINGS));
 }
 
+// ============================================
+// FILE ENCRYPTION PREFERENCE
+// ============================================
+
+/**
+ * Whether new evidence files and working copies are written encrypted
+ * Off by default; the database is always encrypted
+ */
+export async function getFileEncryptionEnabled(): Promise<boolean> {
+  return (await getSecureItem(STORAGE_KEYS.FILE_ENCRYPTION_ENABLED)) === "true";
+}
+
+export async function saveFileEncryptionEnabled(enabled: boolean): Promise<void> {
+  await setSecureItem(STORAGE_KEYS.FILE_ENCRYPTION_ENABLED, enabled ? "true" : "false");
+}
+
 // ============================================
 // DEVICE ID MANAGEMENT
 // ============================================
@@ -179,6 +213,30 @@ export async function getOrCreateDeviceId(): Promise<string> {
   return deviceId;
 }
 
+export async function deleteDeviceId(): Promise<void> {
+  await deleteSecureItem(STORAGE_KEYS.DEVICE_ID);
+}
+
+// ============================================
+// PENDING DEVICE DIRECTIVE
+// ============================================
+
+/**
+ * A wipe/deprovision directive that has been received but not finished
+ * Stored as JSON so the wipe resumes if the app is killed part way through
+ */
+export async function savePendingDeviceDirective(directiveJson: string): Promise<void> {
+  await setSecureItem(STORAGE_KEYS.PENDING_DEVICE_DIRECTIVE, directiveJson);
+}
+
+export async function getPendingDeviceDirective(): Promise<string | null> {
+  return getSecureItem(STORAGE_KEYS.PENDING_DEVICE_DIRECTIVE);
+}
+
+export async function deletePendingDeviceDirective(): Promise<void> {
+  await deleteSecureItem(STORAGE_KEYS.PENDING_DEVICE_DIRECTIVE);
+}
+
 // ============================================
 // CLEAR ALL AUTH DATA
 // ============================================
@@ -193,6 +251,18 @@ export async function clearAllAuthData(): Promise<void> {
     deleteRefreshToken(),
     deleteUserId(),
     deleteLastSyncAt(),
+    deleteDeltaCursor(),
+  ]);
+}
+
+/**
+ * Forget this device's identity and preferences (device deprovisioning)
+ */
+export async function clearDevicePreferences(): Promise<void> {
+  await Promise.all([
+    deleteDeviceId(),
+    deleteSecureItem(STORAGE_KEYS.SYNC_SETTINGS),
+    deleteSecureItem(STORAGE_KEYS.FILE_ENCRYPTION_ENABLED),
   ]);
 }
 
@@ -0,0 +1,252 @@
+/**
+ * Sync Inspector
+ * One list of everything waiting to sync, and the manual repair actions on it
+ *
+ * Queue rows (deletions, user admin actions) and media files awaiting upload
+ * are shown side by side. Support can retry an item now, defer it, re-queue
+ * a queue row under a fresh idempotency key, or export it. Each action is
+ * recorded in the audit log under SYNC_REPAIR_AUDIT_PREFIX.
+ */
+
+import { isFailedQueueItem, payloadPreview, type SyncQueueFailurePolicy } from "./diagnostics";
+import { redactText, redactValue } from "./log-store";
+import type { LocalMediaSyncState, LocalSyncQueue } from "../types/database";
+import type { PhotoSyncStatus, SyncStatus } from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SyncMediaKind = LocalMediaSyncState["entityType"];
+
+export type SyncInspectorItemKind = "queue" | SyncMediaKind;
+
+export type SyncRepairAction = "retry" | "defer" | "requeue" | "export";
+
+/**
+ * The fields the inspector needs from a photo, video or voice note
+ */
+export interface InspectableMedia {
+  id: string;
+  reportId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  originalHash: string;
+  syncStatus: string;
+  lastSyncError: string | null;
+  createdAt: string;
+}
+
+export interface SyncInspectorItem {
+  /** Unique across kinds, for list keys and selection */
+  key: string;
+  kind: SyncInspectorItemKind;
+  /** Queue row id or media id */
+  id: string;
+  entityType: string;
+  entityId: string;
+  reportId: string | null;
+  label: string;
+  /** Queue operation or media sync status */
+  status: string;
+  attemptCount: number;
+  lastError: string | null;
+  idempotencyKey: string | null;
+  payloadPreview: string;
+  createdAt: string;
+  deferredUntil: string | null;
+  failed: boolean;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const SYNC_REPAIR_AUDIT_PREFIX = "SYNC_ITEM_";
+
+/**
+ * Audit entity type for repairs. Media repairs are not custody events, so
+ * they stay out of the evidence item's chain; the item is in the details.
+ */
+export const SYNC_REPAIR_AUDIT_ENTITY_TYPE = "sync_repair";
+
+export const SYNC_REPAIR_AUDIT_ACTIONS: Record<SyncRepairAction, string> = {
+  retry: "SYNC_ITEM_RETRIED",
+  defer: "SYNC_ITEM_DEFERRED",
+  requeue: "SYNC_ITEM_REQUEUED",
+  export: "SYNC_ITEM_EXPORTED",
+};
+
+export const DEFER_OPTIONS: { label: string; hours: number }[] = [
+  { label: "1 hour", hours: 1 },
+  { label: "4 hours", hours: 4 },
+  { label: "1 day", hours: 24 },
+];
+
+/** Status a media file is reset to so the next sync picks it up again */
+export const MEDIA_RETRY_STATUS: { photo: PhotoSyncStatus; video: SyncStatus; voice_note: SyncStatus } = {
+  photo: "captured",
+  video: "pending",
+  voice_note: "draft",
+};
+
+export const SYNC_INSPECTOR_KIND_LABELS: Record<SyncInspectorItemKind, string> = {
+  queue: "Queue",
+  photo: "Photo",
+  video: "Video",
+  voice_note: "Voice note",
+};
+
+export const SYNC_REPAIR_ACTION_LABELS: Record<SyncRepairAction, string> = {
+  retry: "Retry",
+  defer: "Defer",
+  requeue: "Re-queue",
+  export: "Export",
+};
+
+// ============================================
+// ITEMS
+// ============================================
+
+export function inspectorItemFromQueue(row: LocalSyncQueue, policy: SyncQueueFailurePolicy): SyncInspectorItem {
+  const operation = row.operation.split(":")[0];
+  let reportId: string | null = null;
+  try {
+    const payload = JSON.parse(row.payloadJson) as { reportId?: unknown };
+    if (typeof payload.reportId === "string") reportId = payload.reportId;
+  } catch {
+    // Preview still shows the raw payload
+  }
+
+  return {
+    key: `queue:${row.id}`,
+    kind: "queue",
+    id: String(row.id),
+    entityType: row.entityType,
+    entityId: row.entityId,
+    reportId,
+    label: `${operation.replace(/_/g, " ")} ${row.entityType.replace(/_/g, " ")}`,
+    status: row.operation,
+    attemptCount: row.attemptCount,
+    lastError: row.lastError,
+    idempotencyKey: row.idempotencyKey,
+    payloadPreview: payloadPreview(row.payloadJson),
+    createdAt: row.createdAt,
+    deferredUntil: row.nextAttemptAt,
+    failed: isFailedQueueItem(row, policy),
+  };
+}
+
+export function inspectorItemFromMedia(
+  kind: SyncMediaKind,
+  media: InspectableMedia,
+  state?: LocalMediaSyncState
+): SyncInspectorItem {
+  return {
+    key: `${kind}:${media.id}`,
+    kind,
+    id: media.id,
+    entityType: kind,
+    entityId: media.id,
+    reportId: media.reportId,
+    label: `${SYNC_INSPECTOR_KIND_LABELS[kind]} ${media.filename}`,
+    status: media.syncStatus,
+    attemptCount: state?.attemptCount ?? 0,
+    lastError: media.lastSyncError,
+    // Media uploads are keyed by the file's own id and hash, not a queue key
+    idempotencyKey: null,
+    payloadPreview: JSON.stringify({
+      reportId: media.reportId,
+      filename: media.filename,
+      mimeType: media.mimeType,
+      fileSize: media.fileSize,
+      originalHash: media.originalHash,
+    }),
+    createdAt: media.createdAt,
+    deferredUntil: state?.deferredUntil ?? null,
+    failed: media.syncStatus === "error",
+  };
+}
+
+export function isDeferred(item: SyncInspectorItem, now: Date): boolean {
+  return item.deferredUntil !== null && item.deferredUntil > now.toISOString();
+}
+
+/**
+ * Failed items first and deferred items last, oldest first within each group
+ */
+export function sortInspectorItems(items: SyncInspectorItem[], now: Date): SyncInspectorItem[] {
+  const rank = (item: SyncInspectorItem) => (item.failed ? 0 : isDeferred(item, now) ? 2 : 1);
+  return [...items].sort((a, b) => rank(a) - rank(b) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Re-queueing issues a new idempotency key, so it only applies to queue rows
+ */
+export function availableActions(item: SyncInspectorItem): SyncRepairAction[] {
+  return item.kind === "queue" ? ["retry", "defer", "requeue", "export"] : ["retry", "defer", "export"];
+}
+
+export function deferUntil(now: Date, hours: number): string {
+  return new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString();
+}
+
+// ============================================
+// AUDIT & EXPORT
+// ============================================
+
+/**
+ * Audit details for a manual action: what the item looked like beforehand
+ * plus anything the action changed
+ */
+export function repairAuditDetails(
+  action: SyncRepairAction,
+  item: SyncInspectorItem,
+  changes: Record<string, unknown> = {}
+): string {
+  return JSON.stringify({
+    action,
+    kind: item.kind,
+    entityType: item.entityType,
+    entityId: item.entityId,
+    status: item.status,
+    attemptCount: item.attemptCount,
+    lastError: item.lastError ? redactText(item.lastError) : null,
+    idempotencyKey: item.idempotencyKey,
+    ...changes,
+  });
+}
+
+/**
+ * The exported file: the inspector's view plus the stored row, both
+ * redacted like the log store since exports leave the device
+ */
+export function inspectorItemExport(item: SyncInspectorItem, raw: unknown, exportedAt: string): string {
+  return JSON.stringify(
+    { format: "ranz-sync-item", formatVersion: 1, exportedAt, item: redactValue(item), raw: redactStoredRow(raw) },
+    null,
+    2
+  );
+}
+
+/**
+ * Queue rows keep their payload as a JSON string, which is redacted field
+ * by field rather than as text
+ */
+function redactStoredRow(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object" || !("payloadJson" in raw) || typeof raw.payloadJson !== "string") {
+    return redactValue(raw);
+  }
+  let payloadJson: string;
+  try {
+    payloadJson = JSON.stringify(redactValue(JSON.parse(raw.payloadJson)));
+  } catch {
+    payloadJson = redactText(raw.payloadJson);
+  }
+  return { ...(redactValue(raw) as Record<string, unknown>), payloadJson };
+}
+
+export function inspectorExportFilename(item: SyncInspectorItem, now: Date): string {
+  return `sync_${item.key.replace(/[^A-Za-z0-9_-]/g, "_")}_${now.getTime()}.json`;
+}
@@ -0,0 +1,193 @@
+/**
+ * Three-Way Merge
+ * Field-level merge of a local and server record against their common base
+ *
+ * For each field:
+ * - unchanged on both sides      -> base value
+ * - changed on one side only     -> that side's value (auto-resolved)
+ * - changed identically on both  -> the shared value
+ * - changed differently on both  -> true conflict, left for the inspector
+ *
+ * Without a base version every differing field is treated as a conflict,
+ * since there is no way to tell which side changed it.
+ */
+
+import type { FieldConflict, FieldMergeResult, MergeEntityType } from "../types/sync";
+
+// ============================================
+// MERGEABLE FIELDS
+// ============================================
+
+/**
+ * Fields compared during merge, using sync payload names (see ReportSync).
+ * Workflow fields (status, submittedAt, approvedAt) are excluded - they are
+ * owned by the review workflow, not edited concurrently.
+ */
+export const MERGE_FIELDS: Record<MergeEntityType, readonly string[]> = {
+  report: [
+    "propertyAddress",
+    "propertyCity",
+    "propertyRegion",
+    "propertyPostcode",
+    "propertyType",
+    "buildingAge",
+    "gpsLat",
+    "gpsLng",
+    "inspectionDate",
+    "inspectionType",
+    "weatherConditions",
+    "weather",
+    "accessMethod",
+    "limitations",
+    "clientName",
+    "clientEmail",
+    "clientPhone",
+    "scopeOfWorks",
+    "methodology",
+    "findings",
+    "conclusions",
+    "recommendations",
+    "declarationSigned",
+    "signedAt",
+  ],
+  defect: [
+    "title",
+    "description",
+    "location",
+    "classification",
+    "severity",
+    "observation",
+    "analysis",
+    "opinion",
+    "codeReference",
+    "copReference",
+    "recommendation",
+    "priorityLevel",
+    "roofElementId",
+  ],
+  element: [
+    "elementType",
+    "location",
+    "claddingType",
+    "material",
+    "manufacturer",
+    "pitch",
+    "area",
+    "conditionRating",
+    "conditionNotes",
+  ],
+};
+
+// ============================================
+// COMPARISON
+// ============================================
+
+/**
+ * Serialise with sorted object keys so key order never causes a false conflict
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * Deep equality for merge purposes (undefined and null are equal)
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Pick the mergeable fields of a record
+ */
+export function pickMergeFields(
+  entityType: MergeEntityType,
+  record: Record<string, unknown>
+): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of MERGE_FIELDS[entityType]) {
+    snapshot[field] = record[field] ?? null;
+  }
+  return snapshot;
+}
+
+// ============================================
+// MERGE
+// ============================================
+
+/**
+ * Merge local and server versions of a record against their base
+ *
+ * @param base - Last version both sides agreed on (null if unknown)
+ * @param local - Current device version
+ * @param server - Current server version
+ * @param fields - Fields to merge
+ */
+export function threeWayMerge(
+  base: Record<string, unknown> | null,
+  local: Record<string, unknown>,
+  server: Record<string, unknown>,
+  fields: readonly string[]
+): FieldMergeResult {
+  const merged: Record<string, unknown> = { ...local };
+  const autoResolved: FieldMergeResult["autoResolved"] = [];
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of fields) {
+    const localValue = local[field] ?? null;
+    const serverValue = server[field] ?? null;
+
+    if (valuesEqual(localValue, serverValue)) {
+      merged[field] = localValue;
+      continue;
+    }
+
+    if (base) {
+      const baseValue = base[field] ?? null;
+      const localChanged = !valuesEqual(baseValue, localValue);
+      const serverChanged = !valuesEqual(baseValue, serverValue);
+
+      if (localChanged && !serverChanged) {
+        merged[field] = localValue;
+        autoResolved.push({ field, source: "local" });
+        continue;
+      }
+      if (serverChanged && !localChanged) {
+        merged[field] = serverValue;
+        autoResolved.push({ field, source: "server" });
+        continue;
+      }
+
+      conflicts.push({ field, baseValue, localValue, serverValue });
+    } else {
+      conflicts.push({ field, baseValue: null, localValue, serverValue });
+    }
+
+    // Conflicted fields keep the local value until the inspector decides
+    merged[field] = localValue;
+  }
+
+  return { merged, autoResolved, conflicts };
+}
+
+/**
+ * Apply the inspector's per-field choices to a merged record
+ */
+export function applyFieldResolutions(
+  merged: Record<string, unknown>,
+  conflicts: FieldConflict[],
+  choices: Record<string, "keep_local" | "keep_server">
+): Record<string, unknown> {
+  const result = { ...merged };
+  for (const conflict of conflicts) {
+    const choice = choices[conflict.field] ?? "keep_server";
+    result[conflict.field] = choice === "keep_local" ? conflict.localValue : conflict.serverValue;
+  }
+  return result;
+}
@@ -0,0 +1,214 @@
+/**
+ * Transcription
+ * Engine interface, retry policy, transcript hashing and search for voice notes
+ *
+ * Transcription runs as a job after recording. The engine is pluggable (an
+ * on-device model, a server endpoint or a test stub); failed attempts are
+ * retried with backoff until MAX_TRANSCRIPTION_ATTEMPTS, and each sync gives
+ * failed jobs another round. The transcript's
+ * hash covers the audio's originalHash so a transcript cannot be passed off
+ * as belonging to a different recording.
+ */
+
+import type { TranscriptionStatus } from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TranscriptionInput {
+  voiceNoteId: string;
+  localUri: string;
+  mimeType: string;
+  durationMs: number;
+  originalHash: string;
+}
+
+export interface TranscriptionOutput {
+  text: string;
+  language?: string;
+  confidence?: number;
+}
+
+/**
+ * Turns a recording into text. onProgress takes a fraction from 0 to 1.
+ */
+export interface TranscriptionEngine {
+  id: string;
+  /** Jobs wait, without using attempts, while the device is offline */
+  requiresNetwork?: boolean;
+  transcribe(input: TranscriptionInput, onProgress: (fraction: number) => void): Promise<TranscriptionOutput>;
+}
+
+/**
+ * Next state for a job after an attempt fails
+ */
+export interface TranscriptionRetry {
+  status: TranscriptionStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+}
+
+/**
+ * Fields needed to search transcripts
+ */
+export interface TranscriptSource {
+  id: string;
+  reportId: string;
+  defectId: string | null;
+  roofElementId: string | null;
+  recordedAt: string;
+  transcription: string | null;
+}
+
+export interface TranscriptMatch<T extends TranscriptSource> {
+  note: T;
+  snippet: string;
+  score: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_TRANSCRIPTION_ATTEMPTS = 3;
+
+/** Failure recorded when the engine returns no text; never retried by sync */
+export const NO_SPEECH_ERROR = "No speech recognised";
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const SNIPPET_RADIUS = 40;
+
+export const TRANSCRIPTION_STATUS_LABELS: Record<TranscriptionStatus, string> = {
+  none: "Not transcribed",
+  pending: "Waiting to transcribe",
+  processing: "Transcribing",
+  completed: "Transcribed",
+  failed: "Transcription failed",
+};
+
+// ============================================
+// RETRIES
+// ============================================
+
+/**
+ * Backoff before the next attempt: 30s, 2m, 8m... capped at 30 minutes
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 4 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Schedule a retry, or give up once the attempts are used
+ */
+export function nextRetry(attempts: number, now: Date, maxAttempts = MAX_TRANSCRIPTION_ATTEMPTS): TranscriptionRetry {
+  if (attempts >= maxAttempts) {
+    return { status: "failed", attempts, nextAttemptAt: null };
+  }
+  return {
+    status: "pending",
+    attempts,
+    nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+  };
+}
+
+// ============================================
+// TRANSCRIPTS
+// ============================================
+
+/**
+ * Tidy engine output: collapse whitespace, capitalise and end the sentence
+ */
+export function normaliseTranscript(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  if (!collapsed) return "";
+  const capitalised = collapsed.charAt(0).toUpperCase() + collapsed.slice(1);
+  return /[.!?]$/.test(capitalised) ? capitalised : `${capitalised}.`;
+}
+
+/**
+ * The string hashed for transcriptionHash: the audio's hash, then the text
+ */
+export function transcriptHashInput(originalHash: string, transcript: string): string {
+  return `${originalHash}\n${transcript}`;
+}
+
+/**
+ * Add a transcript to a form field, after any existing text
+ */
+export function insertTranscript(existing: string, transcript: string): string {
+  const current = existing.trimEnd();
+  if (!current) return transcript;
+  return `${current}\n\n${transcript}`;
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Transcripts containing every word of the query (as word prefixes),
+ * ranked by how often the words occur, then newest first
+ */
+export function searchTranscripts<T extends TranscriptSource>(notes: T[], query: string): TranscriptMatch<T>[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const matches: TranscriptMatch<T>[] = [];
+  for (const note of notes) {
+    if (!note.transcription) continue;
+    const words = tokenize(note.transcription);
+
+    let score = 0;
+    let allFound = true;
+    for (const term of terms) {
+      const count = words.filter((word) => word.startsWith(term)).length;
+      if (count === 0) {
+        allFound = false;
+        break;
+      }
+      score += count;
+    }
+    if (!allFound) continue;
+
+    const index = note.transcription.toLowerCase().indexOf(terms[0]);
+    matches.push({
+      note,
+      score,
+      snippet: snippetAround(note.transcription, Math.max(0, index), terms[0].length),
+    });
+  }
+
+  return matches.sort((a, b) => b.score - a.score || b.note.recordedAt.localeCompare(a.note.recordedAt));
+}
+
+// ============================================
+// ENGINES
+// ============================================
+
+/**
+ * Engine that returns fixed text, for tests and demos
+ */
+export function createStubTranscriptionEngine(
+  text: string | ((input: TranscriptionInput) => string),
+  id = "stub"
+): TranscriptionEngine {
+  return {
+    id,
+    async transcribe(input, onProgress) {
+      onProgress(1);
+      return { text: typeof text === "function" ? text(input) : text };
+    },
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * User Administration
+ * Local effects, validation and audit wording for admin user actions
+ *
+ * Suspend, activate, change-role and invite are applied to the local
+ * directory straight away and marked pending until the server confirms
+ * them, either immediately (online) or when the sync queue is processed.
+ * These helpers make the decisions; the user admin service does the I/O.
+ */
+
+import type { LocalManagedUser } from "../types/database";
+import {
+  UserRole,
+  UserStatus,
+  type User,
+  type UserAdminAction,
+  type UserAdminActionType,
+  type UserInvite,
+} from "../types/shared";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** sync_queue operation for each action type */
+export const USER_ADMIN_QUEUE_OPERATIONS: Record<UserAdminActionType, string> = {
+  SUSPEND: "user_suspend",
+  ACTIVATE: "user_activate",
+  CHANGE_ROLE: "user_change_role",
+  INVITE: "user_invite",
+};
+
+/** audit_log action recorded for each action type */
+const AUDIT_ACTIONS: Record<UserAdminActionType, string> = {
+  SUSPEND: "USER_SUSPENDED",
+  ACTIVATE: "USER_ACTIVATED",
+  CHANGE_ROLE: "USER_ROLE_CHANGED",
+  INVITE: "USER_INVITED",
+};
+
+export const INVITE_ID_PREFIX = "invite_";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================
+// QUEUE & AUDIT
+// ============================================
+
+/**
+ * Whether a sync_queue operation is an admin user action
+ */
+export function isUserAdminOperation(operation: string): boolean {
+  return Object.values(USER_ADMIN_QUEUE_OPERATIONS).includes(operation);
+}
+
+export function auditActionFor(type: UserAdminActionType): string {
+  return AUDIT_ACTIONS[type];
+}
+
+/**
+ * Human-readable audit detail for an action
+ */
+export function describeUserAdminAction(action: UserAdminAction, user: Pick<LocalManagedUser, "name" | "email">): string {
+  const who = `${user.name} <${user.email}>`;
+  const reason = action.reason ? ` Reason: ${action.reason}` : "";
+  switch (action.type) {
+    case "SUSPEND":
+      return `Suspended ${who}.${reason}`;
+    case "ACTIVATE":
+      return `Activated ${who}.${reason}`;
+    case "CHANGE_ROLE":
+      return `Changed role of ${who} to ${action.role}.${reason}`;
+    case "INVITE":
+      return `Invited ${who} as ${action.invite?.role ?? UserRole.INSPECTOR}.${reason}`;
+  }
+}
+
+/**
+ * Whether a failed request should be queued for retry rather than rejected
+ *
+ * Unreachable servers (status 0), timeouts and server errors are retried;
+ * 4xx responses mean the server refused the action.
+ */
+export function shouldQueueAfterFailure(status: number | undefined): boolean {
+  return !status || status === 408 || status === 429 || status >= 500;
+}
+
+// ============================================
+// LOCAL EFFECTS
+// ============================================
+
+/**
+ * The directory row as it should look once the action is applied
+ *
+ * The result carries pendingAction until the server confirms it.
+ */
+export function applyUserAdminAction(
+  user: LocalManagedUser,
+  action: UserAdminAction,
+  now: string
+): LocalManagedUser {
+  const next: LocalManagedUser = { ...user, pendingAction: action.type, updatedAt: now };
+  switch (action.type) {
+    case "SUSPEND":
+      return { ...next, status: UserStatus.SUSPENDED };
+    case "ACTIVATE":
+      return { ...next, status: UserStatus.ACTIVE };
+    case "CHANGE_ROLE":
+      return action.role ? { ...next, role: action.role } : next;
+    case "INVITE":
+      return next;
+  }
+}
+
+/**
+ * Placeholder directory row for an invitation not yet confirmed by the server
+ */
+export function createInvitedUser(id: string, invite: UserInvite, now: string): LocalManagedUser {
+  return {
+    id,
+    email: invite.email.trim().toLowerCase(),
+    name: invite.name.trim(),
+    role: invite.role,
+    status: UserStatus.PENDING_APPROVAL,
+    company: invite.company?.trim() || null,
+    lbpNumber: null,
+    yearsExperience: null,
+    pendingAction: "INVITE",
+    invitedAt: now,
+    syncedAt: null,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Check an invitation before it is sent or queued
+ *
+ * @returns An error message, or null if the invite is valid
+ */
+export function validateInvite(invite: UserInvite, existing: Pick<LocalManagedUser, "email">[]): string | null {
+  const email = invite.email.trim().toLowerCase();
+  if (!invite.name.trim()) return "Name is required";
+  if (!EMAIL_PATTERN.test(email)) return "Enter a valid email address";
+  if (!Object.values(UserRole).includes(invite.role)) return "Choose a role";
+  if (existing.some((user) => user.email.toLowerCase() === email)) {
+    return "A user with this email already exists";
+  }
+  return null;
+}
+
+/**
+ * Directory row for a user returned by the server
+ */
+export function managedUserFromServer(user: User, now: string): LocalManagedUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    status: user.status ?? UserStatus.ACTIVE,
+    company: user.company ?? null,
+    lbpNumber: user.lbpNumber ?? null,
+    yearsExperience: user.yearsExperience ?? null,
+    pendingAction: null,
+    invitedAt: null,
+    syncedAt: now,
+    updatedAt: user.updatedAt ?? now,
+  };
+}
+
+/**
+ * Combine a fresh server directory with local rows
+ *
+ * Rows with an unconfirmed action keep their local state so a refresh
+ * doesn't undo it on screen; unconfirmed invitations are kept until the
+ * server returns the invited email.
+ */
+export function mergeManagedUsers(
+  server: LocalManagedUser[],
+  local: LocalManagedUser[]
+): LocalManagedUser[] {
+  const pending = new Map(local.filter((u) => u.pendingAction).map((u) => [u.id, u]));
+  const serverEmails = new Set(server.map((u) => u.email.toLowerCase()));
+
+  const merged = server.map((user) => pending.get(user.id) ?? user);
+  for (const user of pending.values()) {
+    const isInvite = user.id.startsWith(INVITE_ID_PREFIX);
+    if (isInvite && !serverEmails.has(user.email.toLowerCase())) {
+      merged.push(user);
+    }
+  }
+  return merged.sort((a, b) => a.name.localeCompare(b.name));
+}
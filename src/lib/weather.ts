@@ -0,0 +1,332 @@
+/**
+ * Weather
+ * Structured weather records, pre-fill providers and summaries
+ *
+ * The record is captured once at inspection time and edited by the
+ * inspector. Providers only suggest values; anything the inspector changes
+ * marks the record MANUAL. The free-text weatherConditions column is kept
+ * as a summary of the record for the PDF and older screens.
+ */
+
+import { calculateHaversineDistance } from "./location-utils";
+import {
+  WeatherCondition,
+  WindLevel,
+  RoofSurfaceState,
+  type WeatherRecord,
+} from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Where and when the inspection is taking place
+ */
+export interface WeatherContext {
+  lat: number | null;
+  lng: number | null;
+  at: string;
+}
+
+/**
+ * Values a provider could determine; anything missing is filled in or left
+ * for the inspector
+ */
+export type WeatherReading = Partial<
+  Pick<WeatherRecord, "conditions" | "temperatureC" | "wind" | "windSpeedKmh" | "recentRain" | "roofSurface">
+>;
+
+/**
+ * Source of pre-fill values (device history, a weather API, a test stub)
+ */
+export interface WeatherProvider {
+  id: string;
+  getReading(context: WeatherContext): Promise<WeatherReading | null>;
+}
+
+/**
+ * A past report's weather, used by the history provider
+ */
+export interface WeatherHistoryEntry {
+  weatherJson: string | null;
+  gpsLat: number | null;
+  gpsLng: number | null;
+}
+
+export type WeatherEdit = Partial<
+  Pick<WeatherRecord, "conditions" | "temperatureC" | "wind" | "windSpeedKmh" | "recentRain" | "roofSurface">
+>;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const WEATHER_RECORD_VERSION = 1;
+
+export const WEATHER_CONDITION_LABELS: Record<WeatherCondition, string> = {
+  [WeatherCondition.CLEAR]: "Clear",
+  [WeatherCondition.PARTLY_CLOUDY]: "Partly cloudy",
+  [WeatherCondition.OVERCAST]: "Overcast",
+  [WeatherCondition.FOG]: "Fog",
+  [WeatherCondition.DRIZZLE]: "Drizzle",
+  [WeatherCondition.RAIN]: "Rain",
+  [WeatherCondition.HEAVY_RAIN]: "Heavy rain",
+  [WeatherCondition.HAIL]: "Hail",
+};
+
+export const WIND_LEVEL_LABELS: Record<WindLevel, string> = {
+  [WindLevel.CALM]: "Calm",
+  [WindLevel.LIGHT]: "Light",
+  [WindLevel.MODERATE]: "Moderate",
+  [WindLevel.STRONG]: "Strong",
+  [WindLevel.GALE]: "Gale",
+};
+
+export const ROOF_SURFACE_LABELS: Record<RoofSurfaceState, string> = {
+  [RoofSurfaceState.DRY]: "Dry",
+  [RoofSurfaceState.DAMP]: "Damp",
+  [RoofSurfaceState.WET]: "Wet",
+};
+
+const PRECIPITATION = new Set<WeatherCondition>([
+  WeatherCondition.DRIZZLE,
+  WeatherCondition.RAIN,
+  WeatherCondition.HEAVY_RAIN,
+  WeatherCondition.HAIL,
+]);
+
+/** History entries older than this aren't used for pre-fill */
+const HISTORY_MAX_AGE_MS = 3 * 60 * 60 * 1000;
+
+/** History entries further away than this aren't used for pre-fill */
+const HISTORY_MAX_DISTANCE_M = 20_000;
+
+// ============================================
+// DERIVED VALUES
+// ============================================
+
+/**
+ * Wind level from speed, using Beaufort bands (calm < 2 km/h, gale ≥ 62 km/h)
+ */
+export function windLevelForSpeed(speedKmh: number): WindLevel {
+  if (speedKmh < 2) return WindLevel.CALM;
+  if (speedKmh < 20) return WindLevel.LIGHT;
+  if (speedKmh < 39) return WindLevel.MODERATE;
+  if (speedKmh < 62) return WindLevel.STRONG;
+  return WindLevel.GALE;
+}
+
+/**
+ * Likely roof surface state when the inspector hasn't said
+ */
+export function inferRoofSurface(conditions: WeatherCondition, recentRain: boolean): RoofSurfaceState {
+  if (PRECIPITATION.has(conditions)) return RoofSurfaceState.WET;
+  if (recentRain || conditions === WeatherCondition.FOG) return RoofSurfaceState.DAMP;
+  return RoofSurfaceState.DRY;
+}
+
+// ============================================
+// RECORDS
+// ============================================
+
+/**
+ * A new record from a provider reading
+ *
+ * @returns null when the reading doesn't include conditions
+ */
+export function weatherRecordFromReading(
+  reading: WeatherReading,
+  options: { providerId: string; capturedAt: string }
+): WeatherRecord | null {
+  if (!reading.conditions) return null;
+
+  const windSpeedKmh = reading.windSpeedKmh ?? null;
+  const recentRain = reading.recentRain ?? PRECIPITATION.has(reading.conditions);
+
+  return {
+    version: WEATHER_RECORD_VERSION,
+    conditions: reading.conditions,
+    temperatureC: reading.temperatureC ?? null,
+    wind: reading.wind ?? (windSpeedKmh !== null ? windLevelForSpeed(windSpeedKmh) : WindLevel.CALM),
+    windSpeedKmh,
+    recentRain,
+    roofSurface: reading.roofSurface ?? inferRoofSurface(reading.conditions, recentRain),
+    capturedAt: options.capturedAt,
+    source: "PROVIDER",
+    providerId: options.providerId,
+  };
+}
+
+/**
+ * A record started by the inspector picking conditions
+ */
+export function manualWeatherRecord(conditions: WeatherCondition, capturedAt: string): WeatherRecord {
+  const recentRain = PRECIPITATION.has(conditions);
+  return {
+    version: WEATHER_RECORD_VERSION,
+    conditions,
+    temperatureC: null,
+    wind: WindLevel.CALM,
+    windSpeedKmh: null,
+    recentRain,
+    roofSurface: inferRoofSurface(conditions, recentRain),
+    capturedAt,
+    source: "MANUAL",
+    providerId: null,
+  };
+}
+
+/**
+ * Apply an inspector's edit
+ *
+ * The capture time is kept; the provider ID is kept so the report shows
+ * what was suggested before it was corrected.
+ */
+export function editWeatherRecord(record: WeatherRecord, edit: WeatherEdit): WeatherRecord {
+  const updated: WeatherRecord = { ...record, ...edit, version: WEATHER_RECORD_VERSION, source: "MANUAL" };
+  if (edit.windSpeedKmh !== undefined && edit.wind === undefined && edit.windSpeedKmh !== null) {
+    updated.wind = windLevelForSpeed(edit.windSpeedKmh);
+  }
+  return updated;
+}
+
+/**
+ * Read a stored record, tolerating bad JSON and records from newer app versions
+ *
+ * @returns null when there is no usable record
+ */
+export function parseWeatherRecord(json: string | null): WeatherRecord | null {
+  if (!json) return null;
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== "object" || typeof raw.version !== "number") return null;
+  if (!Object.values(WeatherCondition).includes(raw.conditions as WeatherCondition)) return null;
+
+  const conditions = raw.conditions as WeatherCondition;
+  const recentRain = typeof raw.recentRain === "boolean" ? raw.recentRain : false;
+  const numberOrNull = (value: unknown) => (typeof value === "number" && isFinite(value) ? value : null);
+
+  return {
+    version: raw.version,
+    conditions,
+    temperatureC: numberOrNull(raw.temperatureC),
+    wind: Object.values(WindLevel).includes(raw.wind as WindLevel) ? (raw.wind as WindLevel) : WindLevel.CALM,
+    windSpeedKmh: numberOrNull(raw.windSpeedKmh),
+    recentRain,
+    roofSurface: Object.values(RoofSurfaceState).includes(raw.roofSurface as RoofSurfaceState)
+      ? (raw.roofSurface as RoofSurfaceState)
+      : inferRoofSurface(conditions, recentRain),
+    capturedAt: typeof raw.capturedAt === "string" ? raw.capturedAt : "",
+    source: raw.source === "PROVIDER" ? "PROVIDER" : "MANUAL",
+    providerId: typeof raw.providerId === "string" ? raw.providerId : null,
+  };
+}
+
+/**
+ * One-line summary, stored in weatherConditions
+ *
+ * @example "Overcast, 14°C, light wind (12 km/h), rain in the last 24 hours, roof damp"
+ */
+export function describeWeather(record: WeatherRecord): string {
+  const parts = [WEATHER_CONDITION_LABELS[record.conditions]];
+  if (record.temperatureC !== null) {
+    parts.push(`${Math.round(record.temperatureC)}°C`);
+  }
+  const wind =
+    record.wind === WindLevel.CALM ? "calm" : `${WIND_LEVEL_LABELS[record.wind].toLowerCase()} wind`;
+  parts.push(record.windSpeedKmh !== null ? `${wind} (${Math.round(record.windSpeedKmh)} km/h)` : wind);
+  if (record.recentRain) {
+    parts.push("rain in the last 24 hours");
+  }
+  parts.push(`roof ${ROOF_SURFACE_LABELS[record.roofSurface].toLowerCase()}`);
+  return parts.join(", ");
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Provider that always returns the same reading (tests and demos)
+ */
+export function createStubWeatherProvider(reading: WeatherReading | null, id = "stub"): WeatherProvider {
+  return {
+    id,
+    getReading: async () => (reading ? { ...reading } : null),
+  };
+}
+
+/**
+ * Provider that asks each provider in turn; earlier providers win per field
+ *
+ * A provider that throws is skipped.
+ */
+export function combineWeatherProviders(providers: WeatherProvider[], id?: string): WeatherProvider {
+  return {
+    id: id ?? providers.map((p) => p.id).join("+"),
+    async getReading(context) {
+      const merged: WeatherReading = {};
+      let found = false;
+      for (const provider of providers) {
+        let reading: WeatherReading | null;
+        try {
+          reading = await provider.getReading(context);
+        } catch (error) {
+          console.warn(`[Weather] Provider ${provider.id} failed:`, error);
+          continue;
+        }
+        if (!reading) continue;
+        for (const [key, value] of Object.entries(reading) as Array<[keyof WeatherReading, unknown]>) {
+          if (value !== undefined && merged[key] === undefined) {
+            (merged as Record<string, unknown>)[key] = value;
+            found = true;
+          }
+        }
+      }
+      return found ? merged : null;
+    },
+  };
+}
+
+/**
+ * Reading from the most recent nearby record captured in the last few hours
+ *
+ * Lets a second inspection on the same day start from the first one's
+ * weather. Entries without GPS only match when the context has none either.
+ */
+export function weatherFromHistory(entries: WeatherHistoryEntry[], context: WeatherContext): WeatherReading | null {
+  const at = Date.parse(context.at);
+  let best: { record: WeatherRecord; capturedAt: number } | null = null;
+
+  for (const entry of entries) {
+    const record = parseWeatherRecord(entry.weatherJson);
+    if (!record) continue;
+
+    const capturedAt = Date.parse(record.capturedAt);
+    if (isNaN(capturedAt) || capturedAt > at || at - capturedAt > HISTORY_MAX_AGE_MS) continue;
+
+    const contextHasGps = context.lat !== null && context.lng !== null;
+    const entryHasGps = entry.gpsLat !== null && entry.gpsLng !== null;
+    if (contextHasGps !== entryHasGps) continue;
+    if (
+      contextHasGps &&
+      calculateHaversineDistance(context.lat!, context.lng!, entry.gpsLat!, entry.gpsLng!) > HISTORY_MAX_DISTANCE_M
+    ) {
+      continue;
+    }
+
+    if (!best || capturedAt > best.capturedAt) {
+      best = { record, capturedAt };
+    }
+  }
+
+  if (!best) return null;
+  const { conditions, temperatureC, wind, windSpeedKmh, recentRain, roofSurface } = best.record;
+  return { conditions, temperatureC, wind, windSpeedKmh, recentRain, roofSurface };
+}
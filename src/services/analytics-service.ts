@@ -0,0 +1,112 @@
+/**
+ * Analytics Service
+ * Admin dashboard figures from local SQLite or the server, and CSV export
+ *
+ * Local figures only cover what this device has downloaded; the server
+ * option covers the whole organisation. If the server can't be reached
+ * the local figures are returned instead and the result says so.
+ */
+
+import { cacheDirectory, writeAsStringAsync, EncodingType } from "expo-file-system/legacy";
+import { getAnalyticsRows, getManagedUsers, getUser } from "../lib/sqlite";
+import { fetchAdminAnalytics } from "../lib/api";
+import { computeAdminAnalytics, analyticsToCsv } from "../lib/analytics";
+import type { AdminAnalytics, AnalyticsDateRange } from "../types/shared";
+
+export type AnalyticsSourcePreference = "local" | "server";
+
+export interface AnalyticsResult {
+  success: boolean;
+  analytics?: AdminAnalytics;
+  /** Set when the server was requested but local figures were returned */
+  fallbackReason?: string;
+  error?: string;
+}
+
+export interface AnalyticsExportResult {
+  success: boolean;
+  uri?: string;
+  error?: string;
+}
+
+// ============================================
+// ANALYTICS SERVICE
+// ============================================
+
+class AnalyticsService {
+  /**
+   * Figures for a date range from the preferred source
+   */
+  async getAnalytics(range: AnalyticsDateRange, preference: AnalyticsSourcePreference): Promise<AnalyticsResult> {
+    try {
+      if (preference === "server") {
+        const response = await fetchAdminAnalytics(range);
+        if (response.success && response.data) {
+          return { success: true, analytics: { ...response.data, source: "server" } };
+        }
+        console.warn("[Analytics] Server analytics unavailable, using local data:", response.error);
+        const local = await this.computeLocal(range);
+        return {
+          success: true,
+          analytics: local,
+          fallbackReason: response.error || "Server analytics unavailable",
+        };
+      }
+
+      return { success: true, analytics: await this.computeLocal(range) };
+    } catch (error) {
+      console.error("[Analytics] Failed to compute analytics:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to compute analytics",
+      };
+    }
+  }
+
+  /**
+   * Write the figures to a CSV file in the cache directory
+   */
+  async exportCsv(analytics: AdminAnalytics): Promise<AnalyticsExportResult> {
+    try {
+      const stamp = analytics.generatedAt.replace(/[:.]/g, "-");
+      const uri = `${cacheDirectory}analytics-${stamp}.csv`;
+      await writeAsStringAsync(uri, analyticsToCsv(analytics), { encoding: EncodingType.UTF8 });
+      console.log(`[Analytics] Exported CSV to ${uri}`);
+      return { success: true, uri };
+    } catch (error) {
+      console.error("[Analytics] CSV export failed:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to export CSV",
+      };
+    }
+  }
+
+  private async computeLocal(range: AnalyticsDateRange): Promise<AdminAnalytics> {
+    const [rows, managedUsers, currentUser] = await Promise.all([
+      getAnalyticsRows(range),
+      getManagedUsers(),
+      getUser(),
+    ]);
+
+    const inspectorNames: Record<string, string> = {};
+    for (const user of managedUsers) {
+      inspectorNames[user.id] = user.name;
+    }
+    if (currentUser) {
+      inspectorNames[currentUser.id] = currentUser.name;
+    }
+
+    return computeAdminAnalytics({ ...rows, inspectorNames }, range);
+  }
+}
+
+export const analyticsService = new AnalyticsService();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const getAdminAnalytics = (range: AnalyticsDateRange, preference: AnalyticsSourcePreference) =>
+  analyticsService.getAnalytics(range, preference);
+export const exportAnalyticsCsv = (analytics: AdminAnalytics) => analyticsService.exportCsv(analytics);
@@ -15,6 +15,7 @@ import {
   updatePhotoAnnotations,
   markReportDirty,
 } from "../lib/sqlite";
+import { fileEncryptionService } from "./file-encryption-service";
 import type { Annotation } from "../components/PhotoAnnotator";
 import type { LocalPhoto } from "../types/database";
 
@@ -133,6 +134,7 @@ class AnnotationService {
         from: annotatedImageUri,
         to: permanentUri,
       });
+      await fileEncryptionService.protectWorkingFile(permanentUri);
 
       // Serialize annotations to JSON
       const annotationsJson = JSON.stringify(annotations);
@@ -14,8 +14,10 @@ import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
 import { checkApiHealth } from "../lib/api";
 import {
   getPendingSyncReports,
+  isDatabaseOpen,
   updateSyncState as updateDbSyncState,
 } from "../lib/sqlite";
+import { appendStoredLog, flushLogStore } from "./log-store-service";
 
 // ============================================
 // CONSTANTS
@@ -39,14 +41,17 @@ export interface BackgroundSyncStatus {
   lastResult: "success" | "failed" | "no_data" | null;
 }
 
-interface BackgroundSyncLog {
+export interface BackgroundSyncLog {
   timestamp: string;
   action: string;
   result: string;
   details?: Record<string, unknown>;
 }
 
-// In-memory log for debugging (cleared on app restart)
+// Source of background sync entries in the persisted log store
+export const BACKGROUND_SYNC_LOG_SOURCE = "BackgroundSync";
+
+// In-memory log for debugging (cleared on app restart; the log store keeps a copy)
 const syncLogs: BackgroundSyncLog[] = [];
 const MAX_LOG_ENTRIES = 50;
 
@@ -65,6 +70,12 @@ TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
   try {
     logSync("task_started", "Background sync task started");
 
+    // The encrypted database is only open after the user has unlocked the app
+    if (!isDatabaseOpen()) {
+      logSync("skipped", "Local data is locked");
+      return BackgroundTask.BackgroundTaskResult.Success;
+    }
+
     // Check network connectivity
     const netState = await NetInfo.fetch();
     if (!netState.isConnected || netState.isInternetReachable === false) {
@@ -120,6 +131,9 @@ TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
     logSync("error", `Task error: ${errorMessage}`);
     console.error("[BackgroundSync] Task error:", error);
     return BackgroundTask.BackgroundTaskResult.Failed;
+  } finally {
+    // The OS may suspend the app as soon as the task returns
+    await flushLogStore();
   }
 });
 
@@ -351,6 +365,14 @@ function logSync(action: string, result: string, details?: Record<string, unknow
     syncLogs.pop();
   }
 
+  appendStoredLog({
+    timestamp: entry.timestamp,
+    level: action === "failed" || action === "error" ? "error" : "info",
+    source: BACKGROUND_SYNC_LOG_SOURCE,
+    message: result,
+    context: { action, ...details },
+  });
+
   console.log(`[BackgroundSync] ${action}: ${result}`, details || "");
 }
 
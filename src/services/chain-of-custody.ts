@@ -15,19 +15,104 @@
  * CRITICAL: The audit log is APPEND-ONLY. Events cannot be modified or deleted
  * by application code. This ensures a tamper-evident audit trail for legal proceedings.
  *
+ * Events are hash-linked per entity: each event stores the SHA-256 of the
+ * previous event for the same evidence item plus the chain root (the hash of
+ * the first event). Editing, deleting or reordering rows in the device
+ * database therefore breaks the chain, which verifyCustodyChain() reports.
+ *
  * @module chain-of-custody
  */
 
-import { addAuditLog, getAuditLogForEntity } from "../lib/sqlite";
+import * as Crypto from "expo-crypto";
+import {
+  insertChainedAuditLog,
+  getCustodyChainHead,
+  getAuditLogChainForEntity,
+  getAuditLogForEntity,
+} from "../lib/sqlite";
 import { getOrCreateDeviceId } from "../lib/storage";
-import type { CustodyAction, ChainOfCustodyEvent } from "../types/evidence";
+import type {
+  CustodyAction,
+  ChainOfCustodyEvent,
+  CustodyChainIssue,
+  CustodyChainVerification,
+} from "../types/evidence";
+import type { LocalAuditLog } from "../types/database";
+
+type EvidenceEntityType = "photo" | "video" | "voice_note";
+
+// ============================================
+// HASH CHAIN
+// ============================================
+
+/**
+ * Fields covered by an event hash, in canonical order
+ */
+export interface CustodyHashInput {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  userId: string;
+  userName: string;
+  details: string | null;
+  createdAt: string;
+  chainSequence: number;
+  prevHash: string | null;
+}
+
+/**
+ * Compute the SHA-256 hash of a custody event
+ *
+ * The input is serialised as a JSON array so field order is fixed and
+ * independent of object key ordering. The previous event's hash is part of
+ * the input, which is what links the chain together.
+ */
+export async function computeCustodyEventHash(input: CustodyHashInput): Promise<string> {
+  const canonical = JSON.stringify([
+    input.chainSequence,
+    input.prevHash,
+    input.id,
+    input.action,
+    input.entityType,
+    input.entityId,
+    input.userId,
+    input.userName,
+    input.details,
+    input.createdAt,
+  ]);
+
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, canonical);
+}
+
+/**
+ * Per-entity append locks
+ *
+ * Appending reads the chain head and then writes the next link; two
+ * concurrent appends for the same entity would otherwise fork the chain.
+ */
+const chainLocks = new Map<string, Promise<unknown>>();
+
+async function withChainLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = chainLocks.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  chainLocks.set(key, next);
+  try {
+    return await next;
+  } finally {
+    if (chainLocks.get(key) === next) {
+      chainLocks.delete(key);
+    }
+  }
+}
 
 /**
  * Log a chain of custody event
  *
  * This is an APPEND-ONLY operation. Events cannot be modified or deleted.
  * The event is stored in the SQLite audit_log table with deviceId and hashAtTime
- * encoded in the details JSON.
+ * encoded in the details JSON, and linked to the previous event for the same
+ * entity by its hash.
  *
  * @param action - The custody action being logged
  * @param entityType - Type of evidence (photo, video, voice_note)
@@ -58,15 +143,205 @@ export async function logCustodyEvent(
     detailsObj.notes = details;
   }
 
-  // Add to audit log (append-only operation)
-  await addAuditLog(
-    action,
+  const detailsJson = JSON.stringify(detailsObj);
+
+  // Append to the entity's hash chain (append-only operation)
+  await withChainLock(`${entityType}:${entityId}`, async () => {
+    const head = await getCustodyChainHead(entityType, entityId);
+    const chainSequence = (head?.chainSequence ?? 0) + 1;
+    const prevHash = head?.eventHash ?? null;
+
+    const id = `audit_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const createdAt = new Date().toISOString();
+
+    const eventHash = await computeCustodyEventHash({
+      id,
+      action,
+      entityType,
+      entityId,
+      userId,
+      userName,
+      details: detailsJson,
+      createdAt,
+      chainSequence,
+      prevHash,
+    });
+
+    await insertChainedAuditLog({
+      id,
+      action,
+      entityType,
+      entityId,
+      userId,
+      userName,
+      details: detailsJson,
+      createdAt,
+      chainSequence,
+      prevHash,
+      eventHash,
+      chainRoot: head?.chainRoot ?? eventHash,
+    });
+  });
+}
+
+/**
+ * Verify an entity's custody hash chain
+ *
+ * Re-hashes every chained event and checks that each one links to its
+ * predecessor, that sequence numbers run 1..n without gaps or duplicates,
+ * that every event carries the same chain root, and that timestamps never
+ * run backwards. Legacy events recorded before chaining are counted and
+ * flagged as UNCHAINED but do not by themselves invalidate the chain.
+ *
+ * Note: removing events from the END of a chain cannot be detected on the
+ * device alone; compare the returned headHash with the server's copy.
+ *
+ * @param entityType - Type of evidence (photo, video, voice_note)
+ * @param entityId - Unique ID of the evidence
+ * @returns Verification result listing every issue found
+ */
+export async function verifyCustodyChain(
+  entityType: EvidenceEntityType,
+  entityId: string
+): Promise<CustodyChainVerification> {
+  const logs = await getAuditLogChainForEntity(entityType, entityId);
+  return verifyCustodyEvents(entityType, entityId, logs);
+}
+
+/**
+ * Verify a list of audit rows as a custody chain
+ *
+ * Split from verifyCustodyChain() so bundles exported from the device
+ * (or rows fetched from the server) can be checked the same way.
+ */
+export async function verifyCustodyEvents(
+  entityType: EvidenceEntityType,
+  entityId: string,
+  logs: LocalAuditLog[]
+): Promise<CustodyChainVerification> {
+  const issues: CustodyChainIssue[] = [];
+
+  const chained = logs
+    .filter((log) => log.chainSequence !== null && log.chainSequence !== undefined)
+    .sort((a, b) => (a.chainSequence as number) - (b.chainSequence as number));
+  const legacy = logs.filter((log) => log.chainSequence === null || log.chainSequence === undefined);
+
+  for (const log of legacy) {
+    issues.push({
+      type: "UNCHAINED",
+      eventId: log.id,
+      sequence: null,
+      message: `${log.action} at ${log.createdAt} was recorded before hash chaining and cannot be verified`,
+    });
+  }
+
+  // Root is the hash of event #1; if event #1 is missing, fall back to what the rest claim
+  const first = chained[0];
+  const chainRoot = first
+    ? first.chainSequence === 1
+      ? first.eventHash
+      : first.chainRoot
+    : null;
+
+  let previous: LocalAuditLog | null = null;
+  let expectedSequence = 1;
+
+  for (const log of chained) {
+    const sequence = log.chainSequence as number;
+
+    // Sequence continuity
+    if (previous && sequence === previous.chainSequence) {
+      issues.push({
+        type: "DUPLICATE_SEQUENCE",
+        eventId: log.id,
+        sequence,
+        message: `Event ${log.id} duplicates chain position ${sequence}`,
+      });
+    } else if (sequence !== expectedSequence) {
+      const missing = sequence - expectedSequence;
+      issues.push({
+        type: "SEQUENCE_GAP",
+        eventId: log.id,
+        sequence,
+        message: `${missing} event(s) missing before position ${sequence}`,
+      });
+    }
+
+    // Content integrity
+    const recomputed = await computeCustodyEventHash({
+      id: log.id,
+      action: log.action,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      userId: log.userId,
+      userName: log.userName,
+      details: log.details,
+      createdAt: log.createdAt,
+      chainSequence: sequence,
+      prevHash: log.prevHash,
+    });
+    if (recomputed !== log.eventHash) {
+      issues.push({
+        type: "TAMPERED",
+        eventId: log.id,
+        sequence,
+        message: `Event ${sequence} (${log.action}) content does not match its recorded hash`,
+      });
+    }
+
+    // Link to predecessor
+    const expectedPrev = previous ? previous.eventHash : null;
+    if (sequence === 1 && log.prevHash !== null) {
+      issues.push({
+        type: "BROKEN_LINK",
+        eventId: log.id,
+        sequence,
+        message: "First event references a predecessor that does not exist",
+      });
+    } else if (previous && log.prevHash !== expectedPrev) {
+      issues.push({
+        type: "BROKEN_LINK",
+        eventId: log.id,
+        sequence,
+        message: `Event ${sequence} does not link to event ${previous.chainSequence}`,
+      });
+    }
+
+    // Chain root
+    if (chainRoot && log.chainRoot !== chainRoot) {
+      issues.push({
+        type: "ROOT_MISMATCH",
+        eventId: log.id,
+        sequence,
+        message: `Event ${sequence} belongs to a different chain root`,
+      });
+    }
+
+    // Chronology
+    if (previous && log.createdAt < previous.createdAt) {
+      issues.push({
+        type: "REORDERED",
+        eventId: log.id,
+        sequence,
+        message: `Event ${sequence} is timestamped before event ${previous.chainSequence}`,
+      });
+    }
+
+    previous = log;
+    expectedSequence = sequence + 1;
+  }
+
+  return {
+    isValid: issues.every((issue) => issue.type === "UNCHAINED"),
     entityType,
     entityId,
-    userId,
-    userName,
-    JSON.stringify(detailsObj)
-  );
+    eventCount: chained.length,
+    legacyEventCount: legacy.length,
+    chainRoot,
+    headHash: previous?.eventHash ?? null,
+    issues,
+    verifiedAt: new Date().toISOString(),
+  };
 }
 
 /**
@@ -114,6 +389,10 @@ export async function getCustodyChain(
       deviceId,
       hashAtTime,
       details: notes,
+      sequence: log.chainSequence,
+      prevHash: log.prevHash,
+      eventHash: log.eventHash,
+      chainRoot: log.chainRoot,
     };
   });
 }
@@ -342,6 +621,38 @@ export async function logExport(
   );
 }
 
+/**
+ * Log deletion event - call when evidence is deleted on the device
+ *
+ * The custody chain outlives the evidence row, so the deletion and the
+ * reason for it stay on record after the file is purged.
+ *
+ * @param entityType - Type of evidence (photo, video, voice_note)
+ * @param entityId - Unique ID of the evidence
+ * @param userId - User deleting the evidence
+ * @param userName - User's display name
+ * @param originalHash - SHA-256 hash recorded at capture, if any
+ * @param reason - Why the evidence was deleted
+ */
+export async function logDeletion(
+  entityType: "photo" | "video" | "voice_note",
+  entityId: string,
+  userId: string,
+  userName: string,
+  originalHash: string | null,
+  reason: string
+): Promise<void> {
+  await logCustodyEvent(
+    "DELETED",
+    entityType,
+    entityId,
+    userId,
+    userName,
+    originalHash,
+    reason
+  );
+}
+
 /**
  * Chain of Custody Service singleton
  *
@@ -386,11 +697,17 @@ export class ChainOfCustodyService {
   /** Log export event */
   logExport = logExport;
 
+  /** Log deletion event */
+  logDeletion = logDeletion;
+
   /** Get complete chain of custody */
   getCustodyChain = getCustodyChain;
 
   /** Log any custody event */
   logCustodyEvent = logCustodyEvent;
+
+  /** Verify the hash chain for an evidence item */
+  verifyCustodyChain = verifyCustodyChain;
 }
 
 /** Singleton instance for convenience */
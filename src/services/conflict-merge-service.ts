@@ -0,0 +1,500 @@
+/**
+ * Conflict Merge Service
+ * Three-way merges reports, defects and roof elements after a sync conflict
+ *
+ * The last version both device and server agreed on is stored per entity
+ * (sync_base_versions). When the server reports a conflict, the device
+ * fetches the server copy and merges field by field: fields changed on one
+ * side only are taken automatically, and only fields changed differently on
+ * both sides are stored in sync_conflicts for the inspector to decide.
+ *
+ * Reports with open conflicts are held back from upload until resolved, so
+ * neither side's edits are silently overwritten.
+ */
+
+import {
+  getReportWithRelations,
+  getReport,
+  getDeletedEntityKeys,
+  saveReport,
+  getDefectsForReport,
+  saveDefect,
+  getRoofElementsForReport,
+  saveRoofElement,
+  getSyncBaseVersion,
+  saveSyncBaseVersion,
+  saveSyncConflict,
+  getSyncConflict,
+  getSyncConflicts,
+  deleteSyncConflict,
+} from "../lib/sqlite";
+import {
+  MERGE_FIELDS,
+  pickMergeFields,
+  threeWayMerge,
+  applyFieldResolutions,
+  valuesEqual,
+} from "../lib/three-way-merge";
+import { measurementJsonFor } from "../lib/roof-geometry";
+import type { LocalReport, LocalDefect, LocalRoofElement } from "../types/database";
+import type {
+  Report,
+  Defect,
+  RoofElement,
+  DownloadedDefect,
+  DownloadedRoofElement,
+} from "../types/shared";
+import type {
+  MergeEntityType,
+  SyncConflict,
+  ConflictResolutionInput,
+} from "../types/sync";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReconcileResult {
+  /** Fields merged automatically across the report graph */
+  autoMergedFields: number;
+  /** Entities with fields that need the inspector */
+  conflicts: SyncConflict[];
+  /** Merged local data differs from the server and must be uploaded */
+  needsUpload: boolean;
+}
+
+export interface ResolveConflictResult {
+  success: boolean;
+  error?: string;
+}
+
+/** Server copy of a report graph, from GET /reports/:id or a delta page */
+export type ServerReportGraph = Omit<
+  Report,
+  "inspector" | "photos" | "defects" | "roofElements" | "complianceAssessment"
+> & {
+  defects?: Array<Defect | DownloadedDefect>;
+  roofElements?: Array<RoofElement | DownloadedRoofElement>;
+};
+
+interface EntityMergeOutcome {
+  merged: Record<string, unknown>;
+  autoResolved: number;
+  conflict: SyncConflict | null;
+  differsFromServer: boolean;
+}
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+const REPORT_JSON_FIELDS: Array<[keyof LocalReport, string]> = [
+  ["scopeOfWorksJson", "scopeOfWorks"],
+  ["methodologyJson", "methodology"],
+  ["findingsJson", "findings"],
+  ["conclusionsJson", "conclusions"],
+  ["recommendationsJson", "recommendations"],
+  ["weatherJson", "weather"],
+];
+
+/**
+ * Local report -> mergeable snapshot (JSON columns parsed, sync field names)
+ */
+export function toReportSnapshot(report: LocalReport): Record<string, unknown> {
+  const record: Record<string, unknown> = { ...report };
+  for (const [column, field] of REPORT_JSON_FIELDS) {
+    const raw = report[column] as string | null;
+    record[field] = raw ? JSON.parse(raw) : null;
+  }
+  return pickMergeFields("report", record);
+}
+
+function applyReportSnapshot(report: LocalReport, snapshot: Record<string, unknown>): LocalReport {
+  const updated = { ...report, ...snapshot } as LocalReport & Record<string, unknown>;
+  for (const [column, field] of REPORT_JSON_FIELDS) {
+    const value = snapshot[field];
+    (updated as Record<string, unknown>)[column] =
+      value === null || value === undefined ? null : JSON.stringify(value);
+    delete updated[field];
+  }
+  return updated;
+}
+
+function toSnapshot(
+  entityType: "defect" | "element",
+  record: LocalDefect | LocalRoofElement | Defect | RoofElement | DownloadedDefect | DownloadedRoofElement
+): Record<string, unknown> {
+  return pickMergeFields(entityType, record as unknown as Record<string, unknown>);
+}
+
+function conflictId(entityType: MergeEntityType, entityId: string): string {
+  return `${entityType}:${entityId}`;
+}
+
+function reportLabel(report: LocalReport): string {
+  return `Report ${report.reportNumber ?? report.propertyAddress}`;
+}
+
+function defectLabel(defect: LocalDefect): string {
+  return `Defect #${defect.defectNumber}: ${defect.title}`;
+}
+
+function elementLabel(element: LocalRoofElement): string {
+  return `Roof element: ${element.elementType} (${element.location})`;
+}
+
+// ============================================
+// CONFLICT MERGE SERVICE
+// ============================================
+
+class ConflictMergeService {
+  /**
+   * Record the current local report graph as the agreed base version
+   *
+   * Call after the server has accepted the report or after downloading it.
+   * Entities with open conflicts keep their existing base.
+   */
+  async captureBaseVersions(reportId: string): Promise<void> {
+    const data = await getReportWithRelations(reportId);
+    if (!data) return;
+
+    const save = async (entityType: MergeEntityType, entityId: string, snapshot: Record<string, unknown>) => {
+      if (await getSyncConflict(conflictId(entityType, entityId))) return;
+      await saveSyncBaseVersion(entityType, entityId, reportId, snapshot);
+    };
+
+    await save("report", reportId, toReportSnapshot(data.report));
+    for (const defect of data.defects) {
+      await save("defect", defect.id, toSnapshot("defect", defect));
+    }
+    for (const element of data.elements) {
+      await save("element", element.id, toSnapshot("element", element));
+    }
+  }
+
+  /**
+   * Merge the server copy of a report graph into the local one
+   */
+  async reconcileReport(reportId: string, serverReport: ServerReportGraph): Promise<ReconcileResult> {
+    const local = await getReportWithRelations(reportId);
+    if (!local) {
+      return { autoMergedFields: 0, conflicts: [], needsUpload: false };
+    }
+
+    const now = new Date().toISOString();
+    const conflicts: SyncConflict[] = [];
+    let autoMergedFields = 0;
+    let needsUpload = false;
+
+    // Rows deleted here but not yet acknowledged are hidden from local reads;
+    // merging them would bring them back as server additions
+    const deletedKeys = await getDeletedEntityKeys();
+    const serverElements = (serverReport.roofElements ?? []).filter((e) => !deletedKeys.has(`element:${e.id}`));
+    const serverDefects = (serverReport.defects ?? []).filter((d) => !deletedKeys.has(`defect:${d.id}`));
+    // The server still has them, so the deletions must go up with the report
+    if (
+      serverElements.length < (serverReport.roofElements ?? []).length ||
+      serverDefects.length < (serverReport.defects ?? []).length
+    ) {
+      needsUpload = true;
+    }
+
+    // Roof elements first so merged defects can reference server-added elements
+    const localElements = new Map(local.elements.map((e) => [e.id, e]));
+    for (const serverElement of serverElements) {
+      const serverSnapshot = toSnapshot("element", serverElement);
+      const localElement = localElements.get(serverElement.id);
+
+      if (!localElement) {
+        // Added on the server (e.g. by a reviewer)
+        await saveRoofElement({
+          ...(serverSnapshot as unknown as LocalRoofElement),
+          id: serverElement.id,
+          reportId,
+          measurementJson: serverElement.measurement ? JSON.stringify(serverElement.measurement) : null,
+          syncStatus: "synced",
+          createdAt: serverElement.createdAt,
+          updatedAt: serverElement.updatedAt,
+          syncedAt: now,
+        });
+        await saveSyncBaseVersion("element", serverElement.id, reportId, serverSnapshot);
+        continue;
+      }
+
+      const outcome = await this.mergeEntity({
+        entityType: "element",
+        entityId: localElement.id,
+        reportId,
+        label: elementLabel(localElement),
+        local: toSnapshot("element", localElement),
+        server: serverSnapshot,
+        localUpdatedAt: localElement.updatedAt,
+        serverUpdatedAt: serverElement.updatedAt,
+      });
+      autoMergedFields += outcome.autoResolved;
+      if (outcome.conflict) conflicts.push(outcome.conflict);
+      if (outcome.differsFromServer) needsUpload = true;
+
+      if (!valuesEqual(outcome.merged, toSnapshot("element", localElement))) {
+        const merged = { ...localElement, ...(outcome.merged as Partial<LocalRoofElement>) };
+        await saveRoofElement({
+          ...merged,
+          // Keep whichever side's calculation still explains the merged pitch and area
+          measurementJson: measurementJsonFor(merged.pitch, merged.area, [
+            localElement.measurementJson,
+            serverElement.measurement ? JSON.stringify(serverElement.measurement) : null,
+          ]),
+          syncStatus: outcome.differsFromServer ? "pending" : "synced",
+          updatedAt: now,
+        });
+      }
+    }
+
+    // Defects
+    const localDefects = new Map(local.defects.map((d) => [d.id, d]));
+    for (const serverDefect of serverDefects) {
+      const serverSnapshot = toSnapshot("defect", serverDefect);
+      const localDefect = localDefects.get(serverDefect.id);
+
+      if (!localDefect) {
+        await saveDefect({
+          ...(serverSnapshot as unknown as LocalDefect),
+          id: serverDefect.id,
+          reportId,
+          defectNumber: serverDefect.defectNumber,
+          syncStatus: "synced",
+          createdAt: serverDefect.createdAt,
+          updatedAt: serverDefect.updatedAt,
+          syncedAt: now,
+        });
+        await saveSyncBaseVersion("defect", serverDefect.id, reportId, serverSnapshot);
+        continue;
+      }
+
+      const outcome = await this.mergeEntity({
+        entityType: "defect",
+        entityId: localDefect.id,
+        reportId,
+        label: defectLabel(localDefect),
+        local: toSnapshot("defect", localDefect),
+        server: serverSnapshot,
+        localUpdatedAt: localDefect.updatedAt,
+        serverUpdatedAt: serverDefect.updatedAt,
+      });
+      autoMergedFields += outcome.autoResolved;
+      if (outcome.conflict) conflicts.push(outcome.conflict);
+      if (outcome.differsFromServer) needsUpload = true;
+
+      if (!valuesEqual(outcome.merged, toSnapshot("defect", localDefect))) {
+        await saveDefect({
+          ...localDefect,
+          ...(outcome.merged as Partial<LocalDefect>),
+          syncStatus: outcome.differsFromServer ? "pending" : "synced",
+          updatedAt: now,
+        });
+      }
+    }
+
+    // Report fields
+    const reportOutcome = await this.mergeEntity({
+      entityType: "report",
+      entityId: reportId,
+      reportId,
+      label: reportLabel(local.report),
+      local: toReportSnapshot(local.report),
+      server: pickMergeFields("report", serverReport as unknown as Record<string, unknown>),
+      localUpdatedAt: local.report.updatedAt,
+      serverUpdatedAt: serverReport.updatedAt,
+    });
+    autoMergedFields += reportOutcome.autoResolved;
+    if (reportOutcome.conflict) conflicts.push(reportOutcome.conflict);
+    if (reportOutcome.differsFromServer) needsUpload = true;
+
+    // Local-only defects/elements still need uploading
+    const serverDefectIds = new Set((serverReport.defects ?? []).map((d) => d.id));
+    const serverElementIds = new Set((serverReport.roofElements ?? []).map((e) => e.id));
+    if (
+      local.defects.some((d) => !serverDefectIds.has(d.id)) ||
+      local.elements.some((e) => !serverElementIds.has(e.id))
+    ) {
+      needsUpload = true;
+    }
+
+    const mergedReport = applyReportSnapshot(local.report, reportOutcome.merged);
+    await saveReport({
+      ...mergedReport,
+      reportNumber: local.report.reportNumber ?? serverReport.reportNumber,
+      // Held back from upload while conflicts are open (see getPendingSyncReports)
+      syncStatus: needsUpload || conflicts.length > 0 ? "pending" : "synced",
+      updatedAt: needsUpload ? now : serverReport.updatedAt,
+      syncedAt: now,
+      lastSyncError: null,
+    });
+
+    console.log(
+      `[ConflictMerge] Report ${reportId}: ${autoMergedFields} field(s) auto-merged, ` +
+        `${conflicts.length} entit${conflicts.length === 1 ? "y" : "ies"} need review`
+    );
+
+    return { autoMergedFields, conflicts, needsUpload };
+  }
+
+  /**
+   * Merge one entity and persist its base/conflict state
+   */
+  private async mergeEntity(params: {
+    entityType: MergeEntityType;
+    entityId: string;
+    reportId: string;
+    label: string;
+    local: Record<string, unknown>;
+    server: Record<string, unknown>;
+    localUpdatedAt: string;
+    serverUpdatedAt: string;
+  }): Promise<EntityMergeOutcome> {
+    const { entityType, entityId, reportId, local, server } = params;
+    const fields = MERGE_FIELDS[entityType];
+    const id = conflictId(entityType, entityId);
+
+    const base = await getSyncBaseVersion(entityType, entityId);
+    const result = threeWayMerge(base, local, server, fields);
+
+    let conflict: SyncConflict | null = null;
+    if (result.conflicts.length > 0) {
+      conflict = {
+        id,
+        reportId,
+        entityType,
+        entityId,
+        label: params.label,
+        localVersion: local,
+        serverVersion: server,
+        localUpdatedAt: params.localUpdatedAt,
+        serverUpdatedAt: params.serverUpdatedAt,
+        fieldConflicts: result.conflicts,
+        autoResolvedFields: result.autoResolved.map((r) => r.field),
+      };
+      await saveSyncConflict(conflict);
+    } else {
+      // Server copy is now the agreed base; local-only changes upload on top of it
+      await saveSyncBaseVersion(entityType, entityId, reportId, server);
+      await deleteSyncConflict(id);
+    }
+
+    const differsFromServer = fields.some((field) => !valuesEqual(result.merged[field], server[field]));
+
+    return {
+      merged: result.merged,
+      autoResolved: result.autoResolved.length,
+      conflict,
+      differsFromServer,
+    };
+  }
+
+  /**
+   * Apply the inspector's decision for one conflicted entity
+   */
+  async resolveConflict(input: ConflictResolutionInput): Promise<ResolveConflictResult> {
+    const conflict = await getSyncConflict(input.conflictId);
+    if (!conflict) {
+      return { success: false, error: "Conflict not found" };
+    }
+
+    const choices: Record<string, "keep_local" | "keep_server"> = {};
+    for (const fieldConflict of conflict.fieldConflicts) {
+      choices[fieldConflict.field] =
+        input.resolution === "merge"
+          ? input.fieldResolutions?.[fieldConflict.field] ?? "keep_server"
+          : input.resolution;
+    }
+
+    const now = new Date().toISOString();
+
+    try {
+      switch (conflict.entityType) {
+        case "report": {
+          const report = await getReport(conflict.entityId);
+          if (!report) return { success: false, error: "Report not found" };
+          const resolved = applyFieldResolutions(toReportSnapshot(report), conflict.fieldConflicts, choices);
+          await saveReport({
+            ...applyReportSnapshot(report, resolved),
+            syncStatus: "pending",
+            updatedAt: now,
+          });
+          break;
+        }
+        case "defect": {
+          const defects = await getDefectsForReport(conflict.reportId);
+          const defect = defects.find((d) => d.id === conflict.entityId);
+          if (!defect) return { success: false, error: "Defect not found" };
+          const resolved = applyFieldResolutions(toSnapshot("defect", defect), conflict.fieldConflicts, choices);
+          await saveDefect({
+            ...defect,
+            ...(resolved as Partial<LocalDefect>),
+            syncStatus: "pending",
+            updatedAt: now,
+          });
+          break;
+        }
+        case "element": {
+          const elements = await getRoofElementsForReport(conflict.reportId);
+          const element = elements.find((e) => e.id === conflict.entityId);
+          if (!element) return { success: false, error: "Roof element not found" };
+          const resolved = applyFieldResolutions(toSnapshot("element", element), conflict.fieldConflicts, choices);
+          const updated = { ...element, ...(resolved as Partial<LocalRoofElement>) };
+          await saveRoofElement({
+            ...updated,
+            measurementJson: measurementJsonFor(updated.pitch, updated.area, [element.measurementJson]),
+            syncStatus: "pending",
+            updatedAt: now,
+          });
+          break;
+        }
+        default:
+          return { success: false, error: `Unsupported entity type: ${conflict.entityType}` };
+      }
+
+      await saveSyncBaseVersion(
+        conflict.entityType as MergeEntityType,
+        conflict.entityId,
+        conflict.reportId,
+        conflict.serverVersion
+      );
+      await deleteSyncConflict(conflict.id);
+
+      // Re-queue the report so the resolution is uploaded
+      const report = await getReport(conflict.reportId);
+      if (report && report.syncStatus === "synced") {
+        await saveReport({ ...report, syncStatus: "pending", updatedAt: now });
+      }
+
+      console.log(`[ConflictMerge] Resolved ${conflict.id} (${input.resolution})`);
+      return { success: true };
+    } catch (error) {
+      console.error("[ConflictMerge] Failed to resolve conflict:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to resolve conflict",
+      };
+    }
+  }
+
+  /**
+   * Conflicts still waiting for the inspector
+   */
+  async getPendingConflicts(): Promise<SyncConflict[]> {
+    return getSyncConflicts();
+  }
+}
+
+// Export singleton instance
+export const conflictMergeService = new ConflictMergeService();
+
+// Export convenience functions
+export async function getPendingConflicts(): Promise<SyncConflict[]> {
+  return conflictMergeService.getPendingConflicts();
+}
+
+export async function resolveConflict(input: ConflictResolutionInput): Promise<ResolveConflictResult> {
+  return conflictMergeService.resolveConflict(input);
+}
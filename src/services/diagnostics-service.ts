@@ -0,0 +1,245 @@
+/**
+ * Diagnostics Service
+ * Builds the "Send diagnostics" bundle for support
+ *
+ * Bundle layout:
+ * - diagnostics.json  <- App and device, database stats and migrations,
+ *                        storage health, sync state and queue, pending media,
+ *                        background task status and history
+ * - logs.jsonl        <- Persisted log entries, oldest first
+ *
+ * Every section is collected independently: one that fails (e.g. the
+ * database is still locked) is listed under `unavailable` and the rest of
+ * the bundle is still written. Logs are already redacted by the log store;
+ * queue payloads and errors are redacted here. No photos, recordings or
+ * report content beyond counts are included.
+ */
+
+import JSZip from "jszip";
+import Constants from "expo-constants";
+import * as Device from "expo-device";
+import {
+  getInfoAsync,
+  makeDirectoryAsync,
+  writeAsStringAsync,
+  EncodingType,
+} from "expo-file-system/legacy";
+import { Platform } from "react-native";
+import {
+  MAX_SYNC_RETRY_ATTEMPTS,
+  PERMANENTLY_FAILED_STATUS,
+  getDatabaseStats,
+  getPendingUploadPhotos,
+  getPendingUploadVideos,
+  getPendingUploadVoiceNotes,
+  getSchemaMigrationHistory,
+  getSyncQueue,
+  getSyncState,
+  isDatabaseOpen,
+} from "../lib/sqlite";
+import { STORAGE_PATHS, verifyStorageHealth } from "../lib/file-storage";
+import {
+  backgroundTaskHistory,
+  diagnosticsFilename,
+  logEntriesToJsonl,
+  summarizeSyncQueue,
+  type BackgroundTaskRun,
+  type SyncQueueSummary,
+} from "../lib/diagnostics";
+import type { StoredLogEntry } from "../lib/log-store";
+import type { LocalMigrationRecord, LocalSyncState } from "../types/database";
+import {
+  BACKGROUND_SYNC_LOG_SOURCE,
+  getBackgroundSyncStatus,
+  getStatusString,
+  type BackgroundSyncStatus,
+} from "./background-sync";
+import { logStoreService } from "./log-store-service";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DiagnosticsReport {
+  format: "ranz-diagnostics";
+  formatVersion: 1;
+  generatedAt: string;
+  app: {
+    version: string | null;
+    platform: string;
+    osVersion: string | null;
+    deviceModel: string | null;
+  };
+  database: {
+    open: boolean;
+    stats: Awaited<ReturnType<typeof getDatabaseStats>> | null;
+    migrations: LocalMigrationRecord[];
+  };
+  storage: Awaited<ReturnType<typeof verifyStorageHealth>> | null;
+  sync: {
+    state: LocalSyncState | null;
+    queue: SyncQueueSummary | null;
+    pendingMedia: { photos: number; videos: number; voiceNotes: number } | null;
+  };
+  backgroundTasks: {
+    status: (BackgroundSyncStatus & { statusLabel: string }) | null;
+    history: BackgroundTaskRun[];
+  };
+  logs: {
+    entries: number;
+    bytesOnDisk: number;
+  };
+  /** Sections that could not be collected, with the reason */
+  unavailable: Record<string, string>;
+}
+
+export interface DiagnosticsBundleResult {
+  success: boolean;
+  uri?: string;
+  filename?: string;
+  error?: string;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+class DiagnosticsService {
+  /**
+   * Gather the report and the log entries that go with it
+   */
+  async collect(): Promise<{ report: DiagnosticsReport; logs: StoredLogEntry[] }> {
+    const unavailable: Record<string, string> = {};
+
+    const section = async <T>(name: string, collect: () => Promise<T>, fallback: T): Promise<T> => {
+      try {
+        return await collect();
+      } catch (error) {
+        unavailable[name] = error instanceof Error ? error.message : String(error);
+        return fallback;
+      }
+    };
+
+    const databaseOpen = isDatabaseOpen();
+    if (!databaseOpen) {
+      unavailable.database = "Local data is locked";
+    }
+    const fromDatabase = <T>(name: string, collect: () => Promise<T>, fallback: T): Promise<T> =>
+      databaseOpen ? section(name, collect, fallback) : Promise.resolve(fallback);
+
+    const logs = await section("logs", () => logStoreService.read(), []);
+    const bytesOnDisk = await section("logSize", () => logStoreService.getSize(), 0);
+
+    const report: DiagnosticsReport = {
+      format: "ranz-diagnostics",
+      formatVersion: 1,
+      generatedAt: new Date().toISOString(),
+      app: {
+        version: Constants.expoConfig?.version ?? null,
+        platform: Platform.OS,
+        osVersion: Device.osVersion ?? null,
+        deviceModel: Device.modelName ?? null,
+      },
+      database: {
+        open: databaseOpen,
+        stats: await fromDatabase("databaseStats", getDatabaseStats, null),
+        migrations: await fromDatabase("migrations", getSchemaMigrationHistory, []),
+      },
+      storage: await section("storage", verifyStorageHealth, null),
+      sync: {
+        state: await fromDatabase("syncState", getSyncState, null),
+        queue: await fromDatabase(
+          "syncQueue",
+          async () =>
+            summarizeSyncQueue(await getSyncQueue(), {
+              maxAttempts: MAX_SYNC_RETRY_ATTEMPTS,
+              failedStatus: PERMANENTLY_FAILED_STATUS,
+            }),
+          null
+        ),
+        pendingMedia: await fromDatabase(
+          "pendingMedia",
+          async () => {
+            const [photos, videos, voiceNotes] = await Promise.all([
+              getPendingUploadPhotos(),
+              getPendingUploadVideos(),
+              getPendingUploadVoiceNotes(),
+            ]);
+            return { photos: photos.length, videos: videos.length, voiceNotes: voiceNotes.length };
+          },
+          null
+        ),
+      },
+      backgroundTasks: {
+        status: await section(
+          "backgroundTasks",
+          async () => {
+            const status = await getBackgroundSyncStatus();
+            return { ...status, statusLabel: getStatusString(status.status) };
+          },
+          null
+        ),
+        history: backgroundTaskHistory(logs, BACKGROUND_SYNC_LOG_SOURCE),
+      },
+      logs: {
+        entries: logs.length,
+        bytesOnDisk,
+      },
+      unavailable,
+    };
+
+    return { report, logs };
+  }
+
+  /**
+   * Write the bundle to the exports directory for sharing
+   */
+  async exportBundle(): Promise<DiagnosticsBundleResult> {
+    if (Platform.OS === "web") {
+      return { success: false, error: "Diagnostics are only available in the mobile app" };
+    }
+
+    try {
+      const { report, logs } = await this.collect();
+
+      const zip = new JSZip();
+      zip.file("diagnostics.json", JSON.stringify(report, null, 2));
+      zip.file("logs.jsonl", logEntriesToJsonl(logs));
+
+      const zipBase64 = await zip.generateAsync({
+        type: "base64",
+        compression: "DEFLATE",
+      });
+
+      const exportDirInfo = await getInfoAsync(STORAGE_PATHS.exports);
+      if (!exportDirInfo.exists) {
+        await makeDirectoryAsync(STORAGE_PATHS.exports, { intermediates: true });
+      }
+
+      const filename = diagnosticsFilename(new Date());
+      const uri = `${STORAGE_PATHS.exports}${filename}`;
+      await writeAsStringAsync(uri, zipBase64, { encoding: EncodingType.Base64 });
+
+      console.log(
+        `[Diagnostics] Wrote ${filename}: ${logs.length} log entries, ${Object.keys(report.unavailable).length} sections unavailable`
+      );
+
+      return { success: true, uri, filename };
+    } catch (error) {
+      console.error("[Diagnostics] Failed to build bundle:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to build diagnostics bundle",
+      };
+    }
+  }
+}
+
+export const diagnosticsService = new DiagnosticsService();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const collectDiagnostics = () => diagnosticsService.collect();
+export const exportDiagnosticsBundle = () => diagnosticsService.exportBundle();
@@ -0,0 +1,532 @@
+/**
+ * Evidence Bundle Service
+ * Packages a report's original evidence into a single ZIP for court or insurer handover
+ *
+ * Bundle layout:
+ * - README.txt            <- How to verify the bundle offline
+ * - manifest.json         <- Report details, per-file hashes, EXIF and GPS
+ * - manifest.csv          <- Same file rows for spreadsheet review
+ * - photos/               <- Photo originals from evidence/originals/
+ * - videos/               <- Video recordings
+ * - voice_notes/          <- Voice note recordings
+ * - custody/              <- Full chain of custody per evidence item
+ *
+ * Every file is hash-verified against its stored originalHash before it is
+ * packed, and each packed file gets an EXPORTED custody event once the bundle
+ * has been written. Files that are missing or fail verification are still
+ * listed in the manifest so the recipient can see exactly what was withheld.
+ *
+ * Hashes use the same method as evidence-service: SHA-256 of the file's
+ * base64 encoding, so verifyFileHash() on an extracted file reproduces them.
+ */
+
+import JSZip from "jszip";
+import {
+  getInfoAsync,
+  makeDirectoryAsync,
+  writeAsStringAsync,
+  readAsStringAsync,
+  deleteAsync,
+  EncodingType,
+} from "expo-file-system/legacy";
+import {
+  getReportWithRelations,
+  getVideosForReport,
+  getVoiceNotesForReport,
+  getUser,
+} from "../lib/sqlite";
+import { STORAGE_PATHS, getOriginalPath, readFileAsBase64 } from "../lib/file-storage";
+import { escapeCsvValue } from "../lib/csv";
+import { verifyFileHash } from "./evidence-service";
+import { getCustodyChain, verifyCustodyChain, logExport } from "./chain-of-custody";
+import type { LocalPhoto, LocalVideo, LocalVoiceNote } from "../types/database";
+import type { ChainOfCustodyEvent, CustodyChainVerification } from "../types/evidence";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BundleEntityType = "photo" | "video" | "voice_note";
+
+/** Where the packed file was read from */
+export type BundleFileSource = "original" | "working_copy" | "missing";
+
+export interface EvidenceManifestItem {
+  entityType: BundleEntityType;
+  id: string;
+  /** Path inside the ZIP (null if the file could not be packed) */
+  path: string | null;
+  filename: string;
+  mimeType: string;
+  fileSize: number | null;
+  originalHash: string;
+  hashAlgorithm: "SHA-256";
+  /** Result of verifyFileHash against originalHash at export time */
+  hashVerified: boolean;
+  source: BundleFileSource;
+  capturedAt: string | null;
+  gpsLat: number | null;
+  gpsLng: number | null;
+  gpsAltitude: number | null;
+  gpsAccuracy: number | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  exposureTime: number | null;
+  fNumber: number | null;
+  iso: number | null;
+  focalLength: number | null;
+  defectId: string | null;
+  roofElementId: string | null;
+  caption: string | null;
+  /** Path of this item's custody log inside the ZIP */
+  custodyPath: string;
+  custodyEventCount: number;
+  custodyChainValid: boolean;
+  custodyHeadHash: string | null;
+}
+
+export interface EvidenceManifest {
+  format: "ranz-evidence-bundle";
+  formatVersion: 1;
+  reportId: string;
+  reportNumber: string | null;
+  propertyAddress: string;
+  inspectionDate: string;
+  exportedAt: string;
+  exportedBy: { id: string; name: string };
+  hashMethod: string;
+  items: EvidenceManifestItem[];
+}
+
+export interface CustodyLogFile {
+  entityType: BundleEntityType;
+  entityId: string;
+  events: ChainOfCustodyEvent[];
+  verification: CustodyChainVerification;
+}
+
+export interface EvidenceBundleResult {
+  success: boolean;
+  uri?: string;
+  filesIncluded: number;
+  /** Items listed in the manifest but not packed */
+  filesMissing: number;
+  /** Packed files whose hash did not match originalHash */
+  hashMismatches: number;
+  error?: string;
+}
+
+export interface BundleFileVerification {
+  entityType: BundleEntityType;
+  id: string;
+  path: string;
+  isValid: boolean;
+  expectedHash: string;
+  actualHash: string | null;
+  error?: string;
+}
+
+export interface EvidenceBundleVerification {
+  success: boolean;
+  allValid: boolean;
+  manifest?: EvidenceManifest;
+  files: BundleFileVerification[];
+  error?: string;
+}
+
+interface BundleSourceItem {
+  entityType: BundleEntityType;
+  record: LocalPhoto | LocalVideo | LocalVoiceNote;
+  /** Candidate file locations, most authoritative first */
+  candidates: { path: string; source: BundleFileSource }[];
+}
+
+const HASH_METHOD =
+  "SHA-256 over the base64 encoding of the file bytes (lowercase hex). " +
+  "Reproduce with: base64 -w0 <file> | sha256sum";
+
+const FOLDER_FOR_TYPE: Record<BundleEntityType, string> = {
+  photo: "photos",
+  video: "videos",
+  voice_note: "voice_notes",
+};
+
+// ============================================
+// MANIFEST HELPERS
+// ============================================
+
+/**
+ * Path of an evidence file inside the bundle
+ */
+export function bundlePathFor(entityType: BundleEntityType, id: string, filename: string): string {
+  const safeName = filename.replace(/[^A-Za-z0-9._-]/g, "_");
+  return `${FOLDER_FOR_TYPE[entityType]}/${id}_${safeName}`;
+}
+
+/**
+ * Path of an evidence item's custody log inside the bundle
+ */
+export function custodyPathFor(entityType: BundleEntityType, id: string): string {
+  return `custody/${entityType}_${id}.json`;
+}
+
+const CSV_COLUMNS: (keyof EvidenceManifestItem)[] = [
+  "entityType",
+  "id",
+  "path",
+  "filename",
+  "mimeType",
+  "fileSize",
+  "originalHash",
+  "hashVerified",
+  "source",
+  "capturedAt",
+  "gpsLat",
+  "gpsLng",
+  "gpsAltitude",
+  "gpsAccuracy",
+  "cameraMake",
+  "cameraModel",
+  "exposureTime",
+  "fNumber",
+  "iso",
+  "focalLength",
+  "defectId",
+  "roofElementId",
+  "caption",
+  "custodyPath",
+  "custodyEventCount",
+  "custodyChainValid",
+  "custodyHeadHash",
+];
+
+/**
+ * Render manifest items as CSV (one row per evidence item)
+ */
+export function manifestToCsv(items: EvidenceManifestItem[]): string {
+  const header = CSV_COLUMNS.join(",");
+  const rows = items.map((item) => CSV_COLUMNS.map((col) => escapeCsvValue(item[col])).join(","));
+  return [header, ...rows].join("\r\n") + "\r\n";
+}
+
+function buildReadme(manifest: EvidenceManifest): string {
+  return [
+    "RANZ Roofing Report - Evidence Bundle",
+    "",
+    `Report: ${manifest.reportNumber ?? manifest.reportId}`,
+    `Property: ${manifest.propertyAddress}`,
+    `Exported: ${manifest.exportedAt} by ${manifest.exportedBy.name}`,
+    `Items: ${manifest.items.length}`,
+    "",
+    "Verifying file integrity",
+    "------------------------",
+    "Each evidence file's originalHash in manifest.json / manifest.csv was",
+    "computed on the capture device at the moment of capture.",
+    `Hash method: ${manifest.hashMethod}`,
+    "",
+    "A file whose recomputed hash matches originalHash is byte-identical to",
+    "the original capture. custody/ holds the hash-linked chain of custody",
+    "for every item; each event's eventHash covers the previous event.",
+    "",
+  ].join("\n");
+}
+
+function manifestItemFor(
+  item: BundleSourceItem,
+  path: string | null,
+  source: BundleFileSource,
+  fileSize: number | null,
+  hashVerified: boolean,
+  custody: CustodyLogFile
+): EvidenceManifestItem {
+  const { record, entityType } = item;
+  const photo = entityType === "photo" ? (record as LocalPhoto) : null;
+  const video = entityType === "video" ? (record as LocalVideo) : null;
+  const voiceNote = entityType === "voice_note" ? (record as LocalVoiceNote) : null;
+
+  return {
+    entityType,
+    id: record.id,
+    path,
+    filename: photo?.originalFilename ?? video?.originalFilename ?? record.filename,
+    mimeType: record.mimeType,
+    fileSize,
+    originalHash: record.originalHash,
+    hashAlgorithm: "SHA-256",
+    hashVerified,
+    source,
+    capturedAt: photo?.capturedAt ?? video?.recordedAt ?? voiceNote?.recordedAt ?? null,
+    gpsLat: photo?.gpsLat ?? video?.gpsLat ?? null,
+    gpsLng: photo?.gpsLng ?? video?.gpsLng ?? null,
+    gpsAltitude: photo?.gpsAltitude ?? null,
+    gpsAccuracy: photo?.gpsAccuracy ?? null,
+    cameraMake: photo?.cameraMake ?? null,
+    cameraModel: photo?.cameraModel ?? null,
+    exposureTime: photo?.exposureTime ?? null,
+    fNumber: photo?.fNumber ?? null,
+    iso: photo?.iso ?? null,
+    focalLength: photo?.focalLength ?? null,
+    defectId: record.defectId,
+    roofElementId: record.roofElementId,
+    caption: photo?.caption ?? video?.title ?? null,
+    custodyPath: custodyPathFor(entityType, record.id),
+    custodyEventCount: custody.events.length,
+    custodyChainValid: custody.verification.isValid,
+    custodyHeadHash: custody.verification.headHash,
+  };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+class EvidenceBundleService {
+  /**
+   * Build, write and record an evidence bundle for a report
+   *
+   * @param reportId - Local report ID
+   * @returns Result with the ZIP file URI
+   */
+  async exportEvidenceBundle(reportId: string): Promise<EvidenceBundleResult> {
+    try {
+      const data = await getReportWithRelations(reportId);
+      if (!data) {
+        return { success: false, filesIncluded: 0, filesMissing: 0, hashMismatches: 0, error: "Report not found" };
+      }
+
+      const [videos, voiceNotes, user] = await Promise.all([
+        getVideosForReport(reportId),
+        getVoiceNotesForReport(reportId),
+        getUser(),
+      ]);
+      const userId = user?.id ?? "unknown";
+      const userName = user?.name ?? "Unknown User";
+
+      const sources: BundleSourceItem[] = [
+        ...data.photos.map((photo) => ({
+          entityType: "photo" as const,
+          record: photo,
+          candidates: [
+            { path: getOriginalPath(photo.originalFilename), source: "original" as const },
+            { path: photo.localUri, source: "working_copy" as const },
+          ],
+        })),
+        ...videos.map((video) => ({
+          entityType: "video" as const,
+          record: video,
+          // Recordings are never re-encoded, so the recorded file is the original
+          candidates: [{ path: video.localUri, source: "original" as const }],
+        })),
+        ...voiceNotes.map((note) => ({
+          entityType: "voice_note" as const,
+          record: note,
+          candidates: [{ path: note.localUri, source: "original" as const }],
+        })),
+      ];
+
+      const zip = new JSZip();
+      const items: EvidenceManifestItem[] = [];
+      const packed: { entityType: BundleEntityType; id: string; hash: string }[] = [];
+      let hashMismatches = 0;
+
+      for (const item of sources) {
+        const { record, entityType } = item;
+
+        const [events, verification] = await Promise.all([
+          getCustodyChain(entityType, record.id),
+          verifyCustodyChain(entityType, record.id),
+        ]);
+        const custody: CustodyLogFile = { entityType, entityId: record.id, events, verification };
+        zip.file(custodyPathFor(entityType, record.id), JSON.stringify(custody, null, 2));
+
+        const located = await this.locateFile(item);
+        if (!located) {
+          console.warn(`[EvidenceBundle] File missing for ${entityType} ${record.id}`);
+          items.push(manifestItemFor(item, null, "missing", null, false, custody));
+          continue;
+        }
+
+        const check = await verifyFileHash(located.path, record.originalHash);
+        if (!check.isValid) {
+          hashMismatches++;
+          console.warn(`[EvidenceBundle] Hash mismatch for ${entityType} ${record.id} (${located.source})`);
+        }
+
+        const path = bundlePathFor(entityType, record.id, record.filename);
+        const base64 = await readFileAsBase64(located.path);
+        // Media is already compressed; STORE keeps bundling fast on device
+        zip.file(path, base64, { base64: true, compression: "STORE" });
+
+        items.push(manifestItemFor(item, path, located.source, located.size, check.isValid, custody));
+        packed.push({ entityType, id: record.id, hash: record.originalHash });
+      }
+
+      const manifest: EvidenceManifest = {
+        format: "ranz-evidence-bundle",
+        formatVersion: 1,
+        reportId,
+        reportNumber: data.report.reportNumber,
+        propertyAddress: data.report.propertyAddress,
+        inspectionDate: data.report.inspectionDate,
+        exportedAt: new Date().toISOString(),
+        exportedBy: { id: userId, name: userName },
+        hashMethod: HASH_METHOD,
+        items,
+      };
+
+      zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+      zip.file("manifest.csv", manifestToCsv(items));
+      zip.file("README.txt", buildReadme(manifest));
+
+      const zipBase64 = await zip.generateAsync({
+        type: "base64",
+        compression: "DEFLATE",
+      });
+
+      const exportDirInfo = await getInfoAsync(STORAGE_PATHS.exports);
+      if (!exportDirInfo.exists) {
+        await makeDirectoryAsync(STORAGE_PATHS.exports, { intermediates: true });
+      }
+
+      const label = (data.report.reportNumber ?? reportId).replace(/[^A-Za-z0-9_-]/g, "_");
+      const zipFilename = `evidence_${label}_${Date.now()}.zip`;
+      const uri = `${STORAGE_PATHS.exports}${zipFilename}`;
+      await writeAsStringAsync(uri, zipBase64, { encoding: EncodingType.Base64 });
+
+      // Record the export only once the bundle actually exists on disk
+      for (const entry of packed) {
+        await logExport(entry.entityType, entry.id, userId, userName, entry.hash, `Evidence bundle ${zipFilename}`);
+      }
+
+      const filesMissing = items.length - packed.length;
+      console.log(
+        `[EvidenceBundle] Wrote ${zipFilename}: ${packed.length} files, ${filesMissing} missing, ${hashMismatches} hash mismatches`
+      );
+
+      return {
+        success: true,
+        uri,
+        filesIncluded: packed.length,
+        filesMissing,
+        hashMismatches,
+      };
+    } catch (error) {
+      console.error("[EvidenceBundle] Failed to export bundle:", error);
+      return {
+        success: false,
+        filesIncluded: 0,
+        filesMissing: 0,
+        hashMismatches: 0,
+        error: error instanceof Error ? error.message : "Failed to export evidence bundle",
+      };
+    }
+  }
+
+  /**
+   * Verify every file in an evidence bundle against its manifest hash
+   *
+   * Extracts each file to temp/ and checks it with verifyFileHash, so the
+   * result is exactly what an offline recipient would compute.
+   *
+   * @param bundleUri - Path to the ZIP file
+   */
+  async verifyEvidenceBundle(bundleUri: string): Promise<EvidenceBundleVerification> {
+    const workDir = `${STORAGE_PATHS.temp}bundle_verify_${Date.now()}/`;
+
+    try {
+      const zipBase64 = await readAsStringAsync(bundleUri, { encoding: EncodingType.Base64 });
+      const zip = await JSZip.loadAsync(zipBase64, { base64: true });
+
+      const manifestFile = zip.file("manifest.json");
+      if (!manifestFile) {
+        return { success: false, allValid: false, files: [], error: "Bundle has no manifest.json" };
+      }
+      const manifest = JSON.parse(await manifestFile.async("string")) as EvidenceManifest;
+
+      await makeDirectoryAsync(workDir, { intermediates: true });
+      const files: BundleFileVerification[] = [];
+
+      for (const item of manifest.items) {
+        if (!item.path) continue;
+
+        const entry = zip.file(item.path);
+        if (!entry) {
+          files.push({
+            entityType: item.entityType,
+            id: item.id,
+            path: item.path,
+            isValid: false,
+            expectedHash: item.originalHash,
+            actualHash: null,
+            error: "File listed in manifest is not in the bundle",
+          });
+          continue;
+        }
+
+        const extractedPath = `${workDir}${item.path.replace(/\//g, "_")}`;
+        await writeAsStringAsync(extractedPath, await entry.async("base64"), {
+          encoding: EncodingType.Base64,
+        });
+
+        const result = await verifyFileHash(extractedPath, item.originalHash);
+        files.push({
+          entityType: item.entityType,
+          id: item.id,
+          path: item.path,
+          isValid: result.isValid,
+          expectedHash: result.expectedHash,
+          actualHash: result.actualHash,
+        });
+      }
+
+      return {
+        success: true,
+        allValid: files.every((f) => f.isValid),
+        manifest,
+        files,
+      };
+    } catch (error) {
+      console.error("[EvidenceBundle] Failed to verify bundle:", error);
+      return {
+        success: false,
+        allValid: false,
+        files: [],
+        error: error instanceof Error ? error.message : "Failed to verify evidence bundle",
+      };
+    } finally {
+      await deleteAsync(workDir, { idempotent: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Find the first existing file for an evidence item
+   */
+  private async locateFile(
+    item: BundleSourceItem
+  ): Promise<{ path: string; source: BundleFileSource; size: number | null } | null> {
+    for (const candidate of item.candidates) {
+      if (!candidate.path) continue;
+      const info = await getInfoAsync(candidate.path);
+      if (info.exists) {
+        return {
+          path: candidate.path,
+          source: candidate.source,
+          size: (info as { size?: number }).size ?? null,
+        };
+      }
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const evidenceBundleService = new EvidenceBundleService();
+
+// Export convenience functions
+export async function exportEvidenceBundle(reportId: string): Promise<EvidenceBundleResult> {
+  return evidenceBundleService.exportEvidenceBundle(reportId);
+}
+
+export async function verifyEvidenceBundle(bundleUri: string): Promise<EvidenceBundleVerification> {
+  return evidenceBundleService.verifyEvidenceBundle(bundleUri);
+}
@@ -0,0 +1,221 @@
+/**
+ * File Encryption Service
+ * Optional encryption of evidence files and working copies at rest
+ *
+ * When enabled, new originals are written encrypted and working copies,
+ * thumbnails and cached downloads are encrypted in place once they have
+ * been processed. Screens and uploads that need a real image file get a
+ * short-lived decrypted copy in temp/decrypted/, which is removed when the
+ * app locks.
+ *
+ * Originals written before encryption was enabled stay as they are; they
+ * are immutable. Hash verification always runs over the decrypted content
+ * (see readFileAsBase64), so originalHash still matches either way.
+ */
+
+import {
+  documentDirectory,
+  readAsStringAsync,
+  writeAsStringAsync,
+  readDirectoryAsync,
+  getInfoAsync,
+  makeDirectoryAsync,
+  deleteAsync,
+  EncodingType,
+} from "expo-file-system/legacy";
+import {
+  STORAGE_PATHS,
+  encryptFileContent,
+  isEncryptedFile,
+  readFileAsBase64,
+} from "../lib/file-storage";
+import { getFileEncryptionEnabled, saveFileEncryptionEnabled } from "../lib/storage";
+import { photoLogger } from "../lib/logger";
+
+/** Directories whose files may be rewritten encrypted or decrypted (annotated images included) */
+const WORKING_DIRECTORIES = [
+  STORAGE_PATHS.photos,
+  STORAGE_PATHS.thumbnails,
+  STORAGE_PATHS.photoCache,
+  `${documentDirectory}annotations/`,
+];
+
+const DECRYPTED_DIRECTORY = `${STORAGE_PATHS.temp}decrypted/`;
+
+// ============================================
+// FILE ENCRYPTION SERVICE
+// ============================================
+
+export class FileEncryptionService {
+  private static instance: FileEncryptionService;
+  private enabled: boolean | null = null;
+  private decrypted = new Map<string, Promise<string>>();
+
+  private constructor() {}
+
+  static getInstance(): FileEncryptionService {
+    if (!FileEncryptionService.instance) {
+      FileEncryptionService.instance = new FileEncryptionService();
+    }
+    return FileEncryptionService.instance;
+  }
+
+  /**
+   * Whether new files should be written encrypted
+   */
+  async isEnabled(): Promise<boolean> {
+    if (this.enabled === null) {
+      this.enabled = await getFileEncryptionEnabled();
+    }
+    return this.enabled;
+  }
+
+  /**
+   * Turn file encryption on or off and convert existing working copies
+   *
+   * Originals are never rewritten, so turning encryption on only protects
+   * originals captured from then on.
+   */
+  async setEnabled(enabled: boolean): Promise<{ success: boolean; converted: number; error?: string }> {
+    try {
+      await saveFileEncryptionEnabled(enabled);
+      this.enabled = enabled;
+
+      let converted = 0;
+      for (const directory of WORKING_DIRECTORIES) {
+        const info = await getInfoAsync(directory);
+        if (!info.exists) continue;
+
+        for (const name of await readDirectoryAsync(directory)) {
+          const changed = enabled
+            ? await this.encryptInPlace(`${directory}${name}`)
+            : await this.decryptInPlace(`${directory}${name}`);
+          if (changed) converted++;
+        }
+      }
+
+      if (!enabled) {
+        await this.clearDecryptedFiles();
+      }
+
+      console.log(`[FileEncryption] ${enabled ? "Encrypted" : "Decrypted"} ${converted} working files`);
+      return { success: true, converted };
+    } catch (error) {
+      console.error("[FileEncryption] Failed to update file encryption:", error);
+      return {
+        success: false,
+        converted: 0,
+        error: error instanceof Error ? error.message : "Failed to update file encryption",
+      };
+    }
+  }
+
+  /**
+   * Encrypt a working file in place if encryption is enabled
+   *
+   * Call after any processing (thumbnailing, hash checks) that needs the
+   * plaintext file. Refuses to touch originals.
+   */
+  async protectWorkingFile(path: string | null | undefined): Promise<void> {
+    if (!path || !(await this.isEnabled())) return;
+    try {
+      await this.encryptInPlace(path);
+    } catch (error) {
+      photoLogger.warn("Failed to encrypt working file", {
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async encryptInPlace(path: string): Promise<boolean> {
+    if (path.startsWith(STORAGE_PATHS.originals)) {
+      throw new Error("Originals are immutable and cannot be re-encrypted");
+    }
+    const info = await getInfoAsync(path);
+    if (!info.exists || info.isDirectory || (await isEncryptedFile(path))) return false;
+
+    const content = await readAsStringAsync(path, { encoding: EncodingType.Base64 });
+    await writeAsStringAsync(path, await encryptFileContent(content), { encoding: EncodingType.Base64 });
+    return true;
+  }
+
+  private async decryptInPlace(path: string): Promise<boolean> {
+    if (path.startsWith(STORAGE_PATHS.originals) || !(await isEncryptedFile(path))) return false;
+    await writeAsStringAsync(path, await readFileAsBase64(path), { encoding: EncodingType.Base64 });
+    return true;
+  }
+
+  /**
+   * URI of a readable copy of a file
+   *
+   * Plaintext and remote files are returned unchanged. Encrypted files are
+   * decrypted once into temp/decrypted/ and reused until the app locks.
+   */
+  async resolvePlaintextUri(uri: string): Promise<string> {
+    if (!uri.startsWith("file://") || !(await isEncryptedFile(uri))) {
+      return uri;
+    }
+
+    const pending = this.decrypted.get(uri);
+    if (pending) return pending;
+
+    const request = this.decryptToTemp(uri).catch((error) => {
+      this.decrypted.delete(uri);
+      throw error;
+    });
+    this.decrypted.set(uri, request);
+    return request;
+  }
+
+  private async decryptToTemp(uri: string): Promise<string> {
+    const dirInfo = await getInfoAsync(DECRYPTED_DIRECTORY);
+    if (!dirInfo.exists) {
+      await makeDirectoryAsync(DECRYPTED_DIRECTORY, { intermediates: true });
+    }
+
+    const name = uri.split("/").pop() ?? `file_${Date.now()}`;
+    const parent = uri.split("/").slice(-2, -1)[0] ?? "file";
+    const target = `${DECRYPTED_DIRECTORY}${parent}_${name}`;
+    await writeAsStringAsync(target, await readFileAsBase64(uri), { encoding: EncodingType.Base64 });
+    return target;
+  }
+
+  /**
+   * Run work against a readable copy of a file, removing the copy afterwards
+   *
+   * Used for uploads so decrypted copies don't outlive the request.
+   */
+  async withPlaintextFile<T>(uri: string, work: (plaintextUri: string) => Promise<T>): Promise<T> {
+    if (!uri.startsWith("file://") || !(await isEncryptedFile(uri))) {
+      return work(uri);
+    }
+
+    const plaintextUri = await this.decryptToTemp(uri);
+    try {
+      return await work(plaintextUri);
+    } finally {
+      if (!this.decrypted.has(uri)) {
+        await deleteAsync(plaintextUri, { idempotent: true });
+      }
+    }
+  }
+
+  /**
+   * Remove every decrypted copy (on lock and logout)
+   */
+  async clearDecryptedFiles(): Promise<void> {
+    this.decrypted.clear();
+    await deleteAsync(DECRYPTED_DIRECTORY, { idempotent: true });
+  }
+}
+
+export const fileEncryptionService = FileEncryptionService.getInstance();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const resolvePlaintextUri = (uri: string) => fileEncryptionService.resolvePlaintextUri(uri);
+export const isFileEncryptionEnabled = () => fileEncryptionService.isEnabled();
+export const setFileEncryptionEnabled = (enabled: boolean) => fileEncryptionService.setEnabled(enabled);
@@ -27,10 +27,118 @@ export {
   logIncludeInReport,
   logVerification,
   logExport,
+  verifyCustodyChain,
   chainOfCustodyService,
   ChainOfCustodyService,
 } from "./chain-of-custody";
 
+// Evidence bundle export
+export {
+  exportEvidenceBundle,
+  verifyEvidenceBundle,
+  evidenceBundleService,
+} from "./evidence-bundle-service";
+
+// Report workflow
+export {
+  transitionReport,
+  isReportEditable,
+  reportWorkflowService,
+} from "./report-workflow-service";
+
+// Downloaded photo cache
+export {
+  resolvePhotoUri,
+  photoCacheService,
+} from "./photo-cache-service";
+
+// File encryption at rest
+export {
+  fileEncryptionService,
+  resolvePlaintextUri,
+  isFileEncryptionEnabled,
+  setFileEncryptionEnabled,
+} from "./file-encryption-service";
+
+// Remote wipe / deprovisioning
+export {
+  remoteWipeService,
+  handleDeviceDirective,
+  resumePendingDeviceWipe,
+  onDeviceWipeComplete,
+} from "./remote-wipe-service";
+export type { RemoteWipeResult } from "./remote-wipe-service";
+
+// Admin user management
+export {
+  userAdminService,
+  performUserAction,
+  inviteUser,
+  processUserAdminQueue,
+} from "./user-admin-service";
+export type { UserAdminActor, UserAdminResult } from "./user-admin-service";
+
+// Admin analytics
+export {
+  analyticsService,
+  getAdminAnalytics,
+  exportAnalyticsCsv,
+} from "./analytics-service";
+export type { AnalyticsSourcePreference, AnalyticsResult } from "./analytics-service";
+
+// Scheduled jobs
+export {
+  scheduledJobService,
+  getJobAgenda,
+  startScheduledJob,
+} from "./scheduled-job-service";
+export type { JobActor, StartJobResult } from "./scheduled-job-service";
+
+// Weather pre-fill
+export {
+  weatherService,
+  historyWeatherProvider,
+  prefillWeather,
+  setWeatherProvider,
+} from "./weather-service";
+
+// Voice note transcription
+export {
+  transcriptionService,
+  serverTranscriptionEngine,
+  setTranscriptionEngine,
+  processTranscriptionQueue,
+  retryFailedTranscriptions,
+  searchVoiceNoteTranscripts,
+} from "./transcription-service";
+export type { TranscriptionJobUpdate } from "./transcription-service";
+
+// Persisted logs and support diagnostics
+export {
+  logStoreService,
+  startLogStore,
+  appendStoredLog,
+  flushLogStore,
+  readStoredLogs,
+  clearStoredLogs,
+} from "./log-store-service";
+export {
+  diagnosticsService,
+  collectDiagnostics,
+  exportDiagnosticsBundle,
+} from "./diagnostics-service";
+export type { DiagnosticsReport, DiagnosticsBundleResult } from "./diagnostics-service";
+export {
+  syncInspectorService,
+  getSyncInspectorItems,
+  getSyncRepairHistory,
+  retrySyncItem,
+  deferSyncItem,
+  requeueSyncItem,
+  exportSyncItem,
+} from "./sync-inspector-service";
+export type { SyncRepairActor, SyncRepairResult } from "./sync-inspector-service";
+
 // Photo capture service
 export {
   photoService,
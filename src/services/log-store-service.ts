@@ -0,0 +1,270 @@
+/**
+ * Log Store Service
+ * Persists redacted log entries to rotating files under STORAGE_PATHS.logs
+ *
+ * Entries from lib/logger.ts (once start() has been called), console.warn
+ * and console.error calls from everywhere else, and background-sync are
+ * buffered briefly and appended to app.log. Warnings and errors are written
+ * straight away, and everything pending is written when the app leaves the
+ * foreground, so the lines leading up to a crash or kill are on disk. Each
+ * write goes to a temp file that then replaces app.log, so a kill mid-write
+ * never loses what was already stored. Files rotate at LOG_FILE_MAX_BYTES
+ * and only LOG_FILE_COUNT are kept. Redaction happens before anything is
+ * written (see lib/log-store.ts).
+ */
+
+import {
+  getInfoAsync,
+  makeDirectoryAsync,
+  readAsStringAsync,
+  writeAsStringAsync,
+  deleteAsync,
+  moveAsync,
+} from "expo-file-system/legacy";
+import { AppState, Platform, type NativeEventSubscription } from "react-native";
+import { STORAGE_PATHS } from "../lib/file-storage";
+import { setConsoleSink, setLogSink } from "../lib/logger";
+import {
+  LOG_FILE_COUNT,
+  LOG_TEMP_FILE_NAME,
+  entryFromConsoleArgs,
+  interruptedWriteRecovery,
+  latestLogEntries,
+  logFileName,
+  logFileNamesOldestFirst,
+  parseLogLines,
+  planLogRotation,
+  serializeLogEntry,
+  shouldRotate,
+  utf8Length,
+  type StoredLogEntry,
+} from "../lib/log-store";
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Info and debug lines are batched for this long before being written */
+const FLUSH_DELAY_MS = 5_000;
+
+/** Write early once this many lines are waiting */
+const MAX_PENDING_LINES = 50;
+
+/** This service's own console source; see writePending */
+const LOG_STORE_SOURCE = "LogStore";
+
+// ============================================
+// SERVICE
+// ============================================
+
+class LogStoreService {
+  private pending: string[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  private get enabled(): boolean {
+    // documentDirectory is not available on web
+    return Platform.OS !== "web";
+  }
+
+  /**
+   * Route lib/logger.ts entries and console warnings and errors to disk,
+   * and write pending lines when the app is backgrounded. Safe to call more
+   * than once.
+   */
+  start(): void {
+    if (!this.enabled || this.appStateSubscription) return;
+
+    setLogSink((entry) =>
+      this.append({
+        timestamp: entry.timestamp,
+        level: entry.level,
+        source: entry.source ?? "App",
+        message: entry.message,
+        context: entry.context,
+      })
+    );
+
+    setConsoleSink((level, args) => {
+      const entry = entryFromConsoleArgs(level, args, new Date().toISOString());
+      if (entry.source === LOG_STORE_SOURCE) return;
+      this.append(entry);
+    });
+
+    this.appStateSubscription = AppState.addEventListener("change", (state) => {
+      if (state !== "active") void this.flush();
+    });
+  }
+
+  /**
+   * Stop routing logger entries and write anything pending
+   */
+  async stop(): Promise<void> {
+    setLogSink(null);
+    setConsoleSink(null);
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    await this.flush();
+  }
+
+  /**
+   * Queue an entry. Warnings and errors are written immediately.
+   */
+  append(entry: StoredLogEntry): void {
+    if (!this.enabled) return;
+
+    this.pending.push(serializeLogEntry(entry));
+
+    if (entry.level === "warn" || entry.level === "error" || this.pending.length >= MAX_PENDING_LINES) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Write pending lines. Resolves once everything queued so far is on disk.
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.writeChain = this.writeChain.then(() => this.writePending());
+    return this.writeChain;
+  }
+
+  /**
+   * Stored entries across all files, oldest first
+   *
+   * @param limit - Keep only the newest entries (0 for all)
+   */
+  async read(limit: number = 0): Promise<StoredLogEntry[]> {
+    if (!this.enabled) return [];
+    await this.flush();
+
+    const entries: StoredLogEntry[] = [];
+    for (const name of logFileNamesOldestFirst()) {
+      const uri = `${STORAGE_PATHS.logs}${name}`;
+      try {
+        const info = await getInfoAsync(uri);
+        if (!info.exists) continue;
+        entries.push(...parseLogLines(await readAsStringAsync(uri)));
+      } catch (error) {
+        console.warn(`[LogStore] Failed to read ${name}:`, error);
+      }
+    }
+
+    return latestLogEntries(entries, limit);
+  }
+
+  /**
+   * Total size of the log files in bytes
+   */
+  async getSize(): Promise<number> {
+    if (!this.enabled) return 0;
+
+    let total = 0;
+    for (let index = 0; index < LOG_FILE_COUNT; index++) {
+      const info = await getInfoAsync(`${STORAGE_PATHS.logs}${logFileName(index)}`);
+      if (info.exists) total += info.size ?? 0;
+    }
+    return total;
+  }
+
+  /**
+   * Delete every log file and anything still pending
+   */
+  async clear(): Promise<void> {
+    this.pending = [];
+    await this.flush();
+    await deleteAsync(STORAGE_PATHS.logs, { idempotent: true });
+    console.log("[LogStore] Logs cleared");
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  /**
+   * Also finishes a write the app was killed during, so reads see it
+   */
+  private async writePending(): Promise<void> {
+    const chunk = this.pending.join("");
+    this.pending = [];
+
+    // Failures go to the console only (the console sink skips this source):
+    // logging them would feed back into the store
+    try {
+      const activeUri = `${STORAGE_PATHS.logs}${logFileName(0)}`;
+      const tempUri = `${STORAGE_PATHS.logs}${LOG_TEMP_FILE_NAME}`;
+      await this.recoverInterruptedWrite(tempUri, activeUri);
+      if (!chunk) return;
+
+      const dirInfo = await getInfoAsync(STORAGE_PATHS.logs);
+      if (!dirInfo.exists) {
+        await makeDirectoryAsync(STORAGE_PATHS.logs, { intermediates: true });
+      }
+
+      const info = await getInfoAsync(activeUri);
+      const currentBytes = info.exists ? (info.size ?? 0) : 0;
+
+      let existing = "";
+      if (shouldRotate(currentBytes, utf8Length(chunk))) {
+        await this.rotate();
+      } else if (info.exists) {
+        existing = await readAsStringAsync(activeUri);
+      }
+
+      // Swap in a complete copy rather than rewriting app.log in place
+      await writeAsStringAsync(tempUri, existing + chunk);
+      await deleteAsync(activeUri, { idempotent: true });
+      await moveAsync({ from: tempUri, to: activeUri });
+    } catch (error) {
+      console.warn(`[${LOG_STORE_SOURCE}] Failed to write logs:`, error);
+    }
+  }
+
+  private async recoverInterruptedWrite(tempUri: string, activeUri: string): Promise<void> {
+    const [temp, active] = await Promise.all([getInfoAsync(tempUri), getInfoAsync(activeUri)]);
+    switch (interruptedWriteRecovery(temp.exists, active.exists)) {
+      case "discard":
+        await deleteAsync(tempUri, { idempotent: true });
+        break;
+      case "restore":
+        await moveAsync({ from: tempUri, to: activeUri });
+        break;
+    }
+  }
+
+  private async rotate(): Promise<void> {
+    for (const step of planLogRotation()) {
+      const from = `${STORAGE_PATHS.logs}${step.from}`;
+      if (step.to === null) {
+        await deleteAsync(from, { idempotent: true });
+        continue;
+      }
+
+      const info = await getInfoAsync(from);
+      if (info.exists) {
+        await moveAsync({ from, to: `${STORAGE_PATHS.logs}${step.to}` });
+      }
+    }
+  }
+}
+
+export const logStoreService = new LogStoreService();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const startLogStore = () => logStoreService.start();
+export const appendStoredLog = (entry: StoredLogEntry) => logStoreService.append(entry);
+export const flushLogStore = () => logStoreService.flush();
+export const readStoredLogs = (limit?: number) => logStoreService.read(limit);
+export const clearStoredLogs = () => logStoreService.clear();
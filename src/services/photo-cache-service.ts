@@ -0,0 +1,183 @@
+/**
+ * Photo Cache Service
+ * Lazily fetches downloaded photo binaries and keeps them in a bounded cache
+ *
+ * Photos pulled down by delta sync store the server URL in localUri; the
+ * binary is only fetched the first time a screen needs it. Cached files
+ * live in STORAGE_PATHS.photoCache, separate from captured evidence, so
+ * eviction can never touch an original.
+ */
+
+import * as FileSystem from "expo-file-system/legacy";
+import { STORAGE_PATHS } from "../lib/file-storage";
+import { photoLogger } from "../lib/logger";
+import {
+  getPhotoCacheEntry,
+  getAllPhotoCacheEntries,
+  savePhotoCacheEntry,
+  touchPhotoCacheEntry,
+  deletePhotoCacheEntry,
+} from "../lib/sqlite";
+import { isRemoteUri, selectCacheEvictions, PHOTO_CACHE_MAX_BYTES } from "../lib/delta-sync";
+import { verifyFileHash } from "./evidence-service";
+import { fileEncryptionService } from "./file-encryption-service";
+import type { LocalPhoto } from "../types/database";
+
+type CacheablePhoto = Pick<LocalPhoto, "id" | "localUri" | "mimeType" | "originalHash">;
+
+// ============================================
+// PHOTO CACHE SERVICE
+// ============================================
+
+export class PhotoCacheService {
+  private static instance: PhotoCacheService;
+  private inFlight = new Map<string, Promise<string>>();
+
+  private constructor() {}
+
+  static getInstance(): PhotoCacheService {
+    if (!PhotoCacheService.instance) {
+      PhotoCacheService.instance = new PhotoCacheService();
+    }
+    return PhotoCacheService.instance;
+  }
+
+  /**
+   * URI to display for a photo
+   *
+   * Local files are returned unchanged. Remote photos resolve to the
+   * cached copy, downloading it on first use. Falls back to the remote
+   * URL if the download fails so the image can still stream.
+   */
+  async resolveUri(photo: CacheablePhoto): Promise<string> {
+    if (!isRemoteUri(photo.localUri)) {
+      return photo.localUri;
+    }
+
+    const pending = this.inFlight.get(photo.id);
+    if (pending) return pending;
+
+    const request = this.fetchCached(photo).finally(() => {
+      this.inFlight.delete(photo.id);
+    });
+    this.inFlight.set(photo.id, request);
+    return request;
+  }
+
+  private async fetchCached(photo: CacheablePhoto): Promise<string> {
+    const entry = await getPhotoCacheEntry(photo.id);
+    if (entry) {
+      const info = await FileSystem.getInfoAsync(entry.fileUri);
+      if (info.exists) {
+        await touchPhotoCacheEntry(photo.id);
+        return entry.fileUri;
+      }
+      await deletePhotoCacheEntry(photo.id);
+    }
+
+    try {
+      return await this.download(photo);
+    } catch (error) {
+      photoLogger.warn("Photo cache download failed", {
+        photoId: photo.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return photo.localUri;
+    }
+  }
+
+  private async download(photo: CacheablePhoto): Promise<string> {
+    const dirInfo = await FileSystem.getInfoAsync(STORAGE_PATHS.photoCache);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(STORAGE_PATHS.photoCache, { intermediates: true });
+    }
+
+    const extension = photo.mimeType === "image/png" ? "png" : "jpg";
+    const target = `${STORAGE_PATHS.photoCache}${photo.id}.${extension}`;
+    const result = await FileSystem.downloadAsync(photo.localUri, target);
+
+    if (result.status !== 200) {
+      await FileSystem.deleteAsync(target, { idempotent: true });
+      throw new Error(`Download failed with status ${result.status}`);
+    }
+
+    const info = await FileSystem.getInfoAsync(target);
+    const fileSize = info.exists ? info.size ?? 0 : 0;
+
+    let hashVerified = false;
+    if (photo.originalHash) {
+      const verification = await verifyFileHash(target, photo.originalHash);
+      hashVerified = verification.isValid;
+      if (!hashVerified) {
+        photoLogger.warn("Cached photo does not match original hash", {
+          photoId: photo.id,
+          expected: verification.expectedHash,
+          actual: verification.actualHash,
+        });
+      }
+    }
+
+    // Checked against the hash above first, then protected like local copies
+    await fileEncryptionService.protectWorkingFile(target);
+
+    const now = new Date().toISOString();
+    await savePhotoCacheEntry({
+      photoId: photo.id,
+      fileUri: target,
+      fileSize,
+      hashVerified,
+      downloadedAt: now,
+      lastAccessedAt: now,
+    });
+
+    await this.evict(PHOTO_CACHE_MAX_BYTES, new Set([photo.id]));
+    return target;
+  }
+
+  /**
+   * Evict least recently used binaries until the cache fits maxBytes
+   */
+  async evict(maxBytes = PHOTO_CACHE_MAX_BYTES, protectedIds?: Set<string>): Promise<number> {
+    const entries = await getAllPhotoCacheEntries();
+    const evictions = selectCacheEvictions(entries, maxBytes, { protectedIds });
+
+    for (const entry of evictions) {
+      await FileSystem.deleteAsync(entry.fileUri, { idempotent: true });
+      await deletePhotoCacheEntry(entry.photoId);
+    }
+
+    if (evictions.length > 0) {
+      console.log(`[PhotoCache] Evicted ${evictions.length} cached photos`);
+    }
+    return evictions.length;
+  }
+
+  /**
+   * Drop the cached binary for a photo (e.g. after a server deletion)
+   */
+  async remove(photoId: string): Promise<void> {
+    const entry = await getPhotoCacheEntry(photoId);
+    if (!entry) return;
+    await FileSystem.deleteAsync(entry.fileUri, { idempotent: true });
+    await deletePhotoCacheEntry(photoId);
+  }
+
+  /**
+   * Remove every cached binary
+   */
+  async clear(): Promise<void> {
+    const entries = await getAllPhotoCacheEntries();
+    for (const entry of entries) {
+      await deletePhotoCacheEntry(entry.photoId);
+    }
+    await FileSystem.deleteAsync(STORAGE_PATHS.photoCache, { idempotent: true });
+  }
+}
+
+export const photoCacheService = PhotoCacheService.getInstance();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const resolvePhotoUri = (photo: CacheablePhoto) => photoCacheService.resolveUri(photo);
@@ -22,7 +22,8 @@ import {
   savePhoto,
   getPhotosForReport,
   markReportDirty,
-  deletePhoto as deletePhotoFromDB,
+  queueDeletion,
+  markDeleted,
   getPhotoById,
   getUser,
 } from "../lib/sqlite";
@@ -33,15 +34,16 @@ import {
   copyToOriginals,
   getWorkingPath,
   getOriginalPath,
+  readFileAsBase64,
   STORAGE_PATHS,
 } from "../lib/file-storage";
 import { generateHashFromBase64, verifyFileHash } from "./evidence-service";
-import { logCapture, logStorage, logVerification, logCustodyEvent } from "./chain-of-custody";
+import { logCapture, logStorage, logVerification, logCustodyEvent, logDeletion } from "./chain-of-custody";
 import { getPhotoMimeType, isAcceptableFormat, logFormatInfo } from "../lib/heic-utils";
-import { generateThumbnail, deleteThumbnail } from "./thumbnail-service";
+import { generateThumbnail } from "./thumbnail-service";
+import { fileEncryptionService } from "./file-encryption-service";
 import type { LocalPhoto } from "../types/database";
 import type { PhotoType, QuickTag } from "../types/shared";
-import { getInfoAsync as getFileInfo } from "expo-file-system/legacy";
 
 // ============================================
 // TYPES
@@ -312,7 +314,10 @@ class PhotoService {
       const originalFilename = `orig_${filename}`;
 
       // Copy to immutable originals directory (NEVER modified after this)
-      const originalPath = await copyToOriginals(photo.uri, originalFilename);
+      const encryptFiles = await fileEncryptionService.isEnabled();
+      const originalPath = await copyToOriginals(photo.uri, originalFilename, {
+        encrypt: encryptFiles,
+      });
 
       // =========================================
       // WORKING COPY: Embed GPS in EXIF for external tool compatibility
@@ -382,6 +387,12 @@ class PhotoService {
         });
       }
 
+      // Working copy and thumbnail were needed in plaintext until now
+      if (encryptFiles) {
+        await fileEncryptionService.protectWorkingFile(localUri);
+        await fileEncryptionService.protectWorkingFile(thumbnailUri);
+      }
+
       // =========================================
       // CHAIN OF CUSTODY: Log evidence events
       // =========================================
@@ -560,7 +571,7 @@ class PhotoService {
   }
 
   /**
-   * Delete a photo from file system, database, and queue for sync
+   * Delete a photo and queue the deletion for sync
    *
    * IMPORTANT: Only allows deletion of unsynced photos (captured, pending, processing, error).
    * Synced photos must be deleted from the web platform to maintain evidence chain of custody.
@@ -588,60 +599,12 @@ class PhotoService {
       const userId = currentUser?.id || "unknown";
       const userName = currentUser?.name || "Unknown User";
 
-      // Delete from file system - working copy
-      if (photo.localUri) {
-        const fileInfo = await getFileInfo(photo.localUri);
-        if (fileInfo.exists) {
-          await deleteAsync(photo.localUri, { idempotent: true });
-          photoLogger.debug("Deleted working copy", { photoId });
-        }
-      }
-
-      // Delete thumbnail using thumbnail service
-      await deleteThumbnail(photoId);
-
-      // Delete annotated version if exists
-      if (photo.annotatedUri) {
-        const annotatedInfo = await getFileInfo(photo.annotatedUri);
-        if (annotatedInfo.exists) {
-          await deleteAsync(photo.annotatedUri, { idempotent: true });
-        }
-      }
-
-      // Delete measured version if exists
-      if (photo.measuredUri) {
-        const measuredInfo = await getFileInfo(photo.measuredUri);
-        if (measuredInfo.exists) {
-          await deleteAsync(photo.measuredUri, { idempotent: true });
-        }
-      }
-
-      // Delete original file from evidence/originals/
-      // Original filename format: orig_{photo_id}.jpg
-      if (photo.originalFilename) {
-        const originalPath = getOriginalPath(photo.originalFilename);
-        try {
-          const origInfo = await getFileInfo(originalPath);
-          if (origInfo.exists) {
-            await deleteAsync(originalPath, { idempotent: true });
-            photoLogger.debug("Deleted original file", { photoId, originalPath });
-          }
-        } catch (origError) {
-          // Log but continue - original may not exist
-          photoLogger.warn("Failed to delete original file", {
-            photoId,
-            originalPath,
-            error: origError instanceof Error ? origError.message : "Unknown error",
-          });
-        }
-      }
-
-      // Remove from database
-      await deletePhotoFromDB(photoId);
+      // Hide the photo; its files stay until the server acknowledges the
+      // deletion and sync purges them
+      await markDeleted("photos", photoId);
 
       // Log deletion to chain of custody / audit log
-      await logCustodyEvent(
-        "DELETED",
+      await logDeletion(
         "photo",
         photoId,
         userId,
@@ -650,8 +613,9 @@ class PhotoService {
         `Photo deleted from mobile device. Filename: ${photo.filename}, Sync status: ${photo.syncStatus}`
       );
 
-      // Mark report as needing sync so the deletion propagates to server
-      await markReportDirty(photo.reportId);
+      // Queue the tombstone so the deletion propagates to the server
+      // (also marks the report as needing sync)
+      await queueDeletion("photo", photoId, photo.reportId, photo.originalHash);
 
       photoLogger.info("Photo deleted", {
         photoId,
@@ -682,9 +646,7 @@ class PhotoService {
     if (!photo) return null;
 
     try {
-      const fileContent = await readAsStringAsync(photo.localUri, {
-        encoding: EncodingType.Base64,
-      });
+      const fileContent = await readFileAsBase64(photo.localUri);
 
       // Convert base64 to Blob
       const byteCharacters = atob(fileContent);
@@ -0,0 +1,325 @@
+/**
+ * Remote Wipe Service
+ * Carries out wipe and deprovision directives issued for lost devices
+ *
+ * Directives arrive with the bootstrap response and with online session
+ * validation. The wipe runs in a fixed order:
+ *
+ * 1. Remember the directive so a killed app resumes the wipe on next launch
+ * 2. Push any unsynced reports, media and custody events
+ * 3. Record a final DELETED custody event for every evidence item still on
+ *    the device and push those events
+ * 4. clearAllData, then delete the database file, STORAGE_PATHS and the
+ *    other media directories
+ * 5. Send a receipt to the server while the token still exists
+ * 6. clearAllAuthData, delete the encryption keys and (for DEPROVISION)
+ *    the device ID and preferences
+ *
+ * Steps 2 and 3 are best effort — a phone with no signal is still wiped.
+ * What could not be pushed is reported in the receipt when possible.
+ */
+
+import { documentDirectory, deleteAsync } from "expo-file-system/legacy";
+import {
+  initializeDatabase,
+  isDatabaseOpen,
+  clearAllData,
+  deleteDatabase,
+  getUser,
+  getLocalEvidenceItems,
+  getPendingSyncReports,
+  getPendingUploadPhotos,
+  getPendingUploadVideos,
+  getPendingUploadVoiceNotes,
+  countUnsyncedCustodyEvents,
+} from "../lib/sqlite";
+import { wipeAllStoredFiles } from "../lib/file-storage";
+import {
+  getOrCreateDeviceId,
+  savePendingDeviceDirective,
+  getPendingDeviceDirective,
+  deletePendingDeviceDirective,
+  clearAllAuthData as clearSyncAuthData,
+  clearDevicePreferences,
+} from "../lib/storage";
+import { clearAllAuthData, deleteEncryptionKeys } from "../lib/auth/storage";
+import { acknowledgeDeviceDirective } from "../lib/api";
+import { parseDeviceDirective, isDeprovision, describeDeviceDirective } from "../lib/device-directive";
+import { logCustodyEvent } from "./chain-of-custody";
+import { syncEngine } from "./sync-service";
+import { fileEncryptionService } from "./file-encryption-service";
+import type { DeviceDirective, DeviceDirectiveReceipt } from "../types/shared";
+
+/** Media directories outside STORAGE_PATHS */
+const MEDIA_DIRECTORIES = [
+  `${documentDirectory}videos`,
+  `${documentDirectory}voice_notes`,
+  `${documentDirectory}annotations/`,
+];
+
+/** Give up on pushing after this long so a wipe can't be stalled */
+const PUSH_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface RemoteWipeResult {
+  success: boolean;
+  directive: DeviceDirective;
+  receipt: DeviceDirectiveReceipt;
+  acknowledged: boolean;
+  error?: string;
+}
+
+type WipeCompleteCallback = (result: RemoteWipeResult) => void;
+
+// ============================================
+// REMOTE WIPE SERVICE
+// ============================================
+
+export class RemoteWipeService {
+  private static instance: RemoteWipeService;
+  private running: Promise<RemoteWipeResult> | null = null;
+  private completeCallback: WipeCompleteCallback | null = null;
+
+  private constructor() {}
+
+  static getInstance(): RemoteWipeService {
+    if (!RemoteWipeService.instance) {
+      RemoteWipeService.instance = new RemoteWipeService();
+    }
+    return RemoteWipeService.instance;
+  }
+
+  /**
+   * Called once a wipe has finished (the app should drop to the login screen)
+   */
+  onWipeComplete(callback: WipeCompleteCallback): void {
+    this.completeCallback = callback;
+  }
+
+  /**
+   * Whether a wipe is running right now
+   */
+  isWiping(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Carry out a directive; concurrent calls share the same run
+   */
+  async handleDirective(directive: DeviceDirective): Promise<RemoteWipeResult> {
+    if (this.running) return this.running;
+
+    this.running = this.execute(directive).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Finish a wipe that was interrupted (call on app launch)
+   */
+  async resumePending(): Promise<RemoteWipeResult | null> {
+    const stored = await getPendingDeviceDirective();
+    if (!stored) return null;
+
+    let directive: DeviceDirective | null = null;
+    try {
+      directive = parseDeviceDirective(JSON.parse(stored));
+    } catch {
+      directive = null;
+    }
+    if (!directive) {
+      await deletePendingDeviceDirective();
+      return null;
+    }
+
+    console.warn(`[RemoteWipe] Resuming interrupted ${directive.action} (${directive.id})`);
+    return this.handleDirective(directive);
+  }
+
+  private async execute(directive: DeviceDirective): Promise<RemoteWipeResult> {
+    console.warn(`[RemoteWipe] Starting ${directive.action} (${directive.id})`);
+    await savePendingDeviceDirective(JSON.stringify(directive));
+
+    const deviceId = await getOrCreateDeviceId();
+    const receipt: DeviceDirectiveReceipt = {
+      deviceId,
+      action: directive.action,
+      completedAt: "",
+      pushed: { reports: 0, photos: 0 },
+      unsynced: { reports: 0, photos: 0, videos: 0, voiceNotes: 0, custodyEvents: 0 },
+      evidenceItemsRemoved: 0,
+      errors: [],
+    };
+    const recordError = (step: string, error: unknown) => {
+      const message = `${step}: ${error instanceof Error ? error.message : String(error)}`;
+      console.error(`[RemoteWipe] ${message}`);
+      receipt.errors.push(message);
+    };
+
+    const databaseReady = await this.ensureDatabase().catch((error) => {
+      recordError("open database", error);
+      return false;
+    });
+
+    if (databaseReady) {
+      // Step 2: push what we can
+      const push = syncEngine.pushBeforeWipe();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        const pushed = await Promise.race([
+          push,
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error("timed out")), PUSH_TIMEOUT_MS);
+          }),
+        ]);
+        receipt.pushed = { reports: pushed.reportsSynced, photos: pushed.photosSynced };
+        for (const error of pushed.errors) {
+          receipt.errors.push(`push: ${error.message}`);
+        }
+      } catch (error) {
+        recordError("push", error);
+        // Don't clear the database under an upload that is still reading it
+        syncEngine.abortSync();
+        await push.catch(() => undefined);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      // Step 3: close every evidence item's custody chain
+      try {
+        await this.ensureDatabase();
+        await this.recordUnsyncedCounts(receipt);
+        receipt.evidenceItemsRemoved = await this.logFinalCustodyEvents(directive);
+        await syncEngine.pushCustodyEvents();
+      } catch (error) {
+        recordError("custody", error);
+      }
+
+      // Whatever is still unsent goes with the database
+      try {
+        receipt.unsynced.custodyEvents = await countUnsyncedCustodyEvents();
+      } catch (error) {
+        recordError("count custody events", error);
+      }
+
+      // Step 4a: local rows, then the database file itself
+      try {
+        await this.ensureDatabase();
+        await clearAllData();
+      } catch (error) {
+        recordError("clear data", error);
+      }
+    }
+
+    try {
+      await deleteDatabase();
+    } catch (error) {
+      recordError("delete database", error);
+    }
+
+    // Step 4b: files
+    const failedPaths = await wipeAllStoredFiles();
+    for (const path of failedPaths) {
+      receipt.errors.push(`delete files: ${path}`);
+    }
+    for (const dir of MEDIA_DIRECTORIES) {
+      await deleteAsync(dir, { idempotent: true }).catch((error) => recordError(`delete ${dir}`, error));
+    }
+    await fileEncryptionService.clearDecryptedFiles().catch(() => {});
+
+    // Step 5: receipt (needs the token, so before auth data goes)
+    receipt.completedAt = new Date().toISOString();
+    const ack = await acknowledgeDeviceDirective(directive.id, receipt);
+    if (!ack.success) {
+      console.warn("[RemoteWipe] Receipt not acknowledged:", ack.error);
+    }
+
+    // Step 6: credentials and keys
+    await clearAllAuthData();
+    await clearSyncAuthData();
+    await deleteEncryptionKeys();
+    if (isDeprovision(directive)) {
+      await clearDevicePreferences();
+    }
+    await deletePendingDeviceDirective();
+
+    const result: RemoteWipeResult = {
+      success: failedPaths.length === 0,
+      directive,
+      receipt,
+      acknowledged: ack.success,
+      error: receipt.errors.length > 0 ? receipt.errors.join("; ") : undefined,
+    };
+
+    console.warn(
+      `[RemoteWipe] ${directive.action} complete: ${receipt.evidenceItemsRemoved} evidence items removed, ` +
+        `${receipt.errors.length} error(s), receipt ${ack.success ? "acknowledged" : "not acknowledged"}`
+    );
+
+    if (this.completeCallback) {
+      this.completeCallback(result);
+    }
+    return result;
+  }
+
+  /**
+   * Open the database if it isn't (e.g. directive received before unlock)
+   */
+  private async ensureDatabase(): Promise<boolean> {
+    if (!isDatabaseOpen()) {
+      await initializeDatabase();
+    }
+    return true;
+  }
+
+  private async recordUnsyncedCounts(receipt: DeviceDirectiveReceipt): Promise<void> {
+    const [reports, photos, videos, voiceNotes] = await Promise.all([
+      getPendingSyncReports(),
+      getPendingUploadPhotos(),
+      getPendingUploadVideos(),
+      getPendingUploadVoiceNotes(),
+    ]);
+    receipt.unsynced = {
+      reports: reports.length,
+      photos: photos.length,
+      videos: videos.length,
+      voiceNotes: voiceNotes.length,
+      custodyEvents: 0,
+    };
+  }
+
+  /**
+   * Append a DELETED event to every evidence item's chain
+   *
+   * @returns Number of evidence items on the device
+   */
+  private async logFinalCustodyEvents(directive: DeviceDirective): Promise<number> {
+    const items = await getLocalEvidenceItems();
+    const user = await getUser();
+    const userId = user?.id ?? "system";
+    const userName = user?.name ?? "Remote Wipe";
+
+    for (const item of items) {
+      await logCustodyEvent(
+        "DELETED",
+        item.entityType,
+        item.entityId,
+        userId,
+        userName,
+        item.originalHash,
+        describeDeviceDirective(directive, item.synced)
+      );
+    }
+    return items.length;
+  }
+}
+
+export const remoteWipeService = RemoteWipeService.getInstance();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const handleDeviceDirective = (directive: DeviceDirective) => remoteWipeService.handleDirective(directive);
+export const resumePendingDeviceWipe = () => remoteWipeService.resumePending();
+export const onDeviceWipeComplete = (callback: WipeCompleteCallback) => remoteWipeService.onWipeComplete(callback);
@@ -0,0 +1,174 @@
+/**
+ * Report PDF Service
+ * Renders a complete report PDF on device so drafts can be handed over offline
+ *
+ * The server remains the source of truth for the final PDF (`pdfUrl` on the
+ * synced Report). This renderer works entirely from local SQLite data and the
+ * photo files on disk, so it is available on site with no signal.
+ *
+ * Every photo embedded in the PDF is recorded in the chain of custody with
+ * an INCLUDED_IN_REPORT event.
+ */
+
+import * as Print from "expo-print";
+import { getInfoAsync } from "expo-file-system/legacy";
+import { getReportWithRelations, getAllChecklists, getUser, getRoofPlan } from "../lib/sqlite";
+import { readFileAsBase64 } from "../lib/file-storage";
+import { buildReportPdfHtml, type EmbeddedPhoto } from "../lib/report-pdf";
+import { logIncludeInReport } from "./chain-of-custody";
+import type { LocalPhoto, LocalChecklist } from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReportPdfOptions {
+  /** Watermark shown on every page; defaults to DRAFT for unapproved reports */
+  watermark?: string | null;
+}
+
+export interface ReportPdfResult {
+  success: boolean;
+  uri?: string;
+  pageCount?: number;
+  photosIncluded: number;
+  error?: string;
+}
+
+// ============================================
+// REPORT PDF SERVICE CLASS
+// ============================================
+
+class ReportPdfService {
+  /**
+   * Resolve the image source for a photo, preferring the annotated copy.
+   * Local files are inlined as base64 so the PDF renders without network.
+   * Returns null if no usable image is available.
+   */
+  private async resolvePhotoSource(photo: LocalPhoto): Promise<string | null> {
+    const candidates = [photo.annotatedUri, photo.localUri].filter(
+      (uri): uri is string => !!uri
+    );
+
+    for (const uri of candidates) {
+      if (uri.startsWith("http://") || uri.startsWith("https://")) {
+        return uri;
+      }
+      try {
+        const info = await getInfoAsync(uri);
+        if (!info.exists) continue;
+        const base64 = await readFileAsBase64(uri);
+        return `data:${photo.mimeType || "image/jpeg"};base64,${base64}`;
+      } catch (error) {
+        console.warn("[ReportPdf] Could not read photo file:", uri, error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the complete HTML document for a report
+   */
+  async buildReportHtml(
+    reportId: string,
+    watermark?: string | null
+  ): Promise<{ html: string; embeddedPhotos: LocalPhoto[] } | null> {
+    const data = await getReportWithRelations(reportId);
+    if (!data) return null;
+
+    const { report, elements, defects, photos, compliance } = data;
+    const [checklists, roofPlan] = await Promise.all([
+      compliance ? getAllChecklists() : Promise.resolve([] as LocalChecklist[]),
+      getRoofPlan(reportId),
+    ]);
+
+    // Inline photo binaries
+    const embedded: EmbeddedPhoto[] = [];
+    for (const photo of photos) {
+      const src = await this.resolvePhotoSource(photo);
+      if (src) {
+        embedded.push({ photo, src });
+      }
+    }
+
+    const html = buildReportPdfHtml(
+      { report, elements, defects, compliance, checklists, roofPlan, photos: embedded },
+      { watermark, generatedAt: new Date() }
+    );
+
+    return { html, embeddedPhotos: embedded.map((e) => e.photo) };
+  }
+
+  /**
+   * Generate the PDF file for a report and record custody events
+   */
+  async generateReportPdf(
+    reportId: string,
+    options: ReportPdfOptions = {}
+  ): Promise<ReportPdfResult> {
+    try {
+      const built = await this.buildReportHtml(reportId, options.watermark);
+      if (!built) {
+        return { success: false, photosIncluded: 0, error: "Report not found" };
+      }
+
+      const { uri, numberOfPages } = await Print.printToFileAsync({
+        html: built.html,
+        base64: false,
+      });
+
+      // Record each embedded photo in its chain of custody
+      const currentUser = await getUser();
+      const userId = currentUser?.id || "unknown";
+      const userName = currentUser?.name || "Unknown User";
+
+      for (const photo of built.embeddedPhotos) {
+        try {
+          await logIncludeInReport(
+            "photo",
+            photo.id,
+            userId,
+            userName,
+            photo.originalHash,
+            reportId
+          );
+        } catch (custodyError) {
+          console.warn(`[ReportPdf] Failed to log custody event for photo ${photo.id}:`, custodyError);
+        }
+      }
+
+      console.log("[ReportPdf] PDF generated", {
+        reportId,
+        uri,
+        pages: numberOfPages,
+        photos: built.embeddedPhotos.length,
+      });
+
+      return {
+        success: true,
+        uri,
+        pageCount: numberOfPages,
+        photosIncluded: built.embeddedPhotos.length,
+      };
+    } catch (error) {
+      console.error("[ReportPdf] Failed to generate PDF:", error);
+      return {
+        success: false,
+        photosIncluded: 0,
+        error: error instanceof Error ? error.message : "Failed to generate PDF",
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const reportPdfService = new ReportPdfService();
+
+// Export convenience functions
+export async function generateReportPdf(
+  reportId: string,
+  options?: ReportPdfOptions
+): Promise<ReportPdfResult> {
+  return reportPdfService.generateReportPdf(reportId, options);
+}
@@ -0,0 +1,158 @@
+/**
+ * Report Workflow Service
+ * Applies report status transitions from the central workflow table
+ *
+ * Loads the facts the guards need, refuses transitions the actor's role
+ * or the report's state does not allow, updates the status and records
+ * an audit log entry for every applied transition.
+ */
+
+import { getReport, updateReportStatus, addAuditLog } from "../lib/sqlite";
+import {
+  checkTransition,
+  getTransition,
+  isReportLocked,
+  needsValidation,
+  type WorkflowAction,
+  type WorkflowActor,
+  type WorkflowGuardContext,
+} from "../lib/report-workflow";
+import { validationService } from "./validation-service";
+import type { LocalReport } from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TransitionOptions {
+  /** Reviewer note, required for rejection and revision requests */
+  note?: string;
+  /** Specific items the inspector must revise */
+  revisionItems?: string[];
+}
+
+export interface TransitionResult {
+  success: boolean;
+  report?: LocalReport;
+  error?: string;
+  /** Every failing guard, when the transition was refused */
+  errors?: string[];
+}
+
+// ============================================
+// REPORT WORKFLOW SERVICE
+// ============================================
+
+class ReportWorkflowService {
+  /**
+   * Apply a workflow action to a report
+   */
+  async transition(
+    reportId: string,
+    action: WorkflowAction,
+    actor: WorkflowActor,
+    options: TransitionOptions = {}
+  ): Promise<TransitionResult> {
+    try {
+      const report = await getReport(reportId);
+      if (!report) {
+        return { success: false, error: "Report not found" };
+      }
+
+      const context = await this.buildGuardContext(report, action, options);
+      const check = checkTransition(report, action, actor.role, context);
+      if (!check.allowed || !check.transition) {
+        console.log(`[ReportWorkflow] ${action} refused for ${reportId}:`, check.errors);
+        return { success: false, error: check.errors[0], errors: check.errors };
+      }
+
+      const { transition } = check;
+      const timestamp = new Date().toISOString();
+
+      // Also sets sync_status = 'pending'
+      await updateReportStatus(reportId, transition.to, timestamp);
+
+      await addAuditLog(
+        transition.auditAction,
+        "report",
+        reportId,
+        actor.id,
+        actor.name,
+        JSON.stringify({
+          action,
+          from: report.status,
+          to: transition.to,
+          role: actor.role,
+          note: options.note?.trim() || undefined,
+          revisionItems: options.revisionItems?.length ? options.revisionItems : undefined,
+        })
+      );
+
+      const updated = await getReport(reportId);
+
+      console.log(`[ReportWorkflow] ${reportId}: ${report.status} -> ${transition.to} (${action})`);
+      return { success: true, report: updated || undefined };
+    } catch (error) {
+      console.error(`[ReportWorkflow] ${action} failed:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update report status",
+      };
+    }
+  }
+
+  /**
+   * Whether a report's content can still be edited locally
+   */
+  async isEditable(reportId: string): Promise<boolean> {
+    const report = await getReport(reportId);
+    return !!report && !isReportLocked(report.status);
+  }
+
+  /**
+   * Gather the facts guards are evaluated against
+   *
+   * Validation reads the whole report graph, so it only runs when the
+   * resolved transition has a guard that needs it.
+   */
+  private async buildGuardContext(
+    report: LocalReport,
+    action: WorkflowAction,
+    options: TransitionOptions
+  ): Promise<WorkflowGuardContext> {
+    const context: WorkflowGuardContext = {
+      declarationSigned: report.declarationSigned,
+      complianceComplete: null,
+      validationErrors: null,
+      note: options.note ?? null,
+    };
+
+    const transition = getTransition(report.status, action, report.inspectionType);
+    if (transition && needsValidation(transition)) {
+      const validation = await validationService.validateReport(report.id);
+      if (validation) {
+        context.validationErrors = validation.errors;
+        context.complianceComplete = validation.validationDetails.compliance.complete;
+      }
+    }
+
+    return context;
+  }
+}
+
+// Export singleton instance
+export const reportWorkflowService = new ReportWorkflowService();
+
+// Export convenience functions
+export async function transitionReport(
+  reportId: string,
+  action: WorkflowAction,
+  actor: WorkflowActor,
+  options?: TransitionOptions
+): Promise<TransitionResult> {
+  return reportWorkflowService.transition(reportId, action, actor, options);
+}
+
+export async function isReportEditable(reportId: string): Promise<boolean> {
+  return reportWorkflowService.isEditable(reportId);
+}
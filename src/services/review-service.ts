@@ -1,13 +1,14 @@
 /**
  * Review Service
  * Handles review workflow operations and API calls
+ *
+ * Status changes go through reportWorkflowService so role, guard and
+ * audit rules live in one transition table (src/lib/report-workflow.ts).
  */
 
-import {
-  getReport,
-  updateReportStatus,
-  getReportsPendingReview,
-} from "../lib/sqlite";
+import { getReportsPendingReview } from "../lib/sqlite";
+import { reportWorkflowService } from "./report-workflow-service";
+import type { WorkflowActor } from "../lib/report-workflow";
 import type { LocalReport } from "../types/database";
 import type { ReportStatus } from "../types/shared";
 import type { ReviewStats } from "../stores/review-store";
@@ -19,6 +20,8 @@ import type { ReviewStats } from "../stores/review-store";
 export interface SubmitForReviewResult {
   success: boolean;
   error?: string;
+  /** Blocking validation errors, when submission was refused by the rules */
+  validationErrors?: string[];
 }
 
 export interface ReviewActionResult {
@@ -41,63 +44,14 @@ class ReviewService {
   /**
    * Submit a report for review (Inspector action)
    */
-  async submitForReview(reportId: string): Promise<SubmitForReviewResult> {
-    try {
-      // Get the report
-      const report = await getReport(reportId);
-      if (!report) {
-        return { success: false, error: "Report not found" };
-      }
-
-      // Validate report is ready for submission
-      const validation = this.validateForSubmission(report);
-      if (!validation.valid) {
-        return { success: false, error: validation.error };
-      }
-
-      // Update local status (also sets sync_status = 'pending')
-      const timestamp = new Date().toISOString();
-      await updateReportStatus(reportId, "PENDING_REVIEW", timestamp);
-
-      console.log("[ReviewService] Report submitted for review:", reportId);
-      return { success: true };
-    } catch (error) {
-      console.error("[ReviewService] Failed to submit for review:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Failed to submit",
-      };
+  async submitForReview(reportId: string, actor: WorkflowActor): Promise<SubmitForReviewResult> {
+    const result = await reportWorkflowService.transition(reportId, "SUBMIT", actor);
+    if (!result.success) {
+      return { success: false, error: result.error, validationErrors: result.errors };
     }
-  }
 
-  /**
-   * Validate a report is ready for submission
-   */
-  private validateForSubmission(report: LocalReport): { valid: boolean; error?: string } {
-    // Must be in draft or in_progress status
-    if (report.status !== "DRAFT" && report.status !== "IN_PROGRESS") {
-      return { valid: false, error: "Report has already been submitted" };
-    }
-
-    // Must have basic required fields
-    if (!report.propertyAddress) {
-      return { valid: false, error: "Property address is required" };
-    }
-
-    if (!report.clientName) {
-      return { valid: false, error: "Client name is required" };
-    }
-
-    if (!report.inspectionDate) {
-      return { valid: false, error: "Inspection date is required" };
-    }
-
-    // Declaration must be signed
-    if (!report.declarationSigned) {
-      return { valid: false, error: "Declaration must be signed before submission" };
-    }
-
-    return { valid: true };
+    console.log("[ReviewService] Report submitted for review:", reportId);
+    return { success: true };
   }
 
   /**
@@ -105,58 +59,29 @@ class ReviewService {
    */
   async approveReport(
     reportId: string,
-    reviewerId: string,
+    actor: WorkflowActor,
     note?: string
   ): Promise<ReviewActionResult> {
-    try {
-      const timestamp = new Date().toISOString();
-
-      // Update local status (also sets sync_status = 'pending')
-      await updateReportStatus(reportId, "APPROVED", timestamp);
-
-      // Get updated report
-      const report = await getReport(reportId);
-
+    const result = await reportWorkflowService.transition(reportId, "APPROVE", actor, { note });
+    if (result.success) {
       console.log("[ReviewService] Report approved:", reportId);
-      return { success: true, report: report || undefined };
-    } catch (error) {
-      console.error("[ReviewService] Failed to approve report:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Failed to approve",
-      };
     }
+    return result;
   }
 
   /**
-   * Reject a report (Reviewer action)
+   * Reject a report back to draft (Reviewer action)
    */
   async rejectReport(
     reportId: string,
-    reviewerId: string,
+    actor: WorkflowActor,
     note: string
   ): Promise<ReviewActionResult> {
-    try {
-      if (!note || note.trim().length === 0) {
-        return { success: false, error: "Rejection reason is required" };
-      }
-
-      const timestamp = new Date().toISOString();
-
-      // Update local status back to draft (also sets sync_status = 'pending')
-      await updateReportStatus(reportId, "DRAFT", null);
-
-      const report = await getReport(reportId);
-
+    const result = await reportWorkflowService.transition(reportId, "REJECT", actor, { note });
+    if (result.success) {
       console.log("[ReviewService] Report rejected:", reportId);
-      return { success: true, report: report || undefined };
-    } catch (error) {
-      console.error("[ReviewService] Failed to reject report:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Failed to reject",
-      };
     }
+    return result;
   }
 
   /**
@@ -164,63 +89,29 @@ class ReviewService {
    */
   async requestRevision(
     reportId: string,
-    reviewerId: string,
+    actor: WorkflowActor,
     note: string,
     revisionItems?: string[]
   ): Promise<ReviewActionResult> {
-    try {
-      if (!note || note.trim().length === 0) {
-        return { success: false, error: "Revision details are required" };
-      }
-
-      const timestamp = new Date().toISOString();
-
-      // Update local status back to in_progress (also sets sync_status = 'pending')
-      await updateReportStatus(reportId, "IN_PROGRESS", null);
-
-      const report = await getReport(reportId);
-
+    const result = await reportWorkflowService.transition(reportId, "REQUEST_REVISION", actor, {
+      note,
+      revisionItems,
+    });
+    if (result.success) {
       console.log("[ReviewService] Revision requested:", reportId);
-      return { success: true, report: report || undefined };
-    } catch (error) {
-      console.error("[ReviewService] Failed to request revision:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Failed to request revision",
-      };
     }
+    return result;
   }
 
   /**
    * Finalise an approved report (Admin/Reviewer action)
    */
-  async finaliseReport(reportId: string): Promise<ReviewActionResult> {
-    try {
-      const report = await getReport(reportId);
-      if (!report) {
-        return { success: false, error: "Report not found" };
-      }
-
-      if (report.status !== "APPROVED") {
-        return { success: false, error: "Report must be approved before finalising" };
-      }
-
-      const timestamp = new Date().toISOString();
-
-      // Update local status (also sets sync_status = 'pending')
-      await updateReportStatus(reportId, "FINALISED", timestamp);
-
-      const updatedReport = await getReport(reportId);
-
+  async finaliseReport(reportId: string, actor: WorkflowActor): Promise<ReviewActionResult> {
+    const result = await reportWorkflowService.transition(reportId, "FINALISE", actor);
+    if (result.success) {
       console.log("[ReviewService] Report finalised:", reportId);
-      return { success: true, report: updatedReport || undefined };
-    } catch (error) {
-      console.error("[ReviewService] Failed to finalise report:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Failed to finalise",
-      };
     }
+    return result;
   }
 
   /**
@@ -268,7 +159,7 @@ class ReviewService {
    */
   async bulkApprove(
     reportIds: string[],
-    reviewerId: string
+    actor: WorkflowActor
   ): Promise<{ success: number; failed: number; errors: string[] }> {
     const results = {
       success: 0,
@@ -277,7 +168,7 @@ class ReviewService {
     };
 
     for (const reportId of reportIds) {
-      const result = await this.approveReport(reportId, reviewerId);
+      const result = await this.approveReport(reportId, actor);
       if (result.success) {
         results.success++;
       } else {
@@ -0,0 +1,144 @@
+/**
+ * Scheduled Job Service
+ * Agenda for the signed-in inspector, starting jobs and booking new ones
+ *
+ * Jobs arrive with the bootstrap download (see SyncEngine.downloadScheduledJobs).
+ * Starting a job creates a draft report pre-filled from it; the report
+ * carries the job ID to the server on its next upload.
+ */
+
+import {
+  getScheduledJobs,
+  getScheduledJob,
+  saveScheduledJob,
+  getReport,
+  saveReport,
+  getAllTemplates,
+  addAuditLog,
+} from "../lib/sqlite";
+import { fetchScheduledJobs, createScheduledJob } from "../lib/api";
+import {
+  groupJobsForAgenda,
+  canStartJob,
+  reportFromJob,
+  validateJobInput,
+  type AgendaSection,
+} from "../lib/scheduled-jobs";
+import type { ScheduledJob, ScheduledJobInput } from "../types/shared";
+
+export interface JobActor {
+  id: string;
+  name: string;
+}
+
+export interface StartJobResult {
+  success: boolean;
+  reportId?: string;
+  /** True when the job already had a report and it was reopened */
+  resumed?: boolean;
+  error?: string;
+}
+
+export interface CreateJobResult {
+  success: boolean;
+  job?: ScheduledJob;
+  error?: string;
+}
+
+// ============================================
+// SCHEDULED JOB SERVICE
+// ============================================
+
+class ScheduledJobService {
+  /**
+   * Open jobs grouped by due date
+   */
+  async getAgenda(now: Date = new Date()): Promise<AgendaSection[]> {
+    return groupJobsForAgenda(await getScheduledJobs(), now);
+  }
+
+  /**
+   * Create the job's report, or reopen it if the job was already started
+   */
+  async startJob(jobId: string, actor: JobActor): Promise<StartJobResult> {
+    try {
+      const job = await getScheduledJob(jobId);
+      if (!job) {
+        return { success: false, error: "Job not found" };
+      }
+      if (!canStartJob(job)) {
+        return { success: false, error: `This job is ${job.status.toLowerCase().replace(/_/g, " ")}` };
+      }
+
+      if (job.reportId && (await getReport(job.reportId))) {
+        return { success: true, reportId: job.reportId, resumed: true };
+      }
+
+      const now = new Date().toISOString();
+      const templates = job.templateId ? await getAllTemplates() : [];
+      const template = templates.find((t) => t.id === job.templateId) ?? null;
+      if (job.templateId && !template) {
+        console.warn(`[ScheduledJobs] Template ${job.templateId} not downloaded; starting without it`);
+      }
+
+      const reportId = `local_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+      await saveReport(reportFromJob(job, { id: reportId, inspectorId: actor.id, now, template }));
+      await saveScheduledJob({ ...job, status: "IN_PROGRESS", reportId });
+
+      await addAuditLog(
+        "CREATED",
+        "report",
+        reportId,
+        actor.id,
+        actor.name,
+        `Started from scheduled job ${job.id} (due ${job.dueDate})`
+      );
+
+      console.log(`[ScheduledJobs] Started job ${job.id} as report ${reportId}`);
+      return { success: true, reportId, resumed: false };
+    } catch (error) {
+      console.error("[ScheduledJobs] Failed to start job:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to start job",
+      };
+    }
+  }
+
+  /**
+   * Upcoming jobs across all inspectors (admin only, online)
+   */
+  async listAllJobs(): Promise<{ success: boolean; jobs: ScheduledJob[]; error?: string }> {
+    const response = await fetchScheduledJobs();
+    if (!response.success || !response.data) {
+      return { success: false, jobs: [], error: response.error || "Failed to load jobs" };
+    }
+    return { success: true, jobs: response.data };
+  }
+
+  /**
+   * Book a job for an inspector (admin only, online)
+   */
+  async createJob(input: ScheduledJobInput): Promise<CreateJobResult> {
+    const error = validateJobInput(input);
+    if (error) {
+      return { success: false, error };
+    }
+
+    const response = await createScheduledJob(input);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error || "Failed to create job" };
+    }
+    console.log(`[ScheduledJobs] Booked job ${response.data.id} for ${input.assignedInspectorId}`);
+    return { success: true, job: response.data };
+  }
+}
+
+export const scheduledJobService = new ScheduledJobService();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const getJobAgenda = () => scheduledJobService.getAgenda();
+export const startScheduledJob = (jobId: string, actor: JobActor) => scheduledJobService.startJob(jobId, actor);
@@ -0,0 +1,300 @@
+/**
+ * Sync Inspector Service
+ * Lists everything waiting to sync and applies manual repairs for support
+ *
+ * Items are sync_queue rows plus photos, videos and voice notes not yet
+ * uploaded. Repairs:
+ * - retry    <- Clear attempts, error and deferral, then start a sync
+ * - defer    <- Hold the item back until a chosen time
+ * - requeue  <- Queue rows only: new idempotency key, back of the queue
+ * - export   <- Write the item as JSON for sharing with support
+ *
+ * Every repair is written to the audit log with the item as it was before
+ * the change, and to the persisted log store.
+ */
+
+import {
+  getInfoAsync,
+  makeDirectoryAsync,
+  writeAsStringAsync,
+} from "expo-file-system/legacy";
+import {
+  MAX_SYNC_RETRY_ATTEMPTS,
+  PERMANENTLY_FAILED_STATUS,
+  addAuditLog,
+  clearMediaSyncState,
+  deferMediaSync,
+  deferSyncQueueItem,
+  generateIdempotencyKey,
+  getAuditLogsByActionPrefix,
+  getMediaSyncStates,
+  getPendingUploadVideos,
+  getPendingUploadVoiceNotes,
+  getPhotoById,
+  getSyncQueue,
+  getSyncQueueItem,
+  getUnsyncedPhotos,
+  getVideoById,
+  getVoiceNoteById,
+  markReportDirty,
+  requeueSyncQueueItem,
+  resetSyncQueueItem,
+  updatePhotoSyncStatus,
+  updateVideoSyncStatus,
+  updateVoiceNoteSyncStatus,
+} from "../lib/sqlite";
+import { STORAGE_PATHS } from "../lib/file-storage";
+import {
+  MEDIA_RETRY_STATUS,
+  SYNC_REPAIR_AUDIT_ACTIONS,
+  SYNC_REPAIR_AUDIT_ENTITY_TYPE,
+  SYNC_REPAIR_AUDIT_PREFIX,
+  inspectorExportFilename,
+  inspectorItemExport,
+  inspectorItemFromMedia,
+  inspectorItemFromQueue,
+  repairAuditDetails,
+  sortInspectorItems,
+  type SyncInspectorItem,
+  type SyncMediaKind,
+  type SyncRepairAction,
+} from "../lib/sync-inspector";
+import type {
+  LocalAuditLog,
+  LocalMediaSyncState,
+  LocalPhoto,
+  LocalSyncQueue,
+  LocalVideo,
+  LocalVoiceNote,
+} from "../types/database";
+import { appendStoredLog } from "./log-store-service";
+import { syncPendingChanges } from "./sync-service";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SyncRepairActor {
+  id: string;
+  name: string;
+}
+
+export interface SyncRepairResult {
+  success: boolean;
+  /** Written file, for export */
+  uri?: string;
+  error?: string;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+class SyncInspectorService {
+  /**
+   * Queue rows and unsynced media, failed first
+   */
+  async getItems(): Promise<SyncInspectorItem[]> {
+    const [queue, photos, videos, voiceNotes, states] = await Promise.all([
+      getSyncQueue(),
+      getUnsyncedPhotos(),
+      getPendingUploadVideos(),
+      getPendingUploadVoiceNotes(),
+      getMediaSyncStates(),
+    ]);
+
+    const stateByKey = new Map<string, LocalMediaSyncState>(
+      states.map((state) => [`${state.entityType}:${state.entityId}`, state])
+    );
+    const fromMedia = (kind: SyncMediaKind, media: LocalPhoto | LocalVideo | LocalVoiceNote) =>
+      inspectorItemFromMedia(kind, media, stateByKey.get(`${kind}:${media.id}`));
+
+    const policy = { maxAttempts: MAX_SYNC_RETRY_ATTEMPTS, failedStatus: PERMANENTLY_FAILED_STATUS };
+
+    return sortInspectorItems(
+      [
+        ...queue.map((row) => inspectorItemFromQueue(row, policy)),
+        ...photos.map((photo) => fromMedia("photo", photo)),
+        ...videos.map((video) => fromMedia("video", video)),
+        ...voiceNotes.map((note) => fromMedia("voice_note", note)),
+      ],
+      new Date()
+    );
+  }
+
+  /**
+   * Manual repairs, newest first
+   */
+  async getRecentActions(limit: number = 50): Promise<LocalAuditLog[]> {
+    return getAuditLogsByActionPrefix(SYNC_REPAIR_AUDIT_PREFIX, limit);
+  }
+
+  /**
+   * Make the item eligible again and start a sync
+   */
+  async retry(item: SyncInspectorItem, actor: SyncRepairActor): Promise<SyncRepairResult> {
+    return this.repair("retry", item, actor, async () => {
+      if (item.kind === "queue") {
+        await resetSyncQueueItem(Number(item.id));
+      } else {
+        await this.resetMedia(item.kind, item.id);
+        await clearMediaSyncState(item.kind, item.id);
+      }
+
+      // Media and per-report deletions only go up with their report
+      if (item.reportId) {
+        await markReportDirty(item.reportId);
+      }
+
+      syncPendingChanges().catch((error) => {
+        console.error("[SyncInspector] Sync after retry failed:", error);
+      });
+      return {};
+    });
+  }
+
+  /**
+   * Hold the item back until the given time
+   */
+  async defer(item: SyncInspectorItem, until: string, actor: SyncRepairActor): Promise<SyncRepairResult> {
+    return this.repair("defer", item, actor, async () => {
+      if (item.kind === "queue") {
+        await deferSyncQueueItem(Number(item.id), until);
+      } else {
+        await deferMediaSync(item.kind, item.id, until);
+      }
+      return { deferredUntil: until };
+    });
+  }
+
+  /**
+   * Send a queue row again under a new idempotency key
+   */
+  async requeue(item: SyncInspectorItem, actor: SyncRepairActor): Promise<SyncRepairResult> {
+    if (item.kind !== "queue") {
+      return { success: false, error: "Only sync queue items can be re-queued" };
+    }
+
+    return this.repair("requeue", item, actor, async () => {
+      const operation = item.status.split(":")[0];
+      const idempotencyKey = generateIdempotencyKey(item.entityType, item.entityId, operation);
+      await requeueSyncQueueItem(Number(item.id), idempotencyKey);
+      return { newIdempotencyKey: idempotencyKey };
+    });
+  }
+
+  /**
+   * Write the item and its stored row to the exports directory
+   */
+  async exportItem(item: SyncInspectorItem, actor: SyncRepairActor): Promise<SyncRepairResult> {
+    let uri = "";
+    const result = await this.repair("export", item, actor, async () => {
+      const now = new Date();
+      const raw = await this.getRawItem(item);
+
+      const exportDirInfo = await getInfoAsync(STORAGE_PATHS.exports);
+      if (!exportDirInfo.exists) {
+        await makeDirectoryAsync(STORAGE_PATHS.exports, { intermediates: true });
+      }
+
+      const filename = inspectorExportFilename(item, now);
+      uri = `${STORAGE_PATHS.exports}${filename}`;
+      await writeAsStringAsync(uri, inspectorItemExport(item, raw, now.toISOString()));
+      return { filename };
+    });
+
+    return result.success ? { ...result, uri } : result;
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  /**
+   * Apply a repair, then audit it. Failures are logged but not audited, as
+   * nothing changed.
+   */
+  private async repair(
+    action: SyncRepairAction,
+    item: SyncInspectorItem,
+    actor: SyncRepairActor,
+    apply: () => Promise<Record<string, unknown>>
+  ): Promise<SyncRepairResult> {
+    try {
+      const changes = await apply();
+
+      await addAuditLog(
+        SYNC_REPAIR_AUDIT_ACTIONS[action],
+        SYNC_REPAIR_AUDIT_ENTITY_TYPE,
+        item.key,
+        actor.id,
+        actor.name,
+        repairAuditDetails(action, item, changes)
+      );
+
+      const message = `${actor.name} ran ${action} on ${item.key}`;
+      console.log(`[SyncInspector] ${message}`);
+      appendStoredLog({
+        timestamp: new Date().toISOString(),
+        level: "info",
+        source: "SyncInspector",
+        message,
+        context: { action, kind: item.kind, attemptCount: item.attemptCount, ...changes },
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error(`[SyncInspector] Failed to ${action} ${item.key}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `Failed to ${action} item`,
+      };
+    }
+  }
+
+  private async resetMedia(kind: SyncMediaKind, id: string): Promise<void> {
+    switch (kind) {
+      case "photo":
+        await updatePhotoSyncStatus(id, MEDIA_RETRY_STATUS.photo);
+        break;
+      case "video":
+        await updateVideoSyncStatus(id, MEDIA_RETRY_STATUS.video);
+        break;
+      case "voice_note":
+        await updateVoiceNoteSyncStatus(id, MEDIA_RETRY_STATUS.voice_note);
+        break;
+    }
+  }
+
+  private async getRawItem(
+    item: SyncInspectorItem
+  ): Promise<LocalSyncQueue | LocalPhoto | LocalVideo | LocalVoiceNote | null> {
+    switch (item.kind) {
+      case "queue":
+        return getSyncQueueItem(Number(item.id));
+      case "photo":
+        return getPhotoById(item.id);
+      case "video":
+        return getVideoById(item.id);
+      case "voice_note":
+        return getVoiceNoteById(item.id);
+    }
+  }
+}
+
+export const syncInspectorService = new SyncInspectorService();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const getSyncInspectorItems = () => syncInspectorService.getItems();
+export const getSyncRepairHistory = (limit?: number) => syncInspectorService.getRecentActions(limit);
+export const retrySyncItem = (item: SyncInspectorItem, actor: SyncRepairActor) =>
+  syncInspectorService.retry(item, actor);
+export const deferSyncItem = (item: SyncInspectorItem, until: string, actor: SyncRepairActor) =>
+  syncInspectorService.defer(item, until, actor);
+export const requeueSyncItem = (item: SyncInspectorItem, actor: SyncRepairActor) =>
+  syncInspectorService.requeue(item, actor);
+export const exportSyncItem = (item: SyncInspectorItem, actor: SyncRepairActor) =>
+  syncInspectorService.exportItem(item, actor);
@@ -10,9 +10,11 @@ import * as FileSystem from "expo-file-system/legacy";
 import { FileSystemUploadType } from "expo-file-system/legacy";
 import {
   fetchBootstrapData,
+  fetchReportDelta,
   withRetry,
   checkApiHealth,
   apiClient,
+  getReport as fetchRemoteReport,
 } from "../lib/api";
 import {
   saveUser,
@@ -21,18 +23,39 @@ import {
   getAllChecklists,
   saveTemplate,
   getAllTemplates,
+  saveDefectTemplate,
+  getAllDefectTemplates,
+  deleteDefectTemplate,
   saveReport,
   getReport,
   getAllReports,
   getPendingSyncReports,
   saveRoofElement,
   getRoofElementsForReport,
+  deleteRoofElement,
+  saveRoofPlan,
+  getRoofPlan,
+  deleteRoofPlan,
   saveDefect,
   getDefectsForReport,
+  deleteDefect,
   savePhoto,
   getPhotosForReport,
+  getPhotoById,
+  deletePhoto,
+  getVideoById,
+  deleteVideo,
+  getVoiceNoteById,
+  deleteVoiceNote,
+  getReportEvidenceItems,
+  purgeDeletedEntity,
   saveComplianceAssessment,
   getComplianceAssessment,
+  deleteComplianceAssessment,
+  getPendingDeletions,
+  getDeletedEntityKeys,
+  deleteReportGraph,
+  getEntitySyncState,
   getPendingUploadPhotos,
   updatePhotoSyncStatus,
   getPendingUploadVideos,
@@ -43,7 +66,11 @@ import {
   removeSyncQueueItem,
   updateSyncQueueAttempt,
   getSyncQueueCount,
-  clearSyncQueue,
+  clearUnhandledSyncQueueItems,
+  saveScheduledJob,
+  getScheduledJobs,
+  getScheduledJobForReport,
+  deleteScheduledJob,
   getSyncState as getDbSyncState,
   updateSyncState as updateDbSyncState,
   getReportWithRelations,
@@ -52,12 +79,23 @@ import {
   MAX_SYNC_RETRY_ATTEMPTS,
   getUnsyncedCustodyEvents,
   markCustodyEventsSynced,
+  getDeferredMediaIds,
+  markReportDirty,
 } from "../lib/sqlite";
-import { saveLastSyncAt, getLastSyncAt, getOrCreateDeviceId, getSyncSettings } from "../lib/storage";
+import {
+  saveLastSyncAt,
+  getLastSyncAt,
+  getOrCreateDeviceId,
+  getSyncSettings,
+  getDeltaCursor,
+  saveDeltaCursor,
+  deleteDeltaCursor,
+} from "../lib/storage";
 import type {
   LocalUser,
   LocalChecklist,
   LocalTemplate,
+  LocalDefectTemplate,
   LocalReport,
   LocalRoofElement,
   LocalDefect,
@@ -68,8 +106,28 @@ import type {
 } from "../types/database";
 // TUS chunked upload removed — all videos now use presigned URL flow
 // import { uploadWithResume, shouldUseChunkedUpload } from "../lib/chunked-upload";
-import { logSync as logCustodySync } from "./chain-of-custody";
+import { logSync as logCustodySync, logDeletion } from "./chain-of-custody";
 import { verifySyncedEvidence } from "./evidence-service";
+import { conflictMergeService } from "./conflict-merge-service";
+import { processUserAdminQueue } from "./user-admin-service";
+import { retryFailedTranscriptions } from "./transcription-service";
+import { USER_ADMIN_QUEUE_OPERATIONS } from "../lib/user-admin";
+import { localJobFromServer, resolveUnlistedJob } from "../lib/scheduled-jobs";
+import { parseRoofPlan } from "../lib/roof-plan";
+import { parseWeatherRecord } from "../lib/weather";
+import { parseRoofMeasurement } from "../lib/roof-geometry";
+import {
+  decideRemoteUpdate,
+  decideTombstone,
+  deletionFromQueueItem,
+  partitionAcknowledged,
+  isLocallyModified,
+  isRemoteUri,
+  orderTombstones,
+} from "../lib/delta-sync";
+import { photoCacheService } from "./photo-cache-service";
+import { fileEncryptionService } from "./file-encryption-service";
+import { parseDeviceDirective } from "../lib/device-directive";
 import type {
   SyncProgress,
   SyncResult,
@@ -77,11 +135,15 @@ import type {
   SyncState,
   NetworkStatus,
   DetailedSyncProgress,
+  SyncConflict,
+  ConflictResolutionInput,
 } from "../types/sync";
 import type {
   Checklist,
   ReportTemplate,
+  DefectTemplate,
   ReportSummary,
+  ScheduledJob,
   DownloadedPhoto,
   DownloadedDefect,
   DownloadedRoofElement,
@@ -93,7 +155,12 @@ import type {
   RoofElementSync,
   DefectSync,
   ComplianceAssessmentSync,
+  RoofPlanSync,
   PhotoMetadataSync,
+  ReportGraph,
+  DeletionSync,
+  SyncTombstone,
+  TombstoneEntityType,
 } from "../types/shared";
 
 // ============================================
@@ -105,6 +172,17 @@ const SYNC_BATCH_SIZE = 10; // Max reports per sync batch
 const PHOTO_UPLOAD_TIMEOUT = 120000; // 2 minutes for photo upload
 const AUTO_SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
 
+const TOMBSTONE_TABLES: Record<TombstoneEntityType, Parameters<typeof getEntitySyncState>[0]> = {
+  report: "reports",
+  element: "roof_elements",
+  defect: "defects",
+  photo: "photos",
+  video: "videos",
+  voiceNote: "voice_notes",
+  compliance: "compliance_assessments",
+  roofPlan: "roof_plans",
+};
+
 // ============================================
 // TYPES
 // ============================================
@@ -113,7 +191,7 @@ type ProgressCallback = (status: string, progress: number) => void;
 export type DetailedProgressCallback = (progress: DetailedSyncProgress) => void;
 type ErrorCallback = (error: SyncError) => void;
 type StatusCallback = (state: SyncState) => void;
-type ConflictCallback = (conflicts: Array<{ reportId: string; resolution: string }>) => void;
+type ConflictCallback = (conflicts: SyncConflict[]) => void;
 type SyncCompleteCallback = (result: SyncResult) => void;
 
 interface UploadResult {
@@ -138,6 +216,7 @@ class SyncEngine {
   private isSyncing: boolean = false;
   private isOnline: boolean = false;
   private hasBootstrapped: boolean = false;
+  private abortRequested: boolean = false;
   private autoSyncTimer: ReturnType<typeof setInterval> | null = null;
   private networkUnsubscribe: (() => void) | null = null;
 
@@ -481,12 +560,28 @@ class SyncEngine {
     let conflicts = 0;
 
     try {
-      // Get pending reports
+      // Admin user actions queued while offline
+      const adminResult = await processUserAdminQueue();
+      if (adminResult.failed > 0) {
+        errors.push({
+          code: "USER_ADMIN_FAILED",
+          message: `${adminResult.failed} user admin action(s) could not be sent`,
+          entityType: "user",
+          retryable: true,
+        });
+      }
+
+      // Voice notes waiting on the server engine, including ones that gave up
+      // while offline; runs alongside the upload
+      void retryFailedTranscriptions();
+
+      // Get pending reports and whole-report deletions
       const pendingReports = await getPendingSyncReports();
+      const reportDeletions = (await getPendingDeletions()).filter((item) => item.entityType === "report");
 
-      if (pendingReports.length === 0) {
+      if (pendingReports.length === 0 && reportDeletions.length === 0) {
         console.log("[Sync] No pending reports to upload");
-        return { success: true, reportsSynced: 0, photosSynced: 0, errors: [], conflicts: 0 };
+        return { success: errors.length === 0, reportsSynced: 0, photosSynced: 0, errors, conflicts: 0 };
       }
 
       console.log(`[Sync] Found ${pendingReports.length} pending reports`);
@@ -513,7 +608,7 @@ class SyncEngine {
         }
       }
 
-      if (reportsToSync.length === 0) {
+      if (reportsToSync.length === 0 && reportDeletions.length === 0) {
         return { success: true, reportsSynced: 0, photosSynced: 0, errors, conflicts: 0 };
       }
 
@@ -523,6 +618,9 @@ class SyncEngine {
         deviceId,
         syncTimestamp: new Date().toISOString(),
       };
+      if (reportDeletions.length > 0) {
+        payload.deletedReports = reportDeletions.map(deletionFromQueueItem);
+      }
 
       this.emitProgress(`Uploading ${reportsToSync.length} reports...`, 30);
 
@@ -537,6 +635,7 @@ class SyncEngine {
       });
 
       // Send to server
+      this.throwIfAborted();
       const response = await this.sendUploadPayload(payload);
 
       if (!response.success) {
@@ -552,11 +651,26 @@ class SyncEngine {
       reportsSynced = response.results.syncedReports.length;
       conflicts = response.stats.conflicts;
 
+      // Clear acknowledged tombstones; the rest retry on the next sync
+      const sentDeletions = [
+        ...(payload.deletedReports ?? []),
+        ...reportsToSync.flatMap((r) => r.deletions ?? []),
+      ];
+      if (sentDeletions.length > 0) {
+        await this.processDeletionAcks(sentDeletions, response.results.acknowledgedDeletions);
+      }
+
+      // Conflicted reports are reconciled below instead of being marked synced,
+      // so their base version is not overwritten before the merge
+      const conflictedReportIds = new Set(response.results.conflicts.map((c) => c.reportId));
+
       // Update local sync status for successful reports
       let reportIndex = 0;
       for (const reportId of response.results.syncedReports) {
         reportIndex++;
-        await this.markReportSynced(reportId);
+        if (!conflictedReportIds.has(reportId)) {
+          await this.markReportSynced(reportId);
+        }
         this.emitDetailedProgress({
           status: `Uploaded report ${reportIndex} of ${response.results.syncedReports.length}`,
           progress: 30 + Math.round((reportIndex / response.results.syncedReports.length) * 20),
@@ -592,9 +706,18 @@ class SyncEngine {
           itemType: 'photo',
         });
 
+        // Deferred from the sync queue inspector; the report stays dirty so
+        // the photo is offered again once the deferral ends
+        const deferredPhotos = await getDeferredMediaIds("photo");
+
         let photoIndex = 0;
         for (const photoUpload of response.results.pendingPhotoUploads) {
           photoIndex++;
+          this.throwIfAborted();
+          if (deferredPhotos.has(photoUpload.photoId)) {
+            await markReportDirty(photoUpload.reportId);
+            continue;
+          }
           try {
             const uploaded = await this.uploadPhotoToPresignedUrl(
               photoUpload.photoId,
@@ -625,22 +748,36 @@ class SyncEngine {
         }
       }
 
-      // Log conflicts and notify
+      // Three-way merge conflicted reports against the server copy
       if (response.results.conflicts.length > 0) {
+        const openConflicts: SyncConflict[] = [];
         for (const conflict of response.results.conflicts) {
           console.log(
-            `[Sync] Conflict resolved for report ${conflict.reportId}: ` +
+            `[Sync] Conflict for report ${conflict.reportId}: server chose ` +
               `${conflict.resolution} (server: ${conflict.serverUpdatedAt}, client: ${conflict.clientUpdatedAt})`
           );
+          const reconciled = await this.reconcileReportConflict(conflict.reportId);
+          if (reconciled) {
+            openConflicts.push(...reconciled);
+          } else {
+            errors.push({
+              code: "CONFLICT_MERGE_FAILED",
+              message: "Could not fetch server copy to merge",
+              entityType: "report",
+              entityId: conflict.reportId,
+              retryable: true,
+            });
+          }
         }
-        // Emit conflict callback
-        if (this.conflictCallback) {
-          this.conflictCallback(response.results.conflicts);
+        // Only fields changed differently on both sides reach the inspector
+        if (openConflicts.length > 0 && this.conflictCallback) {
+          this.conflictCallback(openConflicts);
         }
       }
 
       // Upload pending videos
-      const pendingVideos = await getPendingUploadVideos();
+      const deferredVideos = await getDeferredMediaIds("video");
+      const pendingVideos = (await getPendingUploadVideos()).filter((video) => !deferredVideos.has(video.id));
       if (pendingVideos.length > 0) {
         const totalVideos = pendingVideos.length;
         this.emitProgress(`Uploading ${totalVideos} videos...`, 85);
@@ -657,6 +794,7 @@ class SyncEngine {
         let videoIndex = 0;
         for (const video of pendingVideos) {
           videoIndex++;
+          this.throwIfAborted();
           try {
             const uploaded = await this.uploadVideo(video);
             if (uploaded) {
@@ -692,7 +830,10 @@ class SyncEngine {
       }
 
       // Upload pending voice notes
-      const pendingVoiceNotes = await getPendingUploadVoiceNotes();
+      const deferredVoiceNotes = await getDeferredMediaIds("voice_note");
+      const pendingVoiceNotes = (await getPendingUploadVoiceNotes()).filter(
+        (voiceNote) => !deferredVoiceNotes.has(voiceNote.id)
+      );
       if (pendingVoiceNotes.length > 0) {
         const totalVoiceNotes = pendingVoiceNotes.length;
         this.emitProgress(`Uploading ${totalVoiceNotes} voice notes...`, 92);
@@ -700,6 +841,7 @@ class SyncEngine {
 
         for (const voiceNote of pendingVoiceNotes) {
           voiceNoteIndex++;
+          this.throwIfAborted();
           try {
             const uploaded = await this.uploadVoiceNote(voiceNote);
             if (!uploaded) {
@@ -734,6 +876,7 @@ class SyncEngine {
 
       // Sync custody events to web server (non-blocking)
       // Required for court-admissible evidence trail
+      this.throwIfAborted();
       this.emitProgress("Syncing custody events...", 94);
       const custodyResult = await this.syncCustodyEvents();
       if (custodyResult.synced > 0) {
@@ -773,11 +916,12 @@ class SyncEngine {
    */
   private async buildReportSyncPayload(report: LocalReport): Promise<ReportSync | null> {
     // Get all related data
-    const [elements, defects, photos, compliance] = await Promise.all([
+    const [elements, defects, photos, compliance, roofPlan] = await Promise.all([
       getRoofElementsForReport(report.id),
       getDefectsForReport(report.id),
       getPhotosForReport(report.id),
       getComplianceAssessment(report.id),
+      getRoofPlan(report.id),
     ]);
 
     // Build element sync objects
@@ -790,6 +934,7 @@ class SyncEngine {
       manufacturer: e.manufacturer,
       pitch: e.pitch,
       area: e.area,
+      measurement: parseRoofMeasurement(e.measurementJson),
       conditionRating: e.conditionRating,
       conditionNotes: e.conditionNotes,
       clientUpdatedAt: e.updatedAt,
@@ -849,6 +994,15 @@ class SyncEngine {
       };
     }
 
+    // Build roof plan sync object
+    const roofPlanSync: RoofPlanSync | null = roofPlan
+      ? {
+          id: roofPlan.id,
+          plan: parseRoofPlan(roofPlan.planJson),
+          clientUpdatedAt: roofPlan.updatedAt,
+        }
+      : null;
+
     // Parse JSON fields
     const scopeOfWorks = report.scopeOfWorksJson ? JSON.parse(report.scopeOfWorksJson) : null;
     const methodology = report.methodologyJson ? JSON.parse(report.methodologyJson) : null;
@@ -872,6 +1026,7 @@ class SyncEngine {
       inspectionDate: report.inspectionDate,
       inspectionType: report.inspectionType,
       weatherConditions: report.weatherConditions,
+      weather: parseWeatherRecord(report.weatherJson),
       accessMethod: report.accessMethod,
       limitations: report.limitations,
       clientName: report.clientName,
@@ -888,12 +1043,55 @@ class SyncEngine {
       elements: elementSyncs,
       defects: defectSyncs,
       compliance: complianceSync,
+      roofPlan: roofPlanSync,
       photoMetadata: photoSyncs,
     };
 
+    const deletions = await getPendingDeletions(report.id);
+    if (deletions.length > 0) {
+      reportSync.deletions = deletions.map(deletionFromQueueItem);
+    }
+
+    const job = await getScheduledJobForReport(report.id);
+    if (job) {
+      reportSync.jobId = job.id;
+    }
+
     return reportSync;
   }
 
+  /**
+   * Remove tombstones the server acknowledged, purge the deleted rows they
+   * kept on the device and count a failed attempt against the rest
+   */
+  private async processDeletionAcks(sent: DeletionSync[], acknowledgedKeys: string[] | undefined): Promise<void> {
+    const queued = new Map((await getPendingDeletions()).map((item) => [item.idempotencyKey, item]));
+    const { acknowledged, unacknowledged } = partitionAcknowledged(sent, acknowledgedKeys);
+
+    for (const deletion of acknowledged) {
+      const item = queued.get(deletion.idempotencyKey);
+      if (item) await removeSyncQueueItem(item.id);
+      if (deletion.entityType === "photo") {
+        await photoCacheService.remove(deletion.entityId);
+      }
+      await purgeDeletedEntity(deletion.entityType, deletion.entityId);
+    }
+
+    for (const deletion of unacknowledged) {
+      const item = queued.get(deletion.idempotencyKey);
+      if (!item) continue;
+      await this.handleSyncFailure(
+        item.id,
+        deletion.entityType,
+        deletion.entityId,
+        "Deletion not acknowledged by server",
+        item.attemptCount
+      );
+    }
+
+    console.log(`[Sync] Deletions: ${acknowledged.length} acknowledged, ${unacknowledged.length} pending`);
+  }
+
   /**
    * Send upload payload to server
    */
@@ -970,14 +1168,16 @@ class SyncEngine {
 
       await updatePhotoSyncStatus(photoId, "processing");
 
-      // Upload to presigned URL
-      const uploadResult = await FileSystem.uploadAsync(uploadUrl, photo.localUri, {
-        httpMethod: "PUT",
-        headers: {
-          "Content-Type": photo.mimeType,
-        },
-        uploadType: FileSystemUploadType.BINARY_CONTENT,
-      });
+      // Upload to presigned URL (encrypted working copies go up as plaintext)
+      const uploadResult = await fileEncryptionService.withPlaintextFile(photo.localUri, (uploadUri) =>
+        FileSystem.uploadAsync(uploadUrl, uploadUri, {
+          httpMethod: "PUT",
+          headers: {
+            "Content-Type": photo.mimeType,
+          },
+          uploadType: FileSystemUploadType.BINARY_CONTENT,
+        })
+      );
 
       if (uploadResult.status >= 200 && uploadResult.status < 300) {
         // Extract the public URL (remove query params from presigned URL)
@@ -1077,50 +1277,61 @@ class SyncEngine {
 
   /**
    * Sync custody events to web server
-   * Sends batched custody events for court-admissible evidence trail
+   * Sends batched custody events for court-admissible evidence trail,
+   * batch after batch until none are left or a batch fails
    * Non-blocking: failures are logged but don't stop sync
    */
   private async syncCustodyEvents(): Promise<{ synced: number; failed: number }> {
-    try {
-      const unsyncedEvents = await getUnsyncedCustodyEvents();
-
-      if (unsyncedEvents.length === 0) {
-        console.log('[Sync] No custody events to sync');
-        return { synced: 0, failed: 0 };
-      }
+    let synced = 0;
 
-      console.log(`[Sync] Syncing ${unsyncedEvents.length} custody events`);
+    try {
+      for (;;) {
+        const unsyncedEvents = await getUnsyncedCustodyEvents();
 
-      // Transform to server format
-      const events = unsyncedEvents.map((event) => ({
-        id: event.id,
-        action: event.action,
-        entityType: event.entityType,
-        entityId: event.entityId,
-        userId: event.userId,
-        userName: event.userName,
-        details: event.details,
-        createdAt: event.createdAt,
-      }));
+        if (unsyncedEvents.length === 0) {
+          if (synced === 0) {
+            console.log('[Sync] No custody events to sync');
+          }
+          return { synced, failed: 0 };
+        }
 
-      const response = await apiClient.post<{
-        success: boolean;
-        processed: number;
-        skipped: number;
-      }>('/api/sync/custody-events', { events });
+        console.log(`[Sync] Syncing ${unsyncedEvents.length} custody events`);
+
+        // Transform to server format
+        const events = unsyncedEvents.map((event) => ({
+          id: event.id,
+          action: event.action,
+          entityType: event.entityType,
+          entityId: event.entityId,
+          userId: event.userId,
+          userName: event.userName,
+          details: event.details,
+          createdAt: event.createdAt,
+          chainSequence: event.chainSequence,
+          prevHash: event.prevHash,
+          eventHash: event.eventHash,
+          chainRoot: event.chainRoot,
+        }));
+
+        const response = await apiClient.post<{
+          success: boolean;
+          processed: number;
+          skipped: number;
+        }>('/api/sync/custody-events', { events });
+
+        if (!response.data.success) {
+          console.warn('[Sync] Custody events sync returned success=false');
+          return { synced, failed: unsyncedEvents.length };
+        }
 
-      if (response.data.success) {
         // Mark all events as synced
         const eventIds = unsyncedEvents.map((e) => e.id);
         await markCustodyEventsSynced(eventIds);
+        synced += response.data.processed;
 
         console.log(
           `[Sync] Custody events synced: ${response.data.processed} processed, ${response.data.skipped} skipped`
         );
-        return { synced: response.data.processed, failed: 0 };
-      } else {
-        console.warn('[Sync] Custody events sync returned success=false');
-        return { synced: 0, failed: unsyncedEvents.length };
       }
     } catch (error) {
       // Non-blocking: log error but don't fail the sync
@@ -1128,7 +1339,7 @@ class SyncEngine {
         '[Sync] Failed to sync custody events:',
         error instanceof Error ? error.message : error
       );
-      return { synced: 0, failed: 1 };
+      return { synced, failed: 1 };
     }
   }
 
@@ -1324,9 +1535,55 @@ class SyncEngine {
         syncedAt: new Date().toISOString(),
         lastSyncError: null,
       });
+      await conflictMergeService.captureBaseVersions(reportId);
     }
   }
 
+  /**
+   * Merge the server copy of a conflicted report into the local one
+   * Returns the conflicts that need the inspector, or null if the server
+   * copy could not be fetched (the report stays pending and is retried).
+   */
+  private async reconcileReportConflict(reportId: string): Promise<SyncConflict[] | null> {
+    try {
+      const response = await fetchRemoteReport(reportId);
+      if (!response.success || !response.data) {
+        console.warn(`[Sync] Could not fetch server copy of ${reportId}: ${response.error}`);
+        return null;
+      }
+
+      const result = await conflictMergeService.reconcileReport(reportId, response.data);
+      return result.conflicts;
+    } catch (error) {
+      console.error(`[Sync] Failed to reconcile report ${reportId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Apply the inspector's conflict decisions and upload the result
+   */
+  async resolveConflicts(resolutions: ConflictResolutionInput[]): Promise<{ resolved: number; failed: number }> {
+    let resolved = 0;
+    let failed = 0;
+
+    for (const input of resolutions) {
+      const result = await conflictMergeService.resolveConflict(input);
+      if (result.success) {
+        resolved++;
+      } else {
+        failed++;
+        console.warn(`[Sync] Failed to resolve ${input.conflictId}: ${result.error}`);
+      }
+    }
+
+    if (resolved > 0 && this.isOnline) {
+      await this.syncPendingChanges();
+    }
+
+    return { resolved, failed };
+  }
+
   /**
    * Mark report sync error in local database
    */
@@ -1341,6 +1598,59 @@ class SyncEngine {
     }
   }
 
+  // ============================================
+  // REMOTE WIPE SUPPORT
+  // ============================================
+
+  /**
+   * Upload everything still pending before a remote wipe
+   *
+   * Stops auto-sync and waits for any running sync to finish, then runs
+   * the normal upload (reports, media, custody events) once more.
+   */
+  async pushBeforeWipe(): Promise<UploadResult> {
+    this.stopAutoSync();
+    this.abortRequested = false;
+
+    for (let i = 0; i < 100 && this.isSyncing; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+    }
+    if (this.isSyncing) {
+      console.warn("[Sync] Wipe push forcing past in-progress sync");
+    }
+
+    this.isSyncing = true;
+    try {
+      return await this.uploadPendingChanges();
+    } finally {
+      this.isSyncing = false;
+      this.abortRequested = false;
+    }
+  }
+
+  /**
+   * Stop the wipe push at the next item boundary
+   *
+   * The request already in flight is left to finish or time out; the
+   * upload then ends with an UPLOAD_FAILED error instead of continuing.
+   */
+  abortSync(): void {
+    this.abortRequested = true;
+  }
+
+  private throwIfAborted(): void {
+    if (this.abortRequested) {
+      throw new Error("Sync aborted");
+    }
+  }
+
+  /**
+   * Upload custody events recorded since the last sync
+   */
+  async pushCustodyEvents(): Promise<{ synced: number; failed: number }> {
+    return this.syncCustodyEvents();
+  }
+
   // ============================================
   // DOWNLOAD SYNC (Server → Mobile)
   // ============================================
@@ -1365,9 +1675,10 @@ class SyncEngine {
     this.isSyncing = true;
 
     try {
-      // Clear stale sync queue items — the queue is not consumed;
-      // sync happens through the report-bundle upload path instead.
-      await clearSyncQueue();
+      // Clear stale sync queue items — report changes go through the
+      // report-bundle upload path. Deletion tombstones and admin user
+      // actions are still consumed from the queue, so they are kept.
+      await clearUnhandledSyncQueueItems(["delete", ...Object.values(USER_ADMIN_QUEUE_OPERATIONS)]);
 
       const result = await this.downloadFromServer(true); // Always full sync on bootstrap
       this.hasBootstrapped = true;
@@ -1427,6 +1738,28 @@ class SyncEngine {
 
       const data = response.data;
 
+      // A wiped/deprovisioned device must not download anything more. The
+      // wipe runs once this sync has finished (it pushes pending changes first).
+      const directive = parseDeviceDirective(data.deviceDirective);
+      if (directive) {
+        console.warn(`[Sync] Device ${directive.action} directive received (${directive.id})`);
+        import("./remote-wipe-service")
+          .then(({ handleDeviceDirective }) => handleDeviceDirective(directive))
+          .catch((error) => console.error("[Sync] Failed to start remote wipe:", error));
+        return {
+          success: false,
+          downloaded: { checklists: 0, templates: 0, reports: 0 },
+          uploaded: { reports: 0, photos: 0, defects: 0, elements: 0 },
+          errors: [{
+            code: "DEVICE_DIRECTIVE",
+            message: `This device has been scheduled for ${directive.action.toLowerCase()} by an administrator`,
+            retryable: false,
+          }],
+          duration: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
       // Save user data
       this.emitProgress("Saving user profile...", 20);
       try {
@@ -1463,6 +1796,34 @@ class SyncEngine {
         });
       }
 
+      // Download defect library (skipped for servers that predate it)
+      if (data.defectTemplates) {
+        this.emitProgress("Downloading defect library...", 65);
+        try {
+          await this.downloadDefectTemplates(data.defectTemplates);
+        } catch (error) {
+          errors.push({
+            code: "DEFECT_TEMPLATE_DOWNLOAD_FAILED",
+            message: error instanceof Error ? error.message : "Failed to download defect library",
+            retryable: true,
+          });
+        }
+      }
+
+      // Download scheduled jobs (skipped for servers that predate scheduling)
+      if (data.scheduledJobs) {
+        this.emitProgress("Downloading scheduled jobs...", 70);
+        try {
+          await this.downloadScheduledJobs(data.scheduledJobs);
+        } catch (error) {
+          errors.push({
+            code: "JOB_DOWNLOAD_FAILED",
+            message: error instanceof Error ? error.message : "Failed to download scheduled jobs",
+            retryable: true,
+          });
+        }
+      }
+
       // Download recent reports
       this.emitProgress("Syncing recent reports...", 75);
       try {
@@ -1475,6 +1836,19 @@ class SyncEngine {
         });
       }
 
+      // Pull full report graphs and deletions since the last delta cursor
+      this.emitProgress("Downloading report changes...", 85);
+      try {
+        const delta = await this.downloadReportDeltas();
+        downloadedReports += delta.reports;
+      } catch (error) {
+        errors.push({
+          code: "DELTA_DOWNLOAD_FAILED",
+          message: error instanceof Error ? error.message : "Failed to download report changes",
+          retryable: true,
+        });
+      }
+
       // Save sync timestamp only if no download errors occurred
       // (prevents stale lastSyncAt from hiding reports on future syncs)
       this.emitProgress("Finalizing sync...", 95);
@@ -1604,6 +1978,103 @@ class SyncEngine {
     return count;
   }
 
+  /**
+   * Store the defect library
+   *
+   * The server lists the whole active library; entries it no longer lists
+   * were withdrawn and are removed so they stop appearing in the picker.
+   */
+  async downloadDefectTemplates(templates: DefectTemplate[]): Promise<number> {
+    const unlisted = new Set((await getAllDefectTemplates()).map((template) => template.id));
+    let count = 0;
+
+    for (const template of templates) {
+      unlisted.delete(template.id);
+      try {
+        if (!template.id || !template.name || !template.observation) {
+          console.warn(`[Sync] Invalid defect template structure: ${template.id}`);
+          continue;
+        }
+
+        // Retired library entries are removed so they no longer appear in the picker
+        if (template.isActive === false) {
+          await deleteDefectTemplate(template.id);
+          continue;
+        }
+
+        const localTemplate: LocalDefectTemplate = {
+          id: template.id,
+          name: template.name,
+          elementType: template.elementType ?? null,
+          classification: template.classification,
+          severity: template.severity,
+          title: template.title || template.name,
+          observation: template.observation,
+          analysis: template.analysis ?? null,
+          opinion: template.opinion ?? null,
+          codeReference: template.codeReference ?? null,
+          copReference: template.copReference ?? null,
+          recommendation: template.recommendation ?? null,
+          priorityLevel: template.priorityLevel ?? null,
+          updatedAt: template.updatedAt || new Date().toISOString(),
+          downloadedAt: new Date().toISOString(),
+        };
+
+        await saveDefectTemplate(localTemplate);
+        count++;
+      } catch (error) {
+        console.error(`[Sync] Failed to save defect template ${template.id}:`, error);
+      }
+    }
+
+    for (const id of unlisted) {
+      await deleteDefectTemplate(id);
+    }
+    if (unlisted.size > 0) {
+      console.log(`[Sync] Removed ${unlisted.size} withdrawn defect templates`);
+    }
+
+    console.log(`[Sync] Downloaded ${count} defect templates`);
+    return count;
+  }
+
+  /**
+   * Store the open jobs assigned to this user
+   *
+   * Jobs the server no longer lists were cancelled, reassigned or
+   * completed; see resolveUnlistedJob.
+   */
+  async downloadScheduledJobs(jobs: ScheduledJob[]): Promise<number> {
+    const now = new Date().toISOString();
+    const existing = new Map((await getScheduledJobs()).map((job) => [job.id, job]));
+    let count = 0;
+
+    for (const job of jobs) {
+      try {
+        if (!job.id || !job.propertyAddress || !job.dueDate) {
+          console.warn(`[Sync] Invalid scheduled job structure: ${job.id}`);
+          continue;
+        }
+        await saveScheduledJob(localJobFromServer(job, existing.get(job.id) ?? null, now));
+        existing.delete(job.id);
+        count++;
+      } catch (error) {
+        console.error(`[Sync] Failed to save scheduled job ${job.id}:`, error);
+      }
+    }
+
+    for (const job of existing.values()) {
+      if (resolveUnlistedJob(job) === "delete") {
+        await deleteScheduledJob(job.id);
+      } else if (job.status !== "COMPLETED") {
+        await saveScheduledJob({ ...job, status: "COMPLETED", downloadedAt: now });
+      }
+    }
+
+    console.log(`[Sync] Downloaded ${count} scheduled jobs`);
+    return count;
+  }
+
   async downloadRecentReports(reports: ReportSummary[]): Promise<number> {
     let count = 0;
     const now = new Date().toISOString();
@@ -1612,22 +2083,24 @@ class SyncEngine {
       console.log(`[Sync] Report IDs: ${reports.map(r => `${r.reportNumber}(${r.id})`).join(', ')}`);
     }
 
+    const deletedKeys = await getDeletedEntityKeys();
+
     for (const report of reports) {
       try {
+        if (deletedKeys.has(`report:${report.id}`)) {
+          console.log(`[Sync] Skipping report ${report.id} - deleted locally, awaiting server acknowledgement`);
+          continue;
+        }
+
         const existingReports = await getAllReports();
         const existingReport = existingReports.find(
           (r) => r.id === report.id || r.reportNumber === report.reportNumber
         );
 
-        if (existingReport) {
-          // Skip if local has unsynced changes
-          if (
-            existingReport.syncStatus !== "synced" &&
-            new Date(existingReport.updatedAt) > new Date(report.updatedAt)
-          ) {
-            console.log(`[Sync] Skipping report ${report.id} - local changes are newer`);
-            continue;
-          }
+        // Never overwrite unsynced local edits; the upload conflict path merges them
+        if (existingReport && isLocallyModified(existingReport)) {
+          console.log(`[Sync] Skipping report ${report.id} - it has unsynced local changes`);
+          continue;
         }
 
         const localReport: LocalReport = {
@@ -1645,6 +2118,7 @@ class SyncEngine {
           inspectionDate: report.createdAt,
           inspectionType: report.inspectionType,
           weatherConditions: existingReport?.weatherConditions || null,
+          weatherJson: existingReport?.weatherJson || null,
           accessMethod: existingReport?.accessMethod || null,
           limitations: existingReport?.limitations || null,
           clientName: existingReport?.clientName || "",
@@ -1673,143 +2147,456 @@ class SyncEngine {
 
         // Save related data if included in bootstrap response
         const reportId = localReport.id;
+        await this.saveReportChildren(reportId, report, now, report.reportNumber);
 
-        // Save roof elements
-        if (report.roofElements && report.roofElements.length > 0) {
-          for (const element of report.roofElements) {
-            try {
-              await saveRoofElement({
-                id: element.id,
-                reportId,
-                elementType: element.elementType,
-                location: element.location,
-                claddingType: element.claddingType,
-                material: element.material,
-                manufacturer: element.manufacturer,
-                pitch: element.pitch,
-                area: element.area,
-                conditionRating: element.conditionRating,
-                conditionNotes: element.conditionNotes,
-                syncStatus: "synced",
-                createdAt: element.createdAt,
-                updatedAt: element.updatedAt,
-                syncedAt: now,
-              });
-            } catch (elemError) {
-              console.error(`[Sync] Failed to save roof element ${element.id}:`, elemError);
-            }
-          }
-          console.log(`[Sync] Saved ${report.roofElements.length} roof elements for report ${report.reportNumber}`);
+        // Downloaded state is the new merge base
+        await conflictMergeService.captureBaseVersions(reportId);
+      } catch (error) {
+        console.error(`[Sync] FAILED to save report ${report.reportNumber} (${report.id}):`, error);
+      }
+    }
+
+    console.log(`[Sync] Downloaded ${count} reports with full data`);
+    return count;
+  }
+
+  /**
+   * Save the related records of a downloaded report
+   *
+   * Rows with unsynced local edits are left alone for the three-way
+   * merge. Photos that already have a local file keep it; only photos
+   * new to this device point at the server URL and are fetched lazily
+   * by the photo cache.
+   */
+  private async saveReportChildren(
+    reportId: string,
+    children: Pick<ReportSummary, "roofElements" | "defects" | "photos" | "complianceAssessment" | "roofPlan">,
+    now: string,
+    label: string
+  ): Promise<void> {
+    // Rows deleted here but not yet acknowledged must not come back
+    const deletedKeys = await getDeletedEntityKeys();
+
+    // Save roof elements
+    if (children.roofElements && children.roofElements.length > 0) {
+      for (const element of children.roofElements) {
+        if (deletedKeys.has(`element:${element.id}`)) continue;
+        try {
+          const local = await getEntitySyncState("roof_elements", element.id);
+          if (decideRemoteUpdate(local) === "merge") continue;
+
+          await saveRoofElement({
+            id: element.id,
+            reportId,
+            elementType: element.elementType,
+            location: element.location,
+            claddingType: element.claddingType,
+            material: element.material,
+            manufacturer: element.manufacturer,
+            pitch: element.pitch,
+            area: element.area,
+            measurementJson: element.measurement ? JSON.stringify(element.measurement) : null,
+            conditionRating: element.conditionRating,
+            conditionNotes: element.conditionNotes,
+            syncStatus: "synced",
+            createdAt: element.createdAt,
+            updatedAt: element.updatedAt,
+            syncedAt: now,
+          });
+        } catch (elemError) {
+          console.error(`[Sync] Failed to save roof element ${element.id}:`, elemError);
         }
+      }
+      console.log(`[Sync] Saved ${children.roofElements.length} roof elements for report ${label}`);
+    }
 
-        // Save defects
-        if (report.defects && report.defects.length > 0) {
-          for (const defect of report.defects) {
-            try {
-              await saveDefect({
-                id: defect.id,
-                reportId,
-                roofElementId: defect.roofElementId,
-                defectNumber: defect.defectNumber,
-                title: defect.title,
-                description: defect.description,
-                location: defect.location,
-                classification: defect.classification,
-                severity: defect.severity,
-                observation: defect.observation,
-                analysis: defect.analysis,
-                opinion: defect.opinion,
-                codeReference: defect.codeReference,
-                copReference: defect.copReference,
-                recommendation: defect.recommendation,
-                priorityLevel: defect.priorityLevel,
-                syncStatus: "synced",
-                createdAt: defect.createdAt,
-                updatedAt: defect.updatedAt,
-                syncedAt: now,
-              });
-            } catch (defectError) {
-              console.error(`[Sync] Failed to save defect ${defect.id}:`, defectError);
-            }
-          }
-          console.log(`[Sync] Saved ${report.defects.length} defects for report ${report.reportNumber}`);
+    // Save defects
+    if (children.defects && children.defects.length > 0) {
+      for (const defect of children.defects) {
+        if (deletedKeys.has(`defect:${defect.id}`)) continue;
+        try {
+          const local = await getEntitySyncState("defects", defect.id);
+          if (decideRemoteUpdate(local) === "merge") continue;
+
+          await saveDefect({
+            id: defect.id,
+            reportId,
+            roofElementId: defect.roofElementId,
+            defectNumber: defect.defectNumber,
+            title: defect.title,
+            description: defect.description,
+            location: defect.location,
+            classification: defect.classification,
+            severity: defect.severity,
+            observation: defect.observation,
+            analysis: defect.analysis,
+            opinion: defect.opinion,
+            codeReference: defect.codeReference,
+            copReference: defect.copReference,
+            recommendation: defect.recommendation,
+            priorityLevel: defect.priorityLevel,
+            syncStatus: "synced",
+            createdAt: defect.createdAt,
+            updatedAt: defect.updatedAt,
+            syncedAt: now,
+          });
+        } catch (defectError) {
+          console.error(`[Sync] Failed to save defect ${defect.id}:`, defectError);
         }
+      }
+      console.log(`[Sync] Saved ${children.defects.length} defects for report ${label}`);
+    }
 
-        // Save photos (metadata only — binary is accessed via URL)
-        if (report.photos && report.photos.length > 0) {
-          for (const photo of report.photos) {
-            try {
-              await savePhoto({
-                id: photo.id,
-                reportId,
-                defectId: photo.defectId,
-                roofElementId: photo.roofElementId,
-                localUri: photo.url, // Use server URL as localUri for downloaded photos
-                thumbnailUri: photo.thumbnailUrl,
-                filename: photo.filename,
-                originalFilename: photo.originalFilename,
-                mimeType: photo.mimeType,
-                fileSize: photo.fileSize,
-                photoType: photo.photoType,
-                quickTag: null,
-                capturedAt: photo.capturedAt,
-                gpsLat: photo.gpsLat,
-                gpsLng: photo.gpsLng,
-                gpsAltitude: photo.gpsAltitude,
-                gpsAccuracy: null,
-                cameraMake: photo.cameraMake,
-                cameraModel: photo.cameraModel,
-                exposureTime: photo.exposureTime ? parseFloat(photo.exposureTime) : null,
-                fNumber: photo.fNumber,
-                iso: photo.iso,
-                focalLength: photo.focalLength,
-                originalHash: photo.originalHash,
-                annotationsJson: photo.annotations ? JSON.stringify(photo.annotations) : null,
-                annotatedUri: photo.annotatedUrl,
-                measurementsJson: null,
-                calibrationJson: null,
-                measuredUri: null,
-                caption: photo.caption,
-                sortOrder: photo.sortOrder,
-                syncStatus: "synced",
-                uploadedUrl: photo.url,
-                syncedAt: now,
-                lastSyncError: null,
-                createdAt: photo.createdAt,
-              });
-            } catch (photoError) {
-              console.error(`[Sync] Failed to save photo ${photo.id}:`, photoError);
-            }
-          }
-          console.log(`[Sync] Saved ${report.photos.length} photos for report ${report.reportNumber}`);
+    // Save photos (metadata only — binary is fetched lazily via the photo cache)
+    if (children.photos && children.photos.length > 0) {
+      for (const photo of children.photos) {
+        if (deletedKeys.has(`photo:${photo.id}`)) continue;
+        try {
+          const existing = await getPhotoById(photo.id);
+          if (existing && isLocallyModified(existing)) continue;
+
+          const keepLocalFile = existing !== null && !isRemoteUri(existing.localUri);
+
+          await savePhoto({
+            id: photo.id,
+            reportId,
+            defectId: photo.defectId,
+            roofElementId: photo.roofElementId,
+            localUri: keepLocalFile ? existing.localUri : photo.url,
+            thumbnailUri: keepLocalFile ? existing.thumbnailUri : photo.thumbnailUrl,
+            filename: photo.filename,
+            originalFilename: photo.originalFilename,
+            mimeType: photo.mimeType,
+            fileSize: photo.fileSize,
+            photoType: photo.photoType,
+            quickTag: existing?.quickTag ?? null,
+            capturedAt: photo.capturedAt,
+            gpsLat: photo.gpsLat,
+            gpsLng: photo.gpsLng,
+            gpsAltitude: photo.gpsAltitude,
+            gpsAccuracy: existing?.gpsAccuracy ?? null,
+            cameraMake: photo.cameraMake,
+            cameraModel: photo.cameraModel,
+            exposureTime: photo.exposureTime ? parseFloat(photo.exposureTime) : null,
+            fNumber: photo.fNumber,
+            iso: photo.iso,
+            focalLength: photo.focalLength,
+            originalHash: photo.originalHash,
+            annotationsJson: photo.annotations ? JSON.stringify(photo.annotations) : null,
+            annotatedUri: photo.annotatedUrl,
+            measurementsJson: existing?.measurementsJson ?? null,
+            calibrationJson: existing?.calibrationJson ?? null,
+            measuredUri: existing?.measuredUri ?? null,
+            caption: photo.caption,
+            sortOrder: photo.sortOrder,
+            syncStatus: "synced",
+            uploadedUrl: photo.url,
+            syncedAt: now,
+            lastSyncError: null,
+            createdAt: photo.createdAt,
+          });
+        } catch (photoError) {
+          console.error(`[Sync] Failed to save photo ${photo.id}:`, photoError);
         }
+      }
+      console.log(`[Sync] Saved ${children.photos.length} photos for report ${label}`);
+    }
 
-        // Save compliance assessment
-        if (report.complianceAssessment) {
-          try {
-            const ca = report.complianceAssessment;
-            await saveComplianceAssessment({
-              id: ca.id,
-              reportId,
-              checklistResultsJson: JSON.stringify(ca.checklistResults),
-              nonComplianceSummary: ca.nonComplianceSummary,
-              syncStatus: "synced",
-              createdAt: ca.createdAt,
-              updatedAt: ca.updatedAt,
-              syncedAt: now,
-            });
-            console.log(`[Sync] Saved compliance assessment for report ${report.reportNumber}`);
-          } catch (compError) {
-            console.error(`[Sync] Failed to save compliance assessment:`, compError);
-          }
+    // Save compliance assessment
+    if (children.complianceAssessment) {
+      try {
+        const ca = children.complianceAssessment;
+        const local = await getEntitySyncState("compliance_assessments", ca.id);
+        if (decideRemoteUpdate(local) === "apply") {
+          await saveComplianceAssessment({
+            id: ca.id,
+            reportId,
+            checklistResultsJson: JSON.stringify(ca.checklistResults),
+            nonComplianceSummary: ca.nonComplianceSummary,
+            syncStatus: "synced",
+            createdAt: ca.createdAt,
+            updatedAt: ca.updatedAt,
+            syncedAt: now,
+          });
+          console.log(`[Sync] Saved compliance assessment for report ${label}`);
         }
-      } catch (error) {
-        console.error(`[Sync] FAILED to save report ${report.reportNumber} (${report.id}):`, error);
+      } catch (compError) {
+        console.error(`[Sync] Failed to save compliance assessment:`, compError);
       }
     }
 
-    console.log(`[Sync] Downloaded ${count} reports with full data`);
-    return count;
+    // Save roof plan sketch
+    if (children.roofPlan) {
+      try {
+        const rp = children.roofPlan;
+        const local = await getEntitySyncState("roof_plans", rp.id);
+        if (decideRemoteUpdate(local) === "apply") {
+          await saveRoofPlan({
+            id: rp.id,
+            reportId,
+            planJson: JSON.stringify(rp.plan),
+            syncStatus: "synced",
+            createdAt: rp.createdAt,
+            updatedAt: rp.updatedAt,
+            syncedAt: now,
+          });
+        }
+      } catch (planError) {
+        console.error(`[Sync] Failed to save roof plan:`, planError);
+      }
+    }
+  }
+
+  // ============================================
+  // DELTA DOWNLOAD
+  // ============================================
+
+  /**
+   * Pull complete report graphs and deletions changed since the stored cursor
+   *
+   * Pages until the server reports no more changes, saving the cursor after
+   * each page so an interrupted sync resumes where it stopped. An expired
+   * cursor restarts from scratch once.
+   */
+  async downloadReportDeltas(): Promise<{ reports: number; deleted: number }> {
+    let since = await getDeltaCursor();
+    let reports = 0;
+    let deleted = 0;
+    let restarted = false;
+
+    for (;;) {
+      const response = await withRetry(() => fetchReportDelta(since ?? undefined), MAX_RETRY_ATTEMPTS, 1000);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || "Failed to fetch report delta");
+      }
+
+      const page = response.data;
+      if (page.cursorExpired) {
+        if (restarted) {
+          throw new Error("Delta cursor expired twice in one sync");
+        }
+        console.warn("[Sync] Delta cursor expired — restarting from the beginning");
+        await deleteDeltaCursor();
+        since = null;
+        restarted = true;
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      for (const graph of page.reports) {
+        try {
+          if (await this.applyReportGraph(graph, now)) reports++;
+        } catch (error) {
+          console.error(`[Sync] Failed to apply delta for report ${graph.report.id}:`, error);
+        }
+      }
+
+      for (const tombstone of orderTombstones(page.tombstones)) {
+        try {
+          if (await this.applyTombstone(tombstone)) deleted++;
+        } catch (error) {
+          console.error(`[Sync] Failed to apply tombstone ${tombstone.entityType}:${tombstone.entityId}:`, error);
+        }
+      }
+
+      await saveDeltaCursor(page.cursor);
+      since = page.cursor;
+
+      if (!page.hasMore) break;
+    }
+
+    console.log(`[Sync] Delta download: ${reports} reports updated, ${deleted} records deleted`);
+    return { reports, deleted };
+  }
+
+  private async applyReportGraph(graph: ReportGraph, now: string): Promise<boolean> {
+    const remote = graph.report;
+    if ((await getDeletedEntityKeys()).has(`report:${remote.id}`)) {
+      console.log(`[Sync] Skipping delta for report ${remote.id} - deleted locally, awaiting server acknowledgement`);
+      return false;
+    }
+
+    const local = await getEntitySyncState("reports", remote.id);
+
+    if (
+      decideRemoteUpdate(local) === "merge" ||
+      (local !== null && (await this.hasUnsyncedChildren(remote.id)))
+    ) {
+      // Clean children take the server copy; edited rows and the report
+      // header are merged three ways so no local edit is lost
+      await this.saveReportChildren(remote.id, graph, now, remote.reportNumber);
+      const result = await conflictMergeService.reconcileReport(remote.id, {
+        ...remote,
+        roofElements: graph.roofElements,
+        defects: graph.defects,
+      });
+      console.log(
+        `[Sync] Merged delta for report ${remote.id} into local edits (${result.conflicts.length} conflict(s))`
+      );
+      return true;
+    }
+
+    const existing = local ? await getReport(remote.id) : null;
+    const toJson = (value: Record<string, unknown> | null) => (value ? JSON.stringify(value) : null);
+
+    await saveReport({
+      id: remote.id,
+      reportNumber: remote.reportNumber,
+      status: remote.status,
+      propertyAddress: remote.propertyAddress,
+      propertyCity: remote.propertyCity,
+      propertyRegion: remote.propertyRegion,
+      propertyPostcode: remote.propertyPostcode,
+      propertyType: remote.propertyType,
+      buildingAge: remote.buildingAge,
+      gpsLat: remote.gpsLat,
+      gpsLng: remote.gpsLng,
+      inspectionDate: remote.inspectionDate,
+      inspectionType: remote.inspectionType,
+      weatherConditions: remote.weatherConditions,
+      // Servers that predate structured weather omit the field
+      weatherJson:
+        remote.weather === undefined ? existing?.weatherJson ?? null : remote.weather ? JSON.stringify(remote.weather) : null,
+      accessMethod: remote.accessMethod,
+      limitations: remote.limitations,
+      clientName: remote.clientName,
+      clientEmail: remote.clientEmail,
+      clientPhone: remote.clientPhone,
+      scopeOfWorksJson: toJson(remote.scopeOfWorks),
+      methodologyJson: toJson(remote.methodology),
+      findingsJson: toJson(remote.findings),
+      conclusionsJson: toJson(remote.conclusions),
+      recommendationsJson: toJson(remote.recommendations),
+      declarationSigned: remote.declarationSigned,
+      signedAt: remote.signedAt,
+      inspectorId: remote.inspectorId ?? existing?.inspectorId ?? null,
+      submittedAt: remote.submittedAt,
+      approvedAt: remote.approvedAt,
+      syncStatus: "synced",
+      createdAt: remote.createdAt,
+      updatedAt: remote.updatedAt,
+      syncedAt: now,
+      lastSyncError: null,
+    });
+
+    await this.saveReportChildren(remote.id, graph, now, remote.reportNumber);
+
+    // Downloaded state is the new merge base
+    await conflictMergeService.captureBaseVersions(remote.id);
+    return true;
+  }
+
+  private async applyTombstone(tombstone: SyncTombstone): Promise<boolean> {
+    const table = TOMBSTONE_TABLES[tombstone.entityType];
+    const local = await getEntitySyncState(table, tombstone.entityId);
+
+    if (decideTombstone(local, tombstone) === "skip") {
+      if (local) {
+        console.log(`[Sync] Keeping ${tombstone.entityType} ${tombstone.entityId} - edited locally after server deletion`);
+      }
+      return false;
+    }
+
+    switch (tombstone.entityType) {
+      case "report": {
+        const pending = await this.hasUnsyncedChildren(tombstone.entityId);
+        if (pending) {
+          console.log(`[Sync] Keeping report ${tombstone.entityId} - it has unsynced records`);
+          return false;
+        }
+        const photos = await getPhotosForReport(tombstone.entityId);
+        for (const photo of photos) {
+          await photoCacheService.remove(photo.id);
+        }
+        const evidence = await getReportEvidenceItems(tombstone.entityId);
+        await deleteReportGraph(tombstone.entityId);
+        await this.logServerDeletion(evidence, tombstone.deletedAt);
+        break;
+      }
+      case "element":
+        await deleteRoofElement(tombstone.entityId);
+        break;
+      case "defect":
+        await deleteDefect(tombstone.entityId);
+        break;
+      case "photo": {
+        const photo = await getPhotoById(tombstone.entityId);
+        await photoCacheService.remove(tombstone.entityId);
+        await deletePhoto(tombstone.entityId);
+        if (photo) {
+          await this.logServerDeletion(
+            [{ entityType: "photo", entityId: photo.id, originalHash: photo.originalHash }],
+            tombstone.deletedAt
+          );
+        }
+        break;
+      }
+      case "video": {
+        const video = await getVideoById(tombstone.entityId);
+        await deleteVideo(tombstone.entityId);
+        if (video) {
+          await this.logServerDeletion(
+            [{ entityType: "video", entityId: video.id, originalHash: video.originalHash }],
+            tombstone.deletedAt
+          );
+        }
+        break;
+      }
+      case "voiceNote": {
+        const note = await getVoiceNoteById(tombstone.entityId);
+        await deleteVoiceNote(tombstone.entityId);
+        if (note) {
+          await this.logServerDeletion(
+            [{ entityType: "voice_note", entityId: note.id, originalHash: note.originalHash }],
+            tombstone.deletedAt
+          );
+        }
+        break;
+      }
+      case "compliance":
+        if (tombstone.reportId) await deleteComplianceAssessment(tombstone.reportId);
+        break;
+      case "roofPlan":
+        if (tombstone.reportId) await deleteRoofPlan(tombstone.reportId);
+        break;
+    }
+
+    if (tombstone.reportId && tombstone.entityType !== "report") {
+      await conflictMergeService.captureBaseVersions(tombstone.reportId);
+    }
+    return true;
+  }
+
+  /**
+   * Record evidence removed by a server deletion; the custody chain
+   * outlives the evidence row. Items already deleted on this device were
+   * logged then and are not passed here.
+   */
+  private async logServerDeletion(
+    items: Array<{ entityType: "photo" | "video" | "voice_note"; entityId: string; originalHash: string | null }>,
+    deletedAt: string
+  ): Promise<void> {
+    if (items.length === 0) return;
+    const { userId, userName } = await this.getCurrentUser();
+    for (const item of items) {
+      await logDeletion(
+        item.entityType,
+        item.entityId,
+        userId,
+        userName,
+        item.originalHash,
+        `Deleted on server at ${deletedAt}; removed from device by sync`
+      );
+    }
+  }
+
+  private async hasUnsyncedChildren(reportId: string): Promise<boolean> {
+    const [elements, defects, photos] = await Promise.all([
+      getRoofElementsForReport(reportId),
+      getDefectsForReport(reportId),
+      getPhotosForReport(reportId),
+    ]);
+    return [...elements, ...defects, ...photos].some((row) => isLocallyModified(row));
   }
 
   // ============================================
@@ -1975,6 +2762,12 @@ export function onSyncConflict(callback: ConflictCallback): void {
   syncEngine.onConflict(callback);
 }
 
+export async function resolveSyncConflicts(
+  resolutions: ConflictResolutionInput[]
+): Promise<{ resolved: number; failed: number }> {
+  return syncEngine.resolveConflicts(resolutions);
+}
+
 export function onSyncComplete(callback: SyncCompleteCallback): void {
   syncEngine.onSyncComplete(callback);
 }
@@ -0,0 +1,309 @@
+/**
+ * Transcription Service
+ * Job queue that transcribes voice notes after recording
+ *
+ * Each voice note carries its own job state (status, attempts, next retry)
+ * in the voice_notes table so the queue survives restarts. Progress of the
+ * running job is reported to subscribers. The engine is pluggable: by default
+ * audio is sent to the server; an on-device model or a stub can be set with
+ * setEngine. Network engines are skipped while offline, and every sync pass
+ * re-queues failed jobs, so notes recorded without signal are transcribed
+ * once the device reconnects.
+ *
+ * EVIDENCE INTEGRITY: the transcript is hashed together with the audio's
+ * originalHash. Edits by the inspector re-hash it and are marked "manual".
+ */
+
+import * as Crypto from "expo-crypto";
+import NetInfo from "@react-native-community/netinfo";
+import { transcribeVoiceNote } from "../lib/api";
+import {
+  getDueTranscriptionJobs,
+  getTranscribedVoiceNotes,
+  getVoiceNoteById,
+  requeueFailedTranscriptions,
+  resetInterruptedTranscriptions,
+  updateVoiceNoteTranscription,
+  updateVoiceNoteTranscriptionStatus,
+} from "../lib/sqlite";
+import {
+  MAX_TRANSCRIPTION_ATTEMPTS,
+  NO_SPEECH_ERROR,
+  nextRetry,
+  normaliseTranscript,
+  searchTranscripts,
+  transcriptHashInput,
+  type TranscriptionEngine,
+  type TranscriptMatch,
+} from "../lib/transcription";
+import type { LocalVoiceNote } from "../types/database";
+import type { TranscriptionStatus } from "../types/shared";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TranscriptionJobUpdate {
+  voiceNoteId: string;
+  status: TranscriptionStatus;
+  /** 0 to 1 while processing */
+  progress: number;
+  /** Set when completed */
+  transcript?: string;
+  error?: string;
+}
+
+type TranscriptionListener = (update: TranscriptionJobUpdate) => void;
+
+/**
+ * Sends the recording to the server for transcription
+ */
+export const serverTranscriptionEngine: TranscriptionEngine = {
+  id: "server",
+  requiresNetwork: true,
+  async transcribe(input, onProgress) {
+    onProgress(0.1);
+    const response = await transcribeVoiceNote({
+      voiceNoteId: input.voiceNoteId,
+      localUri: input.localUri,
+      mimeType: input.mimeType,
+      originalHash: input.originalHash,
+    });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || "Transcription request failed");
+    }
+    onProgress(1);
+    return response.data;
+  },
+};
+
+const MANUAL_ENGINE_ID = "manual";
+
+// ============================================
+// TRANSCRIPTION SERVICE
+// ============================================
+
+class TranscriptionService {
+  private engine: TranscriptionEngine = serverTranscriptionEngine;
+  private listeners = new Set<TranscriptionListener>();
+  private progress = new Map<string, number>();
+  private isProcessing = false;
+  private hasRecovered = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  setEngine(engine: TranscriptionEngine): void {
+    console.log(`[Transcription] Using engine ${engine.id}`);
+    this.engine = engine;
+  }
+
+  getEngine(): TranscriptionEngine {
+    return this.engine;
+  }
+
+  /**
+   * Listen for job status and progress changes
+   *
+   * @returns unsubscribe function
+   */
+  subscribe(listener: TranscriptionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Progress of the job currently running for a note, if any
+   */
+  getProgress(voiceNoteId: string): number | null {
+    return this.progress.get(voiceNoteId) ?? null;
+  }
+
+  /**
+   * Queue a note for transcription (again), resetting its attempts
+   */
+  async enqueue(voiceNoteId: string): Promise<void> {
+    await updateVoiceNoteTranscriptionStatus(voiceNoteId, "pending", { attempts: 0 });
+    this.notify({ voiceNoteId, status: "pending", progress: 0 });
+    void this.processQueue();
+  }
+
+  /**
+   * Re-queue jobs that used up their attempts, then run the queue
+   */
+  async retryFailed(): Promise<void> {
+    try {
+      const requeued = await requeueFailedTranscriptions(NO_SPEECH_ERROR);
+      if (requeued > 0) console.log(`[Transcription] Re-queued ${requeued} failed job(s)`);
+    } catch (error) {
+      console.error("[Transcription] Could not re-queue failed jobs:", error);
+    }
+    await this.processQueue();
+  }
+
+  /**
+   * Run every job that is due. Safe to call often; only one run at a time.
+   */
+  async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      if (!this.hasRecovered) {
+        const reset = await resetInterruptedTranscriptions();
+        if (reset > 0) console.log(`[Transcription] Re-queued ${reset} interrupted job(s)`);
+        this.hasRecovered = true;
+      }
+
+      let jobs = await getDueTranscriptionJobs(new Date().toISOString());
+      while (jobs.length > 0) {
+        for (const note of jobs) {
+          if (!(await this.canRun())) {
+            console.log("[Transcription] Offline - leaving jobs queued until the next sync");
+            return;
+          }
+          await this.runJob(note);
+        }
+        jobs = await getDueTranscriptionJobs(new Date().toISOString());
+      }
+    } catch (error) {
+      console.error("[Transcription] Queue run failed:", error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Replace the transcript with the inspector's corrected text
+   */
+  async editTranscript(voiceNoteId: string, text: string): Promise<{ success: boolean; error?: string }> {
+    const note = await getVoiceNoteById(voiceNoteId);
+    if (!note) return { success: false, error: "Voice note not found" };
+
+    const transcript = normaliseTranscript(text);
+    if (!transcript) return { success: false, error: "Transcript is empty" };
+
+    await updateVoiceNoteTranscription(
+      voiceNoteId,
+      transcript,
+      await this.hashTranscript(note.originalHash, transcript),
+      MANUAL_ENGINE_ID
+    );
+    this.notify({ voiceNoteId, status: "completed", progress: 1, transcript });
+    return { success: true };
+  }
+
+  /**
+   * Check a stored transcript still matches its hash and recording
+   */
+  async verifyTranscript(note: LocalVoiceNote): Promise<boolean> {
+    if (!note.transcription || !note.transcriptionHash) return false;
+    return (await this.hashTranscript(note.originalHash, note.transcription)) === note.transcriptionHash;
+  }
+
+  /**
+   * Search transcripts, across all reports or within one
+   */
+  async search(query: string, reportId?: string): Promise<TranscriptMatch<LocalVoiceNote>[]> {
+    return searchTranscripts(await getTranscribedVoiceNotes(reportId), query);
+  }
+
+  private async runJob(note: LocalVoiceNote): Promise<void> {
+    const attempts = note.transcriptionAttempts + 1;
+    const engine = this.engine;
+
+    await updateVoiceNoteTranscriptionStatus(note.id, "processing", { attempts, engineId: engine.id });
+    this.setProgress(note.id, "processing", 0);
+
+    try {
+      const output = await engine.transcribe(
+        {
+          voiceNoteId: note.id,
+          localUri: note.localUri,
+          mimeType: note.mimeType,
+          durationMs: note.durationMs,
+          originalHash: note.originalHash,
+        },
+        (fraction) => this.setProgress(note.id, "processing", Math.min(1, Math.max(0, fraction)))
+      );
+
+      const transcript = normaliseTranscript(output.text);
+      if (!transcript) throw new Error(NO_SPEECH_ERROR);
+
+      await updateVoiceNoteTranscription(
+        note.id,
+        transcript,
+        await this.hashTranscript(note.originalHash, transcript),
+        engine.id
+      );
+      this.progress.delete(note.id);
+      this.notify({ voiceNoteId: note.id, status: "completed", progress: 1, transcript });
+      console.log(`[Transcription] Transcribed ${note.id} with ${engine.id}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Transcription failed";
+      const retry = nextRetry(attempts, new Date(), MAX_TRANSCRIPTION_ATTEMPTS);
+
+      await updateVoiceNoteTranscriptionStatus(note.id, retry.status, {
+        attempts,
+        error: message,
+        nextAttemptAt: retry.nextAttemptAt,
+      });
+      this.progress.delete(note.id);
+      this.notify({ voiceNoteId: note.id, status: retry.status, progress: 0, error: message });
+      console.warn(
+        `[Transcription] Attempt ${attempts}/${MAX_TRANSCRIPTION_ATTEMPTS} for ${note.id} failed: ${message}`
+      );
+
+      if (retry.nextAttemptAt) this.scheduleRetry(retry.nextAttemptAt);
+    }
+  }
+
+  private async canRun(): Promise<boolean> {
+    if (!this.engine.requiresNetwork) return true;
+    const netState = await NetInfo.fetch();
+    return netState.isConnected === true;
+  }
+
+  private scheduleRetry(at: string): void {
+    const delay = Math.max(0, Date.parse(at) - Date.now());
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.processQueue();
+    }, delay);
+  }
+
+  private hashTranscript(originalHash: string, transcript: string): Promise<string> {
+    return Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      transcriptHashInput(originalHash, transcript)
+    );
+  }
+
+  private setProgress(voiceNoteId: string, status: TranscriptionStatus, progress: number): void {
+    this.progress.set(voiceNoteId, progress);
+    this.notify({ voiceNoteId, status, progress });
+  }
+
+  private notify(update: TranscriptionJobUpdate): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        console.warn("[Transcription] Listener failed:", error);
+      }
+    }
+  }
+}
+
+export const transcriptionService = new TranscriptionService();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const setTranscriptionEngine = (engine: TranscriptionEngine) => transcriptionService.setEngine(engine);
+export const processTranscriptionQueue = () => transcriptionService.processQueue();
+export const retryFailedTranscriptions = () => transcriptionService.retryFailed();
+export const searchVoiceNoteTranscripts = (query: string, reportId?: string) =>
+  transcriptionService.search(query, reportId);
@@ -0,0 +1,345 @@
+/**
+ * User Admin Service
+ * Suspend, activate, change roles and invite users from the admin screens
+ *
+ * Actions are applied to the local directory straight away. When online
+ * they are sent to the server at once; when offline (or the server can't
+ * be reached) they wait in sync_queue and are sent on the next sync.
+ * A server refusal reverts the local change; actions queued after it for
+ * the same user are re-applied on top. Every outcome is written to the
+ * audit log.
+ */
+
+import NetInfo from "@react-native-community/netinfo";
+import * as Crypto from "expo-crypto";
+import {
+  addToSyncQueue,
+  addAuditLog,
+  getRetryableItems,
+  getSyncQueue,
+  getSyncQueueItem,
+  removeSyncQueueItem,
+  updateSyncQueueAttempt,
+  updateSyncQueuePayload,
+  markPermanentlyFailed,
+  getManagedUsers,
+  getManagedUser,
+  saveManagedUser,
+  deleteManagedUser,
+  replaceManagedUsers,
+  MAX_SYNC_RETRY_ATTEMPTS,
+} from "../lib/sqlite";
+import { fetchManagedUsers, performUserAdminAction } from "../lib/api";
+import {
+  USER_ADMIN_QUEUE_OPERATIONS,
+  INVITE_ID_PREFIX,
+  isUserAdminOperation,
+  auditActionFor,
+  describeUserAdminAction,
+  shouldQueueAfterFailure,
+  applyUserAdminAction,
+  createInvitedUser,
+  validateInvite,
+  managedUserFromServer,
+  mergeManagedUsers,
+} from "../lib/user-admin";
+import type { LocalManagedUser, LocalSyncQueue } from "../types/database";
+import type { UserAdminAction, UserInvite } from "../types/shared";
+
+export interface UserAdminActor {
+  id: string;
+  name: string;
+}
+
+export interface UserAdminResult {
+  success: boolean;
+  /** True when the action was saved offline and will be sent on the next sync */
+  queued: boolean;
+  user?: LocalManagedUser;
+  error?: string;
+}
+
+/** Queue payload; `previous` is restored if the server refuses the action */
+interface UserAdminQueuePayload {
+  action: UserAdminAction;
+  previous: LocalManagedUser | null;
+  actor: UserAdminActor;
+}
+
+export interface UserAdminQueueResult {
+  sent: number;
+  rejected: number;
+  failed: number;
+}
+
+// ============================================
+// USER ADMIN SERVICE
+// ============================================
+
+export class UserAdminService {
+  private static instance: UserAdminService;
+  private processing: Promise<UserAdminQueueResult> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): UserAdminService {
+    if (!UserAdminService.instance) {
+      UserAdminService.instance = new UserAdminService();
+    }
+    return UserAdminService.instance;
+  }
+
+  /**
+   * The local directory, including unconfirmed changes
+   */
+  async getUsers(): Promise<LocalManagedUser[]> {
+    return getManagedUsers();
+  }
+
+  /**
+   * Download the directory and merge it with unconfirmed local changes
+   */
+  async refreshUsers(): Promise<{ success: boolean; users: LocalManagedUser[]; error?: string }> {
+    const response = await fetchManagedUsers();
+    if (!response.success || !response.data) {
+      return { success: false, users: await getManagedUsers(), error: response.error };
+    }
+
+    const now = new Date().toISOString();
+    const merged = mergeManagedUsers(
+      response.data.map((user) => managedUserFromServer(user, now)),
+      await getManagedUsers()
+    );
+    await replaceManagedUsers(merged);
+    console.log(`[UserAdmin] Directory refreshed: ${merged.length} users`);
+    return { success: true, users: merged };
+  }
+
+  /**
+   * Invite a new user
+   */
+  async invite(invite: UserInvite, actor: UserAdminActor, reason?: string): Promise<UserAdminResult> {
+    const error = validateInvite(invite, await getManagedUsers());
+    if (error) {
+      return { success: false, queued: false, error };
+    }
+
+    const userId = `${INVITE_ID_PREFIX}${Crypto.randomUUID()}`;
+    return this.performAction(
+      {
+        type: "INVITE",
+        userId,
+        invite: { ...invite, email: invite.email.trim().toLowerCase() },
+        reason: reason || null,
+        requestedAt: new Date().toISOString(),
+      },
+      actor
+    );
+  }
+
+  /**
+   * Apply an action locally, then send it or queue it
+   */
+  async performAction(action: UserAdminAction, actor: UserAdminActor): Promise<UserAdminResult> {
+    const now = new Date().toISOString();
+    const previous = await getManagedUser(action.userId);
+
+    let optimistic: LocalManagedUser;
+    if (action.type === "INVITE") {
+      if (!action.invite) {
+        return { success: false, queued: false, error: "Invitation details are missing" };
+      }
+      optimistic = createInvitedUser(action.userId, action.invite, now);
+    } else {
+      if (!previous) {
+        return { success: false, queued: false, error: "User not found" };
+      }
+      optimistic = applyUserAdminAction(previous, action, now);
+    }
+    await saveManagedUser(optimistic);
+
+    const netState = await NetInfo.fetch();
+    if (netState.isConnected === true) {
+      const response = await performUserAdminAction(action);
+      if (response.success) {
+        const user = await this.confirm(action, response.data ?? null, actor);
+        return { success: true, queued: false, user };
+      }
+      if (!shouldQueueAfterFailure(response.status)) {
+        await this.reject(action, previous, actor, response.error ?? "Rejected by server");
+        return { success: false, queued: false, error: response.error ?? "Rejected by server" };
+      }
+      console.log(`[UserAdmin] ${action.type} not sent (${response.status ?? 0}), queueing`);
+    }
+
+    const payload: UserAdminQueuePayload = { action, previous, actor };
+    await addToSyncQueue(
+      "user",
+      action.userId,
+      USER_ADMIN_QUEUE_OPERATIONS[action.type],
+      payload as unknown as Record<string, unknown>,
+      `user:${action.userId}:${action.type}:${action.requestedAt}`
+    );
+    await addAuditLog(
+      auditActionFor(action.type),
+      "user",
+      action.userId,
+      actor.id,
+      actor.name,
+      `${describeUserAdminAction(action, optimistic)} Queued offline.`
+    );
+    return { success: true, queued: true, user: optimistic };
+  }
+
+  /**
+   * Send queued actions (called by the sync engine before report upload)
+   *
+   * Concurrent calls share the same run.
+   */
+  async processQueue(): Promise<UserAdminQueueResult> {
+    if (this.processing) return this.processing;
+
+    this.processing = this.sendQueued().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
+  }
+
+  private async sendQueued(): Promise<UserAdminQueueResult> {
+    const result: UserAdminQueueResult = { sent: 0, rejected: 0, failed: 0 };
+    const items = (await getRetryableItems()).filter((item) => isUserAdminOperation(item.operation));
+    if (items.length === 0) return result;
+
+    console.log(`[UserAdmin] Sending ${items.length} queued action(s)`);
+    for (const listed of items) {
+      // Re-read: a refusal earlier in this run may have rewritten the payload
+      const item = await getSyncQueueItem(listed.id);
+      if (!item) continue;
+
+      const payload = JSON.parse(item.payloadJson) as UserAdminQueuePayload;
+      const response = await performUserAdminAction(payload.action);
+
+      if (response.success) {
+        await removeSyncQueueItem(item.id);
+        await this.confirm(payload.action, response.data ?? null, payload.actor, "USER_ACTION_SYNCED");
+        result.sent++;
+      } else if (!shouldQueueAfterFailure(response.status)) {
+        await removeSyncQueueItem(item.id);
+        await this.reject(payload.action, payload.previous, payload.actor, response.error ?? "Rejected by server");
+        result.rejected++;
+      } else {
+        await this.recordAttemptFailure(item, response.error ?? "Request failed");
+        result.failed++;
+      }
+    }
+    return result;
+  }
+
+  private async recordAttemptFailure(item: LocalSyncQueue, error: string): Promise<void> {
+    if (item.attemptCount + 1 >= MAX_SYNC_RETRY_ATTEMPTS) {
+      await markPermanentlyFailed(item.id, error);
+    } else {
+      await updateSyncQueueAttempt(item.id, error);
+    }
+  }
+
+  /**
+   * Store the server's copy of the user and record the outcome
+   */
+  private async confirm(
+    action: UserAdminAction,
+    serverUser: Parameters<typeof managedUserFromServer>[0] | null,
+    actor: UserAdminActor,
+    auditAction: string = auditActionFor(action.type)
+  ): Promise<LocalManagedUser | undefined> {
+    const local = await getManagedUser(action.userId);
+    let confirmed: LocalManagedUser | undefined;
+
+    if (serverUser) {
+      confirmed = managedUserFromServer(serverUser, new Date().toISOString());
+      if (serverUser.id !== action.userId) {
+        // Invitation placeholder replaced by the real account
+        await deleteManagedUser(action.userId);
+      }
+      await saveManagedUser(confirmed);
+    } else if (local) {
+      confirmed = { ...local, pendingAction: null, syncedAt: new Date().toISOString() };
+      await saveManagedUser(confirmed);
+    }
+
+    const subject = confirmed ?? local ?? { name: action.invite?.name ?? action.userId, email: action.invite?.email ?? "" };
+    await addAuditLog(
+      auditAction,
+      "user",
+      confirmed?.id ?? action.userId,
+      actor.id,
+      actor.name,
+      describeUserAdminAction(action, subject)
+    );
+    console.log(`[UserAdmin] ${action.type} confirmed for ${action.userId}`);
+    return confirmed;
+  }
+
+  /**
+   * Undo the local change after the server refused it
+   */
+  private async reject(
+    action: UserAdminAction,
+    previous: LocalManagedUser | null,
+    actor: UserAdminActor,
+    error: string
+  ): Promise<void> {
+    const local = await getManagedUser(action.userId);
+    if (previous) {
+      await saveManagedUser(await this.replayLaterActions(action, previous));
+    } else {
+      await deleteManagedUser(action.userId);
+    }
+
+    const subject = previous ?? local ?? { name: action.invite?.name ?? action.userId, email: action.invite?.email ?? "" };
+    await addAuditLog(
+      "USER_ACTION_FAILED",
+      "user",
+      action.userId,
+      actor.id,
+      actor.name,
+      `${describeUserAdminAction(action, subject)} Rejected by server: ${error}`
+    );
+    console.warn(`[UserAdmin] ${action.type} rejected for ${action.userId}: ${error}`);
+  }
+
+  /**
+   * Re-apply the actions queued after a refused one onto the restored user
+   *
+   * Each later item's `previous` is moved onto the restored state too, so
+   * refusing one of them later doesn't bring the first change back.
+   */
+  private async replayLaterActions(rejected: UserAdminAction, restored: LocalManagedUser): Promise<LocalManagedUser> {
+    const later = (await getSyncQueue())
+      .filter((item) => item.entityType === "user" && item.entityId === rejected.userId)
+      .map((item) => ({ item, payload: JSON.parse(item.payloadJson) as UserAdminQueuePayload }))
+      .filter(({ payload }) => payload.action.requestedAt > rejected.requestedAt)
+      .sort((a, b) => a.payload.action.requestedAt.localeCompare(b.payload.action.requestedAt));
+
+    const now = new Date().toISOString();
+    let user = restored;
+    for (const { item, payload } of later) {
+      const rebased: UserAdminQueuePayload = { ...payload, previous: user };
+      await updateSyncQueuePayload(item.id, rebased as unknown as Record<string, unknown>);
+      user = applyUserAdminAction(user, payload.action, now);
+    }
+    return user;
+  }
+}
+
+export const userAdminService = UserAdminService.getInstance();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const performUserAction = (action: UserAdminAction, actor: UserAdminActor) =>
+  userAdminService.performAction(action, actor);
+export const inviteUser = (invite: UserInvite, actor: UserAdminActor, reason?: string) =>
+  userAdminService.invite(invite, actor, reason);
+export const processUserAdminQueue = () => userAdminService.processQueue();
@@ -0,0 +1,479 @@
+/**
+ * Validation Service
+ * Computes pre-submit report validation entirely from local SQLite data
+ *
+ * PreSubmitChecklist and reviewService.submitForReview both use this module,
+ * so what the inspector sees on site (with or without signal) is exactly what
+ * blocks submission.
+ *
+ * Rules are resolved per InspectionType: built-in defaults, refined by the
+ * downloaded LocalTemplate for that type (required compliance checklists).
+ */
+
+import {
+  getReportWithRelations,
+  getAllTemplates,
+  getAllChecklists,
+} from "../lib/sqlite";
+import { InspectionType, ComplianceStatus } from "../types/shared";
+import type { ChecklistItem } from "../types/shared";
+import type {
+  LocalReport,
+  LocalRoofElement,
+  LocalDefect,
+  LocalPhoto,
+  LocalComplianceAssessment,
+  LocalChecklist,
+  LocalTemplate,
+} from "../types/database";
+import type {
+  ValidationDetails,
+  ValidationResult,
+  ValidationRules,
+} from "../types/validation";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Everything the rules look at, loaded from SQLite
+ */
+export interface ValidationInput {
+  report: LocalReport;
+  elements: LocalRoofElement[];
+  defects: LocalDefect[];
+  photos: LocalPhoto[];
+  compliance: LocalComplianceAssessment | null;
+  checklists: LocalChecklist[];
+}
+
+type RuleDefaults = Omit<ValidationRules, "inspectionType" | "templateId" | "requiredChecklists">;
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Built-in rules per inspection type
+ *
+ * Dispute resolution reports may be used in court, so every photo must
+ * carry EXIF and GPS. Visual and non-invasive inspections must state their
+ * limitations.
+ */
+const DEFAULT_RULES: Record<InspectionType, RuleDefaults> = {
+  [InspectionType.FULL_INSPECTION]: {
+    minimumRoofElements: 3,
+    minimumPhotos: 10,
+    requireExif: false,
+    requireGps: false,
+    requireCompliance: true,
+    minimumComplianceCoverage: 100,
+    requireLimitations: false,
+  },
+  [InspectionType.VISUAL_ONLY]: {
+    minimumRoofElements: 1,
+    minimumPhotos: 5,
+    requireExif: false,
+    requireGps: false,
+    requireCompliance: false,
+    minimumComplianceCoverage: 0,
+    requireLimitations: true,
+  },
+  [InspectionType.NON_INVASIVE]: {
+    minimumRoofElements: 2,
+    minimumPhotos: 8,
+    requireExif: false,
+    requireGps: false,
+    requireCompliance: false,
+    minimumComplianceCoverage: 0,
+    requireLimitations: true,
+  },
+  [InspectionType.INVASIVE]: {
+    minimumRoofElements: 3,
+    minimumPhotos: 10,
+    requireExif: false,
+    requireGps: false,
+    requireCompliance: true,
+    minimumComplianceCoverage: 100,
+    requireLimitations: false,
+  },
+  [InspectionType.DISPUTE_RESOLUTION]: {
+    minimumRoofElements: 3,
+    minimumPhotos: 15,
+    requireExif: true,
+    requireGps: true,
+    requireCompliance: true,
+    minimumComplianceCoverage: 100,
+    requireLimitations: false,
+  },
+  [InspectionType.PRE_PURCHASE]: {
+    minimumRoofElements: 2,
+    minimumPhotos: 8,
+    requireExif: false,
+    requireGps: false,
+    requireCompliance: false,
+    minimumComplianceCoverage: 0,
+    requireLimitations: false,
+  },
+  [InspectionType.MAINTENANCE_REVIEW]: {
+    minimumRoofElements: 1,
+    minimumPhotos: 5,
+    requireExif: false,
+    requireGps: false,
+    requireCompliance: false,
+    minimumComplianceCoverage: 0,
+    requireLimitations: false,
+  },
+};
+
+/**
+ * Resolve the rules for an inspection type
+ *
+ * A template that lists compliance checklists makes compliance mandatory
+ * for that type and restricts coverage to those checklists.
+ */
+export function resolveValidationRules(
+  inspectionType: InspectionType,
+  template: LocalTemplate | null
+): ValidationRules {
+  const defaults = DEFAULT_RULES[inspectionType] ?? DEFAULT_RULES[InspectionType.FULL_INSPECTION];
+  let requiredChecklists: string[] = [];
+
+  if (template?.checklistsJson) {
+    try {
+      const parsed = JSON.parse(template.checklistsJson) as { compliance?: string[] } | null;
+      requiredChecklists = parsed?.compliance ?? [];
+    } catch (error) {
+      console.warn("[Validation] Invalid checklists JSON on template:", template.id, error);
+    }
+  }
+
+  const requireCompliance = defaults.requireCompliance || requiredChecklists.length > 0;
+
+  return {
+    ...defaults,
+    inspectionType,
+    templateId: template?.id ?? null,
+    requireCompliance,
+    minimumComplianceCoverage: requireCompliance
+      ? Math.max(defaults.minimumComplianceCoverage, requiredChecklists.length > 0 ? 100 : 0)
+      : 0,
+    requiredChecklists,
+  };
+}
+
+/**
+ * Pick the downloaded template for an inspection type, preferring the default
+ */
+export function selectTemplate(
+  templates: LocalTemplate[],
+  inspectionType: InspectionType
+): LocalTemplate | null {
+  const matching = templates.filter((t) => t.inspectionType === inspectionType);
+  return matching.find((t) => t.isDefault) ?? matching[0] ?? null;
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+const PROPERTY_FIELDS: { key: keyof LocalReport; label: string }[] = [
+  { key: "propertyAddress", label: "Property address" },
+  { key: "propertyCity", label: "City" },
+  { key: "propertyRegion", label: "Region" },
+  { key: "propertyPostcode", label: "Postcode" },
+  { key: "propertyType", label: "Property type" },
+  { key: "clientName", label: "Client name" },
+];
+
+const INSPECTION_FIELDS: { key: keyof LocalReport; label: string }[] = [
+  { key: "inspectionDate", label: "Inspection date" },
+  { key: "inspectionType", label: "Inspection type" },
+  { key: "weatherConditions", label: "Weather conditions" },
+  { key: "accessMethod", label: "Access method" },
+];
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function hasExif(photo: LocalPhoto): boolean {
+  return !!photo.capturedAt && !!(photo.cameraMake || photo.cameraModel);
+}
+
+function hasGps(photo: LocalPhoto): boolean {
+  return photo.gpsLat !== null && photo.gpsLng !== null;
+}
+
+function matchesChecklist(checklist: LocalChecklist, ref: string): boolean {
+  const needle = ref.trim().toLowerCase();
+  return [checklist.id, checklist.standard, checklist.name]
+    .filter((v): v is string => !!v)
+    .some((v) => v.toLowerCase() === needle);
+}
+
+/**
+ * Percentage of checklist items assessed (anything other than NOT_INSPECTED)
+ */
+function computeComplianceCoverage(
+  compliance: LocalComplianceAssessment | null,
+  checklists: LocalChecklist[],
+  rules: ValidationRules
+): { coverage: number; missingChecklists: string[] } {
+  let results: Record<string, Record<string, ComplianceStatus>> = {};
+  if (compliance) {
+    try {
+      results = JSON.parse(compliance.checklistResultsJson);
+    } catch (error) {
+      console.warn("[Validation] Invalid compliance results JSON:", compliance.id, error);
+    }
+  }
+
+  let relevant: LocalChecklist[];
+  const missingChecklists: string[] = [];
+
+  if (rules.requiredChecklists.length > 0) {
+    relevant = [];
+    for (const ref of rules.requiredChecklists) {
+      const checklist = checklists.find((c) => matchesChecklist(c, ref));
+      if (checklist) {
+        relevant.push(checklist);
+      } else {
+        missingChecklists.push(ref);
+      }
+    }
+  } else {
+    // No template requirement: measure the checklists the inspector started
+    relevant = checklists.filter((c) => results[c.id] !== undefined);
+  }
+
+  let total = 0;
+  let assessed = 0;
+
+  for (const checklist of relevant) {
+    let items: ChecklistItem[] = [];
+    try {
+      items = JSON.parse(checklist.itemsJson) as ChecklistItem[];
+    } catch {
+      items = [];
+    }
+    const checklistResults = results[checklist.id] ?? {};
+
+    for (const item of items) {
+      if (item.required === false) continue;
+      total++;
+      const status = checklistResults[item.id];
+      if (status && status !== ComplianceStatus.NOT_INSPECTED) {
+        assessed++;
+      }
+    }
+  }
+
+  const coverage = total > 0 ? Math.round((assessed / total) * 100) : 0;
+  return { coverage, missingChecklists };
+}
+
+/**
+ * Evaluate a report against a set of rules
+ *
+ * Pure function over already-loaded data so it can be unit tested and
+ * reused for any report graph.
+ */
+export function evaluateReportValidation(
+  input: ValidationInput,
+  rules: ValidationRules
+): ValidationResult {
+  const { report, elements, defects, photos, compliance, checklists } = input;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const missingRequiredItems: string[] = [];
+
+  // Property details
+  const propertyMissing = PROPERTY_FIELDS.filter((f) => isBlank(report[f.key])).map((f) => f.label);
+  if (propertyMissing.length > 0) {
+    errors.push(`Property details incomplete: ${propertyMissing.join(", ")}`);
+    missingRequiredItems.push(...propertyMissing);
+  }
+
+  // Inspection details
+  const inspectionFields = rules.requireLimitations
+    ? [...INSPECTION_FIELDS, { key: "limitations" as keyof LocalReport, label: "Limitations" }]
+    : INSPECTION_FIELDS;
+  const inspectionMissing = inspectionFields.filter((f) => isBlank(report[f.key])).map((f) => f.label);
+  if (inspectionMissing.length > 0) {
+    errors.push(`Inspection details incomplete: ${inspectionMissing.join(", ")}`);
+    missingRequiredItems.push(...inspectionMissing);
+  }
+
+  // Roof elements
+  const roofElementsComplete = elements.length >= rules.minimumRoofElements;
+  if (!roofElementsComplete) {
+    errors.push(
+      `At least ${rules.minimumRoofElements} roof element(s) required (${elements.length} documented)`
+    );
+    missingRequiredItems.push("Roof elements");
+  }
+
+  // Photos
+  const withExif = photos.filter(hasExif).length;
+  const withGps = photos.filter(hasGps).length;
+  let photosSufficient = photos.length >= rules.minimumPhotos;
+  if (!photosSufficient) {
+    errors.push(`At least ${rules.minimumPhotos} photo(s) required (${photos.length} captured)`);
+    missingRequiredItems.push("Photos");
+  }
+  if (withExif < photos.length) {
+    const message = `${photos.length - withExif} photo(s) missing EXIF capture data`;
+    if (rules.requireExif) {
+      errors.push(message);
+      missingRequiredItems.push("Photo EXIF");
+      photosSufficient = false;
+    } else {
+      warnings.push(message);
+    }
+  }
+  if (withGps < photos.length) {
+    const message = `${photos.length - withGps} photo(s) missing GPS location`;
+    if (rules.requireGps) {
+      errors.push(message);
+      missingRequiredItems.push("Photo GPS");
+      photosSufficient = false;
+    } else {
+      warnings.push(message);
+    }
+  }
+
+  // Defects (never blocking - a sound roof has none)
+  if (defects.length === 0) {
+    warnings.push("No defects documented - confirm none were found");
+  }
+
+  // Compliance
+  const { coverage, missingChecklists } = computeComplianceCoverage(compliance, checklists, rules);
+  const complianceComplete =
+    !rules.requireCompliance ||
+    (missingChecklists.length === 0 && coverage >= rules.minimumComplianceCoverage);
+  if (rules.requireCompliance) {
+    if (missingChecklists.length > 0) {
+      errors.push(
+        `Required checklist(s) not downloaded: ${missingChecklists.join(", ")} - sync before submitting`
+      );
+    }
+    if (coverage < rules.minimumComplianceCoverage) {
+      errors.push(
+        `Compliance assessment ${coverage}% complete (${rules.minimumComplianceCoverage}% required)`
+      );
+    }
+    if (!complianceComplete) {
+      missingRequiredItems.push("Compliance assessment");
+    }
+  }
+
+  // Sign-off
+  if (!report.declarationSigned) {
+    errors.push("Declaration must be signed before submission");
+    missingRequiredItems.push("Declaration");
+  }
+
+  const validationDetails: ValidationDetails = {
+    propertyDetails: { complete: propertyMissing.length === 0, missing: propertyMissing },
+    inspectionDetails: { complete: inspectionMissing.length === 0, missing: inspectionMissing },
+    roofElements: {
+      complete: roofElementsComplete,
+      count: elements.length,
+      minimum: rules.minimumRoofElements,
+    },
+    defects: { documented: defects.length > 0, count: defects.length },
+    photos: {
+      sufficient: photosSufficient,
+      count: photos.length,
+      minimum: rules.minimumPhotos,
+      withExif,
+      withGps,
+    },
+    compliance: {
+      complete: complianceComplete,
+      coverage,
+      required: rules.requireCompliance ? rules.minimumComplianceCoverage : 0,
+    },
+  };
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+    completionPercentage: computeCompletion(validationDetails, inspectionFields.length, report),
+    missingRequiredItems,
+    validationDetails,
+  };
+}
+
+/**
+ * Weighted completion across sections, with partial credit within each
+ */
+function computeCompletion(
+  details: ValidationDetails,
+  inspectionFieldCount: number,
+  report: LocalReport
+): number {
+  const ratio = (value: number, target: number) => (target <= 0 ? 1 : Math.min(value / target, 1));
+
+  const scores = [
+    ratio(PROPERTY_FIELDS.length - details.propertyDetails.missing.length, PROPERTY_FIELDS.length),
+    ratio(inspectionFieldCount - details.inspectionDetails.missing.length, inspectionFieldCount),
+    ratio(details.roofElements.count, details.roofElements.minimum),
+    details.photos.sufficient ? 1 : ratio(details.photos.count, details.photos.minimum) * 0.9,
+    details.compliance.complete ? 1 : ratio(details.compliance.coverage, details.compliance.required),
+    report.declarationSigned ? 1 : 0,
+  ];
+
+  const percentage = Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 100);
+  // Only a valid report reads 100%
+  return details.compliance.complete &&
+    details.photos.sufficient &&
+    details.roofElements.complete &&
+    details.propertyDetails.complete &&
+    details.inspectionDetails.complete &&
+    report.declarationSigned
+    ? percentage
+    : Math.min(percentage, 99);
+}
+
+// ============================================
+// VALIDATION SERVICE
+// ============================================
+
+class ValidationService {
+  /**
+   * Validate a report from local data
+   */
+  async validateReport(reportId: string): Promise<ValidationResult | null> {
+    const data = await getReportWithRelations(reportId);
+    if (!data) return null;
+
+    const [templates, checklists] = await Promise.all([getAllTemplates(), getAllChecklists()]);
+    const rules = resolveValidationRules(
+      data.report.inspectionType,
+      selectTemplate(templates, data.report.inspectionType)
+    );
+
+    return evaluateReportValidation({ ...data, checklists }, rules);
+  }
+
+  /**
+   * Resolve the rules that apply to a report's inspection type
+   */
+  async getRulesForInspectionType(inspectionType: InspectionType): Promise<ValidationRules> {
+    const templates = await getAllTemplates();
+    return resolveValidationRules(inspectionType, selectTemplate(templates, inspectionType));
+  }
+}
+
+// Export singleton instance
+export const validationService = new ValidationService();
+
+// Export convenience function
+export async function validateReport(reportId: string): Promise<ValidationResult | null> {
+  return validationService.validateReport(reportId);
+}
@@ -21,15 +21,17 @@ import {
   saveVideo,
   getVideosForReport,
   getVideoById,
-  deleteVideo as deleteVideoFromDb,
   markReportDirty,
+  markDeleted,
+  queueDeletion,
+  getUser,
 } from "../lib/sqlite";
 import {
   getCurrentLocation,
   type LocationData,
 } from "./photo-service";
 import { generateHashFromBase64 } from "./evidence-service";
-import { logCapture, logStorage } from "./chain-of-custody";
+import { logCapture, logStorage, logDeletion } from "./chain-of-custody";
 import type { LocalVideo } from "../types/database";
 
 // ============================================
@@ -466,22 +468,29 @@ class VideoService {
 
   /**
    * Delete a video
+   *
+   * The video is hidden and queued for the server; the recording stays on
+   * the device until the server acknowledges the deletion.
    */
-  async deleteVideo(id: string, localUri: string): Promise<void> {
+  async deleteVideo(id: string): Promise<void> {
     try {
-      // Look up video to get reportId before deleting
       const video = await getVideoById(id);
+      if (!video) return;
 
-      // Delete from file system
-      await deleteAsync(localUri, { idempotent: true });
+      await markDeleted("videos", id);
 
-      // Delete from database
-      await deleteVideoFromDb(id);
+      const currentUser = await getUser();
+      await logDeletion(
+        "video",
+        id,
+        currentUser?.id || "unknown",
+        currentUser?.name || "Unknown User",
+        video.originalHash,
+        `Video deleted from mobile device. Filename: ${video.filename}`
+      );
 
-      // Mark report as needing sync
-      if (video?.reportId) {
-        await markReportDirty(video.reportId);
-      }
+      // Also marks the report as needing sync
+      await queueDeletion("video", id, video.reportId, video.originalHash);
 
       console.log("[VideoService] Video deleted:", id);
     } catch (error) {
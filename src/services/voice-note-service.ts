@@ -20,12 +20,18 @@ import {
   saveVoiceNote,
   getVoiceNotesForReport,
   getVoiceNotesForDefect,
-  deleteVoiceNote as deleteVoiceNoteFromDb,
+  getVoiceNoteById,
   markReportDirty,
+  markDeleted,
+  markVoiceNoteSuperseded,
+  queueDeletion,
+  getUser,
 } from "../lib/sqlite";
 import { generateHashFromBase64 } from "./evidence-service";
-import { logCapture, logStorage } from "./chain-of-custody";
+import { logCapture, logStorage, logDeletion } from "./chain-of-custody";
+import { transcriptionService } from "./transcription-service";
 import type { LocalVoiceNote } from "../types/database";
+import type { DictationField, TranscriptionStatus } from "../types/shared";
 
 // ============================================
 // TYPES
@@ -41,6 +47,10 @@ export interface VoiceNoteMetadata {
   durationMs: number;
   recordedAt: string;
   transcription: string | null;
+  transcriptionStatus: TranscriptionStatus;
+  transcriptionError: string | null;
+  dictationField: DictationField | null;
+  supersededBy: string | null;
   originalHash?: string;
 }
 
@@ -145,7 +155,8 @@ class VoiceNoteService {
   async stopRecording(
     reportId: string,
     defectId?: string,
-    roofElementId?: string
+    roofElementId?: string,
+    dictationField?: DictationField
   ): Promise<RecordingResult> {
     if (!this.recording || !this.isRecording) {
       return { success: false, error: "No active recording" };
@@ -222,6 +233,10 @@ class VoiceNoteService {
         durationMs,
         recordedAt: timestamp,
         transcription: null,
+        transcriptionStatus: "pending",
+        transcriptionError: null,
+        dictationField: dictationField || null,
+        supersededBy: null,
         originalHash,
       };
 
@@ -238,6 +253,15 @@ class VoiceNoteService {
         durationMs,
         recordedAt: timestamp,
         transcription: null,
+        transcriptionStatus: "pending",
+        transcriptionHash: null,
+        transcriptionEngine: null,
+        transcriptionAttempts: 0,
+        transcriptionError: null,
+        transcriptionNextAttemptAt: null,
+        transcribedAt: null,
+        dictationField: dictationField || null,
+        supersededBy: null,
         originalHash,
         syncStatus: "draft",
         uploadedUrl: null,
@@ -296,6 +320,9 @@ class VoiceNoteService {
         playThroughEarpieceAndroid: false,
       });
 
+      // Transcribe in the background; the note is already saved as pending
+      void transcriptionService.processQueue();
+
       return { success: true, metadata };
     } catch (error) {
       console.error("[VoiceNoteService] Failed to stop recording:", error);
@@ -400,6 +427,10 @@ class VoiceNoteService {
       durationMs: n.durationMs,
       recordedAt: n.recordedAt,
       transcription: n.transcription,
+      transcriptionStatus: n.transcriptionStatus,
+      transcriptionError: n.transcriptionError,
+      dictationField: n.dictationField,
+      supersededBy: n.supersededBy,
       originalHash: n.originalHash,
     }));
   }
@@ -419,25 +450,39 @@ class VoiceNoteService {
       durationMs: n.durationMs,
       recordedAt: n.recordedAt,
       transcription: n.transcription,
+      transcriptionStatus: n.transcriptionStatus,
+      transcriptionError: n.transcriptionError,
+      dictationField: n.dictationField,
+      supersededBy: n.supersededBy,
       originalHash: n.originalHash,
     }));
   }
 
   /**
    * Delete a voice note
+   *
+   * The note is hidden and queued for the server; the recording stays on
+   * the device until the server acknowledges the deletion.
    */
-  async deleteVoiceNote(id: string, localUri: string, reportId?: string): Promise<void> {
+  async deleteVoiceNote(id: string): Promise<void> {
     try {
-      // Delete from file system
-      await deleteAsync(localUri, { idempotent: true });
+      const note = await getVoiceNoteById(id);
+      if (!note) return;
 
-      // Delete from database
-      await deleteVoiceNoteFromDb(id);
+      await markDeleted("voice_notes", id);
 
-      // Mark report as needing sync
-      if (reportId) {
-        await markReportDirty(reportId);
-      }
+      const currentUser = await getUser();
+      await logDeletion(
+        "voice_note",
+        id,
+        currentUser?.id || "unknown",
+        currentUser?.name || "Unknown User",
+        note.originalHash,
+        `Voice note deleted from mobile device. Filename: ${note.filename}`
+      );
+
+      // Also marks the report as needing sync
+      await queueDeletion("voiceNote", id, note.reportId, note.originalHash);
 
       console.log("[VoiceNoteService] Voice note deleted:", id);
     } catch (error) {
@@ -446,6 +491,17 @@ class VoiceNoteService {
     }
   }
 
+  /**
+   * Keep an earlier dictation take when the field is dictated again
+   *
+   * The recording stays as evidence and still syncs; only the newer take
+   * feeds the field.
+   */
+  async supersedeVoiceNote(id: string, supersededBy: string): Promise<void> {
+    await markVoiceNoteSuperseded(id, supersededBy);
+    console.log(`[VoiceNoteService] Voice note ${id} superseded by ${supersededBy}`);
+  }
+
   /**
    * Format duration for display (mm:ss)
    */
@@ -0,0 +1,98 @@
+/**
+ * Weather Service
+ * Pre-fills the structured weather record for a new inspection
+ *
+ * The provider is pluggable: by default suggestions come from reports
+ * inspected nearby earlier the same day. A network weather provider can be
+ * added with setProvider (combine it with the history provider to keep the
+ * offline fallback).
+ */
+
+import * as Location from "expo-location";
+import { getRecentReportWeather } from "../lib/sqlite";
+import {
+  weatherFromHistory,
+  weatherRecordFromReading,
+  type WeatherContext,
+  type WeatherProvider,
+} from "../lib/weather";
+import type { WeatherRecord } from "../types/shared";
+
+const HISTORY_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Suggests the weather recorded on recent nearby reports on this device
+ */
+export const historyWeatherProvider: WeatherProvider = {
+  id: "history",
+  async getReading(context) {
+    const since = new Date(Date.parse(context.at) - HISTORY_LOOKBACK_MS).toISOString();
+    return weatherFromHistory(await getRecentReportWeather(since), context);
+  },
+};
+
+// ============================================
+// WEATHER SERVICE
+// ============================================
+
+class WeatherService {
+  private provider: WeatherProvider = historyWeatherProvider;
+
+  setProvider(provider: WeatherProvider): void {
+    console.log(`[Weather] Using provider ${provider.id}`);
+    this.provider = provider;
+  }
+
+  getProvider(): WeatherProvider {
+    return this.provider;
+  }
+
+  /**
+   * Suggested weather for an inspection starting now
+   *
+   * Uses the device's last known position if location permission has
+   * already been granted; never prompts.
+   *
+   * @returns null when the provider has no suggestion
+   */
+  async prefill(context?: Partial<WeatherContext>): Promise<WeatherRecord | null> {
+    const at = context?.at ?? new Date().toISOString();
+    let lat = context?.lat ?? null;
+    let lng = context?.lng ?? null;
+    if (lat === null || lng === null) {
+      ({ lat, lng } = await this.lastKnownPosition());
+    }
+
+    try {
+      const reading = await this.provider.getReading({ lat, lng, at });
+      if (!reading) return null;
+      return weatherRecordFromReading(reading, { providerId: this.provider.id, capturedAt: at });
+    } catch (error) {
+      console.warn(`[Weather] Provider ${this.provider.id} failed:`, error);
+      return null;
+    }
+  }
+
+  private async lastKnownPosition(): Promise<{ lat: number | null; lng: number | null }> {
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status !== "granted") return { lat: null, lng: null };
+      const position = await Location.getLastKnownPositionAsync();
+      return position
+        ? { lat: position.coords.latitude, lng: position.coords.longitude }
+        : { lat: null, lng: null };
+    } catch (error) {
+      console.warn("[Weather] Could not read last known position:", error);
+      return { lat: null, lng: null };
+    }
+  }
+}
+
+export const weatherService = new WeatherService();
+
+// ============================================
+// CONVENIENCE EXPORTS
+// ============================================
+
+export const prefillWeather = (context?: Partial<WeatherContext>) => weatherService.prefill(context);
+export const setWeatherProvider = (provider: WeatherProvider) => weatherService.setProvider(provider);
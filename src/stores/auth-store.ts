@@ -8,6 +8,8 @@
  * - Two login methods: email/password (primary) and token (for SSO callbacks)
  * - Offline auth validation with 30-minute grace period (MOBL-03)
  * - SecureStore persistence with WHEN_UNLOCKED_THIS_DEVICE_ONLY security
+ * - Local data unlock: the encrypted database is only opened after login
+ *   or a biometric prompt, and is closed again on logout
  */
 
 import { create } from 'zustand';
@@ -31,7 +33,8 @@ import {
   isTokenExpired,
   getTokenRemainingSeconds,
 } from '../lib/auth/offline-verify';
-import { loginWithCredentials, logoutFromServer } from '../lib/auth/api';
+import { loginWithCredentials, logoutFromServer, validateSessionOnline } from '../lib/auth/api';
+import { authenticateWithBiometrics } from '../lib/auth/biometrics';
 import { deleteLastSyncAt } from '../lib/storage';
 import type { JWTPayload, AuthState } from '../lib/auth/types';
 import { AUTH_TIMING } from '../constants/auth';
@@ -46,6 +49,8 @@ import { AUTH_TIMING } from '../constants/auth';
 interface AuthStoreState extends AuthState {
   // Additional derived state
   tokenRemainingSeconds: number;
+  /** True once the encrypted local database has been opened */
+  isDataUnlocked: boolean;
 
   // Actions - State setters
   setUser: (user: JWTPayload | null) => void;
@@ -74,6 +79,19 @@ interface AuthStoreState extends AuthState {
   // Actions - Logout
   logout: () => Promise<void>;
 
+  // Actions - Local data
+  /**
+   * Open the encrypted local database.
+   * Prompts for biometrics first when enabled, unless the user has just
+   * authenticated (login or biometric unlock screen).
+   */
+  unlockLocalData: (options?: { skipBiometrics?: boolean }) => Promise<{
+    success: boolean;
+    error?: string;
+  }>;
+  /** Close the database and remove decrypted file copies */
+  lockLocalData: () => Promise<void>;
+
   // Actions - Session management
   validateSession: () => Promise<boolean>;
   checkOfflineAuth: () => Promise<boolean>;
@@ -118,6 +136,31 @@ const secureStorage: StateStorage = {
   },
 };
 
+// ============================================
+// LOCAL DATA UNLOCK
+// ============================================
+
+/** Shared so concurrent gates don't prompt or open the database twice */
+let unlockInFlight: Promise<{ success: boolean; error?: string }> | null = null;
+
+// ============================================
+// DEVICE DIRECTIVES
+// ============================================
+
+/**
+ * Ask the server about the session in the background and carry out any
+ * wipe/deprovision directive it returns. Offline is fine — the check just
+ * doesn't happen until the next launch or bootstrap.
+ */
+async function checkDeviceDirective(token: string): Promise<void> {
+  const result = await validateSessionOnline(token);
+  if (!result.directive) return;
+
+  console.warn('[AuthStore] Device directive received with session validation');
+  const { handleDeviceDirective } = await import('../services/remote-wipe-service');
+  await handleDeviceDirective(result.directive);
+}
+
 // ============================================
 // STORE
 // ============================================
@@ -135,6 +178,7 @@ export const useAuthStore = create<AuthStoreState>()(
       biometricsEnabled: false,
       lastOnlineValidation: null,
       tokenRemainingSeconds: 0,
+      isDataUnlocked: false,
 
       // ========================================
       // STATE SETTERS
@@ -195,6 +239,9 @@ export const useAuthStore = create<AuthStoreState>()(
           const now = Date.now();
           await saveLastOnlineValidation(now);
 
+          // Open local data before AuthGuard routes into the app
+          await get().unlockLocalData({ skipBiometrics: true });
+
           // Update state — setting isAuthenticated triggers AuthGuard redirect
           set({
             user: payload,
@@ -238,6 +285,8 @@ export const useAuthStore = create<AuthStoreState>()(
           const now = Date.now();
           await saveLastOnlineValidation(now);
 
+          await get().unlockLocalData({ skipBiometrics: true });
+
           // Update state
           set({
             user: payload,
@@ -267,6 +316,7 @@ export const useAuthStore = create<AuthStoreState>()(
         // (so next login triggers full re-sync, not incremental)
         await clearAllAuthData();
         await deleteLastSyncAt();
+        await get().lockLocalData();
 
         // Reset state
         set({
@@ -278,6 +328,55 @@ export const useAuthStore = create<AuthStoreState>()(
         });
       },
 
+      // ========================================
+      // LOCAL DATA
+      // ========================================
+
+      unlockLocalData: async (options) => {
+        if (get().isDataUnlocked) return { success: true };
+        if (unlockInFlight) return unlockInFlight;
+
+        unlockInFlight = (async () => {
+          try {
+            if (get().biometricsEnabled && !options?.skipBiometrics) {
+              const result = await authenticateWithBiometrics({
+                promptMessage: 'Unlock inspection data',
+              });
+              if (!result.success) {
+                return { success: false, error: result.error || 'Authentication required' };
+              }
+            }
+
+            const { initializeDatabase } = await import('../lib/sqlite');
+            await initializeDatabase();
+            set({ isDataUnlocked: true });
+            return { success: true };
+          } catch (error) {
+            console.error('[AuthStore] Failed to unlock local data:', error);
+            return {
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to open local data',
+            };
+          } finally {
+            unlockInFlight = null;
+          }
+        })();
+
+        return unlockInFlight;
+      },
+
+      lockLocalData: async () => {
+        set({ isDataUnlocked: false });
+        try {
+          const { closeDatabase } = await import('../lib/sqlite');
+          await closeDatabase();
+          const { fileEncryptionService } = await import('../services/file-encryption-service');
+          await fileEncryptionService.clearDecryptedFiles();
+        } catch (error) {
+          console.warn('[AuthStore] Failed to lock local data:', error);
+        }
+      },
+
       // ========================================
       // SESSION MANAGEMENT
       // ========================================
@@ -311,6 +410,11 @@ export const useAuthStore = create<AuthStoreState>()(
           tokenRemainingSeconds: getTokenRemainingSeconds(token),
         });
 
+        // Pick up remote wipe directives without blocking startup
+        checkDeviceDirective(token).catch((error) => {
+          console.warn('[AuthStore] Device directive check failed:', error);
+        });
+
         return true;
       },
 
@@ -416,3 +520,8 @@ export const selectIsOffline = (state: AuthStoreState) => state.isOffline;
  * Selector for biometrics enabled
  */
 export const selectBiometricsEnabled = (state: AuthStoreState) => state.biometricsEnabled;
+
+/**
+ * Selector for local data unlock state
+ */
+export const selectIsDataUnlocked = (state: AuthStoreState) => state.isDataUnlocked;
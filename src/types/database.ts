@@ -21,6 +21,10 @@ import type {
   ComplianceStatus,
   UserRole,
   UserStatus,
+  UserAdminActionType,
+  ScheduledJobStatus,
+  TranscriptionStatus,
+  DictationField,
 } from "./shared";
 
 // ============================================
@@ -60,7 +64,8 @@ export interface LocalReport {
   // Inspection Details
   inspectionDate: string;
   inspectionType: InspectionType;
-  weatherConditions: string | null;
+  weatherConditions: string | null; // Summary text, derived from weatherJson when present
+  weatherJson: string | null; // JSON string of WeatherRecord
   accessMethod: string | null;
   limitations: string | null;
 
@@ -106,6 +111,7 @@ export interface LocalRoofElement {
   manufacturer: string | null;
   pitch: number | null;
   area: number | null;
+  measurementJson: string | null; // JSON string of RoofMeasurementRecord
   conditionRating: ConditionRating | null;
   conditionNotes: string | null;
 
@@ -216,6 +222,88 @@ export interface LocalComplianceAssessment {
   syncedAt: string | null;
 }
 
+export interface LocalRoofPlan {
+  id: string;
+  reportId: string;
+
+  // Stored as JSON string of RoofPlan (outline, element regions, defect pins)
+  planJson: string;
+
+  // Sync tracking
+  syncStatus: SyncStatus;
+  createdAt: string;
+  updatedAt: string;
+  syncedAt: string | null;
+}
+
+/**
+ * Cached binary for a downloaded photo
+ *
+ * Downloaded photos keep their server URL in localUri; the binary is
+ * fetched on first view and evicted least-recently-used.
+ */
+export interface LocalPhotoCacheEntry {
+  photoId: string;
+  fileUri: string;
+  fileSize: number;
+  /** SHA-256 matched the photo's originalHash when downloaded */
+  hashVerified: boolean;
+  downloadedAt: string;
+  lastAccessedAt: string;
+}
+
+/**
+ * A user in the admin directory
+ *
+ * Kept apart from the users table, which only holds the signed-in user.
+ * pendingAction is set while an admin action made offline waits in the
+ * sync queue; invited users get a temporary "invite_" id until the server
+ * confirms the invitation.
+ */
+export interface LocalManagedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  status: UserStatus;
+  company: string | null;
+  lbpNumber: string | null;
+  yearsExperience: number | null;
+  pendingAction: UserAdminActionType | null;
+  invitedAt: string | null;
+  syncedAt: string | null;
+  updatedAt: string;
+}
+
+/**
+ * A scheduled inspection assigned to the signed-in inspector
+ *
+ * reportId is set locally when the job is started and kept across
+ * downloads so the agenda links to the report.
+ */
+export interface LocalScheduledJob {
+  id: string;
+  status: ScheduledJobStatus;
+  propertyAddress: string;
+  propertyCity: string;
+  propertyRegion: string | null;
+  propertyPostcode: string | null;
+  propertyType: PropertyType | null;
+  clientName: string;
+  clientEmail: string | null;
+  clientPhone: string | null;
+  inspectionType: InspectionType;
+  templateId: string | null;
+  dueDate: string;
+  assignedInspectorId: string;
+  assignedInspectorName: string | null;
+  notes: string | null;
+  reportId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  downloadedAt: string;
+}
+
 export interface LocalChecklist {
   id: string;
   name: string;
@@ -237,6 +325,29 @@ export interface LocalTemplate {
   downloadedAt: string;
 }
 
+/**
+ * Reusable defect wording from the organisation's defect library.
+ * Applied to the new-defect form as a starting point; the saved defect
+ * keeps its own copy of the text.
+ */
+export interface LocalDefectTemplate {
+  id: string;
+  name: string;
+  elementType: ElementType | null; // Suggested for defects on this element type
+  classification: DefectClass;
+  severity: DefectSeverity;
+  title: string;
+  observation: string;
+  analysis: string | null;
+  opinion: string | null;
+  codeReference: string | null;
+  copReference: string | null;
+  recommendation: string | null;
+  priorityLevel: PriorityLevel | null;
+  updatedAt: string;
+  downloadedAt: string;
+}
+
 export interface LocalSyncQueue {
   id: number;
   entityType: string;
@@ -247,6 +358,20 @@ export interface LocalSyncQueue {
   attemptCount: number;
   lastError: string | null;
   idempotencyKey: string; // Unique key for deduplication: {entityType}:{entityId}:{operation}:{timestampMs}
+  nextAttemptAt: string | null; // Deferred from the sync queue inspector until this time
+}
+
+/**
+ * Upload bookkeeping for a photo, video or voice note that has failed or
+ * been deferred. Kept apart from the media tables so their save paths are
+ * untouched; the row is removed once the file uploads.
+ */
+export interface LocalMediaSyncState {
+  entityType: "photo" | "video" | "voice_note";
+  entityId: string;
+  attemptCount: number;
+  deferredUntil: string | null;
+  updatedAt: string;
 }
 
 export interface LocalSyncState {
@@ -273,6 +398,20 @@ export interface LocalVoiceNote {
   recordedAt: string;
   transcription: string | null;
 
+  // Transcription job
+  transcriptionStatus: TranscriptionStatus;
+  transcriptionHash: string | null; // SHA-256 of originalHash + transcript
+  transcriptionEngine: string | null;
+  transcriptionAttempts: number;
+  transcriptionError: string | null;
+  transcriptionNextAttemptAt: string | null;
+  transcribedAt: string | null;
+
+  // Defect field this note was dictated for, if any
+  dictationField: DictationField | null;
+  // Later take for the same field; the note is kept as evidence
+  supersededBy: string | null;
+
   // Evidence integrity
   originalHash: string;
 
@@ -334,6 +473,45 @@ export interface LocalAuditLog {
   details: string | null;
   createdAt: string;
   syncedToServer: boolean;
+
+  // Custody hash chain (null for legacy rows and non-custody entries)
+  chainSequence: number | null; // 1-based position within the entity's chain
+  prevHash: string | null; // eventHash of the previous event for the same entity
+  eventHash: string | null; // SHA-256 over this event's canonical content + prevHash
+  chainRoot: string | null; // eventHash of the entity's first chained event
+}
+
+// ============================================
+// MIGRATION TYPES
+// ============================================
+
+/**
+ * The subset of the SQLite connection migrations may use
+ *
+ * Satisfied by expo-sqlite's SQLiteDatabase on device and by the sql.js
+ * adapter in the migration test harness.
+ */
+export interface MigrationDatabase {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string, params: (string | number | null)[]): Promise<{ changes: number }>;
+  getFirstAsync<T>(source: string, params: (string | number | null)[]): Promise<T | null>;
+  getAllAsync<T>(source: string, params: (string | number | null)[]): Promise<T[]>;
+}
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  sql?: string;
+  transform?: (db: MigrationDatabase) => Promise<void>;
+}
+
+/** Row of the schema_migrations history table */
+export interface LocalMigrationRecord {
+  version: number;
+  description: string;
+  checksum: string;
+  appliedAt: string;
+  durationMs: number;
 }
 
 // ============================================
@@ -341,7 +519,7 @@ export interface LocalAuditLog {
 // ============================================
 
 export const DATABASE_NAME = "ranz_mobile.db";
-export const DATABASE_VERSION = 12; // Incremented for schema changes (v12: added synced_to_server to audit_log)
+export const DATABASE_VERSION = 26; // Incremented for schema changes (v26: superseded dictation takes)
 
 export const CREATE_TABLES_SQL = `
 -- Sync State (singleton table for tracking sync metadata)
@@ -387,6 +565,7 @@ CREATE TABLE IF NOT EXISTS reports (
   inspection_date TEXT NOT NULL,
   inspection_type TEXT NOT NULL,
   weather_conditions TEXT,
+  weather_json TEXT,
   access_method TEXT,
   limitations TEXT,
 
@@ -416,7 +595,9 @@ CREATE TABLE IF NOT EXISTS reports (
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   synced_at TEXT,
-  last_sync_error TEXT
+  last_sync_error TEXT,
+  -- Set when deleted on the device; purged once the server acknowledges
+  deleted_at TEXT
 );
 
 -- Roof Elements (mirrors Prisma RoofElement model)
@@ -431,6 +612,7 @@ CREATE TABLE IF NOT EXISTS roof_elements (
   manufacturer TEXT,
   pitch REAL,
   area REAL,
+  measurement_json TEXT,
   condition_rating TEXT,
   condition_notes TEXT,
 
@@ -439,6 +621,7 @@ CREATE TABLE IF NOT EXISTS roof_elements (
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   synced_at TEXT,
+  deleted_at TEXT,
 
   FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE
 );
@@ -473,6 +656,7 @@ CREATE TABLE IF NOT EXISTS defects (
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   synced_at TEXT,
+  deleted_at TEXT,
 
   FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
   FOREIGN KEY (roof_element_id) REFERENCES roof_elements(id) ON DELETE SET NULL
@@ -529,6 +713,7 @@ CREATE TABLE IF NOT EXISTS photos (
   uploaded_url TEXT,
   synced_at TEXT,
   last_sync_error TEXT,
+  deleted_at TEXT,
 
   created_at TEXT NOT NULL,
 
@@ -555,6 +740,19 @@ CREATE TABLE IF NOT EXISTS voice_notes (
   recorded_at TEXT NOT NULL,
   transcription TEXT,
 
+  -- Transcription job
+  transcription_status TEXT NOT NULL DEFAULT 'none',
+  transcription_hash TEXT,
+  transcription_engine TEXT,
+  transcription_attempts INTEGER NOT NULL DEFAULT 0,
+  transcription_error TEXT,
+  transcription_next_attempt_at TEXT,
+  transcribed_at TEXT,
+
+  -- Defect field this note was dictated for
+  dictation_field TEXT,
+  superseded_by TEXT,
+
   -- Evidence integrity
   original_hash TEXT,
 
@@ -563,6 +761,7 @@ CREATE TABLE IF NOT EXISTS voice_notes (
   uploaded_url TEXT,
   synced_at TEXT,
   last_sync_error TEXT,
+  deleted_at TEXT,
 
   created_at TEXT NOT NULL,
 
@@ -607,6 +806,7 @@ CREATE TABLE IF NOT EXISTS videos (
   uploaded_url TEXT,
   synced_at TEXT,
   last_sync_error TEXT,
+  deleted_at TEXT,
 
   created_at TEXT NOT NULL,
 
@@ -632,6 +832,71 @@ CREATE TABLE IF NOT EXISTS compliance_assessments (
   FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE
 );
 
+-- Roof Plans (one sketch per report)
+CREATE TABLE IF NOT EXISTS roof_plans (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL UNIQUE,
+  plan_json TEXT NOT NULL,
+
+  -- Sync tracking
+  sync_status TEXT NOT NULL DEFAULT 'draft',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  synced_at TEXT,
+
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE
+);
+
+-- Admin user directory (the signed-in user stays in users)
+CREATE TABLE IF NOT EXISTS managed_users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'INSPECTOR',
+  status TEXT NOT NULL DEFAULT 'ACTIVE',
+  company TEXT,
+  lbp_number TEXT,
+  years_experience INTEGER,
+  pending_action TEXT,
+  invited_at TEXT,
+  synced_at TEXT,
+  updated_at TEXT NOT NULL
+);
+
+-- Scheduled jobs assigned to the signed-in inspector
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  id TEXT PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'SCHEDULED',
+  property_address TEXT NOT NULL,
+  property_city TEXT NOT NULL,
+  property_region TEXT,
+  property_postcode TEXT,
+  property_type TEXT,
+  client_name TEXT NOT NULL,
+  client_email TEXT,
+  client_phone TEXT,
+  inspection_type TEXT NOT NULL,
+  template_id TEXT,
+  due_date TEXT NOT NULL,
+  assigned_inspector_id TEXT NOT NULL,
+  assigned_inspector_name TEXT,
+  notes TEXT,
+  report_id TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  downloaded_at TEXT NOT NULL
+);
+
+-- Photo Cache (lazily downloaded binaries for server photos)
+CREATE TABLE IF NOT EXISTS photo_cache (
+  photo_id TEXT PRIMARY KEY,
+  file_uri TEXT NOT NULL,
+  file_size INTEGER NOT NULL DEFAULT 0,
+  hash_verified INTEGER NOT NULL DEFAULT 0,
+  downloaded_at TEXT NOT NULL,
+  last_accessed_at TEXT NOT NULL
+);
+
 -- Checklists (downloaded from server)
 CREATE TABLE IF NOT EXISTS checklists (
   id TEXT PRIMARY KEY,
@@ -655,6 +920,27 @@ CREATE TABLE IF NOT EXISTS templates (
   downloaded_at TEXT NOT NULL
 );
 
+-- Defect Templates (defect library, downloaded from server)
+CREATE TABLE IF NOT EXISTS defect_templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  element_type TEXT,
+  classification TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  title TEXT NOT NULL,
+  observation TEXT NOT NULL,
+  analysis TEXT,
+  opinion TEXT,
+  code_reference TEXT,
+  cop_reference TEXT,
+  recommendation TEXT,
+  priority_level TEXT,
+  updated_at TEXT NOT NULL,
+  downloaded_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_defect_templates_element_type ON defect_templates(element_type);
+
 -- Sync Queue (tracks what needs uploading)
 -- Migration: Added idempotency_key column for deduplication
 -- Key format: {entity_type}:{entity_id}:{operation}:{timestamp_ms}
@@ -667,7 +953,18 @@ CREATE TABLE IF NOT EXISTS sync_queue (
   payload_json TEXT NOT NULL,
   created_at TEXT NOT NULL,
   attempt_count INTEGER DEFAULT 0,
-  last_error TEXT
+  last_error TEXT,
+  next_attempt_at TEXT
+);
+
+-- Media Sync State (failed upload attempts and manual deferrals per media file)
+CREATE TABLE IF NOT EXISTS media_sync_state (
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  deferred_until TEXT,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (entity_type, entity_id)
 );
 
 -- ============================================
@@ -693,6 +990,7 @@ CREATE INDEX IF NOT EXISTS idx_photos_sync_status ON photos(sync_status);
 CREATE INDEX IF NOT EXISTS idx_voice_notes_report_id ON voice_notes(report_id);
 CREATE INDEX IF NOT EXISTS idx_voice_notes_defect_id ON voice_notes(defect_id);
 CREATE INDEX IF NOT EXISTS idx_voice_notes_sync_status ON voice_notes(sync_status);
+CREATE INDEX IF NOT EXISTS idx_voice_notes_transcription_status ON voice_notes(transcription_status);
 
 CREATE INDEX IF NOT EXISTS idx_videos_report_id ON videos(report_id);
 CREATE INDEX IF NOT EXISTS idx_videos_defect_id ON videos(defect_id);
@@ -700,6 +998,10 @@ CREATE INDEX IF NOT EXISTS idx_videos_sync_status ON videos(sync_status);
 
 CREATE INDEX IF NOT EXISTS idx_compliance_report_id ON compliance_assessments(report_id);
 
+CREATE INDEX IF NOT EXISTS idx_photo_cache_accessed ON photo_cache(last_accessed_at);
+CREATE INDEX IF NOT EXISTS idx_managed_users_email ON managed_users(email);
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON scheduled_jobs(due_date);
+
 CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue(entity_type, entity_id);
 CREATE INDEX IF NOT EXISTS idx_sync_queue_created ON sync_queue(created_at);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_queue_idempotency ON sync_queue(idempotency_key);
@@ -717,22 +1019,76 @@ CREATE TABLE IF NOT EXISTS audit_log (
   user_name TEXT NOT NULL,
   details TEXT,
   created_at TEXT NOT NULL,
-  synced_to_server INTEGER DEFAULT 0
+  synced_to_server INTEGER DEFAULT 0,
+
+  -- Custody hash chain (tamper evidence)
+  chain_sequence INTEGER,
+  prev_hash TEXT,
+  event_hash TEXT,
+  chain_root TEXT
 );
 
 CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
 CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at);
 CREATE INDEX IF NOT EXISTS idx_audit_log_user ON audit_log(user_id);
 CREATE INDEX IF NOT EXISTS idx_audit_log_synced ON audit_log(synced_to_server);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_chain ON audit_log(entity_type, entity_id, chain_sequence);
+
+-- Sync Base Versions (last state both device and server agreed on, for three-way merge)
+CREATE TABLE IF NOT EXISTS sync_base_versions (
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  report_id TEXT NOT NULL,
+  snapshot_json TEXT NOT NULL,
+  captured_at TEXT NOT NULL,
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_base_versions_report ON sync_base_versions(report_id);
+
+-- Sync Conflicts (fields changed on both device and server, awaiting the inspector)
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  conflict_json TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_report ON sync_conflicts(report_id);
 `;
 
 // ============================================
 // MIGRATION SCRIPTS
 // ============================================
 
-export const MIGRATIONS: { version: number; sql: string }[] = [
+/**
+ * Applied-migration history, created by the migration runner before any
+ * migration runs (fresh installs record a single baseline row)
+ */
+export const MIGRATION_HISTORY_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  description TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  applied_at TEXT NOT NULL,
+  duration_ms INTEGER NOT NULL
+);
+`;
+
+/**
+ * Schema migrations, applied in version order by src/lib/migrations.ts
+ *
+ * Each migration runs in its own transaction together with its history row
+ * and the user_version bump. Use `sql` for DDL and `transform` for data
+ * changes that are easier in TypeScript; both may be given (SQL runs first).
+ * Never edit a shipped migration: its checksum is recorded on device.
+ */
+export const MIGRATIONS: SchemaMigration[] = [
   {
     version: 2,
+    description: "Restructure to match Prisma schema",
     sql: `
       -- Migration from v1 to v2: Restructure to match Prisma schema
       -- This is a destructive migration - data will need to be re-synced
@@ -746,6 +1102,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 3,
+    description: "Add quick_tag column to photos",
     sql: `
       -- Migration from v2 to v3: Add quick_tag column to photos
       ALTER TABLE photos ADD COLUMN quick_tag TEXT;
@@ -753,6 +1110,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 4,
+    description: "Add voice_notes table",
     sql: `
       -- Migration from v3 to v4: Add voice_notes table
       CREATE TABLE IF NOT EXISTS voice_notes (
@@ -783,6 +1141,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 5,
+    description: "Add annotations columns to photos",
     sql: `
       -- Migration from v4 to v5: Add annotations columns to photos
       ALTER TABLE photos ADD COLUMN annotations_json TEXT;
@@ -791,6 +1150,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 6,
+    description: "Add videos table",
     sql: `
       -- Migration from v5 to v6: Add videos table
       CREATE TABLE IF NOT EXISTS videos (
@@ -826,6 +1186,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 7,
+    description: "Add measurements columns to photos",
     sql: `
       -- Migration from v6 to v7: Add measurements columns to photos
       ALTER TABLE photos ADD COLUMN measurements_json TEXT;
@@ -835,6 +1196,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 8,
+    description: "Add audit_log table",
     sql: `
       -- Migration from v7 to v8: Add audit_log table
       CREATE TABLE IF NOT EXISTS audit_log (
@@ -854,6 +1216,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 9,
+    description: "Add video evidence integrity columns",
     sql: `
       -- Migration from v8 to v9: Add video evidence integrity columns
       ALTER TABLE videos ADD COLUMN original_hash TEXT;
@@ -862,6 +1225,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 10,
+    description: "Add voice note evidence integrity column",
     sql: `
       -- Migration from v9 to v10: Add voice note evidence integrity column
       ALTER TABLE voice_notes ADD COLUMN original_hash TEXT;
@@ -869,6 +1233,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 11,
+    description: "Add idempotency_key column to sync_queue",
     sql: `
       -- Migration from v10 to v11: Add idempotency_key column to sync_queue
       -- This prevents duplicate uploads during retries
@@ -881,6 +1246,7 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
   },
   {
     version: 12,
+    description: "Add synced_to_server column to audit_log",
     sql: `
       -- Migration from v11 to v12: Add synced_to_server column to audit_log
       -- This tracks which custody events have been synced to the web server
@@ -889,4 +1255,233 @@ export const MIGRATIONS: { version: number; sql: string }[] = [
       CREATE INDEX IF NOT EXISTS idx_audit_log_synced ON audit_log(synced_to_server);
     `,
   },
+  {
+    version: 13,
+    description: "Hash-link custody events per entity",
+    sql: `
+      -- Migration from v12 to v13: Hash-link custody events per entity
+      -- Existing rows stay unchained (NULL) and are reported as legacy on verification
+      ALTER TABLE audit_log ADD COLUMN chain_sequence INTEGER;
+      ALTER TABLE audit_log ADD COLUMN prev_hash TEXT;
+      ALTER TABLE audit_log ADD COLUMN event_hash TEXT;
+      ALTER TABLE audit_log ADD COLUMN chain_root TEXT;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_chain ON audit_log(entity_type, entity_id, chain_sequence);
+    `,
+  },
+  {
+    version: 14,
+    description: "Three-way merge support for sync conflicts",
+    sql: `
+      -- Migration from v13 to v14: Three-way merge support for sync conflicts
+      -- Base versions are captured on the next successful sync of each report
+      CREATE TABLE IF NOT EXISTS sync_base_versions (
+        entity_type TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        report_id TEXT NOT NULL,
+        snapshot_json TEXT NOT NULL,
+        captured_at TEXT NOT NULL,
+        PRIMARY KEY (entity_type, entity_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_sync_base_versions_report ON sync_base_versions(report_id);
+      CREATE TABLE IF NOT EXISTS sync_conflicts (
+        id TEXT PRIMARY KEY,
+        report_id TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        conflict_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sync_conflicts_report ON sync_conflicts(report_id);
+    `,
+  },
+  {
+    version: 15,
+    description: "Defect library",
+    sql: `
+      -- Migration from v14 to v15: Defect library
+      -- Populated on the next bootstrap
+      CREATE TABLE IF NOT EXISTS defect_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        element_type TEXT,
+        classification TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        title TEXT NOT NULL,
+        observation TEXT NOT NULL,
+        analysis TEXT,
+        opinion TEXT,
+        code_reference TEXT,
+        cop_reference TEXT,
+        recommendation TEXT,
+        priority_level TEXT,
+        updated_at TEXT NOT NULL,
+        downloaded_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_defect_templates_element_type ON defect_templates(element_type);
+    `,
+  },
+  {
+    version: 16,
+    description: "Roof plan sketch per report",
+    sql: `
+      -- Migration from v15 to v16: Roof plan sketch per report
+      CREATE TABLE IF NOT EXISTS roof_plans (
+        id TEXT PRIMARY KEY,
+        report_id TEXT NOT NULL UNIQUE,
+        plan_json TEXT NOT NULL,
+        sync_status TEXT NOT NULL DEFAULT 'draft',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        synced_at TEXT,
+        FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE
+      );
+    `,
+  },
+  {
+    version: 17,
+    description: "Lazily downloaded photo binaries",
+    sql: `
+      -- Migration from v16 to v17: Lazily downloaded photo binaries
+      CREATE TABLE IF NOT EXISTS photo_cache (
+        photo_id TEXT PRIMARY KEY,
+        file_uri TEXT NOT NULL,
+        file_size INTEGER NOT NULL DEFAULT 0,
+        hash_verified INTEGER NOT NULL DEFAULT 0,
+        downloaded_at TEXT NOT NULL,
+        last_accessed_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_photo_cache_accessed ON photo_cache(last_accessed_at);
+    `,
+  },
+  {
+    version: 18,
+    description: "Admin user directory",
+    sql: `
+      -- Migration from v17 to v18: Admin user directory
+      CREATE TABLE IF NOT EXISTS managed_users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'INSPECTOR',
+        status TEXT NOT NULL DEFAULT 'ACTIVE',
+        company TEXT,
+        lbp_number TEXT,
+        years_experience INTEGER,
+        pending_action TEXT,
+        invited_at TEXT,
+        synced_at TEXT,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_managed_users_email ON managed_users(email);
+    `,
+  },
+  {
+    version: 19,
+    description: "Scheduled jobs",
+    sql: `
+      -- Migration from v18 to v19: Scheduled jobs
+      CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'SCHEDULED',
+        property_address TEXT NOT NULL,
+        property_city TEXT NOT NULL,
+        property_region TEXT,
+        property_postcode TEXT,
+        property_type TEXT,
+        client_name TEXT NOT NULL,
+        client_email TEXT,
+        client_phone TEXT,
+        inspection_type TEXT NOT NULL,
+        template_id TEXT,
+        due_date TEXT NOT NULL,
+        assigned_inspector_id TEXT NOT NULL,
+        assigned_inspector_name TEXT,
+        notes TEXT,
+        report_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        downloaded_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON scheduled_jobs(due_date);
+    `,
+  },
+  {
+    version: 20,
+    description: "Add structured weather to reports",
+    sql: `
+      -- Migration from v19 to v20: Add structured weather to reports
+      ALTER TABLE reports ADD COLUMN weather_json TEXT;
+    `,
+  },
+  {
+    version: 21,
+    description: "Add measurement inputs to roof elements",
+    sql: `
+      -- Migration from v20 to v21: Add measurement inputs to roof elements
+      ALTER TABLE roof_elements ADD COLUMN measurement_json TEXT;
+    `,
+  },
+  {
+    version: 22,
+    description: "Add transcription jobs to voice notes",
+    sql: `
+      -- Migration from v21 to v22: Add transcription jobs to voice notes
+      ALTER TABLE voice_notes ADD COLUMN transcription_status TEXT NOT NULL DEFAULT 'none';
+      ALTER TABLE voice_notes ADD COLUMN transcription_hash TEXT;
+      ALTER TABLE voice_notes ADD COLUMN transcription_engine TEXT;
+      ALTER TABLE voice_notes ADD COLUMN transcription_attempts INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE voice_notes ADD COLUMN transcription_error TEXT;
+      ALTER TABLE voice_notes ADD COLUMN transcription_next_attempt_at TEXT;
+      ALTER TABLE voice_notes ADD COLUMN transcribed_at TEXT;
+      -- Queue notes recorded before transcription existed
+      UPDATE voice_notes SET transcription_status = 'pending' WHERE transcription IS NULL;
+      UPDATE voice_notes SET transcription_status = 'completed' WHERE transcription IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_voice_notes_transcription_status ON voice_notes(transcription_status);
+    `,
+  },
+  {
+    version: 23,
+    description: "Add dictation field to voice notes",
+    sql: `
+      -- Migration from v22 to v23: Add dictation field to voice notes
+      ALTER TABLE voice_notes ADD COLUMN dictation_field TEXT;
+    `,
+  },
+  {
+    version: 24,
+    description: "Sync queue deferral and media sync state",
+    sql: `
+      -- Migration from v23 to v24: Manual repair from the sync queue inspector
+      ALTER TABLE sync_queue ADD COLUMN next_attempt_at TEXT;
+      CREATE TABLE IF NOT EXISTS media_sync_state (
+        entity_type TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        attempt_count INTEGER NOT NULL DEFAULT 0,
+        deferred_until TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (entity_type, entity_id)
+      );
+    `,
+  },
+  {
+    version: 25,
+    description: "Add deletion tombstones",
+    sql: `
+      -- Migration from v24 to v25: Keep deleted rows until the server acknowledges the deletion
+      ALTER TABLE reports ADD COLUMN deleted_at TEXT;
+      ALTER TABLE roof_elements ADD COLUMN deleted_at TEXT;
+      ALTER TABLE defects ADD COLUMN deleted_at TEXT;
+      ALTER TABLE photos ADD COLUMN deleted_at TEXT;
+      ALTER TABLE voice_notes ADD COLUMN deleted_at TEXT;
+      ALTER TABLE videos ADD COLUMN deleted_at TEXT;
+    `,
+  },
+  {
+    version: 26,
+    description: "Add superseded dictation takes",
+    sql: `
+      -- Migration from v25 to v26: Keep earlier dictation takes instead of deleting them
+      ALTER TABLE voice_notes ADD COLUMN superseded_by TEXT;
+    `,
+  },
 ];
@@ -68,6 +68,70 @@ export interface ChainOfCustodyEvent {
   hashAtTime: string | null;
   /** Additional context about the event */
   details: string | null;
+  /** 1-based position in the entity's hash chain (null for legacy events) */
+  sequence: number | null;
+  /** Hash of the previous event for the same entity (null for the first event) */
+  prevHash: string | null;
+  /** SHA-256 of this event's canonical content, including prevHash */
+  eventHash: string | null;
+  /** Hash of the first event in the entity's chain */
+  chainRoot: string | null;
+}
+
+/**
+ * Kinds of problems found when verifying a custody chain
+ *
+ * - TAMPERED: stored content no longer matches its eventHash
+ * - BROKEN_LINK: prevHash does not match the preceding event's hash
+ * - SEQUENCE_GAP: one or more events are missing from the sequence
+ * - DUPLICATE_SEQUENCE: two events claim the same position
+ * - ROOT_MISMATCH: event carries a different chain root than the chain
+ * - REORDERED: timestamps run backwards relative to the sequence
+ * - UNCHAINED: event was recorded without a hash (pre-chain legacy row)
+ */
+export type CustodyChainIssueType =
+  | "TAMPERED"
+  | "BROKEN_LINK"
+  | "SEQUENCE_GAP"
+  | "DUPLICATE_SEQUENCE"
+  | "ROOT_MISMATCH"
+  | "REORDERED"
+  | "UNCHAINED";
+
+/**
+ * A single problem found in a custody chain
+ */
+export interface CustodyChainIssue {
+  type: CustodyChainIssueType;
+  /** ID of the event where the problem was detected */
+  eventId: string;
+  /** Sequence number of that event (null for unchained events) */
+  sequence: number | null;
+  /** Human-readable description for reports and logs */
+  message: string;
+}
+
+/**
+ * Result of verifying an entity's custody chain
+ *
+ * A chain is valid when every chained event re-hashes to its stored hash,
+ * links to its predecessor, and sequence numbers are contiguous from 1.
+ * Legacy unchained events are reported but do not invalidate the chain.
+ */
+export interface CustodyChainVerification {
+  isValid: boolean;
+  entityType: "photo" | "video" | "voice_note";
+  entityId: string;
+  /** Number of hash-chained events checked */
+  eventCount: number;
+  /** Number of legacy events recorded before hash chaining existed */
+  legacyEventCount: number;
+  /** Root hash of the chain (null if no chained events) */
+  chainRoot: string | null;
+  /** Hash of the most recent event; compare with a server copy to detect truncation */
+  headHash: string | null;
+  issues: CustodyChainIssue[];
+  verifiedAt: string;
 }
 
 /**
@@ -112,6 +176,12 @@ export interface StoragePaths {
   thumbnails: string;
   /** Temporary files during capture */
   temp: string;
+  /** Generated export bundles awaiting share */
+  exports: string;
+  /** Lazily downloaded server photos, evicted least-recently-used */
+  photoCache: string;
+  /** Rotating redacted app logs for diagnostics */
+  logs: string;
 }
 
 /**
@@ -118,6 +118,31 @@ export enum ComplianceStatus {
   NOT_INSPECTED = "NOT_INSPECTED",
 }
 
+export enum WeatherCondition {
+  CLEAR = "CLEAR",
+  PARTLY_CLOUDY = "PARTLY_CLOUDY",
+  OVERCAST = "OVERCAST",
+  FOG = "FOG",
+  DRIZZLE = "DRIZZLE",
+  RAIN = "RAIN",
+  HEAVY_RAIN = "HEAVY_RAIN",
+  HAIL = "HAIL",
+}
+
+export enum WindLevel {
+  CALM = "CALM",
+  LIGHT = "LIGHT",
+  MODERATE = "MODERATE",
+  STRONG = "STRONG",
+  GALE = "GALE",
+}
+
+export enum RoofSurfaceState {
+  DRY = "DRY",
+  DAMP = "DAMP",
+  WET = "WET",
+}
+
 // ============================================
 // INTERFACES - Match Prisma models
 // ============================================
@@ -159,6 +184,7 @@ export interface Report {
   inspectionDate: string;
   inspectionType: InspectionType;
   weatherConditions: string | null;
+  weather?: WeatherRecord | null;
   accessMethod: string | null;
   limitations: string | null;
 
@@ -207,6 +233,7 @@ export interface RoofElement {
   manufacturer: string | null;
   pitch: number | null;
   area: number | null;
+  measurement?: RoofMeasurementRecord | null;
   conditionRating: ConditionRating | null;
   conditionNotes: string | null;
 
@@ -316,6 +343,25 @@ export interface ReportTemplate {
   updatedAt: string;
 }
 
+export interface DefectTemplate {
+  id: string;
+  name: string;
+  elementType: ElementType | null;
+  classification: DefectClass;
+  severity: DefectSeverity;
+  title: string;
+  observation: string;
+  analysis: string | null;
+  opinion: string | null;
+  codeReference: string | null;
+  copReference: string | null;
+  recommendation: string | null;
+  priorityLevel: PriorityLevel | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Checklist {
   id: string;
   name: string;
@@ -335,6 +381,43 @@ export interface ChecklistItem {
   notes?: string;
 }
 
+// ============================================
+// ROOF PLAN SKETCH
+// ============================================
+
+/**
+ * Point on the roof plan, normalised to 0..1 of the (square) sketch area
+ */
+export interface RoofPlanPoint {
+  x: number;
+  y: number;
+}
+
+export interface RoofPlanRegion {
+  id: string;
+  elementType: ElementType;
+  /** Roof element this region documents, if one has been recorded */
+  roofElementId: string | null;
+  label: string | null;
+  points: RoofPlanPoint[];
+}
+
+export interface RoofPlanPin {
+  id: string;
+  defectId: string;
+  x: number;
+  y: number;
+}
+
+export interface RoofPlan {
+  version: 1;
+  outline: RoofPlanPoint[];
+  regions: RoofPlanRegion[];
+  pins: RoofPlanPin[];
+  /** Compass bearing of plan "up", in degrees (null if not recorded) */
+  northBearing: number | null;
+}
+
 // ============================================
 // API RESPONSE TYPES
 // ============================================
@@ -344,14 +427,288 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   message?: string;
+  /** HTTP status of a failed request (0 if the server was not reached) */
+  status?: number;
 }
 
 export interface BootstrapResponse {
   user: User;
   checklists: Checklist[];
   templates: ReportTemplate[];
+  /** Defect library; absent from servers that predate it */
+  defectTemplates?: DefectTemplate[];
   recentReports: ReportSummary[];
   lastSyncAt: string;
+  /** Pending wipe/deprovision instruction for this device */
+  deviceDirective?: DeviceDirective | null;
+  /** Open jobs assigned to this user; absent from servers that predate scheduling */
+  scheduledJobs?: ScheduledJob[];
+}
+
+// ============================================
+// ADMIN USER MANAGEMENT
+// ============================================
+
+export type UserAdminActionType = "SUSPEND" | "ACTIVATE" | "CHANGE_ROLE" | "INVITE";
+
+export interface UserInvite {
+  email: string;
+  name: string;
+  role: UserRole;
+  company: string | null;
+}
+
+/**
+ * An admin action on a user, sent straight to the server when online or
+ * queued in sync_queue when offline
+ */
+export interface UserAdminAction {
+  type: UserAdminActionType;
+  /** Target user; a temporary "invite_" id for invitations */
+  userId: string;
+  /** New role for CHANGE_ROLE */
+  role?: UserRole;
+  /** Invitation details for INVITE */
+  invite?: UserInvite;
+  reason?: string | null;
+  requestedAt: string;
+}
+
+// ============================================
+// ADMIN ANALYTICS
+// ============================================
+
+/** Inclusive date range as ISO strings; null means unbounded */
+export interface AnalyticsDateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface InspectorWeekCount {
+  inspectorId: string;
+  inspectorName: string;
+  /** Monday of the week (YYYY-MM-DD, UTC) */
+  weekStart: string;
+  reports: number;
+}
+
+export interface ApprovalTimeStats {
+  approvedReports: number;
+  averageHours: number | null;
+  medianHours: number | null;
+}
+
+export interface ReviewOutcomeStats {
+  reviewed: number;
+  approvals: number;
+  rejections: number;
+  revisions: number;
+  /** Share of review decisions, 0..1 (null with no decisions) */
+  rejectionRate: number | null;
+  revisionRate: number | null;
+}
+
+export interface DistributionBucket {
+  key: string;
+  count: number;
+}
+
+export interface RegionHeatCell {
+  region: string;
+  reports: number;
+  defects: number;
+  /** Reports relative to the busiest region, 0..1 */
+  intensity: number;
+}
+
+/**
+ * Aggregated analytics for the admin dashboard, computed locally or
+ * returned by the server in the same shape
+ */
+export interface AdminAnalytics {
+  range: AnalyticsDateRange;
+  generatedAt: string;
+  source: "local" | "server";
+  totalReports: number;
+  totalDefects: number;
+  reportsPerInspectorWeek: InspectorWeekCount[];
+  approvalTime: ApprovalTimeStats;
+  reviewOutcomes: ReviewOutcomeStats;
+  defectsByClass: DistributionBucket[];
+  defectsBySeverity: DistributionBucket[];
+  defectsByElementType: DistributionBucket[];
+  regions: RegionHeatCell[];
+}
+
+// ============================================
+// ROOF MEASUREMENT
+// ============================================
+
+export type RoofShape = "GABLE" | "HIP" | "SKILLION";
+
+/** How the pitch was measured */
+export type PitchMethod = "RISE_RUN" | "INCLINOMETER" | "MANUAL";
+
+/**
+ * Where the area came from. PHOTO_POLYGON areas are measured on a
+ * calibrated photo, either looking straight down (plan) or square to the
+ * roof plane (slope).
+ */
+export type AreaMethod = "DIMENSIONS" | "PLAN_AREA" | "PHOTO_POLYGON" | "MANUAL";
+
+export interface PitchCalculation {
+  method: PitchMethod;
+  riseMm: number | null;
+  runMm: number | null;
+  /** Raw reading as shown on the inclinometer */
+  inclinometerDegrees: number | null;
+  degrees: number;
+}
+
+export interface AreaCalculation {
+  method: AreaMethod;
+  shape: RoofShape;
+  lengthM: number | null;
+  widthM: number | null;
+  planAreaM2: number | null;
+  photoId: string | null;
+  measurementId: string | null;
+  photoPlane: "PLAN" | "SLOPE" | null;
+  calibrationReference: string | null;
+  trueAreaM2: number;
+}
+
+/**
+ * Inputs behind a roof element's pitch and area, kept for review
+ *
+ * `version` is the record's schema version.
+ */
+export interface RoofMeasurementRecord {
+  version: number;
+  pitch: PitchCalculation | null;
+  area: AreaCalculation | null;
+  calculatedAt: string;
+}
+
+// ============================================
+// WEATHER
+// ============================================
+
+/**
+ * Where a weather record's values came from. MANUAL once the inspector
+ * has edited any field, otherwise the provider that pre-filled it.
+ */
+export type WeatherSource = "MANUAL" | "PROVIDER";
+
+/**
+ * Weather at the time of inspection
+ *
+ * `version` is the record's schema version so older records can still be
+ * read after fields are added.
+ */
+export interface WeatherRecord {
+  version: number;
+  conditions: WeatherCondition;
+  temperatureC: number | null;
+  wind: WindLevel;
+  windSpeedKmh: number | null;
+  /** Rain in the 24 hours before the inspection */
+  recentRain: boolean;
+  roofSurface: RoofSurfaceState;
+  capturedAt: string;
+  source: WeatherSource;
+  providerId: string | null;
+}
+
+// ============================================
+// SCHEDULED JOBS
+// ============================================
+
+export type ScheduledJobStatus = "SCHEDULED" | "IN_PROGRESS" | "COMPLETED" | "CANCELLED";
+
+/**
+ * An inspection booked by an admin and assigned to an inspector
+ *
+ * Downloaded at bootstrap; starting it creates the report pre-filled
+ * from these details.
+ */
+export interface ScheduledJob {
+  id: string;
+  status: ScheduledJobStatus;
+  propertyAddress: string;
+  propertyCity: string;
+  propertyRegion: string | null;
+  propertyPostcode: string | null;
+  propertyType: PropertyType | null;
+  clientName: string;
+  clientEmail: string | null;
+  clientPhone: string | null;
+  inspectionType: InspectionType;
+  templateId: string | null;
+  dueDate: string;
+  assignedInspectorId: string;
+  assignedInspectorName: string | null;
+  notes: string | null;
+  /** Report created from the job, once started */
+  reportId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Fields an admin supplies when booking a job */
+export type ScheduledJobInput = Pick<
+  ScheduledJob,
+  | "propertyAddress"
+  | "propertyCity"
+  | "propertyRegion"
+  | "propertyPostcode"
+  | "propertyType"
+  | "clientName"
+  | "clientEmail"
+  | "clientPhone"
+  | "inspectionType"
+  | "templateId"
+  | "dueDate"
+  | "assignedInspectorId"
+  | "notes"
+>;
+
+// ============================================
+// DEVICE DIRECTIVES (Server → Mobile)
+// ============================================
+
+/**
+ * WIPE removes all inspection data from the device and signs out.
+ * DEPROVISION also forgets the device ID and device preferences, so
+ * the device is enrolled again from scratch on next sign in.
+ */
+export type DeviceDirectiveAction = "WIPE" | "DEPROVISION";
+
+/**
+ * Instruction issued by an admin (e.g. for a lost phone), delivered with
+ * bootstrap and session validation responses
+ */
+export interface DeviceDirective {
+  id: string;
+  action: DeviceDirectiveAction;
+  issuedAt: string;
+  issuedBy: string | null;
+  reason: string | null;
+}
+
+/**
+ * Sent back once a directive has been carried out, before the token is
+ * discarded. Counts let the server see what could not be pushed first.
+ */
+export interface DeviceDirectiveReceipt {
+  deviceId: string;
+  action: DeviceDirectiveAction;
+  completedAt: string;
+  pushed: { reports: number; photos: number };
+  /** Left on the device when it was wiped; custodyEvents counts events that never reached the server */
+  unsynced: { reports: number; photos: number; videos: number; voiceNotes: number; custodyEvents: number };
+  evidenceItemsRemoved: number;
+  errors: string[];
 }
 
 export interface ReportSummary {
@@ -373,6 +730,7 @@ export interface ReportSummary {
   defects?: DownloadedDefect[];
   roofElements?: DownloadedRoofElement[];
   complianceAssessment?: DownloadedComplianceAssessment | null;
+  roofPlan?: DownloadedRoofPlan | null;
 }
 
 // ============================================
@@ -440,6 +798,7 @@ export interface DownloadedRoofElement {
   manufacturer: string | null;
   pitch: number | null;
   area: number | null;
+  measurement?: RoofMeasurementRecord | null;
   conditionRating: ConditionRating | null;
   conditionNotes: string | null;
   createdAt: string;
@@ -455,6 +814,67 @@ export interface DownloadedComplianceAssessment {
   updatedAt: string;
 }
 
+export interface DownloadedRoofPlan {
+  id: string;
+  reportId: string;
+  plan: RoofPlan;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================
+// DELTA DOWNLOAD TYPES (Server → Mobile)
+// ============================================
+
+/** Report header as returned in a delta graph (no nested relations) */
+export interface DownloadedReport
+  extends Omit<Report, "inspector" | "photos" | "defects" | "roofElements" | "complianceAssessment"> {
+  approvedAt: string | null;
+}
+
+/** A complete report with every related record, as of the delta cursor */
+export interface ReportGraph {
+  report: DownloadedReport;
+  roofElements: DownloadedRoofElement[];
+  defects: DownloadedDefect[];
+  photos: DownloadedPhoto[];
+  complianceAssessment: DownloadedComplianceAssessment | null;
+  roofPlan?: DownloadedRoofPlan | null;
+}
+
+export type TombstoneEntityType =
+  | "report"
+  | "element"
+  | "defect"
+  | "photo"
+  | "video"
+  | "voiceNote"
+  | "compliance"
+  | "roofPlan";
+
+/** Server-side deletion since the previous cursor */
+export interface SyncTombstone {
+  entityType: TombstoneEntityType;
+  entityId: string;
+  reportId: string | null;
+  deletedAt: string;
+}
+
+/**
+ * GET /api/sync/delta response
+ *
+ * `cursor` is opaque; pass it back as `since` to continue. When the
+ * server has purged tombstones older than `since` it sets cursorExpired
+ * and the client restarts from an empty cursor.
+ */
+export interface ReportDeltaResponse {
+  reports: ReportGraph[];
+  tombstones: SyncTombstone[];
+  cursor: string;
+  hasMore: boolean;
+  cursorExpired?: boolean;
+}
+
 // ============================================
 // SYNC TYPES
 // ============================================
@@ -476,16 +896,45 @@ export type SyncStatus = "draft" | "pending" | "processing" | "synced" | "error"
 
 export type PhotoSyncStatus = "captured" | "pending" | "processing" | "uploaded" | "synced" | "error";
 
+/**
+ * Voice note transcription progress: "none" for notes never queued,
+ * "pending" while waiting for (or between) attempts
+ */
+export type TranscriptionStatus = "none" | "pending" | "processing" | "completed" | "failed";
+
+/**
+ * Defect field a voice note was dictated for
+ */
+export type DictationField = "observation" | "analysis" | "opinion";
+
 // ============================================
 // SYNC UPLOAD TYPES (match server endpoint)
 // ============================================
 
 export interface SyncUploadPayload {
   reports: ReportSync[];
+  /** Whole reports deleted on this device */
+  deletedReports?: DeletionSync[];
   deviceId: string;
   syncTimestamp: string;
 }
 
+/**
+ * A local deletion sent to the server
+ *
+ * The idempotency key is stable per entity, so a deletion retried after a
+ * lost acknowledgement is applied once. Photos carry their original hash
+ * so the server can close the evidence custody chain.
+ */
+export interface DeletionSync {
+  entityType: TombstoneEntityType;
+  entityId: string;
+  reportId: string | null;
+  idempotencyKey: string;
+  deletedAt: string;
+  originalHash?: string | null;
+}
+
 export interface ReportSync {
   id: string;
   reportNumber: string;
@@ -501,6 +950,7 @@ export interface ReportSync {
   inspectionDate: string;
   inspectionType: InspectionType;
   weatherConditions: string | null;
+  weather?: WeatherRecord | null;
   accessMethod: string | null;
   limitations: string | null;
   clientName: string;
@@ -517,7 +967,11 @@ export interface ReportSync {
   elements?: RoofElementSync[];
   defects?: DefectSync[];
   compliance?: ComplianceAssessmentSync | null;
+  roofPlan?: RoofPlanSync | null;
   photoMetadata?: PhotoMetadataSync[];
+  deletions?: DeletionSync[];
+  /** Scheduled job the report was started from */
+  jobId?: string | null;
 }
 
 export interface RoofElementSync {
@@ -529,6 +983,7 @@ export interface RoofElementSync {
   manufacturer: string | null;
   pitch: number | null;
   area: number | null;
+  measurement?: RoofMeasurementRecord | null;
   conditionRating: ConditionRating | null;
   conditionNotes: string | null;
   clientUpdatedAt?: string;
@@ -562,6 +1017,12 @@ export interface ComplianceAssessmentSync {
   clientUpdatedAt?: string;
 }
 
+export interface RoofPlanSync {
+  id: string;
+  plan: RoofPlan;
+  clientUpdatedAt?: string;
+}
+
 export interface PhotoMetadataSync {
   id: string;
   photoType: PhotoType;
@@ -608,5 +1069,7 @@ export interface SyncUploadResponse {
       photoId: string;
       uploadUrl: string;
     }[];
+    /** Idempotency keys of deletions the server has applied */
+    acknowledgedDeletions?: string[];
   };
 }
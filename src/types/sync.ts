@@ -3,7 +3,7 @@
  * Types for offline sync engine
  */
 
-import type { Checklist, ReportTemplate, ReportSummary, User } from "./shared";
+import type { Checklist, ReportTemplate, DefectTemplate, ReportSummary, User } from "./shared";
 
 // ============================================
 // SYNC ENGINE TYPES
@@ -47,6 +47,7 @@ export interface BootstrapData {
   user: User;
   checklists: Checklist[];
   templates: ReportTemplate[];
+  defectTemplates?: DefectTemplate[];
   recentReports: ReportSummary[];
   lastSyncAt: string;
 }
@@ -75,13 +76,46 @@ export interface QueuedOperation {
 
 export type ConflictResolution = "keep_local" | "keep_server" | "merge";
 
+/** Entities that carry a base version and are merged field by field */
+export type MergeEntityType = "report" | "defect" | "element";
+
+/** A field changed differently on both device and server since the base version */
+export interface FieldConflict {
+  field: string;
+  baseValue: unknown;
+  localValue: unknown;
+  serverValue: unknown;
+}
+
+export interface FieldMergeResult {
+  merged: Record<string, unknown>;
+  /** Fields changed on one side only, taken automatically */
+  autoResolved: Array<{ field: string; source: "local" | "server" }>;
+  conflicts: FieldConflict[];
+}
+
 export interface SyncConflict {
+  id: string; // {entityType}:{entityId}
+  reportId: string;
   entityType: EntityType;
   entityId: string;
+  /** Human label, e.g. "Defect #3: Corroded flashing" */
+  label: string;
   localVersion: Record<string, unknown>;
   serverVersion: Record<string, unknown>;
   localUpdatedAt: string;
   serverUpdatedAt: string;
+  /** Only the fields that truly conflict */
+  fieldConflicts: FieldConflict[];
+  /** Fields merged without asking */
+  autoResolvedFields: string[];
+}
+
+export interface ConflictResolutionInput {
+  conflictId: string;
+  resolution: ConflictResolution;
+  /** Per-field choice when resolution is "merge" */
+  fieldResolutions?: Record<string, "keep_local" | "keep_server">;
 }
 
 // ============================================
@@ -0,0 +1,65 @@
+/**
+ * Report Validation Types
+ * Shape of the pre-submit validation result shown in PreSubmitChecklist
+ * and enforced by reviewService.submitForReview.
+ *
+ * Mirrors the validation payload returned by the web backend's
+ * GET /reports/:id/submit so screens can use either source.
+ */
+
+import type { InspectionType } from "./shared";
+
+// ============================================
+// VALIDATION RESULT
+// ============================================
+
+export interface ValidationDetails {
+  propertyDetails: { complete: boolean; missing: string[] };
+  inspectionDetails: { complete: boolean; missing: string[] };
+  roofElements: { complete: boolean; count: number; minimum: number };
+  defects: { documented: boolean; count: number };
+  photos: {
+    sufficient: boolean;
+    count: number;
+    minimum: number;
+    withExif: number;
+    withGps: number;
+  };
+  compliance: { complete: boolean; coverage: number; required: number };
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  completionPercentage: number;
+  missingRequiredItems: string[];
+  validationDetails: ValidationDetails;
+}
+
+// ============================================
+// VALIDATION RULES
+// ============================================
+
+/**
+ * Rules applied to a report, resolved from its InspectionType
+ * and the downloaded template for that type.
+ */
+export interface ValidationRules {
+  inspectionType: InspectionType;
+  /** Template the rules were resolved from, if one was downloaded */
+  templateId: string | null;
+  minimumRoofElements: number;
+  minimumPhotos: number;
+  /** Every photo must carry capture EXIF (timestamp + camera) */
+  requireExif: boolean;
+  /** Every photo must carry GPS coordinates */
+  requireGps: boolean;
+  /** Visual/non-invasive reports must state their limitations */
+  requireLimitations: boolean;
+  requireCompliance: boolean;
+  /** Percentage of checklist items that must be assessed */
+  minimumComplianceCoverage: number;
+  /** Checklist ids/standards the template requires; empty means any downloaded checklist */
+  requiredChecklists: string[];
+}